@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { JournalModule } from '../journal/journal.module';
+import { AlgoEngineService } from './services/algo-engine.service';
+
+@Module({
+  imports: [JournalModule],
+  providers: [AlgoEngineService],
+  exports: [AlgoEngineService],
+})
+export class AlgosModule {}
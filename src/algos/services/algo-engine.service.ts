@@ -0,0 +1,810 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
+import { IBaseTradingService, IPerpetualMarketService } from '../../common/interfaces';
+import { SymbolNormalizerService } from '../../common/services/symbol-normalizer.service';
+import {
+  ApiResponse,
+  Candle,
+  ExchangeName,
+  Order,
+  OrderSide,
+  OrderStatus,
+  TimeInForce,
+} from '../../common/types/exchange.types';
+import { JsonStateFile } from '../../common/state';
+import { AlgoConfig } from '../../config/algo.config';
+import { generateClientOrderId } from '../../idempotency/shared/client-order-id';
+import { JournalService } from '../../journal/services/journal.service';
+import {
+  buildSlices,
+  getAveragePrice,
+  getDueQuantity,
+  getSliceCount,
+  getVolumeProfile,
+} from '../shared/algo-schedule';
+import { AlgoOrder, AlgoQuery, AlgoRequest, AlgoSlice, AlgoStatus, AlgoType } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Finished algos kept in the state file for GET /api/algos
+const MAX_FINISHED_ALGOS = 200;
+
+// Unexecuted quantity below this fraction of the order is rounding
+const QUANTITY_TOLERANCE = 1e-9;
+
+// Algos that work a resting limit order instead of scheduled market orders
+const isPassive = (type: AlgoType) => type === 'ICEBERG' || type === 'CHASE';
+
+// Candle sizes for the VWAP volume profile, largest first
+const PROFILE_INTERVALS: [string, number][] = [
+  ['1h', 3600000],
+  ['15m', 900000],
+  ['5m', 300000],
+  ['1m', 60000],
+];
+
+/**
+ * Execution algorithms: works a large order into the market as a series of smaller orders.
+ *
+ * TWAP spreads the order evenly over the duration; VWAP sizes slices by the volume traded in
+ * the same time-of-day windows over the past days. A slice that cannot be sent (limit price
+ * breached, participation cap, below the minimum order size, rejected) rolls its quantity into
+ * the next slice.
+ *
+ * ICEBERG and CHASE rest one limit order at a time instead. ICEBERG shows `visibleQuantity`
+ * at a fixed price and places the next slice once it fills; CHASE keeps a post-only order at
+ * the best bid (ask for a sell) and re-prices it as the book moves, no further than
+ * `maxDeviationBps` from the touch price it started at.
+ *
+ * State is written to a JSON file before each order goes out, so running algos resume after
+ * a restart and an order in flight at the time is looked up by its client ID.
+ */
+@Injectable()
+export class AlgoEngineService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AlgoEngineService.name);
+  private readonly config: AlgoConfig;
+  private readonly algos = new Map<string, AlgoOrder>();
+  private tickInterval?: NodeJS.Timeout;
+  private ticking = false;
+  private readonly stateFile: JsonStateFile<AlgoOrder[]>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly symbolNormalizer: SymbolNormalizerService,
+    private readonly journal: JournalService,
+  ) {
+    this.config = this.configService.get<AlgoConfig>('algo')!;
+    this.stateFile = new JsonStateFile(this.config.stateFile, 'algos', this.logger);
+  }
+
+  onModuleInit() {
+    for (const algo of this.loadState()) {
+      this.algos.set(algo.id, algo);
+    }
+
+    const running = this.getRunning().length;
+    if (running > 0) {
+      this.logger.log(`Resuming ${running} running algo(s)`);
+    }
+
+    this.tickInterval = setInterval(() => void this.runTick(), this.config.tickIntervalMs);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.tickInterval);
+    this.stateFile.saveSync(this.snapshot());
+  }
+
+  /**
+   * Start an execution algo
+   */
+  async startAlgo(request: AlgoRequest): Promise<ApiResponse<AlgoOrder>> {
+    try {
+      const quantity = parseFloat(request.quantity);
+      const sliceQuantity = this.parseOptional('slice quantity', request.sliceQuantity);
+      const limitPrice = this.parseOptional('limit price', request.limitPrice);
+      const price = this.parseOptional('price', request.price);
+      const visibleQuantity = this.parseOptional('visible quantity', request.visibleQuantity);
+
+      if (!(quantity > 0)) {
+        throw new Error(`Invalid quantity: ${request.quantity}`);
+      }
+      if (!isPassive(request.type) && !request.durationMs) {
+        throw new Error(`${request.type} needs durationMs`);
+      }
+      if (request.type === 'ICEBERG' && (!price || !visibleQuantity)) {
+        throw new Error('ICEBERG needs price and visibleQuantity');
+      }
+      if (request.type === 'CHASE' && !request.maxDeviationBps) {
+        throw new Error('CHASE needs maxDeviationBps');
+      }
+      if (!this.exchangeFactory.isAvailable(request.exchange, 'perpetual')) {
+        throw new Error(`Exchange ${request.exchange} with trading type perpetual not registered`);
+      }
+
+      const now = Date.now();
+      const exchangeSymbol = this.symbolNormalizer.toExchangeSymbol(
+        request.symbol,
+        request.exchange,
+      );
+      const algo: AlgoOrder = {
+        id: randomUUID(),
+        type: request.type,
+        exchange: request.exchange,
+        symbol: request.symbol,
+        exchangeSymbol,
+        side: request.side,
+        quantity,
+        executedQuantity: 0,
+        reduceOnly: request.reduceOnly,
+        strategy: this.journal.getStrategy(),
+        status: 'running',
+        startTime: now,
+        endTime: request.durationMs ? now + request.durationMs : undefined,
+        slices: [],
+        consecutiveFailures: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      if (isPassive(request.type)) {
+        Object.assign(algo, {
+          price,
+          visibleQuantity,
+          postOnly: request.postOnly,
+          maxDeviationBps: request.maxDeviationBps,
+        });
+        if (request.type === 'CHASE') {
+          const market = await this.getMarketService(request.exchange);
+          algo.anchorPrice = await this.getBookPrice(market, algo, 'passive');
+        }
+      } else {
+        Object.assign(algo, { limitPrice, participationRate: request.participationRate });
+        algo.slices = await this.planSlices(algo, request.durationMs, sliceQuantity);
+      }
+
+      this.algos.set(algo.id, algo);
+      await this.persist();
+      this.logger.log(
+        `Started ${algo.type} ${algo.id}: ${algo.side} ${quantity} ${exchangeSymbol} on ` +
+          `${algo.exchange}` +
+          (algo.slices.length
+            ? ` in ${algo.slices.length} slice(s) over ${request.durationMs / 1000}s`
+            : ''),
+      );
+
+      return { success: true, data: algo, timestamp: Date.now() };
+    } catch (error: any) {
+      this.logger.error('Error starting algo:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to start algo',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Running and recent algos, newest first
+   */
+  getAlgos(query: AlgoQuery = {}): ApiResponse<AlgoOrder[]> {
+    const algos = [...this.algos.values()]
+      .filter(algo => !query.status || algo.status === query.status)
+      .filter(algo => !query.exchange || algo.exchange === query.exchange)
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    return { success: true, data: algos, timestamp: Date.now() };
+  }
+
+  getAlgo(id: string): ApiResponse<AlgoOrder> {
+    const algo = this.algos.get(id);
+    if (!algo) {
+      return { success: false, error: `Algo ${id} not found`, timestamp: Date.now() };
+    }
+    return { success: true, data: algo, timestamp: Date.now() };
+  }
+
+  /**
+   * Stop the algo. Its resting limit order is cancelled; orders already filled stay.
+   */
+  async cancelAlgo(id: string): Promise<ApiResponse<AlgoOrder>> {
+    try {
+      const algo = this.algos.get(id);
+      if (!algo) {
+        throw new Error(`Algo ${id} not found`);
+      }
+      if (algo.status !== 'running') {
+        throw new Error(`Algo ${id} is already ${algo.status}`);
+      }
+
+      this.finish(algo, 'cancelled', 'Cancelled by request');
+      await this.cancelOpenOrders(algo);
+      await this.persist();
+      this.logger.log(`Cancelled algo ${id}`);
+
+      return { success: true, data: algo, timestamp: Date.now() };
+    } catch (error: any) {
+      this.logger.error('Error cancelling algo:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel algo',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  // ==================== Execution ====================
+
+  private async runTick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const algo of this.getRunning()) {
+        await this.advance(algo);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async advance(algo: AlgoOrder): Promise<void> {
+    try {
+      const market = await this.getMarketService(algo.exchange);
+      const trading = await this.exchangeFactory.getTradingService(algo.exchange, 'perpetual');
+
+      const interrupted = algo.slices.findIndex(slice => slice.status === 'submitting');
+      if (interrupted >= 0 && !(await this.reconcile(algo, algo.slices[interrupted], trading))) {
+        return;
+      }
+
+      if (isPassive(algo.type)) {
+        await this.workPassiveOrder(algo, market, trading);
+      } else {
+        await this.runSchedule(algo, market, trading);
+      }
+
+      if (
+        algo.status === 'running' &&
+        algo.quantity - algo.executedQuantity <= algo.quantity * QUANTITY_TOLERANCE
+      ) {
+        this.finish(algo, 'completed');
+      }
+
+      await this.persist();
+    } catch (error: any) {
+      this.logger.error(`Error running algo ${algo.id}:`, error.message);
+    }
+  }
+
+  /**
+   * Settle a slice whose order was being sent when the process stopped. Returns false while
+   * the exchange cannot be asked.
+   */
+  private async reconcile(
+    algo: AlgoOrder,
+    slice: AlgoSlice,
+    trading: IBaseTradingService,
+  ): Promise<boolean> {
+    const existing = await trading.getOrderByClientId(algo.exchangeSymbol, slice.clientOrderId!);
+
+    if (!existing.success) {
+      this.logger.warn(
+        `Could not look up ${algo.exchange} order ${slice.clientOrderId} of algo ${algo.id}: ` +
+          existing.error,
+      );
+      return false;
+    }
+
+    if (!existing.data) {
+      this.recordFailure(algo, slice, 'Order not placed before restart');
+    } else if (isPassive(algo.type)) {
+      // Picked up (filled, cancelled or still resting) by the next sync
+      slice.status = 'open';
+      slice.orderId = existing.data.orderId;
+    } else {
+      this.recordFill(algo, slice, existing.data);
+    }
+    return true;
+  }
+
+  private recordFailure(algo: AlgoOrder, slice: AlgoSlice, error: string): void {
+    slice.status = 'failed';
+    slice.reason = error;
+    algo.consecutiveFailures++;
+    algo.updatedAt = Date.now();
+    this.logger.warn(`Order of algo ${algo.id} failed: ${error}`);
+
+    if (algo.status === 'running' && algo.consecutiveFailures >= this.config.maxSliceFailures) {
+      this.finish(
+        algo,
+        'failed',
+        `${algo.consecutiveFailures} consecutive orders failed: ${error}`,
+      );
+    }
+  }
+
+  private skip(algo: AlgoOrder, slice: AlgoSlice, reason: string): void {
+    slice.status = 'skipped';
+    slice.reason = reason;
+    algo.updatedAt = Date.now();
+  }
+
+  private finish(algo: AlgoOrder, status: AlgoStatus, reason?: string): void {
+    for (const slice of algo.slices) {
+      if (slice.status === 'pending') this.skip(algo, slice, `Algo ${status}`);
+    }
+
+    algo.status = status;
+    algo.reason = reason;
+    algo.updatedAt = Date.now();
+    this.logger.log(
+      `Algo ${algo.id} ${status}: ${algo.executedQuantity} of ${algo.quantity} executed` +
+        (reason ? ` (${reason})` : ''),
+    );
+  }
+
+  /**
+   * Format a quantity for the exchange, or undefined when it is under the minimum order size
+   */
+  private async formatQuantity(
+    market: IPerpetualMarketService,
+    algo: AlgoOrder,
+    quantity: number,
+  ): Promise<string | undefined> {
+    const formatted = await market.formatQuantity(algo.exchangeSymbol, quantity.toString());
+    const limits = await market.getQuantityLimits(algo.exchangeSymbol);
+    const min = limits.success && limits.data ? parseFloat(limits.data.min) : 0;
+
+    return parseFloat(formatted) > 0 && parseFloat(formatted) >= min ? formatted : undefined;
+  }
+
+  /**
+   * Mark a slice as being sent and save that before the order goes out
+   */
+  private async beginSubmit(algo: AlgoOrder, slice: AlgoSlice): Promise<void> {
+    slice.status = 'submitting';
+    slice.clientOrderId = generateClientOrderId(
+      algo.exchange,
+      `algo:${algo.id}:${algo.slices.indexOf(slice)}`,
+    );
+    await this.persist();
+  }
+
+  // ==================== TWAP / VWAP ====================
+
+  private async planSlices(
+    algo: AlgoOrder,
+    durationMs: number,
+    sliceQuantity?: number,
+  ): Promise<AlgoSlice[]> {
+    const count = getSliceCount(
+      algo.quantity,
+      durationMs,
+      this.config.defaultSliceIntervalMs,
+      sliceQuantity,
+    );
+
+    let weights = new Array<number>(count).fill(1);
+    if (algo.type === 'VWAP') {
+      const market = await this.getMarketService(algo.exchange);
+      const profile = await this.getVolumeProfile(market, algo, durationMs, count);
+      if (profile) {
+        weights = profile;
+      } else {
+        this.logger.warn(`No volume history for ${algo.exchangeSymbol}, VWAP slices sized evenly`);
+      }
+    }
+
+    return buildSlices(algo.quantity, algo.startTime, durationMs, weights);
+  }
+
+  private async runSchedule(
+    algo: AlgoOrder,
+    market: IPerpetualMarketService,
+    trading: IBaseTradingService,
+  ): Promise<void> {
+    const now = Date.now();
+    const due = algo.slices
+      .map((slice, index) => ({ slice, index }))
+      .filter(({ slice }) => slice.status === 'pending' && slice.time <= now);
+
+    if (due.length > 0) {
+      // Slices that came due together (or while the process was down) go out as one
+      for (const { slice } of due.slice(0, -1)) {
+        this.skip(algo, slice, 'Merged into a later slice');
+      }
+      await this.executeSlice(algo, due[due.length - 1].index, market, trading);
+    }
+
+    const remaining = algo.quantity - algo.executedQuantity;
+    const pending = algo.slices.some(slice => slice.status === 'pending');
+    if (
+      algo.status === 'running' &&
+      remaining > algo.quantity * QUANTITY_TOLERANCE &&
+      !pending &&
+      Date.now() >= algo.endTime
+    ) {
+      this.finish(algo, 'expired', `${remaining} left unexecuted at the end of the duration`);
+    }
+  }
+
+  private async executeSlice(
+    algo: AlgoOrder,
+    index: number,
+    market: IPerpetualMarketService,
+    trading: IBaseTradingService,
+  ): Promise<void> {
+    const slice = algo.slices[index];
+    let quantity = getDueQuantity(algo, index);
+
+    if (algo.participationRate) {
+      const volume = await this.getTradedVolume(market, algo);
+      quantity = Math.min(quantity, volume * algo.participationRate);
+    }
+    if (quantity <= 0) {
+      this.skip(
+        algo,
+        slice,
+        algo.participationRate ? 'No volume to participate in' : 'Nothing due',
+      );
+      return;
+    }
+
+    if (algo.limitPrice) {
+      const price = await this.getBookPrice(market, algo, 'aggressive');
+      const breached =
+        algo.side === OrderSide.BUY ? price > algo.limitPrice : price < algo.limitPrice;
+      if (breached) {
+        this.skip(algo, slice, `Price ${price} beyond limit ${algo.limitPrice}`);
+        return;
+      }
+    }
+
+    const formatted = await this.formatQuantity(market, algo, quantity);
+    if (!formatted) {
+      this.skip(algo, slice, `Quantity ${quantity} below minimum order size`);
+      return;
+    }
+
+    slice.quantity = formatted;
+    await this.beginSubmit(algo, slice);
+
+    const result = await this.journal.runWithStrategy(algo.strategy, () =>
+      trading.placeMarketOrder({
+        symbol: algo.exchangeSymbol,
+        side: algo.side,
+        quantity: formatted,
+        clientOrderId: slice.clientOrderId,
+        reduceOnly: algo.reduceOnly,
+      }),
+    );
+
+    if (result.success && result.data) {
+      this.recordFill(algo, slice, result.data);
+    } else {
+      this.recordFailure(algo, slice, result.error || 'Order rejected');
+    }
+  }
+
+  /**
+   * Market orders fill in full; some exchanges acknowledge them before reporting the execution
+   */
+  private recordFill(algo: AlgoOrder, slice: AlgoSlice, order: Order): void {
+    const executed = parseFloat(order.executedQuantity) || parseFloat(slice.quantity!);
+
+    slice.status = 'filled';
+    slice.quantity = executed.toString();
+    slice.orderId = order.orderId;
+    slice.price = parseFloat(order.price) > 0 ? order.price : undefined;
+    slice.executedAt = Date.now();
+
+    algo.executedQuantity += executed;
+    algo.averagePrice = getAveragePrice(algo.slices);
+    algo.consecutiveFailures = 0;
+    algo.updatedAt = Date.now();
+  }
+
+  // ==================== Iceberg / chase ====================
+
+  /**
+   * Keep one limit order working: follow its fills, re-price it (CHASE) and replace it with
+   * the next visible slice once it is done
+   */
+  private async workPassiveOrder(
+    algo: AlgoOrder,
+    market: IPerpetualMarketService,
+    trading: IBaseTradingService,
+  ): Promise<void> {
+    const expired = algo.endTime !== undefined && Date.now() >= algo.endTime;
+    const open = algo.slices.find(slice => slice.status === 'open');
+
+    if (open && !(await this.syncOrder(algo, open, trading))) {
+      if (expired) {
+        await this.cancelOrder(algo, open, trading, 'Duration ended');
+      } else if (algo.type === 'CHASE') {
+        const price = await this.getChasePrice(market, algo);
+        if (price !== open.price) {
+          await this.cancelOrder(algo, open, trading, `Re-priced to ${price}`);
+        }
+      }
+      if (open.status === 'open') return;
+    }
+
+    const remaining = algo.quantity - algo.executedQuantity;
+    if (remaining <= algo.quantity * QUANTITY_TOLERANCE || algo.status !== 'running') return;
+
+    if (expired) {
+      this.finish(algo, 'expired', `${remaining} left unexecuted at the end of the duration`);
+      return;
+    }
+
+    const quantity = await this.formatQuantity(
+      market,
+      algo,
+      Math.min(algo.visibleQuantity ?? remaining, remaining),
+    );
+    if (!quantity) {
+      this.finish(algo, 'expired', `${remaining} left, below the minimum order size`);
+      return;
+    }
+
+    const price =
+      algo.type === 'CHASE'
+        ? await this.getChasePrice(market, algo)
+        : await market.formatPrice(algo.exchangeSymbol, algo.price!.toString());
+    const slice: AlgoSlice = {
+      time: Date.now(),
+      targetQuantity: parseFloat(quantity),
+      status: 'pending',
+      quantity,
+      price,
+      executedQuantity: 0,
+    };
+    algo.slices.push(slice);
+    await this.beginSubmit(algo, slice);
+
+    const result = await this.journal.runWithStrategy(algo.strategy, () =>
+      trading.placeLimitOrder({
+        symbol: algo.exchangeSymbol,
+        side: algo.side,
+        quantity,
+        price,
+        timeInForce: algo.type === 'CHASE' || algo.postOnly ? TimeInForce.GTX : TimeInForce.GTC,
+        clientOrderId: slice.clientOrderId,
+        reduceOnly: algo.reduceOnly,
+      }),
+    );
+
+    if (!result.success || !result.data) {
+      this.recordFailure(algo, slice, result.error || 'Order rejected');
+      return;
+    }
+
+    slice.status = 'open';
+    slice.orderId = result.data.orderId;
+    algo.consecutiveFailures = 0;
+    algo.updatedAt = Date.now();
+
+    // Cancelled while the order was being placed
+    if (algo.status !== 'running') {
+      await this.cancelOrder(algo, slice, trading, `Algo ${algo.status}`);
+    }
+  }
+
+  /**
+   * Apply the fills of a resting order. Returns true once the order is closed.
+   */
+  private async syncOrder(
+    algo: AlgoOrder,
+    slice: AlgoSlice,
+    trading: IBaseTradingService,
+  ): Promise<boolean> {
+    const result = await trading.getOrder(algo.exchangeSymbol, slice.orderId!);
+    if (!result.success || !result.data) {
+      throw new Error(`Could not get order ${slice.orderId}: ${result.error}`);
+    }
+
+    const order = result.data;
+    const executed = parseFloat(order.executedQuantity) || 0;
+    const filled = executed - (slice.executedQuantity ?? 0);
+
+    if (filled > 0) {
+      slice.executedQuantity = executed;
+      slice.executedAt = Date.now();
+      algo.executedQuantity += filled;
+      algo.averagePrice = getAveragePrice(algo.slices);
+      algo.updatedAt = Date.now();
+    }
+
+    switch (order.status) {
+      case OrderStatus.FILLED:
+        slice.status = 'filled';
+        return true;
+      case OrderStatus.CANCELED:
+        slice.status = 'cancelled';
+        slice.reason = slice.reason || 'Cancelled on the exchange';
+        return true;
+      case OrderStatus.REJECTED:
+      case OrderStatus.EXPIRED:
+        // Post-only orders that would have crossed the book end up here
+        if (executed > 0) {
+          slice.status = 'cancelled';
+          slice.reason = `Order ${order.status.toLowerCase()}`;
+        } else {
+          this.recordFailure(algo, slice, `Order ${order.status.toLowerCase()}`);
+        }
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Cancel a resting order and apply what it filled before the cancel took effect
+   */
+  private async cancelOrder(
+    algo: AlgoOrder,
+    slice: AlgoSlice,
+    trading: IBaseTradingService,
+    reason: string,
+  ): Promise<void> {
+    const result = await trading.cancelOrder({
+      symbol: algo.exchangeSymbol,
+      orderId: slice.orderId,
+    });
+    if (!result.success) {
+      this.logger.warn(
+        `Could not cancel order ${slice.orderId} of algo ${algo.id}: ${result.error}`,
+      );
+    }
+
+    slice.reason = reason;
+    await this.syncOrder(algo, slice, trading);
+  }
+
+  private async cancelOpenOrders(algo: AlgoOrder): Promise<void> {
+    const open = algo.slices.filter(slice => slice.status === 'open');
+    if (open.length === 0) return;
+
+    const trading = await this.exchangeFactory.getTradingService(algo.exchange, 'perpetual');
+    for (const slice of open) {
+      await this.cancelOrder(algo, slice, trading, 'Algo cancelled');
+    }
+  }
+
+  /**
+   * Best bid for a buy (best ask for a sell), kept within maxDeviationBps of where the chase
+   * started
+   */
+  private async getChasePrice(market: IPerpetualMarketService, algo: AlgoOrder): Promise<string> {
+    const touch = await this.getBookPrice(market, algo, 'passive');
+    const deviation = (algo.anchorPrice! * algo.maxDeviationBps!) / 10000;
+    const price =
+      algo.side === OrderSide.BUY
+        ? Math.min(touch, algo.anchorPrice! + deviation)
+        : Math.max(touch, algo.anchorPrice! - deviation);
+
+    return market.formatPrice(algo.exchangeSymbol, price.toString());
+  }
+
+  // ==================== Market data ====================
+
+  /**
+   * Top of the book on the side a market order would take ('aggressive': the ask for a buy)
+   * or a resting order would join ('passive': the bid for a buy)
+   */
+  private async getBookPrice(
+    market: IPerpetualMarketService,
+    algo: AlgoOrder,
+    side: 'aggressive' | 'passive',
+  ): Promise<number> {
+    const book = await market.getOrderBook(algo.exchangeSymbol, 5);
+    const asks = (algo.side === OrderSide.BUY) === (side === 'aggressive');
+    const level = asks ? book.data?.asks[0] : book.data?.bids[0];
+
+    if (!book.success || !level) {
+      throw new Error(`Order book unavailable: ${book.error || 'empty book'}`);
+    }
+    return parseFloat(level[0]);
+  }
+
+  /**
+   * Market volume since the previous slice executed (or the algo started)
+   */
+  private async getTradedVolume(market: IPerpetualMarketService, algo: AlgoOrder): Promise<number> {
+    const since = Math.max(algo.startTime, ...algo.slices.map(slice => slice.executedAt ?? 0));
+    const candles = await market.getCandles(algo.exchangeSymbol, '1m', since, Date.now());
+
+    if (!candles.success || !candles.data) {
+      throw new Error(`Candles unavailable: ${candles.error}`);
+    }
+    return candles.data.reduce((sum, candle) => sum + (parseFloat(candle.volume) || 0), 0);
+  }
+
+  /**
+   * Volume traded in each slice's time-of-day window, summed over the lookback days
+   */
+  private async getVolumeProfile(
+    market: IPerpetualMarketService,
+    algo: AlgoOrder,
+    durationMs: number,
+    count: number,
+  ): Promise<number[] | undefined> {
+    const sliceMs = durationMs / count;
+    const [interval, intervalMs] =
+      PROFILE_INTERVALS.find(([, ms]) => ms <= sliceMs) ??
+      PROFILE_INTERVALS[PROFILE_INTERVALS.length - 1];
+    const candles: Candle[] = [];
+
+    for (let day = 1; day <= this.config.vwapLookbackDays; day++) {
+      const offset = day * DAY_MS;
+      const result = await market.getCandles(
+        algo.exchangeSymbol,
+        interval,
+        algo.startTime - offset,
+        algo.startTime - offset + durationMs - 1,
+        Math.ceil(durationMs / intervalMs) + 1,
+      );
+
+      for (const candle of result.data ?? []) {
+        candles.push({ ...candle, openTime: candle.openTime + offset });
+      }
+    }
+
+    const profile = getVolumeProfile(candles, algo.startTime, durationMs, count);
+    return profile.some(volume => volume > 0) ? profile : undefined;
+  }
+
+  private async getMarketService(exchange: ExchangeName): Promise<IPerpetualMarketService> {
+    return (await this.exchangeFactory.getMarketService(
+      exchange,
+      'perpetual',
+    )) as IPerpetualMarketService;
+  }
+
+  private parseOptional(name: string, value?: string): number | undefined {
+    if (value === undefined) return undefined;
+
+    const parsed = parseFloat(value);
+    if (!(parsed > 0)) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+  }
+
+  private getRunning(): AlgoOrder[] {
+    return [...this.algos.values()].filter(algo => algo.status === 'running');
+  }
+
+  // ==================== Persistence ====================
+
+  private loadState(): AlgoOrder[] {
+    const algos = this.stateFile.load();
+    if (!algos) return [];
+
+    this.logger.log(`Loaded ${algos.length} algo(s) from ${this.stateFile.file}`);
+    return algos;
+  }
+
+  /**
+   * Running algos plus the most recently finished ones
+   */
+  private snapshot(): AlgoOrder[] {
+    const finished = [...this.algos.values()]
+      .filter(algo => algo.status !== 'running')
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+
+    for (const algo of finished.slice(MAX_FINISHED_ALGOS)) {
+      this.algos.delete(algo.id);
+    }
+    return [...this.algos.values()];
+  }
+
+  private persist(): Promise<void> {
+    return this.stateFile.save(this.snapshot());
+  }
+}
@@ -0,0 +1,96 @@
+import { Candle } from '../../common/types/exchange.types';
+import { AlgoOrder, AlgoSlice } from '../types';
+
+// Most slices one algo is split into
+export const MAX_SLICES = 1000;
+
+/**
+ * Number of slices: enough for `sliceQuantity` each when given, else one per
+ * `defaultIntervalMs` of the duration
+ */
+export function getSliceCount(
+  quantity: number,
+  durationMs: number,
+  defaultIntervalMs: number,
+  sliceQuantity?: number,
+): number {
+  const count = sliceQuantity
+    ? Math.ceil(quantity / sliceQuantity)
+    : Math.round(durationMs / defaultIntervalMs);
+
+  return Math.min(Math.max(count, 1), MAX_SLICES);
+}
+
+/**
+ * Evenly spaced slices over the duration, sized in proportion to `weights` (equal weights
+ * for TWAP)
+ */
+export function buildSlices(
+  quantity: number,
+  startTime: number,
+  durationMs: number,
+  weights: number[],
+): AlgoSlice[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return weights.map((weight, i) => ({
+    time: startTime + Math.floor((i * durationMs) / weights.length),
+    targetQuantity: total > 0 ? (quantity * weight) / total : quantity / weights.length,
+    status: 'pending',
+  }));
+}
+
+/**
+ * Traded volume falling in each of `count` equal buckets of the window. Candles from earlier
+ * days are expected to be shifted onto the window already, so they add up per time of day.
+ */
+export function getVolumeProfile(
+  candles: Candle[],
+  startTime: number,
+  durationMs: number,
+  count: number,
+): number[] {
+  const profile = new Array<number>(count).fill(0);
+
+  for (const candle of candles) {
+    const bucket = Math.floor(((candle.openTime - startTime) * count) / durationMs);
+    if (bucket >= 0 && bucket < count) {
+      profile[bucket] += parseFloat(candle.volume) || 0;
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Quantity slice `index` should send: the planned total up to and including it, less what
+ * has already executed
+ */
+export function getDueQuantity(algo: AlgoOrder, index: number): number {
+  const planned = algo.slices
+    .slice(0, index + 1)
+    .reduce((sum, slice) => sum + slice.targetQuantity, 0);
+  const remaining = algo.quantity - algo.executedQuantity;
+
+  return Math.max(Math.min(planned - algo.executedQuantity, remaining), 0);
+}
+
+/**
+ * Quantity-weighted price of the executions whose order reported a price
+ */
+export function getAveragePrice(slices: AlgoSlice[]): number | undefined {
+  let quantity = 0;
+  let notional = 0;
+
+  for (const slice of slices) {
+    const price = parseFloat(slice.price ?? '');
+    const executed =
+      slice.executedQuantity ?? (slice.status === 'filled' ? parseFloat(slice.quantity!) : 0);
+    if (!(executed > 0) || !(price > 0)) continue;
+
+    quantity += executed;
+    notional += executed * price;
+  }
+
+  return quantity > 0 ? notional / quantity : undefined;
+}
@@ -0,0 +1,91 @@
+import { ExchangeName, OrderSide } from '../../common/types/exchange.types';
+
+// TWAP/VWAP send scheduled market orders; ICEBERG/CHASE work one resting limit order at a time
+export type AlgoType = 'TWAP' | 'VWAP' | 'ICEBERG' | 'CHASE';
+
+export type AlgoStatus = 'running' | 'completed' | 'cancelled' | 'expired' | 'failed';
+
+// submitting: persisted with its client order ID before the order is sent;
+// open: a limit order resting on the exchange
+export type AlgoSliceStatus =
+  | 'pending'
+  | 'submitting'
+  | 'open'
+  | 'filled'
+  | 'cancelled'
+  | 'skipped'
+  | 'failed';
+
+export interface AlgoSlice {
+  // When the slice is due
+  time: number;
+  // Planned share of the order; quantity a slice could not send rolls into the next one
+  targetQuantity: number;
+  status: AlgoSliceStatus;
+  quantity?: string;
+  clientOrderId?: string;
+  orderId?: string;
+  price?: string;
+  // Filled so far, for limit orders (a filled market slice executed its whole quantity)
+  executedQuantity?: number;
+  reason?: string;
+  executedAt?: number;
+}
+
+export interface AlgoRequest {
+  type: AlgoType;
+  exchange: ExchangeName;
+  symbol: string;
+  side: OrderSide;
+  quantity: string;
+  // Required for TWAP/VWAP; ICEBERG/CHASE run until filled or cancelled without it
+  durationMs?: number;
+  sliceQuantity?: string;
+  limitPrice?: string;
+  participationRate?: number;
+  // ICEBERG limit price
+  price?: string;
+  // Size of the resting order (ICEBERG, optional for CHASE)
+  visibleQuantity?: string;
+  postOnly?: boolean;
+  // How far CHASE may follow the book from where it started
+  maxDeviationBps?: number;
+  reduceOnly?: boolean;
+}
+
+export interface AlgoOrder {
+  id: string;
+  type: AlgoType;
+  exchange: ExchangeName;
+  // Standard and exchange-specific formats
+  symbol: string;
+  exchangeSymbol: string;
+  side: OrderSide;
+  quantity: number;
+  executedQuantity: number;
+  // Quantity-weighted over slices whose order reported a price
+  averagePrice?: number;
+  limitPrice?: number;
+  participationRate?: number;
+  price?: number;
+  visibleQuantity?: number;
+  postOnly?: boolean;
+  maxDeviationBps?: number;
+  // Touch price when a CHASE started
+  anchorPrice?: number;
+  reduceOnly?: boolean;
+  strategy?: string;
+  status: AlgoStatus;
+  reason?: string;
+  startTime: number;
+  endTime?: number;
+  slices: AlgoSlice[];
+  consecutiveFailures: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AlgoQuery {
+  status?: AlgoStatus;
+  exchange?: ExchangeName;
+}
@@ -1,16 +1,69 @@
 import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
 import { CommonModule } from '../common/common.module';
+import { BacktestModule } from '../backtest/backtest.module';
+import { JournalModule } from '../journal/journal.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { RoutingModule } from '../routing/routing.module';
+import { AlgosModule } from '../algos/algos.module';
+import { OcoModule } from '../oco/oco.module';
+import { LaddersModule } from '../ladders/ladders.module';
+import { RiskModule } from '../risk/risk.module';
+import { MarginModule } from '../margin/margin.module';
 import { SymbolNormalizerMiddleware } from '../common/middleware/symbol-normalizer.middleware';
-import { TradingController, BalanceController, MarketController } from './controllers';
+import { StrategyTagMiddleware } from '../journal/middleware/strategy-tag.middleware';
+import { IdempotencyKeyMiddleware } from '../idempotency/middleware/idempotency-key.middleware';
+import { RiskContextMiddleware } from '../risk/middleware/risk-context.middleware';
+import {
+  TradingController,
+  BalanceController,
+  MarketController,
+  ExchangesController,
+  BacktestController,
+  JournalController,
+  RoutingController,
+  AlgosController,
+  OcoController,
+  RiskController,
+} from './controllers';
+import { MarketStreamGateway, UserDataGateway } from './gateways';
 
 @Module({
-  imports: [CommonModule],
-  controllers: [TradingController, BalanceController, MarketController],
+  imports: [
+    CommonModule,
+    BacktestModule,
+    JournalModule,
+    RiskModule,
+    IdempotencyModule,
+    RoutingModule,
+    AlgosModule,
+    OcoModule,
+    LaddersModule,
+    MarginModule,
+  ],
+  controllers: [
+    TradingController,
+    BalanceController,
+    MarketController,
+    ExchangesController,
+    BacktestController,
+    JournalController,
+    RoutingController,
+    AlgosController,
+    OcoController,
+    RiskController,
+  ],
+  providers: [MarketStreamGateway, UserDataGateway],
 })
 export class ApiModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     consumer
       .apply(SymbolNormalizerMiddleware)
       .forRoutes(TradingController, BalanceController, MarketController);
+    consumer
+      .apply(StrategyTagMiddleware, RiskContextMiddleware, IdempotencyKeyMiddleware)
+      .forRoutes(TradingController);
+    consumer
+      .apply(StrategyTagMiddleware, RiskContextMiddleware)
+      .forRoutes(RoutingController, AlgosController, OcoController);
   }
 }
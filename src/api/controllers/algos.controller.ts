@@ -0,0 +1,90 @@
+import { Body, Controller, Delete, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiHeader, ApiQuery } from '@nestjs/swagger';
+import { ApiKeyAuth } from '../../common/decorators/api-key.decorator';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { StartAlgoDto } from '../../common/dto/algo.dto';
+import { ExchangeName } from '../../common/types/exchange.types';
+import { AlgoEngineService } from '../../algos/services/algo-engine.service';
+import { AlgoStatus } from '../../algos/types';
+
+@ApiTags('Algos API')
+@ApiKeyAuth()
+@UseGuards(ApiKeyGuard)
+@ApiHeader({
+  name: 'X-Strategy-Tag',
+  required: false,
+  description: 'Strategy tag recorded with the slice orders in the journal',
+})
+@Controller('api/algos')
+export class AlgosController {
+  constructor(private readonly algoEngine: AlgoEngineService) {}
+
+  /**
+   * Start an execution algo
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Start a TWAP, VWAP, ICEBERG or CHASE execution algo',
+    description:
+      'TWAP/VWAP split the order into market order slices spread over the duration. VWAP sizes ' +
+      'the slices by the volume traded at the same time of day over the past days (getCandles). ' +
+      'Slices wait while the price is beyond limitPrice and take at most participationRate of ' +
+      'the volume traded since the previous slice; what a slice could not send rolls over. ' +
+      'ICEBERG rests visibleQuantity at price and places the next slice when it fills. CHASE ' +
+      'keeps a post-only order at the best bid (buy) or ask (sell), re-pricing it as the book ' +
+      'moves up to maxDeviationBps from the starting price.',
+  })
+  @ApiBody({ type: StartAlgoDto })
+  @ApiResponse({ status: 201, description: 'Algo started' })
+  async startAlgo(@Body() dto: StartAlgoDto) {
+    return this.algoEngine.startAlgo(dto);
+  }
+
+  /**
+   * List running and recent algos
+   */
+  @Get()
+  @ApiOperation({ summary: 'List running and recent algos, newest first' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['running', 'completed', 'cancelled', 'expired', 'failed'],
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+  })
+  @ApiResponse({ status: 200, description: 'Algos retrieved successfully' })
+  getAlgos(@Query('status') status?: string, @Query('exchange') exchange?: string) {
+    return this.algoEngine.getAlgos({
+      status: status as AlgoStatus,
+      exchange: exchange as ExchangeName,
+    });
+  }
+
+  /**
+   * Get one algo with its slices
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an algo with its slices' })
+  @ApiResponse({ status: 200, description: 'Algo retrieved successfully' })
+  getAlgo(@Param('id') id: string) {
+    return this.algoEngine.getAlgo(id);
+  }
+
+  /**
+   * Cancel a running algo
+   */
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Cancel a running algo',
+    description:
+      'No further slices are sent and a resting ICEBERG/CHASE order is cancelled; filled ' +
+      'orders stay as they are',
+  })
+  @ApiResponse({ status: 200, description: 'Algo cancelled' })
+  async cancelAlgo(@Param('id') id: string) {
+    return this.algoEngine.cancelAlgo(id);
+  }
+}
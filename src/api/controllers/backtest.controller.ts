@@ -0,0 +1,43 @@
+import { Body, Controller, Get, Post } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { ApiKeyAuth } from '../../common/decorators/api-key.decorator';
+import { BacktestDto } from '../../common/dto/backtest.dto';
+import { BacktestService } from '../../backtest/services/backtest.service';
+
+@ApiTags('Backtest API')
+@ApiKeyAuth()
+@Controller('api/backtest')
+export class BacktestController {
+  constructor(private readonly backtestService: BacktestService) {}
+
+  /**
+   * Run a backtest over historical candles
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Backtest a strategy on historical data',
+    description:
+      'Downloads (and caches) candles and funding rates, replays them through a simulated ' +
+      'account and returns the equity curve, drawdown, Sharpe ratio, fee and funding ' +
+      'breakdown and the trade list',
+  })
+  @ApiBody({ type: BacktestDto })
+  @ApiResponse({ status: 201, description: 'Backtest completed' })
+  async runBacktest(@Body() dto: BacktestDto) {
+    return this.backtestService.runBacktest(dto);
+  }
+
+  /**
+   * List built-in strategies
+   */
+  @Get('strategies')
+  @ApiOperation({ summary: 'List built-in backtest strategies and their parameters' })
+  @ApiResponse({ status: 200, description: 'Strategies retrieved successfully' })
+  getStrategies() {
+    return {
+      success: true,
+      data: this.backtestService.getStrategies(),
+      timestamp: Date.now(),
+    };
+  }
+}
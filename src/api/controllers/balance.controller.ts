@@ -1,9 +1,22 @@
-import { Controller, Get, Post, Body, Query, Param, Logger } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Param,
+  Logger,
+  NotImplementedException,
+  UseGuards,
+} from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
 import { ApiKeyAuth } from '../../common/decorators/api-key.decorator';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
 import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
 import { ExchangeName, TradingType } from '../../common/types/exchange.types';
 import { IPerpetualBalanceService } from '../../common/interfaces';
+import { SimulateMarginDto } from '../../common/dto/margin.dto';
+import { MarginSimulatorService } from '../../margin/services/margin-simulator.service';
 
 @ApiTags('Balance API')
 @ApiKeyAuth()
@@ -11,7 +24,10 @@ import { IPerpetualBalanceService } from '../../common/interfaces';
 export class BalanceController {
   private readonly logger = new Logger(BalanceController.name);
 
-  constructor(private readonly exchangeFactory: ExchangeServiceFactory) {}
+  constructor(
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly marginSimulator: MarginSimulatorService,
+  ) {}
 
   /**
    * Get default exchange parameters
@@ -48,18 +64,16 @@ export class BalanceController {
     example: 'okx',
   })
   @ApiResponse({ status: 200, description: 'Account config retrieved successfully' })
+  @ApiResponse({ status: 501, description: 'Account config not supported by exchange' })
   async getAccountConfig(@Query('exchange') exchange: string) {
-    if (exchange !== 'okx') {
-      throw new Error('Config is only supported for OKX');
-    }
-
-    const service = await this.getFuturesBalanceService('okx', 'perpetual');
+    const { exchange: ex } = this.getExchangeParams(exchange);
+    const service = await this.getFuturesBalanceService(ex, 'perpetual');
 
     if ('getAccountConfig' in service && typeof service.getAccountConfig === 'function') {
       return service.getAccountConfig();
     }
 
-    throw new Error('Config not supported by this service');
+    throw new NotImplementedException(`Account config is not supported on ${ex}`);
   }
 
   /**
@@ -70,7 +84,7 @@ export class BalanceController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -97,7 +111,7 @@ export class BalanceController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -126,7 +140,7 @@ export class BalanceController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -157,17 +171,17 @@ export class BalanceController {
     example: 'okx',
   })
   @ApiResponse({ status: 200, description: 'Transfer successful' })
+  @ApiResponse({ status: 501, description: 'Transfers not supported by exchange' })
   async transferFunds(
     @Query('exchange') exchange: string,
     @Body() body: { ccy: string; amt: number; from?: string; to?: string },
   ) {
-    if (exchange !== 'okx') {
-      throw new Error('Transfer is only supported for OKX');
-    }
+    const { exchange: ex } = this.getExchangeParams(exchange);
+    this.exchangeFactory.assertCapability(ex, 'perpetual', 'transfers', 'Transfer');
 
-    const service = await this.getFuturesBalanceService('okx', 'perpetual');
+    const service = await this.getFuturesBalanceService(ex, 'perpetual');
 
-    // Check if this is OKX service and has transferFunds method
+    // Transfers are exchange-specific, so the method is not part of the balance interface
     if ('transferFunds' in service && typeof service.transferFunds === 'function') {
       return service.transferFunds(
         body.ccy,
@@ -177,7 +191,7 @@ export class BalanceController {
       );
     }
 
-    throw new Error('Transfer not supported by this service');
+    throw new NotImplementedException(`Transfer is not supported on ${ex}`);
   }
 
   /**
@@ -188,7 +202,7 @@ export class BalanceController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -215,7 +229,7 @@ export class BalanceController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -252,7 +266,7 @@ export class BalanceController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -287,7 +301,7 @@ export class BalanceController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -314,7 +328,7 @@ export class BalanceController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -338,6 +352,22 @@ export class BalanceController {
     return service.calculateRequiredMargin(symbol, quantity!, leverage!);
   }
 
+  /**
+   * Simulate margin of hypothetical positions
+   */
+  @Post('simulate')
+  @UseGuards(ApiKeyGuard)
+  @ApiOperation({
+    summary: 'Simulate margin, liquidation prices and margin ratio of hypothetical positions',
+    description:
+      "Uses each exchange's maintenance margin tiers (leverage brackets) and taker fee. " +
+      'Positions without an entry or mark price are valued at the current mark price.',
+  })
+  @ApiResponse({ status: 201, description: 'Margin simulated successfully' })
+  async simulateMargin(@Body() dto: SimulateMarginDto) {
+    return this.marginSimulator.simulate(dto.accounts);
+  }
+
   /**
    * Calculate potential PnL
    */
@@ -346,7 +376,7 @@ export class BalanceController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -382,7 +412,7 @@ export class BalanceController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -0,0 +1,53 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ApiKeyAuth } from '../../common/decorators/api-key.decorator';
+import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
+import { RateLimiterService } from '../../common/services/rate-limiter.service';
+
+@ApiTags('Exchanges API')
+@ApiKeyAuth()
+@Controller('api/exchanges')
+export class ExchangesController {
+  constructor(
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly rateLimiter: RateLimiterService,
+  ) {}
+
+  /**
+   * Get capability matrix of all registered exchanges
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List registered exchanges and their capabilities',
+    description:
+      'Returns supported order types, hedge mode, conditional orders, transfers, ' +
+      'WebSocket streams and testnet availability for each exchange',
+  })
+  @ApiResponse({ status: 200, description: 'Capability matrix retrieved successfully' })
+  getExchanges() {
+    return {
+      success: true,
+      data: this.exchangeFactory.getCapabilityMatrix(),
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Get the remaining REST request budget of each exchange
+   */
+  @Get('rate-limits')
+  @ApiOperation({
+    summary: 'Get rate limit budgets',
+    description:
+      'Returns used and remaining request weight and order counts per exchange limit ' +
+      '(per endpoint for OKX and Orderly) and whether the exchange asked us to back off',
+  })
+  @ApiResponse({ status: 200, description: 'Rate limit budgets retrieved successfully' })
+  getRateLimits() {
+    return {
+      success: true,
+      data: this.rateLimiter.getStatus(),
+      timestamp: Date.now(),
+    };
+  }
+}
@@ -1,3 +1,10 @@
 export * from './trading.controller';
 export * from './balance.controller';
 export * from './market.controller';
+export * from './exchanges.controller';
+export * from './backtest.controller';
+export * from './journal.controller';
+export * from './routing.controller';
+export * from './algos.controller';
+export * from './oco.controller';
+export * from './risk.controller';
@@ -0,0 +1,102 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { ApiKeyAuth } from '../../common/decorators/api-key.decorator';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { ExchangeName } from '../../common/types/exchange.types';
+import { JournalService } from '../../journal/services/journal.service';
+
+@ApiTags('Journal API')
+@ApiKeyAuth()
+@UseGuards(ApiKeyGuard)
+@Controller('api/journal')
+export class JournalController {
+  constructor(private readonly journalService: JournalService) {}
+
+  /**
+   * Get journaled order placements, cancellations and failures
+   */
+  @Get('orders')
+  @ApiOperation({
+    summary: 'Get journaled orders',
+    description:
+      'Every order placed, cancelled or amended through the trading services, including failed ' +
+      'attempts. Stop loss / take profit orders of quick long/short carry the parentId of ' +
+      'their entry order. Newest first.',
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+  })
+  @ApiQuery({ name: 'symbol', required: false, example: 'BTCUSDT' })
+  @ApiQuery({ name: 'startTime', required: false, type: Number })
+  @ApiQuery({ name: 'endTime', required: false, type: Number })
+  @ApiQuery({ name: 'strategy', required: false, description: 'Strategy tag' })
+  @ApiQuery({ name: 'orderId', required: false })
+  @ApiQuery({ name: 'parentId', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 500 })
+  @ApiResponse({ status: 200, description: 'Journaled orders retrieved successfully' })
+  async getOrders(
+    @Query('exchange') exchange?: string,
+    @Query('symbol') symbol?: string,
+    @Query('startTime') startTime?: number,
+    @Query('endTime') endTime?: number,
+    @Query('strategy') strategy?: string,
+    @Query('orderId') orderId?: string,
+    @Query('parentId') parentId?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.journalService.getOrders({
+      exchange: exchange as ExchangeName,
+      symbol,
+      startTime,
+      endTime,
+      strategy,
+      orderId,
+      parentId,
+      limit,
+    });
+  }
+
+  /**
+   * Get journaled fills
+   */
+  @Get('fills')
+  @ApiOperation({
+    summary: 'Get journaled fills',
+    description:
+      'Executions reported by the user data streams, tagged with the strategy of the order ' +
+      'they filled. Newest first.',
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+  })
+  @ApiQuery({ name: 'symbol', required: false, example: 'BTCUSDT' })
+  @ApiQuery({ name: 'startTime', required: false, type: Number })
+  @ApiQuery({ name: 'endTime', required: false, type: Number })
+  @ApiQuery({ name: 'strategy', required: false, description: 'Strategy tag' })
+  @ApiQuery({ name: 'orderId', required: false })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 500 })
+  @ApiResponse({ status: 200, description: 'Journaled fills retrieved successfully' })
+  async getFills(
+    @Query('exchange') exchange?: string,
+    @Query('symbol') symbol?: string,
+    @Query('startTime') startTime?: number,
+    @Query('endTime') endTime?: number,
+    @Query('strategy') strategy?: string,
+    @Query('orderId') orderId?: string,
+    @Query('limit') limit?: number,
+  ) {
+    return this.journalService.getFills({
+      exchange: exchange as ExchangeName,
+      symbol,
+      startTime,
+      endTime,
+      strategy,
+      orderId,
+      limit,
+    });
+  }
+}
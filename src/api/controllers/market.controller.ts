@@ -2,6 +2,7 @@ import { Controller, Get, Query, Param, Logger } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
 import { ApiKeyAuth } from '../../common/decorators/api-key.decorator';
 import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
+import { OrderBookManager } from '../../common/services/order-book-manager.service';
 import { ExchangeName, TradingType } from '../../common/types/exchange.types';
 import { IPerpetualMarketService } from '../../common/interfaces';
 
@@ -11,7 +12,10 @@ import { IPerpetualMarketService } from '../../common/interfaces';
 export class MarketController {
   private readonly logger = new Logger(MarketController.name);
 
-  constructor(private readonly exchangeFactory: ExchangeServiceFactory) {}
+  constructor(
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly orderBookManager: OrderBookManager,
+  ) {}
 
   /**
    * Get default exchange parameters
@@ -44,7 +48,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -72,7 +76,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -92,14 +96,19 @@ export class MarketController {
   }
 
   /**
-   * Get order book
+   * Get order book (served from the locally maintained book)
    */
   @Get('orderbook/:symbol')
-  @ApiOperation({ summary: 'Get order book depth' })
+  @ApiOperation({
+    summary: 'Get order book depth',
+    description:
+      'Served from a local book synced via snapshot + depth-diff stream. The first request for a ' +
+      'symbol starts tracking it; idle books are released after 5 minutes.',
+  })
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -116,9 +125,8 @@ export class MarketController {
     @Query('tradingType') tradingType?: string,
     @Query('limit') limit?: number,
   ) {
-    const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
-    const service = await this.getFuturesMarketService(ex, tt);
-    return service.getOrderBook(symbol, limit);
+    const { exchange: ex } = this.getExchangeParams(exchange, tradingType);
+    return this.orderBookManager.getOrderBook(ex, symbol, limit ? Number(limit) : undefined);
   }
 
   /**
@@ -129,7 +137,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -159,7 +167,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -195,7 +203,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -223,7 +231,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -251,7 +259,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -285,7 +293,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -313,7 +321,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -340,7 +348,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -368,7 +376,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -398,7 +406,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -426,7 +434,7 @@ export class MarketController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -0,0 +1,84 @@
+import { Body, Controller, Delete, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiHeader, ApiQuery } from '@nestjs/swagger';
+import { ApiKeyAuth } from '../../common/decorators/api-key.decorator';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { PlaceOcoBracketDto } from '../../common/dto/oco.dto';
+import { ExchangeName } from '../../common/types/exchange.types';
+import { OcoManagerService } from '../../oco/services/oco-manager.service';
+import { OcoStatus } from '../../oco/types';
+
+@ApiTags('OCO API')
+@ApiKeyAuth()
+@UseGuards(ApiKeyGuard)
+@ApiHeader({
+  name: 'X-Strategy-Tag',
+  required: false,
+  description: 'Strategy tag recorded with the bracket orders in the journal',
+})
+@Controller('api/oco')
+export class OcoController {
+  constructor(private readonly ocoManager: OcoManagerService) {}
+
+  /**
+   * Place a linked stop loss and take profit for an open position
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Protect an open position with a stop loss and take profit, one cancelling the other',
+    description:
+      'Both legs are reduce-only conditional orders. When one fills or the position is closed, ' +
+      'the other is cancelled; when the position is partly closed, both are re-sized to what ' +
+      'is left. quickLong/quickShort brackets are linked the same way automatically ' +
+      '(OCO_ENABLED).',
+  })
+  @ApiBody({ type: PlaceOcoBracketDto })
+  @ApiResponse({ status: 201, description: 'Bracket placed' })
+  async placeBracket(@Body() dto: PlaceOcoBracketDto) {
+    return this.ocoManager.placeBracket(dto);
+  }
+
+  /**
+   * List open and recent brackets
+   */
+  @Get()
+  @ApiOperation({ summary: 'List open and recent brackets, newest first' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['pending', 'active', 'completed', 'cancelled'],
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+  })
+  @ApiResponse({ status: 200, description: 'Brackets retrieved successfully' })
+  getBrackets(@Query('status') status?: string, @Query('exchange') exchange?: string) {
+    return this.ocoManager.getBrackets({
+      status: status as OcoStatus,
+      exchange: exchange as ExchangeName,
+    });
+  }
+
+  /**
+   * Get one bracket with its legs
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a bracket with its legs' })
+  @ApiResponse({ status: 200, description: 'Bracket retrieved successfully' })
+  getBracket(@Param('id') id: string) {
+    return this.ocoManager.getBracket(id);
+  }
+
+  /**
+   * Cancel an open bracket
+   */
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Cancel both legs of an open bracket and stop watching it',
+  })
+  @ApiResponse({ status: 200, description: 'Bracket cancelled' })
+  async cancelBracket(@Param('id') id: string) {
+    return this.ocoManager.cancelBracket(id);
+  }
+}
@@ -0,0 +1,55 @@
+import { Body, Controller, Get, Post, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { ApiKeyAuth } from '../../common/decorators/api-key.decorator';
+import { TripKillSwitchDto } from '../../common/dto/risk.dto';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { KillSwitchService } from '../../risk/services/kill-switch.service';
+
+@ApiTags('Risk API')
+@ApiKeyAuth()
+@UseGuards(ApiKeyGuard)
+@Controller('api/risk')
+export class RiskController {
+  constructor(private readonly killSwitch: KillSwitchService) {}
+
+  /**
+   * Kill switch state
+   */
+  @Get('kill-switch')
+  @ApiOperation({
+    summary: 'Whether trading is halted, with equity, daily loss and drawdown',
+  })
+  @ApiResponse({ status: 200, description: 'Kill switch state retrieved successfully' })
+  getKillSwitch() {
+    return this.killSwitch.getStatus();
+  }
+
+  /**
+   * Trip the kill switch by hand
+   */
+  @Post('kill-switch/trip')
+  @ApiOperation({
+    summary: 'Halt trading: cancel all orders, close all positions and reject new orders',
+    description:
+      'Acts on every tracked exchange (KILL_SWITCH_EXCHANGES). Reduce-only orders and ' +
+      'position closes still go through until trading is re-armed.',
+  })
+  @ApiBody({ type: TripKillSwitchDto })
+  @ApiResponse({ status: 201, description: 'Kill switch tripped' })
+  async tripKillSwitch(@Body() dto: TripKillSwitchDto) {
+    return this.killSwitch.trip(`Tripped by hand: ${dto.reason}`);
+  }
+
+  /**
+   * Re-arm trading after the kill switch tripped
+   */
+  @Post('kill-switch/rearm')
+  @ApiOperation({
+    summary: 'Accept new orders again after the kill switch tripped',
+    description: 'Peak and daily equity start over from the next check.',
+  })
+  @ApiResponse({ status: 201, description: 'Trading re-armed' })
+  async rearmKillSwitch() {
+    return this.killSwitch.rearm();
+  }
+}
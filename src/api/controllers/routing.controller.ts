@@ -0,0 +1,36 @@
+import { Body, Controller, Post, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiHeader } from '@nestjs/swagger';
+import { ApiKeyAuth } from '../../common/decorators/api-key.decorator';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { RoutedOrderDto } from '../../common/dto/routing.dto';
+import { OrderRouterService } from '../../routing/services/order-router.service';
+
+@ApiTags('Routing API')
+@ApiKeyAuth()
+@UseGuards(ApiKeyGuard)
+@ApiHeader({
+  name: 'X-Strategy-Tag',
+  required: false,
+  description: 'Strategy tag recorded with the orders in the journal',
+})
+@Controller('api/routing')
+export class RoutingController {
+  constructor(private readonly orderRouter: OrderRouterService) {}
+
+  /**
+   * Route a market order to the best venue(s)
+   */
+  @Post('order')
+  @ApiOperation({
+    summary: 'Route a market order to the best execution across exchanges',
+    description:
+      'Reads the order book of every candidate perpetual venue, computes the fee-adjusted ' +
+      'expected fill price and the margin available on each, then places the order on the ' +
+      'best venue or splits it across venues',
+  })
+  @ApiBody({ type: RoutedOrderDto })
+  @ApiResponse({ status: 201, description: 'Order routed (or planned, with dryRun)' })
+  async routeOrder(@Body() dto: RoutedOrderDto) {
+    return this.orderRouter.routeOrder(dto);
+  }
+}
@@ -1,31 +1,73 @@
-import { Controller, Post, Get, Delete, Body, Query, Param, Logger } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBody } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Patch,
+  Body,
+  Query,
+  Param,
+  Logger,
+  BadRequestException,
+  UseGuards,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBody, ApiHeader } from '@nestjs/swagger';
 import { ApiKeyAuth } from '../../common/decorators/api-key.decorator';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
 import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
-import { ExchangeName, TradingType } from '../../common/types/exchange.types';
+import { ExchangeName, OrderType, TradingType } from '../../common/types/exchange.types';
 import { IPerpetualTradingService } from '../../common/interfaces';
 import {
   PlaceOrderDto,
   MarketOrderDto,
   LimitOrderDto,
   CancelOrderDto,
+  ModifyOrderDto,
+  BatchPlaceOrdersDto,
+  BatchCancelOrdersDto,
   SetLeverageDto,
   SetPositionModeDto,
   // margin DTOs removed
   SetStopLossDto,
   SetTakeProfitDto,
+  SetTrailingStopDto,
   OpenPositionDto,
   ClosePositionDto,
   QuickLongShortDto,
+  PlaceLadderDto,
+  AmendLadderDto,
+  HeartbeatDto,
 } from '../../common/dto/trading.dto';
+import { LadderService } from '../../ladders/services/ladder.service';
+import { HeartbeatService } from '../../risk/services/heartbeat.service';
+import { TradingConfig } from '../../config/trading.config';
 
 @ApiTags('Trading API')
 @ApiKeyAuth()
+@UseGuards(ApiKeyGuard)
+@ApiHeader({
+  name: 'X-Strategy-Tag',
+  required: false,
+  description: 'Strategy tag recorded with the orders in the journal',
+})
+@ApiHeader({
+  name: 'Idempotency-Key',
+  required: false,
+  description:
+    'Unique key per order request; retrying with the same key returns the original order ' +
+    'instead of placing a new one (POST /order, /order/market, /order/limit, /orders/batch)',
+})
 @Controller('api/trading')
 export class TradingController {
   private readonly logger = new Logger(TradingController.name);
 
-  constructor(private readonly exchangeFactory: ExchangeServiceFactory) {}
+  constructor(
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly ladderService: LadderService,
+    private readonly heartbeatService: HeartbeatService,
+    private readonly configService: ConfigService,
+  ) {}
 
   /**
    * Get default exchange parameters
@@ -37,6 +79,18 @@ export class TradingController {
     };
   }
 
+  /**
+   * Reject batches larger than MAX_BATCH_ORDERS
+   */
+  private assertBatchSize(count: number): void {
+    const { maxBatchOrders } = this.configService.get<TradingConfig>('trading')!;
+    if (count > maxBatchOrders) {
+      throw new BadRequestException(
+        `A batch may carry at most ${maxBatchOrders} orders (got ${count})`,
+      );
+    }
+  }
+
   /**
    * Get perpetual trading service
    */
@@ -58,7 +112,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -68,12 +122,14 @@ export class TradingController {
     example: 'perpetual',
   })
   @ApiResponse({ status: 201, description: 'Order placed successfully' })
+  @ApiResponse({ status: 501, description: 'Order type not supported by exchange' })
   async placeOrder(
     @Query('exchange') exchange?: string,
     @Query('tradingType') tradingType?: string,
     @Body() dto?: PlaceOrderDto,
   ) {
     const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    this.exchangeFactory.assertOrderType(ex, tt, dto!.type);
     const service = (await this.getPerpetualTradingService(ex, tt)) as IPerpetualTradingService;
     return service.placeOrder(dto!);
   }
@@ -86,7 +142,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -114,7 +170,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -134,6 +190,44 @@ export class TradingController {
     return service.placeLimitOrder(dto!);
   }
 
+  /**
+   * Amend an open order
+   */
+  @Patch('order')
+  @ApiOperation({
+    summary: 'Amend the price and/or quantity of an open limit order',
+    description:
+      'Amends in place where the exchange supports it (Binance, Aster, OKX, Hyperliquid) and by ' +
+      'cancel-replace otherwise, placing the original order again if the replacement is rejected.',
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+    example: 'hyperliquid',
+  })
+  @ApiQuery({
+    name: 'tradingType',
+    required: false,
+    enum: ['perpetual'],
+    example: 'perpetual',
+  })
+  @ApiResponse({ status: 200, description: 'Order amended successfully' })
+  @ApiResponse({ status: 400, description: 'Neither price nor quantity given' })
+  async modifyOrder(
+    @Query('exchange') exchange?: string,
+    @Query('tradingType') tradingType?: string,
+    @Body() dto?: ModifyOrderDto,
+  ) {
+    if (!dto!.price && !dto!.quantity) {
+      throw new BadRequestException('Either price or quantity is required');
+    }
+
+    const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    const service = await this.getPerpetualTradingService(ex, tt);
+    return service.modifyOrder(dto!);
+  }
+
   /**
    * Cancel an order
    */
@@ -142,7 +236,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -170,7 +264,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -191,6 +285,78 @@ export class TradingController {
     return service.cancelAllOrders(symbol);
   }
 
+  /**
+   * Place several orders
+   */
+  @Post('orders/batch')
+  @ApiOperation({
+    summary: 'Place several orders',
+    description:
+      'Uses the exchange batch endpoint where there is one (Binance, Aster, OKX, Hyperliquid) ' +
+      'and places the orders one by one otherwise. Returns one result per order, in request order.',
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+    example: 'hyperliquid',
+  })
+  @ApiQuery({
+    name: 'tradingType',
+    required: false,
+    enum: ['perpetual'],
+    example: 'perpetual',
+  })
+  @ApiResponse({ status: 201, description: 'Orders processed; see each result' })
+  @ApiResponse({ status: 400, description: 'More orders than MAX_BATCH_ORDERS' })
+  @ApiResponse({ status: 501, description: 'Order type not supported by exchange' })
+  async placeOrders(
+    @Query('exchange') exchange?: string,
+    @Query('tradingType') tradingType?: string,
+    @Body() dto?: BatchPlaceOrdersDto,
+  ) {
+    const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    this.assertBatchSize(dto!.orders.length);
+    dto!.orders.forEach(order => this.exchangeFactory.assertOrderType(ex, tt, order.type));
+    const service = await this.getPerpetualTradingService(ex, tt);
+    return service.placeOrders(dto!.orders);
+  }
+
+  /**
+   * Cancel several orders
+   */
+  @Delete('orders/batch')
+  @ApiOperation({
+    summary: 'Cancel several orders',
+    description:
+      'Uses the exchange batch endpoint where there is one (Binance, Aster, OKX, Hyperliquid) ' +
+      'and cancels the orders one by one otherwise. Returns one result per order, in request order.',
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+    example: 'hyperliquid',
+  })
+  @ApiQuery({
+    name: 'tradingType',
+    required: false,
+    enum: ['perpetual'],
+    example: 'perpetual',
+  })
+  @ApiResponse({ status: 200, description: 'Orders processed; see each result' })
+  @ApiResponse({ status: 400, description: 'More orders than MAX_BATCH_ORDERS' })
+  async cancelOrders(
+    @Query('exchange') exchange?: string,
+    @Query('tradingType') tradingType?: string,
+    @Body() dto?: BatchCancelOrdersDto,
+  ) {
+    const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    this.assertBatchSize(dto!.orders.length);
+    const service = await this.getPerpetualTradingService(ex, tt);
+    return service.cancelOrders(dto!.orders);
+  }
+
   /**
    * Get open orders
    */
@@ -199,7 +365,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -228,7 +394,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -257,7 +423,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -286,7 +452,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -314,7 +480,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -344,7 +510,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -354,12 +520,16 @@ export class TradingController {
     example: 'perpetual',
   })
   @ApiResponse({ status: 200, description: 'Position mode set successfully' })
+  @ApiResponse({ status: 501, description: 'Hedge mode not supported by exchange' })
   async setPositionMode(
     @Query('exchange') exchange?: string,
     @Query('tradingType') tradingType?: string,
     @Body() dto?: SetPositionModeDto,
   ) {
     const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    if (dto!.dualSidePosition) {
+      this.exchangeFactory.assertCapability(ex, tt, 'hedgeMode', 'Hedge mode');
+    }
     const service = await this.getPerpetualTradingService(ex, tt);
     return service.setPositionMode(dto!);
   }
@@ -372,7 +542,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -401,7 +571,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -411,12 +581,14 @@ export class TradingController {
     example: 'perpetual',
   })
   @ApiResponse({ status: 201, description: 'Stop loss set successfully' })
+  @ApiResponse({ status: 501, description: 'Conditional orders not supported by exchange' })
   async setStopLoss(
     @Query('exchange') exchange?: string,
     @Query('tradingType') tradingType?: string,
     @Body() dto?: SetStopLossDto,
   ) {
     const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    this.exchangeFactory.assertCapability(ex, tt, 'conditionalOrders', 'Stop loss orders');
     const service = await this.getPerpetualTradingService(ex, tt);
     return service.setStopLoss(dto!);
   }
@@ -429,7 +601,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -439,16 +611,178 @@ export class TradingController {
     example: 'perpetual',
   })
   @ApiResponse({ status: 201, description: 'Take profit set successfully' })
+  @ApiResponse({ status: 501, description: 'Conditional orders not supported by exchange' })
   async setTakeProfit(
     @Query('exchange') exchange?: string,
     @Query('tradingType') tradingType?: string,
     @Body() dto?: SetTakeProfitDto,
   ) {
     const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    this.exchangeFactory.assertCapability(ex, tt, 'conditionalOrders', 'Take profit orders');
     const service = await this.getPerpetualTradingService(ex, tt);
     return service.setTakeProfit(dto!);
   }
 
+  /**
+   * Set trailing stop
+   */
+  @Post('trailing-stop')
+  @ApiOperation({
+    summary: 'Set a trailing stop for a position',
+    description:
+      'Native trailing stop on Binance and Aster (TRAILING_STOP_MARKET) and OKX ' +
+      '(move_order_stop). On Hyperliquid the server moves a reduce-only stop trigger order ' +
+      'as the mid price moves; cancel it with its trailing-... order ID.',
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+    example: 'binance',
+  })
+  @ApiQuery({
+    name: 'tradingType',
+    required: false,
+    enum: ['perpetual'],
+    example: 'perpetual',
+  })
+  @ApiResponse({ status: 201, description: 'Trailing stop set successfully' })
+  @ApiResponse({ status: 501, description: 'Trailing stops not supported by exchange' })
+  async setTrailingStop(
+    @Query('exchange') exchange?: string,
+    @Query('tradingType') tradingType?: string,
+    @Body() dto?: SetTrailingStopDto,
+  ) {
+    const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    this.exchangeFactory.assertOrderType(ex, tt, OrderType.TRAILING_STOP);
+    const service = await this.getPerpetualTradingService(ex, tt);
+    return service.setTrailingStop(dto!);
+  }
+
+  /**
+   * Place a ladder of limit orders
+   */
+  @Post('ladder')
+  @ApiOperation({
+    summary: 'Place a ladder (scaled order): limit orders spread over a price range',
+    description:
+      'levels orders from priceFrom to priceTo, rounded to the tick and lot size. quantity ' +
+      '(or usdValue) is split by distribution: linear or geometric sizes from 1 at priceFrom ' +
+      'to sizeScale at priceTo, or custom weights. Returns the ladder ID for ' +
+      'GET/PATCH/DELETE /ladder/:id.',
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+    example: 'binance',
+  })
+  @ApiResponse({ status: 201, description: 'Ladder placed' })
+  async placeLadder(@Query('exchange') exchange?: string, @Body() dto?: PlaceLadderDto) {
+    const { exchange: ex } = this.getExchangeParams(exchange);
+    return this.ladderService.placeLadder({ ...dto!, exchange: ex });
+  }
+
+  /**
+   * Get a ladder with the state of its orders
+   */
+  @Get('ladder/:id')
+  @ApiOperation({ summary: 'Get a ladder with the current state of its orders' })
+  @ApiResponse({ status: 200, description: 'Ladder retrieved successfully' })
+  async getLadder(@Param('id') id: string) {
+    return this.ladderService.getLadder(id);
+  }
+
+  /**
+   * Amend a ladder
+   */
+  @Patch('ladder/:id')
+  @ApiOperation({
+    summary: 'Amend a ladder: re-ladder what its open orders have left over a new shape',
+    description:
+      'The open orders are cancelled and their unfilled quantity is placed again over the ' +
+      'new range, level count or distribution. Fields left out keep their current value.',
+  })
+  @ApiResponse({ status: 200, description: 'Ladder amended' })
+  async amendLadder(@Param('id') id: string, @Body() dto: AmendLadderDto) {
+    return this.ladderService.amendLadder(id, dto);
+  }
+
+  /**
+   * Cancel a ladder
+   */
+  @Delete('ladder/:id')
+  @ApiOperation({ summary: "Cancel a ladder's open orders (filled orders stay)" })
+  @ApiResponse({ status: 200, description: 'Ladder cancelled' })
+  async cancelLadder(@Param('id') id: string) {
+    return this.ladderService.cancelLadder(id);
+  }
+
+  /**
+   * Heartbeat for the dead man's switch
+   */
+  @Post('heartbeat')
+  @ApiOperation({
+    summary: "Heartbeat: arm or push back the dead man's switch",
+    description:
+      'Arms the exchange-native cancel-all timer (Binance/Aster countdownCancelAll, OKX ' +
+      'cancel-all-after, Hyperliquid scheduleCancel) so that all open orders are cancelled ' +
+      'timeoutMs after the last heartbeat. The service refreshes armed timers every ' +
+      'HEARTBEAT_REFRESH_INTERVAL_MS; send heartbeats well within timeoutMs.',
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'paper'],
+    example: 'binance',
+  })
+  @ApiResponse({ status: 201, description: "Dead man's switch armed" })
+  @ApiResponse({ status: 501, description: "Exchange has no native dead man's switch" })
+  async heartbeat(@Query('exchange') exchange?: string, @Body() dto?: HeartbeatDto) {
+    const exchanges = dto?.exchanges || [this.getExchangeParams(exchange).exchange];
+    exchanges.forEach(ex =>
+      this.exchangeFactory.assertCapability(ex, 'perpetual', 'cancelAllAfter', "Dead man's switch"),
+    );
+    return this.heartbeatService.heartbeat(exchanges, dto?.timeoutMs);
+  }
+
+  /**
+   * Get dead man's switch status
+   */
+  @Get('heartbeat')
+  @ApiOperation({ summary: "Dead man's switches armed by heartbeats and their deadlines" })
+  @ApiResponse({ status: 200, description: "Dead man's switch status retrieved successfully" })
+  async getHeartbeat() {
+    return this.heartbeatService.getStatus();
+  }
+
+  /**
+   * Disarm the dead man's switch
+   */
+  @Delete('heartbeat')
+  @ApiOperation({
+    summary: "Stop heartbeats and disarm the dead man's switch",
+    description: 'Disarms the given exchange, or every exchange armed by heartbeats without one',
+  })
+  @ApiQuery({
+    name: 'exchange',
+    required: false,
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'paper'],
+    example: 'binance',
+  })
+  @ApiResponse({ status: 200, description: "Dead man's switch disarmed" })
+  async disarmHeartbeat(@Query('exchange') exchange?: string) {
+    if (exchange) {
+      this.exchangeFactory.assertCapability(
+        exchange as ExchangeName,
+        'perpetual',
+        'cancelAllAfter',
+        "Dead man's switch",
+      );
+    }
+    return this.heartbeatService.disarm(exchange ? [exchange as ExchangeName] : undefined);
+  }
+
   /**
    * Cancel all conditional orders
    */
@@ -457,7 +791,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -467,12 +801,14 @@ export class TradingController {
     example: 'perpetual',
   })
   @ApiResponse({ status: 200, description: 'Conditional orders cancelled successfully' })
+  @ApiResponse({ status: 501, description: 'Conditional orders not supported by exchange' })
   async cancelAllConditionalOrders(
     @Param('symbol') symbol: string,
     @Query('exchange') exchange?: string,
     @Query('tradingType') tradingType?: string,
   ) {
     const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    this.exchangeFactory.assertCapability(ex, tt, 'conditionalOrders', 'Conditional orders');
     const service = await this.getPerpetualTradingService(ex, tt);
     return service.cancelAllConditionalOrders(symbol);
   }
@@ -485,7 +821,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -514,7 +850,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -548,7 +884,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -577,7 +913,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -605,7 +941,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -633,7 +969,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -661,7 +997,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -689,7 +1025,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -717,7 +1053,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -744,7 +1080,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -754,12 +1090,14 @@ export class TradingController {
     example: 'perpetual',
   })
   @ApiResponse({ status: 201, description: 'Market buy executed successfully' })
+  @ApiResponse({ status: 501, description: 'Conditional orders not supported by exchange' })
   async quickLong(
     @Query('exchange') exchange?: string,
     @Query('tradingType') tradingType?: string,
     @Body() dto?: QuickLongShortDto,
   ) {
     const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    this.exchangeFactory.assertCapability(ex, tt, 'conditionalOrders', 'Quick long with TP/SL');
     const service = await this.getPerpetualTradingService(ex, tt);
     return service.quickLong(
       dto!.symbol,
@@ -778,7 +1116,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
@@ -788,12 +1126,14 @@ export class TradingController {
     example: 'perpetual',
   })
   @ApiResponse({ status: 201, description: 'Market sell executed successfully' })
+  @ApiResponse({ status: 501, description: 'Conditional orders not supported by exchange' })
   async quickShort(
     @Query('exchange') exchange?: string,
     @Query('tradingType') tradingType?: string,
     @Body() dto?: QuickLongShortDto,
   ) {
     const { exchange: ex, tradingType: tt } = this.getExchangeParams(exchange, tradingType);
+    this.exchangeFactory.assertCapability(ex, tt, 'conditionalOrders', 'Quick short with TP/SL');
     const service = await this.getPerpetualTradingService(ex, tt);
     return service.quickShort(
       dto!.symbol,
@@ -812,7 +1152,7 @@ export class TradingController {
   @ApiQuery({
     name: 'exchange',
     required: false,
-    enum: ['aster', 'hyperliquid', 'binance', 'okx'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
   })
   @ApiQuery({
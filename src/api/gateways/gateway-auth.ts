@@ -0,0 +1,15 @@
+import { IncomingMessage } from 'http';
+
+/**
+ * Read the API key from a WebSocket upgrade request
+ */
+export function extractApiKey(request: IncomingMessage): string | undefined {
+  const header = request.headers['x-api-key'] || request.headers['api-key'];
+  if (header) {
+    return Array.isArray(header) ? header[0] : header;
+  }
+
+  // Browsers cannot set headers on WebSocket connections, so accept ?apiKey= as well
+  const url = new URL(request.url || '/', 'http://localhost');
+  return url.searchParams.get('apiKey') || undefined;
+}
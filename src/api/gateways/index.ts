@@ -0,0 +1,2 @@
+export * from './market-stream.gateway';
+export * from './user-data.gateway';
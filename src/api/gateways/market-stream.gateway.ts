@@ -0,0 +1,240 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+} from '@nestjs/websockets';
+import { IncomingMessage } from 'http';
+import { Subscription } from 'rxjs';
+import WebSocket from 'ws';
+import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
+import {
+  IMarketStreamService,
+  MARKET_STREAM_CHANNELS,
+  MarketStreamChannel,
+  MarketStreamEvent,
+  MarketStreamTopic,
+} from '../../common/interfaces/market-stream.interface';
+import { getTopicKey } from '../../common/websocket/base-market-stream.service';
+import { ExchangeName } from '../../common/types/exchange.types';
+import { parseApiKeys, verifyApiKey } from '../../common/guards/api-key.guard';
+import { extractApiKey } from './gateway-auth';
+
+/**
+ * Client subscribe / unsubscribe message payload
+ */
+export interface MarketStreamRequest {
+  exchange: ExchangeName;
+  channel: MarketStreamChannel;
+  symbol: string;
+  interval?: string;
+}
+
+interface ClientTopic {
+  exchange: ExchangeName;
+  topic: MarketStreamTopic;
+}
+
+/**
+ * Real-time market data gateway.
+ *
+ * Clients connect to `/ws/market` and send
+ * `{ "event": "subscribe", "data": { "exchange": "binance", "channel": "ticker", "symbol": "BTCUSDT" } }`.
+ * Updates are pushed as `{ "event": "<channel>", "data": MarketStreamEvent }`.
+ * Upstream exchange streams are shared between clients and closed when the last client leaves.
+ */
+@WebSocketGateway({ path: '/ws/market' })
+export class MarketStreamGateway
+  implements OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy
+{
+  private readonly logger = new Logger(MarketStreamGateway.name);
+  private readonly apiKeys: string[];
+  private readonly clientTopics = new Map<WebSocket, Map<string, ClientTopic>>();
+  private readonly routes = new Map<string, Set<WebSocket>>();
+  private readonly exchangeSubscriptions = new Map<ExchangeName, Subscription>();
+
+  constructor(
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly configService: ConfigService,
+  ) {
+    this.apiKeys = parseApiKeys(this.configService.get<string>('API_KEY_ACCESS'));
+  }
+
+  handleConnection(client: WebSocket, request: IncomingMessage) {
+    try {
+      verifyApiKey(extractApiKey(request), this.apiKeys);
+    } catch (error: any) {
+      this.logger.warn(`Rejected market stream connection: ${error.message}`);
+      client.close(1008, error.message);
+      return;
+    }
+
+    this.clientTopics.set(client, new Map());
+    this.logger.debug(`Market stream client connected (${this.clientTopics.size} total)`);
+  }
+
+  handleDisconnect(client: WebSocket) {
+    const topics = this.clientTopics.get(client);
+    if (!topics) return;
+
+    for (const [routeKey, { exchange, topic }] of topics) {
+      this.release(client, routeKey, exchange, topic);
+    }
+
+    this.clientTopics.delete(client);
+    this.logger.debug(`Market stream client disconnected (${this.clientTopics.size} total)`);
+  }
+
+  /**
+   * Subscribe to a channel for exchange + symbol
+   */
+  @SubscribeMessage('subscribe')
+  async subscribe(@ConnectedSocket() client: WebSocket, @MessageBody() body: MarketStreamRequest) {
+    const topics = this.clientTopics.get(client);
+    if (!topics) return;
+
+    const error = this.validateRequest(body);
+    if (error) {
+      return { event: 'error', data: { message: error, request: body } };
+    }
+
+    try {
+      const stream = await this.exchangeFactory.getMarketStreamService(body.exchange, 'perpetual');
+      this.forwardEvents(body.exchange, stream);
+
+      const topic = stream.subscribe({
+        channel: body.channel,
+        symbol: body.symbol,
+        interval: body.interval,
+      });
+      const routeKey = this.getRouteKey(body.exchange, topic);
+
+      if (!topics.has(routeKey)) {
+        topics.set(routeKey, { exchange: body.exchange, topic });
+        if (!this.routes.has(routeKey)) {
+          this.routes.set(routeKey, new Set());
+        }
+        this.routes.get(routeKey)!.add(client);
+      }
+
+      return { event: 'subscribed', data: { exchange: body.exchange, ...topic } };
+    } catch (error: any) {
+      this.logger.error('Error subscribing to market stream:', error.message);
+      return {
+        event: 'error',
+        data: { message: error.message || 'Failed to subscribe', request: body },
+      };
+    }
+  }
+
+  /**
+   * Unsubscribe from a channel for exchange + symbol
+   */
+  @SubscribeMessage('unsubscribe')
+  async unsubscribe(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() body: MarketStreamRequest,
+  ) {
+    const topics = this.clientTopics.get(client);
+    if (!topics) return;
+
+    const error = this.validateRequest(body);
+    if (error) {
+      return { event: 'error', data: { message: error, request: body } };
+    }
+
+    try {
+      const stream = await this.exchangeFactory.getMarketStreamService(body.exchange, 'perpetual');
+      const topic = stream.resolveTopic({
+        channel: body.channel,
+        symbol: body.symbol,
+        interval: body.interval,
+      });
+      const routeKey = this.getRouteKey(body.exchange, topic);
+
+      if (topics.delete(routeKey)) {
+        this.release(client, routeKey, body.exchange, topic);
+      }
+
+      return { event: 'unsubscribed', data: { exchange: body.exchange, ...topic } };
+    } catch (error: any) {
+      this.logger.error('Error unsubscribing from market stream:', error.message);
+      return {
+        event: 'error',
+        data: { message: error.message || 'Failed to unsubscribe', request: body },
+      };
+    }
+  }
+
+  onModuleDestroy() {
+    this.exchangeSubscriptions.forEach(subscription => subscription.unsubscribe());
+    this.exchangeSubscriptions.clear();
+  }
+
+  private validateRequest(body: MarketStreamRequest): string | undefined {
+    if (!body || !body.exchange || !body.channel || !body.symbol) {
+      return 'exchange, channel and symbol are required';
+    }
+    if (!this.exchangeFactory.isAvailable(body.exchange, 'perpetual')) {
+      return `Exchange ${body.exchange} is not available`;
+    }
+    if (!MARKET_STREAM_CHANNELS.includes(body.channel)) {
+      return `Invalid channel ${body.channel}. Use one of: ${MARKET_STREAM_CHANNELS.join(', ')}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Pipe adapter events to subscribed clients (one rxjs subscription per exchange)
+   */
+  private forwardEvents(exchange: ExchangeName, stream: IMarketStreamService): void {
+    if (this.exchangeSubscriptions.has(exchange)) return;
+
+    this.exchangeSubscriptions.set(
+      exchange,
+      stream.getEvents().subscribe(event => this.broadcast(event)),
+    );
+  }
+
+  private broadcast(event: MarketStreamEvent): void {
+    const clients = this.routes.get(this.getRouteKey(event.exchange, event));
+    if (!clients || clients.size === 0) return;
+
+    const message = JSON.stringify({ event: event.channel, data: event });
+    for (const client of clients) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    }
+  }
+
+  /**
+   * Drop a client from a route and stop the upstream stream when no clients remain
+   */
+  private release(
+    client: WebSocket,
+    routeKey: string,
+    exchange: ExchangeName,
+    topic: MarketStreamTopic,
+  ): void {
+    const clients = this.routes.get(routeKey);
+    if (!clients) return;
+
+    clients.delete(client);
+    if (clients.size > 0) return;
+
+    this.routes.delete(routeKey);
+    this.exchangeFactory
+      .getMarketStreamService(exchange, 'perpetual')
+      .then(stream => stream.unsubscribe(topic))
+      .catch(error => this.logger.error('Error releasing market stream:', error.message));
+  }
+
+  private getRouteKey(exchange: ExchangeName, topic: MarketStreamTopic): string {
+    return `${exchange}:${getTopicKey(topic)}`;
+  }
+}
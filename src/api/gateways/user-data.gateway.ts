@@ -0,0 +1,170 @@
+import { Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+} from '@nestjs/websockets';
+import { IncomingMessage } from 'http';
+import { Subscription } from 'rxjs';
+import WebSocket from 'ws';
+import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
+import {
+  USER_DATA_EVENT_TYPES,
+  UserDataEvent,
+  UserDataEventType,
+} from '../../common/interfaces/user-data-stream.interface';
+import { UserDataEventBus } from '../../common/services/user-data-event-bus.service';
+import { ExchangeName } from '../../common/types/exchange.types';
+import { parseApiKeys, verifyApiKey } from '../../common/guards/api-key.guard';
+import { extractApiKey } from './gateway-auth';
+
+/**
+ * Client subscribe message payload (omitted filters match everything)
+ */
+export interface UserDataStreamRequest {
+  exchanges?: ExchangeName[];
+  types?: UserDataEventType[];
+}
+
+/**
+ * Private account updates gateway.
+ *
+ * Clients connect to `/ws/user` and send
+ * `{ "event": "subscribe", "data": { "exchanges": ["binance"], "types": ["order", "trade"] } }`.
+ * Updates are pushed as `{ "event": "<order|trade|position>", "data": UserDataEvent }`.
+ * Send `{ "event": "status" }` to see which exchange user data streams are connected.
+ */
+@WebSocketGateway({ path: '/ws/user' })
+export class UserDataGateway
+  implements OnGatewayConnection, OnGatewayDisconnect, OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(UserDataGateway.name);
+  private readonly apiKeys: string[];
+  private readonly clientFilters = new Map<WebSocket, UserDataStreamRequest | null>();
+  private subscription?: Subscription;
+
+  constructor(
+    private readonly eventBus: UserDataEventBus,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly configService: ConfigService,
+  ) {
+    this.apiKeys = parseApiKeys(this.configService.get<string>('API_KEY_ACCESS'));
+  }
+
+  onModuleInit() {
+    this.subscription = this.eventBus.getEvents().subscribe(event => this.broadcast(event));
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  handleConnection(client: WebSocket, request: IncomingMessage) {
+    try {
+      verifyApiKey(extractApiKey(request), this.apiKeys);
+    } catch (error: any) {
+      this.logger.warn(`Rejected user data connection: ${error.message}`);
+      client.close(1008, error.message);
+      return;
+    }
+
+    // Nothing is pushed until the client subscribes
+    this.clientFilters.set(client, null);
+    this.logger.debug(`User data client connected (${this.clientFilters.size} total)`);
+  }
+
+  handleDisconnect(client: WebSocket) {
+    if (!this.clientFilters.delete(client)) return;
+    this.logger.debug(`User data client disconnected (${this.clientFilters.size} total)`);
+  }
+
+  /**
+   * Start receiving account events, optionally filtered by exchange and event type
+   */
+  @SubscribeMessage('subscribe')
+  subscribe(@ConnectedSocket() client: WebSocket, @MessageBody() body?: UserDataStreamRequest) {
+    if (!this.clientFilters.has(client)) return;
+
+    const request: UserDataStreamRequest = {
+      exchanges: body?.exchanges?.length ? body.exchanges : undefined,
+      types: body?.types?.length ? body.types : undefined,
+    };
+
+    const error = this.validateRequest(request);
+    if (error) {
+      return { event: 'error', data: { message: error, request: body } };
+    }
+
+    this.clientFilters.set(client, request);
+    return { event: 'subscribed', data: request };
+  }
+
+  /**
+   * Stop receiving account events
+   */
+  @SubscribeMessage('unsubscribe')
+  unsubscribe(@ConnectedSocket() client: WebSocket) {
+    if (!this.clientFilters.has(client)) return;
+
+    this.clientFilters.set(client, null);
+    return { event: 'unsubscribed', data: {} };
+  }
+
+  /**
+   * Report which exchange user data streams are connected
+   */
+  @SubscribeMessage('status')
+  async status() {
+    const streams = await Promise.all(
+      this.exchangeFactory
+        .getCapabilityMatrix()
+        .filter(entry => entry.capabilities.userDataStream)
+        .map(async entry => {
+          try {
+            const stream = await this.exchangeFactory.getUserDataStreamService(
+              entry.exchange,
+              entry.tradingType,
+            );
+            return { exchange: entry.exchange, connected: stream.isConnected() };
+          } catch {
+            return { exchange: entry.exchange, connected: false };
+          }
+        }),
+    );
+
+    return { event: 'status', data: streams };
+  }
+
+  private validateRequest(request: UserDataStreamRequest): string | undefined {
+    const unavailable = request.exchanges?.find(
+      exchange => !this.exchangeFactory.isAvailable(exchange, 'perpetual'),
+    );
+    if (unavailable) {
+      return `Exchange ${unavailable} is not available`;
+    }
+
+    const invalidType = request.types?.find(type => !USER_DATA_EVENT_TYPES.includes(type));
+    if (invalidType) {
+      return `Invalid type ${invalidType}. Use one of: ${USER_DATA_EVENT_TYPES.join(', ')}`;
+    }
+
+    return undefined;
+  }
+
+  private broadcast(event: UserDataEvent): void {
+    let message: string | undefined;
+
+    for (const [client, filter] of this.clientFilters) {
+      if (!filter || client.readyState !== WebSocket.OPEN) continue;
+      if (filter.exchanges && !filter.exchanges.includes(event.exchange)) continue;
+      if (filter.types && !filter.types.includes(event.type)) continue;
+
+      message ??= JSON.stringify({ event: event.type, data: event });
+      client.send(message);
+    }
+  }
+}
@@ -2,12 +2,16 @@ import { Controller, Get } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { AppService } from './app.service';
 import { Public } from './common/decorators/public.decorator';
+import { CircuitBreakerService } from './common/services/circuit-breaker.service';
 
 @ApiTags('health')
 @Controller()
 @Public() // Make all routes in this controller public (no API key required)
 export class AppController {
-  constructor(private readonly appService: AppService) {}
+  constructor(
+    private readonly appService: AppService,
+    private readonly circuitBreaker: CircuitBreakerService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Health check endpoint' })
@@ -17,7 +21,11 @@ export class AppController {
   }
 
   @Get('status')
-  @ApiOperation({ summary: 'Get application status' })
+  @ApiOperation({
+    summary: 'Get application status',
+    description:
+      'Includes the circuit breaker state and rolling latency and error rates of each exchange API',
+  })
   @ApiResponse({ status: 200, description: 'Application status' })
   getStatus() {
     return {
@@ -25,6 +33,7 @@ export class AppController {
       timestamp: new Date().toISOString(),
       version: '1.0.0',
       environment: process.env.NODE_ENV || 'development',
+      exchanges: this.circuitBreaker.getStatus(),
     };
   }
 }
@@ -9,6 +9,20 @@ import {
   hyperliquidConfig,
   binanceConfig,
   okxConfig,
+  orderlyConfig,
+  paperConfig,
+  backtestConfig,
+  journalConfig,
+  idempotencyConfig,
+  rateLimitConfig,
+  circuitBreakerConfig,
+  routingConfig,
+  algoConfig,
+  ocoConfig,
+  ladderConfig,
+  riskConfig,
+  killSwitchConfig,
+  heartbeatConfig,
   tradingConfig,
 } from './config';
 
@@ -22,7 +36,28 @@ import { ApiModule } from './api/api.module';
     ConfigModule.forRoot({
       isGlobal: true,
       envFilePath: '.env',
-      load: [appConfig, asterConfig, hyperliquidConfig, binanceConfig, okxConfig, tradingConfig],
+      load: [
+        appConfig,
+        asterConfig,
+        hyperliquidConfig,
+        binanceConfig,
+        okxConfig,
+        orderlyConfig,
+        paperConfig,
+        backtestConfig,
+        journalConfig,
+        idempotencyConfig,
+        rateLimitConfig,
+        circuitBreakerConfig,
+        routingConfig,
+        algoConfig,
+        ocoConfig,
+        ladderConfig,
+        riskConfig,
+        killSwitchConfig,
+        heartbeatConfig,
+        tradingConfig,
+      ],
     }),
     ScheduleModule.forRoot(),
 
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { BacktestService } from './services/backtest.service';
+import { HistoricalDataService } from './services/historical-data.service';
+
+@Module({
+  providers: [BacktestService, HistoricalDataService],
+  exports: [BacktestService, HistoricalDataService],
+})
+export class BacktestModule {}
@@ -0,0 +1,138 @@
+import { NestFactory } from '@nestjs/core';
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { AppModule } from '../app.module';
+import { ExchangeName } from '../common/types/exchange.types';
+import { BacktestService } from './services/backtest.service';
+import { BacktestRequest, BacktestStrategy } from './types';
+
+const USAGE = `Usage: npm run backtest -- --exchange <name> --symbol <symbol> --interval <interval>
+  --start <date|ms> --end <date|ms> (--strategy <name> | --strategy-file <path>)
+  [--params <json>] [--balance <n>] [--leverage <n>] [--maker-fee <rate>] [--taker-fee <rate>]
+  [--slippage-bps <n>] [--no-funding] [--output <file.json>]
+
+A strategy file exports (default or module.exports) either a strategy object with onCandle()
+or { description, create(params) } returning one.`;
+
+/**
+ * Parse a date (2024-01-01, ISO timestamp) or epoch milliseconds
+ */
+function parseTime(value: string, name: string): number {
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  if (!Number.isFinite(time)) throw new Error(`Invalid --${name}: ${value}`);
+  return time;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : parseFloat(value);
+}
+
+function loadStrategyFile(file: string, params: Record<string, any>): BacktestStrategy {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const loaded = require(resolve(file));
+  const exported = loaded.default ?? loaded;
+
+  if (typeof exported.create === 'function') return exported.create(params);
+  if (typeof exported.onCandle === 'function') return exported;
+  throw new Error(`${file} does not export a backtest strategy`);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      exchange: { type: 'string', default: 'binance' },
+      symbol: { type: 'string' },
+      interval: { type: 'string', default: '1h' },
+      start: { type: 'string' },
+      end: { type: 'string' },
+      strategy: { type: 'string' },
+      'strategy-file': { type: 'string' },
+      params: { type: 'string' },
+      balance: { type: 'string' },
+      leverage: { type: 'string' },
+      'maker-fee': { type: 'string' },
+      'taker-fee': { type: 'string' },
+      'slippage-bps': { type: 'string' },
+      'no-funding': { type: 'boolean', default: false },
+      output: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help || !values.symbol || !values.start || !values.end) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  if (!values.strategy && !values['strategy-file']) {
+    throw new Error('Either --strategy or --strategy-file is required');
+  }
+
+  const params = values.params ? JSON.parse(values.params) : {};
+  const request: BacktestRequest = {
+    exchange: values.exchange as ExchangeName,
+    symbol: values.symbol,
+    interval: values.interval,
+    startTime: parseTime(values.start, 'start'),
+    endTime: parseTime(values.end, 'end'),
+    strategy: values.strategy || values['strategy-file'],
+    params,
+    initialBalance: parseNumber(values.balance),
+    leverage: parseNumber(values.leverage),
+    makerFee: parseNumber(values['maker-fee']),
+    takerFee: parseNumber(values['taker-fee']),
+    slippageBps: parseNumber(values['slippage-bps']),
+    funding: !values['no-funding'],
+  };
+  const strategy = values['strategy-file']
+    ? loadStrategyFile(values['strategy-file'], params)
+    : undefined;
+
+  // Only REST market data is needed; skip private account streams
+  process.env.USER_DATA_STREAMS_ENABLED = 'false';
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn'] });
+
+  try {
+    const result = await app.get(BacktestService).runBacktest(request, strategy);
+    if (!result.success || !result.data) {
+      throw new Error(result.error);
+    }
+
+    const { metrics, warnings } = result.data;
+    console.log(
+      `\n${result.data.strategy} on ${result.data.exchange} ${result.data.symbol} ` +
+        `${result.data.interval} (${result.data.candles} candles, ` +
+        `${new Date(result.data.startTime).toISOString()} - ` +
+        `${new Date(result.data.endTime).toISOString()})\n`,
+    );
+    console.table({
+      'Initial balance': metrics.initialBalance.toFixed(2),
+      'Final equity': metrics.finalEquity.toFixed(2),
+      'Net PnL': `${metrics.netPnl.toFixed(2)} (${metrics.returnPct.toFixed(2)}%)`,
+      'Max drawdown': `${metrics.maxDrawdown.toFixed(2)} (${metrics.maxDrawdownPct.toFixed(2)}%)`,
+      Sharpe: metrics.sharpe.toFixed(2),
+      'Realized PnL': metrics.realizedPnl.toFixed(2),
+      'Unrealized PnL': metrics.unrealizedPnl.toFixed(2),
+      Fees: metrics.fees.toFixed(2),
+      Funding: metrics.funding.toFixed(2),
+      Trades: metrics.trades,
+      'Win rate': `${(metrics.winRate * 100).toFixed(1)}% (${metrics.winningTrades}W/${metrics.losingTrades}L)`,
+      Liquidations: metrics.liquidations,
+    });
+    warnings.forEach(warning => console.warn(`Warning: ${warning}`));
+
+    if (values.output) {
+      writeFileSync(values.output, JSON.stringify(result.data, null, 2));
+      console.log(`Full result written to ${values.output}`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(`Backtest failed: ${error.message}`);
+    process.exit(1);
+  });
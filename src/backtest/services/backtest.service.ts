@@ -0,0 +1,206 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FundingRate } from '../../common/interfaces';
+import { SymbolNormalizerService } from '../../common/services/symbol-normalizer.service';
+import { ApiResponse } from '../../common/types/exchange.types';
+import { BacktestConfig } from '../../config/backtest.config';
+import { PaperConfig } from '../../config/paper.config';
+import { PaperPerpetualBalanceService } from '../../exchanges/paper/perpetual/services/perpetual-balance.service';
+import { PaperPerpetualTradingService } from '../../exchanges/paper/perpetual/services/perpetual-trading.service';
+import { buildEquityCurve, calculateMetrics, intervalToMs } from '../shared/backtest-metrics';
+import { BacktestVenue } from '../shared/backtest-venue';
+import { BACKTEST_STRATEGIES } from '../strategies';
+import { BacktestContext, BacktestRequest, BacktestResult, BacktestStrategy } from '../types';
+import { HistoricalDataService } from './historical-data.service';
+
+const HOUR_MS = 3600000;
+
+/**
+ * Replays historical candles through a simulated account and reports the results.
+ *
+ * Strategies trade through the paper trading/balance services (the unified interfaces) backed
+ * by a BacktestVenue, with fees, slippage, leverage and liquidation as in paper trading.
+ */
+@Injectable()
+export class BacktestService {
+  private readonly logger = new Logger(BacktestService.name);
+  private readonly config: BacktestConfig;
+  private readonly paperConfig: PaperConfig;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly historicalData: HistoricalDataService,
+    private readonly symbolNormalizer: SymbolNormalizerService,
+  ) {
+    this.config = this.configService.get<BacktestConfig>('backtest')!;
+    this.paperConfig = this.configService.get<PaperConfig>('paper')!;
+  }
+
+  /**
+   * Built-in strategies by name
+   */
+  getStrategies(): { name: string; description: string }[] {
+    return Object.entries(BACKTEST_STRATEGIES).map(([name, definition]) => ({
+      name,
+      description: definition.description,
+    }));
+  }
+
+  /**
+   * Run a backtest. `strategy` overrides the named strategy (used by the CLI for strategy files).
+   */
+  async runBacktest(
+    request: BacktestRequest,
+    strategy?: BacktestStrategy,
+  ): Promise<ApiResponse<BacktestResult>> {
+    try {
+      const intervalMs = intervalToMs(request.interval);
+      if (!(request.endTime > request.startTime)) {
+        throw new Error('endTime must be after startTime');
+      }
+      if ((request.endTime - request.startTime) / intervalMs > this.config.maxCandles) {
+        throw new Error(`Backtest exceeds ${this.config.maxCandles} candles`);
+      }
+
+      const params = request.params || {};
+      if (!strategy) {
+        const definition = BACKTEST_STRATEGIES[request.strategy];
+        if (!definition) {
+          throw new Error(`Unknown strategy: ${request.strategy}`);
+        }
+        strategy = definition.create(params);
+      }
+
+      const symbol = this.symbolNormalizer.toExchangeSymbol(request.symbol, request.exchange);
+      const warnings: string[] = [];
+
+      this.logger.log(
+        `Backtesting ${request.strategy} on ${request.exchange} ${symbol} ${request.interval}`,
+      );
+
+      const candles = await this.historicalData.getCandles(
+        request.exchange,
+        symbol,
+        request.interval,
+        request.startTime,
+        request.endTime,
+      );
+      if (candles.length === 0) {
+        throw new Error(`No candles for ${symbol} in the requested range`);
+      }
+
+      let fundingRates: FundingRate[] = [];
+      if (request.funding !== false) {
+        try {
+          fundingRates = await this.historicalData.getFundingRates(
+            request.exchange,
+            symbol,
+            request.startTime,
+            request.endTime,
+          );
+        } catch (error: any) {
+          warnings.push(`Funding not simulated: ${error.message}`);
+        }
+      }
+
+      const initialBalance = request.initialBalance ?? this.paperConfig.initialBalance;
+      const venue = new BacktestVenue(
+        symbol,
+        {
+          asset: this.paperConfig.asset,
+          makerFee: request.makerFee ?? this.paperConfig.makerFee,
+          takerFee: request.takerFee ?? this.paperConfig.takerFee,
+          slippageBps: request.slippageBps ?? this.paperConfig.slippageBps,
+          defaultLeverage: request.leverage ?? this.paperConfig.defaultLeverage,
+          maxLeverage: this.paperConfig.maxLeverage,
+          maintenanceMarginRate: this.paperConfig.maintenanceMarginRate,
+          fundingIntervalHours: this.getFundingIntervalHours(fundingRates),
+        },
+        initialBalance,
+        fundingRates,
+      );
+
+      const context: BacktestContext = {
+        exchange: request.exchange,
+        symbol,
+        interval: request.interval,
+        time: candles[0].openTime,
+        candles: [],
+        trading: new PaperPerpetualTradingService(venue, venue),
+        balance: new PaperPerpetualBalanceService(venue),
+        params,
+      };
+
+      await strategy.init?.(context);
+
+      const samples: { time: number; equity: number }[] = [];
+      for (const candle of candles) {
+        venue.replay(candle);
+        context.time = venue.getTime();
+        context.candles.push(candle);
+
+        try {
+          await strategy.onCandle(candle, context);
+        } catch (error: any) {
+          throw new Error(
+            `Strategy failed at ${new Date(context.time).toISOString()}: ${error.message}`,
+          );
+        }
+
+        samples.push({ time: context.time, equity: venue.getEquity() });
+      }
+
+      const equityCurve = buildEquityCurve(initialBalance, samples);
+      const summary = await venue.getSummary();
+
+      return {
+        success: true,
+        data: {
+          exchange: request.exchange,
+          symbol,
+          interval: request.interval,
+          strategy: request.strategy,
+          startTime: candles[0].openTime,
+          endTime: candles[candles.length - 1].closeTime,
+          candles: candles.length,
+          metrics: calculateMetrics(
+            initialBalance,
+            equityCurve,
+            venue.trades,
+            venue.fundingPayments,
+            intervalMs,
+            summary.unrealizedPnl,
+            venue.liquidations,
+          ),
+          equityCurve,
+          fundingPayments: venue.fundingPayments,
+          trades: venue.trades,
+          warnings,
+        },
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      this.logger.error('Error running backtest:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to run backtest',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Funding interval of the history (1h on Hyperliquid, 8h on most others)
+   */
+  private getFundingIntervalHours(fundingRates: FundingRate[]): number {
+    let interval = Infinity;
+    for (let i = 1; i < fundingRates.length; i++) {
+      const gap = fundingRates[i].fundingTime - fundingRates[i - 1].fundingTime;
+      if (gap > 0) interval = Math.min(interval, gap);
+    }
+
+    return Number.isFinite(interval)
+      ? Math.max(Math.round(interval / HOUR_MS), 1)
+      : this.paperConfig.fundingIntervalHours;
+  }
+}
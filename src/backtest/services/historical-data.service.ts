@@ -0,0 +1,204 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
+import { FundingRate, IPerpetualMarketService } from '../../common/interfaces';
+import { Candle, ExchangeName } from '../../common/types/exchange.types';
+import { BacktestConfig } from '../../config/backtest.config';
+import { intervalToMs } from '../shared/backtest-metrics';
+
+// Candles per request (the smallest page size among the supported exchanges)
+const CANDLE_PAGE_SIZE = 300;
+
+// Funding rates per request, and the window one page covers at hourly funding
+const FUNDING_PAGE_SIZE = 100;
+const FUNDING_PAGE_MS = FUNDING_PAGE_SIZE * 3600000;
+
+// A cached series and the time range it is complete for
+interface CachedSeries<T> {
+  from: number;
+  to: number;
+  items: T[];
+}
+
+/**
+ * Downloads candles and funding rates through the unified market services and caches them on
+ * disk, so repeated backtests over the same range only fetch what is missing.
+ */
+@Injectable()
+export class HistoricalDataService {
+  private readonly logger = new Logger(HistoricalDataService.name);
+  private readonly config: BacktestConfig;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+  ) {
+    this.config = this.configService.get<BacktestConfig>('backtest')!;
+  }
+
+  /**
+   * Closed candles with open times in [startTime, endTime]
+   */
+  async getCandles(
+    exchange: ExchangeName,
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number,
+  ): Promise<Candle[]> {
+    const intervalMs = intervalToMs(interval);
+    // The candle still forming is never cached
+    const lastClosed = Math.floor(Date.now() / intervalMs) * intervalMs - intervalMs;
+    const to = Math.min(endTime, lastClosed);
+
+    return this.loadSeries<Candle>(
+      this.getCacheFile(exchange, symbol, interval),
+      startTime,
+      to,
+      candle => candle.openTime,
+      async (from, until) => {
+        const service = await this.getMarketService(exchange);
+        const candles: Candle[] = [];
+        const pageMs = CANDLE_PAGE_SIZE * intervalMs;
+
+        for (let start = from; start <= until; start += pageMs) {
+          const end = Math.min(start + pageMs - 1, until);
+          const response = await service.getCandles(symbol, interval, start, end, CANDLE_PAGE_SIZE);
+
+          if (!response.success || !response.data) {
+            throw new Error(response.error || `Failed to download candles for ${symbol}`);
+          }
+          candles.push(...response.data);
+        }
+
+        return candles;
+      },
+    );
+  }
+
+  /**
+   * Funding rates with funding times in [startTime, endTime]
+   */
+  async getFundingRates(
+    exchange: ExchangeName,
+    symbol: string,
+    startTime: number,
+    endTime: number,
+  ): Promise<FundingRate[]> {
+    return this.loadSeries<FundingRate>(
+      this.getCacheFile(exchange, symbol, 'funding'),
+      startTime,
+      Math.min(endTime, Date.now()),
+      rate => rate.fundingTime,
+      async (from, until) => {
+        const service = await this.getMarketService(exchange);
+        if (typeof service.getFundingRateHistory !== 'function') {
+          throw new Error(`Funding rate history is not available on ${exchange}`);
+        }
+
+        const rates: FundingRate[] = [];
+        for (let start = from; start <= until; start += FUNDING_PAGE_MS) {
+          const end = Math.min(start + FUNDING_PAGE_MS - 1, until);
+          const response = await service.getFundingRateHistory(
+            symbol,
+            start,
+            end,
+            FUNDING_PAGE_SIZE,
+          );
+
+          if (!response.success || !response.data) {
+            throw new Error(response.error || `Failed to download funding rates for ${symbol}`);
+          }
+          rates.push(...response.data);
+        }
+
+        return rates;
+      },
+    );
+  }
+
+  /**
+   * Serve [from, to] from the cache, downloading the parts before or after the cached range.
+   * The cache always stays one contiguous range.
+   */
+  private async loadSeries<T>(
+    file: string,
+    from: number,
+    to: number,
+    timeOf: (item: T) => number,
+    download: (from: number, to: number) => Promise<T[]>,
+  ): Promise<T[]> {
+    if (to < from) return [];
+
+    const cached = await this.readCache<T>(file);
+    let series: CachedSeries<T>;
+
+    if (cached && cached.from <= from && cached.to >= to) {
+      series = cached;
+    } else {
+      const items = cached ? [...cached.items] : [];
+      const rangeFrom = cached ? Math.min(from, cached.from) : from;
+      const rangeTo = cached ? Math.max(to, cached.to) : to;
+
+      if (!cached) {
+        items.push(...(await download(from, to)));
+      } else {
+        if (rangeFrom < cached.from) items.push(...(await download(rangeFrom, cached.from - 1)));
+        if (rangeTo > cached.to) items.push(...(await download(cached.to + 1, rangeTo)));
+      }
+
+      // Merge, dropping duplicates from overlapping pages
+      const byTime = new Map<number, T>();
+      items.forEach(item => byTime.set(timeOf(item), item));
+      series = {
+        from: rangeFrom,
+        to: rangeTo,
+        items: Array.from(byTime.values()).sort((a, b) => timeOf(a) - timeOf(b)),
+      };
+
+      await this.writeCache(file, series);
+    }
+
+    return series.items.filter(item => timeOf(item) >= from && timeOf(item) <= to);
+  }
+
+  private async readCache<T>(file: string): Promise<CachedSeries<T> | undefined> {
+    try {
+      if (!existsSync(file)) return undefined;
+      return JSON.parse(await readFile(file, 'utf8'));
+    } catch (error: any) {
+      this.logger.warn(`Ignoring unreadable backtest cache ${file}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private async writeCache<T>(file: string, series: CachedSeries<T>): Promise<void> {
+    try {
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(`${file}.tmp`, JSON.stringify(series));
+      await rename(`${file}.tmp`, file);
+    } catch (error: any) {
+      this.logger.error(`Error writing backtest cache ${file}:`, error.message);
+    }
+  }
+
+  private getCacheFile(exchange: ExchangeName, symbol: string, series: string): string {
+    const safeSymbol = symbol.replace(/[^A-Za-z0-9_-]/g, '_');
+    return join(this.config.cacheDir, exchange, `${safeSymbol}-${series}.json`);
+  }
+
+  private async getMarketService(exchange: ExchangeName): Promise<IPerpetualMarketService> {
+    const service = (await this.exchangeFactory.getMarketService(
+      exchange,
+      'perpetual',
+    )) as IPerpetualMarketService;
+
+    if (typeof service.getCandles !== 'function') {
+      throw new Error(`Historical candles are not available on ${exchange}`);
+    }
+    return service;
+  }
+}
@@ -0,0 +1,107 @@
+import { TransactionHistory } from '../../common/interfaces';
+import { BacktestMetrics, EquityPoint, FundingPayment } from '../types';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const INTERVAL_UNITS: Record<string, number> = {
+  m: 60000,
+  h: 3600000,
+  d: 86400000,
+  w: 604800000,
+  M: 2592000000,
+};
+
+/**
+ * Candle interval (1m, 4h, 1d, ...) in milliseconds. Throws on intervals it cannot parse.
+ */
+export function intervalToMs(interval: string): number {
+  const match = /^(\d+)([mhdwM])$/.exec(interval);
+  if (!match || parseInt(match[1], 10) <= 0) {
+    throw new Error(`Unsupported interval: ${interval}`);
+  }
+
+  return parseInt(match[1], 10) * INTERVAL_UNITS[match[2]];
+}
+
+/**
+ * Running drawdown (from the highest equity so far, starting balance included) for each sample
+ */
+export function buildEquityCurve(
+  initialBalance: number,
+  samples: { time: number; equity: number }[],
+): EquityPoint[] {
+  let peak = initialBalance;
+
+  return samples.map(({ time, equity }) => {
+    peak = Math.max(peak, equity);
+    return { time, equity, drawdown: peak > 0 ? (peak - equity) / peak : 0 };
+  });
+}
+
+/**
+ * Summary statistics of a finished backtest
+ */
+export function calculateMetrics(
+  initialBalance: number,
+  equityCurve: EquityPoint[],
+  trades: TransactionHistory[],
+  fundingPayments: FundingPayment[],
+  intervalMs: number,
+  unrealizedPnl: number,
+  liquidations: number,
+): BacktestMetrics {
+  const finalEquity = equityCurve.length
+    ? equityCurve[equityCurve.length - 1].equity
+    : initialBalance;
+
+  let peak = initialBalance;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  for (const { equity } of equityCurve) {
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, ((peak - equity) / peak) * 100);
+  }
+
+  const closing = trades.map(trade => parseFloat(trade.realizedPnl)).filter(pnl => pnl !== 0);
+  const winningTrades = closing.filter(pnl => pnl > 0).length;
+
+  return {
+    initialBalance,
+    finalEquity,
+    netPnl: finalEquity - initialBalance,
+    returnPct: initialBalance > 0 ? ((finalEquity - initialBalance) / initialBalance) * 100 : 0,
+    maxDrawdown,
+    maxDrawdownPct,
+    sharpe: calculateSharpe(
+      [initialBalance, ...equityCurve.map(point => point.equity)],
+      YEAR_MS / intervalMs,
+    ),
+    realizedPnl: closing.reduce((sum, pnl) => sum + pnl, 0),
+    unrealizedPnl,
+    fees: trades.reduce((sum, trade) => sum + parseFloat(trade.commission), 0),
+    funding: fundingPayments.reduce((sum, funding) => sum + funding.payment, 0),
+    trades: trades.length,
+    winningTrades,
+    losingTrades: closing.length - winningTrades,
+    winRate: closing.length ? winningTrades / closing.length : 0,
+    liquidations,
+  };
+}
+
+/**
+ * Annualized Sharpe ratio of period-over-period returns (0 without variance)
+ */
+function calculateSharpe(equity: number[], periodsPerYear: number): number {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1] > 0) returns.push(equity[i] / equity[i - 1] - 1);
+  }
+  if (returns.length < 2) return 0;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+
+  return stdDev > 0 ? (mean / stdDev) * Math.sqrt(periodsPerYear) : 0;
+}
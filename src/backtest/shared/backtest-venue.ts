@@ -0,0 +1,230 @@
+import { FundingRate, TransactionHistory } from '../../common/interfaces';
+import { ApiResponse, Candle } from '../../common/types/exchange.types';
+import { PaperAccount } from '../../exchanges/paper/shared/paper-account';
+import {
+  PaperAccountOptions,
+  PaperAccountState,
+  PaperAccountSummary,
+  PaperOrder,
+  PaperOrderFormatter,
+  PaperOrderRequest,
+  PaperQuote,
+  PaperVenue,
+} from '../../exchanges/paper/types';
+import { FundingPayment } from '../types';
+
+/**
+ * Paper venue driven by historical candles instead of live prices.
+ *
+ * Time only moves when a candle is replayed: resting and trigger orders are matched along the
+ * candle's path (open, the extreme nearest the open, the other extreme, close), then the clock
+ * stops at the close where the strategy trades. Funding is charged at the historical funding
+ * times and rates. Funding data is never visible before its time, so strategies cannot peek.
+ */
+export class BacktestVenue implements PaperVenue, PaperOrderFormatter {
+  readonly account: PaperAccount;
+  readonly trades: TransactionHistory[] = [];
+  readonly fundingPayments: FundingPayment[] = [];
+  liquidations = 0;
+
+  private time = 0;
+  private fundingIndex = 0;
+  // Time a scheduled cancel of all orders fires at
+  private cancelAllAt?: number;
+
+  constructor(
+    private readonly symbol: string,
+    options: PaperAccountOptions,
+    initialBalance: number,
+    private readonly fundingRates: FundingRate[] = [],
+  ) {
+    this.account = new PaperAccount(options, PaperAccount.createState(initialBalance), event => {
+      if (event.type === 'trade') this.trades.push(event.trade);
+    });
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Advance through one candle, filling orders it reaches. Leaves the clock at its close.
+   */
+  replay(candle: Candle): void {
+    const open = parseFloat(candle.open);
+    const high = parseFloat(candle.high);
+    const low = parseFloat(candle.low);
+    const close = parseFloat(candle.close);
+
+    this.account.updatePrice(this.symbol, open);
+    this.settleFunding(candle.openTime);
+
+    const path = close >= open ? [open, low, high, close] : [open, high, low, close];
+    const step = (candle.closeTime - candle.openTime) / (path.length - 1);
+
+    path.forEach((price, i) => {
+      const now = Math.round(candle.openTime + step * i);
+      this.fireScheduledCancel(now);
+      this.account.match(this.symbol, { bid: price, ask: price, last: price }, now);
+      if (this.account.checkLiquidation(now).length > 0) this.liquidations++;
+    });
+
+    this.time = candle.closeTime;
+  }
+
+  getEquity(): number {
+    return this.account.getSummary().marginBalance;
+  }
+
+  // ==================== PaperVenue ====================
+
+  async placeOrder(request: PaperOrderRequest): Promise<PaperOrder> {
+    return this.account.placeOrder(request, await this.getQuote(request.symbol), this.time);
+  }
+
+  cancelOrder(symbol: string, orderId?: string, clientOrderId?: string): PaperOrder {
+    return this.account.cancelOrder(symbol, orderId, clientOrderId, this.time);
+  }
+
+  cancelOrders(symbol?: string, conditionalOnly: boolean = false): PaperOrder[] {
+    return this.account.cancelOrders(
+      order => (!symbol || order.symbol === symbol) && (!conditionalOnly || !!order.stopPrice),
+      this.time,
+    );
+  }
+
+  /**
+   * Cancel all open orders once the replay reaches timeoutMs from now (0 removes the schedule)
+   */
+  scheduleCancelAll(timeoutMs: number): number | undefined {
+    this.cancelAllAt = timeoutMs > 0 ? this.time + timeoutMs : undefined;
+    return this.cancelAllAt;
+  }
+
+  getOpenOrders(symbol?: string): PaperOrder[] {
+    return this.account.getOpenOrders(symbol);
+  }
+
+  findOrder(symbol: string, orderId: string): PaperOrder | undefined {
+    return this.account.findOrder(symbol, orderId);
+  }
+
+  getLeverage(symbol: string): number {
+    return this.account.getLeverage(symbol);
+  }
+
+  setLeverage(symbol: string, leverage: number): void {
+    this.account.setLeverage(symbol, leverage);
+  }
+
+  isDualSidePosition(): boolean {
+    return this.account.state.dualSidePosition;
+  }
+
+  setPositionMode(dualSidePosition: boolean): void {
+    this.account.setPositionMode(dualSidePosition);
+  }
+
+  async getSummary(): Promise<PaperAccountSummary> {
+    return this.account.getSummary();
+  }
+
+  getState(): Readonly<PaperAccountState> {
+    return this.account.state;
+  }
+
+  /**
+   * The last replayed price (market orders fill at the candle close plus slippage)
+   */
+  async getQuote(symbol: string): Promise<PaperQuote> {
+    const price = this.account.getLastPrice(symbol);
+
+    if (symbol !== this.symbol || price === undefined) {
+      throw new Error(`No backtest data for ${symbol}`);
+    }
+
+    return { bid: price, ask: price, last: price };
+  }
+
+  async getFundingRate(symbol?: string): Promise<ApiResponse<any>> {
+    const latest = this.fundingRates[this.fundingIndex - 1];
+
+    if ((symbol && symbol !== this.symbol) || !latest) {
+      throw new Error(`No funding rate for ${symbol || this.symbol}`);
+    }
+
+    return {
+      success: true,
+      data: { ...latest, symbol: this.symbol },
+      timestamp: this.time,
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  async getFundingHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<any[]>> {
+    let history =
+      symbol === this.symbol
+        ? this.fundingRates
+            .slice(0, this.fundingIndex)
+            .filter(
+              rate =>
+                (!startTime || rate.fundingTime >= startTime) &&
+                (!endTime || rate.fundingTime <= endTime),
+            )
+        : [];
+
+    if (limit) {
+      history = history.slice(-limit);
+    }
+
+    return {
+      success: true,
+      data: history,
+      timestamp: this.time,
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  // ==================== PaperOrderFormatter ====================
+
+  async formatQuantity(_symbol: string, quantity: string): Promise<string> {
+    return quantity.toString();
+  }
+
+  async formatPrice(_symbol: string, price: string): Promise<string> {
+    return price.toString();
+  }
+
+  private fireScheduledCancel(now: number): void {
+    if (this.cancelAllAt !== undefined && now >= this.cancelAllAt) {
+      this.account.cancelOrders(() => true, this.cancelAllAt);
+      this.cancelAllAt = undefined;
+    }
+  }
+
+  /**
+   * Charge every funding event up to `now` that has not been applied yet
+   */
+  private settleFunding(now: number): void {
+    while (
+      this.fundingIndex < this.fundingRates.length &&
+      this.fundingRates[this.fundingIndex].fundingTime <= now
+    ) {
+      const { fundingTime, fundingRate } = this.fundingRates[this.fundingIndex++];
+      const rate = parseFloat(fundingRate);
+      if (!Number.isFinite(rate)) continue;
+
+      const payment = this.account.applyFunding(this.symbol, rate, fundingTime);
+      if (payment !== 0) {
+        this.fundingPayments.push({ time: fundingTime, rate, payment });
+      }
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { Candle, OrderSide } from '../../common/types/exchange.types';
+import { BacktestContext, BacktestStrategy } from '../types';
+
+/**
+ * Buy on the first candle and hold to the end (the benchmark other strategies should beat).
+ *
+ * Params: `notional` - position size in quote currency (default: 1000)
+ */
+export class BuyAndHoldStrategy implements BacktestStrategy {
+  private readonly notional: number;
+  private entered = false;
+
+  constructor(params: Record<string, any>) {
+    this.notional = parseFloat(params.notional ?? '1000');
+  }
+
+  async onCandle(candle: Candle, { symbol, trading }: BacktestContext): Promise<void> {
+    if (this.entered) return;
+
+    const quantity = (this.notional / parseFloat(candle.close)).toString();
+    const result = await trading.placeMarketOrder({ symbol, side: OrderSide.BUY, quantity });
+    this.entered = result.success;
+  }
+}
@@ -0,0 +1,20 @@
+import { BacktestStrategyDefinition } from '../types';
+import { BuyAndHoldStrategy } from './buy-and-hold.strategy';
+import { SmaCrossStrategy } from './sma-cross.strategy';
+
+export * from './buy-and-hold.strategy';
+export * from './sma-cross.strategy';
+
+/**
+ * Strategies available to `POST /api/backtest` by name (the CLI can also load a strategy file)
+ */
+export const BACKTEST_STRATEGIES: Record<string, BacktestStrategyDefinition> = {
+  'buy-and-hold': {
+    description: 'Buy on the first candle and hold (params: notional)',
+    create: params => new BuyAndHoldStrategy(params),
+  },
+  'sma-cross': {
+    description: 'Long/short on fast/slow SMA crossovers (params: fast, slow, notional)',
+    create: params => new SmaCrossStrategy(params),
+  },
+};
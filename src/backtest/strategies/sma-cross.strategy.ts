@@ -0,0 +1,59 @@
+import { Candle, OrderSide, Position, PositionSide } from '../../common/types/exchange.types';
+import { BacktestContext, BacktestStrategy } from '../types';
+
+/**
+ * Always-in-the-market moving average crossover: long when the fast SMA crosses above the slow
+ * one, short when it crosses below.
+ *
+ * Params: `fast` / `slow` - SMA periods (default: 10 / 30),
+ * `notional` - position size in quote currency (default: 1000)
+ */
+export class SmaCrossStrategy implements BacktestStrategy {
+  private readonly fast: number;
+  private readonly slow: number;
+  private readonly notional: number;
+
+  constructor(params: Record<string, any>) {
+    this.fast = parseInt(params.fast ?? '10', 10);
+    this.slow = parseInt(params.slow ?? '30', 10);
+    this.notional = parseFloat(params.notional ?? '1000');
+
+    if (!(this.fast > 0) || !(this.slow > this.fast)) {
+      throw new Error('sma-cross requires 0 < fast < slow');
+    }
+  }
+
+  async onCandle(candle: Candle, { symbol, candles, trading }: BacktestContext): Promise<void> {
+    if (candles.length <= this.slow) return;
+
+    const crossedUp =
+      this.sma(candles, this.fast, 1) <= this.sma(candles, this.slow, 1) &&
+      this.sma(candles, this.fast, 0) > this.sma(candles, this.slow, 0);
+    const crossedDown =
+      this.sma(candles, this.fast, 1) >= this.sma(candles, this.slow, 1) &&
+      this.sma(candles, this.fast, 0) < this.sma(candles, this.slow, 0);
+
+    if (!crossedUp && !crossedDown) return;
+
+    const side = crossedUp ? OrderSide.BUY : OrderSide.SELL;
+    const response = await trading.getPositions(symbol);
+    const position = response.success ? (response.data as Position) : undefined;
+
+    if (position && parseFloat(position.size) > 0) {
+      if ((position.side === PositionSide.LONG) === crossedUp) return;
+      await trading.closePosition(symbol);
+    }
+
+    const quantity = (this.notional / parseFloat(candle.close)).toString();
+    await trading.placeMarketOrder({ symbol, side, quantity });
+  }
+
+  /**
+   * Simple moving average of closes, `offset` candles back from the latest
+   */
+  private sma(candles: Candle[], period: number, offset: number): number {
+    const end = candles.length - offset;
+    const window = candles.slice(end - period, end);
+    return window.reduce((sum, candle) => sum + parseFloat(candle.close), 0) / period;
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  IPerpetualBalanceService,
+  IPerpetualTradingService,
+  TransactionHistory,
+} from '../../common/interfaces';
+import { Candle, ExchangeName } from '../../common/types/exchange.types';
+
+/**
+ * What a strategy sees on every candle. The trading and balance services are the unified
+ * interfaces, backed by a simulated account, so the same strategy code can trade live.
+ */
+export interface BacktestContext {
+  exchange: ExchangeName;
+  symbol: string;
+  interval: string;
+  // Close time of the current candle (the simulated "now")
+  time: number;
+  // Candles up to and including the current one
+  candles: Candle[];
+  trading: IPerpetualTradingService;
+  balance: IPerpetualBalanceService;
+  params: Record<string, any>;
+}
+
+export interface BacktestStrategy {
+  // Called once before the first candle
+  init?(context: BacktestContext): Promise<void> | void;
+  // Called when a candle closes; market orders fill at its close, resting orders on later candles
+  onCandle(candle: Candle, context: BacktestContext): Promise<void> | void;
+}
+
+export interface BacktestStrategyDefinition {
+  description: string;
+  create: (params: Record<string, any>) => BacktestStrategy;
+}
+
+export interface BacktestRequest {
+  exchange: ExchangeName;
+  symbol: string;
+  interval: string;
+  startTime: number;
+  endTime: number;
+  strategy: string;
+  params?: Record<string, any>;
+  initialBalance?: number;
+  leverage?: number;
+  makerFee?: number;
+  takerFee?: number;
+  slippageBps?: number;
+  // Charge historical funding on open positions (default true)
+  funding?: boolean;
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+  // Fraction below the running peak
+  drawdown: number;
+}
+
+export interface FundingPayment {
+  time: number;
+  rate: number;
+  payment: number;
+}
+
+export interface BacktestMetrics {
+  initialBalance: number;
+  finalEquity: number;
+  netPnl: number;
+  returnPct: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  // Annualized from per-candle returns (risk-free rate 0)
+  sharpe: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  fees: number;
+  funding: number;
+  trades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  liquidations: number;
+}
+
+export interface BacktestResult {
+  exchange: ExchangeName;
+  symbol: string;
+  interval: string;
+  strategy: string;
+  startTime: number;
+  endTime: number;
+  candles: number;
+  metrics: BacktestMetrics;
+  equityCurve: EquityPoint[];
+  fundingPayments: FundingPayment[];
+  trades: TransactionHistory[];
+  warnings: string[];
+}
@@ -0,0 +1,121 @@
+import { IBaseTradingService, ModifyOrderParams } from '../interfaces/trading.interface';
+import { ApiResponse, Order, OrderStatus, OrderType } from '../types/exchange.types';
+
+type CancelReplaceService = Pick<
+  IBaseTradingService,
+  'getOrder' | 'getOrderByClientId' | 'cancelOrder' | 'placeOrder'
+>;
+
+const OPEN_STATUSES = [OrderStatus.NEW, OrderStatus.PARTIALLY_FILLED];
+
+/**
+ * Find the order a modify request targets, by order ID or client order ID
+ */
+async function findOrder(
+  service: CancelReplaceService,
+  params: ModifyOrderParams,
+): Promise<ApiResponse<Order | null>> {
+  return params.orderId
+    ? service.getOrder(params.symbol, params.orderId)
+    : service.getOrderByClientId(params.symbol, params.clientOrderId!);
+}
+
+/**
+ * Amend a limit order on an exchange without a native amend: cancel it, then place the
+ * replacement for what is left unfilled. When the replacement is rejected the original order is
+ * placed again at its limit price for what is left unfilled, so the book is never left without
+ * one of them.
+ *
+ * Only orders with nothing filled yet are amended: once partly filled, some exchanges (Orderly,
+ * paper) report the average fill price in place of the limit, which could then not be restored.
+ *
+ * The replacement is a new GTC limit order with a new order ID; time in force and reduce-only
+ * are not carried over.
+ */
+export async function cancelReplace(
+  service: CancelReplaceService,
+  params: ModifyOrderParams,
+): Promise<ApiResponse<Order>> {
+  if (!params.orderId && !params.clientOrderId) {
+    return failure('Either orderId or clientOrderId is required');
+  }
+
+  const found = await findOrder(service, params);
+  if (!found.success) return failure(found.error || 'Failed to get order');
+
+  const order = found.data;
+  if (!order) return failure('Order not found');
+  if (!OPEN_STATUSES.includes(order.status)) {
+    return failure(`Order ${order.orderId} is ${order.status}, nothing left to amend`);
+  }
+  if (order.type !== OrderType.LIMIT) {
+    return failure(`Only LIMIT orders can be amended by cancel-replace (got ${order.type})`);
+  }
+  if (parseFloat(order.executedQuantity) > 0) {
+    return failure(
+      `Order ${order.orderId} is partly filled and cannot be amended by cancel-replace`,
+    );
+  }
+
+  const quantity = parseFloat(params.quantity ?? order.quantity);
+  if (quantity <= parseFloat(order.executedQuantity)) {
+    return failure(`Quantity ${quantity} does not exceed the filled ${order.executedQuantity}`);
+  }
+
+  const cancelled = await service.cancelOrder({ symbol: params.symbol, orderId: order.orderId });
+  if (!cancelled.success) {
+    return failure(`Failed to cancel order ${order.orderId}: ${cancelled.error}`);
+  }
+
+  // Fills that landed before the cancel shrink both the replacement and the rollback
+  const final = await service.getOrder(params.symbol, order.orderId);
+  const executed = parseFloat(
+    final.success && final.data ? final.data.executedQuantity : order.executedQuantity,
+  );
+
+  if (quantity <= executed) {
+    return failure(`Order ${order.orderId} filled up to ${executed} while it was being amended`);
+  }
+
+  const remaining = (total: number) => parseFloat((total - executed).toFixed(10)).toString();
+  const replacement = await service.placeOrder({
+    symbol: params.symbol,
+    side: order.side,
+    type: OrderType.LIMIT,
+    quantity: remaining(quantity),
+    price: params.price ?? order.price,
+  });
+  if (replacement.success) return replacement;
+
+  const originalQuantity = parseFloat(order.quantity);
+  if (originalQuantity <= executed) {
+    return failure(`Replacement rejected (${replacement.error}); the original order had filled`);
+  }
+
+  const restored = await service.placeOrder({
+    symbol: params.symbol,
+    side: order.side,
+    type: OrderType.LIMIT,
+    quantity: remaining(originalQuantity),
+    // Read before the cancel, while nothing had filled, so this is the limit price
+    price: order.price,
+  });
+  if (!restored.success) {
+    return failure(
+      `Replacement rejected (${replacement.error}) and the original order could not be ` +
+        `restored (${restored.error}); order ${order.orderId} is cancelled`,
+    );
+  }
+
+  return {
+    ...failure(
+      `Replacement rejected (${replacement.error}); original order restored as ` +
+        restored.data!.orderId,
+    ),
+    data: restored.data,
+  };
+}
+
+function failure(error: string): ApiResponse<Order> {
+  return { success: false, error, timestamp: Date.now() };
+}
@@ -0,0 +1,103 @@
+import { ApiResponse, ExchangeName, TradingType } from '../types/exchange.types';
+
+/**
+ * Spacing between calls when an exchange has no batch endpoint and orders go one by one
+ */
+export const SEQUENTIAL_BATCH_INTERVAL_MS = 100;
+
+export interface BatchOptions<T, R> {
+  // Most items one exchange request accepts
+  size: number;
+  // Exchange request for one item; throwing fails that item only
+  prepare: (item: T) => Promise<R> | R;
+  // Send one chunk, resolving with one result per request in the same order
+  send: (requests: R[]) => Promise<ApiResponse<any>[]>;
+  // Requests with different keys never share a chunk (e.g. per-symbol cancel endpoints)
+  groupBy?: (request: R) => string;
+}
+
+/**
+ * Failed result of one item in a batch
+ */
+export function batchItemFailure(error: string): ApiResponse<any> {
+  return { success: false, error, timestamp: Date.now() };
+}
+
+/**
+ * Response of a batch call: it succeeds once every item was attempted, each item carrying its
+ * own result in request order
+ */
+export function toBatchResponse<T>(
+  results: ApiResponse<T>[],
+  exchange: ExchangeName,
+  tradingType: TradingType,
+): ApiResponse<ApiResponse<T>[]> {
+  return { success: true, data: results, timestamp: Date.now(), exchange, tradingType };
+}
+
+/**
+ * Send items through an exchange batch endpoint, `size` at a time. Chunks go out one after
+ * another; a chunk that fails as a whole fails each of its items.
+ */
+export async function runBatched<T, R>(
+  items: T[],
+  options: BatchOptions<T, R>,
+): Promise<ApiResponse<any>[]> {
+  const results: ApiResponse<any>[] = new Array(items.length);
+  const groups = new Map<string, { index: number; request: R }[]>();
+
+  for (const [index, item] of items.entries()) {
+    try {
+      const request = await options.prepare(item);
+      const key = options.groupBy ? options.groupBy(request) : '';
+      groups.set(key, [...(groups.get(key) ?? []), { index, request }]);
+    } catch (error: any) {
+      results[index] = batchItemFailure(error.message || 'Invalid order');
+    }
+  }
+
+  for (const group of groups.values()) {
+    for (let i = 0; i < group.length; i += options.size) {
+      const chunk = group.slice(i, i + options.size);
+      let chunkResults: ApiResponse<any>[];
+
+      try {
+        chunkResults = await options.send(chunk.map(({ request }) => request));
+      } catch (error: any) {
+        chunkResults = chunk.map(() => batchItemFailure(error.message || 'Batch request failed'));
+      }
+
+      chunk.forEach(({ index }, j) => {
+        results[index] = chunkResults[j] ?? batchItemFailure('No result for this order');
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Fallback for exchanges without a batch endpoint: one call per item, waiting `intervalMs`
+ * between calls (on top of the exchange rate limiter)
+ */
+export async function runSequentially<T>(
+  items: T[],
+  run: (item: T) => Promise<ApiResponse<any>>,
+  intervalMs = SEQUENTIAL_BATCH_INTERVAL_MS,
+): Promise<ApiResponse<any>[]> {
+  const results: ApiResponse<any>[] = [];
+
+  for (const [index, item] of items.entries()) {
+    if (index > 0 && intervalMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+
+    try {
+      results.push(await run(item));
+    } catch (error: any) {
+      results.push(batchItemFailure(error.message || 'Request failed'));
+    }
+  }
+
+  return results;
+}
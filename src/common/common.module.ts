@@ -1,10 +1,30 @@
 import { Global, Module } from '@nestjs/common';
 import { ExchangeRegistry, ExchangeServiceFactory } from './factory';
 import { SymbolNormalizerService } from './services/symbol-normalizer.service';
+import { UserDataEventBus } from './services/user-data-event-bus.service';
+import { OrderBookManager } from './services/order-book-manager.service';
+import { RateLimiterService } from './services/rate-limiter.service';
+import { CircuitBreakerService } from './services/circuit-breaker.service';
 
 @Global()
 @Module({
-  providers: [ExchangeRegistry, ExchangeServiceFactory, SymbolNormalizerService],
-  exports: [ExchangeRegistry, ExchangeServiceFactory, SymbolNormalizerService],
+  providers: [
+    ExchangeRegistry,
+    ExchangeServiceFactory,
+    SymbolNormalizerService,
+    UserDataEventBus,
+    OrderBookManager,
+    RateLimiterService,
+    CircuitBreakerService,
+  ],
+  exports: [
+    ExchangeRegistry,
+    ExchangeServiceFactory,
+    SymbolNormalizerService,
+    UserDataEventBus,
+    OrderBookManager,
+    RateLimiterService,
+    CircuitBreakerService,
+  ],
 })
 export class CommonModule {}
@@ -0,0 +1,121 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ExchangeName, OrderSide } from '../types/exchange.types';
+import { AlgoType } from '../../algos/types';
+
+export class StartAlgoDto {
+  @ApiProperty({
+    enum: ['TWAP', 'VWAP', 'ICEBERG', 'CHASE'],
+    example: 'TWAP',
+    description:
+      'TWAP: equal slices over time. VWAP: slices sized by the historical volume profile. ' +
+      'ICEBERG: a visible slice at a fixed price, refilled as it fills. ' +
+      'CHASE: a post-only order kept at the best bid (buy) or ask (sell)',
+  })
+  @IsIn(['TWAP', 'VWAP', 'ICEBERG', 'CHASE'])
+  type: AlgoType;
+
+  @ApiProperty({
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+    example: 'binance',
+    description: 'Exchange to execute on',
+  })
+  @IsIn(['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'])
+  exchange: ExchangeName;
+
+  @ApiProperty({ example: 'BTC/USDT', description: 'Symbol (converted to the exchange format)' })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ enum: OrderSide, example: OrderSide.BUY, description: 'Order side' })
+  @IsEnum(OrderSide)
+  side: OrderSide;
+
+  @ApiProperty({ example: '2', description: 'Total quantity' })
+  @IsString()
+  quantity: string;
+
+  @ApiPropertyOptional({
+    example: 3600000,
+    description:
+      'Duration to spread the order over (ms). Required for TWAP/VWAP; ICEBERG/CHASE run ' +
+      'until filled or cancelled without it',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  @Max(7 * 24 * 60 * 60 * 1000)
+  durationMs?: number;
+
+  @ApiPropertyOptional({
+    example: '0.1',
+    description: 'Average slice size (default: one slice per ALGO_SLICE_INTERVAL_MS)',
+  })
+  @IsOptional()
+  @IsString()
+  sliceQuantity?: string;
+
+  @ApiPropertyOptional({
+    example: '65000',
+    description: 'Worst price: slices wait while the best ask (buy) or bid (sell) is beyond it',
+  })
+  @IsOptional()
+  @IsString()
+  limitPrice?: string;
+
+  @ApiPropertyOptional({
+    example: 0.1,
+    description: 'Most of the market volume traded since the last slice a slice may take',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.001)
+  @Max(1)
+  participationRate?: number;
+
+  @ApiPropertyOptional({ example: '64000', description: 'ICEBERG limit price' })
+  @IsOptional()
+  @IsString()
+  price?: string;
+
+  @ApiPropertyOptional({
+    example: '0.1',
+    description: 'Size of the resting order (ICEBERG; CHASE rests the whole remainder without it)',
+  })
+  @IsOptional()
+  @IsString()
+  visibleQuantity?: string;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Post ICEBERG slices as post-only (GTX); CHASE orders always are',
+  })
+  @IsOptional()
+  @IsBoolean()
+  postOnly?: boolean;
+
+  @ApiPropertyOptional({
+    example: 50,
+    description: 'CHASE: furthest the order may follow the book from its starting price (bps)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(10000)
+  maxDeviationBps?: number;
+
+  @ApiPropertyOptional({ example: false, description: 'Reduce only flag' })
+  @IsOptional()
+  @IsBoolean()
+  reduceOnly?: boolean;
+}
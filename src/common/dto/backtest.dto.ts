@@ -0,0 +1,92 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ExchangeName } from '../types/exchange.types';
+
+export class BacktestDto {
+  @ApiProperty({
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly'],
+    example: 'binance',
+    description: 'Exchange whose historical candles and funding rates are replayed',
+  })
+  @IsEnum(['aster', 'hyperliquid', 'binance', 'okx', 'orderly'])
+  exchange: ExchangeName;
+
+  @ApiProperty({ example: 'BTC/USDT', description: 'Symbol (converted to the exchange format)' })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ example: '1h', description: 'Candle interval (m, h, d, w, M units)' })
+  @IsString()
+  @Matches(/^\d+[mhdwM]$/)
+  interval: string;
+
+  @ApiProperty({ example: 1704067200000, description: 'Start time (ms)' })
+  @IsInt()
+  startTime: number;
+
+  @ApiProperty({ example: 1706745600000, description: 'End time (ms)' })
+  @IsInt()
+  endTime: number;
+
+  @ApiProperty({
+    example: 'sma-cross',
+    description: 'Strategy name (see GET /api/backtest/strategies)',
+  })
+  @IsString()
+  strategy: string;
+
+  @ApiPropertyOptional({
+    example: { fast: 10, slow: 30, notional: 1000 },
+    description: 'Strategy parameters',
+  })
+  @IsOptional()
+  @IsObject()
+  params?: Record<string, any>;
+
+  @ApiPropertyOptional({ example: 10000, description: 'Starting balance (default: paper config)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  initialBalance?: number;
+
+  @ApiPropertyOptional({ example: 10, description: 'Leverage (default: paper config)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(125)
+  leverage?: number;
+
+  @ApiPropertyOptional({ example: 0.0002, description: 'Maker fee rate (default: paper config)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  makerFee?: number;
+
+  @ApiPropertyOptional({ example: 0.0005, description: 'Taker fee rate (default: paper config)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  takerFee?: number;
+
+  @ApiPropertyOptional({ example: 2, description: 'Taker slippage in bps (default: paper config)' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  slippageBps?: number;
+
+  @ApiPropertyOptional({ example: true, description: 'Charge historical funding (default: true)' })
+  @IsOptional()
+  @IsBoolean()
+  funding?: boolean;
+}
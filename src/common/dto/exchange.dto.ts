@@ -8,13 +8,13 @@ import { ExchangeName, TradingType } from '../types/exchange.types';
 export class ExchangeQueryDto {
   @ApiProperty({
     description: 'Exchange name',
-    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly'],
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
     example: 'hyperliquid',
     required: false,
     default: 'aster',
   })
   @IsOptional()
-  @IsEnum(['aster', 'hyperliquid', 'binance', 'okx', 'orderly'])
+  @IsEnum(['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'])
   exchange?: ExchangeName;
 
   @ApiProperty({
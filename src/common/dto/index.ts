@@ -1,2 +1,8 @@
 export * from './trading.dto';
 export * from './exchange.dto';
+export * from './backtest.dto';
+export * from './routing.dto';
+export * from './algo.dto';
+export * from './oco.dto';
+export * from './risk.dto';
+export * from './margin.dto';
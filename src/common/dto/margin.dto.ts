@@ -0,0 +1,117 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ExchangeName } from '../types/exchange.types';
+import { MarginMode, PositionSide } from '../../margin/types';
+
+const EXCHANGES = ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'];
+
+export class HypotheticalPositionDto {
+  @ApiProperty({
+    example: 'BTC/USDT',
+    description: 'Symbol in standard format (converted to the exchange format)',
+  })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ enum: ['LONG', 'SHORT'], example: 'LONG' })
+  @IsIn(['LONG', 'SHORT'])
+  side: PositionSide;
+
+  @ApiProperty({ example: 0.5, description: 'Position size in base asset' })
+  @IsNumber()
+  @IsPositive()
+  quantity: number;
+
+  @ApiPropertyOptional({ example: 60000, description: 'Entry price (default: mark price)' })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  entryPrice?: number;
+
+  @ApiPropertyOptional({
+    example: 58000,
+    description: 'Mark price to value the position at (default: current mark price)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  markPrice?: number;
+
+  @ApiPropertyOptional({ example: 10, description: "Leverage (default: the account's)" })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  leverage?: number;
+}
+
+export class MarginAccountDto {
+  @ApiProperty({ enum: EXCHANGES, example: 'binance' })
+  @IsIn(EXCHANGES)
+  exchange: ExchangeName;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Leverage of positions that set none (default: 1)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  leverage?: number;
+
+  @ApiPropertyOptional({ enum: ['cross', 'isolated'], example: 'cross', default: 'cross' })
+  @IsOptional()
+  @IsIn(['cross', 'isolated'])
+  marginMode?: MarginMode;
+
+  @ApiPropertyOptional({
+    example: 10000,
+    description: 'Wallet balance (default: exactly the initial margin and fees the positions need)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  balance?: number;
+
+  @ApiPropertyOptional({
+    example: 0.0005,
+    description: 'Taker fee rate paid to open (default: ROUTING_TAKER_FEES of the exchange)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(0.01)
+  feeRate?: number;
+
+  @ApiProperty({ type: [HypotheticalPositionDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => HypotheticalPositionDto)
+  positions: HypotheticalPositionDto[];
+}
+
+/**
+ * Margin simulation DTO: hypothetical positions held on one or more exchanges
+ */
+export class SimulateMarginDto {
+  @ApiProperty({ type: [MarginAccountDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => MarginAccountDto)
+  accounts: MarginAccountDto[];
+}
@@ -0,0 +1,33 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ExchangeName } from '../types/exchange.types';
+
+export class PlaceOcoBracketDto {
+  @ApiProperty({
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'],
+    example: 'binance',
+    description: 'Exchange holding the position',
+  })
+  @IsIn(['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'])
+  exchange: ExchangeName;
+
+  @ApiProperty({ example: 'BTC/USDT', description: 'Symbol (converted to the exchange format)' })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ example: '62000', description: 'Stop loss trigger price' })
+  @IsString()
+  stopPrice: string;
+
+  @ApiProperty({ example: '70000', description: 'Take profit trigger price' })
+  @IsString()
+  takeProfitPrice: string;
+
+  @ApiPropertyOptional({
+    example: '0.5',
+    description: 'Quantity each leg closes (default: the whole position)',
+  })
+  @IsOptional()
+  @IsString()
+  quantity?: string;
+}
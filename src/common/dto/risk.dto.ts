@@ -0,0 +1,12 @@
+import { IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TripKillSwitchDto {
+  @ApiProperty({
+    example: 'Exchange outage, flattening by hand',
+    description: 'Why trading is halted (shown in every rejected order)',
+  })
+  @IsString()
+  @MaxLength(200)
+  reason: string;
+}
@@ -0,0 +1,68 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ExchangeName, OrderSide } from '../types/exchange.types';
+
+const EXCHANGES = ['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'];
+
+export class RoutedOrderDto {
+  @ApiProperty({
+    example: 'BTC/USDT',
+    description: 'Symbol in standard format (converted to each venue format)',
+  })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ enum: OrderSide, example: OrderSide.BUY, description: 'Order side' })
+  @IsEnum(OrderSide)
+  side: OrderSide;
+
+  @ApiProperty({ example: '0.5', description: 'Total quantity in base asset' })
+  @IsString()
+  quantity: string;
+
+  @ApiPropertyOptional({
+    enum: EXCHANGES,
+    isArray: true,
+    example: ['binance', 'okx', 'hyperliquid'],
+    description: 'Candidate venues (default: ROUTING_EXCHANGES, else every live exchange)',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(EXCHANGES, { each: true })
+  exchanges?: ExchangeName[];
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Split across venues when that fills better (default: true)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  split?: boolean;
+
+  @ApiPropertyOptional({
+    example: 5,
+    description: 'Leverage used to size the margin each venue can take (default: 1)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(125)
+  leverage?: number;
+
+  @ApiPropertyOptional({ example: false, description: 'Only plan the route, place nothing' })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
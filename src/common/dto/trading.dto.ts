@@ -1,6 +1,27 @@
-import { IsString, IsEnum, IsOptional, IsNumber, IsBoolean, Min } from 'class-validator';
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsNumber,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { OrderSide, OrderType, TimeInForce, PositionSide } from '../types/exchange.types';
+import {
+  ExchangeName,
+  OrderSide,
+  OrderType,
+  TimeInForce,
+  PositionSide,
+} from '../types/exchange.types';
+import { LadderDistribution } from '../../ladders/types';
 
 export class PlaceOrderDto {
   @ApiProperty({
@@ -153,6 +174,59 @@ export class CancelOrderDto {
   clientOrderId?: string;
 }
 
+export class ModifyOrderDto {
+  @ApiProperty({ example: 'BTCUSDT', description: 'Trading symbol' })
+  @IsString()
+  symbol: string;
+
+  @ApiPropertyOptional({ example: '123456789', description: 'Order ID' })
+  @IsOptional()
+  @IsString()
+  orderId?: string;
+
+  @ApiPropertyOptional({ example: 'my-order-123', description: 'Client order ID' })
+  @IsOptional()
+  @IsString()
+  clientOrderId?: string;
+
+  @ApiPropertyOptional({ example: '50100.00', description: 'New limit price' })
+  @IsOptional()
+  @IsString()
+  price?: string;
+
+  @ApiPropertyOptional({
+    example: '0.002',
+    description: 'New total quantity, including what has already filled',
+  })
+  @IsOptional()
+  @IsString()
+  quantity?: string;
+}
+
+export class BatchPlaceOrdersDto {
+  @ApiProperty({
+    type: [PlaceOrderDto],
+    description: 'Orders to place (at most MAX_BATCH_ORDERS), each with its own result',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => PlaceOrderDto)
+  orders: PlaceOrderDto[];
+}
+
+export class BatchCancelOrdersDto {
+  @ApiProperty({
+    type: [CancelOrderDto],
+    description: 'Orders to cancel (at most MAX_BATCH_ORDERS), each with its own result',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => CancelOrderDto)
+  orders: CancelOrderDto[];
+}
+
 export class QuickTradeDto {
   @ApiProperty({ example: 'BTCUSDT', description: 'Trading symbol' })
   @IsString()
@@ -303,6 +377,212 @@ export class SetTakeProfitDto {
   side?: 'BUY' | 'SELL';
 }
 
+/**
+ * Set trailing stop DTO
+ */
+export class SetTrailingStopDto {
+  @ApiProperty({ example: 'BTCUSDT', description: 'Trading symbol' })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Callback rate in percent: how far the price may retrace from its best level',
+  })
+  @IsNumber()
+  @Min(0.1)
+  @Max(10)
+  callbackRate: number;
+
+  @ApiPropertyOptional({
+    example: '52000',
+    description: 'Start trailing once the price reaches this level (default: immediately)',
+  })
+  @IsOptional()
+  @IsString()
+  activationPrice?: string;
+
+  @ApiPropertyOptional({
+    example: '0.5',
+    description: 'Quantity (leave empty for entire position)',
+  })
+  @IsOptional()
+  @IsString()
+  quantity?: string;
+
+  @ApiPropertyOptional({ enum: ['BUY', 'SELL'], description: 'Order side' })
+  @IsOptional()
+  @IsEnum(['BUY', 'SELL'])
+  side?: 'BUY' | 'SELL';
+}
+
+/**
+ * Ladder (scaled) order DTO
+ */
+export class PlaceLadderDto {
+  @ApiProperty({ example: 'BTCUSDT', description: 'Trading symbol' })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ enum: OrderSide, example: OrderSide.BUY, description: 'Order side' })
+  @IsEnum(OrderSide)
+  side: OrderSide;
+
+  @ApiProperty({ example: '60000', description: 'Price of the first level' })
+  @IsString()
+  priceFrom: string;
+
+  @ApiProperty({ example: '58000', description: 'Price of the last level' })
+  @IsString()
+  priceTo: string;
+
+  @ApiProperty({ example: 5, description: 'Number of orders, priceFrom to priceTo' })
+  @IsInt()
+  @Min(2)
+  levels: number;
+
+  @ApiPropertyOptional({
+    enum: ['linear', 'geometric', 'custom'],
+    example: 'linear',
+    description:
+      'linear: sizes change in equal steps; geometric: by a constant ratio (both from 1 at ' +
+      'the first level to sizeScale at the last); custom: one weight per level',
+  })
+  @IsOptional()
+  @IsIn(['linear', 'geometric', 'custom'])
+  distribution?: LadderDistribution;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: 'Size of the last level relative to the first (default 1: equal sizes)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  @Max(100)
+  sizeScale?: number;
+
+  @ApiPropertyOptional({
+    example: [1, 1, 2, 3, 5],
+    description: 'Relative size of each level (custom distribution)',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsNumber({}, { each: true })
+  weights?: number[];
+
+  @ApiPropertyOptional({
+    example: '0.5',
+    description: 'Total quantity (give quantity or usdValue)',
+  })
+  @IsOptional()
+  @IsString()
+  quantity?: string;
+
+  @ApiPropertyOptional({
+    example: 30000,
+    description: 'Total notional in USD, split by weight and divided by each level price',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  usdValue?: number;
+
+  @ApiPropertyOptional({
+    enum: TimeInForce,
+    example: TimeInForce.GTC,
+    description: 'Time in force (GTX for post-only)',
+  })
+  @IsOptional()
+  @IsEnum(TimeInForce)
+  timeInForce?: TimeInForce;
+
+  @ApiPropertyOptional({ example: false, description: 'Reduce only flag (exit ladders)' })
+  @IsOptional()
+  @IsBoolean()
+  reduceOnly?: boolean;
+}
+
+/**
+ * Ladder amendment DTO: the new shape for what the open orders have left
+ */
+export class AmendLadderDto {
+  @ApiPropertyOptional({ example: '60000', description: 'Price of the first level' })
+  @IsOptional()
+  @IsString()
+  priceFrom?: string;
+
+  @ApiPropertyOptional({ example: '58000', description: 'Price of the last level' })
+  @IsOptional()
+  @IsString()
+  priceTo?: string;
+
+  @ApiPropertyOptional({ example: 5, description: 'Number of orders, priceFrom to priceTo' })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  levels?: number;
+
+  @ApiPropertyOptional({
+    enum: ['linear', 'geometric', 'custom'],
+    example: 'linear',
+    description:
+      'linear: sizes change in equal steps; geometric: by a constant ratio (both from 1 at ' +
+      'the first level to sizeScale at the last); custom: one weight per level',
+  })
+  @IsOptional()
+  @IsIn(['linear', 'geometric', 'custom'])
+  distribution?: LadderDistribution;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: 'Size of the last level relative to the first (default 1: equal sizes)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  @Max(100)
+  sizeScale?: number;
+
+  @ApiPropertyOptional({
+    example: [1, 1, 2, 3, 5],
+    description: 'Relative size of each level (custom distribution)',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsNumber({}, { each: true })
+  weights?: number[];
+}
+
+/**
+ * Heartbeat DTO: keeps the dead man's switch from pulling open orders
+ */
+export class HeartbeatDto {
+  @ApiPropertyOptional({
+    example: 60000,
+    description:
+      'Open orders are cancelled this long after the last heartbeat (default: ' +
+      'HEARTBEAT_TIMEOUT_MS). OKX counts down at least 10s, Hyperliquid at least 5s.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(5000)
+  @Max(86400000)
+  timeoutMs?: number;
+
+  @ApiPropertyOptional({
+    enum: ['aster', 'hyperliquid', 'binance', 'okx', 'paper'],
+    isArray: true,
+    example: ['binance', 'okx'],
+    description: 'Exchanges to arm (default: the exchange query parameter)',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(['aster', 'hyperliquid', 'binance', 'okx', 'orderly', 'paper'], { each: true })
+  exchanges?: ExchangeName[];
+}
+
 /**
  * Open position DTO
  */
@@ -1,7 +1,37 @@
-import { Injectable, Type } from '@nestjs/common';
+import { Injectable, NotImplementedException, Type } from '@nestjs/common';
 import { ModuleRef } from '@nestjs/core';
-import { ExchangeName, TradingType } from '../types/exchange.types';
-import { IBaseTradingService, IBaseBalanceService, IBaseMarketService } from '../interfaces';
+import { ExchangeName, OrderType, TradingType } from '../types/exchange.types';
+import {
+  IBaseTradingService,
+  IBaseBalanceService,
+  IBaseMarketService,
+  IMarketStreamService,
+  IUserDataStreamService,
+} from '../interfaces';
+
+/**
+ * Features an exchange integration supports
+ */
+export interface ExchangeCapabilities {
+  orderTypes: OrderType[];
+  hedgeMode: boolean;
+  conditionalOrders: boolean;
+  // Native batch place/cancel endpoints (otherwise batches run order by order)
+  batchOrders: boolean;
+  // Native order amend (otherwise orders are amended by cancel-replace)
+  amendOrders: boolean;
+  // Native dead man's switch cancelling all orders after a timeout
+  cancelAllAfter: boolean;
+  transfers: boolean;
+  websocket: boolean;
+  userDataStream: boolean;
+  testnet: boolean;
+}
+
+/**
+ * Boolean capability flags (everything except the order type list)
+ */
+export type ExchangeCapability = Exclude<keyof ExchangeCapabilities, 'orderTypes'>;
 
 /**
  * Exchange service registration metadata
@@ -12,6 +42,41 @@ export interface ExchangeServiceMetadata {
   tradingService: Type<IBaseTradingService>;
   balanceService: Type<IBaseBalanceService>;
   marketService: Type<IBaseMarketService>;
+  streamService?: Type<IMarketStreamService>;
+  userDataService?: Type<IUserDataStreamService>;
+  capabilities: ExchangeCapabilities;
+}
+
+/**
+ * Wraps a trading service (journaling, throttling...). Applied in registration order.
+ */
+export type TradingServiceDecorator = (
+  service: IBaseTradingService,
+  exchange: ExchangeName,
+  tradingType: TradingType,
+) => IBaseTradingService;
+
+/**
+ * Proxy a trading service so the named methods run through `intercept` (which receives the
+ * original call). Other methods are bound to the service itself, so calls the service makes
+ * internally never pass through the proxy.
+ */
+export function interceptTradingMethods<T extends object>(
+  service: T,
+  methods: string[],
+  intercept: (method: string, args: any[], call: (...args: any[]) => Promise<any>) => Promise<any>,
+): T {
+  return new Proxy(service, {
+    get: (target, property) => {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') return value;
+
+      const call = value.bind(target);
+      if (typeof property !== 'string' || !methods.includes(property)) return call;
+
+      return (...args: any[]) => intercept(property, args, call);
+    },
+  });
 }
 
 /**
@@ -66,6 +131,16 @@ export class ExchangeRegistry {
     return this.getAll().filter(e => e.exchange === exchange);
   }
 
+  /**
+   * Get declared capabilities for exchange
+   */
+  getCapabilities(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+  ): ExchangeCapabilities | undefined {
+    return this.get(exchange, tradingType)?.capabilities;
+  }
+
   private getKey(exchange: ExchangeName, tradingType: TradingType): string {
     return `${exchange}:${tradingType}`;
   }
@@ -76,6 +151,9 @@ export class ExchangeRegistry {
  */
 @Injectable()
 export class ExchangeServiceFactory {
+  private readonly tradingDecorators: TradingServiceDecorator[] = [];
+  private readonly decoratedTradingServices = new Map<string, IBaseTradingService>();
+
   constructor(
     private readonly registry: ExchangeRegistry,
     private readonly moduleRef: ModuleRef,
@@ -92,7 +170,30 @@ export class ExchangeServiceFactory {
     if (!metadata) {
       throw new Error(`Exchange ${exchange} with trading type ${tradingType} not registered`);
     }
-    return this.moduleRef.get(metadata.tradingService, { strict: false });
+    const service = this.moduleRef.get(metadata.tradingService, { strict: false });
+    if (this.tradingDecorators.length === 0) {
+      return service;
+    }
+
+    const key = `${exchange}:${tradingType}`;
+    if (!this.decoratedTradingServices.has(key)) {
+      this.decoratedTradingServices.set(
+        key,
+        this.tradingDecorators.reduce(
+          (decorated, decorator) => decorator(decorated, exchange, tradingType),
+          service,
+        ),
+      );
+    }
+    return this.decoratedTradingServices.get(key)!;
+  }
+
+  /**
+   * Wrap every trading service handed out by getTradingService
+   */
+  addTradingDecorator(decorator: TradingServiceDecorator): void {
+    this.tradingDecorators.push(decorator);
+    this.decoratedTradingServices.clear();
   }
 
   /**
@@ -123,6 +224,40 @@ export class ExchangeServiceFactory {
     return this.moduleRef.get(metadata.marketService, { strict: false });
   }
 
+  /**
+   * Get real-time market stream service for exchange
+   */
+  async getMarketStreamService(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+  ): Promise<IMarketStreamService> {
+    const metadata = this.registry.get(exchange, tradingType);
+    if (!metadata) {
+      throw new Error(`Exchange ${exchange} with trading type ${tradingType} not registered`);
+    }
+    if (!metadata.streamService) {
+      throw new NotImplementedException(`Market streams are not supported on ${exchange}`);
+    }
+    return this.moduleRef.get(metadata.streamService, { strict: false });
+  }
+
+  /**
+   * Get private user data stream service for exchange
+   */
+  async getUserDataStreamService(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+  ): Promise<IUserDataStreamService> {
+    const metadata = this.registry.get(exchange, tradingType);
+    if (!metadata) {
+      throw new Error(`Exchange ${exchange} with trading type ${tradingType} not registered`);
+    }
+    if (!metadata.userDataService) {
+      throw new NotImplementedException(`User data streams are not supported on ${exchange}`);
+    }
+    return this.moduleRef.get(metadata.userDataService, { strict: false });
+  }
+
   /**
    * Get all services for exchange
    */
@@ -160,4 +295,55 @@ export class ExchangeServiceFactory {
       tradingType: metadata.tradingType,
     }));
   }
+
+  /**
+   * Get capability matrix for all registered exchanges
+   */
+  getCapabilityMatrix(): Array<{
+    exchange: ExchangeName;
+    tradingType: TradingType;
+    capabilities: ExchangeCapabilities;
+  }> {
+    return this.registry.getAll().map(metadata => ({
+      exchange: metadata.exchange,
+      tradingType: metadata.tradingType,
+      capabilities: metadata.capabilities,
+    }));
+  }
+
+  /**
+   * Check whether the exchange declares a capability
+   */
+  hasCapability(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+    capability: ExchangeCapability,
+  ): boolean {
+    return !!this.registry.getCapabilities(exchange, tradingType)?.[capability];
+  }
+
+  /**
+   * Throw 501 Not Implemented when the exchange lacks a capability
+   */
+  assertCapability(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+    capability: ExchangeCapability,
+    operation: string,
+  ): void {
+    const capabilities = this.registry.getCapabilities(exchange, tradingType);
+    if (capabilities && !capabilities[capability]) {
+      throw new NotImplementedException(`${operation} is not supported on ${exchange}`);
+    }
+  }
+
+  /**
+   * Throw 501 Not Implemented when the exchange does not support an order type
+   */
+  assertOrderType(exchange: ExchangeName, tradingType: TradingType, orderType: OrderType): void {
+    const capabilities = this.registry.getCapabilities(exchange, tradingType);
+    if (capabilities && !capabilities.orderTypes.includes(orderType)) {
+      throw new NotImplementedException(`${orderType} orders are not supported on ${exchange}`);
+    }
+  }
 }
@@ -9,18 +9,62 @@ import { ConfigService } from '@nestjs/config';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
 
+/**
+ * Parse API_KEY_ACCESS: one key, or several separated by commas
+ */
+export function parseApiKeys(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read the API key from an HTTP request
+ */
+export function getRequestApiKey(request: any): string | undefined {
+  // Support multiple header formats
+  return (
+    request.headers['x-api-key'] ||
+    request.headers['api-key'] ||
+    request.headers['authorization']?.replace('Bearer ', '')
+  );
+}
+
+/**
+ * The API key of an HTTP request, once checked against the configured keys
+ */
+export function authenticateApiKey(request: any, apiKeys: string[]): string {
+  return verifyApiKey(getRequestApiKey(request), apiKeys);
+}
+
+/**
+ * Check an API key against the configured keys. With none configured every key is rejected.
+ */
+export function verifyApiKey(apiKey: string | undefined, apiKeys: string[]): string {
+  if (!apiKey) {
+    throw new UnauthorizedException('API key is required');
+  }
+
+  if (!apiKeys.includes(apiKey)) {
+    throw new UnauthorizedException('Invalid API key');
+  }
+
+  return apiKey;
+}
+
 @Injectable()
 export class ApiKeyGuard implements CanActivate {
   private readonly logger = new Logger(ApiKeyGuard.name);
-  private readonly apiKey: string;
+  private readonly apiKeys: string[];
 
   constructor(
     private configService: ConfigService,
     private reflector: Reflector,
   ) {
-    this.apiKey = this.configService.get<string>('API_KEY_ACCESS') || '';
+    this.apiKeys = parseApiKeys(this.configService.get<string>('API_KEY_ACCESS'));
 
-    if (!this.apiKey) {
+    if (this.apiKeys.length === 0) {
       this.logger.warn('⚠️  API_KEY_ACCESS is not configured. API key authentication will fail.');
     }
   }
@@ -36,29 +80,13 @@ export class ApiKeyGuard implements CanActivate {
       return true;
     }
 
-    const request = context.switchToHttp().getRequest();
-    const apiKeyFromHeader = this.extractApiKeyFromHeader(request);
-
-    if (!apiKeyFromHeader) {
-      this.logger.warn('API key is missing from request headers');
-      throw new UnauthorizedException('API key is required');
-    }
-
-    if (apiKeyFromHeader !== this.apiKey) {
-      this.logger.warn('Invalid API key provided');
-      throw new UnauthorizedException('Invalid API key');
+    try {
+      authenticateApiKey(context.switchToHttp().getRequest(), this.apiKeys);
+    } catch (error: any) {
+      this.logger.warn(`API key rejected: ${error.message}`);
+      throw error;
     }
 
     return true;
   }
-
-  private extractApiKeyFromHeader(request: any): string | undefined {
-    // Support multiple header formats
-    const apiKey =
-      request.headers['x-api-key'] ||
-      request.headers['api-key'] ||
-      request.headers['authorization']?.replace('Bearer ', '');
-
-    return apiKey;
-  }
 }
@@ -7,6 +7,11 @@ export * from './decorators/api-key.decorator';
 
 // Services
 export * from './services/symbol-normalizer.service';
+export * from './services/user-data-event-bus.service';
+export * from './services/order-book-manager.service';
+export * from './services/local-order-book';
+export * from './services/rate-limiter.service';
+export * from './services/circuit-breaker.service';
 
 // Middleware
 export * from './middleware/symbol-normalizer.middleware';
@@ -16,6 +21,21 @@ export * from './types';
 export * from './interfaces';
 export * from './dto';
 
+// WebSocket streaming
+export * from './websocket';
+
+// Rate limiting
+export * from './rate-limit';
+
+// Batch orders
+export * from './batch';
+
+// Order amendment
+export * from './amend';
+
+// State files
+export * from './state';
+
 // Factory and Registry
 export * from './factory';
 export * from './common.module';
@@ -4,3 +4,5 @@ export * from './market.interface';
 export * from './perpetual-trading.interface';
 export * from './perpetual-balance.interface';
 export * from './perpetual-market.interface';
+export * from './market-stream.interface';
+export * from './user-data-stream.interface';
@@ -0,0 +1,72 @@
+/**
+ * Market Stream Service Interface
+ * Real-time market data adapters implement this interface to feed the WebSocket gateway
+ */
+
+import { Observable } from 'rxjs';
+import {
+  Candle,
+  ExchangeName,
+  OrderBook,
+  OrderBookDiff,
+  TickerPrice,
+  Trade,
+} from '../types/exchange.types';
+
+/**
+ * `depth` carries incremental book updates for the OrderBookManager and is not offered to clients
+ */
+export type MarketStreamChannel = 'ticker' | 'orderbook' | 'trades' | 'candles' | 'depth';
+
+export const MARKET_STREAM_CHANNELS: MarketStreamChannel[] = [
+  'ticker',
+  'orderbook',
+  'trades',
+  'candles',
+];
+
+/**
+ * A single stream: channel + exchange symbol (+ interval for candles)
+ */
+export interface MarketStreamTopic {
+  channel: MarketStreamChannel;
+  symbol: string;
+  interval?: string;
+}
+
+/**
+ * Normalized market data pushed by an adapter
+ */
+export interface MarketStreamEvent<T = TickerPrice | OrderBook | OrderBookDiff | Trade | Candle>
+  extends MarketStreamTopic {
+  exchange: ExchangeName;
+  data: T;
+}
+
+export interface IMarketStreamService {
+  /**
+   * Start streaming a topic. Returns the topic with the symbol in the adapter's native format,
+   * which is the symbol emitted events will carry. Subscriptions are reference counted.
+   */
+  subscribe(topic: MarketStreamTopic): MarketStreamTopic;
+
+  /**
+   * Convert a topic to the adapter's native symbol format (candles default to 1m)
+   */
+  resolveTopic(topic: MarketStreamTopic): MarketStreamTopic;
+
+  /**
+   * Release a subscription; the upstream stream stops when the last subscriber leaves
+   */
+  unsubscribe(topic: MarketStreamTopic): void;
+
+  /**
+   * Normalized events for all subscribed topics
+   */
+  getEvents(): Observable<MarketStreamEvent>;
+
+  /**
+   * Check if the upstream connection is open
+   */
+  isConnected(): boolean;
+}
@@ -206,3 +206,12 @@ export interface IPerpetualBalanceService extends IBaseBalanceService {
     side: 'LONG' | 'SHORT',
   ): Promise<ApiResponse<{ pnl: string; pnlPercentage: string }>>;
 }
+
+/**
+ * Whether a balance service reports perpetual positions and margin
+ */
+export function isPerpetualBalanceService(
+  service: IBaseBalanceService,
+): service is IPerpetualBalanceService {
+  return 'getPositions' in service;
+}
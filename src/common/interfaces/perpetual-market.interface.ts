@@ -53,6 +53,20 @@ export interface LiquidationOrder {
   time: number;
 }
 
+/**
+ * Maintenance margin tier (leverage bracket). Maintenance margin is
+ * notional × maintenanceMarginRate − maintenanceAmount for positions in the tier.
+ */
+export interface MarginTier {
+  // Position size range [floor, cap): notional, or base quantity where tiers go by size (OKX)
+  floor: number;
+  cap: number;
+  basis: 'notional' | 'quantity';
+  maxLeverage: number;
+  maintenanceMarginRate: number;
+  maintenanceAmount: number;
+}
+
 /**
  * Perpetual Market Data Service Interface
  * All perpetual/perps exchanges must implement this interface
@@ -130,6 +144,11 @@ export interface IPerpetualMarketService extends IBaseMarketService {
    */
   getContractInfo(symbol?: string): Promise<ApiResponse<any>>;
 
+  /**
+   * Get maintenance margin tiers (leverage brackets) for a symbol, smallest positions first
+   */
+  getMarginTiers(symbol: string): Promise<ApiResponse<MarginTier[]>>;
+
   /**
    * Get all available futures symbols
    */
@@ -155,3 +174,12 @@ export interface IPerpetualMarketService extends IBaseMarketService {
    */
   getNotionalLimits(symbol: string): Promise<ApiResponse<{ min: string; max: string }>>;
 }
+
+/**
+ * Whether a market service serves perpetual data such as mark prices
+ */
+export function isPerpetualMarketService(
+  service: IBaseMarketService,
+): service is IPerpetualMarketService {
+  return 'getMarkPrice' in service;
+}
@@ -35,6 +35,17 @@ export interface SetTakeProfitParams {
   side?: 'BUY' | 'SELL';
 }
 
+/**
+ * Trailing stop parameters
+ */
+export interface SetTrailingStopParams {
+  symbol: string;
+  callbackRate: number; // Percent the price may retrace from its best level before triggering
+  activationPrice?: string; // Start trailing once the price reaches it (default: immediately)
+  quantity?: string; // If not provided, close entire position
+  side?: 'BUY' | 'SELL';
+}
+
 /**
  * Perpetual Trading Service Interface
  * All perpetual/perps exchanges must implement this interface
@@ -97,6 +108,11 @@ export interface IPerpetualTradingService extends IBaseTradingService {
    */
   setTakeProfit(params: SetTakeProfitParams): Promise<ApiResponse<Order>>;
 
+  /**
+   * Set trailing stop for position
+   */
+  setTrailingStop(params: SetTrailingStopParams): Promise<ApiResponse<Order>>;
+
   /**
    * Cancel all stop loss and take profit orders for symbol
    */
@@ -170,3 +186,12 @@ export interface IPerpetualTradingService extends IBaseTradingService {
    */
   closeShort(symbol: string, quantity?: string): Promise<ApiResponse<Order>>;
 }
+
+/**
+ * Whether a trading service handles perpetual positions
+ */
+export function isPerpetualTradingService(
+  service: IBaseTradingService,
+): service is IPerpetualTradingService {
+  return 'getPositions' in service;
+}
@@ -21,6 +21,9 @@ export interface PlaceOrderParams {
   timeInForce?: TimeInForce;
   clientOrderId?: string;
   stopPrice?: string;
+  // TRAILING_STOP: percent retrace that triggers it and the price it starts trailing at
+  callbackRate?: number;
+  activationPrice?: string;
   reduceOnly?: boolean;
   positionSide?: PositionSide;
 }
@@ -66,6 +69,23 @@ export interface CancelOrderParams {
   clientOrderId?: string;
 }
 
+export interface ModifyOrderParams {
+  symbol: string;
+  orderId?: string;
+  clientOrderId?: string;
+  // New limit price (unchanged when omitted)
+  price?: string;
+  // New total quantity, filled part included (unchanged when omitted)
+  quantity?: string;
+}
+
+export interface CancelAllAfterResult {
+  // When the exchange cancels all open orders unless re-armed first (unset once disarmed)
+  cancelAt?: number;
+  // Symbols the timer covers, on exchanges that arm it per symbol
+  symbols?: string[];
+}
+
 export interface IBaseTradingService {
   /**
    * Place a new order
@@ -82,16 +102,40 @@ export interface IBaseTradingService {
    */
   placeLimitOrder(params: LimitOrderParams): Promise<ApiResponse<Order>>;
 
+  /**
+   * Place several orders, through the exchange batch endpoint when it has one.
+   * Resolves with one result per order, in request order.
+   */
+  placeOrders(orders: PlaceOrderParams[]): Promise<ApiResponse<ApiResponse<Order>[]>>;
+
+  /**
+   * Change the price and/or quantity of an open limit order, in place where the exchange can
+   * amend orders and by cancel-replace otherwise
+   */
+  modifyOrder(params: ModifyOrderParams): Promise<ApiResponse<Order>>;
+
   /**
    * Cancel an order
    */
   cancelOrder(params: CancelOrderParams): Promise<ApiResponse<any>>;
 
+  /**
+   * Cancel several orders, through the exchange batch endpoint when it has one.
+   * Resolves with one result per order, in request order.
+   */
+  cancelOrders(orders: CancelOrderParams[]): Promise<ApiResponse<ApiResponse<any>[]>>;
+
   /**
    * Cancel all orders
    */
   cancelAllOrders(symbol?: string): Promise<ApiResponse<any>>;
 
+  /**
+   * Arm the exchange-native dead man's switch: all open orders are cancelled unless this is
+   * called again within timeoutMs. A timeout of 0 disarms it.
+   */
+  cancelAllAfter(timeoutMs: number): Promise<ApiResponse<CancelAllAfterResult>>;
+
   /**
    * Get open orders
    */
@@ -102,6 +146,12 @@ export interface IBaseTradingService {
    */
   getOrder(symbol: string, orderId: string): Promise<ApiResponse<Order>>;
 
+  /**
+   * Find an open or recently closed order by client order ID.
+   * Resolves with data null when the exchange does not know the order.
+   */
+  getOrderByClientId(symbol: string, clientOrderId: string): Promise<ApiResponse<Order | null>>;
+
   /**
    * Quick market buy
    */
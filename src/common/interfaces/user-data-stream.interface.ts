@@ -0,0 +1,32 @@
+/**
+ * User Data Stream Service Interface
+ * Private account streams (orders, fills, positions) publish normalized events on the event bus
+ */
+
+import { ExchangeName, Order, Position, Trade } from '../types/exchange.types';
+
+export type UserDataEventType = 'order' | 'trade' | 'position';
+
+export const USER_DATA_EVENT_TYPES: UserDataEventType[] = ['order', 'trade', 'position'];
+
+export type UserDataEvent =
+  | { exchange: ExchangeName; type: 'order'; data: Order; timestamp: number }
+  | { exchange: ExchangeName; type: 'trade'; data: Trade; timestamp: number }
+  | { exchange: ExchangeName; type: 'position'; data: Position; timestamp: number };
+
+export interface IUserDataStreamService {
+  /**
+   * Open the private stream. Returns false when credentials are not configured.
+   */
+  start(): Promise<boolean>;
+
+  /**
+   * Close the private stream
+   */
+  stop(): void;
+
+  /**
+   * Check if the private stream is connected
+   */
+  isConnected(): boolean;
+}
@@ -25,6 +25,15 @@ export class SymbolNormalizerMiddleware implements NestMiddleware {
       req.body.symbol = this.symbolNormalizer.toExchangeSymbol(standardSymbol, exchange);
     }
 
+    // Convert symbols of batch orders in body
+    if (req.body && Array.isArray(req.body.orders)) {
+      for (const order of req.body.orders) {
+        if (order && typeof order.symbol === 'string') {
+          order.symbol = this.symbolNormalizer.toExchangeSymbol(order.symbol, exchange);
+        }
+      }
+    }
+
     // Convert symbol in route params
     if (req.params && req.params.symbol) {
       const standardSymbol = req.params.symbol as string;
@@ -0,0 +1,209 @@
+import { ExchangeName } from '../types/exchange.types';
+import { ExchangeRateLimits, RateLimitRule, RateLimitedRequest } from './rate-limit.types';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+const isPost = (request: RateLimitedRequest) => request.method === 'POST';
+
+/**
+ * Number of entries in a JSON array parameter (Binance batchOrders), 1 when unparsable
+ */
+function countBatch(value: unknown): number {
+  try {
+    const items = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(items) ? items.length : 1;
+  } catch {
+    return 1;
+  }
+}
+
+/**
+ * Request weight of a Binance-style futures endpoint (Binance, Aster)
+ */
+function binanceWeight({ path, params }: RateLimitedRequest): number {
+  const endpoint = path.replace(/^\/fapi\/v\d\//, '');
+  const limit = Number(params.limit) || 500;
+
+  switch (endpoint) {
+    case 'depth':
+      return limit <= 50 ? 2 : limit <= 100 ? 5 : limit <= 500 ? 10 : 20;
+    case 'klines':
+      return limit < 100 ? 1 : limit < 500 ? 2 : limit <= 1000 ? 5 : 10;
+    case 'ticker/price':
+      return params.symbol ? 1 : 2;
+    case 'ticker/bookTicker':
+      return params.symbol ? 2 : 5;
+    case 'premiumIndex':
+      return params.symbol ? 1 : 10;
+    case 'openOrders':
+      return params.symbol ? 1 : 40;
+    case 'allForceOrders':
+      return params.symbol ? 20 : 50;
+    case 'income':
+      return 30;
+    case 'countdownCancelAll':
+      return 10;
+    case 'account':
+    case 'balance':
+    case 'positionRisk':
+    case 'allOrders':
+    case 'userTrades':
+    case 'trades':
+    case 'batchOrders':
+      return 5;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Orders a Binance-style request creates or amends (counted against the order limits)
+ */
+function binanceOrderCount(request: RateLimitedRequest): number {
+  if (request.method === 'PUT' && /\/order$/.test(request.path)) return 1;
+  if (!isPost(request)) return 0;
+  if (/\/order$/.test(request.path)) return 1;
+  if (/\/batchOrders$/.test(request.path)) return countBatch(request.params.batchOrders);
+  return 0;
+}
+
+const binanceRules: RateLimitRule[] = [
+  {
+    id: 'REQUEST_WEIGHT_1M',
+    limit: 2400,
+    intervalMs: MINUTE,
+    window: 'fixed',
+    usageHeader: 'x-mbx-used-weight-1m',
+    cost: binanceWeight,
+  },
+  {
+    id: 'ORDERS_10S',
+    limit: 300,
+    intervalMs: 10 * SECOND,
+    window: 'fixed',
+    usageHeader: 'x-mbx-order-count-10s',
+    cost: binanceOrderCount,
+  },
+  {
+    id: 'ORDERS_1M',
+    limit: 1200,
+    intervalMs: MINUTE,
+    window: 'fixed',
+    usageHeader: 'x-mbx-order-count-1m',
+    cost: binanceOrderCount,
+  },
+];
+
+/**
+ * OKX limit applying to each endpoint starting with one of `prefixes` on its own
+ */
+function okxEndpointRule(
+  id: string,
+  limit: number,
+  prefixes: string[],
+  intervalMs = 2 * SECOND,
+): RateLimitRule {
+  return {
+    id,
+    limit,
+    intervalMs,
+    window: 'rolling',
+    perEndpoint: true,
+    cost: ({ path }) => (prefixes.some(prefix => path.startsWith(prefix)) ? 1 : 0),
+  };
+}
+
+/**
+ * Orders an OKX request creates or amends (counted against the sub-account order limit)
+ */
+function okxOrderCount({ method, path, body }: RateLimitedRequest): number {
+  if (method !== 'POST') return 0;
+  if (path === '/api/v5/trade/order' || path === '/api/v5/trade/amend-order') return 1;
+  if (path === '/api/v5/trade/batch-orders' || path === '/api/v5/trade/amend-batch-orders') {
+    return countBatch(body);
+  }
+  return 0;
+}
+
+const okxRules: RateLimitRule[] = [
+  okxEndpointRule('TRADE_2S', 60, ['/api/v5/trade/']),
+  okxEndpointRule('ALGO_TRADE_2S', 20, [
+    '/api/v5/trade/order-algo',
+    '/api/v5/trade/cancel-algos',
+    '/api/v5/trade/orders-algo-pending',
+    '/api/v5/trade/close-position',
+  ]),
+  okxEndpointRule('TRADE_HISTORY_2S', 10, ['/api/v5/trade/fills-history']),
+  okxEndpointRule('CANCEL_ALL_AFTER_1S', 1, ['/api/v5/trade/cancel-all-after'], SECOND),
+  okxEndpointRule('ACCOUNT_2S', 10, ['/api/v5/account/']),
+  okxEndpointRule('ACCOUNT_BILLS_1S', 5, ['/api/v5/account/bills'], SECOND),
+  okxEndpointRule('ASSET_1S', 1, ['/api/v5/asset/'], SECOND),
+  okxEndpointRule('MARKET_2S', 20, ['/api/v5/market/', '/api/v5/public/']),
+  okxEndpointRule('RUBIK_2S', 5, ['/api/v5/rubik/']),
+  {
+    id: 'SUB_ACCOUNT_ORDERS_2S',
+    limit: 1000,
+    intervalMs: 2 * SECOND,
+    window: 'rolling',
+    cost: okxOrderCount,
+  },
+];
+
+// Info requests weighing 2 instead of 20
+const HYPERLIQUID_LIGHT_INFO = [
+  'l2Book',
+  'allMids',
+  'clearinghouseState',
+  'orderStatus',
+  'spotClearinghouseState',
+  'exchangeStatus',
+];
+
+/**
+ * Hyperliquid request weight: exchange actions 1 + 1 per 40 batched orders, cancels or modifies,
+ * info requests 2 or 20 (60 for userRole)
+ */
+function hyperliquidWeight({ path, body }: RateLimitedRequest): number {
+  if (path === '/exchange') {
+    const batch = body?.action?.orders ?? body?.action?.cancels ?? body?.action?.modifies ?? [];
+    return 1 + Math.floor(batch.length / 40);
+  }
+
+  if (body?.type === 'userRole') return 60;
+  return HYPERLIQUID_LIGHT_INFO.includes(body?.type) ? 2 : 20;
+}
+
+/**
+ * Modelled limits per exchange; exchanges without an entry are not limited
+ */
+export const EXCHANGE_RATE_LIMITS: Partial<Record<ExchangeName, ExchangeRateLimits>> = {
+  binance: { rules: binanceRules, backoffMs: MINUTE },
+  aster: { rules: binanceRules, backoffMs: MINUTE },
+  okx: { rules: okxRules, backoffMs: 2 * SECOND },
+  hyperliquid: {
+    rules: [
+      {
+        id: 'REQUEST_WEIGHT_1M',
+        limit: 1200,
+        intervalMs: MINUTE,
+        window: 'rolling',
+        cost: hyperliquidWeight,
+      },
+    ],
+    backoffMs: 10 * SECOND,
+  },
+  orderly: {
+    rules: [
+      {
+        id: 'ENDPOINT_1S',
+        limit: 10,
+        intervalMs: SECOND,
+        window: 'rolling',
+        perEndpoint: true,
+        cost: () => 1,
+      },
+    ],
+    backoffMs: SECOND,
+  },
+};
@@ -0,0 +1,3 @@
+export * from './rate-limit.types';
+export * from './exchange-rate-limits';
+export * from './usage-window';
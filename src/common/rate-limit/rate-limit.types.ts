@@ -0,0 +1,51 @@
+/**
+ * REST request as seen by the rate limiter
+ */
+export interface RateLimitedRequest {
+  method: string;
+  path: string;
+  // Query string and form body parameters merged
+  params: Record<string, any>;
+  // JSON body
+  body?: any;
+}
+
+/**
+ * One exchange limit, e.g. Binance's 2400 request weight per minute
+ */
+export interface RateLimitRule {
+  id: string;
+  limit: number;
+  intervalMs: number;
+  // fixed: resets at interval boundaries (Binance style); rolling: counts the last intervalMs
+  window: 'fixed' | 'rolling';
+  // Count each endpoint separately (OKX and Orderly limit per endpoint)
+  perEndpoint?: boolean;
+  // Response header carrying the exchange's own count for the current window
+  usageHeader?: string;
+  // Weight of a request under this limit; 0 when the limit does not apply
+  cost: (request: RateLimitedRequest) => number;
+}
+
+export interface ExchangeRateLimits {
+  rules: RateLimitRule[];
+  // Pause after a 429/418 without a Retry-After header
+  backoffMs: number;
+}
+
+export interface RateLimitBudget {
+  id: string;
+  endpoint?: string;
+  limit: number;
+  intervalMs: number;
+  used: number;
+  remaining: number;
+  resetsAt: number;
+}
+
+export interface RateLimitStatus {
+  exchange: string;
+  // Set while the exchange asked us to back off (HTTP 429/418)
+  blockedUntil?: number;
+  budgets: RateLimitBudget[];
+}
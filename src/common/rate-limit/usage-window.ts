@@ -0,0 +1,84 @@
+import { RateLimitRule } from './rate-limit.types';
+
+/**
+ * Usage of one rate limit rule (for one endpoint when the rule is per endpoint)
+ */
+export class UsageWindow {
+  private start = 0;
+  private used = 0;
+  // Rolling windows: weight spent per request, oldest first
+  private readonly entries: { at: number; cost: number }[] = [];
+
+  constructor(private readonly rule: RateLimitRule) {}
+
+  getUsed(now: number): number {
+    this.advance(now);
+    return this.used;
+  }
+
+  /**
+   * When the current window (fixed) or the oldest counted request (rolling) stops counting
+   */
+  getResetTime(now: number): number {
+    this.advance(now);
+    if (this.rule.window === 'fixed') {
+      return this.start + this.rule.intervalMs;
+    }
+    return this.entries.length ? this.entries[0].at + this.rule.intervalMs : now;
+  }
+
+  /**
+   * Milliseconds until `cost` fits within `capacity` (0 when it fits now). A request heavier
+   * than the whole capacity goes through once the window is empty.
+   */
+  getWait(cost: number, capacity: number, now: number): number {
+    this.advance(now);
+    if (this.used + cost <= capacity || this.used === 0) return 0;
+
+    if (this.rule.window === 'fixed') {
+      return this.start + this.rule.intervalMs - now;
+    }
+
+    let used = this.used;
+    for (const entry of this.entries) {
+      used -= entry.cost;
+      if (used + cost <= capacity || used === 0) {
+        return entry.at + this.rule.intervalMs - now;
+      }
+    }
+    return this.rule.intervalMs;
+  }
+
+  add(cost: number, now: number): void {
+    this.advance(now);
+    this.used += cost;
+    if (this.rule.window === 'rolling') {
+      this.entries.push({ at: now, cost });
+    }
+  }
+
+  /**
+   * Adopt the exchange's count when it is ahead of ours (other clients on the same IP or
+   * account, or weights we under-estimate). Only fixed windows report usage.
+   */
+  sync(reported: number, now: number): void {
+    if (this.rule.window !== 'fixed') return;
+    this.advance(now);
+    this.used = Math.max(this.used, reported);
+  }
+
+  private advance(now: number): void {
+    if (this.rule.window === 'fixed') {
+      const start = now - (now % this.rule.intervalMs);
+      if (start !== this.start) {
+        this.start = start;
+        this.used = 0;
+      }
+      return;
+    }
+
+    while (this.entries.length && this.entries[0].at + this.rule.intervalMs <= now) {
+      this.used -= this.entries.shift()!.cost;
+    }
+  }
+}
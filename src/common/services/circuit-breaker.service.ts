@@ -0,0 +1,245 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { CircuitBreakerConfig } from '../../config/circuit-breaker.config';
+import { ExchangeName } from '../types/exchange.types';
+import { RateLimitExceededError } from './rate-limiter.service';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Raised instead of sending a request while an exchange's circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number,
+  ) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export interface ExchangeHealth {
+  exchange: ExchangeName;
+  state: CircuitState;
+  consecutiveFailures: number;
+  // When an open circuit lets the next probe request through
+  retryAt?: number;
+  lastError?: string;
+  // Rolling stats over the configured window
+  requests: number;
+  errorRate: number;
+  latencyMs: { avg: number; p50: number; p95: number; max: number };
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  // Request let through to probe recovery while half-open
+  probe?: InternalAxiosRequestConfig;
+  lastError?: string;
+  samples: { at: number; latencyMs: number; failed: boolean }[];
+}
+
+/**
+ * Fails requests to a degraded exchange fast instead of letting each one wait for the HTTP
+ * timeout.
+ *
+ * API services attach their HTTP clients. Consecutive failures (no response, timeouts, 5xx)
+ * or slow responses open the exchange's circuit; while open, requests fail immediately with
+ * CircuitOpenError. After the open period a single probe request is let through (half-open):
+ * success closes the circuit, failure opens it again.
+ */
+@Injectable()
+export class CircuitBreakerService {
+  private readonly logger = new Logger(CircuitBreakerService.name);
+  private readonly config: CircuitBreakerConfig;
+  private readonly circuits = new Map<ExchangeName, Circuit>();
+  // Send time of the requests in flight
+  private readonly started = new WeakMap<InternalAxiosRequestConfig, number>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.get<CircuitBreakerConfig>('circuitBreaker')!;
+  }
+
+  /**
+   * Guard the requests of an exchange HTTP client. Attach before the rate limiter so measured
+   * latency excludes the time a request waited for budget.
+   */
+  attach(exchange: ExchangeName, client: AxiosInstance): void {
+    if (!this.config.enabled) return;
+    this.getCircuit(exchange);
+
+    client.interceptors.request.use(config => {
+      this.beforeRequest(exchange, config);
+      this.started.set(config, Date.now());
+      return config;
+    });
+    client.interceptors.response.use(
+      response => {
+        this.afterRequest(exchange, response.config);
+        return response;
+      },
+      error => {
+        this.afterRequest(exchange, error.config, error);
+        return Promise.reject(error);
+      },
+    );
+  }
+
+  /**
+   * Circuit state and rolling latency/error rates of each guarded exchange
+   */
+  getStatus(): ExchangeHealth[] {
+    const now = Date.now();
+
+    return [...this.circuits.entries()].map(([exchange, circuit]) => {
+      this.pruneSamples(circuit, now);
+      const latencies = circuit.samples.map(s => s.latencyMs).sort((a, b) => a - b);
+      const failures = circuit.samples.filter(s => s.failed).length;
+      const percentile = (p: number) =>
+        latencies.length ? latencies[Math.ceil((p / 100) * latencies.length) - 1] : 0;
+
+      return {
+        exchange,
+        state: circuit.state,
+        consecutiveFailures: circuit.consecutiveFailures,
+        retryAt: circuit.state === 'open' ? circuit.openedAt + this.config.openMs : undefined,
+        lastError: circuit.lastError,
+        requests: latencies.length,
+        errorRate: latencies.length ? failures / latencies.length : 0,
+        latencyMs: {
+          avg: latencies.length
+            ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length)
+            : 0,
+          p50: percentile(50),
+          p95: percentile(95),
+          max: latencies[latencies.length - 1] ?? 0,
+        },
+      };
+    });
+  }
+
+  private beforeRequest(exchange: ExchangeName, config: InternalAxiosRequestConfig): void {
+    const circuit = this.getCircuit(exchange);
+    const now = Date.now();
+
+    if (circuit.state === 'open') {
+      const retryAt = circuit.openedAt + this.config.openMs;
+      if (now < retryAt) {
+        throw new CircuitOpenError(
+          `Circuit open: ${exchange} API unavailable (${circuit.lastError}), ` +
+            `retrying in ${Math.ceil((retryAt - now) / 1000)}s`,
+          retryAt - now,
+        );
+      }
+      circuit.state = 'half-open';
+      this.logger.log(`${exchange} circuit half-open, probing recovery`);
+    }
+
+    if (circuit.state === 'half-open') {
+      if (circuit.probe) {
+        throw new CircuitOpenError(
+          `Circuit open: ${exchange} API recovering, waiting for the probe request`,
+          0,
+        );
+      }
+      circuit.probe = config;
+    }
+  }
+
+  private afterRequest(
+    exchange: ExchangeName,
+    config: InternalAxiosRequestConfig | undefined,
+    error?: any,
+  ): void {
+    const circuit = this.getCircuit(exchange);
+    const startedAt = config && this.started.get(config);
+
+    // The probe is over however it ended. An error without a config (thrown by one of the
+    // client's own interceptors, e.g. signing) cannot be matched to its request; as other
+    // requests are refused while the probe runs it is released too, at worst letting a second
+    // probe through rather than holding the circuit half-open for good.
+    if (
+      config
+        ? config === circuit.probe
+        : !(error instanceof CircuitOpenError || error instanceof RateLimitExceededError)
+    ) {
+      circuit.probe = undefined;
+    }
+
+    // Not sent: refused by this breaker or by the client's own (signing) interceptors
+    if (!startedAt || (error && !error.response && !error.request)) {
+      if (startedAt) this.started.delete(config!);
+      return;
+    }
+
+    const now = Date.now();
+    const latencyMs = now - startedAt;
+    const failure = this.describeFailure(error, latencyMs);
+
+    this.started.delete(config!);
+    circuit.samples.push({ at: now, latencyMs, failed: !!failure });
+    this.pruneSamples(circuit, now);
+
+    if (!failure) {
+      if (circuit.state !== 'closed') {
+        this.logger.log(`${exchange} circuit closed, API recovered`);
+      }
+      circuit.state = 'closed';
+      circuit.consecutiveFailures = 0;
+      return;
+    }
+
+    circuit.consecutiveFailures++;
+    circuit.lastError = failure;
+
+    if (
+      circuit.state === 'half-open' ||
+      (circuit.state === 'closed' && circuit.consecutiveFailures >= this.config.failureThreshold)
+    ) {
+      circuit.state = 'open';
+      circuit.openedAt = now;
+      this.logger.warn(
+        `${exchange} circuit opened after ${circuit.consecutiveFailures} failed or slow ` +
+          `requests (${failure}), failing fast for ${this.config.openMs / 1000}s`,
+      );
+    }
+  }
+
+  /**
+   * Why a completed request counts against the exchange's health, if it does. Client errors
+   * (4xx, including 429) are the caller's problem, not the exchange's.
+   */
+  private describeFailure(error: any, latencyMs: number): string | undefined {
+    const status = error?.response?.status;
+
+    if (error && !error.response) return error.code || error.message || 'No response';
+    if (status >= 500) return `HTTP ${status}`;
+    if (latencyMs > this.config.slowCallMs) return `slow response (${latencyMs}ms)`;
+    return undefined;
+  }
+
+  private getCircuit(exchange: ExchangeName): Circuit {
+    let circuit = this.circuits.get(exchange);
+    if (!circuit) {
+      circuit = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        openedAt: 0,
+        samples: [],
+      };
+      this.circuits.set(exchange, circuit);
+    }
+    return circuit;
+  }
+
+  private pruneSamples(circuit: Circuit, now: number): void {
+    const since = now - this.config.statsWindowMs;
+    while (circuit.samples.length && circuit.samples[0].at < since) {
+      circuit.samples.shift();
+    }
+  }
+}
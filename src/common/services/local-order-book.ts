@@ -0,0 +1,210 @@
+import { OrderBook, OrderBookDiff, OrderSide } from '../types/exchange.types';
+
+type Level = [number, string]; // [price, quantity]
+
+export type DiffResult = 'applied' | 'buffered' | 'stale' | 'gap';
+
+export interface FillEstimate {
+  averagePrice: number;
+  worstPrice: number;
+  filledQuantity: number;
+}
+
+// Diffs kept while waiting for a snapshot (Binance pushes ~10/s per symbol)
+const MAX_BUFFERED_DIFFS = 1000;
+
+/**
+ * In-memory order book kept in sync from a snapshot plus sequenced diffs.
+ *
+ * Levels are stored best-first (bids descending, asks ascending) so reads are O(depth).
+ * Until a snapshot arrives, diffs are buffered and replayed on top of it; a diff that does not
+ * chain onto the previous update marks the book as out of sync ('gap') and clears it.
+ */
+export class LocalOrderBook {
+  private bids: Level[] = [];
+  private asks: Level[] = [];
+  private buffer: OrderBookDiff[] = [];
+  private synced = false;
+  // After a REST snapshot the first diff may overlap it instead of chaining exactly
+  private bridging = false;
+  lastUpdateId = 0;
+  timestamp = 0;
+
+  constructor(readonly symbol: string) {}
+
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  /**
+   * Seed the book from a REST snapshot and replay buffered diffs.
+   * Returns false if the buffered diffs do not connect to the snapshot.
+   */
+  applySnapshot(snapshot: OrderBook & { lastUpdateId: number }): boolean {
+    this.reset(snapshot.bids, snapshot.asks, snapshot.lastUpdateId, snapshot.timestamp);
+    this.bridging = true;
+
+    const buffered = this.buffer;
+    this.buffer = [];
+
+    for (const diff of buffered) {
+      if (this.applyDiff(diff) === 'gap') return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Apply a stream update (snapshots replace the book)
+   */
+  applyDiff(diff: OrderBookDiff): DiffResult {
+    if (diff.snapshot) {
+      this.reset(diff.bids, diff.asks, diff.lastUpdateId, diff.timestamp);
+      this.buffer = [];
+      return 'applied';
+    }
+
+    if (!this.synced) {
+      this.buffer.push(diff);
+      if (this.buffer.length > MAX_BUFFERED_DIFFS) this.buffer.shift();
+      return 'buffered';
+    }
+
+    if (diff.lastUpdateId <= this.lastUpdateId) return 'stale';
+
+    const previous = diff.prevUpdateId ?? diff.firstUpdateId - 1;
+    const connected = this.bridging
+      ? previous <= this.lastUpdateId
+      : previous === this.lastUpdateId;
+
+    if (!connected) {
+      this.invalidate();
+      return 'gap';
+    }
+
+    this.bridging = false;
+    for (const [price, quantity] of diff.bids) this.updateLevel(this.bids, price, quantity, true);
+    for (const [price, quantity] of diff.asks) this.updateLevel(this.asks, price, quantity, false);
+    this.lastUpdateId = diff.lastUpdateId;
+    this.timestamp = diff.timestamp;
+
+    return 'applied';
+  }
+
+  /**
+   * Drop the book contents until the next snapshot
+   */
+  invalidate(): void {
+    this.synced = false;
+    this.bridging = false;
+    this.bids = [];
+    this.asks = [];
+    this.buffer = [];
+  }
+
+  toOrderBook(depth?: number): OrderBook {
+    const toLevels = (levels: Level[]): [string, string][] =>
+      levels.slice(0, depth).map(([price, quantity]) => [price.toString(), quantity]);
+
+    return {
+      symbol: this.symbol,
+      bids: toLevels(this.bids),
+      asks: toLevels(this.asks),
+      timestamp: this.timestamp,
+      lastUpdateId: this.lastUpdateId,
+    };
+  }
+
+  getBestBid(): number | undefined {
+    return this.bids[0]?.[0];
+  }
+
+  getBestAsk(): number | undefined {
+    return this.asks[0]?.[0];
+  }
+
+  getMidPrice(): number | undefined {
+    const bid = this.getBestBid();
+    const ask = this.getBestAsk();
+    if (bid === undefined || ask === undefined) return bid ?? ask;
+    return (bid + ask) / 2;
+  }
+
+  /**
+   * Walk the opposite side of the book to estimate a taker fill
+   */
+  estimateFill(side: OrderSide, quantity: number): FillEstimate {
+    const levels = side === OrderSide.BUY ? this.asks : this.bids;
+    let remaining = quantity;
+    let notional = 0;
+    let worstPrice = 0;
+
+    for (const [price, size] of levels) {
+      if (remaining <= 0) break;
+
+      const take = Math.min(remaining, parseFloat(size));
+      notional += take * price;
+      remaining -= take;
+      worstPrice = price;
+    }
+
+    const filledQuantity = quantity - remaining;
+
+    return {
+      averagePrice: filledQuantity > 0 ? notional / filledQuantity : 0,
+      worstPrice,
+      filledQuantity,
+    };
+  }
+
+  private reset(
+    bids: Array<[string, string] | any>,
+    asks: Array<[string, string] | any>,
+    lastUpdateId: number,
+    timestamp: number,
+  ): void {
+    this.bids = bids.map(toLevel).filter(isActive);
+    this.asks = asks.map(toLevel).filter(isActive);
+    this.bids.sort((a, b) => b[0] - a[0]);
+    this.asks.sort((a, b) => a[0] - b[0]);
+    this.lastUpdateId = lastUpdateId;
+    this.timestamp = timestamp;
+    this.synced = true;
+    this.bridging = false;
+  }
+
+  /**
+   * Insert, replace or remove (quantity 0) a price level, keeping the side sorted
+   */
+  private updateLevel(levels: Level[], priceStr: string, quantity: string, descending: boolean) {
+    const price = parseFloat(priceStr);
+    let low = 0;
+    let high = levels.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const before = descending ? levels[mid][0] > price : levels[mid][0] < price;
+      if (before) low = mid + 1;
+      else high = mid;
+    }
+
+    const exists = low < levels.length && levels[low][0] === price;
+    const remove = parseFloat(quantity) === 0;
+
+    if (exists && remove) levels.splice(low, 1);
+    else if (exists) levels[low][1] = quantity;
+    else if (!remove) levels.splice(low, 0, [price, quantity]);
+  }
+}
+
+/**
+ * REST snapshots come as [price, qty] tuples, { price, quantity } or Hyperliquid { px, sz }
+ */
+function toLevel(level: any): Level {
+  if (Array.isArray(level)) return [parseFloat(level[0]), level[1].toString()];
+  return [parseFloat(level.price ?? level.px), (level.quantity ?? level.sz).toString()];
+}
+
+function isActive(level: Level): boolean {
+  return parseFloat(level[1]) > 0;
+}
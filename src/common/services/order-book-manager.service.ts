@@ -0,0 +1,318 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { Subscription } from 'rxjs';
+import { ExchangeServiceFactory } from '../factory/exchange.factory';
+import {
+  IMarketStreamService,
+  MarketStreamEvent,
+  MarketStreamTopic,
+} from '../interfaces/market-stream.interface';
+import { getTopicKey } from '../websocket/base-market-stream.service';
+import {
+  ApiResponse,
+  ExchangeName,
+  OrderBook,
+  OrderBookDiff,
+  OrderSide,
+} from '../types/exchange.types';
+import { FillEstimate, LocalOrderBook } from './local-order-book';
+
+const SNAPSHOT_LIMIT = 500;
+const SNAPSHOT_RETRY_MS = 1000;
+const SYNC_TIMEOUT_MS = 3000;
+// Books nobody has read for this long are dropped and their depth stream released
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface TrackedBook {
+  exchange: ExchangeName;
+  topic: MarketStreamTopic;
+  stream: IMarketStreamService;
+  book: LocalOrderBook;
+  aliases: Set<string>;
+  lastAccess: number;
+  snapshotPending: boolean;
+  retryTimeout?: NodeJS.Timeout;
+  waiters: Array<() => void>;
+}
+
+/**
+ * Local order books maintained from REST snapshots plus depth-diff streams.
+ *
+ * Books are tracked on first use and kept in sync until idle. Exchanges whose depth stream
+ * starts with a snapshot (OKX, Hyperliquid) never need the REST snapshot; the others
+ * (Binance, Aster, Orderly) buffer diffs until the snapshot arrives. Sequence gaps trigger
+ * a resubscribe and a fresh snapshot.
+ */
+@Injectable()
+export class OrderBookManager implements OnModuleDestroy {
+  private readonly logger = new Logger(OrderBookManager.name);
+  private readonly books = new Map<string, TrackedBook>();
+  private readonly aliases = new Map<string, TrackedBook>();
+  private readonly exchangeSubscriptions = new Map<ExchangeName, Subscription>();
+
+  constructor(private readonly exchangeFactory: ExchangeServiceFactory) {}
+
+  /**
+   * Get the local order book, waiting briefly for the initial sync.
+   * Falls back to a REST request if the book cannot be synced in time
+   * (or the exchange has no market streams).
+   */
+  async getOrderBook(
+    exchange: ExchangeName,
+    symbol: string,
+    depth: number = 20,
+  ): Promise<ApiResponse<OrderBook>> {
+    try {
+      if (!this.exchangeFactory.hasCapability(exchange, 'perpetual', 'websocket')) {
+        const marketService = await this.exchangeFactory.getMarketService(exchange, 'perpetual');
+        return marketService.getOrderBook(symbol, depth);
+      }
+
+      const tracked = await this.track(exchange, symbol);
+
+      if (tracked.book.isSynced() || (await this.waitForSync(tracked, SYNC_TIMEOUT_MS))) {
+        return {
+          success: true,
+          data: tracked.book.toOrderBook(depth),
+          timestamp: Date.now(),
+          exchange,
+          tradingType: 'perpetual',
+        };
+      }
+
+      this.logger.warn(`Order book ${exchange}:${tracked.topic.symbol} not synced, using REST`);
+      const marketService = await this.exchangeFactory.getMarketService(exchange, 'perpetual');
+      return marketService.getOrderBook(symbol, depth);
+    } catch (error: any) {
+      this.logger.error('Error getting order book:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get order book',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Synced local book, or undefined while it is (still) syncing.
+   * Starts tracking the symbol in the background on first call.
+   */
+  getBook(exchange: ExchangeName, symbol: string): LocalOrderBook | undefined {
+    if (!this.exchangeFactory.hasCapability(exchange, 'perpetual', 'websocket')) return undefined;
+
+    const tracked = this.aliases.get(`${exchange}:${symbol}`);
+
+    if (!tracked) {
+      this.track(exchange, symbol).catch(error =>
+        this.logger.error(`Error tracking order book ${exchange}:${symbol}:`, error.message),
+      );
+      return undefined;
+    }
+
+    tracked.lastAccess = Date.now();
+    return tracked.book.isSynced() ? tracked.book : undefined;
+  }
+
+  /**
+   * Mid price from the local book (undefined until synced)
+   */
+  getMidPrice(exchange: ExchangeName, symbol: string): number | undefined {
+    return this.getBook(exchange, symbol)?.getMidPrice();
+  }
+
+  /**
+   * Estimate a taker fill against the local book (undefined until synced)
+   */
+  estimateFill(
+    exchange: ExchangeName,
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+  ): FillEstimate | undefined {
+    return this.getBook(exchange, symbol)?.estimateFill(side, quantity);
+  }
+
+  /**
+   * Symbols with a tracked book and their sync state
+   */
+  getTrackedBooks(): Array<{ exchange: ExchangeName; symbol: string; synced: boolean }> {
+    return Array.from(this.books.values(), tracked => ({
+      exchange: tracked.exchange,
+      symbol: tracked.topic.symbol,
+      synced: tracked.book.isSynced(),
+    }));
+  }
+
+  @Interval(60000)
+  evictIdleBooks(): void {
+    const cutoff = Date.now() - IDLE_TIMEOUT_MS;
+
+    for (const [key, tracked] of this.books) {
+      if (tracked.lastAccess >= cutoff) continue;
+
+      this.logger.log(`Releasing idle order book ${key}`);
+      this.untrack(key, tracked);
+    }
+  }
+
+  onModuleDestroy(): void {
+    this.books.forEach((tracked, key) => this.untrack(key, tracked));
+    this.exchangeSubscriptions.forEach(subscription => subscription.unsubscribe());
+    this.exchangeSubscriptions.clear();
+  }
+
+  /**
+   * Start (or refresh) tracking a symbol
+   */
+  private async track(exchange: ExchangeName, symbol: string): Promise<TrackedBook> {
+    const alias = `${exchange}:${symbol}`;
+    const existing = this.aliases.get(alias);
+    if (existing) {
+      existing.lastAccess = Date.now();
+      return existing;
+    }
+
+    const stream = await this.exchangeFactory.getMarketStreamService(exchange, 'perpetual');
+    const topic = stream.resolveTopic({ channel: 'depth', symbol });
+    const key = `${exchange}:${getTopicKey(topic)}`;
+
+    let tracked = this.books.get(key);
+    if (!tracked) {
+      tracked = {
+        exchange,
+        topic,
+        stream,
+        book: new LocalOrderBook(topic.symbol),
+        aliases: new Set(),
+        lastAccess: Date.now(),
+        snapshotPending: false,
+        waiters: [],
+      };
+      this.books.set(key, tracked);
+
+      this.forwardEvents(exchange, stream);
+      stream.subscribe(topic);
+      void this.loadSnapshot(tracked);
+    }
+
+    tracked.aliases.add(alias);
+    this.aliases.set(alias, tracked);
+    tracked.lastAccess = Date.now();
+    return tracked;
+  }
+
+  private untrack(key: string, tracked: TrackedBook): void {
+    clearTimeout(tracked.retryTimeout);
+    tracked.stream.unsubscribe(tracked.topic);
+    tracked.aliases.forEach(alias => this.aliases.delete(alias));
+    this.books.delete(key);
+  }
+
+  private forwardEvents(exchange: ExchangeName, stream: IMarketStreamService): void {
+    if (this.exchangeSubscriptions.has(exchange)) return;
+
+    this.exchangeSubscriptions.set(
+      exchange,
+      stream.getEvents().subscribe(event => {
+        if (event.channel === 'depth') {
+          this.handleDiff(event as MarketStreamEvent<OrderBookDiff>);
+        }
+      }),
+    );
+  }
+
+  private handleDiff(event: MarketStreamEvent<OrderBookDiff>): void {
+    const key = `${event.exchange}:${getTopicKey(event)}`;
+    const tracked = this.books.get(key);
+    if (!tracked) return;
+
+    const result = tracked.book.applyDiff(event.data);
+
+    if (result === 'applied') {
+      this.notifySynced(tracked);
+    } else if (result === 'gap') {
+      this.logger.warn(`Sequence gap on ${key} (update ${event.data.lastUpdateId}), resyncing`);
+      this.resync(tracked);
+    }
+  }
+
+  /**
+   * Resubscribe (streams that start with a snapshot send a fresh one) and reload the snapshot
+   */
+  private resync(tracked: TrackedBook): void {
+    tracked.stream.unsubscribe(tracked.topic);
+    tracked.stream.subscribe(tracked.topic);
+    void this.loadSnapshot(tracked);
+  }
+
+  private async loadSnapshot(tracked: TrackedBook): Promise<void> {
+    if (tracked.snapshotPending) return;
+    tracked.snapshotPending = true;
+
+    try {
+      const marketService = await this.exchangeFactory.getMarketService(
+        tracked.exchange,
+        'perpetual',
+      );
+      const response = await marketService.getOrderBook(tracked.topic.symbol, SNAPSHOT_LIMIT);
+
+      if (tracked.book.isSynced() || !this.books.has(this.getKey(tracked))) return;
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch order book snapshot');
+      }
+
+      // Without a sequence the snapshot cannot be aligned; wait for the stream snapshot
+      const lastUpdateId = response.data.lastUpdateId;
+      if (lastUpdateId === undefined) return;
+
+      if (tracked.book.applySnapshot({ ...response.data, lastUpdateId })) {
+        this.notifySynced(tracked);
+      } else {
+        throw new Error(`buffered updates do not connect to snapshot ${lastUpdateId}`);
+      }
+    } catch (error: any) {
+      this.logger.warn(`Order book snapshot for ${this.getKey(tracked)} failed: ${error.message}`);
+      this.scheduleSnapshotRetry(tracked);
+    } finally {
+      tracked.snapshotPending = false;
+    }
+  }
+
+  private scheduleSnapshotRetry(tracked: TrackedBook): void {
+    clearTimeout(tracked.retryTimeout);
+    tracked.retryTimeout = setTimeout(() => {
+      if (!tracked.book.isSynced() && this.books.has(this.getKey(tracked))) {
+        void this.loadSnapshot(tracked);
+      }
+    }, SNAPSHOT_RETRY_MS);
+  }
+
+  private waitForSync(tracked: TrackedBook, timeoutMs: number): Promise<boolean> {
+    return new Promise(resolve => {
+      const timeout = setTimeout(() => {
+        tracked.waiters = tracked.waiters.filter(waiter => waiter !== onSynced);
+        resolve(false);
+      }, timeoutMs);
+
+      const onSynced = () => {
+        clearTimeout(timeout);
+        resolve(true);
+      };
+
+      tracked.waiters.push(onSynced);
+    });
+  }
+
+  private notifySynced(tracked: TrackedBook): void {
+    if (tracked.waiters.length === 0) return;
+
+    const waiters = tracked.waiters;
+    tracked.waiters = [];
+    waiters.forEach(waiter => waiter());
+  }
+
+  private getKey(tracked: TrackedBook): string {
+    return `${tracked.exchange}:${getTopicKey(tracked.topic)}`;
+  }
+}
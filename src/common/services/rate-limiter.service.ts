@@ -0,0 +1,254 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { RateLimitConfig } from '../../config/rate-limit.config';
+import { EXCHANGE_RATE_LIMITS } from '../rate-limit/exchange-rate-limits';
+import {
+  RateLimitBudget,
+  RateLimitRule,
+  RateLimitStatus,
+  RateLimitedRequest,
+} from '../rate-limit/rate-limit.types';
+import { UsageWindow } from '../rate-limit/usage-window';
+import { ExchangeName } from '../types/exchange.types';
+
+/**
+ * Raised instead of sending a request that would exceed an exchange limit
+ */
+export class RateLimitExceededError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number,
+  ) {
+    super(message);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+interface ExchangeUsage {
+  rules: RateLimitRule[];
+  backoffMs: number;
+  windows: Map<string, { rule: RateLimitRule; endpoint?: string; window: UsageWindow }>;
+  blockedUntil: number;
+}
+
+/**
+ * Keeps each exchange's REST traffic within its request-weight and order-count limits.
+ *
+ * API services attach their HTTP clients; every request is weighed against the exchange's
+ * rules (see EXCHANGE_RATE_LIMITS) before it is sent and either waits for the budget to free
+ * up (queue mode, bounded by maxWaitMs) or fails with RateLimitExceededError. Usage headers
+ * such as X-MBX-USED-WEIGHT-1M correct the local count, and a 429/418 pauses the exchange
+ * for its Retry-After period.
+ */
+@Injectable()
+export class RateLimiterService {
+  private readonly logger = new Logger(RateLimiterService.name);
+  private readonly config: RateLimitConfig;
+  private readonly usage = new Map<ExchangeName, ExchangeUsage>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.get<RateLimitConfig>('rateLimit')!;
+  }
+
+  /**
+   * Rate limit the requests of an exchange HTTP client. Attach after the client's own
+   * interceptors so requests wait before they are signed.
+   */
+  attach(exchange: ExchangeName, client: AxiosInstance): void {
+    if (!this.config.enabled || !EXCHANGE_RATE_LIMITS[exchange]) return;
+
+    client.interceptors.request.use(async config => {
+      await this.acquire(exchange, this.describeRequest(config));
+      return config;
+    });
+    client.interceptors.response.use(
+      response => {
+        this.recordResponse(exchange, response);
+        return response;
+      },
+      error => {
+        if (error.response) this.recordResponse(exchange, error.response);
+        return Promise.reject(error);
+      },
+    );
+  }
+
+  /**
+   * Reserve the budget for a request, waiting for it in queue mode
+   */
+  async acquire(exchange: ExchangeName, request: RateLimitedRequest): Promise<void> {
+    const usage = this.getUsage(exchange);
+    if (!usage) return;
+
+    const deadline = Date.now() + (this.config.mode === 'queue' ? this.config.maxWaitMs : 0);
+
+    for (;;) {
+      const now = Date.now();
+      const { wait, reason } = this.getWait(usage, request, now);
+
+      if (wait <= 0) {
+        this.reserve(usage, request, now);
+        return;
+      }
+      if (now + wait > deadline) {
+        throw new RateLimitExceededError(
+          `Rate limit: ${exchange} ${reason}, retry in ${Math.ceil(wait / 1000)}s`,
+          wait,
+        );
+      }
+
+      this.logger.debug(`Delaying ${exchange} ${request.method} ${request.path} by ${wait}ms`);
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  /**
+   * Current budget of every rate limited exchange
+   */
+  getStatus(): RateLimitStatus[] {
+    const now = Date.now();
+
+    return (Object.keys(EXCHANGE_RATE_LIMITS) as ExchangeName[]).map(exchange => {
+      const usage = this.getUsage(exchange)!;
+      const budgets: RateLimitBudget[] = usage.rules
+        .filter(rule => !rule.perEndpoint)
+        .map(rule => this.describeBudget(rule, this.getWindow(usage, rule).window, now));
+
+      for (const { rule, endpoint, window } of usage.windows.values()) {
+        if (endpoint && window.getUsed(now) > 0) {
+          budgets.push({ ...this.describeBudget(rule, window, now), endpoint });
+        }
+      }
+
+      return {
+        exchange,
+        blockedUntil: usage.blockedUntil > now ? usage.blockedUntil : undefined,
+        budgets,
+      };
+    });
+  }
+
+  private getWait(
+    usage: ExchangeUsage,
+    request: RateLimitedRequest,
+    now: number,
+  ): { wait: number; reason?: string } {
+    if (usage.blockedUntil > now) {
+      return { wait: usage.blockedUntil - now, reason: 'asked to back off (HTTP 429)' };
+    }
+
+    let result: { wait: number; reason?: string } = { wait: 0 };
+    for (const rule of usage.rules) {
+      const cost = rule.cost(request);
+      if (!cost) continue;
+
+      const wait = this.getWindow(usage, rule, request.path).window.getWait(
+        cost,
+        this.capacity(rule),
+        now,
+      );
+      if (wait > result.wait) {
+        result = { wait, reason: `${rule.id} budget exhausted` };
+      }
+    }
+    return result;
+  }
+
+  private reserve(usage: ExchangeUsage, request: RateLimitedRequest, now: number): void {
+    for (const rule of usage.rules) {
+      const cost = rule.cost(request);
+      if (cost) this.getWindow(usage, rule, request.path).window.add(cost, now);
+    }
+  }
+
+  private recordResponse(exchange: ExchangeName, response: AxiosResponse): void {
+    const usage = this.getUsage(exchange);
+    if (!usage) return;
+
+    const now = Date.now();
+    for (const rule of usage.rules) {
+      const reported = rule.usageHeader && Number(response.headers?.[rule.usageHeader]);
+      if (reported) this.getWindow(usage, rule).window.sync(reported, now);
+    }
+
+    // 429: too many requests; 418: IP banned for repeating them
+    if (response.status === 429 || response.status === 418) {
+      const retryAfter = Number(response.headers?.['retry-after']);
+      usage.blockedUntil = now + (retryAfter ? retryAfter * 1000 : usage.backoffMs);
+      this.logger.warn(
+        `${exchange} rate limit hit (HTTP ${response.status}), pausing requests until ` +
+          new Date(usage.blockedUntil).toISOString(),
+      );
+    }
+  }
+
+  private getUsage(exchange: ExchangeName): ExchangeUsage | undefined {
+    const limits = EXCHANGE_RATE_LIMITS[exchange];
+    if (!limits) return undefined;
+
+    let usage = this.usage.get(exchange);
+    if (!usage) {
+      usage = { ...limits, windows: new Map(), blockedUntil: 0 };
+      this.usage.set(exchange, usage);
+    }
+    return usage;
+  }
+
+  private getWindow(usage: ExchangeUsage, rule: RateLimitRule, path?: string) {
+    const endpoint = rule.perEndpoint ? path : undefined;
+    const key = endpoint ? `${rule.id}:${endpoint}` : rule.id;
+
+    let entry = usage.windows.get(key);
+    if (!entry) {
+      entry = { rule, endpoint, window: new UsageWindow(rule) };
+      usage.windows.set(key, entry);
+    }
+    return entry;
+  }
+
+  private describeBudget(rule: RateLimitRule, window: UsageWindow, now: number): RateLimitBudget {
+    const used = window.getUsed(now);
+    return {
+      id: rule.id,
+      limit: this.capacity(rule),
+      intervalMs: rule.intervalMs,
+      used,
+      remaining: Math.max(this.capacity(rule) - used, 0),
+      resetsAt: window.getResetTime(now),
+    };
+  }
+
+  private capacity(rule: RateLimitRule): number {
+    return Math.max(Math.floor(rule.limit * this.config.headroom), 1);
+  }
+
+  /**
+   * Method, path and parameters of an outgoing request (the URL may be absolute and carry
+   * the query string; form bodies are URL-encoded strings)
+   */
+  private describeRequest(config: InternalAxiosRequestConfig): RateLimitedRequest {
+    const url = new URL(config.url || '', config.baseURL || 'http://localhost');
+    const params: Record<string, any> = {
+      ...Object.fromEntries(url.searchParams),
+      ...(config.params || {}),
+    };
+
+    let body = config.data;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        Object.assign(params, Object.fromEntries(new URLSearchParams(body)));
+        body = undefined;
+      }
+    }
+
+    return {
+      method: (config.method || 'get').toUpperCase(),
+      path: url.pathname,
+      params: body && !Array.isArray(body) ? { ...params, ...body } : params,
+      body,
+    };
+  }
+}
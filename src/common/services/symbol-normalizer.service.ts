@@ -37,6 +37,10 @@ export class SymbolNormalizerService {
         // Orderly: PERP_BTC_USDC (similar to Aster)
         return `PERP_${normalized.base}_${normalized.quote}`;
 
+      case 'paper':
+        // Paper: BTCUSDT (converted to the price source's format internally)
+        return `${normalized.base}${normalized.quote}`;
+
       default:
         return symbol;
     }
@@ -79,7 +83,8 @@ export class SymbolNormalizerService {
         break;
       }
 
-      case 'aster': {
+      case 'aster':
+      case 'paper': {
         // BTCUSDT -> BTC/USDT (same format as Binance)
         if (symbol.includes('USDT')) {
           base = symbol.replace('USDT', '');
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject, filter } from 'rxjs';
+import { UserDataEvent, UserDataEventType } from '../interfaces/user-data-stream.interface';
+import { ExchangeName } from '../types/exchange.types';
+
+/**
+ * In-process event bus for private account events (orders, fills, positions).
+ * User data streams publish here; gateways, journals and order managers subscribe.
+ */
+@Injectable()
+export class UserDataEventBus {
+  private readonly subject = new Subject<UserDataEvent>();
+
+  /**
+   * Publish a normalized user data event
+   */
+  publish(event: UserDataEvent): void {
+    this.subject.next(event);
+  }
+
+  /**
+   * Stream of events, optionally filtered by exchange and/or event type
+   */
+  getEvents(options?: {
+    exchange?: ExchangeName;
+    type?: UserDataEventType;
+  }): Observable<UserDataEvent> {
+    return this.subject
+      .asObservable()
+      .pipe(
+        filter(
+          event =>
+            (!options?.exchange || event.exchange === options.exchange) &&
+            (!options?.type || event.type === options.type),
+        ),
+      );
+  }
+}
@@ -0,0 +1 @@
+export * from './json-state-file';
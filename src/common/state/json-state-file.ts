@@ -0,0 +1,79 @@
+import { Logger } from '@nestjs/common';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/**
+ * JSON file holding a service's state across restarts.
+ *
+ * Every write goes to a temporary file that is then renamed over the state file, so a crash
+ * never leaves a truncated state file. Asynchronous writes are chained so an older snapshot
+ * never overwrites a newer one, and none is renamed into place after a synchronous save.
+ */
+export class JsonStateFile<T> {
+  private writing: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  /**
+   * @param file - Path of the state file
+   * @param name - What the file holds, for log messages (e.g. 'ladders')
+   */
+  constructor(
+    readonly file: string,
+    private readonly name: string,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Saved state, or undefined when there is none or it cannot be read
+   */
+  load(): T | undefined {
+    try {
+      if (existsSync(this.file)) {
+        return JSON.parse(readFileSync(this.file, 'utf8'));
+      }
+    } catch (error: any) {
+      this.logger.error(`Error loading ${this.name} from ${this.file}:`, error.message);
+    }
+    return undefined;
+  }
+
+  /**
+   * Save the state as it is now, once the writes queued before it are done
+   */
+  save(state: T): Promise<void> {
+    const data = JSON.stringify(state);
+    this.writing = this.writing.then(() => this.write(data));
+    return this.writing;
+  }
+
+  /**
+   * Save the state before the process exits; later asynchronous saves are ignored
+   */
+  saveSync(state: T): void {
+    this.closed = true;
+    const tmp = `${this.file}.${process.pid}.tmp`;
+
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(tmp, JSON.stringify(state));
+      renameSync(tmp, this.file);
+    } catch (error: any) {
+      this.logger.error(`Error saving ${this.name}:`, error.message);
+    }
+  }
+
+  private async write(data: string): Promise<void> {
+    const tmp = `${this.file}.tmp`;
+    if (this.closed) return;
+
+    try {
+      await mkdir(dirname(this.file), { recursive: true });
+      await writeFile(tmp, data);
+      if (this.closed) return;
+      await rename(tmp, this.file);
+    } catch (error: any) {
+      this.logger.error(`Error saving ${this.name}:`, error.message);
+    }
+  }
+}
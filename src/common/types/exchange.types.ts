@@ -3,7 +3,7 @@
  * Can be used across all exchanges (Aster, Hyperliquid, Binance, etc.)
  */
 
-export type ExchangeName = 'aster' | 'hyperliquid' | 'binance' | 'okx' | 'orderly';
+export type ExchangeName = 'aster' | 'hyperliquid' | 'binance' | 'okx' | 'orderly' | 'paper';
 export type TradingType = 'perpetual';
 
 export enum OrderSide {
@@ -119,6 +119,21 @@ export interface OrderBook {
   bids: [string, string][]; // [price, quantity]
   asks: [string, string][];
   timestamp: number;
+  lastUpdateId?: number; // Snapshot sequence, when the exchange exposes one
+}
+
+/**
+ * Incremental order book update from a depth stream (quantity "0" removes a level)
+ */
+export interface OrderBookDiff {
+  symbol: string;
+  bids: [string, string][];
+  asks: [string, string][];
+  snapshot: boolean; // Replaces the whole book instead of patching it
+  firstUpdateId: number;
+  lastUpdateId: number;
+  prevUpdateId?: number; // lastUpdateId of the preceding update, when the exchange provides it
+  timestamp: number;
 }
 
 export interface Candle {
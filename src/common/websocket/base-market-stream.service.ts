@@ -0,0 +1,123 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import {
+  IMarketStreamService,
+  MarketStreamChannel,
+  MarketStreamEvent,
+  MarketStreamTopic,
+} from '../interfaces/market-stream.interface';
+import { ExchangeName } from '../types/exchange.types';
+
+/**
+ * Build a unique key for a stream topic
+ */
+export function getTopicKey(topic: MarketStreamTopic): string {
+  return topic.interval
+    ? `${topic.channel}:${topic.symbol}:${topic.interval}`
+    : `${topic.channel}:${topic.symbol}`;
+}
+
+/**
+ * Base class for exchange market stream adapters.
+ * Tracks active topics (reference counted, so the gateway and internal consumers can share a
+ * stream) and the normalized event stream; subclasses own the upstream socket.
+ */
+export abstract class BaseMarketStreamService implements IMarketStreamService, OnModuleDestroy {
+  protected abstract readonly exchange: ExchangeName;
+  private readonly topics = new Map<string, { topic: MarketStreamTopic; refs: number }>();
+  private readonly eventSubject = new Subject<MarketStreamEvent>();
+
+  /**
+   * Convert a topic symbol to the adapter's native format
+   */
+  protected abstract normalizeSymbol(symbol: string): string;
+
+  /**
+   * Start the upstream stream for a newly added topic
+   */
+  protected abstract addTopic(topic: MarketStreamTopic): void;
+
+  /**
+   * Stop the upstream stream for a removed topic
+   */
+  protected abstract removeTopic(topic: MarketStreamTopic): void;
+
+  /**
+   * Close upstream connections
+   */
+  protected abstract disconnect(): void;
+
+  abstract isConnected(): boolean;
+
+  subscribe(topic: MarketStreamTopic): MarketStreamTopic {
+    const normalized = this.resolveTopic(topic);
+    const key = getTopicKey(normalized);
+
+    const entry = this.topics.get(key);
+    if (entry) {
+      entry.refs++;
+    } else {
+      this.topics.set(key, { topic: normalized, refs: 1 });
+      this.addTopic(normalized);
+    }
+
+    return normalized;
+  }
+
+  unsubscribe(topic: MarketStreamTopic): void {
+    const normalized = this.resolveTopic(topic);
+    const key = getTopicKey(normalized);
+
+    const entry = this.topics.get(key);
+    if (!entry || --entry.refs > 0) return;
+
+    this.topics.delete(key);
+    this.removeTopic(normalized);
+  }
+
+  resolveTopic(topic: MarketStreamTopic): MarketStreamTopic {
+    const normalized: MarketStreamTopic = {
+      channel: topic.channel,
+      symbol: this.normalizeSymbol(topic.symbol),
+    };
+
+    if (topic.channel === 'candles') {
+      normalized.interval = topic.interval || '1m';
+    }
+
+    return normalized;
+  }
+
+  getEvents(): Observable<MarketStreamEvent> {
+    return this.eventSubject.asObservable();
+  }
+
+  onModuleDestroy(): void {
+    this.topics.clear();
+    this.disconnect();
+  }
+
+  /**
+   * Currently subscribed topics, optionally filtered by channel
+   */
+  protected getTopics(channel?: MarketStreamChannel): MarketStreamTopic[] {
+    const topics = Array.from(this.topics.values(), entry => entry.topic);
+    return channel ? topics.filter(t => t.channel === channel) : topics;
+  }
+
+  /**
+   * Check if a topic is subscribed (upstream messages for other topics are dropped)
+   */
+  protected hasTopic(topic: MarketStreamTopic): boolean {
+    return this.topics.has(getTopicKey(topic));
+  }
+
+  /**
+   * Push a normalized event for a subscribed topic
+   */
+  protected emit<T extends MarketStreamEvent['data']>(topic: MarketStreamTopic, data: T): void {
+    if (!this.hasTopic(topic)) return;
+
+    this.eventSubject.next({ exchange: this.exchange, ...topic, data });
+  }
+}
@@ -0,0 +1,67 @@
+import { OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IUserDataStreamService } from '../interfaces/user-data-stream.interface';
+import { UserDataEventBus } from '../services/user-data-event-bus.service';
+import { ExchangeName, Order, Position, Trade } from '../types/exchange.types';
+import { AppConfig } from '../../config/app.config';
+
+/**
+ * Base class for private user data streams.
+ * Starts automatically on bootstrap (unless USER_DATA_STREAMS_ENABLED=false) and publishes
+ * normalized events on the UserDataEventBus.
+ */
+export abstract class BaseUserDataStreamService
+  implements IUserDataStreamService, OnApplicationBootstrap, OnModuleDestroy
+{
+  protected abstract readonly exchange: ExchangeName;
+
+  constructor(
+    protected readonly configService: ConfigService,
+    protected readonly eventBus: UserDataEventBus,
+  ) {}
+
+  abstract start(): Promise<boolean>;
+
+  abstract stop(): void;
+
+  abstract isConnected(): boolean;
+
+  onApplicationBootstrap(): void {
+    const appConfig = this.configService.get<AppConfig>('app');
+    if (appConfig && !appConfig.userDataStreams) return;
+
+    // Do not block application startup on exchange round-trips
+    void this.start();
+  }
+
+  onModuleDestroy(): void {
+    this.stop();
+  }
+
+  protected publishOrder(order: Order): void {
+    this.eventBus.publish({
+      exchange: this.exchange,
+      type: 'order',
+      data: order,
+      timestamp: Date.now(),
+    });
+  }
+
+  protected publishTrade(trade: Trade): void {
+    this.eventBus.publish({
+      exchange: this.exchange,
+      type: 'trade',
+      data: trade,
+      timestamp: Date.now(),
+    });
+  }
+
+  protected publishPosition(position: Position): void {
+    this.eventBus.publish({
+      exchange: this.exchange,
+      type: 'position',
+      data: position,
+      timestamp: Date.now(),
+    });
+  }
+}
@@ -0,0 +1,3 @@
+export * from './websocket-connection';
+export * from './base-market-stream.service';
+export * from './base-user-data-stream.service';
@@ -0,0 +1,160 @@
+import { Logger } from '@nestjs/common';
+import WebSocket from 'ws';
+
+export interface WebSocketConnectionOptions {
+  url: string;
+  /**
+   * Called on every (re)connect, used to replay subscriptions
+   */
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  /**
+   * Keep-alive interval (default: 30 seconds)
+   */
+  pingIntervalMs?: number;
+  /**
+   * Application-level ping payload. Protocol-level ping frames are sent when omitted.
+   */
+  pingMessage?: string | object;
+  /**
+   * Delay before reconnecting after the socket closes (default: 5 seconds)
+   */
+  reconnectDelayMs?: number;
+}
+
+/**
+ * Upstream exchange WebSocket with keep-alive and automatic reconnect
+ */
+export class WebSocketConnection {
+  private readonly logger: Logger;
+  private ws: WebSocket | null = null;
+  private pingInterval: NodeJS.Timeout | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private shouldReconnect = false;
+
+  constructor(
+    name: string,
+    private readonly options: WebSocketConnectionOptions,
+  ) {
+    this.logger = new Logger(name);
+  }
+
+  /**
+   * Open the connection (no-op if already open or connecting)
+   */
+  connect(): void {
+    if (this.ws && this.ws.readyState !== WebSocket.CLOSED) {
+      return;
+    }
+
+    this.shouldReconnect = true;
+    this.logger.log(`Connecting to WebSocket: ${this.options.url}`);
+
+    try {
+      this.ws = new WebSocket(this.options.url);
+    } catch (error: any) {
+      this.logger.error('Failed to connect to WebSocket:', error.message);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.ws.on('open', () => {
+      this.logger.log('WebSocket connected successfully');
+      this.startPingInterval();
+      this.options.onOpen();
+    });
+
+    this.ws.on('message', (data: WebSocket.Data) => {
+      this.options.onMessage(data.toString());
+    });
+
+    this.ws.on('close', (code: number, reason: Buffer) => {
+      this.logger.warn(`WebSocket closed: ${code} - ${reason.toString()}`);
+      this.stopPingInterval();
+      this.ws = null;
+      this.scheduleReconnect();
+    });
+
+    this.ws.on('error', (error: Error) => {
+      this.logger.error('WebSocket error:', error.message);
+    });
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  disconnect(): void {
+    this.shouldReconnect = false;
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    this.stopPingInterval();
+
+    if (this.ws) {
+      this.ws.removeAllListeners();
+      this.ws.on('error', () => undefined);
+      this.ws.terminate();
+      this.ws = null;
+    }
+  }
+
+  /**
+   * Send a message; dropped when not connected (subscriptions are replayed on open)
+   */
+  send(message: string | object): boolean {
+    if (!this.isConnected()) {
+      return false;
+    }
+
+    try {
+      this.ws!.send(typeof message === 'string' ? message : JSON.stringify(message));
+      return true;
+    } catch (error: any) {
+      this.logger.error('Error sending WebSocket message:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Check if the connection is open
+   */
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  private startPingInterval(): void {
+    this.stopPingInterval();
+
+    this.pingInterval = setInterval(() => {
+      if (!this.isConnected()) return;
+
+      if (this.options.pingMessage !== undefined) {
+        this.send(this.options.pingMessage);
+      } else {
+        this.ws!.ping();
+      }
+    }, this.options.pingIntervalMs ?? 30000);
+  }
+
+  private stopPingInterval(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.shouldReconnect || this.reconnectTimeout) {
+      return;
+    }
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.logger.log('Attempting to reconnect WebSocket...');
+      this.connect();
+    }, this.options.reconnectDelayMs ?? 5000);
+  }
+}
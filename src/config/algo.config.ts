@@ -0,0 +1,25 @@
+import { registerAs } from '@nestjs/config';
+
+export interface AlgoConfig {
+  stateFile: string;
+  tickIntervalMs: number;
+  defaultSliceIntervalMs: number;
+  vwapLookbackDays: number;
+  maxSliceFailures: number;
+}
+
+export default registerAs(
+  'algo',
+  (): AlgoConfig => ({
+    // Running and recent algos, reloaded on startup
+    stateFile: process.env.ALGO_STATE_FILE || 'data/algos.json',
+    // How often due slices are checked
+    tickIntervalMs: parseInt(process.env.ALGO_TICK_INTERVAL_MS || '1000', 10),
+    // Slice spacing when a request gives no slice size
+    defaultSliceIntervalMs: parseInt(process.env.ALGO_SLICE_INTERVAL_MS || '60000', 10),
+    // Days of candles averaged into the VWAP volume profile
+    vwapLookbackDays: parseInt(process.env.ALGO_VWAP_LOOKBACK_DAYS || '7', 10),
+    // Consecutive failed slices that stop an algo
+    maxSliceFailures: parseInt(process.env.ALGO_MAX_SLICE_FAILURES || '3', 10),
+  }),
+);
@@ -5,6 +5,7 @@ export interface AppConfig {
   port: number;
   logLevel: string;
   jwtSecret: string;
+  userDataStreams: boolean;
 }
 
 export default registerAs(
@@ -14,5 +15,7 @@ export default registerAs(
     port: parseInt(process.env.PORT || '3000', 10),
     logLevel: process.env.LOG_LEVEL || 'info',
     jwtSecret: process.env.JWT_SECRET || 'default-secret-change-in-production',
+    // Private order/position streams start automatically for exchanges with credentials
+    userDataStreams: process.env.USER_DATA_STREAMS_ENABLED !== 'false',
   }),
 );
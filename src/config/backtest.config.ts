@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+
+export interface BacktestConfig {
+  cacheDir: string;
+  maxCandles: number;
+}
+
+export default registerAs(
+  'backtest',
+  (): BacktestConfig => ({
+    // Downloaded candles and funding rates, reused by later runs
+    cacheDir: process.env.BACKTEST_CACHE_DIR || 'data/backtest',
+    // Upper bound on candles per run (keeps memory and download time in check)
+    maxCandles: parseInt(process.env.BACKTEST_MAX_CANDLES || '100000', 10),
+  }),
+);
@@ -0,0 +1,24 @@
+import { registerAs } from '@nestjs/config';
+
+export interface CircuitBreakerConfig {
+  enabled: boolean;
+  failureThreshold: number;
+  slowCallMs: number;
+  openMs: number;
+  statsWindowMs: number;
+}
+
+export default registerAs(
+  'circuitBreaker',
+  (): CircuitBreakerConfig => ({
+    enabled: process.env.CIRCUIT_BREAKER_ENABLED !== 'false',
+    // Consecutive failed or slow requests that open the circuit
+    failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10),
+    // Requests slower than this count as failures
+    slowCallMs: parseInt(process.env.CIRCUIT_BREAKER_SLOW_CALL_MS || '10000', 10),
+    // How long an open circuit fails fast before letting a probe request through
+    openMs: parseInt(process.env.CIRCUIT_BREAKER_OPEN_MS || '30000', 10),
+    // Period the reported latency and error rates cover
+    statsWindowMs: parseInt(process.env.CIRCUIT_BREAKER_STATS_WINDOW_MS || '60000', 10),
+  }),
+);
@@ -0,0 +1,17 @@
+import { registerAs } from '@nestjs/config';
+
+export interface HeartbeatConfig {
+  // Timeout of a heartbeat that does not set one
+  timeoutMs: number;
+  // How often armed dead man's switches are re-sent to the exchanges
+  refreshIntervalMs: number;
+}
+
+export default registerAs(
+  'heartbeat',
+  (): HeartbeatConfig => ({
+    timeoutMs: parseInt(process.env.HEARTBEAT_TIMEOUT_MS || '60000', 10),
+    // Keep well under the timeout and OKX's 120 second maximum
+    refreshIntervalMs: parseInt(process.env.HEARTBEAT_REFRESH_INTERVAL_MS || '10000', 10),
+  }),
+);
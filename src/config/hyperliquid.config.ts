@@ -7,6 +7,8 @@ export interface HyperliquidConfig {
   apiWallet: string;
   apiPrivateKey: string;
   isTestnet: boolean;
+  // How often server-side trailing stops re-price their trigger order
+  trailingStopIntervalMs: number;
 }
 
 export default registerAs('hyperliquid', (): HyperliquidConfig => {
@@ -25,6 +27,10 @@ export default registerAs('hyperliquid', (): HyperliquidConfig => {
     apiWallet: process.env.HYPERLIQUID_API_WALLET || '',
     apiPrivateKey: process.env.HYPERLIQUID_API_PRIVATE_KEY || '',
     isTestnet,
+    trailingStopIntervalMs: parseInt(
+      process.env.HYPERLIQUID_TRAILING_STOP_INTERVAL_MS || '2000',
+      10,
+    ),
   };
 
   // Validate required fields for trading (API wallet setup)
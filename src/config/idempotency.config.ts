@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+
+export interface IdempotencyConfig {
+  keyTtlMs: number;
+  maxRetries: number;
+  recheckDelayMs: number;
+}
+
+export default registerAs(
+  'idempotency',
+  (): IdempotencyConfig => ({
+    // How long an Idempotency-Key replays its original response
+    keyTtlMs: parseInt(process.env.IDEMPOTENCY_KEY_TTL_MS || '86400000', 10),
+    // Retries after a failure that may or may not have placed the order
+    maxRetries: parseInt(process.env.ORDER_RETRY_ATTEMPTS || '1', 10),
+    // Wait before checking the exchange for the order after such a failure
+    recheckDelayMs: parseInt(process.env.ORDER_RECHECK_DELAY_MS || '1000', 10),
+  }),
+);
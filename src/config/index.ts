@@ -3,6 +3,20 @@ export { default as asterConfig } from './aster.config';
 export { default as hyperliquidConfig } from './hyperliquid.config';
 export { default as binanceConfig } from './binance.config';
 export { default as okxConfig } from './okx.config';
+export { default as orderlyConfig } from './orderly.config';
+export { default as paperConfig } from './paper.config';
+export { default as backtestConfig } from './backtest.config';
+export { default as journalConfig } from './journal.config';
+export { default as idempotencyConfig } from './idempotency.config';
+export { default as rateLimitConfig } from './rate-limit.config';
+export { default as circuitBreakerConfig } from './circuit-breaker.config';
+export { default as routingConfig } from './routing.config';
+export { default as algoConfig } from './algo.config';
+export { default as ocoConfig } from './oco.config';
+export { default as ladderConfig } from './ladder.config';
+export { default as riskConfig } from './risk.config';
+export { default as killSwitchConfig } from './kill-switch.config';
+export { default as heartbeatConfig } from './heartbeat.config';
 export { default as tradingConfig } from './trading.config';
 
 export * from './app.config';
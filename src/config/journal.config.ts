@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+
+export type JournalDriver = 'sqlite' | 'memory';
+
+export interface JournalConfig {
+  enabled: boolean;
+  driver: JournalDriver;
+  file: string;
+}
+
+export default registerAs(
+  'journal',
+  (): JournalConfig => ({
+    enabled: process.env.JOURNAL_ENABLED !== 'false',
+    // sqlite persists across restarts; memory keeps the journal for the process lifetime only
+    driver: (process.env.JOURNAL_DRIVER || 'sqlite') as JournalDriver,
+    file: process.env.JOURNAL_FILE || 'data/journal.db',
+  }),
+);
@@ -0,0 +1,32 @@
+import { registerAs } from '@nestjs/config';
+import { ExchangeName } from '../common/types/exchange.types';
+
+export interface KillSwitchConfig {
+  // Exchanges whose equity is tracked and flattened (empty: every perpetual exchange with credentials)
+  exchanges: ExchangeName[];
+  // Thresholds in percent of equity; 0 turns one off
+  maxDailyLossPercent: number;
+  maxDrawdownPercent: number;
+  // Trip as soon as an exchange reports the account at risk of liquidation
+  onLiquidationRisk: boolean;
+  checkIntervalMs: number;
+  stateFile: string;
+}
+
+export default registerAs(
+  'killSwitch',
+  (): KillSwitchConfig => ({
+    exchanges: (process.env.KILL_SWITCH_EXCHANGES || '')
+      .split(',')
+      .map(exchange => exchange.trim())
+      .filter(Boolean) as ExchangeName[],
+    // Loss since the first check of the UTC day
+    maxDailyLossPercent: parseFloat(process.env.KILL_SWITCH_MAX_DAILY_LOSS_PERCENT || '0'),
+    // Loss from the highest equity seen since trading was last armed
+    maxDrawdownPercent: parseFloat(process.env.KILL_SWITCH_MAX_DRAWDOWN_PERCENT || '0'),
+    onLiquidationRisk: process.env.KILL_SWITCH_ON_LIQUIDATION_RISK === 'true',
+    checkIntervalMs: parseInt(process.env.KILL_SWITCH_CHECK_INTERVAL_MS || '30000', 10),
+    // Tripped state and equity baselines, so a restart neither re-arms nor resets them
+    stateFile: process.env.KILL_SWITCH_STATE_FILE || 'data/kill-switch.json',
+  }),
+);
@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+
+export interface LadderConfig {
+  stateFile: string;
+  maxLevels: number;
+}
+
+export default registerAs(
+  'ladder',
+  (): LadderConfig => ({
+    // Ladders and their orders, kept so a ladder can be cancelled or amended after a restart
+    stateFile: process.env.LADDER_STATE_FILE || 'data/ladders.json',
+    // Most orders one ladder may place
+    maxLevels: parseInt(process.env.LADDER_MAX_LEVELS || '50', 10),
+  }),
+);
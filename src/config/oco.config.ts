@@ -0,0 +1,22 @@
+import { registerAs } from '@nestjs/config';
+
+export interface OcoConfig {
+  enabled: boolean;
+  stateFile: string;
+  pollIntervalMs: number;
+  pendingTimeoutMs: number;
+}
+
+export default registerAs(
+  'oco',
+  (): OcoConfig => ({
+    // Link the stop loss and take profit of quickLong/quickShort automatically
+    enabled: process.env.OCO_ENABLED !== 'false',
+    // Open and recent brackets, reloaded on startup
+    stateFile: process.env.OCO_STATE_FILE || 'data/oco.json',
+    // How often the position behind each bracket is checked
+    pollIntervalMs: parseInt(process.env.OCO_POLL_INTERVAL_MS || '2000', 10),
+    // How long a bracket waits for its position to show up before treating it as closed
+    pendingTimeoutMs: parseInt(process.env.OCO_PENDING_TIMEOUT_MS || '60000', 10),
+  }),
+);
@@ -0,0 +1,27 @@
+import { registerAs } from '@nestjs/config';
+
+export interface OrderlyConfig {
+  restUrl: string;
+  wsUrl: string;
+  testnetRestUrl: string;
+  testnetWsUrl: string;
+  accountId: string;
+  orderlyKey: string;
+  orderlySecret: string;
+  useTestnet: boolean;
+}
+
+export default registerAs(
+  'orderly',
+  (): OrderlyConfig => ({
+    restUrl: process.env.ORDERLY_REST_URL || 'https://api-evm.orderly.org',
+    wsUrl: process.env.ORDERLY_WS_URL || 'wss://ws-evm.orderly.org/ws/stream',
+    testnetRestUrl: process.env.ORDERLY_TESTNET_REST_URL || 'https://testnet-api-evm.orderly.org',
+    testnetWsUrl:
+      process.env.ORDERLY_TESTNET_WS_URL || 'wss://testnet-ws-evm.orderly.org/ws/stream',
+    accountId: process.env.ORDERLY_ACCOUNT_ID || '',
+    orderlyKey: process.env.ORDERLY_KEY || '',
+    orderlySecret: process.env.ORDERLY_SECRET || '',
+    useTestnet: process.env.ORDERLY_USE_TESTNET === 'true',
+  }),
+);
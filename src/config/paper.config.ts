@@ -0,0 +1,37 @@
+import { registerAs } from '@nestjs/config';
+import { ExchangeName } from '../common/types/exchange.types';
+
+export interface PaperConfig {
+  priceSource: ExchangeName;
+  asset: string;
+  initialBalance: number;
+  makerFee: number;
+  takerFee: number;
+  slippageBps: number;
+  defaultLeverage: number;
+  maxLeverage: number;
+  maintenanceMarginRate: number;
+  fundingIntervalHours: number;
+  matchingIntervalMs: number;
+  stateFile: string;
+}
+
+export default registerAs(
+  'paper',
+  (): PaperConfig => ({
+    // Exchange whose market data drives fills, marks and funding
+    priceSource: (process.env.PAPER_PRICE_SOURCE || 'binance') as ExchangeName,
+    asset: process.env.PAPER_ASSET || 'USDT',
+    initialBalance: parseFloat(process.env.PAPER_INITIAL_BALANCE || '10000'),
+    makerFee: parseFloat(process.env.PAPER_MAKER_FEE || '0.0002'),
+    takerFee: parseFloat(process.env.PAPER_TAKER_FEE || '0.0005'),
+    slippageBps: parseFloat(process.env.PAPER_SLIPPAGE_BPS || '2'),
+    defaultLeverage: parseInt(process.env.PAPER_DEFAULT_LEVERAGE || '10', 10),
+    maxLeverage: parseInt(process.env.PAPER_MAX_LEVERAGE || '50', 10),
+    maintenanceMarginRate: parseFloat(process.env.PAPER_MAINTENANCE_MARGIN_RATE || '0.005'),
+    // 0 disables funding accrual
+    fundingIntervalHours: parseFloat(process.env.PAPER_FUNDING_INTERVAL_HOURS || '8'),
+    matchingIntervalMs: parseInt(process.env.PAPER_MATCHING_INTERVAL_MS || '1000', 10),
+    stateFile: process.env.PAPER_STATE_FILE || 'data/paper-account.json',
+  }),
+);
@@ -0,0 +1,23 @@
+import { registerAs } from '@nestjs/config';
+
+export type RateLimitMode = 'queue' | 'reject';
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  mode: RateLimitMode;
+  maxWaitMs: number;
+  headroom: number;
+}
+
+export default registerAs(
+  'rateLimit',
+  (): RateLimitConfig => ({
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    // queue: hold requests until the budget frees up (at most maxWaitMs); reject: fail at once
+    mode: (process.env.RATE_LIMIT_MODE || 'queue') as RateLimitMode,
+    // Signed Binance requests expire after their 5s recvWindow, so keep waits below that
+    maxWaitMs: parseInt(process.env.RATE_LIMIT_MAX_WAIT_MS || '3000', 10),
+    // Share of each exchange limit this process may use (the rest absorbs other clients)
+    headroom: parseFloat(process.env.RATE_LIMIT_HEADROOM || '0.9'),
+  }),
+);
@@ -0,0 +1,67 @@
+import { registerAs } from '@nestjs/config';
+import { ExchangeName } from '../common/types/exchange.types';
+
+/**
+ * Pre-trade limits. 0 turns a check off; a limit left out is inherited from the less
+ * specific level (defaults, then exchange, then API key).
+ */
+export interface RiskLimits {
+  // USD notional of one symbol: position plus resting orders on the same side
+  maxSymbolNotional?: number;
+  // USD notional of every position and resting order on the exchange
+  maxAccountNotional?: number;
+  maxLeverage?: number;
+  maxOpenOrders?: number;
+  // Furthest a limit price may sit from mark price, in percent
+  priceBandPercent?: number;
+  // Fat-finger limits on a single order
+  maxOrderNotional?: number;
+  maxOrderQuantity?: number;
+}
+
+export interface RiskConfig {
+  enabled: boolean;
+  limits: RiskLimits;
+  exchangeLimits: Partial<Record<ExchangeName, RiskLimits>>;
+  // Keyed by the API key a request authenticates with
+  apiKeyLimits: Record<string, RiskLimits>;
+}
+
+const LIMIT_ENV: Record<keyof RiskLimits, string> = {
+  maxSymbolNotional: 'RISK_MAX_SYMBOL_NOTIONAL',
+  maxAccountNotional: 'RISK_MAX_ACCOUNT_NOTIONAL',
+  maxLeverage: 'RISK_MAX_LEVERAGE',
+  maxOpenOrders: 'RISK_MAX_OPEN_ORDERS',
+  priceBandPercent: 'RISK_PRICE_BAND_PERCENT',
+  maxOrderNotional: 'RISK_MAX_ORDER_NOTIONAL',
+  maxOrderQuantity: 'RISK_MAX_ORDER_QUANTITY',
+};
+
+/**
+ * Parse a JSON object of limit sets, e.g. {"binance":{"maxLeverage":20}}
+ */
+const parseLimitSets = (name: string): Record<string, RiskLimits> => {
+  const value = process.env[name];
+  if (!value) return {};
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${name} must be a JSON object of risk limits`);
+  }
+};
+
+export default registerAs(
+  'risk',
+  (): RiskConfig => ({
+    enabled: process.env.RISK_ENABLED !== 'false',
+    // Limits set in the environment; maxSymbolNotional falls back to MAX_POSITION_SIZE
+    limits: Object.fromEntries(
+      Object.entries(LIMIT_ENV)
+        .filter(([, env]) => process.env[env])
+        .map(([limit, env]) => [limit, parseFloat(process.env[env]!)]),
+    ),
+    exchangeLimits: parseLimitSets('RISK_EXCHANGE_LIMITS'),
+    apiKeyLimits: parseLimitSets('RISK_API_KEY_LIMITS'),
+  }),
+);
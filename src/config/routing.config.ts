@@ -0,0 +1,45 @@
+import { registerAs } from '@nestjs/config';
+import { ExchangeName } from '../common/types/exchange.types';
+
+export interface RoutingConfig {
+  // Venues considered when a request does not name any (empty: every live exchange)
+  exchanges: ExchangeName[];
+  takerFees: Partial<Record<ExchangeName, number>>;
+  bookDepth: number;
+}
+
+// Base-tier taker fee rates
+const DEFAULT_TAKER_FEES: Partial<Record<ExchangeName, number>> = {
+  aster: 0.00035,
+  binance: 0.0005,
+  hyperliquid: 0.00045,
+  okx: 0.0005,
+  orderly: 0.0006,
+  paper: parseFloat(process.env.PAPER_TAKER_FEE || '0.0005'),
+};
+
+/**
+ * Parse "binance=0.0004,okx=0.0005" into a fee map
+ */
+const parseFees = (value?: string): Partial<Record<ExchangeName, number>> =>
+  Object.fromEntries(
+    (value || '')
+      .split(',')
+      .map(entry => entry.split('=').map(part => part.trim()))
+      .filter(([exchange, fee]) => exchange && fee && !isNaN(parseFloat(fee)))
+      .map(([exchange, fee]) => [exchange, parseFloat(fee)]),
+  );
+
+export default registerAs(
+  'routing',
+  (): RoutingConfig => ({
+    exchanges: (process.env.ROUTING_EXCHANGES || '')
+      .split(',')
+      .map(exchange => exchange.trim())
+      .filter(Boolean) as ExchangeName[],
+    // Fee tier overrides, e.g. ROUTING_TAKER_FEES=binance=0.0004,okx=0.0003
+    takerFees: { ...DEFAULT_TAKER_FEES, ...parseFees(process.env.ROUTING_TAKER_FEES) },
+    // Order book levels fetched per venue
+    bookDepth: parseInt(process.env.ROUTING_BOOK_DEPTH || '50', 10),
+  }),
+);
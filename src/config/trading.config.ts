@@ -2,9 +2,12 @@ import { registerAs } from '@nestjs/config';
 
 export interface TradingConfig {
   defaultLeverage: number;
+  // Default per-symbol USD notional cap of the pre-trade risk checks
   maxPositionSize: number;
   stopLossPercentage: number;
   takeProfitPercentage: number;
+  // Most orders one batch place/cancel request may carry
+  maxBatchOrders: number;
 }
 
 export default registerAs(
@@ -14,5 +17,6 @@ export default registerAs(
     maxPositionSize: parseInt(process.env.MAX_POSITION_SIZE || '1000', 10),
     stopLossPercentage: parseFloat(process.env.STOP_LOSS_PERCENTAGE || '2'),
     takeProfitPercentage: parseFloat(process.env.TAKE_PROFIT_PERCENTAGE || '5'),
+    maxBatchOrders: parseInt(process.env.MAX_BATCH_ORDERS || '50', 10),
   }),
 );
@@ -8,6 +8,8 @@ import { AsterPerpetualMarketService } from './services/perpetual-market.service
 
 // Shared services
 import { AsterApiService } from '../shared/aster-api.service';
+import { AsterWebSocketService } from '../shared/aster-websocket.service';
+import { AsterUserDataStreamService } from '../shared/aster-user-data-stream.service';
 
 @Module({
   imports: [ConfigModule],
@@ -16,11 +18,15 @@ import { AsterApiService } from '../shared/aster-api.service';
     AsterPerpetualBalanceService,
     AsterPerpetualMarketService,
     AsterApiService,
+    AsterWebSocketService,
+    AsterUserDataStreamService,
   ],
   exports: [
     AsterPerpetualTradingService,
     AsterPerpetualBalanceService,
     AsterPerpetualMarketService,
+    AsterWebSocketService,
+    AsterUserDataStreamService,
   ],
 })
 export class AsterPerpetualModule {}
@@ -1,5 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { IPerpetualMarketService, FundingRate } from '../../../../common/interfaces';
+import { IPerpetualMarketService, FundingRate, MarginTier } from '../../../../common/interfaces';
 import {
   ApiResponse,
   OrderBook,
@@ -121,6 +121,7 @@ export class AsterPerpetualMarketService implements IPerpetualMarketService {
           bids: response.data.bids || [],
           asks: response.data.asks || [],
           timestamp: Date.now(),
+          lastUpdateId: response.data.lastUpdateId,
         };
 
         return {
@@ -678,6 +679,55 @@ export class AsterPerpetualMarketService implements IPerpetualMarketService {
     }
   }
 
+  /**
+   * Get leverage brackets (signed /fapi/v1/leverageBracket)
+   */
+  async getMarginTiers(symbol: string): Promise<ApiResponse<MarginTier[]>> {
+    try {
+      const response = await this.asterApiService.hmacGet<any>('/fapi/v1/leverageBracket', {
+        symbol,
+        timestamp: Date.now(),
+        recvWindow: 50000,
+      });
+
+      if (!response.success || !response.data) {
+        return response;
+      }
+
+      // One entry per symbol (a bare entry on older API versions)
+      const entry = Array.isArray(response.data)
+        ? response.data.find((item: any) => item.symbol === symbol)
+        : response.data;
+      if (!entry?.brackets) {
+        throw new Error(`No leverage brackets for ${symbol}`);
+      }
+
+      return {
+        success: true,
+        data: entry.brackets.map(
+          (bracket: any): MarginTier => ({
+            floor: Number(bracket.notionalFloor),
+            cap: Number(bracket.notionalCap),
+            basis: 'notional',
+            maxLeverage: Number(bracket.initialLeverage),
+            maintenanceMarginRate: Number(bracket.maintMarginRatio),
+            maintenanceAmount: Number(bracket.cum),
+          }),
+        ),
+        timestamp: Date.now(),
+        exchange: 'aster',
+        tradingType: 'perpetual',
+      };
+    } catch (error) {
+      this.logger.error('Error getting leverage brackets:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to get leverage brackets',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
   /**
    * Get all available futures symbols
    */
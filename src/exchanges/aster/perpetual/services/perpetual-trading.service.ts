@@ -5,10 +5,13 @@ import {
   MarketOrderParams,
   LimitOrderParams,
   CancelOrderParams,
+  CancelAllAfterResult,
+  ModifyOrderParams,
   SetLeverageParams,
   SetPositionModeParams,
   SetStopLossParams,
   SetTakeProfitParams,
+  SetTrailingStopParams,
 } from '../../../../common/interfaces';
 import {
   ApiResponse,
@@ -19,18 +22,27 @@ import {
   Position,
   PositionSide,
 } from '../../../../common/types';
+import { batchItemFailure, runBatched, toBatchResponse } from '../../../../common/batch';
 import { AsterApiService } from '../../shared/aster-api.service';
 import { AsterPerpetualBalanceService } from './perpetual-balance.service';
 import { AsterPerpetualMarketService } from './perpetual-market.service';
+import { OrderBookManager } from '../../../../common/services/order-book-manager.service';
+
+// Most orders /fapi/v1/batchOrders accepts per request (POST / DELETE)
+const BATCH_PLACE_SIZE = 5;
+const BATCH_CANCEL_SIZE = 10;
 
 @Injectable()
 export class AsterPerpetualTradingService implements IPerpetualTradingService {
   private readonly logger = new Logger(AsterPerpetualTradingService.name);
+  // Symbols with a running countdownCancelAll timer
+  private readonly countdownSymbols = new Set<string>();
 
   constructor(
     private readonly asterApiService: AsterApiService,
     private readonly balanceService: AsterPerpetualBalanceService,
     private readonly marketService: AsterPerpetualMarketService,
+    private readonly orderBookManager: OrderBookManager,
   ) {}
 
   /**
@@ -40,60 +52,15 @@ export class AsterPerpetualTradingService implements IPerpetualTradingService {
     try {
       this.logger.debug(`Placing ${params.type} ${params.side} order for ${params.symbol}`);
 
-      // Format quantity and price according to symbol precision
-      const formattedQuantity = await this.marketService.formatQuantity(
-        params.symbol,
-        params.quantity,
-      );
-
-      let formattedPrice: string | undefined;
-      if (params.price) {
-        formattedPrice = await this.marketService.formatPrice(params.symbol, params.price);
-      }
-
-      let formattedStopPrice: string | undefined;
-      if (params.stopPrice) {
-        formattedStopPrice = await this.marketService.formatPrice(params.symbol, params.stopPrice);
-      }
-
       const orderRequest: any = {
-        symbol: params.symbol,
-        side: params.side,
-        type: params.type,
-        quantity: formattedQuantity,
+        ...(await this.toAsterOrderRequest(params)),
         timestamp: Date.now(),
         recvWindow: 50000,
       };
 
-      // Add optional fields
-      if (formattedPrice) orderRequest.price = formattedPrice;
-      if (params.clientOrderId) orderRequest.newClientOrderId = params.clientOrderId;
-      if (formattedStopPrice) orderRequest.stopPrice = formattedStopPrice;
-
-      // Add timeInForce for LIMIT orders
-      if (params.type === OrderType.LIMIT) {
-        orderRequest.timeInForce = params.timeInForce || TimeInForce.GTC;
-      }
-
-      // Add workingType for STOP orders
-      if (params.type.includes('STOP') || params.type.includes('TAKE_PROFIT')) {
-        orderRequest.workingType = 'CONTRACT_PRICE';
-      }
-
-      // Add reduceOnly
-      if (params.reduceOnly) {
-        // Use boolean true for reduceOnly to match API expectations
-        orderRequest.reduceOnly = true;
-      }
-
       // Debug: log order request for troubleshooting conditional orders
       this.logger.debug('Aster order request body:', JSON.stringify(orderRequest));
 
-      // Add positionSide if provided (required in hedge mode)
-      if ((params as any).positionSide) {
-        orderRequest.positionSide = (params as any).positionSide;
-      }
-
       const response = await this.asterApiService.post<any>('/fapi/v3/order', orderRequest);
 
       if (response.success && response.data) {
@@ -118,6 +85,72 @@ export class AsterPerpetualTradingService implements IPerpetualTradingService {
     }
   }
 
+  /**
+   * Order fields shared by /fapi/v3/order and the HMAC /fapi/v1/batchOrders endpoint
+   */
+  private async toAsterOrderRequest(params: PlaceOrderParams): Promise<Record<string, any>> {
+    // Format quantity and price according to symbol precision
+    const formattedQuantity = await this.marketService.formatQuantity(
+      params.symbol,
+      params.quantity,
+    );
+
+    let formattedPrice: string | undefined;
+    if (params.price) {
+      formattedPrice = await this.marketService.formatPrice(params.symbol, params.price);
+    }
+
+    let formattedStopPrice: string | undefined;
+    if (params.stopPrice) {
+      formattedStopPrice = await this.marketService.formatPrice(params.symbol, params.stopPrice);
+    }
+
+    let formattedActivationPrice: string | undefined;
+    if (params.activationPrice) {
+      formattedActivationPrice = await this.marketService.formatPrice(
+        params.symbol,
+        params.activationPrice,
+      );
+    }
+
+    const orderRequest: any = {
+      symbol: params.symbol,
+      side: params.side,
+      type: params.type === OrderType.TRAILING_STOP ? 'TRAILING_STOP_MARKET' : params.type,
+      quantity: formattedQuantity,
+    };
+
+    // Add optional fields
+    if (formattedPrice) orderRequest.price = formattedPrice;
+    if (params.clientOrderId) orderRequest.newClientOrderId = params.clientOrderId;
+    if (formattedStopPrice) orderRequest.stopPrice = formattedStopPrice;
+    if (formattedActivationPrice) orderRequest.activationPrice = formattedActivationPrice;
+    if (params.callbackRate) orderRequest.callbackRate = params.callbackRate.toString();
+
+    // Add timeInForce for LIMIT orders
+    if (params.type === OrderType.LIMIT) {
+      orderRequest.timeInForce = params.timeInForce || TimeInForce.GTC;
+    }
+
+    // Add workingType for STOP orders
+    if (params.type.includes('STOP') || params.type.includes('TAKE_PROFIT')) {
+      orderRequest.workingType = 'CONTRACT_PRICE';
+    }
+
+    // Add reduceOnly
+    if (params.reduceOnly) {
+      // Use boolean true for reduceOnly to match API expectations
+      orderRequest.reduceOnly = true;
+    }
+
+    // Add positionSide if provided (required in hedge mode)
+    if ((params as any).positionSide) {
+      orderRequest.positionSide = (params as any).positionSide;
+    }
+
+    return orderRequest;
+  }
+
   /**
    * Cancel only conditional orders (STOP/TAKE_PROFIT/TRAILING stops) for a symbol
    */
@@ -193,6 +226,107 @@ export class AsterPerpetualTradingService implements IPerpetualTradingService {
     });
   }
 
+  /**
+   * Place several orders through the HMAC /fapi/v1/batchOrders endpoint
+   */
+  async placeOrders(orders: PlaceOrderParams[]): Promise<ApiResponse<ApiResponse<Order>[]>> {
+    try {
+      this.logger.debug(`Placing ${orders.length} orders in batches of ${BATCH_PLACE_SIZE}`);
+
+      const results = await runBatched(orders, {
+        size: BATCH_PLACE_SIZE,
+        prepare: async params => {
+          const orderRequest = await this.toAsterOrderRequest(params);
+          // batchOrders takes every value as a string
+          if (orderRequest.reduceOnly) orderRequest.reduceOnly = 'true';
+          return orderRequest;
+        },
+        send: async batch => {
+          const response = await this.asterApiService.hmacPost<any[]>('/fapi/v1/batchOrders', {
+            batchOrders: JSON.stringify(batch),
+          });
+          if (!response.success || !Array.isArray(response.data)) {
+            throw new Error(response.error || 'Failed to place orders');
+          }
+          return response.data.map(item => this.toBatchResult(item));
+        },
+      });
+
+      return toBatchResponse(results, 'aster', 'perpetual');
+    } catch (error) {
+      this.logger.error('Error placing orders:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to place orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Amend an open LIMIT order in place through the HMAC PUT /fapi/v1/order endpoint, keeping
+   * its order ID. Side, price and quantity are required on every amend, so the current order
+   * fills in whatever the request leaves unchanged.
+   */
+  async modifyOrder(params: ModifyOrderParams): Promise<ApiResponse<Order>> {
+    try {
+      if (!params.orderId && !params.clientOrderId) {
+        return {
+          success: false,
+          error: 'Either orderId or clientOrderId is required',
+          timestamp: Date.now(),
+        };
+      }
+
+      const orderRef: any = { symbol: params.symbol };
+      if (params.orderId) orderRef.orderId = params.orderId;
+      else orderRef.origClientOrderId = params.clientOrderId;
+
+      const current = await this.asterApiService.hmacGet<any>('/fapi/v1/order', {
+        ...orderRef,
+        timestamp: Date.now(),
+        recvWindow: 50000,
+      });
+      if (!current.success || !current.data) {
+        return current;
+      }
+
+      const response = await this.asterApiService.hmacPut<any>('/fapi/v1/order', {
+        ...orderRef,
+        side: current.data.side,
+        quantity: await this.marketService.formatQuantity(
+          params.symbol,
+          params.quantity ?? current.data.origQty,
+        ),
+        price: await this.marketService.formatPrice(
+          params.symbol,
+          params.price ?? current.data.price,
+        ),
+        timestamp: Date.now(),
+        recvWindow: 50000,
+      });
+
+      if (response.success && response.data) {
+        return {
+          success: true,
+          data: this.mapToStandardOrder(response.data),
+          timestamp: Date.now(),
+          exchange: 'aster',
+          tradingType: 'perpetual',
+        };
+      }
+
+      return response;
+    } catch (error) {
+      this.logger.error('Error amending order:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to amend order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
   /**
    * Cancel an order
    */
@@ -218,6 +352,49 @@ export class AsterPerpetualTradingService implements IPerpetualTradingService {
     }
   }
 
+  /**
+   * Cancel several orders through the HMAC /fapi/v1/batchOrders endpoint. Each request covers
+   * one symbol and either order IDs or client order IDs.
+   */
+  async cancelOrders(orders: CancelOrderParams[]): Promise<ApiResponse<ApiResponse<any>[]>> {
+    try {
+      const results = await runBatched(orders, {
+        size: BATCH_CANCEL_SIZE,
+        prepare: params => {
+          if (!params.orderId && !params.clientOrderId) {
+            throw new Error('Either orderId or clientOrderId is required');
+          }
+          return params;
+        },
+        groupBy: params => `${params.symbol}:${params.orderId ? 'orderId' : 'clientOrderId'}`,
+        send: async batch => {
+          const ids = batch[0].orderId
+            ? { orderIdList: JSON.stringify(batch.map(params => Number(params.orderId))) }
+            : { origClientOrderIdList: JSON.stringify(batch.map(params => params.clientOrderId)) };
+          const response = await this.asterApiService.hmacDelete<any[]>('/fapi/v1/batchOrders', {
+            symbol: batch[0].symbol,
+            ...ids,
+            timestamp: Date.now(),
+            recvWindow: 50000,
+          });
+          if (!response.success || !Array.isArray(response.data)) {
+            throw new Error(response.error || 'Failed to cancel orders');
+          }
+          return response.data.map(item => this.toBatchResult(item));
+        },
+      });
+
+      return toBatchResponse(results, 'aster', 'perpetual');
+    } catch (error) {
+      this.logger.error('Error cancelling orders:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
   /**
    * Cancel all orders
    */
@@ -248,6 +425,55 @@ export class AsterPerpetualTradingService implements IPerpetualTradingService {
     }
   }
 
+  /**
+   * Arm /fapi/v1/countdownCancelAll on every symbol with open orders and on those already
+   * counting down (the timer runs per symbol)
+   */
+  async cancelAllAfter(timeoutMs: number): Promise<ApiResponse<CancelAllAfterResult>> {
+    try {
+      const openOrders = await this.getOpenOrders();
+      if (!openOrders.success) {
+        throw new Error(openOrders.error || 'Failed to get open orders');
+      }
+
+      const symbols = [
+        ...new Set([...this.countdownSymbols, ...openOrders.data.map(order => order.symbol)]),
+      ];
+
+      for (const symbol of symbols) {
+        const response = await this.asterApiService.hmacPost('/fapi/v1/countdownCancelAll', {
+          symbol,
+          countdownTime: timeoutMs,
+          timestamp: Date.now(),
+          recvWindow: 50000,
+        });
+        if (!response.success) {
+          throw new Error(response.error || `Failed to set cancel-all countdown on ${symbol}`);
+        }
+        if (timeoutMs > 0) {
+          this.countdownSymbols.add(symbol);
+        } else {
+          this.countdownSymbols.delete(symbol);
+        }
+      }
+
+      return {
+        success: true,
+        data: { cancelAt: timeoutMs > 0 ? Date.now() + timeoutMs : undefined, symbols },
+        timestamp: Date.now(),
+        exchange: 'aster',
+        tradingType: 'perpetual',
+      };
+    } catch (error) {
+      this.logger.error('Error setting cancel-all countdown:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to set cancel-all countdown',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
   /**
    * Get open orders
    */
@@ -322,6 +548,55 @@ export class AsterPerpetualTradingService implements IPerpetualTradingService {
     }
   }
 
+  /**
+   * Get order details by client order ID
+   */
+  async getOrderByClientId(
+    symbol: string,
+    clientOrderId: string,
+  ): Promise<ApiResponse<Order | null>> {
+    try {
+      const params = {
+        symbol,
+        origClientOrderId: clientOrderId,
+        timestamp: Date.now(),
+        recvWindow: 50000,
+      };
+
+      const response = await this.asterApiService.hmacGet<any>('/fapi/v1/order', params);
+
+      if (response.success && response.data) {
+        return {
+          success: true,
+          data: this.mapToStandardOrder(response.data),
+          timestamp: Date.now(),
+          exchange: 'aster',
+          tradingType: 'perpetual',
+        };
+      }
+
+      // -2013: Order does not exist
+      if (response.code === -2013) {
+        return {
+          success: true,
+          data: null,
+          timestamp: Date.now(),
+          exchange: 'aster',
+          tradingType: 'perpetual',
+        };
+      }
+
+      return response;
+    } catch (error) {
+      this.logger.error('Error getting order by client ID:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to get order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
   /**
    * Quick market buy
    */
@@ -528,6 +803,24 @@ export class AsterPerpetualTradingService implements IPerpetualTradingService {
     });
   }
 
+  /**
+   * Set trailing stop for position (native TRAILING_STOP_MARKET)
+   */
+  async setTrailingStop(params: SetTrailingStopParams): Promise<ApiResponse<Order>> {
+    const quantity = params.quantity || (await this.getPositionQuantity(params.symbol));
+    const side = params.side || (await this.getOppositeSide(params.symbol));
+
+    return this.placeOrder({
+      symbol: params.symbol,
+      side: side as OrderSide,
+      type: OrderType.TRAILING_STOP,
+      quantity,
+      callbackRate: params.callbackRate,
+      activationPrice: params.activationPrice,
+      reduceOnly: true,
+    });
+  }
+
   /**
    * Cancel all stop loss and take profit orders for symbol
    */
@@ -802,13 +1095,16 @@ export class AsterPerpetualTradingService implements IPerpetualTradingService {
         includePositionSide = false;
       }
 
-      // Get current price
-      const priceResponse = await this.marketService.getCurrentPrice(symbol);
-      if (!priceResponse.success || !priceResponse.data) {
-        return priceResponse;
+      // Get current price (local order book mid when synced, otherwise REST)
+      let currentPrice = this.orderBookManager.getMidPrice('aster', symbol);
+      if (currentPrice === undefined) {
+        const priceResponse = await this.marketService.getCurrentPrice(symbol);
+        if (!priceResponse.success || !priceResponse.data) {
+          return priceResponse;
+        }
+        currentPrice = parseFloat(priceResponse.data);
       }
 
-      const currentPrice = parseFloat(priceResponse.data);
       const quantity = ((usdValue * leverage) / currentPrice).toFixed(8);
 
       // Place main order. Only include positionSide when account is in hedge (dual-side) mode.
@@ -949,13 +1245,16 @@ export class AsterPerpetualTradingService implements IPerpetualTradingService {
         includePositionSide = false;
       }
 
-      // Get current price
-      const priceResponse = await this.marketService.getCurrentPrice(symbol);
-      if (!priceResponse.success || !priceResponse.data) {
-        return priceResponse;
+      // Get current price (local order book mid when synced, otherwise REST)
+      let currentPrice = this.orderBookManager.getMidPrice('aster', symbol);
+      if (currentPrice === undefined) {
+        const priceResponse = await this.marketService.getCurrentPrice(symbol);
+        if (!priceResponse.success || !priceResponse.data) {
+          return priceResponse;
+        }
+        currentPrice = parseFloat(priceResponse.data);
       }
 
-      const currentPrice = parseFloat(priceResponse.data);
       const quantity = ((usdValue * leverage) / currentPrice).toFixed(8);
 
       const mainOrderParams: any = {
@@ -1068,4 +1367,23 @@ export class AsterPerpetualTradingService implements IPerpetualTradingService {
       updateTime: asterOrder.updateTime,
     };
   }
+
+  /**
+   * Map one entry of a batchOrders response (an order, or { code, msg } when it was rejected)
+   */
+  private toBatchResult(item: any): ApiResponse<Order> {
+    if (item?.orderId === undefined) {
+      return batchItemFailure(
+        item?.msg ? `${item.msg} (code: ${item.code})` : 'Order rejected by Aster',
+      );
+    }
+
+    return {
+      success: true,
+      data: this.mapToStandardOrder(item),
+      timestamp: Date.now(),
+      exchange: 'aster',
+      tradingType: 'perpetual',
+    };
+  }
 }
@@ -5,16 +5,24 @@ import { ethers } from 'ethers';
 import * as crypto from 'crypto';
 import { AsterApiCredentials, AsterApiResponse, AsterSignatureParams } from '../types';
 import { AsterConfig } from '../../../config/aster.config';
+import { RateLimiterService } from '../../../common/services/rate-limiter.service';
+import { CircuitBreakerService } from '../../../common/services/circuit-breaker.service';
 
 @Injectable()
 export class AsterApiService {
   private readonly logger = new Logger(AsterApiService.name);
   private readonly httpClient: AxiosInstance;
+  // HMAC requests are signed by hand and bypass httpClient's signing interceptors
+  private readonly hmacClient: AxiosInstance = axios.create();
   private readonly credentials: AsterApiCredentials;
   private readonly baseURL: string;
   private readonly asterConfig: AsterConfig;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private rateLimiter: RateLimiterService,
+    private circuitBreaker: CircuitBreakerService,
+  ) {
     // Load Aster configuration
     this.asterConfig = this.configService.get<AsterConfig>('aster') as AsterConfig;
 
@@ -40,6 +48,10 @@ export class AsterApiService {
     });
 
     this.setupInterceptors();
+    this.circuitBreaker.attach('aster', this.httpClient);
+    this.circuitBreaker.attach('aster', this.hmacClient);
+    this.rateLimiter.attach('aster', this.httpClient);
+    this.rateLimiter.attach('aster', this.hmacClient);
     this.logger.log(`Aster API Service initialized with base URL: ${this.baseURL}`);
   }
 
@@ -68,7 +80,7 @@ export class AsterApiService {
 
   /**
    * POST with Binance-style HMAC SHA256 signature.
-   * This bypasses the request interceptors because it uses the global axios instance
+   * This bypasses the signing interceptors because it uses the separate HMAC client
    * and constructs the form-urlencoded body + signature manually.
    */
   async hmacPost<T = any>(
@@ -102,7 +114,7 @@ export class AsterApiService {
       this.logger.debug('HMAC POST body (qs):', qs);
       this.logger.debug('HMAC Signature:', signature);
 
-      const response = await axios.post(url, body, {
+      const response = await this.hmacClient.post(url, body, {
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
           'X-MBX-APIKEY': this.credentials.apiKey,
@@ -163,7 +175,7 @@ export class AsterApiService {
       this.logger.debug('HMAC Query String:', qs);
       this.logger.debug('HMAC Signature:', signature);
 
-      const response = await axios.get(url, {
+      const response = await this.hmacClient.get(url, {
         headers: {
           'X-MBX-APIKEY': this.credentials.apiKey,
           'User-Agent': 'Aster-Trading-Bot/1.0',
@@ -207,7 +219,49 @@ export class AsterApiService {
       this.logger.debug('HMAC Query String:', qs);
       this.logger.debug('HMAC Signature:', signature);
 
-      const response = await axios.delete(url, {
+      const response = await this.hmacClient.delete(url, {
+        headers: {
+          'X-MBX-APIKEY': this.credentials.apiKey,
+          'User-Agent': 'Aster-Trading-Bot/1.0',
+        },
+        timeout: 30000,
+      });
+
+      return this.formatResponse(response.data);
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * PUT with Binance-style HMAC SHA256 signature (order amend).
+   * This bypasses the request interceptors and constructs query string + signature manually.
+   */
+  async hmacPut<T = any>(
+    endpoint: string,
+    params: Record<string, any>,
+  ): Promise<AsterApiResponse<T>> {
+    try {
+      if (!this.credentials.apiKey || !this.credentials.apiSecret) {
+        throw new Error('HMAC API credentials (apiKey/apiSecret) are required');
+      }
+
+      // Build URL-encoded query string preserving insertion order (DO NOT SORT!)
+      const qs = new URLSearchParams(params as any).toString();
+
+      // Compute HMAC SHA256 signature
+      const signature = crypto
+        .createHmac('sha256', this.credentials.apiSecret as string)
+        .update(qs)
+        .digest('hex');
+
+      const queryString = qs + `&signature=${signature}`;
+
+      const url = this.baseURL + endpoint + '?' + queryString;
+
+      this.logger.debug('HMAC PUT URL:', url);
+
+      const response = await this.hmacClient.put(url, undefined, {
         headers: {
           'X-MBX-APIKEY': this.credentials.apiKey,
           'User-Agent': 'Aster-Trading-Bot/1.0',
@@ -503,16 +557,47 @@ export class AsterApiService {
   }
 
   private handleError(error: any): AsterApiResponse {
-    const errorMessage = error.response?.data?.message || error.message || 'Unknown error';
+    // Aster answers with Binance-style { code, msg } bodies
+    const data = error.response?.data;
+    const errorMessage = data?.msg || data?.message || error.message || 'Unknown error';
     this.logger.error(`API Error: ${errorMessage}`);
 
     return {
       success: false,
       error: errorMessage,
+      code: data?.code,
       timestamp: Date.now(),
     };
   }
 
+  /**
+   * Create (or return the active) user data stream listen key
+   */
+  async createListenKey(): Promise<AsterApiResponse<{ listenKey: string }>> {
+    return this.post('/fapi/v1/listenKey');
+  }
+
+  /**
+   * Extend the listen key validity by 60 minutes
+   */
+  async keepAliveListenKey(): Promise<AsterApiResponse> {
+    return this.put('/fapi/v1/listenKey');
+  }
+
+  /**
+   * Close the user data stream
+   */
+  async closeListenKey(): Promise<AsterApiResponse> {
+    return this.delete('/fapi/v1/listenKey');
+  }
+
+  /**
+   * Check if wallet signing credentials are configured
+   */
+  hasCredentials(): boolean {
+    return !!this.credentials.user && !!this.credentials.signer && !!this.credentials.privateKey;
+  }
+
   // Health check method - Test Connectivity
   async ping(): Promise<AsterApiResponse> {
     try {
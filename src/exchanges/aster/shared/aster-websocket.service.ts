@@ -1,309 +1,176 @@
-import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import WebSocket from 'ws';
-import { Subject, Observable } from 'rxjs';
-import { WebSocketMessage, TickerData, OrderBookData } from '../types';
+import { BaseMarketStreamService } from '../../../common/websocket/base-market-stream.service';
+import { WebSocketConnection } from '../../../common/websocket/websocket-connection';
+import { MarketStreamTopic } from '../../../common/interfaces/market-stream.interface';
+import { ExchangeName, OrderSide } from '../../../common/types/exchange.types';
 import { AsterConfig } from '../../../config/aster.config';
 
+/**
+ * Aster public market streams (Binance-compatible stream protocol)
+ */
 @Injectable()
-export class AsterWebSocketService implements OnModuleDestroy {
+export class AsterWebSocketService extends BaseMarketStreamService {
   private readonly logger = new Logger(AsterWebSocketService.name);
-  private ws: WebSocket | null = null;
-  private readonly wsUrl: string;
-  private readonly messageSubject = new Subject<WebSocketMessage>();
-  private readonly tickerSubject = new Subject<TickerData>();
-  private readonly orderBookSubject = new Subject<OrderBookData>();
-  private reconnectInterval: NodeJS.Timeout | null = null;
-  private pingInterval: NodeJS.Timeout | null = null;
-  private isConnected = false;
-  private subscriptions: Set<string> = new Set();
-  private readonly asterConfig: AsterConfig;
+  protected readonly exchange: ExchangeName = 'aster';
+  private readonly connection: WebSocketConnection;
 
   constructor(private configService: ConfigService) {
-    // Load Aster configuration
-    this.asterConfig = this.configService.get<AsterConfig>('aster') as AsterConfig;
-    this.wsUrl = this.asterConfig.wsUrl;
-    this.logger.log(`WebSocket URL configured: ${this.wsUrl}`);
+    super();
+    const asterConfig = this.configService.get<AsterConfig>('aster') as AsterConfig;
+    const wsUrl = asterConfig.wsUrl.replace(/\/$/, '');
+
+    this.connection = new WebSocketConnection(AsterWebSocketService.name, {
+      // Combined stream endpoint wraps payloads with their stream name (partial and diff depth
+      // events are otherwise indistinguishable)
+      url: `${wsUrl.replace(/\/ws$/, '')}/stream`,
+      onOpen: () => this.sendSubscription('SUBSCRIBE', this.getTopics()),
+      onMessage: data => this.handleMessage(data),
+      pingIntervalMs: 3 * 60 * 1000,
+    });
   }
 
-  /**
-   * Connect to WebSocket
-   */
-  async connect(): Promise<void> {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.logger.warn('WebSocket is already connected');
-      return;
-    }
-
-    try {
-      this.logger.log(`Connecting to WebSocket: ${this.wsUrl}`);
-
-      this.ws = new WebSocket(this.wsUrl);
-
-      this.ws.on('open', () => {
-        this.logger.log('WebSocket connected successfully');
-        this.isConnected = true;
-        this.startPingInterval();
-      });
-
-      this.ws.on('message', (data: WebSocket.Data) => {
-        this.handleMessage(data);
-      });
-
-      this.ws.on('close', (code: number, reason: string) => {
-        this.logger.warn(`WebSocket closed: ${code} - ${reason}`);
-        this.isConnected = false;
-        this.cleanup();
-        this.scheduleReconnect();
-      });
-
-      this.ws.on('error', (error: Error) => {
-        this.logger.error('WebSocket error:', error);
-        this.isConnected = false;
-      });
-
-      this.ws.on('pong', () => {
-        this.logger.debug('Received pong from server');
-      });
-    } catch (error) {
-      this.logger.error('Failed to connect to WebSocket:', error);
-      this.scheduleReconnect();
-    }
+  isConnected(): boolean {
+    return this.connection.isConnected();
   }
 
-  /**
-   * Disconnect from WebSocket
-   */
-  disconnect(): void {
-    this.logger.log('Disconnecting WebSocket');
-
-    if (this.reconnectInterval) {
-      clearTimeout(this.reconnectInterval);
-      this.reconnectInterval = null;
-    }
-
-    this.cleanup();
-
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-
-    this.isConnected = false;
-    this.subscriptions.clear();
+  protected normalizeSymbol(symbol: string): string {
+    return symbol.replace(/[-/_]/g, '').toUpperCase();
   }
 
-  /**
-   * Subscribe to ticker updates for a symbol
-   */
-  subscribeTicker(symbol: string): void {
-    const streamName = `${symbol.toLowerCase()}@ticker`;
-
-    if (this.subscriptions.has(streamName)) {
-      this.logger.debug(`Already subscribed to ticker for ${symbol}`);
-      return;
+  protected addTopic(topic: MarketStreamTopic): void {
+    if (this.connection.isConnected()) {
+      this.sendSubscription('SUBSCRIBE', [topic]);
+    } else {
+      this.connection.connect();
     }
-
-    this.subscribe([streamName]);
-    this.subscriptions.add(streamName);
-    this.logger.log(`Subscribed to ticker for ${symbol}`);
   }
 
-  /**
-   * Subscribe to order book updates for a symbol
-   */
-  subscribeOrderBook(symbol: string, depth: number = 20): void {
-    const streamName = `${symbol.toLowerCase()}@depth${depth}`;
-
-    if (this.subscriptions.has(streamName)) {
-      this.logger.debug(`Already subscribed to order book for ${symbol}`);
+  protected removeTopic(topic: MarketStreamTopic): void {
+    if (this.getTopics().length === 0) {
+      this.connection.disconnect();
       return;
     }
 
-    this.subscribe([streamName]);
-    this.subscriptions.add(streamName);
-    this.logger.log(`Subscribed to order book for ${symbol} with depth ${depth}`);
-  }
-
-  /**
-   * Generic subscribe method for streams
-   */
-  private subscribe(streams: string[]): void {
-    if (!this.isWebSocketConnected()) {
-      this.logger.warn('Cannot subscribe: WebSocket not connected');
-      return;
-    }
-
-    this.sendMessage({
-      method: 'SUBSCRIBE',
-      params: streams,
-      id: Date.now(),
-    });
-  }
-
-  /**
-   * Get observable for all WebSocket messages
-   */
-  getMessages(): Observable<WebSocketMessage> {
-    return this.messageSubject.asObservable();
-  }
-
-  /**
-   * Get observable for ticker data
-   */
-  getTickerData(): Observable<TickerData> {
-    return this.tickerSubject.asObservable();
-  }
-
-  /**
-   * Get observable for order book data
-   */
-  getOrderBookData(): Observable<OrderBookData> {
-    return this.orderBookSubject.asObservable();
+    this.sendSubscription('UNSUBSCRIBE', [topic]);
   }
 
-  /**
-   * Check if WebSocket is connected
-   */
-  isWebSocketConnected(): boolean {
-    return this.isConnected && this.ws?.readyState === WebSocket.OPEN;
+  protected disconnect(): void {
+    this.connection.disconnect();
   }
 
   /**
-   * Handle incoming WebSocket messages
+   * Map a topic to its Aster stream name
    */
-  private handleMessage(data: WebSocket.Data): void {
-    try {
-      const message = JSON.parse(data.toString());
-
-      // Emit raw message
-      const wsMessage: WebSocketMessage = {
-        event: message.e || message.event || 'unknown',
-        data: message,
-        timestamp: Date.now(),
-      };
-
-      this.messageSubject.next(wsMessage);
+  private toStreamName(topic: MarketStreamTopic): string {
+    const symbol = topic.symbol.toLowerCase();
 
-      // Handle specific message types
-      if (message.e === '24hrTicker') {
-        this.handleTickerMessage(message);
-      } else if (message.e === 'depthUpdate') {
-        this.handleOrderBookMessage(message);
-      }
-    } catch (error) {
-      this.logger.error('Error parsing WebSocket message:', error);
+    switch (topic.channel) {
+      case 'ticker':
+        return `${symbol}@ticker`;
+      case 'orderbook':
+        return `${symbol}@depth20@100ms`;
+      case 'depth':
+        return `${symbol}@depth@100ms`;
+      case 'trades':
+        return `${symbol}@aggTrade`;
+      case 'candles':
+        return `${symbol}@kline_${topic.interval}`;
     }
   }
 
-  /**
-   * Handle ticker messages
-   */
-  private handleTickerMessage(message: any): void {
-    try {
-      const tickerData: TickerData = {
-        symbol: message.s,
-        price: message.c,
-        priceChange: message.p,
-        priceChangePercent: message.P,
-        high: message.h,
-        low: message.l,
-        volume: message.v,
-        timestamp: message.E,
-      };
+  private sendSubscription(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', topics: MarketStreamTopic[]): void {
+    if (topics.length === 0) return;
 
-      this.tickerSubject.next(tickerData);
-      this.logger.debug('Processed ticker data:', tickerData.symbol);
-    } catch (error) {
-      this.logger.error('Error processing ticker message:', error);
-    }
+    this.connection.send({
+      method,
+      params: topics.map(topic => this.toStreamName(topic)),
+      id: Date.now(),
+    });
   }
 
   /**
-   * Handle order book messages
+   * Normalize incoming stream payloads
    */
-  private handleOrderBookMessage(message: any): void {
+  private handleMessage(data: string): void {
     try {
-      const orderBookData: OrderBookData = {
-        symbol: message.s,
-        bids: message.b || [],
-        asks: message.a || [],
-        timestamp: message.E,
-      };
-
-      this.orderBookSubject.next(orderBookData);
-      this.logger.debug('Processed order book data:', orderBookData.symbol);
-    } catch (error) {
-      this.logger.error('Error processing order book message:', error);
-    }
-  }
-
-  /**
-   * Send message to WebSocket
-   */
-  private sendMessage(message: any): void {
-    if (!this.isWebSocketConnected()) {
-      this.logger.warn('Cannot send message: WebSocket not connected');
-      return;
-    }
+      const parsed = JSON.parse(data);
 
-    try {
-      this.ws!.send(JSON.stringify(message));
-      this.logger.debug('Sent WebSocket message:', message);
-    } catch (error) {
-      this.logger.error('Error sending WebSocket message:', error);
-    }
-  }
-
-  /**
-   * Start ping interval to keep connection alive
-   */
-  private startPingInterval(): void {
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
-    }
-
-    // Send ping every 5 minutes
-    this.pingInterval = setInterval(
-      () => {
-        if (this.isWebSocketConnected()) {
-          this.ws!.ping();
-          this.logger.debug('Sent ping to server');
-        }
-      },
-      5 * 60 * 1000,
-    );
-  }
-
-  /**
-   * Schedule reconnection
-   */
-  private scheduleReconnect(): void {
-    if (this.reconnectInterval) {
-      return; // Already scheduled
-    }
-
-    this.reconnectInterval = setTimeout(() => {
-      this.logger.log('Attempting to reconnect WebSocket...');
-      this.reconnectInterval = null;
-      this.connect();
-    }, 5000); // Reconnect after 5 seconds
-  }
+      if (parsed.error) {
+        this.logger.warn(`Stream request ${parsed.id} failed: ${parsed.error.msg}`);
+        return;
+      }
 
-  /**
-   * Cleanup resources
-   */
-  private cleanup(): void {
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
-      this.pingInterval = null;
+      // Combined stream payloads are wrapped as { stream, data }
+      if (!parsed.stream || !parsed.data) return;
+      const { stream, data: message } = parsed;
+
+      switch (message.e) {
+        case '24hrTicker':
+          this.emit(
+            { channel: 'ticker', symbol: message.s },
+            { symbol: message.s, price: message.c, timestamp: message.E },
+          );
+          break;
+
+        case 'depthUpdate':
+          if (stream.endsWith('@depth@100ms')) {
+            this.emit(
+              { channel: 'depth', symbol: message.s },
+              {
+                symbol: message.s,
+                bids: message.b,
+                asks: message.a,
+                snapshot: false,
+                firstUpdateId: message.U,
+                lastUpdateId: message.u,
+                prevUpdateId: message.pu,
+                timestamp: message.E,
+              },
+            );
+          } else {
+            this.emit(
+              { channel: 'orderbook', symbol: message.s },
+              { symbol: message.s, bids: message.b, asks: message.a, timestamp: message.E },
+            );
+          }
+          break;
+
+        case 'aggTrade':
+          this.emit(
+            { channel: 'trades', symbol: message.s },
+            {
+              id: message.a.toString(),
+              orderId: '',
+              symbol: message.s,
+              // Buyer is maker -> taker sold
+              side: message.m ? OrderSide.SELL : OrderSide.BUY,
+              price: message.p,
+              quantity: message.q,
+              fee: '0',
+              feeAsset: '',
+              timestamp: message.T,
+            },
+          );
+          break;
+
+        case 'kline':
+          this.emit(
+            { channel: 'candles', symbol: message.s, interval: message.k.i },
+            {
+              openTime: message.k.t,
+              open: message.k.o,
+              high: message.k.h,
+              low: message.k.l,
+              close: message.k.c,
+              volume: message.k.v,
+              closeTime: message.k.T,
+            },
+          );
+          break;
+      }
+    } catch (error: any) {
+      this.logger.error('Error parsing WebSocket message:', error.message);
     }
   }
-
-  /**
-   * Module cleanup
-   */
-  onModuleDestroy(): void {
-    this.disconnect();
-  }
 }
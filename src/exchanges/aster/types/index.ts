@@ -23,6 +23,7 @@ export interface AsterApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: number;
   timestamp: number;
 }
 
@@ -149,31 +150,6 @@ export interface OrderHistory {
   limit: number;
 }
 
-// WebSocket related types
-export interface WebSocketMessage {
-  event: string;
-  data: any;
-  timestamp: number;
-}
-
-export interface TickerData {
-  symbol: string;
-  price: string;
-  priceChange: string;
-  priceChangePercent: string;
-  high: string;
-  low: string;
-  volume: string;
-  timestamp: number;
-}
-
-export interface OrderBookData {
-  symbol: string;
-  bids: [string, string][];
-  asks: [string, string][];
-  timestamp: number;
-}
-
 // Market data types
 export interface Symbol {
   symbol: string;
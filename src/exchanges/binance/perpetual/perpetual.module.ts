@@ -8,6 +8,8 @@ import { BinancePerpetualMarketService } from './services/perpetual-market.servi
 
 // Shared services
 import { BinanceApiService } from '../shared/binance-api.service';
+import { BinanceWebSocketService } from '../shared/binance-websocket.service';
+import { BinanceUserDataStreamService } from '../shared/binance-user-data-stream.service';
 
 @Module({
   imports: [ConfigModule],
@@ -16,11 +18,15 @@ import { BinanceApiService } from '../shared/binance-api.service';
     BinancePerpetualBalanceService,
     BinancePerpetualMarketService,
     BinanceApiService,
+    BinanceWebSocketService,
+    BinanceUserDataStreamService,
   ],
   exports: [
     BinancePerpetualTradingService,
     BinancePerpetualBalanceService,
     BinancePerpetualMarketService,
+    BinanceWebSocketService,
+    BinanceUserDataStreamService,
   ],
 })
 export class BinancePerpetualModule {}
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { BinanceApiService } from '../../shared/binance-api.service';
+import { ApiResponse } from '../../../../common/types';
 import { BinanceAccountInfo, BinanceAsset } from '../../types';
 
 @Injectable()
@@ -60,6 +61,32 @@ export class BinancePerpetualBalanceService {
     }
   }
 
+  /**
+   * Get margin available for new positions
+   */
+  async getAvailableBalance(): Promise<ApiResponse<string>> {
+    try {
+      const response = await this.apiService.get<BinanceAccountInfo>('/fapi/v2/account');
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch available balance');
+      }
+
+      return {
+        success: true,
+        data: response.data.availableBalance,
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      this.logger.error('Error fetching available balance:', error.message);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: Date.now(),
+      };
+    }
+  }
+
   /**
    * Get positions
    */
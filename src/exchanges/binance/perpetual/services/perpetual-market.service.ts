@@ -1,12 +1,51 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { FundingRate, MarginTier } from '../../../../common/interfaces';
+import { ApiResponse, Candle } from '../../../../common/types';
 import { BinanceApiService } from '../../shared/binance-api.service';
 
+interface SymbolInfo {
+  symbol: string;
+  pricePrecision: number;
+  quantityPrecision: number;
+}
+
 @Injectable()
 export class BinancePerpetualMarketService {
   private readonly logger = new Logger(BinancePerpetualMarketService.name);
+  private symbolInfoCache: Map<string, SymbolInfo> = new Map();
+  private cacheExpiry: number = 0;
+  private readonly CACHE_DURATION = 3600000; // 1 hour
 
   constructor(private readonly apiService: BinanceApiService) {}
 
+  /**
+   * Get current price for symbol
+   */
+  async getCurrentPrice(symbol: string): Promise<ApiResponse<string>> {
+    try {
+      const response = await this.apiService.getPublic('/fapi/v1/ticker/price', { symbol });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch current price');
+      }
+
+      return {
+        success: true,
+        data: response.data.price || '0',
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting current price:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get current price',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
   /**
    * Get ticker price for a symbol
    */
@@ -112,6 +151,96 @@ export class BinancePerpetualMarketService {
     }
   }
 
+  /**
+   * Get klines/candles
+   */
+  async getCandles(
+    symbol: string,
+    interval: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 500,
+  ): Promise<ApiResponse<Candle[]>> {
+    try {
+      const params: any = { symbol, interval, limit: Math.min(limit, 1500) };
+      if (startTime) params.startTime = startTime;
+      if (endTime) params.endTime = endTime;
+
+      const response = await this.apiService.getPublic<any[]>('/fapi/v1/klines', params);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch candles');
+      }
+
+      const candles: Candle[] = response.data.map((k: any[]) => ({
+        openTime: k[0],
+        open: k[1],
+        high: k[2],
+        low: k[3],
+        close: k[4],
+        volume: k[5],
+        closeTime: k[6],
+      }));
+
+      return {
+        success: true,
+        data: candles,
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting candles:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get candles',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get funding rate history
+   */
+  async getFundingRateHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<FundingRate[]>> {
+    try {
+      const params: any = { symbol };
+      if (startTime) params.startTime = startTime;
+      if (endTime) params.endTime = endTime;
+      if (limit) params.limit = Math.min(limit, 1000);
+
+      const response = await this.apiService.getPublic<any[]>('/fapi/v1/fundingRate', params);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch funding rate history');
+      }
+
+      return {
+        success: true,
+        data: response.data.map(item => ({
+          symbol: item.symbol,
+          fundingRate: item.fundingRate,
+          fundingTime: item.fundingTime,
+        })),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting funding rate history:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get funding rate history',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
   /**
    * Get exchange info
    */
@@ -138,4 +267,100 @@ export class BinancePerpetualMarketService {
       };
     }
   }
+
+  /**
+   * Get leverage brackets (signed /fapi/v1/leverageBracket)
+   */
+  async getMarginTiers(symbol: string): Promise<ApiResponse<MarginTier[]>> {
+    try {
+      const response = await this.apiService.get<any>('/fapi/v1/leverageBracket', { symbol });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get leverage brackets');
+      }
+
+      // One entry per symbol (a bare entry on older API versions)
+      const entry = Array.isArray(response.data)
+        ? response.data.find((item: any) => item.symbol === symbol)
+        : response.data;
+      if (!entry?.brackets) {
+        throw new Error(`No leverage brackets for ${symbol}`);
+      }
+
+      return {
+        success: true,
+        data: entry.brackets.map(
+          (bracket: any): MarginTier => ({
+            floor: Number(bracket.notionalFloor),
+            cap: Number(bracket.notionalCap),
+            basis: 'notional',
+            maxLeverage: Number(bracket.initialLeverage),
+            maintenanceMarginRate: Number(bracket.maintMarginRatio),
+            maintenanceAmount: Number(bracket.cum),
+          }),
+        ),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting leverage brackets:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get leverage brackets',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get symbol precision info (cached from exchange info)
+   */
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo | null> {
+    try {
+      if (this.symbolInfoCache.has(symbol) && Date.now() < this.cacheExpiry) {
+        return this.symbolInfoCache.get(symbol)!;
+      }
+
+      const response = await this.getExchangeInfo();
+      if (!response.success || !response.data?.symbols) {
+        return null;
+      }
+
+      this.cacheExpiry = Date.now() + this.CACHE_DURATION;
+
+      response.data.symbols.forEach((s: any) => {
+        this.symbolInfoCache.set(s.symbol, {
+          symbol: s.symbol,
+          pricePrecision: s.pricePrecision ?? 8,
+          quantityPrecision: s.quantityPrecision ?? 8,
+        });
+      });
+
+      return this.symbolInfoCache.get(symbol) || null;
+    } catch (error: any) {
+      this.logger.error(`Error getting symbol info for ${symbol}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Format price according to symbol precision
+   */
+  async formatPrice(symbol: string, price: number | string): Promise<string> {
+    const info = await this.getSymbolInfo(symbol);
+    const priceNum = typeof price === 'string' ? parseFloat(price) : price;
+
+    return priceNum.toFixed(info ? info.pricePrecision : 8);
+  }
+
+  /**
+   * Format quantity according to symbol precision
+   */
+  async formatQuantity(symbol: string, quantity: number | string): Promise<string> {
+    const info = await this.getSymbolInfo(symbol);
+    const qtyNum = typeof quantity === 'string' ? parseFloat(quantity) : quantity;
+
+    return qtyNum.toFixed(info ? info.quantityPrecision : 8);
+  }
 }
@@ -1,41 +1,68 @@
 import { Injectable, Logger } from '@nestjs/common';
+import {
+  IPerpetualTradingService,
+  PlaceOrderParams,
+  MarketOrderParams,
+  LimitOrderParams,
+  CancelOrderParams,
+  CancelAllAfterResult,
+  ModifyOrderParams,
+  SetLeverageParams,
+  SetPositionModeParams,
+  SetStopLossParams,
+  SetTakeProfitParams,
+  SetTrailingStopParams,
+} from '../../../../common/interfaces';
+import {
+  ApiResponse,
+  Order,
+  OrderSide,
+  OrderType,
+  OrderStatus,
+  TimeInForce,
+  Position,
+  PositionSide,
+} from '../../../../common/types';
+import { batchItemFailure, runBatched, toBatchResponse } from '../../../../common/batch';
 import { BinanceApiService } from '../../shared/binance-api.service';
-import { OrderSide, TimeInForce, PositionSide } from '../../../../common/types/exchange.types';
-import { BinanceOrderResponse } from '../../types';
+import { BinanceOrderResponse, BinancePosition } from '../../types';
+import { BinancePerpetualMarketService } from './perpetual-market.service';
+import { OrderBookManager } from '../../../../common/services/order-book-manager.service';
+
+const CONDITIONAL_ORDER_TYPES = [
+  'STOP',
+  'STOP_MARKET',
+  'TAKE_PROFIT',
+  'TAKE_PROFIT_MARKET',
+  'TRAILING_STOP_MARKET',
+];
+
+// Most orders /fapi/v1/batchOrders accepts per request (POST / DELETE)
+const BATCH_PLACE_SIZE = 5;
+const BATCH_CANCEL_SIZE = 10;
 
 @Injectable()
-export class BinancePerpetualTradingService {
+export class BinancePerpetualTradingService implements IPerpetualTradingService {
   private readonly logger = new Logger(BinancePerpetualTradingService.name);
+  // Symbols with a running countdownCancelAll timer
+  private readonly countdownSymbols = new Set<string>();
 
-  constructor(private readonly apiService: BinanceApiService) {}
+  constructor(
+    private readonly apiService: BinanceApiService,
+    private readonly marketService: BinancePerpetualMarketService,
+    private readonly orderBookManager: OrderBookManager,
+  ) {}
 
   /**
-   * Place a market order
+   * Place a new order - implements interface
    */
-  async placeMarketOrder(params: {
-    symbol: string;
-    side: OrderSide;
-    quantity: number;
-    positionSide?: PositionSide;
-    reduceOnly?: boolean;
-  }): Promise<any> {
+  async placeOrder(params: PlaceOrderParams): Promise<ApiResponse<Order>> {
     try {
-      this.logger.log(`Placing market order: ${params.side} ${params.quantity} ${params.symbol}`);
-
-      const orderParams: any = {
-        symbol: params.symbol,
-        side: params.side,
-        type: 'MARKET',
-        quantity: params.quantity.toString(),
-      };
-
-      if (params.positionSide) {
-        orderParams.positionSide = params.positionSide;
-      }
+      this.logger.log(
+        `Placing ${params.type} ${params.side} order: ${params.quantity} ${params.symbol}`,
+      );
 
-      if (params.reduceOnly) {
-        orderParams.reduceOnly = true;
-      }
+      const orderParams = await this.toBinanceOrderParams(params);
 
       const response = await this.apiService.post<BinanceOrderResponse>(
         '/fapi/v1/order',
@@ -43,94 +70,194 @@ export class BinancePerpetualTradingService {
       );
 
       if (!response.success || !response.data) {
-        throw new Error(response.error || 'Failed to place market order');
+        throw new Error(response.error || 'Failed to place order');
       }
 
       return {
         success: true,
-        data: {
-          orderId: response.data.orderId.toString(),
-          clientOrderId: response.data.clientOrderId,
-          symbol: response.data.symbol,
-          side: response.data.side,
-          type: response.data.type,
-          status: response.data.status,
-          executedQty: parseFloat(response.data.executedQty),
-          avgPrice: parseFloat(response.data.avgPrice),
-          updateTime: response.data.updateTime,
-        },
+        data: this.mapToStandardOrder(response.data),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error placing market order:', error.message);
+      this.logger.error('Error placing order:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to place order',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Place a limit order
+   * Request params of an order, shared by /fapi/v1/order and /fapi/v1/batchOrders
    */
-  async placeLimitOrder(params: {
-    symbol: string;
-    side: OrderSide;
-    quantity: number;
-    price: number;
-    timeInForce?: TimeInForce;
-    positionSide?: PositionSide;
-    reduceOnly?: boolean;
-  }): Promise<any> {
-    try {
-      this.logger.log(
-        `Placing limit order: ${params.side} ${params.quantity} ${params.symbol} @ ${params.price}`,
+  private async toBinanceOrderParams(params: PlaceOrderParams): Promise<Record<string, any>> {
+    const orderParams: any = {
+      symbol: params.symbol,
+      side: params.side,
+      type: this.toBinanceOrderType(params.type),
+      quantity: await this.marketService.formatQuantity(params.symbol, params.quantity),
+    };
+
+    if (params.price) {
+      orderParams.price = await this.marketService.formatPrice(params.symbol, params.price);
+    }
+    if (params.stopPrice) {
+      orderParams.stopPrice = await this.marketService.formatPrice(params.symbol, params.stopPrice);
+    }
+    if (params.activationPrice) {
+      orderParams.activationPrice = await this.marketService.formatPrice(
+        params.symbol,
+        params.activationPrice,
       );
+    }
+    if (params.callbackRate) orderParams.callbackRate = params.callbackRate.toString();
+    if (params.clientOrderId) orderParams.newClientOrderId = params.clientOrderId;
 
-      const orderParams: any = {
-        symbol: params.symbol,
-        side: params.side,
-        type: 'LIMIT',
-        quantity: params.quantity.toString(),
-        price: params.price.toString(),
-        timeInForce: params.timeInForce || TimeInForce.GTC,
+    if (params.type === OrderType.LIMIT || params.type === OrderType.STOP_LIMIT) {
+      orderParams.timeInForce = params.timeInForce || TimeInForce.GTC;
+    }
+
+    // In hedge mode Binance rejects reduceOnly; positionSide carries the intent instead
+    if (params.positionSide && params.positionSide !== PositionSide.BOTH) {
+      orderParams.positionSide = params.positionSide;
+    } else if (params.reduceOnly) {
+      orderParams.reduceOnly = 'true';
+    }
+
+    return orderParams;
+  }
+
+  /**
+   * Place market order
+   */
+  async placeMarketOrder(params: MarketOrderParams): Promise<ApiResponse<Order>> {
+    return this.placeOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: OrderType.MARKET,
+      quantity: params.quantity,
+      clientOrderId: params.clientOrderId,
+      reduceOnly: params.reduceOnly,
+    });
+  }
+
+  /**
+   * Place limit order
+   */
+  async placeLimitOrder(params: LimitOrderParams): Promise<ApiResponse<Order>> {
+    if (!params.price) {
+      return {
+        success: false,
+        error: 'Price is required for limit orders',
+        timestamp: Date.now(),
       };
+    }
 
-      if (params.positionSide) {
-        orderParams.positionSide = params.positionSide;
-      }
+    return this.placeOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: OrderType.LIMIT,
+      quantity: params.quantity,
+      price: params.price,
+      timeInForce: params.timeInForce,
+      clientOrderId: params.clientOrderId,
+      reduceOnly: params.reduceOnly,
+    });
+  }
+
+  /**
+   * Place several orders through /fapi/v1/batchOrders
+   */
+  async placeOrders(orders: PlaceOrderParams[]): Promise<ApiResponse<ApiResponse<Order>[]>> {
+    try {
+      this.logger.log(`Placing ${orders.length} orders in batches of ${BATCH_PLACE_SIZE}`);
+
+      const results = await runBatched(orders, {
+        size: BATCH_PLACE_SIZE,
+        prepare: params => this.toBinanceOrderParams(params),
+        send: async batch => {
+          const response = await this.apiService.post<any[]>('/fapi/v1/batchOrders', {
+            batchOrders: JSON.stringify(batch),
+          });
+          if (!response.success || !response.data) {
+            throw new Error(response.error || 'Failed to place orders');
+          }
+          return response.data.map(item => this.toBatchResult(item));
+        },
+      });
+
+      return toBatchResponse(results, 'binance', 'perpetual');
+    } catch (error: any) {
+      this.logger.error('Error placing orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to place orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
 
-      if (params.reduceOnly) {
-        orderParams.reduceOnly = true;
+  /**
+   * Amend an open LIMIT order in place through PUT /fapi/v1/order, keeping its order ID.
+   * Binance wants side, price and quantity on every amend, so the current order fills in
+   * whatever the request leaves unchanged.
+   */
+  async modifyOrder(params: ModifyOrderParams): Promise<ApiResponse<Order>> {
+    try {
+      if (!params.orderId && !params.clientOrderId) {
+        return {
+          success: false,
+          error: 'Either orderId or clientOrderId is required',
+          timestamp: Date.now(),
+        };
       }
 
-      const response = await this.apiService.post<BinanceOrderResponse>(
-        '/fapi/v1/order',
-        orderParams,
+      this.logger.log(
+        `Amending order ${params.orderId || params.clientOrderId} for ${params.symbol}`,
       );
 
+      const orderRef: any = { symbol: params.symbol };
+      if (params.orderId) orderRef.orderId = params.orderId;
+      else orderRef.origClientOrderId = params.clientOrderId;
+
+      const current = await this.apiService.get<BinanceOrderResponse>('/fapi/v1/order', orderRef);
+      if (!current.success || !current.data) {
+        throw new Error(current.error || 'Failed to get order');
+      }
+
+      const response = await this.apiService.put<BinanceOrderResponse>('/fapi/v1/order', {
+        ...orderRef,
+        side: current.data.side,
+        quantity: await this.marketService.formatQuantity(
+          params.symbol,
+          params.quantity ?? current.data.origQty,
+        ),
+        price: await this.marketService.formatPrice(
+          params.symbol,
+          params.price ?? current.data.price,
+        ),
+      });
+
       if (!response.success || !response.data) {
-        throw new Error(response.error || 'Failed to place limit order');
+        throw new Error(response.error || 'Failed to amend order');
       }
 
       return {
         success: true,
-        data: {
-          orderId: response.data.orderId.toString(),
-          clientOrderId: response.data.clientOrderId,
-          symbol: response.data.symbol,
-          side: response.data.side,
-          type: response.data.type,
-          price: parseFloat(response.data.price),
-          status: response.data.status,
-          executedQty: parseFloat(response.data.executedQty),
-          updateTime: response.data.updateTime,
-        },
+        data: this.mapToStandardOrder(response.data),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error placing limit order:', error.message);
+      this.logger.error('Error amending order:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to amend order',
+        timestamp: Date.now(),
       };
     }
   }
@@ -138,14 +265,28 @@ export class BinancePerpetualTradingService {
   /**
    * Cancel an order
    */
-  async cancelOrder(symbol: string, orderId: string): Promise<any> {
+  async cancelOrder(params: CancelOrderParams): Promise<ApiResponse<any>> {
     try {
-      this.logger.log(`Canceling order ${orderId} for ${symbol}`);
+      if (!params.orderId && !params.clientOrderId) {
+        return {
+          success: false,
+          error: 'Either orderId or clientOrderId is required',
+          timestamp: Date.now(),
+        };
+      }
 
-      const response = await this.apiService.delete('/fapi/v1/order', {
-        symbol,
-        orderId: parseInt(orderId),
-      });
+      this.logger.log(
+        `Canceling order ${params.orderId || params.clientOrderId} for ${params.symbol}`,
+      );
+
+      const cancelParams: any = { symbol: params.symbol };
+      if (params.orderId) cancelParams.orderId = params.orderId;
+      if (params.clientOrderId) cancelParams.origClientOrderId = params.clientOrderId;
+
+      const response = await this.apiService.delete<BinanceOrderResponse>(
+        '/fapi/v1/order',
+        cancelParams,
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.error || 'Failed to cancel order');
@@ -153,17 +294,60 @@ export class BinancePerpetualTradingService {
 
       return {
         success: true,
-        data: {
-          orderId: response.data.orderId.toString(),
-          symbol: response.data.symbol,
-          status: response.data.status,
-        },
+        data: this.mapToStandardOrder(response.data),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
       this.logger.error('Error canceling order:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to cancel order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Cancel several orders through /fapi/v1/batchOrders. Each request covers one symbol and
+   * either order IDs or client order IDs.
+   */
+  async cancelOrders(orders: CancelOrderParams[]): Promise<ApiResponse<ApiResponse<any>[]>> {
+    try {
+      this.logger.log(`Canceling ${orders.length} orders in batches of ${BATCH_CANCEL_SIZE}`);
+
+      const results = await runBatched(orders, {
+        size: BATCH_CANCEL_SIZE,
+        prepare: params => {
+          if (!params.orderId && !params.clientOrderId) {
+            throw new Error('Either orderId or clientOrderId is required');
+          }
+          return params;
+        },
+        groupBy: params => `${params.symbol}:${params.orderId ? 'orderId' : 'clientOrderId'}`,
+        send: async batch => {
+          const cancelParams = batch[0].orderId
+            ? { orderIdList: JSON.stringify(batch.map(params => Number(params.orderId))) }
+            : { origClientOrderIdList: JSON.stringify(batch.map(params => params.clientOrderId)) };
+          const response = await this.apiService.delete<any[]>('/fapi/v1/batchOrders', {
+            symbol: batch[0].symbol,
+            ...cancelParams,
+          });
+          if (!response.success || !response.data) {
+            throw new Error(response.error || 'Failed to cancel orders');
+          }
+          return response.data.map(item => this.toBatchResult(item));
+        },
+      });
+
+      return toBatchResponse(results, 'binance', 'perpetual');
+    } catch (error: any) {
+      this.logger.error('Error canceling orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel orders',
+        timestamp: Date.now(),
       };
     }
   }
@@ -171,8 +355,16 @@ export class BinancePerpetualTradingService {
   /**
    * Cancel all orders for a symbol
    */
-  async cancelAllOrders(symbol: string): Promise<any> {
+  async cancelAllOrders(symbol?: string): Promise<ApiResponse<any>> {
     try {
+      if (!symbol) {
+        return {
+          success: false,
+          error: 'Symbol is required for cancelling all orders',
+          timestamp: Date.now(),
+        };
+      }
+
       this.logger.log(`Canceling all orders for ${symbol}`);
 
       const response = await this.apiService.delete('/fapi/v1/allOpenOrders', { symbol });
@@ -183,56 +375,67 @@ export class BinancePerpetualTradingService {
 
       return {
         success: true,
-        data: {
-          code: 200,
-          msg: 'All orders canceled successfully',
-        },
+        data: response.data,
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
       this.logger.error('Error canceling all orders:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to cancel all orders',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Get order status
+   * Arm /fapi/v1/countdownCancelAll, which runs per symbol: on every symbol with open orders
+   * and on those already counting down, so they all share one deadline
    */
-  async getOrderStatus(symbol: string, orderId: string): Promise<any> {
+  async cancelAllAfter(timeoutMs: number): Promise<ApiResponse<CancelAllAfterResult>> {
     try {
-      this.logger.log(`Getting order status for ${orderId}`);
+      const openOrders = await this.getOpenOrders();
+      if (!openOrders.success) {
+        throw new Error(openOrders.error || 'Failed to get open orders');
+      }
 
-      const response = await this.apiService.get<BinanceOrderResponse>('/fapi/v1/order', {
-        symbol,
-        orderId: parseInt(orderId),
-      });
+      const symbols = [
+        ...new Set([...this.countdownSymbols, ...openOrders.data.map(order => order.symbol)]),
+      ];
+      this.logger.log(
+        `Setting cancel-all countdown of ${timeoutMs}ms on ${symbols.length} symbols`,
+      );
 
-      if (!response.success || !response.data) {
-        throw new Error(response.error || 'Failed to get order status');
+      for (const symbol of symbols) {
+        const response = await this.apiService.post('/fapi/v1/countdownCancelAll', {
+          symbol,
+          countdownTime: timeoutMs,
+        });
+        if (!response.success) {
+          throw new Error(response.error || `Failed to set cancel-all countdown on ${symbol}`);
+        }
+        if (timeoutMs > 0) {
+          this.countdownSymbols.add(symbol);
+        } else {
+          this.countdownSymbols.delete(symbol);
+        }
       }
 
       return {
         success: true,
-        data: {
-          orderId: response.data.orderId.toString(),
-          symbol: response.data.symbol,
-          status: response.data.status,
-          side: response.data.side,
-          type: response.data.type,
-          price: parseFloat(response.data.price),
-          avgPrice: parseFloat(response.data.avgPrice),
-          executedQty: parseFloat(response.data.executedQty),
-          origQty: parseFloat(response.data.origQty),
-          updateTime: response.data.updateTime,
-        },
+        data: { cancelAt: timeoutMs > 0 ? Date.now() + timeoutMs : undefined, symbols },
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error getting order status:', error.message);
+      this.logger.error('Error setting cancel-all countdown:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to set cancel-all countdown',
+        timestamp: Date.now(),
       };
     }
   }
@@ -240,12 +443,13 @@ export class BinancePerpetualTradingService {
   /**
    * Get open orders
    */
-  async getOpenOrders(symbol?: string): Promise<any> {
+  async getOpenOrders(symbol?: string): Promise<ApiResponse<Order[]>> {
     try {
-      this.logger.log('Fetching open orders...');
-
       const params = symbol ? { symbol } : {};
-      const response = await this.apiService.get('/fapi/v1/openOrders', params);
+      const response = await this.apiService.get<BinanceOrderResponse[]>(
+        '/fapi/v1/openOrders',
+        params,
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.error || 'Failed to get open orders');
@@ -253,271 +457,804 @@ export class BinancePerpetualTradingService {
 
       return {
         success: true,
-        data: response.data.map((order: BinanceOrderResponse) => ({
-          orderId: order.orderId.toString(),
-          symbol: order.symbol,
-          status: order.status,
-          side: order.side,
-          type: order.type,
-          price: parseFloat(order.price),
-          avgPrice: parseFloat(order.avgPrice),
-          executedQty: parseFloat(order.executedQty),
-          origQty: parseFloat(order.origQty),
-          updateTime: order.updateTime,
-        })),
+        data: response.data.map(order => this.mapToStandardOrder(order)),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
       this.logger.error('Error getting open orders:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to get open orders',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Set leverage for a symbol
+   * Get order details
    */
-  async setLeverage(symbol: string, leverage: number): Promise<any> {
+  async getOrder(symbol: string, orderId: string): Promise<ApiResponse<Order>> {
     try {
-      this.logger.log(`Setting leverage to ${leverage}x for ${symbol}`);
-
-      const response = await this.apiService.post('/fapi/v1/leverage', {
+      const response = await this.apiService.get<BinanceOrderResponse>('/fapi/v1/order', {
         symbol,
-        leverage,
+        orderId,
       });
 
       if (!response.success || !response.data) {
-        throw new Error(response.error || 'Failed to set leverage');
+        throw new Error(response.error || 'Failed to get order');
       }
 
       return {
         success: true,
-        data: {
-          leverage: response.data.leverage,
-          symbol: response.data.symbol,
-          maxNotionalValue: response.data.maxNotionalValue,
-        },
+        data: this.mapToStandardOrder(response.data),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error setting leverage:', error.message);
+      this.logger.error('Error getting order:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to get order',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Set margin type (ISOLATED or CROSS)
+   * Get order details by client order ID
    */
-  async setMarginType(symbol: string, marginType: 'ISOLATED' | 'CROSSED'): Promise<any> {
+  async getOrderByClientId(
+    symbol: string,
+    clientOrderId: string,
+  ): Promise<ApiResponse<Order | null>> {
     try {
-      this.logger.log(`Setting margin type to ${marginType} for ${symbol}`);
-
-      const response = await this.apiService.post('/fapi/v1/marginType', {
+      const response = await this.apiService.get<BinanceOrderResponse>('/fapi/v1/order', {
         symbol,
-        marginType,
+        origClientOrderId: clientOrderId,
       });
 
-      if (!response.success) {
-        throw new Error(response.error || 'Failed to set margin type');
+      // -2013: Order does not exist
+      if (!response.success && response.code === -2013) {
+        return {
+          success: true,
+          data: null,
+          timestamp: Date.now(),
+          exchange: 'binance',
+          tradingType: 'perpetual',
+        };
+      }
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get order');
       }
 
       return {
         success: true,
-        data: {
-          code: 200,
-          msg: 'success',
-        },
+        data: this.mapToStandardOrder(response.data),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error setting margin type:', error.message);
+      this.logger.error('Error getting order by client ID:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to get order',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Quick long by USD value with required TP/SL/leverage
+   * Quick market buy
    */
-  async quickLong(
-    symbol: string,
-    usdValue: number,
-    stopLossPercent: number,
-    takeProfitPercent: number,
-    leverage: number,
-  ): Promise<any> {
-    try {
-      // 1. Set leverage first
-      this.logger.log(`Setting leverage ${leverage}x for ${symbol}`);
-      await this.setLeverage(symbol, leverage);
-
-      // 2. Get current price
-      const priceData = await this.apiService.get('/fapi/v1/ticker/price', { symbol });
-      if (!priceData.success || !priceData.data) {
-        return {
-          success: false,
-          error: 'Failed to get current price',
-          timestamp: Date.now(),
-        };
-      }
+  async marketBuy(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.BUY, quantity });
+  }
 
-      const currentPrice = parseFloat(priceData.data.price);
+  /**
+   * Quick market sell
+   */
+  async marketSell(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.SELL, quantity });
+  }
 
-      // 3. Calculate quantity
-      const quantity = parseFloat(((usdValue * leverage) / currentPrice).toFixed(3));
+  /**
+   * Quick limit buy
+   */
+  async limitBuy(symbol: string, quantity: string, price: string): Promise<ApiResponse<Order>> {
+    return this.placeLimitOrder({
+      symbol,
+      side: OrderSide.BUY,
+      quantity,
+      price,
+      timeInForce: TimeInForce.GTC,
+    });
+  }
 
-      this.logger.log(`Opening long position: ${quantity} ${symbol} @ $${currentPrice}`);
+  /**
+   * Quick limit sell
+   */
+  async limitSell(symbol: string, quantity: string, price: string): Promise<ApiResponse<Order>> {
+    return this.placeLimitOrder({
+      symbol,
+      side: OrderSide.SELL,
+      quantity,
+      price,
+      timeInForce: TimeInForce.GTC,
+    });
+  }
 
-      // 4. Place entry market order (without positionSide for One-Way mode)
-      const mainOrder = await this.placeMarketOrder({
-        symbol,
-        side: OrderSide.BUY,
-        quantity,
-      });
+  // ==================== Futures-specific methods ====================
 
-      if (!mainOrder.success) {
-        this.logger.error('Failed to place entry order:', mainOrder.error);
-        return mainOrder;
+  /**
+   * Get current positions (non-zero only)
+   */
+  async getPositions(symbol?: string): Promise<ApiResponse<Position | Position[]>> {
+    try {
+      const rawPositions = await this.fetchPositionRisk(symbol);
+      const positions = rawPositions
+        .filter(p => parseFloat(p.positionAmt) !== 0)
+        .map(p => this.mapToStandardPosition(p));
+
+      if (symbol) {
+        const position = positions.find(p => p.symbol === symbol);
+        if (!position) {
+          return {
+            success: false,
+            error: `Position not found for ${symbol}`,
+            timestamp: Date.now(),
+          };
+        }
+        return {
+          success: true,
+          data: position,
+          timestamp: Date.now(),
+          exchange: 'binance',
+          tradingType: 'perpetual',
+        };
       }
 
-      this.logger.log(`Entry order placed successfully: ${JSON.stringify(mainOrder.data)}`);
-
-      // 5. Calculate SL/TP prices (2 decimals for USD pairs)
-      const stopLossPrice = parseFloat((currentPrice * (1 - stopLossPercent / 100)).toFixed(2));
-      const takeProfitPrice = parseFloat((currentPrice * (1 + takeProfitPercent / 100)).toFixed(2));
-
-      this.logger.log(`Placing TP @ ${takeProfitPrice} and SL @ ${stopLossPrice}`);
-
-      // 6. Place Stop Loss order (STOP_MARKET)
-      const stopLossOrder = await this.apiService.post('/fapi/v1/order', {
-        symbol,
-        side: OrderSide.SELL,
-        type: 'STOP_MARKET',
-        stopPrice: stopLossPrice.toString(),
-        closePosition: 'true',
-      });
-
-      // 7. Place Take Profit order (TAKE_PROFIT_MARKET)
-      const takeProfitOrder = await this.apiService.post('/fapi/v1/order', {
-        symbol,
-        side: OrderSide.SELL,
-        type: 'TAKE_PROFIT_MARKET',
-        stopPrice: takeProfitPrice.toString(),
-        closePosition: 'true',
-      });
-
-      this.logger.log('Quick long completed successfully');
-
       return {
         success: true,
-        data: {
-          mainOrder,
-          stopLoss: stopLossOrder,
-          takeProfit: takeProfitOrder,
-          quantity,
-          entryPrice: currentPrice,
-          stopLossPrice,
-          takeProfitPrice,
-        },
+        data: positions,
         timestamp: Date.now(),
         exchange: 'binance',
         tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error in quick long:', error);
+      this.logger.error('Error getting positions:', error.message);
       return {
         success: false,
-        error: error.message || 'Failed to execute quick long',
+        error: error.message || 'Failed to get positions',
         timestamp: Date.now(),
-        exchange: 'binance',
-        tradingType: 'perpetual',
       };
     }
   }
 
   /**
-   * Quick short by USD value with required TP/SL/leverage
+   * Close position (with TP/SL cleanup)
    */
-  async quickShort(
-    symbol: string,
-    usdValue: number,
-    stopLossPercent: number,
-    takeProfitPercent: number,
-    leverage: number,
-  ): Promise<any> {
+  async closePosition(symbol: string, positionSide?: PositionSide): Promise<ApiResponse<Order>> {
     try {
-      // 1. Set leverage first
-      this.logger.log(`Setting leverage ${leverage}x for ${symbol}`);
-      await this.setLeverage(symbol, leverage);
+      const rawPositions = (await this.fetchPositionRisk(symbol)).filter(
+        p =>
+          p.symbol === symbol &&
+          parseFloat(p.positionAmt) !== 0 &&
+          (!positionSide || this.mapToStandardPosition(p).side === positionSide),
+      );
 
-      // 2. Get current price
-      const priceData = await this.apiService.get('/fapi/v1/ticker/price', { symbol });
-      if (!priceData.success || !priceData.data) {
+      if (rawPositions.length === 0) {
         return {
           success: false,
-          error: 'Failed to get current price',
+          error: 'No open position found for this symbol',
           timestamp: Date.now(),
         };
       }
 
-      const currentPrice = parseFloat(priceData.data.price);
+      const position = rawPositions[0];
+      const positionAmt = parseFloat(position.positionAmt);
 
-      // 3. Calculate quantity
-      const quantity = parseFloat(((usdValue * leverage) / currentPrice).toFixed(3));
+      // Cancel TP/SL first so they cannot fire against a flat position
+      await this.cancelConditionalOrders(symbol);
 
-      this.logger.log(`Opening short position: ${quantity} ${symbol} @ $${currentPrice}`);
+      this.logger.log(`Closing ${position.positionSide} position for ${symbol}: ${positionAmt}`);
 
-      // 4. Place entry market order (without positionSide for One-Way mode)
-      const mainOrder = await this.placeMarketOrder({
+      return this.placeOrder({
         symbol,
-        side: OrderSide.SELL,
-        quantity,
+        side: positionAmt > 0 ? OrderSide.SELL : OrderSide.BUY,
+        type: OrderType.MARKET,
+        quantity: Math.abs(positionAmt).toString(),
+        reduceOnly: true,
+        positionSide: position.positionSide as PositionSide,
       });
+    } catch (error: any) {
+      this.logger.error('Error closing position:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to close position',
+        timestamp: Date.now(),
+      };
+    }
+  }
 
-      if (!mainOrder.success) {
-        this.logger.error('Failed to place entry order:', mainOrder.error);
-        return mainOrder;
-      }
-
-      this.logger.log(`Entry order placed successfully: ${JSON.stringify(mainOrder.data)}`);
+  /**
+   * Close all positions
+   */
+  async closeAllPositions(): Promise<ApiResponse<Order[]>> {
+    try {
+      const rawPositions = (await this.fetchPositionRisk()).filter(
+        p => parseFloat(p.positionAmt) !== 0,
+      );
 
-      // 5. Calculate SL/TP prices (SHORT: SL higher, TP lower)
-      const stopLossPrice = parseFloat((currentPrice * (1 + stopLossPercent / 100)).toFixed(2));
-      const takeProfitPrice = parseFloat((currentPrice * (1 - takeProfitPercent / 100)).toFixed(2));
+      const orders: Order[] = [];
+      const errors: string[] = [];
+
+      for (const position of rawPositions) {
+        const result = await this.closePosition(
+          position.symbol,
+          this.mapToStandardPosition(position).side,
+        );
+        if (result.success && result.data) {
+          orders.push(result.data);
+        } else {
+          errors.push(`${position.symbol}: ${result.error}`);
+        }
+      }
 
-      this.logger.log(`Placing TP @ ${takeProfitPrice} and SL @ ${stopLossPrice}`);
+      if (errors.length > 0 && orders.length === 0) {
+        return {
+          success: false,
+          error: errors.join('; '),
+          timestamp: Date.now(),
+        };
+      }
+
+      return {
+        success: true,
+        data: orders,
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error closing all positions:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to close all positions',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Set leverage for symbol
+   */
+  async setLeverage(
+    params: SetLeverageParams,
+  ): Promise<ApiResponse<{ leverage: number; symbol: string }>> {
+    try {
+      this.logger.log(`Setting leverage to ${params.leverage}x for ${params.symbol}`);
+
+      const response = await this.apiService.post('/fapi/v1/leverage', {
+        symbol: params.symbol,
+        leverage: params.leverage,
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to set leverage');
+      }
+
+      return {
+        success: true,
+        data: {
+          leverage: response.data.leverage,
+          symbol: response.data.symbol,
+        },
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error setting leverage:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to set leverage',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get current leverage for symbol
+   */
+  async getLeverage(symbol: string): Promise<ApiResponse<number>> {
+    try {
+      // positionRisk returns leverage even when the position is flat
+      const rawPositions = await this.fetchPositionRisk(symbol);
+      const position = rawPositions.find(p => p.symbol === symbol);
+
+      if (!position) {
+        throw new Error(`No leverage info for ${symbol}`);
+      }
+
+      return {
+        success: true,
+        data: parseInt(position.leverage, 10),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting leverage:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get leverage',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Set margin type (ISOLATED or CROSSED)
+   */
+  async setMarginType(symbol: string, marginType: 'ISOLATED' | 'CROSSED'): Promise<ApiResponse> {
+    try {
+      this.logger.log(`Setting margin type to ${marginType} for ${symbol}`);
+
+      const response = await this.apiService.post('/fapi/v1/marginType', {
+        symbol,
+        marginType,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to set margin type');
+      }
+
+      return {
+        success: true,
+        data: response.data,
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error setting margin type:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to set margin type',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Set position mode (one-way or hedge mode)
+   */
+  async setPositionMode(params: SetPositionModeParams): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.apiService.post('/fapi/v1/positionSide/dual', {
+        dualSidePosition: params.dualSidePosition ? 'true' : 'false',
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to set position mode');
+      }
+
+      return {
+        success: true,
+        data: { dualSidePosition: params.dualSidePosition },
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error setting position mode:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to set position mode',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get current position mode
+   */
+  async getPositionMode(): Promise<ApiResponse<{ dualSidePosition: boolean }>> {
+    try {
+      const response = await this.apiService.get<{ dualSidePosition: boolean }>(
+        '/fapi/v1/positionSide/dual',
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get position mode');
+      }
+
+      return {
+        success: true,
+        data: { dualSidePosition: String(response.data.dualSidePosition) === 'true' },
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting position mode:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get position mode',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Set stop loss for position
+   */
+  async setStopLoss(params: SetStopLossParams): Promise<ApiResponse<Order>> {
+    return this.placeConditionalOrder(
+      params.symbol,
+      OrderType.STOP_MARKET,
+      { stopPrice: params.stopPrice },
+      params.quantity,
+      params.side,
+    );
+  }
+
+  /**
+   * Set take profit for position
+   */
+  async setTakeProfit(params: SetTakeProfitParams): Promise<ApiResponse<Order>> {
+    return this.placeConditionalOrder(
+      params.symbol,
+      OrderType.TAKE_PROFIT_MARKET,
+      { stopPrice: params.takeProfitPrice },
+      params.quantity,
+      params.side,
+    );
+  }
+
+  /**
+   * Set trailing stop for position (native TRAILING_STOP_MARKET)
+   */
+  async setTrailingStop(params: SetTrailingStopParams): Promise<ApiResponse<Order>> {
+    return this.placeConditionalOrder(
+      params.symbol,
+      OrderType.TRAILING_STOP,
+      { callbackRate: params.callbackRate, activationPrice: params.activationPrice },
+      params.quantity,
+      params.side,
+    );
+  }
+
+  /**
+   * Cancel all stop loss and take profit orders for symbol
+   */
+  async cancelAllConditionalOrders(symbol: string): Promise<ApiResponse<any>> {
+    try {
+      const cancelled = await this.cancelConditionalOrders(symbol);
+
+      return {
+        success: true,
+        data: { symbol, cancelled },
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error cancelling conditional orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel conditional orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get funding rate (premium index carries the current rate)
+   */
+  async getFundingRate(symbol?: string): Promise<ApiResponse<any>> {
+    try {
+      const params = symbol ? { symbol } : {};
+      const response = await this.apiService.getPublic('/fapi/v1/premiumIndex', params);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get funding rate');
+      }
+
+      const mapFundingRate = (item: any) => ({
+        symbol: item.symbol,
+        fundingRate: item.lastFundingRate,
+        fundingTime: item.time,
+        nextFundingTime: item.nextFundingTime,
+        markPrice: item.markPrice,
+      });
+
+      return {
+        success: true,
+        data: Array.isArray(response.data)
+          ? response.data.map(mapFundingRate)
+          : mapFundingRate(response.data),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting funding rate:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get funding rate',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get funding history
+   */
+  async getFundingHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<any[]>> {
+    try {
+      const params: any = { symbol };
+      if (startTime) params.startTime = startTime;
+      if (endTime) params.endTime = endTime;
+      if (limit) params.limit = limit;
+
+      const response = await this.apiService.getPublic<any[]>('/fapi/v1/fundingRate', params);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get funding history');
+      }
+
+      return {
+        success: true,
+        data: response.data.map(item => ({
+          symbol: item.symbol,
+          fundingRate: item.fundingRate,
+          fundingTime: item.fundingTime,
+          markPrice: item.markPrice,
+        })),
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting funding history:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get funding history',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get position risk (margin ratio, liquidation price, etc.)
+   */
+  async getPositionRisk(symbol?: string): Promise<ApiResponse<any>> {
+    try {
+      const rawPositions = await this.fetchPositionRisk(symbol);
+
+      return {
+        success: true,
+        data: rawPositions,
+        timestamp: Date.now(),
+        exchange: 'binance',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting position risk:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get position risk',
+        timestamp: Date.now(),
+      };
+    }
+  }
 
-      // 6. Place Stop Loss order (STOP_MARKET) - SHORT: buy back to close
-      const stopLossOrder = await this.apiService.post('/fapi/v1/order', {
+  /**
+   * Open long position with market order
+   */
+  async openLong(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placePositionOrder(symbol, PositionSide.LONG, quantity, false);
+  }
+
+  /**
+   * Open short position with market order
+   */
+  async openShort(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placePositionOrder(symbol, PositionSide.SHORT, quantity, false);
+  }
+
+  /**
+   * Close long position
+   */
+  async closeLong(symbol: string, quantity?: string): Promise<ApiResponse<Order>> {
+    if (!quantity) {
+      return this.closePosition(symbol, PositionSide.LONG);
+    }
+
+    return this.placePositionOrder(symbol, PositionSide.LONG, quantity, true);
+  }
+
+  /**
+   * Close short position
+   */
+  async closeShort(symbol: string, quantity?: string): Promise<ApiResponse<Order>> {
+    if (!quantity) {
+      return this.closePosition(symbol, PositionSide.SHORT);
+    }
+
+    return this.placePositionOrder(symbol, PositionSide.SHORT, quantity, true);
+  }
+
+  /**
+   * Market order opening or reducing the long or short side, with the positionSide hedge mode
+   * requires
+   */
+  private async placePositionOrder(
+    symbol: string,
+    positionSide: PositionSide.LONG | PositionSide.SHORT,
+    quantity: string,
+    reduceOnly: boolean,
+  ): Promise<ApiResponse<Order>> {
+    try {
+      return this.placeOrder({
         symbol,
-        side: OrderSide.BUY,
-        type: 'STOP_MARKET',
-        stopPrice: stopLossPrice.toString(),
-        closePosition: 'true',
+        side: (positionSide === PositionSide.LONG) !== reduceOnly ? OrderSide.BUY : OrderSide.SELL,
+        type: OrderType.MARKET,
+        quantity,
+        reduceOnly,
+        positionSide: (await this.isHedgeMode()) ? positionSide : undefined,
       });
+    } catch (error: any) {
+      this.logger.error('Error placing market order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to place order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Quick long by USD value with required TP/SL/leverage
+   */
+  async quickLong(
+    symbol: string,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    return this.quickOpen(
+      symbol,
+      OrderSide.BUY,
+      usdValue,
+      stopLossPercent,
+      takeProfitPercent,
+      leverage,
+    );
+  }
+
+  /**
+   * Quick short by USD value with required TP/SL/leverage
+   */
+  async quickShort(
+    symbol: string,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    return this.quickOpen(
+      symbol,
+      OrderSide.SELL,
+      usdValue,
+      stopLossPercent,
+      takeProfitPercent,
+      leverage,
+    );
+  }
+
+  /**
+   * Open a market position and attach closePosition TP/SL orders
+   */
+  private async quickOpen(
+    symbol: string,
+    side: OrderSide,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    const label = side === OrderSide.BUY ? 'long' : 'short';
+
+    try {
+      // 1. Set leverage first
+      const leverageResp = await this.setLeverage({ symbol, leverage });
+      if (!leverageResp.success) {
+        return leverageResp;
+      }
+
+      // 2. Get current price (local order book mid when synced, otherwise REST)
+      let currentPrice = this.orderBookManager.getMidPrice('binance', symbol);
+      if (currentPrice === undefined) {
+        const priceResponse = await this.marketService.getCurrentPrice(symbol);
+        if (!priceResponse.success || !priceResponse.data) {
+          return priceResponse;
+        }
+        currentPrice = parseFloat(priceResponse.data);
+      }
+
+      const quantity = ((usdValue * leverage) / currentPrice).toString();
+      const positionSide = (await this.isHedgeMode())
+        ? side === OrderSide.BUY
+          ? PositionSide.LONG
+          : PositionSide.SHORT
+        : undefined;
+
+      this.logger.log(`Opening ${label} position: ${quantity} ${symbol} @ $${currentPrice}`);
 
-      // 7. Place Take Profit order (TAKE_PROFIT_MARKET)
-      const takeProfitOrder = await this.apiService.post('/fapi/v1/order', {
+      // 3. Place entry market order (positionSide only in hedge mode)
+      const mainOrder = await this.placeOrder({
         symbol,
-        side: OrderSide.BUY,
-        type: 'TAKE_PROFIT_MARKET',
-        stopPrice: takeProfitPrice.toString(),
-        closePosition: 'true',
+        side,
+        type: OrderType.MARKET,
+        quantity,
+        positionSide,
       });
+      if (!mainOrder.success) {
+        this.logger.error('Failed to place entry order:', mainOrder.error);
+        return mainOrder;
+      }
+
+      // 4. Calculate SL/TP prices (LONG: SL below, TP above; SHORT: the reverse)
+      const direction = side === OrderSide.BUY ? 1 : -1;
+      const stopLossPrice = await this.marketService.formatPrice(
+        symbol,
+        currentPrice * (1 - (direction * stopLossPercent) / 100),
+      );
+      const takeProfitPrice = await this.marketService.formatPrice(
+        symbol,
+        currentPrice * (1 + (direction * takeProfitPercent) / 100),
+      );
 
-      this.logger.log('Quick short completed successfully');
+      this.logger.log(`Placing TP @ ${takeProfitPrice} and SL @ ${stopLossPrice}`);
+
+      // 5. Place SL/TP with closePosition=true so they close whatever is left
+      const closeSide = this.getOppositeSide(side);
+      const stopLoss = await this.placeClosePositionOrder(
+        symbol,
+        closeSide,
+        OrderType.STOP_MARKET,
+        stopLossPrice,
+        positionSide,
+      );
+      const takeProfit = await this.placeClosePositionOrder(
+        symbol,
+        closeSide,
+        OrderType.TAKE_PROFIT_MARKET,
+        takeProfitPrice,
+        positionSide,
+      );
+
+      this.logger.log(`Quick ${label} completed successfully`);
 
       return {
         success: true,
         data: {
           mainOrder,
-          stopLoss: stopLossOrder,
-          takeProfit: takeProfitOrder,
-          quantity,
+          stopLoss,
+          takeProfit,
+          quantity: mainOrder.data?.quantity,
           entryPrice: currentPrice,
           stopLossPrice,
           takeProfitPrice,
@@ -527,14 +1264,274 @@ export class BinancePerpetualTradingService {
         tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error in quick short:', error);
+      this.logger.error(`Error in quick ${label}:`, error.message);
       return {
         success: false,
-        error: error.message || 'Failed to execute quick short',
+        error: error.message || `Failed to execute quick ${label}`,
         timestamp: Date.now(),
         exchange: 'binance',
         tradingType: 'perpetual',
       };
     }
   }
+
+  /**
+   * Place STOP_MARKET / TAKE_PROFIT_MARKET that closes the entire position
+   */
+  private async placeClosePositionOrder(
+    symbol: string,
+    side: OrderSide,
+    type: OrderType.STOP_MARKET | OrderType.TAKE_PROFIT_MARKET,
+    stopPrice: string,
+    positionSide?: PositionSide,
+  ): Promise<ApiResponse<Order>> {
+    const response = await this.apiService.post<BinanceOrderResponse>('/fapi/v1/order', {
+      symbol,
+      side,
+      type,
+      stopPrice,
+      closePosition: 'true',
+      workingType: 'MARK_PRICE',
+      ...(positionSide && { positionSide }),
+    });
+
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        error: response.error || `Failed to place ${type} order`,
+        timestamp: Date.now(),
+      };
+    }
+
+    return {
+      success: true,
+      data: this.mapToStandardOrder(response.data),
+      timestamp: Date.now(),
+      exchange: 'binance',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Place a reduce-only conditional order sized from the current position if needed.
+   *
+   * In hedge mode the order carries the positionSide of the leg it closes: the one opposite
+   * to `side`, else the only open leg (with both legs open, `side` has to pick one).
+   */
+  private async placeConditionalOrder(
+    symbol: string,
+    type: OrderType.STOP_MARKET | OrderType.TAKE_PROFIT_MARKET | OrderType.TRAILING_STOP,
+    trigger: Pick<PlaceOrderParams, 'stopPrice' | 'callbackRate' | 'activationPrice'>,
+    quantity?: string,
+    side?: 'BUY' | 'SELL',
+  ): Promise<ApiResponse<Order>> {
+    try {
+      const hedgeMode = await this.isHedgeMode();
+      let closeSide = side as OrderSide;
+      let closeQuantity = quantity;
+      let positionSide = closeSide
+        ? closeSide === OrderSide.SELL
+          ? PositionSide.LONG
+          : PositionSide.SHORT
+        : undefined;
+
+      if (!closeSide || !closeQuantity) {
+        const positions = (await this.fetchPositionRisk(symbol))
+          .filter(p => p.symbol === symbol && parseFloat(p.positionAmt) !== 0)
+          .map(p => this.mapToStandardPosition(p))
+          .filter(p => !positionSide || p.side === positionSide);
+
+        if (positions.length === 0) {
+          return {
+            success: false,
+            error: `No open position found for ${symbol}`,
+            timestamp: Date.now(),
+          };
+        }
+        if (positions.length > 1) {
+          return {
+            success: false,
+            error: `Both long and short positions are open for ${symbol}; pass side to pick one`,
+            timestamp: Date.now(),
+          };
+        }
+
+        positionSide = positions[0].side;
+        closeSide =
+          closeSide || (positionSide === PositionSide.LONG ? OrderSide.SELL : OrderSide.BUY);
+        closeQuantity = closeQuantity || positions[0].size;
+      }
+
+      return this.placeOrder({
+        symbol,
+        side: closeSide,
+        type,
+        quantity: closeQuantity,
+        ...trigger,
+        reduceOnly: true,
+        positionSide: hedgeMode ? positionSide : undefined,
+      });
+    } catch (error: any) {
+      this.logger.error(`Error placing ${type} order:`, error.message);
+      return {
+        success: false,
+        error: error.message || `Failed to place ${type} order`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Cancel only conditional orders (STOP/TAKE_PROFIT/TRAILING stops) for a symbol
+   */
+  private async cancelConditionalOrders(symbol: string): Promise<string[]> {
+    const response = await this.apiService.get<BinanceOrderResponse[]>('/fapi/v1/openOrders', {
+      symbol,
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to get open orders');
+    }
+
+    const cancelled: string[] = [];
+    for (const order of response.data) {
+      if (!CONDITIONAL_ORDER_TYPES.includes(order.type)) continue;
+
+      const result = await this.apiService.delete('/fapi/v1/order', {
+        symbol,
+        orderId: order.orderId,
+      });
+
+      if (result.success) {
+        cancelled.push(order.orderId.toString());
+      } else {
+        this.logger.warn(`Failed to cancel conditional order ${order.orderId}: ${result.error}`);
+      }
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Whether the account is in hedge (dual-side) position mode
+   */
+  private async isHedgeMode(): Promise<boolean> {
+    const mode = await this.getPositionMode();
+    if (!mode.success || !mode.data) {
+      throw new Error(mode.error || 'Failed to get position mode');
+    }
+    return mode.data.dualSidePosition;
+  }
+
+  /**
+   * Fetch raw position risk entries
+   */
+  private async fetchPositionRisk(symbol?: string): Promise<BinancePosition[]> {
+    const params = symbol ? { symbol } : {};
+    const response = await this.apiService.get<BinancePosition[]>('/fapi/v2/positionRisk', params);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch positions');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Helper: Get opposite order side
+   */
+  private getOppositeSide(side: OrderSide): OrderSide {
+    return side === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY;
+  }
+
+  /**
+   * Map unified order type to Binance order type
+   */
+  private toBinanceOrderType(type: OrderType): string {
+    switch (type) {
+      case OrderType.STOP_LIMIT:
+        return 'STOP';
+      case OrderType.TRAILING_STOP:
+        return 'TRAILING_STOP_MARKET';
+      default:
+        return type;
+    }
+  }
+
+  /**
+   * Map Binance position risk entry to standard Position format
+   */
+  private mapToStandardPosition(position: BinancePosition): Position {
+    const positionAmt = parseFloat(position.positionAmt);
+    let side: PositionSide;
+    if (
+      position.positionSide === PositionSide.LONG ||
+      position.positionSide === PositionSide.SHORT
+    ) {
+      side = position.positionSide as PositionSide;
+    } else {
+      side =
+        positionAmt > 0
+          ? PositionSide.LONG
+          : positionAmt < 0
+            ? PositionSide.SHORT
+            : PositionSide.BOTH;
+    }
+
+    return {
+      symbol: position.symbol,
+      side,
+      size: Math.abs(positionAmt).toString(),
+      entryPrice: position.entryPrice || '0',
+      markPrice: position.markPrice,
+      liquidationPrice: position.liquidationPrice,
+      unrealizedPnl: position.unRealizedProfit || '0',
+      leverage: parseFloat(position.leverage) || 1,
+      marginType: position.marginType === 'isolated' ? 'isolated' : 'cross',
+    };
+  }
+
+  /**
+   * Map Binance response to standard Order format
+   */
+  private mapToStandardOrder(binanceOrder: BinanceOrderResponse): Order {
+    const quantity = binanceOrder.origQty || '0';
+    const executedQuantity = binanceOrder.executedQty || '0';
+    const price =
+      parseFloat(binanceOrder.avgPrice || '0') > 0 ? binanceOrder.avgPrice : binanceOrder.price;
+
+    return {
+      orderId: binanceOrder.orderId?.toString() || '',
+      clientOrderId: binanceOrder.clientOrderId,
+      symbol: binanceOrder.symbol,
+      side: binanceOrder.side as OrderSide,
+      type: (binanceOrder.origType || binanceOrder.type) as OrderType,
+      status: binanceOrder.status as OrderStatus,
+      price: price || '0',
+      quantity,
+      executedQuantity,
+      remainingQuantity: (parseFloat(quantity) - parseFloat(executedQuantity)).toString(),
+      timestamp: binanceOrder.updateTime || Date.now(),
+      updateTime: binanceOrder.updateTime,
+    };
+  }
+
+  /**
+   * Map one entry of a batchOrders response (an order, or { code, msg } when it was rejected)
+   */
+  private toBatchResult(item: any): ApiResponse<Order> {
+    if (item?.orderId === undefined) {
+      return batchItemFailure(
+        item?.msg ? `${item.msg} (code: ${item.code})` : 'Order rejected by Binance',
+      );
+    }
+
+    return {
+      success: true,
+      data: this.mapToStandardOrder(item),
+      timestamp: Date.now(),
+      exchange: 'binance',
+      tradingType: 'perpetual',
+    };
+  }
 }
@@ -3,6 +3,8 @@ import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance } from 'axios';
 import * as crypto from 'crypto';
 import { BinanceConfig } from '../../../config/binance.config';
+import { RateLimiterService } from '../../../common/services/rate-limiter.service';
+import { CircuitBreakerService } from '../../../common/services/circuit-breaker.service';
 import { BinanceApiResponse } from '../types';
 
 @Injectable()
@@ -12,7 +14,11 @@ export class BinanceApiService {
   private readonly baseURL: string;
   private readonly binanceConfig: BinanceConfig;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private rateLimiter: RateLimiterService,
+    private circuitBreaker: CircuitBreakerService,
+  ) {
     this.binanceConfig = this.configService.get<BinanceConfig>('binance')!;
     this.baseURL = this.binanceConfig.useTestnet
       ? this.binanceConfig.testnetRestUrl
@@ -26,6 +32,8 @@ export class BinanceApiService {
         'X-MBX-APIKEY': this.binanceConfig.apiKey,
       },
     });
+    this.circuitBreaker.attach('binance', this.httpClient);
+    this.rateLimiter.attach('binance', this.httpClient);
 
     this.validateCredentials();
     this.logger.log(`Binance Futures API Service initialized with base URL: ${this.baseURL}`);
@@ -193,6 +201,59 @@ export class BinanceApiService {
     }
   }
 
+  /**
+   * Create (or return the active) user data stream listen key.
+   * USER_STREAM endpoints only need the API key header, no signature.
+   */
+  async createListenKey(): Promise<BinanceApiResponse<{ listenKey: string }>> {
+    try {
+      const response = await this.httpClient.post('/fapi/v1/listenKey');
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error: any) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Extend the listen key validity by 60 minutes
+   */
+  async keepAliveListenKey(): Promise<BinanceApiResponse> {
+    try {
+      const response = await this.httpClient.put('/fapi/v1/listenKey');
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error: any) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Close the user data stream
+   */
+  async closeListenKey(): Promise<BinanceApiResponse> {
+    try {
+      const response = await this.httpClient.delete('/fapi/v1/listenKey');
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error: any) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Check if API key and secret are configured
+   */
+  hasCredentials(): boolean {
+    return !!this.binanceConfig.apiKey && !!this.binanceConfig.apiSecret;
+  }
+
   /**
    * Handle API errors
    */
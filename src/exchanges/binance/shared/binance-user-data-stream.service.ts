@@ -0,0 +1,233 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseUserDataStreamService } from '../../../common/websocket/base-user-data-stream.service';
+import { WebSocketConnection } from '../../../common/websocket/websocket-connection';
+import { UserDataEventBus } from '../../../common/services/user-data-event-bus.service';
+import {
+  ExchangeName,
+  Order,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  Position,
+  PositionSide,
+  Trade,
+} from '../../../common/types/exchange.types';
+import { BinanceConfig } from '../../../config/binance.config';
+import { BinanceApiService } from './binance-api.service';
+
+// Listen keys expire after 60 minutes without a keepalive
+const KEEPALIVE_INTERVAL_MS = 30 * 60 * 1000;
+const RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Binance USDⓈ-M Futures user data stream (listen key based)
+ */
+@Injectable()
+export class BinanceUserDataStreamService extends BaseUserDataStreamService {
+  private readonly logger = new Logger(BinanceUserDataStreamService.name);
+  protected readonly exchange: ExchangeName = 'binance';
+  private readonly wsUrl: string;
+  private connection: WebSocketConnection | null = null;
+  private keepAliveInterval: NodeJS.Timeout | null = null;
+  private retryTimeout: NodeJS.Timeout | null = null;
+
+  constructor(
+    configService: ConfigService,
+    eventBus: UserDataEventBus,
+    private readonly apiService: BinanceApiService,
+  ) {
+    super(configService, eventBus);
+    const binanceConfig = this.configService.get<BinanceConfig>('binance')!;
+    this.wsUrl = binanceConfig.useTestnet ? binanceConfig.testnetWsUrl : binanceConfig.wsUrl;
+  }
+
+  /**
+   * Create a listen key and connect the user data stream
+   */
+  async start(): Promise<boolean> {
+    if (!this.apiService.hasCredentials()) {
+      this.logger.warn('Binance credentials not configured, user data stream disabled');
+      return false;
+    }
+
+    if (this.connection) return true;
+
+    if (!(await this.renewListenKey())) {
+      return false;
+    }
+
+    this.keepAliveInterval = setInterval(() => this.keepAlive(), KEEPALIVE_INTERVAL_MS);
+    return true;
+  }
+
+  /**
+   * Disconnect and close the listen key
+   */
+  stop(): void {
+    if (this.keepAliveInterval) {
+      clearInterval(this.keepAliveInterval);
+      this.keepAliveInterval = null;
+    }
+
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+
+    if (this.connection) {
+      this.connection.disconnect();
+      this.connection = null;
+      void this.apiService.closeListenKey();
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connection?.isConnected() ?? false;
+  }
+
+  /**
+   * Fetch a (new) listen key and reconnect to its stream; retries later on failure
+   */
+  private async renewListenKey(): Promise<boolean> {
+    const response = await this.apiService.createListenKey();
+
+    if (!response.success || !response.data?.listenKey) {
+      this.logger.error('Failed to create listen key:', response.error);
+      this.scheduleRetry();
+      return false;
+    }
+
+    this.connection?.disconnect();
+    this.connection = new WebSocketConnection(BinanceUserDataStreamService.name, {
+      url: `${this.wsUrl}/${response.data.listenKey}`,
+      onOpen: () => this.logger.log('User data stream connected'),
+      onMessage: data => this.handleMessage(data),
+      pingIntervalMs: 3 * 60 * 1000,
+    });
+    this.connection.connect();
+
+    return true;
+  }
+
+  private async keepAlive(): Promise<void> {
+    const response = await this.apiService.keepAliveListenKey();
+
+    if (!response.success) {
+      this.logger.warn(`Listen key keepalive failed (${response.error}), renewing`);
+      await this.renewListenKey();
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimeout) return;
+
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = null;
+      void this.renewListenKey();
+    }, RETRY_DELAY_MS);
+  }
+
+  /**
+   * Normalize user data events
+   */
+  private handleMessage(data: string): void {
+    try {
+      const message = JSON.parse(data);
+
+      switch (message.e) {
+        case 'ORDER_TRADE_UPDATE': {
+          const order = message.o;
+          this.publishOrder(this.mapOrder(order));
+          if (order.x === 'TRADE') {
+            this.publishTrade(this.mapTrade(order));
+          }
+          break;
+        }
+
+        case 'ACCOUNT_UPDATE':
+          for (const position of message.a?.P || []) {
+            this.publishPosition(this.mapPosition(position));
+          }
+          break;
+
+        case 'listenKeyExpired':
+          this.logger.warn('Listen key expired, renewing');
+          void this.renewListenKey();
+          break;
+      }
+    } catch (error: any) {
+      this.logger.error('Error parsing user data message:', error.message);
+    }
+  }
+
+  private mapOrder(order: any): Order {
+    return {
+      orderId: order.i.toString(),
+      clientOrderId: order.c,
+      symbol: order.s,
+      side: order.S as OrderSide,
+      type: this.fromBinanceOrderType(order.ot || order.o),
+      status: this.fromBinanceOrderStatus(order.X),
+      price: parseFloat(order.ap) > 0 ? order.ap : order.p,
+      quantity: order.q,
+      executedQuantity: order.z,
+      remainingQuantity: (parseFloat(order.q) - parseFloat(order.z)).toString(),
+      timestamp: order.T,
+      updateTime: order.T,
+    };
+  }
+
+  private mapTrade(order: any): Trade {
+    return {
+      id: order.t.toString(),
+      orderId: order.i.toString(),
+      symbol: order.s,
+      side: order.S as OrderSide,
+      price: order.L,
+      quantity: order.l,
+      fee: order.n || '0',
+      feeAsset: order.N || '',
+      timestamp: order.T,
+    };
+  }
+
+  private mapPosition(position: any): Position {
+    const amount = parseFloat(position.pa);
+    const side =
+      position.ps === 'LONG' || position.ps === 'SHORT'
+        ? (position.ps as PositionSide)
+        : amount > 0
+          ? PositionSide.LONG
+          : amount < 0
+            ? PositionSide.SHORT
+            : PositionSide.BOTH;
+
+    return {
+      symbol: position.s,
+      side,
+      size: Math.abs(amount).toString(),
+      entryPrice: position.ep,
+      unrealizedPnl: position.up,
+      realizedPnl: position.cr,
+      marginType: position.mt === 'isolated' ? 'isolated' : 'cross',
+    };
+  }
+
+  private fromBinanceOrderType(type: string): OrderType {
+    switch (type) {
+      case 'STOP':
+        return OrderType.STOP_LIMIT;
+      case 'TRAILING_STOP_MARKET':
+        return OrderType.TRAILING_STOP;
+      case 'LIQUIDATION':
+        return OrderType.MARKET;
+      default:
+        return type as OrderType;
+    }
+  }
+
+  private fromBinanceOrderStatus(status: string): OrderStatus {
+    return status === 'EXPIRED_IN_MATCH' ? OrderStatus.EXPIRED : (status as OrderStatus);
+  }
+}
@@ -0,0 +1,176 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseMarketStreamService } from '../../../common/websocket/base-market-stream.service';
+import { WebSocketConnection } from '../../../common/websocket/websocket-connection';
+import { MarketStreamTopic } from '../../../common/interfaces/market-stream.interface';
+import { ExchangeName, OrderSide } from '../../../common/types/exchange.types';
+import { BinanceConfig } from '../../../config/binance.config';
+
+/**
+ * Binance USDⓈ-M Futures public market streams
+ */
+@Injectable()
+export class BinanceWebSocketService extends BaseMarketStreamService {
+  private readonly logger = new Logger(BinanceWebSocketService.name);
+  protected readonly exchange: ExchangeName = 'binance';
+  private readonly connection: WebSocketConnection;
+
+  constructor(private configService: ConfigService) {
+    super();
+    const binanceConfig = this.configService.get<BinanceConfig>('binance')!;
+    const wsUrl = binanceConfig.useTestnet ? binanceConfig.testnetWsUrl : binanceConfig.wsUrl;
+
+    this.connection = new WebSocketConnection(BinanceWebSocketService.name, {
+      // Combined stream endpoint wraps payloads with their stream name (partial and diff depth
+      // events are otherwise indistinguishable)
+      url: wsUrl.replace(/\/ws\/?$/, '/stream'),
+      onOpen: () => this.sendSubscription('SUBSCRIBE', this.getTopics()),
+      onMessage: data => this.handleMessage(data),
+      pingIntervalMs: 3 * 60 * 1000,
+    });
+  }
+
+  isConnected(): boolean {
+    return this.connection.isConnected();
+  }
+
+  protected normalizeSymbol(symbol: string): string {
+    return symbol.replace(/[-/_]/g, '').toUpperCase();
+  }
+
+  protected addTopic(topic: MarketStreamTopic): void {
+    if (this.connection.isConnected()) {
+      this.sendSubscription('SUBSCRIBE', [topic]);
+    } else {
+      this.connection.connect();
+    }
+  }
+
+  protected removeTopic(topic: MarketStreamTopic): void {
+    if (this.getTopics().length === 0) {
+      this.connection.disconnect();
+      return;
+    }
+
+    this.sendSubscription('UNSUBSCRIBE', [topic]);
+  }
+
+  protected disconnect(): void {
+    this.connection.disconnect();
+  }
+
+  /**
+   * Map a topic to its Binance stream name
+   */
+  private toStreamName(topic: MarketStreamTopic): string {
+    const symbol = topic.symbol.toLowerCase();
+
+    switch (topic.channel) {
+      case 'ticker':
+        return `${symbol}@ticker`;
+      case 'orderbook':
+        return `${symbol}@depth20@100ms`;
+      case 'depth':
+        return `${symbol}@depth@100ms`;
+      case 'trades':
+        return `${symbol}@aggTrade`;
+      case 'candles':
+        return `${symbol}@kline_${topic.interval}`;
+    }
+  }
+
+  private sendSubscription(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', topics: MarketStreamTopic[]): void {
+    if (topics.length === 0) return;
+
+    this.connection.send({
+      method,
+      params: topics.map(topic => this.toStreamName(topic)),
+      id: Date.now(),
+    });
+  }
+
+  /**
+   * Normalize incoming stream payloads
+   */
+  private handleMessage(data: string): void {
+    try {
+      const parsed = JSON.parse(data);
+
+      if (parsed.error) {
+        this.logger.warn(`Stream request ${parsed.id} failed: ${parsed.error.msg}`);
+        return;
+      }
+
+      // Combined stream payloads are wrapped as { stream, data }
+      if (!parsed.stream || !parsed.data) return;
+      const { stream, data: message } = parsed;
+
+      switch (message.e) {
+        case '24hrTicker':
+          this.emit(
+            { channel: 'ticker', symbol: message.s },
+            { symbol: message.s, price: message.c, timestamp: message.E },
+          );
+          break;
+
+        case 'depthUpdate':
+          if (stream.endsWith('@depth@100ms')) {
+            this.emit(
+              { channel: 'depth', symbol: message.s },
+              {
+                symbol: message.s,
+                bids: message.b,
+                asks: message.a,
+                snapshot: false,
+                firstUpdateId: message.U,
+                lastUpdateId: message.u,
+                prevUpdateId: message.pu,
+                timestamp: message.E,
+              },
+            );
+          } else {
+            this.emit(
+              { channel: 'orderbook', symbol: message.s },
+              { symbol: message.s, bids: message.b, asks: message.a, timestamp: message.E },
+            );
+          }
+          break;
+
+        case 'aggTrade':
+          this.emit(
+            { channel: 'trades', symbol: message.s },
+            {
+              id: message.a.toString(),
+              orderId: '',
+              symbol: message.s,
+              // Buyer is maker -> taker sold
+              side: message.m ? OrderSide.SELL : OrderSide.BUY,
+              price: message.p,
+              quantity: message.q,
+              fee: '0',
+              feeAsset: '',
+              timestamp: message.T,
+            },
+          );
+          break;
+
+        case 'kline':
+          this.emit(
+            { channel: 'candles', symbol: message.s, interval: message.k.i },
+            {
+              openTime: message.k.t,
+              open: message.k.o,
+              high: message.k.h,
+              low: message.k.l,
+              close: message.k.c,
+              volume: message.k.v,
+              closeTime: message.k.T,
+            },
+          );
+          break;
+      }
+    } catch (error: any) {
+      this.logger.error('Error parsing WebSocket message:', error.message);
+    }
+  }
+}
@@ -3,31 +3,55 @@ import { AsterModule } from './aster/aster.module';
 import { HyperliquidModule } from './hyperliquid/hyperliquid.module';
 import { BinanceModule } from './binance/binance.module';
 import { OkxModule } from './okx/okx.module';
+import { OrderlyModule } from './orderly/orderly.module';
+import { PaperModule } from './paper/paper.module';
 import { ExchangeRegistry } from '../common/factory/exchange.factory';
+import { OrderType } from '../common/types/exchange.types';
 
 // Import Aster Perpetual service classes
 import { AsterPerpetualTradingService } from './aster/perpetual/services/perpetual-trading.service';
 import { AsterPerpetualBalanceService } from './aster/perpetual/services/perpetual-balance.service';
 import { AsterPerpetualMarketService } from './aster/perpetual/services/perpetual-market.service';
+import { AsterWebSocketService } from './aster/shared/aster-websocket.service';
+import { AsterUserDataStreamService } from './aster/shared/aster-user-data-stream.service';
 
 // Import Hyperliquid Perp service classes
 import { HyperliquidPerpTradingService } from './hyperliquid/perp/services/perp-trading.service';
 import { HyperliquidPerpBalanceService } from './hyperliquid/perp/services/perp-balance.service';
 import { HyperliquidPerpMarketService } from './hyperliquid/perp/services/perp-market.service';
+import { HyperliquidWebSocketService } from './hyperliquid/shared/hyperliquid-websocket.service';
+import { HyperliquidUserDataStreamService } from './hyperliquid/shared/hyperliquid-user-data-stream.service';
 
 // Import Binance Perpetual service classes
 import { BinancePerpetualTradingService } from './binance/perpetual/services/perpetual-trading.service';
 import { BinancePerpetualBalanceService } from './binance/perpetual/services/perpetual-balance.service';
 import { BinancePerpetualMarketService } from './binance/perpetual/services/perpetual-market.service';
+import { BinanceWebSocketService } from './binance/shared/binance-websocket.service';
+import { BinanceUserDataStreamService } from './binance/shared/binance-user-data-stream.service';
 
 // Import OKX Perpetual service classes
 import { OkxPerpetualTradingService } from './okx/perpetual/services/perpetual-trading.service';
 import { OkxPerpetualBalanceService } from './okx/perpetual/services/perpetual-balance.service';
 import { OkxPerpetualMarketService } from './okx/perpetual/services/perpetual-market.service';
+import { OkxWebSocketService } from './okx/shared/okx-websocket.service';
+import { OkxUserDataStreamService } from './okx/shared/okx-user-data-stream.service';
+
+// Import Orderly Perpetual service classes
+import { OrderlyPerpetualTradingService } from './orderly/perpetual/services/perpetual-trading.service';
+import { OrderlyPerpetualBalanceService } from './orderly/perpetual/services/perpetual-balance.service';
+import { OrderlyPerpetualMarketService } from './orderly/perpetual/services/perpetual-market.service';
+import { OrderlyWebSocketService } from './orderly/shared/orderly-websocket.service';
+
+// Import Paper Perpetual service classes
+import { PaperPerpetualTradingService } from './paper/perpetual/services/perpetual-trading.service';
+import { PaperPerpetualBalanceService } from './paper/perpetual/services/perpetual-balance.service';
+import { PaperPerpetualMarketService } from './paper/perpetual/services/perpetual-market.service';
+import { PaperUserDataStreamService } from './paper/shared/paper-user-data-stream.service';
+import { PAPER_ORDER_TYPES } from './paper/shared/paper-account';
 
 @Module({
-  imports: [AsterModule, HyperliquidModule, BinanceModule, OkxModule],
-  exports: [AsterModule, HyperliquidModule, BinanceModule, OkxModule],
+  imports: [AsterModule, HyperliquidModule, BinanceModule, OkxModule, OrderlyModule, PaperModule],
+  exports: [AsterModule, HyperliquidModule, BinanceModule, OkxModule, OrderlyModule, PaperModule],
 })
 export class ExchangesModule implements OnModuleInit {
   constructor(private readonly registry: ExchangeRegistry) {}
@@ -40,6 +64,27 @@ export class ExchangesModule implements OnModuleInit {
       tradingService: AsterPerpetualTradingService,
       balanceService: AsterPerpetualBalanceService,
       marketService: AsterPerpetualMarketService,
+      streamService: AsterWebSocketService,
+      userDataService: AsterUserDataStreamService,
+      capabilities: {
+        orderTypes: [
+          OrderType.MARKET,
+          OrderType.LIMIT,
+          OrderType.STOP_MARKET,
+          OrderType.TAKE_PROFIT,
+          OrderType.TAKE_PROFIT_MARKET,
+          OrderType.TRAILING_STOP,
+        ],
+        hedgeMode: true,
+        conditionalOrders: true,
+        batchOrders: true,
+        amendOrders: true,
+        cancelAllAfter: true,
+        transfers: false,
+        websocket: true,
+        userDataStream: true,
+        testnet: false,
+      },
     });
 
     // Register Hyperliquid Perpetual
@@ -49,29 +94,136 @@ export class ExchangesModule implements OnModuleInit {
       tradingService: HyperliquidPerpTradingService,
       balanceService: HyperliquidPerpBalanceService,
       marketService: HyperliquidPerpMarketService,
+      streamService: HyperliquidWebSocketService,
+      userDataService: HyperliquidUserDataStreamService,
+      capabilities: {
+        orderTypes: [
+          OrderType.MARKET,
+          OrderType.LIMIT,
+          OrderType.STOP_MARKET,
+          OrderType.TAKE_PROFIT_MARKET,
+          OrderType.TRAILING_STOP,
+        ],
+        hedgeMode: false,
+        conditionalOrders: true,
+        batchOrders: true,
+        amendOrders: true,
+        cancelAllAfter: true,
+        transfers: false,
+        websocket: true,
+        userDataStream: true,
+        testnet: true,
+      },
     });
 
     // Register Binance Perpetual
     this.registry.register({
       exchange: 'binance',
       tradingType: 'perpetual',
-      tradingService: BinancePerpetualTradingService as any,
+      tradingService: BinancePerpetualTradingService,
       balanceService: BinancePerpetualBalanceService as any,
       marketService: BinancePerpetualMarketService as any,
+      streamService: BinanceWebSocketService,
+      userDataService: BinanceUserDataStreamService,
+      capabilities: {
+        orderTypes: Object.values(OrderType),
+        hedgeMode: true,
+        conditionalOrders: true,
+        batchOrders: true,
+        amendOrders: true,
+        cancelAllAfter: true,
+        transfers: false,
+        websocket: true,
+        userDataStream: true,
+        testnet: true,
+      },
     });
 
     // Register OKX Perpetual
     this.registry.register({
       exchange: 'okx',
       tradingType: 'perpetual',
-      tradingService: OkxPerpetualTradingService as any,
-      balanceService: OkxPerpetualBalanceService as any,
-      marketService: OkxPerpetualMarketService as any,
+      tradingService: OkxPerpetualTradingService,
+      balanceService: OkxPerpetualBalanceService,
+      marketService: OkxPerpetualMarketService,
+      streamService: OkxWebSocketService,
+      userDataService: OkxUserDataStreamService,
+      capabilities: {
+        orderTypes: [
+          OrderType.MARKET,
+          OrderType.LIMIT,
+          OrderType.STOP_MARKET,
+          OrderType.STOP_LIMIT,
+          OrderType.TAKE_PROFIT,
+          OrderType.TAKE_PROFIT_MARKET,
+          OrderType.TRAILING_STOP,
+        ],
+        hedgeMode: true,
+        conditionalOrders: true,
+        batchOrders: true,
+        amendOrders: true,
+        cancelAllAfter: true,
+        transfers: true,
+        websocket: true,
+        userDataStream: true,
+        testnet: true,
+      },
+    });
+
+    // Register Orderly Perpetual
+    this.registry.register({
+      exchange: 'orderly',
+      tradingType: 'perpetual',
+      tradingService: OrderlyPerpetualTradingService,
+      balanceService: OrderlyPerpetualBalanceService,
+      marketService: OrderlyPerpetualMarketService,
+      streamService: OrderlyWebSocketService,
+      capabilities: {
+        orderTypes: [
+          OrderType.MARKET,
+          OrderType.LIMIT,
+          OrderType.STOP_MARKET,
+          OrderType.STOP_LIMIT,
+          OrderType.TAKE_PROFIT,
+          OrderType.TAKE_PROFIT_MARKET,
+        ],
+        hedgeMode: false,
+        conditionalOrders: true,
+        batchOrders: false,
+        amendOrders: false,
+        cancelAllAfter: false,
+        transfers: false,
+        websocket: true,
+        userDataStream: false,
+        testnet: true,
+      },
+    });
+
+    // Register Paper Perpetual (simulated, priced from PAPER_PRICE_SOURCE)
+    this.registry.register({
+      exchange: 'paper',
+      tradingType: 'perpetual',
+      tradingService: PaperPerpetualTradingService,
+      balanceService: PaperPerpetualBalanceService,
+      marketService: PaperPerpetualMarketService,
+      userDataService: PaperUserDataStreamService,
+      capabilities: {
+        orderTypes: PAPER_ORDER_TYPES,
+        hedgeMode: true,
+        conditionalOrders: true,
+        batchOrders: false,
+        amendOrders: false,
+        cancelAllAfter: true,
+        transfers: false,
+        websocket: false,
+        userDataStream: true,
+        testnet: false,
+      },
     });
 
     const logger = new Logger(ExchangesModule.name);
     logger.log(
-      '✅ Registered exchanges: aster-perpetual, hyperliquid-perpetual, binance-perpetual, okx-perpetual',
+      '✅ Registered exchanges: aster-perpetual, hyperliquid-perpetual, binance-perpetual, okx-perpetual, orderly-perpetual, paper-perpetual',
     );
   }
 }
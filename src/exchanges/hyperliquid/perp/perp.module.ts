@@ -9,10 +9,13 @@ import { OrderPlacementService } from './services/order-placement.service';
 import { OrderManagementService } from './services/order-management.service';
 import { PositionService } from './services/position.service';
 import { RiskManagementService } from './services/risk-management.service';
+import { TrailingStopService } from './services/trailing-stop.service';
 
 // Shared services
 import { HyperliquidApiService } from '../shared/hyperliquid-api.service';
 import { SigningService } from '../shared/signing.service';
+import { HyperliquidWebSocketService } from '../shared/hyperliquid-websocket.service';
+import { HyperliquidUserDataStreamService } from '../shared/hyperliquid-user-data-stream.service';
 
 @Module({
   imports: [ConfigModule],
@@ -24,8 +27,11 @@ import { SigningService } from '../shared/signing.service';
     OrderManagementService,
     PositionService,
     RiskManagementService,
+    TrailingStopService,
     HyperliquidApiService,
     SigningService,
+    HyperliquidWebSocketService,
+    HyperliquidUserDataStreamService,
   ],
   exports: [
     HyperliquidPerpTradingService,
@@ -35,6 +41,8 @@ import { SigningService } from '../shared/signing.service';
     OrderManagementService,
     PositionService,
     RiskManagementService,
+    HyperliquidWebSocketService,
+    HyperliquidUserDataStreamService,
   ],
 })
 export class HyperliquidPerpModule {}
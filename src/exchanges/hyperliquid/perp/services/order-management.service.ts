@@ -1,10 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { formatSymbol } from './perp-market.utils';
-import { mapOrder } from './perp-helpers';
-import { CancelOrderParams } from '../../../../common/interfaces';
-import { ApiResponse, Order } from '../../../../common/types';
+import { mapOrder, mapOrderStatus, roundPerpPrice } from './perp-helpers';
+import {
+  CancelAllAfterResult,
+  CancelOrderParams,
+  ModifyOrderParams,
+} from '../../../../common/interfaces';
+import { ApiResponse, Order, OrderSide, OrderStatus, OrderType } from '../../../../common/types';
+import { batchItemFailure, runBatched, toBatchResponse } from '../../../../common/batch';
 import { HyperliquidApiService } from '../../shared/hyperliquid-api.service';
 
+// Cancels per cancel action
+const BATCH_SIZE = 40;
+
+// scheduleCancel must be set at least this far ahead
+const MIN_SCHEDULE_CANCEL_MS = 5000;
+
 @Injectable()
 export class OrderManagementService {
   private readonly logger = new Logger(OrderManagementService.name);
@@ -52,6 +63,146 @@ export class OrderManagementService {
     }
   }
 
+  /**
+   * Cancel several orders in one cancel action
+   */
+  async cancelOrders(orders: CancelOrderParams[]): Promise<ApiResponse<ApiResponse<any>[]>> {
+    try {
+      const results = await runBatched(orders, {
+        size: BATCH_SIZE,
+        prepare: params => {
+          if (!params.orderId) {
+            throw new Error('orderId is required to cancel Hyperliquid orders');
+          }
+          return { params, coin: formatSymbol(params.symbol), oid: parseInt(params.orderId) };
+        },
+        send: async batch => {
+          const result = await this.apiService.cancelOrders(batch);
+          if (!result.success) {
+            throw new Error(result.error || 'Failed to cancel orders');
+          }
+
+          // Each status is "success" or { error }
+          const statuses = result.data?.response?.data?.statuses || [];
+          return batch.map(({ params }, i) =>
+            statuses[i]?.error
+              ? batchItemFailure(statuses[i].error)
+              : {
+                  success: true,
+                  data: { orderId: params.orderId, symbol: params.symbol, status: 'canceled' },
+                  timestamp: Date.now(),
+                  exchange: 'hyperliquid',
+                  tradingType: 'perpetual',
+                },
+          );
+        },
+      });
+
+      return toBatchResponse(results, 'hyperliquid', 'perpetual');
+    } catch (error: any) {
+      this.logger.error(`Error canceling orders: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    }
+  }
+
+  /**
+   * Modify an open limit order through batchModify. Hyperliquid replaces the order under a new
+   * oid and keeps what already filled, so the size sent is the new quantity minus the filled part.
+   */
+  async modifyOrder(params: ModifyOrderParams): Promise<ApiResponse<Order>> {
+    try {
+      const ref = params.orderId ? parseInt(params.orderId) : params.clientOrderId;
+      if (!ref) {
+        throw new Error('Either orderId or clientOrderId is required');
+      }
+
+      const coin = formatSymbol(params.symbol);
+      const status = await this.apiService.getOrderStatus(ref);
+      if (!status.success || !status.data) {
+        throw new Error(status.error || 'Failed to get order');
+      }
+
+      // { status: 'unknownOid' } or { status: 'order', order: { order, status } }
+      const found = status.data.status === 'order' ? status.data.order : undefined;
+      if (!found || found.order.coin !== coin) {
+        throw new Error('Order not found');
+      }
+      if (found.status !== 'open') {
+        throw new Error(`Order is ${found.status}, nothing left to amend`);
+      }
+      if (found.order.isTrigger) {
+        throw new Error('Only limit orders can be modified');
+      }
+
+      const order = found.order;
+      const filled = parseFloat(order.origSz) - parseFloat(order.sz);
+      const sz = params.quantity ? parseFloat(params.quantity) - filled : parseFloat(order.sz);
+      if (sz <= 0) {
+        throw new Error(`Quantity ${params.quantity} does not exceed the filled ${filled}`);
+      }
+
+      const { szDecimals } = await this.apiService.getAssetInfo(coin);
+      const price = params.price
+        ? roundPerpPrice(parseFloat(params.price), szDecimals).toString()
+        : order.limitPx;
+
+      const orderRequest: any = {
+        coin,
+        is_buy: order.side === 'B',
+        sz,
+        limit_px: price,
+        reduce_only: order.reduceOnly || false,
+        order_type: { limit: { tif: order.tif || 'Gtc' } },
+      };
+      if (order.cloid) orderRequest.cloid = order.cloid;
+
+      const result = await this.apiService.modifyOrder(order.oid, orderRequest);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to modify order');
+      }
+
+      // Same statuses as an order action: resting, filled or { error }
+      const modified = result.data?.response?.data?.statuses?.[0];
+      if (modified?.error) {
+        throw new Error(modified.error);
+      }
+
+      return {
+        success: true,
+        data: {
+          orderId: (modified?.resting?.oid ?? modified?.filled?.oid ?? order.oid).toString(),
+          clientOrderId: order.cloid || undefined,
+          symbol: params.symbol,
+          side: order.side === 'B' ? OrderSide.BUY : OrderSide.SELL,
+          type: OrderType.LIMIT,
+          status: modified?.filled ? OrderStatus.FILLED : OrderStatus.NEW,
+          price,
+          quantity: sz.toString(),
+          executedQuantity: modified?.filled?.totalSz ?? '0',
+          timestamp: Date.now(),
+        },
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error(`Error modifying order: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    }
+  }
+
   /**
    * Cancel all orders
    */
@@ -92,6 +243,44 @@ export class OrderManagementService {
     }
   }
 
+  /**
+   * Schedule a cancel of all open orders timeoutMs from now, or remove it when 0
+   */
+  async cancelAllAfter(timeoutMs: number): Promise<ApiResponse<CancelAllAfterResult>> {
+    try {
+      const cancelAt =
+        timeoutMs > 0 ? Date.now() + Math.max(timeoutMs, MIN_SCHEDULE_CANCEL_MS) : undefined;
+      const result = await this.apiService.scheduleCancel(cancelAt);
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error || 'Failed to schedule cancel',
+          timestamp: Date.now(),
+          exchange: 'hyperliquid',
+          tradingType: 'perpetual',
+        };
+      }
+
+      return {
+        success: true,
+        data: { cancelAt },
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error(`Error scheduling cancel: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    }
+  }
+
   /**
    * Get open orders
    */
@@ -185,5 +374,48 @@ export class OrderManagementService {
     }
   }
 
+  /**
+   * Get order details (open or closed) by client order ID
+   */
+  async getOrderByClientId(
+    symbol: string,
+    clientOrderId: string,
+  ): Promise<ApiResponse<Order | null>> {
+    try {
+      const result = await this.apiService.getOrderStatus(clientOrderId);
+
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error: result.error || 'Failed to get order',
+          timestamp: Date.now(),
+          exchange: 'hyperliquid',
+          tradingType: 'perpetual',
+        };
+      }
+
+      // { status: 'unknownOid' } or { status: 'order', order: { order, status } }
+      const found = result.data.status === 'order' ? result.data.order : undefined;
+      const order = found && formatSymbol(symbol) === found.order.coin ? found : undefined;
+
+      return {
+        success: true,
+        data: order ? { ...mapOrder(order.order), status: mapOrderStatus(order.status) } : null,
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error(`Error getting order by client ID: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    }
+  }
+
   // use helpers from perp-market.utils
 }
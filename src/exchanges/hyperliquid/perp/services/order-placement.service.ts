@@ -12,9 +12,13 @@ import {
   OrderStatus,
   TimeInForce,
 } from '../../../../common/types';
+import { runBatched, toBatchResponse } from '../../../../common/batch';
 import { HyperliquidApiService } from '../../shared/hyperliquid-api.service';
 import { formatSymbol } from './perp-market.utils';
 
+// Orders per order action; bigger actions cost extra rate limit weight
+const BATCH_SIZE = 40;
+
 @Injectable()
 export class OrderPlacementService {
   private readonly logger = new Logger(OrderPlacementService.name);
@@ -28,82 +32,7 @@ export class OrderPlacementService {
     try {
       this.logger.debug(`Placing ${params.type} ${params.side} order for ${params.symbol}`);
 
-      const coin = formatSymbol(params.symbol);
-      const isBuy = params.side === OrderSide.BUY;
-
-      // Build order request
-      const orderRequest: any = {
-        coin,
-        is_buy: isBuy,
-        sz: parseFloat(params.quantity),
-        reduce_only: params.reduceOnly || false,
-      };
-
-      // Get asset info for correct decimals and tick size
-      await this.apiService.getAssetInfo(coin); // Load asset info into cache
-
-      // Helper to round price to tick size
-      const roundToTickSize = (price: number): string => {
-        // For BTC, tick size is 1.0 (whole numbers only)
-        // For other assets, may vary - but BTC is most common
-        const rounded = Math.round(price);
-        return rounded.toFixed(1); // Return as "110041.0" format
-      };
-
-      // Handle different order types
-      if (params.type === OrderType.MARKET) {
-        // Market order - use limit with slippage
-        const allMids = await this.apiService.getAllMids();
-        if (!allMids.success || !allMids.data) {
-          throw new Error('Failed to get market price');
-        }
-
-        const midPrice = parseFloat(allMids.data[coin]);
-        if (!midPrice) {
-          throw new Error(`No market price found for ${coin}`);
-        }
-
-        // Use 1% slippage for market orders to ensure they fill
-        const slippageMultiplier = isBuy ? 1.01 : 0.99;
-        const limitPrice = midPrice * slippageMultiplier;
-
-        orderRequest.limit_px = roundToTickSize(limitPrice);
-        orderRequest.order_type = {
-          limit: { tif: 'Ioc' },
-        };
-      } else if (params.type === OrderType.LIMIT) {
-        if (!params.price) {
-          throw new Error('Price is required for limit orders');
-        }
-
-        let tif: 'Gtc' | 'Ioc' | 'Alo' = 'Gtc';
-        if (params.timeInForce === TimeInForce.IOC) tif = 'Ioc';
-        else if (params.timeInForce === TimeInForce.FOK) tif = 'Ioc';
-        else if (params.timeInForce === TimeInForce.GTX) tif = 'Alo';
-
-        orderRequest.limit_px = roundToTickSize(parseFloat(params.price));
-        orderRequest.order_type = {
-          limit: { tif },
-        };
-      } else if (
-        params.type === OrderType.STOP_MARKET ||
-        params.type === OrderType.TAKE_PROFIT_MARKET
-      ) {
-        if (!params.stopPrice) {
-          throw new Error('Stop price is required for stop/take profit orders');
-        }
-
-        const stopPrice = parseFloat(params.stopPrice);
-        orderRequest.limit_px = roundToTickSize(stopPrice);
-        orderRequest.order_type = {
-          trigger: {
-            isMarket: true,
-            triggerPx: roundToTickSize(stopPrice),
-            tpsl: params.type === OrderType.TAKE_PROFIT_MARKET ? 'tp' : 'sl',
-          },
-        };
-      }
-
+      const orderRequest = await this.toOrderRequest(params);
       const result = await this.apiService.placeOrder(orderRequest);
 
       if (!result.success) {
@@ -120,64 +49,195 @@ export class OrderPlacementService {
       this.logger.debug(`Order response: ${JSON.stringify(result.data)}`);
 
       const statuses = result.data?.response?.data?.statuses || [];
-      const firstStatus = statuses[0];
-
-      this.logger.debug(`Order status: ${JSON.stringify(firstStatus)}`);
-
-      // Check if order was filled or resting
-      let orderStatus = OrderStatus.NEW;
-      let orderId = 'unknown';
-      let executedQty = '0';
-
-      if (firstStatus?.filled) {
-        orderStatus = OrderStatus.FILLED;
-        orderId = firstStatus.filled.oid?.toString() || 'unknown';
-        executedQty = firstStatus.filled.totalSz || params.quantity;
-        this.logger.log(`Order FILLED: ${orderId}, size: ${executedQty}`);
-      } else if (firstStatus?.resting) {
-        orderStatus = OrderStatus.NEW;
-        orderId = firstStatus.resting.oid?.toString() || 'unknown';
-        this.logger.log(`Order RESTING: ${orderId}`);
-      } else if (firstStatus?.error) {
-        this.logger.error(`Order ERROR: ${firstStatus.error}`);
-        return {
-          success: false,
-          error: firstStatus.error,
-          timestamp: Date.now(),
-          exchange: 'hyperliquid',
-          tradingType: 'perpetual',
-        };
-      }
-
-      const order: Order = {
-        orderId,
-        symbol: params.symbol,
-        side: params.side,
-        type: params.type,
-        status: orderStatus,
-        price: params.price || '0',
-        quantity: params.quantity,
-        executedQuantity: executedQty,
+      return this.toOrderResult(params, statuses[0]);
+    } catch (error: any) {
+      this.logger.error(`Error placing order: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
         timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
       };
+    }
+  }
+
+  /**
+   * Place several orders in one order action
+   */
+  async placeOrders(orders: PlaceOrderParams[]): Promise<ApiResponse<ApiResponse<Order>[]>> {
+    try {
+      this.logger.debug(`Placing ${orders.length} orders in batches of ${BATCH_SIZE}`);
+
+      const results = await runBatched(orders, {
+        size: BATCH_SIZE,
+        prepare: async params => ({ params, orderRequest: await this.toOrderRequest(params) }),
+        send: async batch => {
+          const result = await this.apiService.placeOrders(
+            batch.map(({ orderRequest }) => orderRequest),
+          );
+          if (!result.success) {
+            throw new Error(result.error || 'Failed to place orders');
+          }
+
+          this.logger.debug(`Batch order response: ${JSON.stringify(result.data)}`);
+          const statuses = result.data?.response?.data?.statuses || [];
+          return batch.map(({ params }, i) => this.toOrderResult(params, statuses[i]));
+        },
+      });
 
+      return toBatchResponse(results, 'hyperliquid', 'perpetual');
+    } catch (error: any) {
+      this.logger.error(`Error placing orders: ${error.message}`);
       return {
-        success: true,
-        data: order,
+        success: false,
+        error: error.message,
         timestamp: Date.now(),
         exchange: 'hyperliquid',
         tradingType: 'perpetual',
       };
-    } catch (error: any) {
-      this.logger.error(`Error placing order: ${error.message}`);
+    }
+  }
+
+  /**
+   * Order request (before wire conversion) for an order
+   */
+  private async toOrderRequest(params: PlaceOrderParams): Promise<any> {
+    const coin = formatSymbol(params.symbol);
+    const isBuy = params.side === OrderSide.BUY;
+
+    // Build order request
+    const orderRequest: any = {
+      coin,
+      is_buy: isBuy,
+      sz: parseFloat(params.quantity),
+      reduce_only: params.reduceOnly || false,
+    };
+
+    // Client order ID (cloid): 128-bit hex string, e.g. 0x1234...
+    if (params.clientOrderId) {
+      orderRequest.cloid = params.clientOrderId;
+    }
+
+    // Get asset info for correct decimals and tick size
+    await this.apiService.getAssetInfo(coin); // Load asset info into cache
+
+    // Helper to round price to tick size
+    const roundToTickSize = (price: number): string => {
+      // For BTC, tick size is 1.0 (whole numbers only)
+      // For other assets, may vary - but BTC is most common
+      const rounded = Math.round(price);
+      return rounded.toFixed(1); // Return as "110041.0" format
+    };
+
+    // Handle different order types
+    if (params.type === OrderType.MARKET) {
+      // Market order - use limit with slippage
+      const allMids = await this.apiService.getAllMids();
+      if (!allMids.success || !allMids.data) {
+        throw new Error('Failed to get market price');
+      }
+
+      const midPrice = parseFloat(allMids.data[coin]);
+      if (!midPrice) {
+        throw new Error(`No market price found for ${coin}`);
+      }
+
+      // Use 1% slippage for market orders to ensure they fill
+      const slippageMultiplier = isBuy ? 1.01 : 0.99;
+      const limitPrice = midPrice * slippageMultiplier;
+
+      orderRequest.limit_px = roundToTickSize(limitPrice);
+      orderRequest.order_type = {
+        limit: { tif: 'Ioc' },
+      };
+    } else if (params.type === OrderType.LIMIT) {
+      if (!params.price) {
+        throw new Error('Price is required for limit orders');
+      }
+
+      let tif: 'Gtc' | 'Ioc' | 'Alo' = 'Gtc';
+      if (params.timeInForce === TimeInForce.IOC) tif = 'Ioc';
+      else if (params.timeInForce === TimeInForce.FOK) tif = 'Ioc';
+      else if (params.timeInForce === TimeInForce.GTX) tif = 'Alo';
+
+      orderRequest.limit_px = roundToTickSize(parseFloat(params.price));
+      orderRequest.order_type = {
+        limit: { tif },
+      };
+    } else if (
+      params.type === OrderType.STOP_MARKET ||
+      params.type === OrderType.TAKE_PROFIT_MARKET
+    ) {
+      if (!params.stopPrice) {
+        throw new Error('Stop price is required for stop/take profit orders');
+      }
+
+      const stopPrice = parseFloat(params.stopPrice);
+      orderRequest.limit_px = roundToTickSize(stopPrice);
+      orderRequest.order_type = {
+        trigger: {
+          isMarket: true,
+          triggerPx: roundToTickSize(stopPrice),
+          tpsl: params.type === OrderType.TAKE_PROFIT_MARKET ? 'tp' : 'sl',
+        },
+      };
+    }
+
+    return orderRequest;
+  }
+
+  /**
+   * Map the exchange status of a placed order (filled, resting or error)
+   */
+  private toOrderResult(params: PlaceOrderParams, status: any): ApiResponse<Order> {
+    this.logger.debug(`Order status: ${JSON.stringify(status)}`);
+
+    // Check if order was filled or resting
+    let orderStatus = OrderStatus.NEW;
+    let orderId = 'unknown';
+    let executedQty = '0';
+
+    if (status?.filled) {
+      orderStatus = OrderStatus.FILLED;
+      orderId = status.filled.oid?.toString() || 'unknown';
+      executedQty = status.filled.totalSz || params.quantity;
+      this.logger.log(`Order FILLED: ${orderId}, size: ${executedQty}`);
+    } else if (status?.resting) {
+      orderStatus = OrderStatus.NEW;
+      orderId = status.resting.oid?.toString() || 'unknown';
+      this.logger.log(`Order RESTING: ${orderId}`);
+    } else if (status?.error) {
+      this.logger.error(`Order ERROR: ${status.error}`);
       return {
         success: false,
-        error: error.message,
+        error: status.error,
         timestamp: Date.now(),
         exchange: 'hyperliquid',
         tradingType: 'perpetual',
       };
     }
+
+    const order: Order = {
+      orderId,
+      clientOrderId: params.clientOrderId,
+      symbol: params.symbol,
+      side: params.side,
+      type: params.type,
+      status: orderStatus,
+      price: params.price || '0',
+      quantity: params.quantity,
+      executedQuantity: executedQty,
+      timestamp: Date.now(),
+    };
+
+    return {
+      success: true,
+      data: order,
+      timestamp: Date.now(),
+      exchange: 'hyperliquid',
+      tradingType: 'perpetual',
+    };
   }
 
   /**
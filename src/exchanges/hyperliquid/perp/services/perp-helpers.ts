@@ -7,11 +7,53 @@ import {
   Position,
   PositionSide,
 } from '../../../../common/types/exchange.types';
+import { MarginTier } from '../../../../common/interfaces';
+import { HyperliquidAssetInfo, HyperliquidMarginTable } from '../../types';
 import { formatSymbolResponse } from './perp-market.utils';
 
+const ORDER_STATUS_MAP: Record<string, OrderStatus> = {
+  open: OrderStatus.NEW,
+  triggered: OrderStatus.NEW,
+  filled: OrderStatus.FILLED,
+  canceled: OrderStatus.CANCELED,
+  marginCanceled: OrderStatus.CANCELED,
+  rejected: OrderStatus.REJECTED,
+};
+
+/**
+ * Map a Hyperliquid order status (orderStatus / orderUpdates) to the standard status
+ */
+export function mapOrderStatus(status: string): OrderStatus {
+  return ORDER_STATUS_MAP[status] || OrderStatus.NEW;
+}
+
+/**
+ * Round a price to what Hyperliquid accepts: at most 5 significant figures and
+ * 6 - szDecimals decimals
+ */
+export function roundPerpPrice(price: number, szDecimals: number): number {
+  const decimals = Math.max(6 - szDecimals, 0);
+  return parseFloat(parseFloat(price.toPrecision(5)).toFixed(decimals));
+}
+
+/**
+ * Trigger price of a trailing stop `callbackRate` percent from the best price since it
+ * activated: below the high for a SELL (closing a long), above the low for a BUY
+ */
+export function getTrailingTriggerPrice(
+  side: OrderSide,
+  bestPrice: number,
+  callbackRate: number,
+): number {
+  return side === OrderSide.SELL
+    ? bestPrice * (1 - callbackRate / 100)
+    : bestPrice * (1 + callbackRate / 100);
+}
+
 export function mapOrder(order: any): Order {
   return {
     orderId: order.oid?.toString() || order.id?.toString() || '',
+    clientOrderId: order.cloid || undefined,
     symbol: formatSymbolResponse(order.coin),
     side: order.side === 'B' ? OrderSide.BUY : OrderSide.SELL,
     type: OrderType.LIMIT,
@@ -58,3 +100,35 @@ export function mapPosition(position: any): Position {
     marginType: position.marginType,
   } as Position;
 }
+
+/**
+ * Margin tiers of an asset from its margin table (a single tier at maxLeverage without one).
+ * Maintenance margin is half the initial margin at the tier's max leverage, with a deduction
+ * that keeps it continuous across tiers.
+ */
+export function toMarginTiers(
+  asset: HyperliquidAssetInfo,
+  table?: HyperliquidMarginTable,
+): MarginTier[] {
+  const tiers = table?.marginTiers.length
+    ? table.marginTiers
+    : [{ lowerBound: '0', maxLeverage: asset.maxLeverage }];
+
+  let maintenanceAmount = 0;
+  let previousRate = 0;
+  return tiers.map((tier, i) => {
+    const floor = parseFloat(tier.lowerBound);
+    const maintenanceMarginRate = 1 / (2 * tier.maxLeverage);
+    maintenanceAmount += floor * (maintenanceMarginRate - previousRate);
+    previousRate = maintenanceMarginRate;
+
+    return {
+      floor,
+      cap: i + 1 < tiers.length ? parseFloat(tiers[i + 1].lowerBound) : Infinity,
+      basis: 'notional',
+      maxLeverage: tier.maxLeverage,
+      maintenanceMarginRate,
+      maintenanceAmount,
+    };
+  });
+}
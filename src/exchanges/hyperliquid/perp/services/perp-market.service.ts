@@ -1,9 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { IPerpetualMarketService } from '../../../../common/interfaces';
+import { IPerpetualMarketService, MarginTier } from '../../../../common/interfaces';
 import { ApiResponse } from '../../../../common/types/exchange.types';
 import { HyperliquidApiService } from '../../shared/hyperliquid-api.service';
 import { formatSymbol, formatSymbolResponse } from './perp-market.utils';
-import { mapTrade } from './perp-helpers';
+import { HyperliquidMeta } from '../../types';
+import { mapTrade, toMarginTiers } from './perp-helpers';
 
 @Injectable()
 export class HyperliquidPerpMarketService implements IPerpetualMarketService {
@@ -689,6 +690,46 @@ export class HyperliquidPerpMarketService implements IPerpetualMarketService {
     }
   }
 
+  /**
+   * Get margin tiers from the asset's margin table in meta
+   */
+  async getMarginTiers(symbol: string): Promise<ApiResponse<MarginTier[]>> {
+    try {
+      const meta = await this.apiService.getMeta();
+      const data: HyperliquidMeta | undefined = meta.data;
+      const coin = formatSymbol(symbol);
+      const asset = data?.universe?.find(a => a.name === coin);
+
+      if (!meta.success || !asset) {
+        return {
+          success: false,
+          error: meta.success ? `Contract not found for ${symbol}` : 'Failed to get margin tiers',
+          timestamp: Date.now(),
+          exchange: 'hyperliquid',
+          tradingType: 'perpetual',
+        };
+      }
+
+      const table = data.marginTables?.find(([id]) => id === asset.marginTableId)?.[1];
+      return {
+        success: true,
+        data: toMarginTiers(asset, table),
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error(`Error getting margin tiers: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    }
+  }
+
   /**
    * Get futures symbols
    */
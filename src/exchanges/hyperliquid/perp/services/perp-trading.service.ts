@@ -5,19 +5,24 @@ import {
   MarketOrderParams,
   LimitOrderParams,
   CancelOrderParams,
+  CancelAllAfterResult,
+  ModifyOrderParams,
   SetLeverageParams,
   SetPositionModeParams,
   SetStopLossParams,
   SetTakeProfitParams,
+  SetTrailingStopParams,
 } from '../../../../common/interfaces';
 import { ApiResponse, Order, OrderSide, PositionSide } from '../../../../common/types';
 import { OrderPlacementService } from './order-placement.service';
 import { OrderManagementService } from './order-management.service';
 import { PositionService } from './position.service';
 import { RiskManagementService } from './risk-management.service';
+import { TrailingStopService } from './trailing-stop.service';
 import { HyperliquidPerpMarketService } from './perp-market.service';
 import { HyperliquidApiService } from '../../shared/hyperliquid-api.service';
 import { formatSymbol } from './perp-market.utils';
+import { OrderBookManager } from '../../../../common/services/order-book-manager.service';
 
 @Injectable()
 export class HyperliquidPerpTradingService implements IPerpetualTradingService {
@@ -28,8 +33,10 @@ export class HyperliquidPerpTradingService implements IPerpetualTradingService {
     private readonly orderManagementService: OrderManagementService,
     private readonly positionService: PositionService,
     private readonly riskManagementService: RiskManagementService,
+    private readonly trailingStopService: TrailingStopService,
     private readonly apiService: HyperliquidApiService,
     private readonly marketService: HyperliquidPerpMarketService,
+    private readonly orderBookManager: OrderBookManager,
   ) {}
 
   /**
@@ -86,13 +93,54 @@ export class HyperliquidPerpTradingService implements IPerpetualTradingService {
     return this.orderPlacementService.placeLimitOrder(params);
   }
 
+  /**
+   * Place several orders in one order action per batch
+   */
+  async placeOrders(orders: PlaceOrderParams[]): Promise<ApiResponse<ApiResponse<Order>[]>> {
+    return this.orderPlacementService.placeOrders(orders);
+  }
+
+  /**
+   * Modify an open limit order
+   */
+  async modifyOrder(params: ModifyOrderParams): Promise<ApiResponse<Order>> {
+    return this.orderManagementService.modifyOrder(params);
+  }
+
   /**
    * Cancel an order
    */
   async cancelOrder(params: CancelOrderParams): Promise<ApiResponse<any>> {
+    if (params.orderId && this.trailingStopService.has(params.orderId)) {
+      return this.trailingStopService.cancel(params.orderId);
+    }
     return this.orderManagementService.cancelOrder(params);
   }
 
+  /**
+   * Cancel several orders in one cancel action per batch (server-side trailing stops are
+   * cancelled locally)
+   */
+  async cancelOrders(orders: CancelOrderParams[]): Promise<ApiResponse<ApiResponse<any>[]>> {
+    const isTrailing = (params: CancelOrderParams) =>
+      !!params.orderId && this.trailingStopService.has(params.orderId);
+
+    const response = await this.orderManagementService.cancelOrders(
+      orders.filter(params => !isTrailing(params)),
+    );
+    if (!response.success) return response;
+
+    const results = response.data!;
+    return {
+      ...response,
+      data: await Promise.all(
+        orders.map(params =>
+          isTrailing(params) ? this.trailingStopService.cancel(params.orderId!) : results.shift()!,
+        ),
+      ),
+    };
+  }
+
   /**
    * Cancel all orders
    */
@@ -100,6 +148,13 @@ export class HyperliquidPerpTradingService implements IPerpetualTradingService {
     return this.orderManagementService.cancelAllOrders(symbol);
   }
 
+  /**
+   * Schedule a cancel of all open orders (dead man's switch)
+   */
+  async cancelAllAfter(timeoutMs: number): Promise<ApiResponse<CancelAllAfterResult>> {
+    return this.orderManagementService.cancelAllAfter(timeoutMs);
+  }
+
   /**
    * Get open orders
    */
@@ -114,6 +169,16 @@ export class HyperliquidPerpTradingService implements IPerpetualTradingService {
     return this.orderManagementService.getOrder(symbol, orderId);
   }
 
+  /**
+   * Get order details by client order ID
+   */
+  async getOrderByClientId(
+    symbol: string,
+    clientOrderId: string,
+  ): Promise<ApiResponse<Order | null>> {
+    return this.orderManagementService.getOrderByClientId(symbol, clientOrderId);
+  }
+
   /**
    * Quick market buy
    */
@@ -198,10 +263,18 @@ export class HyperliquidPerpTradingService implements IPerpetualTradingService {
     return this.riskManagementService.setTakeProfit(params);
   }
 
+  /**
+   * Set trailing stop for position (server-side: Hyperliquid has no native trailing order)
+   */
+  async setTrailingStop(params: SetTrailingStopParams): Promise<ApiResponse<Order>> {
+    return this.trailingStopService.start(params);
+  }
+
   /**
    * Cancel all conditional orders (stop loss / take profit)
    */
   async cancelAllConditionalOrders(symbol: string): Promise<ApiResponse<any>> {
+    this.trailingStopService.release(symbol);
     return this.riskManagementService.cancelAllConditionalOrders(symbol);
   }
 
@@ -238,6 +311,7 @@ export class HyperliquidPerpTradingService implements IPerpetualTradingService {
 
       // IMPORTANT: Cancel all conditional orders first before closing positions
       this.logger.log('Canceling all conditional orders before closing all positions');
+      this.trailingStopService.release('');
       await this.riskManagementService.cancelAllConditionalOrders('');
 
       const results = await Promise.all(
@@ -450,6 +524,7 @@ export class HyperliquidPerpTradingService implements IPerpetualTradingService {
 
       // IMPORTANT: Cancel all TP/SL orders before closing position
       this.logger.log(`Canceling all conditional orders for ${symbol} before closing position`);
+      this.trailingStopService.release(symbol);
       await this.riskManagementService.cancelAllConditionalOrders(symbol);
 
       const side = position.side === PositionSide.LONG ? OrderSide.SELL : OrderSide.BUY;
@@ -572,13 +647,16 @@ export class HyperliquidPerpTradingService implements IPerpetualTradingService {
       this.logger.log(`Setting leverage ${leverage}x for ${symbol}`);
       await this.positionService.setLeverage({ symbol, leverage });
 
-      // 2. Get current price
-      const priceResponse = await this.marketService.getCurrentPrice(symbol);
-      if (!priceResponse.success || !priceResponse.data) {
-        return priceResponse;
+      // 2. Get current price (local order book mid when synced, otherwise REST)
+      let currentPrice = this.orderBookManager.getMidPrice('hyperliquid', symbol);
+      if (currentPrice === undefined) {
+        const priceResponse = await this.marketService.getCurrentPrice(symbol);
+        if (!priceResponse.success || !priceResponse.data) {
+          return priceResponse;
+        }
+        currentPrice = parseFloat(priceResponse.data);
       }
 
-      const currentPrice = parseFloat(priceResponse.data);
       const quantity = ((usdValue * leverage) / currentPrice).toFixed(8);
 
       this.logger.log(`Opening long position: ${quantity} ${symbol} @ $${currentPrice}`);
@@ -670,13 +748,16 @@ export class HyperliquidPerpTradingService implements IPerpetualTradingService {
       this.logger.log(`Setting leverage ${leverage}x for ${symbol}`);
       await this.positionService.setLeverage({ symbol, leverage });
 
-      // 2. Get current price
-      const priceResponse = await this.marketService.getCurrentPrice(symbol);
-      if (!priceResponse.success || !priceResponse.data) {
-        return priceResponse;
+      // 2. Get current price (local order book mid when synced, otherwise REST)
+      let currentPrice = this.orderBookManager.getMidPrice('hyperliquid', symbol);
+      if (currentPrice === undefined) {
+        const priceResponse = await this.marketService.getCurrentPrice(symbol);
+        if (!priceResponse.success || !priceResponse.data) {
+          return priceResponse;
+        }
+        currentPrice = parseFloat(priceResponse.data);
       }
 
-      const currentPrice = parseFloat(priceResponse.data);
       const quantity = ((usdValue * leverage) / currentPrice).toFixed(8);
 
       this.logger.log(`Opening short position: ${quantity} ${symbol} @ $${currentPrice}`);
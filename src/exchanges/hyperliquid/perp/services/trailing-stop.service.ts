@@ -0,0 +1,322 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { SetTrailingStopParams } from '../../../../common/interfaces';
+import {
+  ApiResponse,
+  Order,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  Position,
+  PositionSide,
+} from '../../../../common/types';
+import { HyperliquidConfig } from '../../../../config/hyperliquid.config';
+import { HyperliquidApiService } from '../../shared/hyperliquid-api.service';
+import { HyperliquidOrderRequest, HyperliquidTrailingStop } from '../../types';
+import { getTrailingTriggerPrice, roundPerpPrice } from './perp-helpers';
+import { formatSymbol } from './perp-market.utils';
+import { PositionService } from './position.service';
+
+// Trigger order statuses after which the trailing stop is done
+const TRIGGERED_STATUSES = ['triggered', 'filled'];
+
+/**
+ * Server-side trailing stops (Hyperliquid has no native trailing order).
+ *
+ * Each trailing stop is a reduce-only stop-market trigger order that is re-placed as the mid
+ * price moves in the position's favour: the new trigger goes in first and the previous one is
+ * cancelled after, so the position is never left unprotected. Before `activationPrice` is
+ * reached no trigger order rests. Watchers live in memory: after a restart the last trigger
+ * order stays on the exchange as a fixed stop.
+ */
+@Injectable()
+export class TrailingStopService implements OnModuleDestroy {
+  private readonly logger = new Logger(TrailingStopService.name);
+  private readonly stops = new Map<string, HyperliquidTrailingStop>();
+  private readonly intervalMs: number;
+  private interval?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    configService: ConfigService,
+    private readonly apiService: HyperliquidApiService,
+    private readonly positionService: PositionService,
+  ) {
+    this.intervalMs = configService.get<HyperliquidConfig>('hyperliquid')!.trailingStopIntervalMs;
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.interval);
+  }
+
+  /**
+   * Start trailing a position
+   */
+  async start(params: SetTrailingStopParams): Promise<ApiResponse<Order>> {
+    try {
+      const coin = formatSymbol(params.symbol);
+      let side = params.side as OrderSide;
+      let quantity = params.quantity;
+
+      if (!side || !quantity) {
+        const position = await this.getPosition(params.symbol);
+        side = side || (position.side === PositionSide.SHORT ? OrderSide.BUY : OrderSide.SELL);
+        quantity = quantity || position.size;
+      }
+
+      const stop: HyperliquidTrailingStop = {
+        id: `trailing-${randomUUID()}`,
+        symbol: params.symbol,
+        coin,
+        side,
+        quantity,
+        callbackRate: params.callbackRate,
+        activationPrice: params.activationPrice ? parseFloat(params.activationPrice) : undefined,
+        createdAt: Date.now(),
+      };
+
+      const mids = await this.getMids();
+      await this.update(stop, parseFloat(mids[coin]));
+
+      this.stops.set(stop.id, stop);
+      this.interval ??= setInterval(() => void this.runTick(), this.intervalMs);
+      this.logger.log(
+        `Trailing stop ${stop.id}: ${side} ${quantity} ${coin} ${params.callbackRate}% ` +
+          (stop.triggerPrice
+            ? `from the mid, trigger at ${stop.triggerPrice}`
+            : `once the mid reaches ${stop.activationPrice}`),
+      );
+
+      return {
+        success: true,
+        data: this.toOrder(stop),
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error(`Error setting trailing stop: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: Date.now(),
+        exchange: 'hyperliquid',
+        tradingType: 'perpetual',
+      };
+    }
+  }
+
+  has(id: string): boolean {
+    return this.stops.has(id);
+  }
+
+  /**
+   * Stop trailing and cancel the current trigger order
+   */
+  async cancel(id: string): Promise<ApiResponse<Order>> {
+    const stop = this.stops.get(id)!;
+    this.stops.delete(id);
+
+    if (stop.triggerOrderId) {
+      await this.cancelTrigger(stop, stop.triggerOrderId);
+    }
+    this.logger.log(`Trailing stop ${id} cancelled`);
+
+    return {
+      success: true,
+      data: { ...this.toOrder(stop), status: OrderStatus.CANCELED },
+      timestamp: Date.now(),
+      exchange: 'hyperliquid',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Stop trailing a symbol (every symbol when empty) without touching its trigger orders,
+   * for callers that cancel those themselves
+   */
+  release(symbol: string): string[] {
+    const coin = symbol ? formatSymbol(symbol) : undefined;
+    const released = [...this.stops.values()].filter(stop => !coin || stop.coin === coin);
+
+    for (const stop of released) {
+      this.stops.delete(stop.id);
+    }
+    return released.map(stop => stop.id);
+  }
+
+  private async runTick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const mids = await this.getMids();
+
+      for (const stop of [...this.stops.values()]) {
+        try {
+          await this.track(stop, parseFloat(mids[stop.coin]));
+        } catch (error: any) {
+          this.logger.warn(`Error updating trailing stop ${stop.id}: ${error.message}`);
+        }
+      }
+    } catch (error: any) {
+      this.logger.warn(`Error updating trailing stops: ${error.message}`);
+    } finally {
+      this.ticking = false;
+      if (this.stops.size === 0) {
+        clearInterval(this.interval);
+        this.interval = undefined;
+      }
+    }
+  }
+
+  private async track(stop: HyperliquidTrailingStop, mid: number): Promise<void> {
+    if (stop.triggerOrderId) {
+      const status = await this.getTriggerStatus(stop.triggerOrderId);
+
+      if (status && status !== 'open') {
+        this.stops.delete(stop.id);
+        this.logger.log(
+          TRIGGERED_STATUSES.includes(status)
+            ? `Trailing stop ${stop.id} triggered at ${stop.triggerPrice}`
+            : `Trailing stop ${stop.id} ended: trigger order ${status}`,
+        );
+        return;
+      }
+    }
+
+    // Cancelled while the status was being fetched
+    if (!this.stops.has(stop.id)) return;
+
+    await this.update(stop, mid);
+
+    // Cancelled while the trigger order was being moved
+    if (!this.stops.has(stop.id) && stop.triggerOrderId) {
+      await this.cancelTrigger(stop, stop.triggerOrderId);
+    }
+  }
+
+  /**
+   * Follow the mid price and move the trigger order when the stop level improves
+   */
+  private async update(stop: HyperliquidTrailingStop, mid: number): Promise<void> {
+    if (!(mid > 0)) {
+      throw new Error(`No mid price for ${stop.coin}`);
+    }
+
+    const sell = stop.side === OrderSide.SELL;
+    if (stop.bestPrice === undefined) {
+      const activated =
+        !stop.activationPrice || (sell ? mid >= stop.activationPrice : mid <= stop.activationPrice);
+      if (!activated) return;
+    }
+
+    stop.bestPrice =
+      stop.bestPrice === undefined
+        ? mid
+        : sell
+          ? Math.max(stop.bestPrice, mid)
+          : Math.min(stop.bestPrice, mid);
+
+    const { szDecimals } = await this.apiService.getAssetInfo(stop.coin);
+    const triggerPrice = roundPerpPrice(
+      getTrailingTriggerPrice(stop.side, stop.bestPrice, stop.callbackRate),
+      szDecimals,
+    );
+    if (triggerPrice === stop.triggerPrice) return;
+
+    const previous = stop.triggerOrderId;
+    stop.triggerOrderId = await this.placeTrigger(stop, triggerPrice);
+    stop.triggerPrice = triggerPrice;
+
+    if (previous) {
+      await this.cancelTrigger(stop, previous);
+    }
+  }
+
+  private async placeTrigger(stop: HyperliquidTrailingStop, triggerPrice: number): Promise<string> {
+    const orderRequest: HyperliquidOrderRequest = {
+      coin: stop.coin,
+      is_buy: stop.side === OrderSide.BUY,
+      sz: parseFloat(stop.quantity),
+      limit_px: triggerPrice,
+      order_type: {
+        trigger: {
+          isMarket: true,
+          triggerPx: triggerPrice,
+          tpsl: 'sl',
+        },
+      },
+      reduce_only: true,
+    };
+
+    const result = await this.apiService.placeOrder(orderRequest);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to place trigger order');
+    }
+
+    const status = result.data?.response?.data?.statuses?.[0];
+    if (status?.error) {
+      throw new Error(status.error);
+    }
+    if (status?.resting?.oid === undefined) {
+      throw new Error('Trigger order was not acknowledged');
+    }
+    return status.resting.oid.toString();
+  }
+
+  private async cancelTrigger(stop: HyperliquidTrailingStop, orderId: string): Promise<void> {
+    const result = await this.apiService.cancelOrder(stop.coin, parseInt(orderId, 10));
+    if (!result.success) {
+      this.logger.warn(
+        `Could not cancel trigger order ${orderId} of trailing stop ${stop.id}: ${result.error}`,
+      );
+    }
+  }
+
+  /**
+   * Hyperliquid status of a trigger order, undefined while the exchange does not know it yet
+   */
+  private async getTriggerStatus(orderId: string): Promise<string | undefined> {
+    const result = await this.apiService.getOrderStatus(orderId);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to get trigger order status');
+    }
+
+    // { status: 'unknownOid' } or { status: 'order', order: { order, status } }
+    return result.data.status === 'order' ? result.data.order.status : undefined;
+  }
+
+  private async getMids(): Promise<Record<string, string>> {
+    const result = await this.apiService.getAllMids();
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to get mid prices');
+    }
+    return result.data;
+  }
+
+  private async getPosition(symbol: string): Promise<Position> {
+    const result = await this.positionService.getPositions(symbol);
+    const position = Array.isArray(result.data) ? result.data[0] : result.data;
+
+    if (!result.success || !position || !(parseFloat(position.size) > 0)) {
+      throw new Error('No position found to set trailing stop');
+    }
+    return position;
+  }
+
+  private toOrder(stop: HyperliquidTrailingStop): Order {
+    return {
+      orderId: stop.id,
+      symbol: stop.symbol,
+      side: stop.side,
+      type: OrderType.TRAILING_STOP,
+      status: OrderStatus.NEW,
+      price: (stop.triggerPrice ?? stop.activationPrice ?? 0).toString(),
+      quantity: stop.quantity,
+      executedQuantity: '0',
+      timestamp: stop.createdAt,
+    };
+  }
+}
@@ -4,6 +4,8 @@ import axios, { AxiosInstance } from 'axios';
 import { HyperliquidApiResponse } from '../types';
 import { HyperliquidConfig } from '../../../config/hyperliquid.config';
 import { SigningService } from './signing.service';
+import { RateLimiterService } from '../../../common/services/rate-limiter.service';
+import { CircuitBreakerService } from '../../../common/services/circuit-breaker.service';
 
 @Injectable()
 export class HyperliquidApiService {
@@ -17,6 +19,8 @@ export class HyperliquidApiService {
   constructor(
     private configService: ConfigService,
     private signingService: SigningService,
+    private rateLimiter: RateLimiterService,
+    private circuitBreaker: CircuitBreakerService,
   ) {
     this.hyperliquidConfig = this.configService.get<HyperliquidConfig>('hyperliquid')!;
     this.baseURL = this.hyperliquidConfig.restUrl;
@@ -28,6 +32,8 @@ export class HyperliquidApiService {
         'Content-Type': 'application/json',
       },
     });
+    this.circuitBreaker.attach('hyperliquid', this.httpClient);
+    this.rateLimiter.attach('hyperliquid', this.httpClient);
 
     this.validateCredentials();
     this.logger.log(`Hyperliquid API Service initialized with base URL: ${this.baseURL}`);
@@ -251,6 +257,14 @@ export class HyperliquidApiService {
     return this.post('/info', { type: 'openOrders', user: address });
   }
 
+  /**
+   * Get the status of an order by order ID or client order ID (cloid)
+   */
+  async getOrderStatus(oid: number | string, user?: string): Promise<HyperliquidApiResponse> {
+    const address = user || this.hyperliquidConfig.userAddress;
+    return this.post('/info', { type: 'orderStatus', user: address, oid });
+  }
+
   /**
    * Get L2 order book
    */
@@ -320,18 +334,28 @@ export class HyperliquidApiService {
    * Place order
    */
   async placeOrder(orderRequest: any): Promise<HyperliquidApiResponse> {
-    // Log the exact order request being sent
-    this.logger.debug('Order Request (before wire):', JSON.stringify(orderRequest, null, 2));
+    return this.placeOrders([orderRequest]);
+  }
+
+  /**
+   * Place several orders in one order action; the response has one status per order
+   */
+  async placeOrders(orderRequests: any[]): Promise<HyperliquidApiResponse> {
+    // Log the exact order requests being sent
+    this.logger.debug('Order Requests (before wire):', JSON.stringify(orderRequests, null, 2));
 
     // Convert to wire format
-    const orderWire = await this.orderRequestToWire(orderRequest);
-    this.logger.debug('Order Wire:', JSON.stringify(orderWire, null, 2));
+    const orderWires: any[] = [];
+    for (const orderRequest of orderRequests) {
+      orderWires.push(await this.orderRequestToWire(orderRequest));
+    }
+    this.logger.debug('Order Wires:', JSON.stringify(orderWires, null, 2));
 
     // IMPORTANT: Key order matters for msgpack encoding!
     // Must match Python SDK order: type, orders, grouping
     const action: any = {};
     action.type = 'order';
-    action.orders = [orderWire];
+    action.orders = orderWires;
     action.grouping = 'na';
 
     this.logger.debug('Action being sent:', JSON.stringify(action, null, 2));
@@ -339,14 +363,54 @@ export class HyperliquidApiService {
     return this.postSigned('/exchange', action);
   }
 
+  /**
+   * Modify order. Sent as a one-entry batchModify (as the Python SDK does) because the plain
+   * modify action answers without the status of the new order.
+   */
+  async modifyOrder(oid: number | string, orderRequest: any): Promise<HyperliquidApiResponse> {
+    return this.modifyOrders([{ oid, orderRequest }]);
+  }
+
+  /**
+   * Modify several orders in one batchModify action; the response has one status per order.
+   * Each modified order gets a new oid.
+   */
+  async modifyOrders(
+    modifies: { oid: number | string; orderRequest: any }[],
+  ): Promise<HyperliquidApiResponse> {
+    const wires: { oid: number | string; order: any }[] = [];
+    for (const { oid, orderRequest } of modifies) {
+      // IMPORTANT: Key order matters for msgpack encoding! (oid, order)
+      wires.push({ oid, order: await this.orderRequestToWire(orderRequest) });
+    }
+
+    const action: any = {};
+    action.type = 'batchModify';
+    action.modifies = wires;
+
+    return this.postSigned('/exchange', action);
+  }
+
   /**
    * Cancel order
    */
   async cancelOrder(coin: string, oid: number): Promise<HyperliquidApiResponse> {
+    return this.cancelOrders([{ coin, oid }]);
+  }
+
+  /**
+   * Cancel several orders in one cancel action; the response has one status per order
+   */
+  async cancelOrders(cancels: { coin: string; oid: number }[]): Promise<HyperliquidApiResponse> {
+    const wires: { a: number; o: number }[] = [];
+    for (const { coin, oid } of cancels) {
+      wires.push({ a: await this.getAssetId(coin), o: oid });
+    }
+
     // IMPORTANT: Key order matters for msgpack encoding!
     const action: any = {};
     action.type = 'cancel';
-    action.cancels = [{ a: await this.getAssetId(coin), o: oid }];
+    action.cancels = wires;
 
     return this.postSigned('/exchange', action);
   }
@@ -557,13 +621,15 @@ export class HyperliquidApiService {
   }
 
   /**
-   * Schedule cancel (dead man's switch)
+   * Schedule cancel (dead man's switch): cancel all open orders at time (ms, at least 5 seconds
+   * ahead). Without a time the scheduled cancel is removed.
    */
   async scheduleCancel(time?: number): Promise<HyperliquidApiResponse> {
-    const action = {
-      type: 'scheduleCancel',
-      time,
-    };
+    // Omit time rather than sending it undefined, which msgpack would sign as nil
+    const action: { type: string; time?: number } = { type: 'scheduleCancel' };
+    if (time !== undefined) {
+      action.time = time;
+    }
 
     return this.postSigned('/exchange', action);
   }
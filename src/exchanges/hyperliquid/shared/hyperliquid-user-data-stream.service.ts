@@ -0,0 +1,135 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseUserDataStreamService } from '../../../common/websocket/base-user-data-stream.service';
+import { WebSocketConnection } from '../../../common/websocket/websocket-connection';
+import { UserDataEventBus } from '../../../common/services/user-data-event-bus.service';
+import { ExchangeName, Position, PositionSide } from '../../../common/types/exchange.types';
+import { HyperliquidConfig } from '../../../config/hyperliquid.config';
+import { HyperliquidPerpBalanceService } from '../perp/services/perp-balance.service';
+import { mapOrder, mapOrderStatus, mapTrade } from '../perp/services/perp-helpers';
+
+/**
+ * Hyperliquid private streams (orderUpdates and userEvents).
+ * Hyperliquid has no position channel, so positions are refreshed from the clearinghouse
+ * state after each batch of fills.
+ */
+@Injectable()
+export class HyperliquidUserDataStreamService extends BaseUserDataStreamService {
+  private readonly logger = new Logger(HyperliquidUserDataStreamService.name);
+  protected readonly exchange: ExchangeName = 'hyperliquid';
+  private readonly connection: WebSocketConnection;
+  private readonly userAddress: string;
+  private openPositions = new Set<string>();
+
+  constructor(
+    configService: ConfigService,
+    eventBus: UserDataEventBus,
+    private readonly balanceService: HyperliquidPerpBalanceService,
+  ) {
+    super(configService, eventBus);
+    const hyperliquidConfig = this.configService.get<HyperliquidConfig>('hyperliquid')!;
+    this.userAddress = hyperliquidConfig.userAddress;
+
+    this.connection = new WebSocketConnection(HyperliquidUserDataStreamService.name, {
+      url: hyperliquidConfig.wsUrl,
+      onOpen: () => {
+        for (const type of ['orderUpdates', 'userEvents']) {
+          this.connection.send({
+            method: 'subscribe',
+            subscription: { type, user: this.userAddress },
+          });
+        }
+      },
+      onMessage: data => this.handleMessage(data),
+      // Server closes connections that are idle for 60 seconds
+      pingIntervalMs: 50000,
+      pingMessage: { method: 'ping' },
+    });
+  }
+
+  async start(): Promise<boolean> {
+    if (!this.userAddress) {
+      this.logger.warn('Hyperliquid user address not configured, user data stream disabled');
+      return false;
+    }
+
+    this.connection.connect();
+    return true;
+  }
+
+  stop(): void {
+    this.connection.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.connection.isConnected();
+  }
+
+  private handleMessage(data: string): void {
+    try {
+      const message = JSON.parse(data);
+      const payload = message.data;
+
+      switch (message.channel) {
+        case 'orderUpdates':
+          for (const update of payload) {
+            this.publishOrder({
+              ...mapOrder(update.order),
+              clientOrderId: update.order.cloid || undefined,
+              status: mapOrderStatus(update.status),
+              updateTime: update.statusTimestamp,
+            });
+          }
+          break;
+
+        case 'userEvents':
+          if (Array.isArray(payload?.fills) && payload.fills.length > 0) {
+            for (const fill of payload.fills) {
+              this.publishTrade(mapTrade({ ...fill, feeAsset: fill.feeToken }));
+            }
+            void this.refreshPositions();
+          }
+          break;
+
+        case 'error':
+          this.logger.warn(`Subscription error: ${payload}`);
+          break;
+      }
+    } catch (error: any) {
+      this.logger.error('Error parsing user data message:', error.message);
+    }
+  }
+
+  /**
+   * Publish current positions, plus a flat position for any symbol that was closed
+   */
+  private async refreshPositions(): Promise<void> {
+    const response = await this.balanceService.getPositions();
+
+    if (!response.success || !response.data) {
+      this.logger.warn(`Failed to refresh positions: ${response.error}`);
+      return;
+    }
+
+    const positions = response.data as Position[];
+    const symbols = new Set(positions.map(position => position.symbol));
+
+    for (const position of positions) {
+      this.publishPosition(position);
+    }
+
+    for (const symbol of this.openPositions) {
+      if (!symbols.has(symbol)) {
+        this.publishPosition({
+          symbol,
+          side: PositionSide.BOTH,
+          size: '0',
+          entryPrice: '0',
+          unrealizedPnl: '0',
+        });
+      }
+    }
+
+    this.openPositions = symbols;
+  }
+}
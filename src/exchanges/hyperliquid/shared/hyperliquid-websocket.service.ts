@@ -0,0 +1,184 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseMarketStreamService } from '../../../common/websocket/base-market-stream.service';
+import { WebSocketConnection } from '../../../common/websocket/websocket-connection';
+import { MarketStreamTopic } from '../../../common/interfaces/market-stream.interface';
+import { ExchangeName, OrderSide } from '../../../common/types/exchange.types';
+import { HyperliquidConfig } from '../../../config/hyperliquid.config';
+import { formatSymbol } from '../perp/services/perp-market.utils';
+
+/**
+ * Hyperliquid public market streams
+ */
+@Injectable()
+export class HyperliquidWebSocketService extends BaseMarketStreamService {
+  private readonly logger = new Logger(HyperliquidWebSocketService.name);
+  protected readonly exchange: ExchangeName = 'hyperliquid';
+  private readonly connection: WebSocketConnection;
+
+  constructor(private configService: ConfigService) {
+    super();
+    const hyperliquidConfig = this.configService.get<HyperliquidConfig>('hyperliquid')!;
+
+    this.connection = new WebSocketConnection(HyperliquidWebSocketService.name, {
+      url: hyperliquidConfig.wsUrl,
+      onOpen: () =>
+        this.getTopics()
+          .filter(topic => topic.channel !== 'depth' || !this.isSharedBookSubscribed(topic))
+          .forEach(topic => this.sendSubscription('subscribe', topic)),
+      onMessage: data => this.handleMessage(data),
+      // Server closes connections that are idle for 60 seconds
+      pingIntervalMs: 50000,
+      pingMessage: { method: 'ping' },
+    });
+  }
+
+  isConnected(): boolean {
+    return this.connection.isConnected();
+  }
+
+  protected normalizeSymbol(symbol: string): string {
+    return formatSymbol(symbol.split(/[/_-]/)[0]);
+  }
+
+  protected addTopic(topic: MarketStreamTopic): void {
+    if (this.isSharedBookSubscribed(topic)) return;
+
+    if (this.connection.isConnected()) {
+      this.sendSubscription('subscribe', topic);
+    } else {
+      this.connection.connect();
+    }
+  }
+
+  protected removeTopic(topic: MarketStreamTopic): void {
+    if (this.getTopics().length === 0) {
+      this.connection.disconnect();
+      return;
+    }
+
+    if (this.isSharedBookSubscribed(topic)) return;
+
+    this.sendSubscription('unsubscribe', topic);
+  }
+
+  protected disconnect(): void {
+    this.connection.disconnect();
+  }
+
+  /**
+   * l2Book pushes full snapshots, so the orderbook and depth channels share one subscription
+   */
+  private isSharedBookSubscribed(topic: MarketStreamTopic): boolean {
+    if (topic.channel !== 'orderbook' && topic.channel !== 'depth') return false;
+
+    const sibling = topic.channel === 'orderbook' ? 'depth' : 'orderbook';
+    return this.hasTopic({ channel: sibling, symbol: topic.symbol });
+  }
+
+  /**
+   * Map a topic to a Hyperliquid subscription object
+   */
+  private toSubscription(topic: MarketStreamTopic): Record<string, string> {
+    switch (topic.channel) {
+      case 'ticker':
+        return { type: 'activeAssetCtx', coin: topic.symbol };
+      case 'orderbook':
+      case 'depth':
+        return { type: 'l2Book', coin: topic.symbol };
+      case 'trades':
+        return { type: 'trades', coin: topic.symbol };
+      case 'candles':
+        return { type: 'candle', coin: topic.symbol, interval: topic.interval! };
+    }
+  }
+
+  private sendSubscription(method: 'subscribe' | 'unsubscribe', topic: MarketStreamTopic): void {
+    this.connection.send({ method, subscription: this.toSubscription(topic) });
+  }
+
+  /**
+   * Normalize incoming channel payloads
+   */
+  private handleMessage(data: string): void {
+    try {
+      const message = JSON.parse(data);
+      const payload = message.data;
+
+      switch (message.channel) {
+        case 'activeAssetCtx':
+          this.emit(
+            { channel: 'ticker', symbol: payload.coin },
+            {
+              symbol: payload.coin,
+              price: payload.ctx.midPx ?? payload.ctx.markPx,
+              timestamp: Date.now(),
+            },
+          );
+          break;
+
+        case 'l2Book': {
+          const [bids, asks] = payload.levels;
+          const book = {
+            symbol: payload.coin,
+            bids: bids.map((level: any): [string, string] => [level.px, level.sz]),
+            asks: asks.map((level: any): [string, string] => [level.px, level.sz]),
+            timestamp: payload.time,
+          };
+
+          this.emit({ channel: 'orderbook', symbol: payload.coin }, book);
+          this.emit(
+            { channel: 'depth', symbol: payload.coin },
+            {
+              ...book,
+              snapshot: true,
+              firstUpdateId: payload.time,
+              lastUpdateId: payload.time,
+            },
+          );
+          break;
+        }
+
+        case 'trades':
+          for (const trade of payload) {
+            this.emit(
+              { channel: 'trades', symbol: trade.coin },
+              {
+                id: trade.tid?.toString() || trade.hash || '',
+                orderId: '',
+                symbol: trade.coin,
+                side: trade.side === 'B' ? OrderSide.BUY : OrderSide.SELL,
+                price: trade.px,
+                quantity: trade.sz,
+                fee: '0',
+                feeAsset: '',
+                timestamp: trade.time,
+              },
+            );
+          }
+          break;
+
+        case 'candle':
+          this.emit(
+            { channel: 'candles', symbol: payload.s, interval: payload.i },
+            {
+              openTime: payload.t,
+              open: payload.o,
+              high: payload.h,
+              low: payload.l,
+              close: payload.c,
+              volume: payload.v,
+              closeTime: payload.T,
+            },
+          );
+          break;
+
+        case 'error':
+          this.logger.warn(`Subscription error: ${payload}`);
+          break;
+      }
+    } catch (error: any) {
+      this.logger.error('Error parsing WebSocket message:', error.message);
+    }
+  }
+}
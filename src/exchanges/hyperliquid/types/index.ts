@@ -1,5 +1,7 @@
 // Hyperliquid API Types
 
+import { OrderSide } from '../../../common/types';
+
 export interface HyperliquidApiCredentials {
   walletAddress: string;
   privateKey: string;
@@ -48,6 +50,23 @@ export interface HyperliquidOrderRequest {
   reduce_only?: boolean;
 }
 
+// Server-side trailing stop: a reduce-only stop trigger order re-placed as the price moves
+export interface HyperliquidTrailingStop {
+  id: string;
+  symbol: string;
+  coin: string;
+  // Side of the closing order
+  side: OrderSide;
+  quantity: string;
+  callbackRate: number;
+  activationPrice?: number;
+  // Best mid price since activation (high for a SELL, low for a BUY); unset until activated
+  bestPrice?: number;
+  triggerOrderId?: string;
+  triggerPrice?: number;
+  createdAt: number;
+}
+
 export interface HyperliquidOrder {
   coin: string;
   side: 'A' | 'B'; // A = Ask (sell), B = Bid (buy)
@@ -92,10 +111,18 @@ export interface HyperliquidAssetInfo {
   szDecimals: number;
   maxLeverage: number;
   onlyIsolated: boolean;
+  marginTableId?: number;
+}
+
+// Leverage tiers by position notional, from lowerBound up to the next tier
+export interface HyperliquidMarginTable {
+  description: string;
+  marginTiers: { lowerBound: string; maxLeverage: number }[];
 }
 
 export interface HyperliquidMeta {
   universe: HyperliquidAssetInfo[];
+  marginTables?: [number, HyperliquidMarginTable][];
 }
 
 export interface HyperliquidL2Book {
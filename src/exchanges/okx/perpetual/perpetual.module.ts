@@ -8,6 +8,8 @@ import { OkxPerpetualMarketService } from './services/perpetual-market.service';
 
 // Shared services
 import { OkxApiService } from '../shared/okx-api.service';
+import { OkxWebSocketService } from '../shared/okx-websocket.service';
+import { OkxUserDataStreamService } from '../shared/okx-user-data-stream.service';
 
 @Module({
   imports: [ConfigModule],
@@ -16,7 +18,15 @@ import { OkxApiService } from '../shared/okx-api.service';
     OkxPerpetualBalanceService,
     OkxPerpetualMarketService,
     OkxApiService,
+    OkxWebSocketService,
+    OkxUserDataStreamService,
+  ],
+  exports: [
+    OkxPerpetualTradingService,
+    OkxPerpetualBalanceService,
+    OkxPerpetualMarketService,
+    OkxWebSocketService,
+    OkxUserDataStreamService,
   ],
-  exports: [OkxPerpetualTradingService, OkxPerpetualBalanceService, OkxPerpetualMarketService],
 })
 export class OkxPerpetualModule {}
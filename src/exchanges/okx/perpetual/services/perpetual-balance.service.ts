@@ -1,16 +1,51 @@
 import { Injectable, Logger } from '@nestjs/common';
+import {
+  IPerpetualBalanceService,
+  PerpetualAccountInfo,
+  PositionMargin,
+  IncomeHistory,
+  TransactionHistory,
+} from '../../../../common/interfaces';
+import {
+  ApiResponse,
+  Balance,
+  Position,
+  PositionSide,
+} from '../../../../common/types/exchange.types';
 import { OkxApiService } from '../../shared/okx-api.service';
+import { OkxAccountBalance, OkxBalanceDetail, OkxPosition } from '../../types';
+import { OkxPerpetualMarketService } from './perpetual-market.service';
+import { toInstId } from './perpetual-market.utils';
+
+/**
+ * OKX bill types mapped to unified income types
+ */
+const BILL_TYPE_TO_INCOME: Record<string, IncomeHistory['incomeType']> = {
+  '1': 'TRANSFER',
+  '2': 'REALIZED_PNL',
+  '8': 'FUNDING_FEE',
+};
+
+const INCOME_TO_BILL_TYPE: Record<string, string> = {
+  TRANSFER: '1',
+  REALIZED_PNL: '2',
+  COMMISSION: '2',
+  FUNDING_FEE: '8',
+};
 
 @Injectable()
-export class OkxPerpetualBalanceService {
+export class OkxPerpetualBalanceService implements IPerpetualBalanceService {
   private readonly logger = new Logger(OkxPerpetualBalanceService.name);
 
-  constructor(private readonly apiService: OkxApiService) {}
+  constructor(
+    private readonly apiService: OkxApiService,
+    private readonly marketService: OkxPerpetualMarketService,
+  ) {}
 
   /**
    * Get account configuration
    */
-  async getAccountConfig(): Promise<any> {
+  async getAccountConfig(): Promise<ApiResponse<any>> {
     try {
       this.logger.log('Fetching OKX account configuration...');
 
@@ -32,100 +67,544 @@ export class OkxPerpetualBalanceService {
       return {
         success: true,
         data: config,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
       this.logger.error('Error fetching account config:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to fetch account config',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Get account balance information
+   * Get account balance
    */
-  async getBalance(): Promise<any> {
+  async getBalance(asset?: string): Promise<ApiResponse<Balance | Balance[]>> {
     try {
-      this.logger.log('Fetching OKX account balance...');
+      const account = await this.fetchAccountBalance();
+      const balances: Balance[] = account.details.map(detail => this.mapToStandardBalance(detail));
 
-      const response = await this.apiService.get('/api/v5/account/balance');
+      if (asset) {
+        const balance = balances.find(b => b.asset === asset);
+        if (!balance) {
+          return {
+            success: false,
+            error: `Asset ${asset} not found`,
+            timestamp: Date.now(),
+          };
+        }
+        return {
+          success: true,
+          data: balance,
+          timestamp: Date.now(),
+          exchange: 'okx',
+          tradingType: 'perpetual',
+        };
+      }
 
-      if (!response.success || !response.data || response.data.length === 0) {
-        throw new Error(response.error || 'Failed to fetch balance');
+      return {
+        success: true,
+        data: balances,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting balance:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get balance',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get non-zero balances
+   */
+  async getNonZeroBalances(): Promise<ApiResponse<Balance[]>> {
+    const result = await this.getBalance();
+    if (result.success && result.data) {
+      const balances = Array.isArray(result.data) ? result.data : [result.data];
+      return {
+        ...result,
+        data: balances.filter(b => parseFloat(b.total) > 0),
+      };
+    }
+    return result as ApiResponse<Balance[]>;
+  }
+
+  /**
+   * Get total portfolio value (USD equity)
+   */
+  async getPortfolioValue(): Promise<
+    ApiResponse<{ totalValue: string; availableBalance: string; usedMargin?: string }>
+  > {
+    try {
+      const account = await this.fetchAccountBalance();
+
+      return {
+        success: true,
+        data: {
+          totalValue: account.totalEq || '0',
+          availableBalance: this.getSettlementDetail(account)?.availEq || '0',
+          usedMargin: account.imr || '0',
+        },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting portfolio value:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get portfolio value',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get positions (sizes converted from contracts to base asset)
+   */
+  async getPositions(symbol?: string): Promise<ApiResponse<Position | Position[]>> {
+    try {
+      const rawPositions = await this.fetchPositions(symbol);
+      const positions = await Promise.all(rawPositions.map(p => this.mapToStandardPosition(p)));
+
+      if (symbol) {
+        const instId = toInstId(symbol);
+        const position = positions.find(p => p.symbol === instId);
+        if (!position) {
+          return {
+            success: false,
+            error: `Position not found for ${symbol}`,
+            timestamp: Date.now(),
+          };
+        }
+        return {
+          success: true,
+          data: position,
+          timestamp: Date.now(),
+          exchange: 'okx',
+          tradingType: 'perpetual',
+        };
       }
 
-      const accountData = response.data[0];
+      return {
+        success: true,
+        data: positions,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting positions:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get positions',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get non-zero positions
+   */
+  async getNonZeroPositions(): Promise<ApiResponse<Position[]>> {
+    const result = await this.getPositions();
+    if (result.success && result.data) {
+      const positions = Array.isArray(result.data) ? result.data : [result.data];
+      return {
+        ...result,
+        data: positions.filter(p => parseFloat(p.size) !== 0),
+      };
+    }
+    return result as ApiResponse<Position[]>;
+  }
+
+  /**
+   * Get position margin details
+   */
+  async getPositionMargin(
+    symbol?: string,
+  ): Promise<ApiResponse<PositionMargin | PositionMargin[]>> {
+    try {
+      const rawPositions = await this.fetchPositions(symbol);
+      const margins: PositionMargin[] = rawPositions.map(p => ({
+        symbol: p.instId,
+        initialMargin: p.imr || p.margin || '0',
+        maintenanceMargin: p.mmr || '0',
+        marginBalance: p.margin || p.imr || '0',
+        marginRatio: p.mgnRatio || '0',
+        liquidationPrice: p.liqPx || '0',
+        markPrice: p.markPx || '0',
+        positionSide: p.posSide,
+      }));
+
+      return {
+        success: true,
+        data: symbol ? margins[0] : margins,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting position margin:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get position margin',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get complete account information
+   */
+  async getAccountInfo(): Promise<ApiResponse<PerpetualAccountInfo>> {
+    try {
+      const [account, rawPositions] = await Promise.all([
+        this.fetchAccountBalance(),
+        this.fetchPositions(),
+      ]);
+      const positions = await Promise.all(rawPositions.map(p => this.mapToStandardPosition(p)));
+      const settlement = this.getSettlementDetail(account);
 
       return {
         success: true,
         data: {
-          totalEq: parseFloat(accountData.totalEq),
-          isoEq: parseFloat(accountData.isoEq),
-          adjEq: parseFloat(accountData.adjEq),
-          upl: parseFloat(accountData.upl),
-          details: accountData.details.map((detail: any) => ({
-            ccy: detail.ccy,
-            eq: parseFloat(detail.eq),
-            availBal: parseFloat(detail.availBal),
-            upl: parseFloat(detail.upl),
-            frozenBal: parseFloat(detail.frozenBal),
-          })),
+          totalWalletBalance: account.totalEq || '0',
+          totalUnrealizedProfit: account.upl || '0',
+          totalMarginBalance: account.adjEq || account.totalEq || '0',
+          totalPositionInitialMargin: account.imr || '0',
+          totalOpenOrderInitialMargin: account.ordFroz || '0',
+          totalCrossWalletBalance: settlement?.cashBal || '0',
+          totalCrossUnPnl: account.upl || '0',
+          availableBalance: settlement?.availEq || '0',
+          maxWithdrawAmount: settlement?.availBal || '0',
+          assets: account.details.map(detail => this.mapToStandardBalance(detail)),
+          positions,
+          canTrade: true,
+          canDeposit: true,
+          canWithdraw: true,
+          updateTime: parseInt(account.uTime, 10) || Date.now(),
         },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error fetching balance:', error.message);
+      this.logger.error('Error getting account info:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to get account info',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Get positions
+   * Get available balance for trading
    */
-  async getPositions(instId?: string): Promise<any> {
+  async getAvailableBalance(): Promise<ApiResponse<string>> {
+    return this.pickAccountField('availableBalance', 'Failed to get available balance');
+  }
+
+  /**
+   * Get total wallet balance
+   */
+  async getTotalWalletBalance(): Promise<ApiResponse<string>> {
+    return this.pickAccountField('totalWalletBalance', 'Failed to get total wallet balance');
+  }
+
+  /**
+   * Get total unrealized PnL
+   */
+  async getTotalUnrealizedPnl(): Promise<ApiResponse<string>> {
+    return this.pickAccountField('totalUnrealizedProfit', 'Failed to get unrealized PnL');
+  }
+
+  /**
+   * Get maximum withdrawable amount from the trading account
+   */
+  async getMaxWithdrawAmount(asset: string = 'USDT'): Promise<ApiResponse<string>> {
     try {
-      this.logger.log('Fetching OKX positions...');
+      const response = await this.apiService.get('/api/v5/account/max-withdrawal', { ccy: asset });
 
-      const params = instId ? { instId } : {};
-      const response = await this.apiService.get('/api/v5/account/positions', params);
+      if (!response.success || !response.data || response.data.length === 0) {
+        throw new Error(response.error || 'Failed to get max withdraw amount');
+      }
+
+      return {
+        success: true,
+        data: response.data[0].maxWd,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting max withdraw amount:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get max withdraw amount',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get income history from account bills
+   */
+  async getIncomeHistory(
+    symbol?: string,
+    incomeType?: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<IncomeHistory[]>> {
+    try {
+      const params: any = { instType: 'SWAP' };
+      if (symbol) params.instId = toInstId(symbol);
+      if (incomeType && INCOME_TO_BILL_TYPE[incomeType]) {
+        params.type = INCOME_TO_BILL_TYPE[incomeType];
+      }
+      if (startTime) params.begin = startTime;
+      if (endTime) params.end = endTime;
+      if (limit) params.limit = Math.min(limit, 100);
+
+      const response = await this.apiService.get<any[]>('/api/v5/account/bills', params);
 
       if (!response.success || !response.data) {
-        throw new Error(response.error || 'Failed to fetch positions');
+        throw new Error(response.error || 'Failed to get income history');
       }
 
-      const positions = response.data.map((pos: any) => ({
-        instId: pos.instId,
-        posId: pos.posId,
-        posSide: pos.posSide,
-        pos: parseFloat(pos.pos),
-        availPos: parseFloat(pos.availPos),
-        avgPx: parseFloat(pos.avgPx),
-        upl: parseFloat(pos.upl),
-        uplRatio: parseFloat(pos.uplRatio),
-        lever: parseFloat(pos.lever),
-        liqPx: parseFloat(pos.liqPx),
-        markPx: parseFloat(pos.markPx),
-        margin: parseFloat(pos.margin),
-        mgnRatio: parseFloat(pos.mgnRatio),
-        notionalUsd: parseFloat(pos.notionalUsd),
-      }));
+      const history: IncomeHistory[] = response.data.map(bill => {
+        const type =
+          incomeType === 'COMMISSION' ? 'COMMISSION' : BILL_TYPE_TO_INCOME[bill.type] || 'TRANSFER';
+        return {
+          symbol: bill.instId,
+          incomeType: type,
+          income:
+            type === 'COMMISSION' ? bill.fee : type === 'REALIZED_PNL' ? bill.pnl : bill.balChg,
+          asset: bill.ccy,
+          info: bill.subType,
+          time: parseInt(bill.ts, 10),
+          tranId: bill.billId,
+          tradeId: bill.tradeId || undefined,
+        };
+      });
 
       return {
         success: true,
-        data: positions,
+        data: history,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error fetching positions:', error.message);
+      this.logger.error('Error getting income history:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to get income history',
+        timestamp: Date.now(),
       };
     }
   }
 
+  /**
+   * Get trade fills history
+   */
+  async getTransactionHistory(
+    symbol?: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<TransactionHistory[]>> {
+    try {
+      const params: any = { instType: 'SWAP' };
+      if (symbol) params.instId = toInstId(symbol);
+      if (startTime) params.begin = startTime;
+      if (endTime) params.end = endTime;
+      if (limit) params.limit = Math.min(limit, 100);
+
+      const response = await this.apiService.get<any[]>('/api/v5/trade/fills-history', params);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get transaction history');
+      }
+
+      const history: TransactionHistory[] = await Promise.all(
+        response.data.map(async fill => {
+          const quantity = await this.marketService.fromContracts(fill.instId, fill.fillSz);
+          return {
+            symbol: fill.instId,
+            id: fill.tradeId,
+            orderId: fill.ordId,
+            side: fill.side === 'buy' ? 'BUY' : 'SELL',
+            price: fill.fillPx,
+            quantity,
+            realizedPnl: fill.fillPnl || '0',
+            marginAsset: fill.feeCcy || 'USDT',
+            quoteQuantity: (parseFloat(fill.fillPx) * parseFloat(quantity)).toString(),
+            // OKX reports fees as negative balance changes
+            commission: (-parseFloat(fill.fee || '0')).toString(),
+            commissionAsset: fill.feeCcy,
+            time: parseInt(fill.ts, 10),
+            positionSide: fill.posSide,
+            maker: fill.execType === 'M',
+          } as TransactionHistory;
+        }),
+      );
+
+      return {
+        success: true,
+        data: history,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting transaction history:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get transaction history',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get funding fee history
+   */
+  async getFundingFeeHistory(
+    symbol?: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<IncomeHistory[]>> {
+    return this.getIncomeHistory(symbol, 'FUNDING_FEE', startTime, endTime, limit);
+  }
+
+  /**
+   * Get margin ratio for symbol
+   */
+  async getMarginRatio(symbol: string): Promise<ApiResponse<string>> {
+    try {
+      const rawPositions = await this.fetchPositions(symbol);
+      if (rawPositions.length === 0) {
+        throw new Error(`Position not found for ${symbol}`);
+      }
+
+      return {
+        success: true,
+        data: rawPositions[0].mgnRatio || '0',
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting margin ratio:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get margin ratio',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Check if account is at risk of liquidation
+   * OKX liquidates when the account margin ratio falls to 100% (1.0)
+   */
+  async isAtRiskOfLiquidation(): Promise<ApiResponse<boolean>> {
+    try {
+      const account = await this.fetchAccountBalance();
+      const marginRatio = parseFloat(account.mgnRatio || '0');
+
+      return {
+        success: true,
+        data: marginRatio > 0 && marginRatio < 1.5,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error checking liquidation risk:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to check liquidation risk',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Calculate required margin for a position at current price
+   */
+  async calculateRequiredMargin(
+    symbol: string,
+    quantity: string,
+    leverage: number,
+  ): Promise<ApiResponse<string>> {
+    try {
+      const priceResponse = await this.marketService.getCurrentPrice(symbol);
+      if (!priceResponse.success || !priceResponse.data) {
+        throw new Error(priceResponse.error || 'Failed to get current price');
+      }
+
+      const notional = parseFloat(priceResponse.data) * parseFloat(quantity);
+
+      return {
+        success: true,
+        data: (notional / (leverage || 1)).toString(),
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error calculating required margin:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to calculate required margin',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Calculate potential PnL
+   */
+  async calculatePotentialPnl(
+    symbol: string,
+    entryPrice: string,
+    exitPrice: string,
+    quantity: string,
+    side: 'LONG' | 'SHORT',
+  ): Promise<ApiResponse<{ pnl: string; pnlPercentage: string }>> {
+    const entry = parseFloat(entryPrice);
+    const qty = parseFloat(quantity);
+    const direction = side === 'LONG' ? 1 : -1;
+    const pnl = (parseFloat(exitPrice) - entry) * qty * direction;
+    const cost = entry * qty;
+
+    return {
+      success: true,
+      data: {
+        pnl: pnl.toString(),
+        pnlPercentage: (cost > 0 ? (pnl / cost) * 100 : 0).toString(),
+      },
+      timestamp: Date.now(),
+      exchange: 'okx',
+      tradingType: 'perpetual',
+    };
+  }
+
   /**
    * Transfer funds between accounts
    * @param ccy - Currency (e.g., 'USDT')
@@ -138,7 +617,7 @@ export class OkxPerpetualBalanceService {
     amt: number,
     from: string = '6',
     to: string = '18',
-  ): Promise<any> {
+  ): Promise<ApiResponse<any>> {
     try {
       this.logger.log(`Transferring ${amt} ${ccy} from ${from} to ${to}...`);
 
@@ -158,13 +637,112 @@ export class OkxPerpetualBalanceService {
       return {
         success: true,
         data: response.data,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
       this.logger.error('Error transferring funds:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to transfer funds',
+        timestamp: Date.now(),
       };
     }
   }
+
+  /**
+   * Fetch trading account balance
+   */
+  private async fetchAccountBalance(): Promise<OkxAccountBalance> {
+    const response = await this.apiService.get<OkxAccountBalance[]>('/api/v5/account/balance');
+
+    if (!response.success || !response.data || response.data.length === 0) {
+      throw new Error(response.error || 'Failed to fetch balance');
+    }
+
+    return response.data[0];
+  }
+
+  /**
+   * Fetch raw swap positions with non-zero size
+   */
+  private async fetchPositions(symbol?: string): Promise<OkxPosition[]> {
+    const params: any = { instType: 'SWAP' };
+    if (symbol) params.instId = toInstId(symbol);
+
+    const response = await this.apiService.get<OkxPosition[]>('/api/v5/account/positions', params);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch positions');
+    }
+
+    return response.data.filter(p => parseFloat(p.pos || '0') !== 0);
+  }
+
+  /**
+   * Settlement currency detail (USDT-margined swaps)
+   */
+  private getSettlementDetail(account: OkxAccountBalance): OkxBalanceDetail | undefined {
+    return account.details.find(d => d.ccy === 'USDT');
+  }
+
+  /**
+   * Resolve a single field from account info
+   */
+  private async pickAccountField(
+    field: keyof PerpetualAccountInfo,
+    errorMessage: string,
+  ): Promise<ApiResponse<string>> {
+    const accountInfo = await this.getAccountInfo();
+    if (accountInfo.success && accountInfo.data) {
+      return {
+        success: true,
+        data: accountInfo.data[field] as string,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    }
+    return { success: false, error: accountInfo.error || errorMessage, timestamp: Date.now() };
+  }
+
+  /**
+   * Map OKX balance detail to standard Balance format
+   */
+  private mapToStandardBalance(detail: OkxBalanceDetail): Balance {
+    return {
+      asset: detail.ccy,
+      free: detail.availBal || detail.availEq || '0',
+      locked: detail.frozenBal || '0',
+      total: detail.eq || '0',
+    };
+  }
+
+  /**
+   * Map OKX position to standard Position format
+   */
+  async mapToStandardPosition(position: OkxPosition): Promise<Position> {
+    const pos = parseFloat(position.pos);
+    let side: PositionSide;
+    if (position.posSide === 'long') {
+      side = PositionSide.LONG;
+    } else if (position.posSide === 'short') {
+      side = PositionSide.SHORT;
+    } else {
+      side = pos > 0 ? PositionSide.LONG : pos < 0 ? PositionSide.SHORT : PositionSide.BOTH;
+    }
+
+    return {
+      symbol: position.instId,
+      side,
+      size: await this.marketService.fromContracts(position.instId, Math.abs(pos)),
+      entryPrice: position.avgPx || '0',
+      markPrice: position.markPx,
+      liquidationPrice: position.liqPx,
+      unrealizedPnl: position.upl || '0',
+      leverage: parseFloat(position.lever) || 1,
+      marginType: position.mgnMode === 'isolated' ? 'isolated' : 'cross',
+    };
+  }
 }
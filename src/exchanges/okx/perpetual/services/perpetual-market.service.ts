@@ -1,96 +1,348 @@
 import { Injectable, Logger } from '@nestjs/common';
+import {
+  IPerpetualMarketService,
+  FundingRate,
+  MarkPrice,
+  OpenInterest,
+  LongShortRatio,
+  PremiumIndex,
+  LiquidationOrder,
+  MarginTier,
+} from '../../../../common/interfaces';
+import {
+  ApiResponse,
+  OrderBook,
+  Candle,
+  Trade,
+  OrderSide,
+} from '../../../../common/types/exchange.types';
 import { OkxApiService } from '../../shared/okx-api.service';
+import { OkxInstrument } from '../../types';
+import {
+  toInstId,
+  toUnderlying,
+  toOkxBar,
+  intervalToMs,
+  roundToStep,
+} from './perpetual-market.utils';
 
 @Injectable()
-export class OkxPerpetualMarketService {
+export class OkxPerpetualMarketService implements IPerpetualMarketService {
   private readonly logger = new Logger(OkxPerpetualMarketService.name);
+  private instrumentCache: Map<string, OkxInstrument> = new Map();
+  private cacheExpiry: number = 0;
+  private readonly CACHE_DURATION = 3600000; // 1 hour
 
   constructor(private readonly apiService: OkxApiService) {}
 
   /**
-   * Get ticker price for an instrument
+   * Get current price for symbol
    */
-  async getTickerPrice(instId: string): Promise<any> {
+  async getCurrentPrice(symbol: string): Promise<ApiResponse<string>> {
     try {
-      this.logger.log(`Fetching ticker price for ${instId}...`);
-
+      const instId = toInstId(symbol);
       const response = await this.apiService.getPublic('/api/v5/market/ticker', { instId });
 
       if (!response.success || !response.data || response.data.length === 0) {
         throw new Error(response.error || 'Failed to fetch ticker price');
       }
 
-      const ticker = response.data[0];
+      return {
+        success: true,
+        data: response.data[0].last,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting current price:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get current price',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get all prices
+   */
+  async getAllPrices(): Promise<ApiResponse<Record<string, string>>> {
+    try {
+      const response = await this.apiService.getPublic<any[]>('/api/v5/market/tickers', {
+        instType: 'SWAP',
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch tickers');
+      }
+
+      const prices: Record<string, string> = {};
+      response.data.forEach(ticker => {
+        prices[ticker.instId] = ticker.last;
+      });
 
       return {
         success: true,
-        data: {
-          instId: ticker.instId,
-          last: parseFloat(ticker.last),
-          askPx: parseFloat(ticker.askPx),
-          bidPx: parseFloat(ticker.bidPx),
-          open24h: parseFloat(ticker.open24h),
-          high24h: parseFloat(ticker.high24h),
-          low24h: parseFloat(ticker.low24h),
-          vol24h: parseFloat(ticker.vol24h),
-          timestamp: ticker.ts,
-        },
+        data: prices,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error fetching ticker price:', error.message);
+      this.logger.error('Error getting all prices:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to get all prices',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Get order book depth
+   * Get ticker (24hr stats)
    */
-  async getOrderBook(instId: string, sz: string = '20'): Promise<any> {
+  async getTicker(symbol?: string): Promise<ApiResponse<any>> {
     try {
-      this.logger.log(`Fetching order book for ${instId}...`);
+      const response = symbol
+        ? await this.apiService.getPublic<any[]>('/api/v5/market/ticker', {
+            instId: toInstId(symbol),
+          })
+        : await this.apiService.getPublic<any[]>('/api/v5/market/tickers', { instType: 'SWAP' });
 
-      const response = await this.apiService.getPublic('/api/v5/market/books', { instId, sz });
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch ticker');
+      }
+
+      return {
+        success: true,
+        data: symbol ? response.data[0] : response.data,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting ticker:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get ticker',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get order book (sizes converted from contracts to base asset)
+   */
+  async getOrderBook(symbol: string, limit: number = 20): Promise<ApiResponse<OrderBook>> {
+    try {
+      const instId = toInstId(symbol);
+      const response = await this.apiService.getPublic('/api/v5/market/books', {
+        instId,
+        sz: Math.min(limit, 400),
+      });
 
       if (!response.success || !response.data || response.data.length === 0) {
         throw new Error(response.error || 'Failed to fetch order book');
       }
 
       const book = response.data[0];
+      const ctVal = await this.getContractValue(instId);
+      const toLevel = (level: string[]): [string, string] => [
+        level[0],
+        (parseFloat(level[1]) * ctVal).toString(),
+      ];
 
       return {
         success: true,
         data: {
-          instId,
-          asks: book.asks.map((ask: [string, string]) => ({
-            price: parseFloat(ask[0]),
-            quantity: parseFloat(ask[1]),
-          })),
-          bids: book.bids.map((bid: [string, string]) => ({
-            price: parseFloat(bid[0]),
-            quantity: parseFloat(bid[1]),
-          })),
-          timestamp: book.ts,
+          symbol: instId,
+          bids: book.bids.map(toLevel),
+          asks: book.asks.map(toLevel),
+          timestamp: parseInt(book.ts, 10),
         },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error fetching order book:', error.message);
+      this.logger.error('Error getting order book:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to get order book',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Get funding rate
+   * Get recent trades
    */
-  async getFundingRate(instId: string): Promise<any> {
+  async getRecentTrades(symbol: string, limit: number = 100): Promise<ApiResponse<Trade[]>> {
     try {
-      this.logger.log(`Fetching funding rate for ${instId}...`);
+      const instId = toInstId(symbol);
+      const response = await this.apiService.getPublic<any[]>('/api/v5/market/trades', {
+        instId,
+        limit: Math.min(limit, 500),
+      });
 
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch recent trades');
+      }
+
+      const ctVal = await this.getContractValue(instId);
+      const trades: Trade[] = response.data.map(t => ({
+        id: t.tradeId,
+        orderId: '',
+        symbol: instId,
+        side: t.side === 'buy' ? OrderSide.BUY : OrderSide.SELL,
+        price: t.px,
+        quantity: (parseFloat(t.sz) * ctVal).toString(),
+        fee: '0',
+        feeAsset: 'USDT',
+        timestamp: parseInt(t.ts, 10),
+      }));
+
+      return {
+        success: true,
+        data: trades,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting recent trades:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get recent trades',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get klines/candles (returned oldest first)
+   */
+  async getCandles(
+    symbol: string,
+    interval: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 100,
+  ): Promise<ApiResponse<Candle[]>> {
+    try {
+      const params: any = {
+        instId: toInstId(symbol),
+        bar: toOkxBar(interval),
+        limit: Math.min(limit, 300),
+      };
+      // OKX paginates backwards: `after` returns records older than ts, `before` newer than ts
+      if (endTime) params.after = endTime;
+      if (startTime) params.before = startTime - 1;
+
+      const response = await this.apiService.getPublic<string[][]>(
+        '/api/v5/market/candles',
+        params,
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch candles');
+      }
+
+      const intervalMs = intervalToMs(interval);
+      const candles: Candle[] = response.data
+        .map(k => ({
+          openTime: parseInt(k[0], 10),
+          open: k[1],
+          high: k[2],
+          low: k[3],
+          close: k[4],
+          volume: k[6],
+          closeTime: parseInt(k[0], 10) + intervalMs - 1,
+        }))
+        .sort((a, b) => a.openTime - b.openTime);
+
+      return {
+        success: true,
+        data: candles,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting candles:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get candles',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get all available symbols
+   */
+  async getSymbols(): Promise<ApiResponse<string[]>> {
+    try {
+      const instruments = await this.loadInstruments();
+
+      return {
+        success: true,
+        data: instruments.filter(i => i.state === 'live').map(i => i.instId),
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting symbols:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get symbols',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get exchange info (swap instruments)
+   */
+  async getExchangeInfo(): Promise<ApiResponse<any>> {
+    try {
+      const instruments = await this.loadInstruments();
+
+      return {
+        success: true,
+        data: { symbols: instruments },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting exchange info:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get exchange info',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  // ==================== Futures-specific methods ====================
+
+  /**
+   * Get current funding rate
+   */
+  async getFundingRate(symbol?: string): Promise<ApiResponse<FundingRate | FundingRate[]>> {
+    try {
+      if (!symbol) {
+        return {
+          success: false,
+          error: 'Symbol is required for OKX funding rate',
+          timestamp: Date.now(),
+        };
+      }
+
+      const instId = toInstId(symbol);
       const response = await this.apiService.getPublic('/api/v5/public/funding-rate', { instId });
 
       if (!response.success || !response.data || response.data.length === 0) {
@@ -102,19 +354,632 @@ export class OkxPerpetualMarketService {
       return {
         success: true,
         data: {
-          instId: fundingData.instId,
-          fundingRate: parseFloat(fundingData.fundingRate),
-          nextFundingRate: parseFloat(fundingData.nextFundingRate),
-          fundingTime: fundingData.fundingTime,
-          nextFundingTime: fundingData.nextFundingTime,
+          symbol: fundingData.instId,
+          fundingRate: fundingData.fundingRate,
+          fundingTime: parseInt(fundingData.fundingTime, 10),
+          nextFundingTime: parseInt(fundingData.nextFundingTime, 10) || undefined,
+        },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting funding rate:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get funding rate',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get funding rate history
+   */
+  async getFundingRateHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<FundingRate[]>> {
+    try {
+      const params: any = { instId: toInstId(symbol) };
+      if (endTime) params.after = endTime;
+      if (startTime) params.before = startTime - 1;
+      if (limit) params.limit = Math.min(limit, 100);
+
+      const response = await this.apiService.getPublic<any[]>(
+        '/api/v5/public/funding-rate-history',
+        params,
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch funding rate history');
+      }
+
+      const fundingRates: FundingRate[] = response.data.map(item => ({
+        symbol: item.instId,
+        fundingRate: item.realizedRate || item.fundingRate,
+        fundingTime: parseInt(item.fundingTime, 10),
+      }));
+
+      return {
+        success: true,
+        data: fundingRates,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting funding rate history:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get funding rate history',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get mark price
+   */
+  async getMarkPrice(symbol?: string): Promise<ApiResponse<MarkPrice | MarkPrice[]>> {
+    try {
+      const params: any = { instType: 'SWAP' };
+      if (symbol) params.instId = toInstId(symbol);
+
+      const response = await this.apiService.getPublic<any[]>('/api/v5/public/mark-price', params);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch mark price');
+      }
+
+      const markPrices: MarkPrice[] = response.data.map(item => ({
+        symbol: item.instId,
+        markPrice: item.markPx,
+        timestamp: parseInt(item.ts, 10),
+      }));
+
+      return {
+        success: true,
+        data: symbol ? markPrices[0] : markPrices,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting mark price:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get mark price',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get index price
+   */
+  async getIndexPrice(symbol: string): Promise<ApiResponse<string>> {
+    try {
+      const response = await this.apiService.getPublic('/api/v5/market/index-tickers', {
+        instId: toUnderlying(toInstId(symbol)),
+      });
+
+      if (!response.success || !response.data || response.data.length === 0) {
+        throw new Error(response.error || 'Failed to fetch index price');
+      }
+
+      return {
+        success: true,
+        data: response.data[0].idxPx,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting index price:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get index price',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get open interest (in base asset)
+   */
+  async getOpenInterest(symbol: string): Promise<ApiResponse<OpenInterest>> {
+    try {
+      const instId = toInstId(symbol);
+      const response = await this.apiService.getPublic('/api/v5/public/open-interest', {
+        instType: 'SWAP',
+        instId,
+      });
+
+      if (!response.success || !response.data || response.data.length === 0) {
+        throw new Error(response.error || 'Failed to fetch open interest');
+      }
+
+      const item = response.data[0];
+
+      return {
+        success: true,
+        data: {
+          symbol: instId,
+          openInterest: item.oiCcy,
+          timestamp: parseInt(item.ts, 10),
+        },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting open interest:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get open interest',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get open interest history
+   */
+  async getOpenInterestHistory(
+    symbol: string,
+    period: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<OpenInterest[]>> {
+    try {
+      const instId = toInstId(symbol);
+      const params: any = { instId, period: toOkxBar(period) };
+      if (endTime) params.end = endTime;
+      if (startTime) params.begin = startTime;
+      if (limit) params.limit = Math.min(limit, 100);
+
+      const response = await this.apiService.getPublic<string[][]>(
+        '/api/v5/rubik/stat/contracts/open-interest-history',
+        params,
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch open interest history');
+      }
+
+      // Rows: [ts, oi (contracts), oiCcy (base), oiUsd]
+      const history: OpenInterest[] = response.data.map(row => ({
+        symbol: instId,
+        openInterest: row[2],
+        timestamp: parseInt(row[0], 10),
+      }));
+
+      return {
+        success: true,
+        data: history,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting open interest history:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get open interest history',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get long/short account ratio
+   */
+  async getLongShortRatio(
+    symbol: string,
+    period: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<LongShortRatio[]>> {
+    try {
+      const instId = toInstId(symbol);
+      const params: any = { instId, period: toOkxBar(period) };
+      if (endTime) params.end = endTime;
+      if (startTime) params.begin = startTime;
+      if (limit) params.limit = Math.min(limit, 100);
+
+      const response = await this.apiService.getPublic<string[][]>(
+        '/api/v5/rubik/stat/contracts/long-short-account-ratio-contract',
+        params,
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch long/short ratio');
+      }
+
+      // Rows: [ts, longShortAcctRatio]; derive account shares from the ratio
+      const ratios: LongShortRatio[] = response.data.map(row => {
+        const ratio = parseFloat(row[1]);
+        return {
+          symbol: instId,
+          longShortRatio: row[1],
+          longAccount: (ratio / (1 + ratio)).toString(),
+          shortAccount: (1 / (1 + ratio)).toString(),
+          timestamp: parseInt(row[0], 10),
+        };
+      });
+
+      return {
+        success: true,
+        data: ratios,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting long/short ratio:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get long/short ratio',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get premium index
+   */
+  async getPremiumIndex(symbol?: string): Promise<ApiResponse<PremiumIndex | PremiumIndex[]>> {
+    try {
+      if (!symbol) {
+        return {
+          success: false,
+          error: 'Symbol is required for OKX premium index',
+          timestamp: Date.now(),
+        };
+      }
+
+      const instId = toInstId(symbol);
+      const response = await this.apiService.getPublic('/api/v5/public/premium-history', {
+        instId,
+        limit: 1,
+      });
+
+      if (!response.success || !response.data || response.data.length === 0) {
+        throw new Error(response.error || 'Failed to fetch premium index');
+      }
+
+      return {
+        success: true,
+        data: {
+          symbol: instId,
+          premiumIndex: response.data[0].premium,
+          timestamp: parseInt(response.data[0].ts, 10),
         },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting premium index:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get premium index',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get recent liquidation orders
+   */
+  async getLiquidationOrders(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<LiquidationOrder[]>> {
+    try {
+      const instId = toInstId(symbol);
+      const params: any = { instType: 'SWAP', uly: toUnderlying(instId), state: 'filled' };
+      if (endTime) params.after = endTime;
+      if (startTime) params.before = startTime;
+      if (limit) params.limit = Math.min(limit, 100);
+
+      const response = await this.apiService.getPublic<any[]>(
+        '/api/v5/public/liquidation-orders',
+        params,
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch liquidation orders');
+      }
+
+      const ctVal = await this.getContractValue(instId);
+      const orders: LiquidationOrder[] = response.data.flatMap(entry =>
+        (entry.details || []).map((d: any) => ({
+          symbol: instId,
+          side: d.side === 'buy' ? 'BUY' : 'SELL',
+          price: d.bkPx,
+          quantity: (parseFloat(d.sz) * ctVal).toString(),
+          time: parseInt(d.ts, 10),
+        })),
+      );
+
+      return {
+        success: true,
+        data: orders,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting liquidation orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get liquidation orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get contract specifications
+   */
+  async getContractInfo(symbol?: string): Promise<ApiResponse<any>> {
+    try {
+      if (symbol) {
+        const instrument = await this.getInstrument(symbol);
+        if (!instrument) {
+          throw new Error(`Instrument not found for ${symbol}`);
+        }
+        return {
+          success: true,
+          data: instrument,
+          timestamp: Date.now(),
+          exchange: 'okx',
+          tradingType: 'perpetual',
+        };
+      }
+
+      return {
+        success: true,
+        data: await this.loadInstruments(),
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting contract info:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get contract info',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get position tiers (/api/v5/public/position-tiers). OKX tiers by position size in
+   * contracts and applies the tier's rate to the whole position.
+   */
+  async getMarginTiers(symbol: string): Promise<ApiResponse<MarginTier[]>> {
+    try {
+      const instrument = await this.getInstrument(symbol);
+      if (!instrument) {
+        throw new Error(`Instrument not found for ${symbol}`);
+      }
+
+      const response = await this.apiService.getPublic<any[]>('/api/v5/public/position-tiers', {
+        instType: 'SWAP',
+        tdMode: 'cross',
+        instFamily: instrument.uly || toUnderlying(instrument.instId),
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get position tiers');
+      }
+
+      const ctVal = parseFloat(instrument.ctVal);
+      return {
+        success: true,
+        data: response.data
+          .map(
+            (tier): MarginTier => ({
+              floor: parseFloat(tier.minSz) * ctVal,
+              cap: parseFloat(tier.maxSz) * ctVal,
+              basis: 'quantity',
+              maxLeverage: parseFloat(tier.maxLever),
+              maintenanceMarginRate: parseFloat(tier.mmr),
+              maintenanceAmount: 0,
+            }),
+          )
+          .sort((a, b) => a.floor - b.floor),
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting position tiers:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get position tiers',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get all available futures symbols
+   */
+  async getFuturesSymbols(): Promise<ApiResponse<string[]>> {
+    return this.getSymbols();
+  }
+
+  /**
+   * Format base-asset quantity to a whole number of lots
+   */
+  async formatQuantity(symbol: string, quantity: string | number): Promise<string> {
+    const instrument = await this.getInstrument(symbol);
+    const qtyNum = typeof quantity === 'string' ? parseFloat(quantity) : quantity;
+
+    if (!instrument) {
+      return qtyNum.toFixed(8);
+    }
+
+    const ctVal = parseFloat(instrument.ctVal);
+    const contracts = roundToStep(qtyNum / ctVal, instrument.lotSz);
+    return (parseFloat(contracts) * ctVal).toString();
+  }
+
+  /**
+   * Format price according to tick size
+   */
+  async formatPrice(symbol: string, price: string | number): Promise<string> {
+    const instrument = await this.getInstrument(symbol);
+    const priceNum = typeof price === 'string' ? parseFloat(price) : price;
+
+    if (!instrument) {
+      return priceNum.toFixed(8);
+    }
+
+    return roundToStep(priceNum, instrument.tickSz);
+  }
+
+  /**
+   * Get min/max quantity for symbol (in base asset)
+   */
+  async getQuantityLimits(symbol: string): Promise<ApiResponse<{ min: string; max: string }>> {
+    try {
+      const instrument = await this.getInstrument(symbol);
+      if (!instrument) {
+        throw new Error('Symbol info not available');
+      }
+
+      const ctVal = parseFloat(instrument.ctVal);
+      return {
+        success: true,
+        data: {
+          min: (parseFloat(instrument.minSz) * ctVal).toString(),
+          max: (parseFloat(instrument.maxLmtSz) * ctVal).toString(),
+        },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get min/max notional value for symbol
+   */
+  async getNotionalLimits(symbol: string): Promise<ApiResponse<{ min: string; max: string }>> {
+    try {
+      const instrument = await this.getInstrument(symbol);
+      if (!instrument) {
+        throw new Error('Symbol info not available');
+      }
+
+      const priceResponse = await this.getCurrentPrice(symbol);
+      const price = parseFloat(priceResponse.data || '0');
+      const minNotional = parseFloat(instrument.minSz) * parseFloat(instrument.ctVal) * price;
+
+      return {
+        success: true,
+        data: {
+          min: minNotional.toString(),
+          max: instrument.maxLmtAmt || '0',
+        },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error fetching funding rate:', error.message);
       return {
         success: false,
         error: error.message,
+        timestamp: Date.now(),
       };
     }
   }
+
+  // ==================== Contract helpers ====================
+
+  /**
+   * Get instrument spec (cached)
+   */
+  async getInstrument(symbol: string): Promise<OkxInstrument | null> {
+    try {
+      await this.loadInstruments();
+      return this.instrumentCache.get(toInstId(symbol)) || null;
+    } catch (error: any) {
+      this.logger.error(`Error getting instrument for ${symbol}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Convert base-asset quantity to a contract count (sz)
+   */
+  async toContracts(symbol: string, quantity: string | number): Promise<string> {
+    const instrument = await this.getInstrument(symbol);
+    const qtyNum = typeof quantity === 'string' ? parseFloat(quantity) : quantity;
+
+    if (!instrument) {
+      throw new Error(`Instrument not found for ${symbol}`);
+    }
+
+    return roundToStep(qtyNum / parseFloat(instrument.ctVal), instrument.lotSz);
+  }
+
+  /**
+   * Convert a contract count (sz) to base-asset quantity
+   */
+  async fromContracts(symbol: string, contracts: string | number): Promise<string> {
+    const ctVal = await this.getContractValue(symbol);
+    const sz = typeof contracts === 'string' ? parseFloat(contracts) : contracts;
+    return (sz * ctVal).toString();
+  }
+
+  /**
+   * Contract value in base asset (e.g. 0.01 BTC per BTC-USDT-SWAP contract)
+   */
+  private async getContractValue(symbol: string): Promise<number> {
+    const instrument = await this.getInstrument(symbol);
+    return instrument ? parseFloat(instrument.ctVal) : 1;
+  }
+
+  /**
+   * Load all swap instruments and refresh the cache
+   */
+  private async loadInstruments(): Promise<OkxInstrument[]> {
+    if (this.instrumentCache.size > 0 && Date.now() < this.cacheExpiry) {
+      return Array.from(this.instrumentCache.values());
+    }
+
+    const response = await this.apiService.getPublic<OkxInstrument[]>(
+      '/api/v5/public/instruments',
+      { instType: 'SWAP' },
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch instruments');
+    }
+
+    this.instrumentCache.clear();
+    response.data.forEach(instrument => this.instrumentCache.set(instrument.instId, instrument));
+    this.cacheExpiry = Date.now() + this.CACHE_DURATION;
+
+    return response.data;
+  }
 }
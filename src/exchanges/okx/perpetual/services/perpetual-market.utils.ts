@@ -0,0 +1,77 @@
+/**
+ * Convert any supported symbol format (BTCUSDT, BTC/USDT, BTC-USDT-SWAP, BTC) to an OKX swap instId
+ */
+export function toInstId(symbol: string): string {
+  const upper = symbol.toUpperCase();
+
+  if (upper.includes('-')) {
+    const [base, quote] = upper.split('-');
+    return `${base}-${quote || 'USDT'}-SWAP`;
+  }
+
+  if (upper.includes('/')) {
+    const [base, quote] = upper.split('/');
+    return `${base}-${quote}-SWAP`;
+  }
+
+  for (const quote of ['USDT', 'USDC', 'USD']) {
+    if (upper.endsWith(quote) && upper.length > quote.length) {
+      return `${upper.slice(0, -quote.length)}-${quote}-SWAP`;
+    }
+  }
+
+  return `${upper}-USDT-SWAP`;
+}
+
+/**
+ * Get the underlying (BTC-USDT) of a swap instId
+ */
+export function toUnderlying(instId: string): string {
+  return instId.replace(/-SWAP$/, '');
+}
+
+/**
+ * Map unified candle interval (1m, 1h, 1d) to OKX bar (1m, 1H, 1D)
+ */
+export function toOkxBar(interval: string): string {
+  const match = /^(\d+)([mhdwM])$/.exec(interval);
+  if (!match) return interval;
+
+  const [, amount, unit] = match;
+  if (unit === 'm' || unit === 'M') return `${amount}${unit}`;
+  return `${amount}${unit.toUpperCase()}`;
+}
+
+/**
+ * Interval length in milliseconds (used to derive candle close time)
+ */
+export function intervalToMs(interval: string): number {
+  const match = /^(\d+)([mhHdDwWM])$/.exec(interval);
+  if (!match) return 60000;
+
+  const amount = parseInt(match[1], 10);
+  const units: Record<string, number> = {
+    m: 60000,
+    h: 3600000,
+    H: 3600000,
+    d: 86400000,
+    D: 86400000,
+    w: 604800000,
+    W: 604800000,
+    M: 2592000000,
+  };
+
+  return amount * units[match[2]];
+}
+
+/**
+ * Round value down to a step size (lotSz / tickSz) and format with matching decimals
+ */
+export function roundToStep(value: number, step: string): string {
+  const stepNum = parseFloat(step);
+  if (!stepNum || stepNum <= 0) return value.toString();
+
+  const decimals = step.includes('.') ? step.split('.')[1].replace(/0+$/, '').length : 0;
+  const rounded = Math.floor(value / stepNum + 1e-9) * stepNum;
+  return rounded.toFixed(decimals);
+}
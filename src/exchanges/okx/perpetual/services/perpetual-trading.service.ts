@@ -1,292 +1,1104 @@
 import { Injectable, Logger } from '@nestjs/common';
+import {
+  IPerpetualTradingService,
+  PlaceOrderParams,
+  MarketOrderParams,
+  LimitOrderParams,
+  CancelOrderParams,
+  CancelAllAfterResult,
+  ModifyOrderParams,
+  SetLeverageParams,
+  SetPositionModeParams,
+  SetStopLossParams,
+  SetTakeProfitParams,
+  SetTrailingStopParams,
+} from '../../../../common/interfaces';
+import {
+  ApiResponse,
+  Order,
+  OrderSide,
+  OrderType,
+  OrderStatus,
+  TimeInForce,
+  Position,
+  PositionSide,
+} from '../../../../common/types';
+import {
+  batchItemFailure,
+  runBatched,
+  runSequentially,
+  toBatchResponse,
+} from '../../../../common/batch';
 import { OkxApiService } from '../../shared/okx-api.service';
-import { OrderSide } from '../../../../common/types/exchange.types';
+import { OkxAlgoOrder, OkxOrder } from '../../types';
+import { OkxPerpetualBalanceService } from './perpetual-balance.service';
+import { OkxPerpetualMarketService } from './perpetual-market.service';
+import { toInstId } from './perpetual-market.utils';
+import { OrderBookManager } from '../../../../common/services/order-book-manager.service';
+
+/**
+ * Algo order types that act as conditional (TP/SL/trigger/trailing) orders
+ */
+const CONDITIONAL_ALGO_TYPES = ['conditional,oco', 'trigger', 'move_order_stop'];
+
+// Most orders batch-orders / cancel-batch-orders and cancel-algos accept per request
+const BATCH_SIZE = 20;
+const ALGO_CANCEL_BATCH_SIZE = 10;
+
+// Timeout range cancel-all-after accepts, in seconds (0 disarms)
+const CANCEL_ALL_AFTER_MIN_S = 10;
+const CANCEL_ALL_AFTER_MAX_S = 120;
+
+const ORDER_STATE_MAP: Record<string, OrderStatus> = {
+  live: OrderStatus.NEW,
+  partially_filled: OrderStatus.PARTIALLY_FILLED,
+  filled: OrderStatus.FILLED,
+  canceled: OrderStatus.CANCELED,
+  mmp_canceled: OrderStatus.CANCELED,
+  effective: OrderStatus.FILLED,
+  order_failed: OrderStatus.REJECTED,
+};
 
 @Injectable()
-export class OkxPerpetualTradingService {
+export class OkxPerpetualTradingService implements IPerpetualTradingService {
   private readonly logger = new Logger(OkxPerpetualTradingService.name);
+  private positionMode?: 'long_short_mode' | 'net_mode';
 
-  constructor(private readonly apiService: OkxApiService) {}
+  constructor(
+    private readonly apiService: OkxApiService,
+    private readonly balanceService: OkxPerpetualBalanceService,
+    private readonly marketService: OkxPerpetualMarketService,
+    private readonly orderBookManager: OrderBookManager,
+  ) {}
 
   /**
-   * Place a market order
+   * Place a new order - implements interface
+   * Quantity is in base asset and converted to contracts; STOP/TAKE_PROFIT/TRAILING_STOP types
+   * become algo orders
    */
-  async placeMarketOrder(params: {
-    instId: string;
-    side: OrderSide;
-    sz: string;
-    posSide?: string;
-    tdMode?: string;
-  }): Promise<any> {
+  async placeOrder(params: PlaceOrderParams): Promise<ApiResponse<Order>> {
     try {
-      this.logger.log(`Placing market order: ${params.side} ${params.sz} ${params.instId}`);
+      const instId = toInstId(params.symbol);
+      this.logger.log(`Placing ${params.type} ${params.side} order: ${params.quantity} ${instId}`);
 
-      const orderData = {
-        instId: params.instId,
-        tdMode: params.tdMode || 'cross',
-        side: params.side.toLowerCase(),
-        ordType: 'market',
-        sz: params.sz,
-        ...(params.posSide && { posSide: params.posSide }),
-      };
+      if (params.type !== OrderType.MARKET && params.type !== OrderType.LIMIT) {
+        return this.placeAlgoOrder(params);
+      }
 
+      const orderData = await this.toOkxOrderData(params);
       const response = await this.apiService.post('/api/v5/trade/order', orderData);
 
-      if (!response.success || !response.data || response.data.length === 0) {
-        throw new Error(response.error || 'Failed to place market order');
-      }
+      if (!response.success || !response.data || response.data.length === 0) {
+        throw new Error(response.error || 'Failed to place order');
+      }
+
+      const orderResult = response.data[0];
+
+      // Check for order-level errors (sCode !== "0" means error)
+      if (orderResult.sCode && orderResult.sCode !== '0') {
+        this.logger.error(`Order failed with sCode ${orderResult.sCode}: ${orderResult.sMsg}`);
+        throw new Error(`Order error: ${orderResult.sMsg} (code: ${orderResult.sCode})`);
+      }
+
+      return this.toPlacedOrder(params, orderData, orderResult);
+    } catch (error: any) {
+      this.logger.error('Error placing order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to place order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Request body of a regular (non-algo) order, shared by /trade/order and /trade/batch-orders
+   */
+  private async toOkxOrderData(params: PlaceOrderParams): Promise<Record<string, any>> {
+    const instId = toInstId(params.symbol);
+    const sz = await this.marketService.toContracts(instId, params.quantity);
+    if (parseFloat(sz) <= 0) {
+      throw new Error(`Quantity ${params.quantity} is below one contract lot for ${instId}`);
+    }
+
+    const orderData: any = {
+      instId,
+      tdMode: 'cross',
+      side: params.side.toLowerCase(),
+      ordType: this.toOkxOrderType(params.type, params.timeInForce),
+      sz,
+    };
+
+    if (params.type === OrderType.LIMIT) {
+      if (!params.price) {
+        throw new Error('Price is required for limit orders');
+      }
+      orderData.px = await this.marketService.formatPrice(instId, params.price);
+    }
+    if (params.clientOrderId) orderData.clOrdId = params.clientOrderId;
+
+    const posSide = await this.resolvePosSide(params.side, params.reduceOnly, params.positionSide);
+    if (posSide) {
+      orderData.posSide = posSide;
+    } else if (params.reduceOnly) {
+      orderData.reduceOnly = true;
+    }
+
+    return orderData;
+  }
+
+  /**
+   * Response for an order OKX accepted
+   */
+  private async toPlacedOrder(
+    params: PlaceOrderParams,
+    orderData: Record<string, any>,
+    result: { ordId: string; clOrdId?: string },
+  ): Promise<ApiResponse<Order>> {
+    return {
+      success: true,
+      data: {
+        orderId: result.ordId,
+        clientOrderId: result.clOrdId || undefined,
+        symbol: orderData.instId,
+        side: params.side,
+        type: params.type,
+        status: OrderStatus.NEW,
+        price: orderData.px || '0',
+        quantity: await this.marketService.fromContracts(orderData.instId, orderData.sz),
+        executedQuantity: '0',
+        timestamp: Date.now(),
+      },
+      timestamp: Date.now(),
+      exchange: 'okx',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Response for an order OKX cancelled
+   */
+  private toCancelledOrder(
+    instId: string,
+    orderId: string,
+    clientOrderId?: string,
+  ): ApiResponse<any> {
+    return {
+      success: true,
+      data: { orderId, clientOrderId: clientOrderId || undefined, symbol: instId },
+      timestamp: Date.now(),
+      exchange: 'okx',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Response for an amend OKX accepted. OKX only acknowledges the request; the amended order
+   * itself arrives on the orders channel.
+   */
+  private toAmendedOrder(
+    instId: string,
+    result: { ordId: string; clOrdId?: string },
+    price?: string,
+    quantity?: string,
+  ): ApiResponse<any> {
+    return {
+      success: true,
+      data: {
+        orderId: result.ordId,
+        clientOrderId: result.clOrdId || undefined,
+        symbol: instId,
+        price,
+        quantity,
+      },
+      timestamp: Date.now(),
+      exchange: 'okx',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Place market order
+   */
+  async placeMarketOrder(params: MarketOrderParams): Promise<ApiResponse<Order>> {
+    return this.placeOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: OrderType.MARKET,
+      quantity: params.quantity,
+      clientOrderId: params.clientOrderId,
+      reduceOnly: params.reduceOnly,
+    });
+  }
+
+  /**
+   * Place limit order
+   */
+  async placeLimitOrder(params: LimitOrderParams): Promise<ApiResponse<Order>> {
+    if (!params.price) {
+      return {
+        success: false,
+        error: 'Price is required for limit orders',
+        timestamp: Date.now(),
+      };
+    }
+
+    return this.placeOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: OrderType.LIMIT,
+      quantity: params.quantity,
+      price: params.price,
+      timeInForce: params.timeInForce,
+      clientOrderId: params.clientOrderId,
+      reduceOnly: params.reduceOnly,
+    });
+  }
+
+  /**
+   * Place several orders through /trade/batch-orders. Algo types (STOP/TAKE_PROFIT/TRAILING_STOP)
+   * have no batch endpoint and are placed one by one.
+   */
+  async placeOrders(orders: PlaceOrderParams[]): Promise<ApiResponse<ApiResponse<Order>[]>> {
+    try {
+      const isRegular = (params: PlaceOrderParams) =>
+        params.type === OrderType.MARKET || params.type === OrderType.LIMIT;
+      const regular = orders.filter(isRegular);
+      const algo = orders.filter(params => !isRegular(params));
+      this.logger.log(`Placing ${regular.length} orders in batches and ${algo.length} algo orders`);
+
+      const regularResults = await runBatched(regular, {
+        size: BATCH_SIZE,
+        prepare: async params => ({ params, orderData: await this.toOkxOrderData(params) }),
+        send: async batch => {
+          const response = await this.apiService.post<any[]>(
+            '/api/v5/trade/batch-orders',
+            batch.map(({ orderData }) => orderData),
+          );
+          if (!Array.isArray(response.data)) {
+            throw new Error(response.error || 'Failed to place orders');
+          }
+          return Promise.all(
+            response.data.map((result, i) =>
+              result.sCode === '0'
+                ? this.toPlacedOrder(batch[i].params, batch[i].orderData, result)
+                : batchItemFailure(`Order error: ${result.sMsg} (code: ${result.sCode})`),
+            ),
+          );
+        },
+      });
+      const algoResults = await runSequentially(algo, params => this.placeAlgoOrder(params));
+
+      return toBatchResponse(
+        orders.map(params => (isRegular(params) ? regularResults.shift()! : algoResults.shift()!)),
+        'okx',
+        'perpetual',
+      );
+    } catch (error: any) {
+      this.logger.error('Error placing orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to place orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Amend an open order in place through /trade/amend-order. The new quantity is converted to
+   * contracts and, as on OKX, includes what has already filled.
+   */
+  async modifyOrder(params: ModifyOrderParams): Promise<ApiResponse<Order>> {
+    try {
+      if (!params.orderId && !params.clientOrderId) {
+        return {
+          success: false,
+          error: 'Either orderId or clientOrderId is required',
+          timestamp: Date.now(),
+        };
+      }
+
+      const instId = toInstId(params.symbol);
+      this.logger.log(`Amending order ${params.orderId || params.clientOrderId} for ${instId}`);
+
+      const amendData: any = { instId };
+      if (params.orderId) amendData.ordId = params.orderId;
+      else amendData.clOrdId = params.clientOrderId;
+      if (params.quantity) {
+        amendData.newSz = await this.marketService.toContracts(instId, params.quantity);
+      }
+      if (params.price) {
+        amendData.newPx = await this.marketService.formatPrice(instId, params.price);
+      }
+
+      const response = await this.apiService.post('/api/v5/trade/amend-order', amendData);
+      const result = response.data?.[0];
+
+      if (!response.success || !result || result.sCode !== '0') {
+        throw new Error(result?.sMsg || response.error || 'Failed to amend order');
+      }
+
+      return this.toAmendedOrder(instId, result, amendData.newPx, params.quantity);
+    } catch (error: any) {
+      this.logger.error('Error amending order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to amend order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Cancel an order (falls back to algo cancel for TP/SL orders)
+   */
+  async cancelOrder(params: CancelOrderParams): Promise<ApiResponse<any>> {
+    try {
+      if (!params.orderId && !params.clientOrderId) {
+        return {
+          success: false,
+          error: 'Either orderId or clientOrderId is required',
+          timestamp: Date.now(),
+        };
+      }
+
+      const instId = toInstId(params.symbol);
+      this.logger.log(`Canceling order ${params.orderId || params.clientOrderId} for ${instId}`);
+
+      const cancelData: any = { instId };
+      if (params.orderId) cancelData.ordId = params.orderId;
+      if (params.clientOrderId) cancelData.clOrdId = params.clientOrderId;
+
+      const response = await this.apiService.post('/api/v5/trade/cancel-order', cancelData);
+      const result = response.data?.[0];
+
+      if (response.success && result && result.sCode === '0') {
+        return {
+          success: true,
+          data: { orderId: result.ordId, clientOrderId: result.clOrdId, symbol: instId },
+          timestamp: Date.now(),
+          exchange: 'okx',
+          tradingType: 'perpetual',
+        };
+      }
+
+      // TP/SL orders are algo orders and live in a separate id space
+      if (params.orderId) {
+        const algoResponse = await this.apiService.post('/api/v5/trade/cancel-algos', [
+          { instId, algoId: params.orderId },
+        ]);
+        if (algoResponse.success && algoResponse.data?.[0]?.sCode === '0') {
+          return {
+            success: true,
+            data: { orderId: params.orderId, symbol: instId },
+            timestamp: Date.now(),
+            exchange: 'okx',
+            tradingType: 'perpetual',
+          };
+        }
+      }
+
+      throw new Error(result?.sMsg || response.error || 'Failed to cancel order');
+    } catch (error: any) {
+      this.logger.error('Error canceling order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Cancel several orders through /trade/cancel-batch-orders. Orders it does not find are retried
+   * as algo orders (TP/SL live in a separate id space) through /trade/cancel-algos.
+   */
+  async cancelOrders(orders: CancelOrderParams[]): Promise<ApiResponse<ApiResponse<any>[]>> {
+    try {
+      this.logger.log(`Canceling ${orders.length} orders in batches of ${BATCH_SIZE}`);
+
+      const results = await runBatched(orders, {
+        size: BATCH_SIZE,
+        prepare: params => {
+          if (!params.orderId && !params.clientOrderId) {
+            throw new Error('Either orderId or clientOrderId is required');
+          }
+          const cancelData: any = { instId: toInstId(params.symbol) };
+          if (params.orderId) cancelData.ordId = params.orderId;
+          if (params.clientOrderId) cancelData.clOrdId = params.clientOrderId;
+          return cancelData;
+        },
+        send: async batch => {
+          const response = await this.apiService.post<any[]>(
+            '/api/v5/trade/cancel-batch-orders',
+            batch,
+          );
+          if (!Array.isArray(response.data)) {
+            throw new Error(response.error || 'Failed to cancel orders');
+          }
+          return response.data.map(result =>
+            result.sCode === '0'
+              ? this.toCancelledOrder(result.instId, result.ordId, result.clOrdId)
+              : batchItemFailure(result.sMsg || 'Failed to cancel order'),
+          );
+        },
+      });
+
+      const algoIndexes = orders
+        .map((params, i) => (!results[i].success && params.orderId ? i : -1))
+        .filter(i => i >= 0);
+      const algoResults = await runBatched(algoIndexes, {
+        size: ALGO_CANCEL_BATCH_SIZE,
+        prepare: i => ({ instId: toInstId(orders[i].symbol), algoId: orders[i].orderId }),
+        send: async batch => {
+          const response = await this.apiService.post<any[]>('/api/v5/trade/cancel-algos', batch);
+          if (!Array.isArray(response.data)) {
+            throw new Error(response.error || 'Failed to cancel algo orders');
+          }
+          // cancel-algos reports one result per algoId in request order
+          return batch.map(({ instId, algoId }, j) =>
+            response.data![j]?.sCode === '0'
+              ? this.toCancelledOrder(instId, algoId!)
+              : batchItemFailure(response.data![j]?.sMsg || 'Failed to cancel order'),
+          );
+        },
+      });
+      algoIndexes.forEach((i, j) => {
+        // Keep the regular cancel error when the order is not an algo order either
+        if (algoResults[j].success) results[i] = algoResults[j];
+      });
+
+      return toBatchResponse(results, 'okx', 'perpetual');
+    } catch (error: any) {
+      this.logger.error('Error canceling orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Cancel all open orders (OKX has no cancel-all, so batch-cancel pending orders)
+   */
+  async cancelAllOrders(symbol?: string): Promise<ApiResponse<any>> {
+    try {
+      const pending = await this.fetchPendingOrders(symbol);
+      const cancelled: string[] = [];
+
+      for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+        const batch = pending
+          .slice(i, i + BATCH_SIZE)
+          .map(o => ({ instId: o.instId, ordId: o.ordId }));
+        const response = await this.apiService.post('/api/v5/trade/cancel-batch-orders', batch);
+
+        if (!response.success || !response.data) {
+          throw new Error(response.error || 'Failed to cancel orders');
+        }
+
+        response.data
+          .filter((r: any) => r.sCode === '0')
+          .forEach((r: any) => cancelled.push(r.ordId));
+      }
+
+      return {
+        success: true,
+        data: { cancelled },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error canceling all orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel all orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Arm cancel-all-after, which covers every instrument. OKX takes 10 to 120 seconds, so the
+   * timeout is clamped to that range and longer ones must be refreshed before it runs out.
+   */
+  async cancelAllAfter(timeoutMs: number): Promise<ApiResponse<CancelAllAfterResult>> {
+    try {
+      const timeOut =
+        timeoutMs > 0
+          ? Math.min(
+              Math.max(Math.ceil(timeoutMs / 1000), CANCEL_ALL_AFTER_MIN_S),
+              CANCEL_ALL_AFTER_MAX_S,
+            )
+          : 0;
+      const response = await this.apiService.post('/api/v5/trade/cancel-all-after', {
+        timeOut: timeOut.toString(),
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to set cancel-all-after');
+      }
+
+      const triggerTime = parseInt(response.data[0]?.triggerTime || '0');
+      return {
+        success: true,
+        data: { cancelAt: triggerTime > 0 ? triggerTime : undefined },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error setting cancel-all-after:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to set cancel-all-after',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get open orders
+   */
+  async getOpenOrders(symbol?: string): Promise<ApiResponse<Order[]>> {
+    try {
+      const pending = await this.fetchPendingOrders(symbol);
+      const orders = await Promise.all(pending.map(o => this.mapToStandardOrder(o)));
+
+      return {
+        success: true,
+        data: orders,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting open orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get open orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get order details
+   */
+  async getOrder(symbol: string, orderId: string): Promise<ApiResponse<Order>> {
+    try {
+      const response = await this.apiService.get<OkxOrder[]>('/api/v5/trade/order', {
+        instId: toInstId(symbol),
+        ordId: orderId,
+      });
+
+      if (!response.success || !response.data || response.data.length === 0) {
+        throw new Error(response.error || 'Failed to get order');
+      }
+
+      return {
+        success: true,
+        data: await this.mapToStandardOrder(response.data[0]),
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get order details by client order ID
+   */
+  async getOrderByClientId(
+    symbol: string,
+    clientOrderId: string,
+  ): Promise<ApiResponse<Order | null>> {
+    try {
+      const response = await this.apiService.get<OkxOrder[]>('/api/v5/trade/order', {
+        instId: toInstId(symbol),
+        clOrdId: clientOrderId,
+      });
+
+      // 51603: Order does not exist
+      if (!response.success && response.code === '51603') {
+        return {
+          success: true,
+          data: null,
+          timestamp: Date.now(),
+          exchange: 'okx',
+          tradingType: 'perpetual',
+        };
+      }
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get order');
+      }
+
+      return {
+        success: true,
+        data: response.data.length ? await this.mapToStandardOrder(response.data[0]) : null,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting order by client ID:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Quick market buy
+   */
+  async marketBuy(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.BUY, quantity });
+  }
+
+  /**
+   * Quick market sell
+   */
+  async marketSell(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.SELL, quantity });
+  }
+
+  /**
+   * Quick limit buy
+   */
+  async limitBuy(symbol: string, quantity: string, price: string): Promise<ApiResponse<Order>> {
+    return this.placeLimitOrder({
+      symbol,
+      side: OrderSide.BUY,
+      quantity,
+      price,
+      timeInForce: TimeInForce.GTC,
+    });
+  }
+
+  /**
+   * Quick limit sell
+   */
+  async limitSell(symbol: string, quantity: string, price: string): Promise<ApiResponse<Order>> {
+    return this.placeLimitOrder({
+      symbol,
+      side: OrderSide.SELL,
+      quantity,
+      price,
+      timeInForce: TimeInForce.GTC,
+    });
+  }
+
+  // ==================== Futures-specific methods ====================
+
+  /**
+   * Get current positions
+   */
+  async getPositions(symbol?: string): Promise<ApiResponse<Position | Position[]>> {
+    return this.balanceService.getPositions(symbol);
+  }
+
+  /**
+   * Close position by reduce-only market order (with TP/SL cleanup)
+   */
+  async closePosition(symbol: string, positionSide?: PositionSide): Promise<ApiResponse<Order>> {
+    try {
+      const instId = toInstId(symbol);
+      const positionsResponse = await this.balanceService.getNonZeroPositions();
+      if (!positionsResponse.success || !positionsResponse.data) {
+        return { ...positionsResponse, data: undefined };
+      }
+
+      const position = positionsResponse.data.find(
+        p => p.symbol === instId && (!positionSide || p.side === positionSide),
+      );
+
+      if (!position) {
+        return {
+          success: false,
+          error: 'No open position found for this symbol',
+          timestamp: Date.now(),
+        };
+      }
+
+      // Cancel TP/SL first so they cannot fire against a flat position
+      await this.cancelAllConditionalOrders(instId);
+
+      this.logger.log(`Closing ${position.side} position for ${instId}: ${position.size}`);
+
+      return this.placeOrder({
+        symbol: instId,
+        side: position.side === PositionSide.LONG ? OrderSide.SELL : OrderSide.BUY,
+        type: OrderType.MARKET,
+        quantity: position.size,
+        reduceOnly: true,
+        positionSide: position.side,
+      });
+    } catch (error: any) {
+      this.logger.error('Error closing position:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to close position',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Close all positions
+   */
+  async closeAllPositions(): Promise<ApiResponse<Order[]>> {
+    try {
+      const positionsResponse = await this.balanceService.getNonZeroPositions();
+      if (!positionsResponse.success || !positionsResponse.data) {
+        return { ...positionsResponse, data: undefined };
+      }
+
+      const orders: Order[] = [];
+      const errors: string[] = [];
+
+      for (const position of positionsResponse.data) {
+        const result = await this.closePosition(position.symbol, position.side);
+        if (result.success && result.data) {
+          orders.push(result.data);
+        } else {
+          errors.push(`${position.symbol}: ${result.error}`);
+        }
+      }
+
+      if (errors.length > 0 && orders.length === 0) {
+        return {
+          success: false,
+          error: errors.join('; '),
+          timestamp: Date.now(),
+        };
+      }
+
+      return {
+        success: true,
+        data: orders,
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error closing all positions:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to close all positions',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Set leverage (cross margin)
+   */
+  async setLeverage(
+    params: SetLeverageParams,
+  ): Promise<ApiResponse<{ leverage: number; symbol: string }>> {
+    try {
+      const instId = toInstId(params.symbol);
+      this.logger.log(`Setting leverage ${params.leverage}x for ${instId}`);
 
-      const orderResult = response.data[0];
+      const response = await this.apiService.post('/api/v5/account/set-leverage', {
+        instId,
+        lever: params.leverage.toString(),
+        mgnMode: 'cross', // Use cross margin to access full account balance
+      });
 
-      // Check for order-level errors (sCode !== "0" means error)
-      if (orderResult.sCode && orderResult.sCode !== '0') {
-        this.logger.error(`Order failed with sCode ${orderResult.sCode}: ${orderResult.sMsg}`);
-        throw new Error(`Order error: ${orderResult.sMsg} (code: ${orderResult.sCode})`);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to set leverage');
       }
 
+      this.logger.log(`✅ Leverage set to ${params.leverage}x for ${instId}`);
       return {
         success: true,
-        data: {
-          ordId: orderResult.ordId,
-          clOrdId: orderResult.clOrdId,
-          sCode: orderResult.sCode,
-          sMsg: orderResult.sMsg,
-        },
+        data: { leverage: params.leverage, symbol: instId },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error placing market order:', error.message);
+      this.logger.error('Error setting leverage:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to set leverage',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Place a limit order
+   * Get current leverage for symbol
    */
-  async placeLimitOrder(params: {
-    instId: string;
-    side: OrderSide;
-    sz: string;
-    px: string;
-    posSide?: string;
-    tdMode?: string;
-  }): Promise<any> {
+  async getLeverage(symbol: string): Promise<ApiResponse<number>> {
     try {
-      this.logger.log(
-        `Placing limit order: ${params.side} ${params.sz} ${params.instId} @ ${params.px}`,
-      );
-
-      const orderData = {
-        instId: params.instId,
-        tdMode: params.tdMode || 'cross',
-        side: params.side.toLowerCase(),
-        ordType: 'limit',
-        sz: params.sz,
-        px: params.px,
-        ...(params.posSide && { posSide: params.posSide }),
-      };
-
-      const response = await this.apiService.post('/api/v5/trade/order', orderData);
+      const response = await this.apiService.get('/api/v5/account/leverage-info', {
+        instId: toInstId(symbol),
+        mgnMode: 'cross',
+      });
 
       if (!response.success || !response.data || response.data.length === 0) {
-        throw new Error(response.error || 'Failed to place limit order');
+        throw new Error(response.error || 'Failed to get leverage');
       }
 
-      const orderResult = response.data[0];
-
       return {
         success: true,
-        data: {
-          ordId: orderResult.ordId,
-          clOrdId: orderResult.clOrdId,
-          sCode: orderResult.sCode,
-          sMsg: orderResult.sMsg,
-        },
+        data: parseFloat(response.data[0].lever),
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error placing limit order:', error.message);
+      this.logger.error('Error getting leverage:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to get leverage',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Cancel an order
+   * Set position mode (long_short_mode = hedge, net_mode = one-way)
    */
-  async cancelOrder(instId: string, ordId: string): Promise<any> {
+  async setPositionMode(params: SetPositionModeParams): Promise<ApiResponse<any>> {
     try {
-      this.logger.log(`Canceling order ${ordId} for ${instId}`);
-
-      const response = await this.apiService.post('/api/v5/trade/cancel-order', {
-        instId,
-        ordId,
+      const posMode = params.dualSidePosition ? 'long_short_mode' : 'net_mode';
+      const response = await this.apiService.post('/api/v5/account/set-position-mode', {
+        posMode,
       });
 
-      if (!response.success || !response.data || response.data.length === 0) {
-        throw new Error(response.error || 'Failed to cancel order');
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to set position mode');
       }
 
-      const result = response.data[0];
+      this.positionMode = posMode;
 
       return {
         success: true,
-        data: {
-          ordId: result.ordId,
-          clOrdId: result.clOrdId,
-          sCode: result.sCode,
-          sMsg: result.sMsg,
-        },
+        data: { dualSidePosition: params.dualSidePosition },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error canceling order:', error.message);
+      this.logger.error('Error setting position mode:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to set position mode',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Get order details
+   * Get current position mode
    */
-  async getOrderStatus(instId: string, ordId: string): Promise<any> {
+  async getPositionMode(): Promise<ApiResponse<{ dualSidePosition: boolean }>> {
     try {
-      this.logger.log(`Getting order status for ${ordId}`);
-
-      const response = await this.apiService.get('/api/v5/trade/order', {
-        instId,
-        ordId,
-      });
+      const response = await this.apiService.get('/api/v5/account/config');
 
       if (!response.success || !response.data || response.data.length === 0) {
-        throw new Error(response.error || 'Failed to get order status');
+        throw new Error(response.error || 'Failed to get position mode');
       }
 
-      const order = response.data[0];
+      this.positionMode = response.data[0].posMode;
 
       return {
         success: true,
-        data: {
-          ordId: order.ordId,
-          clOrdId: order.clOrdId,
-          instId: order.instId,
-          state: order.state,
-          side: order.side,
-          ordType: order.ordType,
-          px: parseFloat(order.px),
-          sz: parseFloat(order.sz),
-          fillPx: parseFloat(order.fillPx),
-          fillSz: parseFloat(order.fillSz),
-          accFillSz: parseFloat(order.accFillSz),
-          avgPx: parseFloat(order.avgPx),
-          lever: parseFloat(order.lever),
-          uTime: order.uTime,
-          cTime: order.cTime,
-        },
+        data: { dualSidePosition: this.positionMode === 'long_short_mode' },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error getting order status:', error.message);
+      this.logger.error('Error getting position mode:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to get position mode',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Close position by market order
+   * Set stop loss for position (OKX conditional algo order)
    */
-  async closePosition(symbol: string, size?: number): Promise<any> {
-    try {
-      const instId = symbol.includes('-') ? symbol : `${symbol}-USDT-SWAP`;
-      this.logger.log(`Closing position for ${instId}...`);
-
-      // Get current position to determine size and side
-      const positionsResponse = await this.apiService.get('/api/v5/account/positions', {
-        instId,
-      });
+  async setStopLoss(params: SetStopLossParams): Promise<ApiResponse<Order>> {
+    return this.placeProtectiveOrder(
+      params.symbol,
+      OrderType.STOP_MARKET,
+      { stopPrice: params.stopPrice },
+      params.quantity,
+      params.side,
+    );
+  }
 
-      if (
-        !positionsResponse.success ||
-        !positionsResponse.data ||
-        positionsResponse.data.length === 0
-      ) {
-        return {
-          success: false,
-          error: 'No position found',
-        };
-      }
+  /**
+   * Set take profit for position (OKX conditional algo order)
+   */
+  async setTakeProfit(params: SetTakeProfitParams): Promise<ApiResponse<Order>> {
+    return this.placeProtectiveOrder(
+      params.symbol,
+      OrderType.TAKE_PROFIT_MARKET,
+      { stopPrice: params.takeProfitPrice },
+      params.quantity,
+      params.side,
+    );
+  }
 
-      const position = positionsResponse.data[0];
-      const currentPos = parseFloat(position.pos);
+  /**
+   * Set trailing stop for position (OKX move_order_stop algo order)
+   */
+  async setTrailingStop(params: SetTrailingStopParams): Promise<ApiResponse<Order>> {
+    return this.placeProtectiveOrder(
+      params.symbol,
+      OrderType.TRAILING_STOP,
+      { callbackRate: params.callbackRate, activationPrice: params.activationPrice },
+      params.quantity,
+      params.side,
+    );
+  }
 
-      if (currentPos === 0) {
-        return {
-          success: false,
-          error: 'Position is already closed',
-        };
+  /**
+   * Cancel all stop loss / take profit / trigger algo orders for symbol
+   */
+  async cancelAllConditionalOrders(symbol: string): Promise<ApiResponse<any>> {
+    try {
+      const instId = toInstId(symbol);
+      const algoOrders: OkxAlgoOrder[] = [];
+
+      for (const ordType of CONDITIONAL_ALGO_TYPES) {
+        const response = await this.apiService.get<OkxAlgoOrder[]>(
+          '/api/v5/trade/orders-algo-pending',
+          { ordType, instId },
+        );
+        if (response.success && response.data) {
+          algoOrders.push(...response.data);
+        }
       }
 
-      // Determine close side: if pos > 0 (long), close with sell; if pos < 0 (short), close with buy
-      const closeSide = currentPos > 0 ? OrderSide.SELL : OrderSide.BUY;
-      const closeSize = size ? size.toString() : Math.abs(currentPos).toString();
+      const cancelled: string[] = [];
+      // cancel-algos accepts at most 10 orders per request
+      for (let i = 0; i < algoOrders.length; i += 10) {
+        const batch = algoOrders.slice(i, i + 10).map(o => ({ instId, algoId: o.algoId }));
+        const response = await this.apiService.post('/api/v5/trade/cancel-algos', batch);
 
-      this.logger.log(`Closing ${closeSize} contracts with ${closeSide} order`);
+        if (!response.success || !response.data) {
+          throw new Error(response.error || 'Failed to cancel conditional orders');
+        }
 
-      // Place market order to close position
-      const response = await this.placeMarketOrder({
-        instId,
-        side: closeSide,
-        sz: closeSize,
-        tdMode: 'cross',
-      });
-
-      if (response.success) {
-        this.logger.log('✅ Position closed successfully');
+        response.data
+          .filter((r: any) => r.sCode === '0')
+          .forEach((r: any) => cancelled.push(r.algoId));
       }
 
-      return response;
+      return {
+        success: true,
+        data: { symbol: instId, cancelled },
+        timestamp: Date.now(),
+        exchange: 'okx',
+        tradingType: 'perpetual',
+      };
     } catch (error: any) {
-      this.logger.error('Error closing position:', error.message);
+      this.logger.error('Error cancelling conditional orders:', error.message);
       return {
         success: false,
-        error: error.message,
+        error: error.message || 'Failed to cancel conditional orders',
+        timestamp: Date.now(),
       };
     }
   }
 
   /**
-   * Set leverage
+   * Get funding rate
    */
-  async setLeverage(symbol: string, leverage: number): Promise<any> {
-    try {
-      this.logger.log(`Setting leverage ${leverage}x for ${symbol}`);
+  async getFundingRate(symbol?: string): Promise<ApiResponse<any>> {
+    return this.marketService.getFundingRate(symbol);
+  }
 
-      const response = await this.apiService.post('/api/v5/account/set-leverage', {
-        instId: symbol,
-        lever: leverage.toString(),
-        mgnMode: 'cross', // Use cross margin to access full account balance
-      });
+  /**
+   * Get funding history
+   */
+  async getFundingHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<any[]>> {
+    return this.marketService.getFundingRateHistory(symbol, startTime, endTime, limit);
+  }
 
-      if (!response.success) {
-        this.logger.error(`Failed to set leverage: ${response.error}`);
-        throw new Error(`Failed to set leverage: ${response.error}`);
-      }
+  /**
+   * Get position risk (margin ratio, liquidation price, etc.)
+   */
+  async getPositionRisk(symbol?: string): Promise<ApiResponse<any>> {
+    return this.balanceService.getPositionMargin(symbol);
+  }
+
+  /**
+   * Open long position with market order
+   */
+  async openLong(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.BUY, quantity });
+  }
+
+  /**
+   * Open short position with market order
+   */
+  async openShort(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.SELL, quantity });
+  }
+
+  /**
+   * Close long position
+   */
+  async closeLong(symbol: string, quantity?: string): Promise<ApiResponse<Order>> {
+    if (!quantity) {
+      return this.closePosition(symbol, PositionSide.LONG);
+    }
+
+    return this.placeOrder({
+      symbol,
+      side: OrderSide.SELL,
+      type: OrderType.MARKET,
+      quantity,
+      reduceOnly: true,
+      positionSide: PositionSide.LONG,
+    });
+  }
 
-      this.logger.log(`✅ Leverage set to ${leverage}x for ${symbol}`);
-      return response.data;
-    } catch (error) {
-      this.logger.error(`Error setting leverage:`, error);
-      throw error;
+  /**
+   * Close short position
+   */
+  async closeShort(symbol: string, quantity?: string): Promise<ApiResponse<Order>> {
+    if (!quantity) {
+      return this.closePosition(symbol, PositionSide.SHORT);
     }
+
+    return this.placeOrder({
+      symbol,
+      side: OrderSide.BUY,
+      type: OrderType.MARKET,
+      quantity,
+      reduceOnly: true,
+      positionSide: PositionSide.SHORT,
+    });
   }
 
   /**
-   * Quick long by USD value with required TP/SL/leverage (OKX)
+   * Quick long by USD value with required TP/SL/leverage
    */
   async quickLong(
     symbol: string,
@@ -294,114 +1106,120 @@ export class OkxPerpetualTradingService {
     stopLossPercent: number,
     takeProfitPercent: number,
     leverage: number,
-  ): Promise<any> {
-    try {
-      // OKX uses instId format like BTC-USDT-SWAP
-      const instId = symbol.includes('-') ? symbol : `${symbol}-USDT-SWAP`;
+  ): Promise<ApiResponse<any>> {
+    return this.quickOpen(
+      symbol,
+      OrderSide.BUY,
+      usdValue,
+      stopLossPercent,
+      takeProfitPercent,
+      leverage,
+    );
+  }
 
-      // 1. Set leverage first
-      this.logger.log(`Setting leverage ${leverage}x for ${instId}`);
-      await this.setLeverage(instId, leverage);
+  /**
+   * Quick short by USD value with required TP/SL/leverage
+   */
+  async quickShort(
+    symbol: string,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    return this.quickOpen(
+      symbol,
+      OrderSide.SELL,
+      usdValue,
+      stopLossPercent,
+      takeProfitPercent,
+      leverage,
+    );
+  }
 
-      // 2. Get current price from ticker
-      const tickerData = await this.apiService.get(`/api/v5/market/ticker?instId=${instId}`);
-      if (!tickerData.success || !tickerData.data || tickerData.data.length === 0) {
-        return {
-          success: false,
-          error: 'Failed to get current price',
-          timestamp: Date.now(),
-        };
-      }
+  /**
+   * Open a market position and attach reduce-only TP/SL algo orders
+   */
+  private async quickOpen(
+    symbol: string,
+    side: OrderSide,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    const label = side === OrderSide.BUY ? 'long' : 'short';
 
-      const currentPrice = parseFloat(tickerData.data[0].last);
+    try {
+      const instId = toInstId(symbol);
 
-      // 3. Get instrument details to understand contract value
-      const instrumentData = await this.apiService.get(
-        `/api/v5/public/instruments?instType=SWAP&instId=${instId}`,
-      );
-      if (!instrumentData.success || !instrumentData.data || instrumentData.data.length === 0) {
-        return {
-          success: false,
-          error: 'Failed to get instrument details',
-          timestamp: Date.now(),
-        };
+      // 1. Set leverage first
+      const leverageResp = await this.setLeverage({ symbol: instId, leverage });
+      if (!leverageResp.success) {
+        return leverageResp;
       }
 
-      const instrument = instrumentData.data[0];
-      const ctVal = parseFloat(instrument.ctVal); // Contract value (e.g., 0.01 BTC per contract)
-      const minSz = parseFloat(instrument.minSz); // Minimum order size in contracts
-
-      // 4. Calculate number of contracts needed
-      // For BTC-USDT-SWAP: ctVal = 0.01 BTC per contract
-      // If we want $750 position with leverage 10x:
-      // - Margin needed = $750
-      // - Position size = $750 * 10 = $7500
-      // - BTC amount = $7500 / currentPrice
-      // - Contracts = BTC amount / ctVal
-      const positionValueUSD = usdValue * leverage;
-      const btcAmount = positionValueUSD / currentPrice;
-      const contracts = Math.max(Math.floor(btcAmount / ctVal), minSz);
+      // 2. Get current price (local order book mid when synced, otherwise REST)
+      let currentPrice = this.orderBookManager.getMidPrice('okx', instId);
+      if (currentPrice === undefined) {
+        const priceResponse = await this.marketService.getCurrentPrice(instId);
+        if (!priceResponse.success || !priceResponse.data) {
+          return priceResponse;
+        }
+        currentPrice = parseFloat(priceResponse.data);
+      }
 
-      this.logger.log(
-        `Opening long position: ${contracts} contracts (${(contracts * ctVal).toFixed(4)} BTC = $${(contracts * ctVal * currentPrice).toFixed(2)}) ${instId} @ $${currentPrice}`,
+      const quantity = await this.marketService.formatQuantity(
+        instId,
+        (usdValue * leverage) / currentPrice,
       );
-      this.logger.log(`Contract details: ctVal=${ctVal}, minSz=${minSz}`);
 
-      // 5. Place entry market order with cross margin
-      const mainOrder = await this.placeMarketOrder({
-        instId,
-        side: OrderSide.BUY,
-        sz: contracts.toString(),
-        tdMode: 'cross', // Use cross margin to access full balance
-      });
+      this.logger.log(`Opening ${label} position: ${quantity} ${instId} @ $${currentPrice}`);
 
+      // 3. Place entry market order
+      const mainOrder = await this.placeMarketOrder({ symbol: instId, side, quantity });
       if (!mainOrder.success) {
         this.logger.error('Failed to place entry order:', mainOrder.error);
         return mainOrder;
       }
 
-      this.logger.log(`Entry order placed successfully: ${JSON.stringify(mainOrder.data)}`);
-
-      // 5. Calculate SL/TP prices
-      const stopLossPrice = (currentPrice * (1 - stopLossPercent / 100)).toFixed(2);
-      const takeProfitPrice = (currentPrice * (1 + takeProfitPercent / 100)).toFixed(2);
+      // 4. Calculate SL/TP prices (LONG: SL below, TP above; SHORT: the reverse)
+      const direction = side === OrderSide.BUY ? 1 : -1;
+      const stopLossPrice = await this.marketService.formatPrice(
+        instId,
+        currentPrice * (1 - (direction * stopLossPercent) / 100),
+      );
+      const takeProfitPrice = await this.marketService.formatPrice(
+        instId,
+        currentPrice * (1 + (direction * takeProfitPercent) / 100),
+      );
 
       this.logger.log(`Placing TP @ ${takeProfitPrice} and SL @ ${stopLossPrice}`);
 
-      // 6. Place Stop Loss order (reduceOnly to close position)
-      const stopLossOrder = await this.apiService.post('/api/v5/trade/order-algo', {
-        instId,
-        tdMode: 'cross',
-        side: 'sell',
-        ordType: 'conditional',
-        sz: contracts.toString(),
-        slTriggerPx: stopLossPrice,
-        slOrdPx: '-1', // Market price
-        reduceOnly: true, // This makes it close the position instead of opening new one
+      // 5. Place SL/TP as reduce-only conditional algo orders
+      const closeSide = side === OrderSide.BUY ? 'SELL' : 'BUY';
+      const stopLoss = await this.setStopLoss({
+        symbol: instId,
+        stopPrice: stopLossPrice,
+        quantity,
+        side: closeSide,
       });
-
-      // 7. Place Take Profit order (reduceOnly to close position)
-      const takeProfitOrder = await this.apiService.post('/api/v5/trade/order-algo', {
-        instId,
-        tdMode: 'cross',
-        side: 'sell',
-        ordType: 'conditional',
-        sz: contracts.toString(),
-        tpTriggerPx: takeProfitPrice,
-        tpOrdPx: '-1', // Market price
-        reduceOnly: true, // This makes it close the position instead of opening new one
+      const takeProfit = await this.setTakeProfit({
+        symbol: instId,
+        takeProfitPrice,
+        quantity,
+        side: closeSide,
       });
 
-      this.logger.log('Quick long completed successfully');
+      this.logger.log(`Quick ${label} completed successfully`);
 
       return {
         success: true,
         data: {
           mainOrder,
-          stopLoss: stopLossOrder,
-          takeProfit: takeProfitOrder,
-          contracts,
-          btcAmount: contracts * ctVal,
+          stopLoss,
+          takeProfit,
+          quantity,
           entryPrice: currentPrice,
           stopLossPrice,
           takeProfitPrice,
@@ -411,10 +1229,10 @@ export class OkxPerpetualTradingService {
         tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error in quick long:', error);
+      this.logger.error(`Error in quick ${label}:`, error.message);
       return {
         success: false,
-        error: error.message || 'Failed to execute quick long',
+        error: error.message || `Failed to execute quick ${label}`,
         timestamp: Date.now(),
         exchange: 'okx',
         tradingType: 'perpetual',
@@ -423,133 +1241,234 @@ export class OkxPerpetualTradingService {
   }
 
   /**
-   * Quick short by USD value with required TP/SL/leverage (OKX)
+   * Place a reduce-only SL/TP/trailing stop sized from the current position if needed
    */
-  async quickShort(
+  private async placeProtectiveOrder(
     symbol: string,
-    usdValue: number,
-    stopLossPercent: number,
-    takeProfitPercent: number,
-    leverage: number,
-  ): Promise<any> {
-    try {
-      // OKX uses instId format like BTC-USDT-SWAP
-      const instId = symbol.includes('-') ? symbol : `${symbol}-USDT-SWAP`;
-
-      // 1. Set leverage first
-      this.logger.log(`Setting leverage ${leverage}x for ${instId}`);
-      await this.setLeverage(instId, leverage);
-
-      // 2. Get current price from ticker
-      const tickerData = await this.apiService.get(`/api/v5/market/ticker?instId=${instId}`);
-      if (!tickerData.success || !tickerData.data || tickerData.data.length === 0) {
-        return {
-          success: false,
-          error: 'Failed to get current price',
-          timestamp: Date.now(),
-        };
-      }
-
-      const currentPrice = parseFloat(tickerData.data[0].last);
-
-      // 3. Get instrument details to understand contract value
-      const instrumentData = await this.apiService.get(
-        `/api/v5/public/instruments?instType=SWAP&instId=${instId}`,
-      );
-      if (!instrumentData.success || !instrumentData.data || instrumentData.data.length === 0) {
+    type: OrderType.STOP_MARKET | OrderType.TAKE_PROFIT_MARKET | OrderType.TRAILING_STOP,
+    trigger: Pick<PlaceOrderParams, 'stopPrice' | 'callbackRate' | 'activationPrice'>,
+    quantity?: string,
+    side?: 'BUY' | 'SELL',
+  ): Promise<ApiResponse<Order>> {
+    let closeSide = side as OrderSide;
+    let closeQuantity = quantity;
+    let positionSide: PositionSide | undefined;
+
+    if (!closeSide || !closeQuantity) {
+      const positionResponse = await this.balanceService.getPositions(symbol);
+      const position = positionResponse.data as Position;
+
+      if (!positionResponse.success || !position) {
         return {
           success: false,
-          error: 'Failed to get instrument details',
+          error: `No open position found for ${symbol}`,
           timestamp: Date.now(),
         };
       }
 
-      const instrument = instrumentData.data[0];
-      const ctVal = parseFloat(instrument.ctVal); // Contract value
-      const minSz = parseFloat(instrument.minSz); // Minimum order size
+      closeSide =
+        closeSide || (position.side === PositionSide.LONG ? OrderSide.SELL : OrderSide.BUY);
+      closeQuantity = closeQuantity || position.size;
+      positionSide = position.side;
+    }
 
-      // 4. Calculate number of contracts
-      const positionValueUSD = usdValue * leverage;
-      const btcAmount = positionValueUSD / currentPrice;
-      const contracts = Math.max(Math.floor(btcAmount / ctVal), minSz);
+    return this.placeAlgoOrder({
+      symbol,
+      side: closeSide,
+      type,
+      quantity: closeQuantity,
+      ...trigger,
+      reduceOnly: true,
+      positionSide,
+    });
+  }
 
-      this.logger.log(
-        `Opening short position: ${contracts} contracts (${(contracts * ctVal).toFixed(4)} BTC = $${(contracts * ctVal * currentPrice).toFixed(2)}) ${instId} @ $${currentPrice}`,
-      );
-      this.logger.log(`Contract details: ctVal=${ctVal}, minSz=${minSz}`);
+  /**
+   * Place conditional (TP/SL) or trailing stop algo order
+   */
+  private async placeAlgoOrder(params: PlaceOrderParams): Promise<ApiResponse<Order>> {
+    try {
+      const instId = toInstId(params.symbol);
+      const sz = await this.marketService.toContracts(instId, params.quantity);
 
-      // 5. Place entry market order with cross margin
-      const mainOrder = await this.placeMarketOrder({
+      const algoData: any = {
         instId,
-        side: OrderSide.SELL,
-        sz: contracts.toString(),
         tdMode: 'cross',
-      });
-
-      if (!mainOrder.success) {
-        this.logger.error('Failed to place entry order:', mainOrder.error);
-        return mainOrder;
+        side: params.side.toLowerCase(),
+        ordType: 'conditional',
+        sz,
+      };
+      let price: string;
+
+      if (params.type === OrderType.TRAILING_STOP) {
+        if (!params.callbackRate) {
+          throw new Error('callbackRate is required for TRAILING_STOP orders');
+        }
+
+        algoData.ordType = 'move_order_stop';
+        // OKX takes the callback as a ratio (0.01 = 1%)
+        algoData.callbackRatio = (params.callbackRate / 100).toString();
+        if (params.activationPrice) {
+          algoData.activePx = await this.marketService.formatPrice(instId, params.activationPrice);
+        }
+        price = algoData.activePx || '0';
+      } else {
+        if (!params.stopPrice) {
+          throw new Error(`stopPrice is required for ${params.type} orders`);
+        }
+
+        const triggerPx = await this.marketService.formatPrice(instId, params.stopPrice);
+        // -1 executes at market once triggered
+        const ordPx =
+          params.price &&
+          (params.type === OrderType.STOP_LIMIT || params.type === OrderType.TAKE_PROFIT)
+            ? await this.marketService.formatPrice(instId, params.price)
+            : '-1';
+
+        if (params.type === OrderType.STOP_MARKET || params.type === OrderType.STOP_LIMIT) {
+          algoData.slTriggerPx = triggerPx;
+          algoData.slOrdPx = ordPx;
+        } else {
+          algoData.tpTriggerPx = triggerPx;
+          algoData.tpOrdPx = ordPx;
+        }
+        price = ordPx === '-1' ? triggerPx : ordPx;
       }
+      if (params.clientOrderId) algoData.algoClOrdId = params.clientOrderId;
 
-      this.logger.log(`Entry order placed successfully: ${JSON.stringify(mainOrder.data)}`);
-
-      // 5. Calculate SL/TP prices (SHORT: SL higher, TP lower)
-      const stopLossPrice = (currentPrice * (1 + stopLossPercent / 100)).toFixed(2);
-      const takeProfitPrice = (currentPrice * (1 - takeProfitPercent / 100)).toFixed(2);
-
-      this.logger.log(`Placing TP @ ${takeProfitPrice} and SL @ ${stopLossPrice}`);
+      const posSide = await this.resolvePosSide(
+        params.side,
+        params.reduceOnly,
+        params.positionSide,
+      );
+      if (posSide) {
+        algoData.posSide = posSide;
+      } else if (params.reduceOnly) {
+        algoData.reduceOnly = true;
+      }
 
-      // 6. Place Stop Loss order (reduceOnly to close position)
-      const stopLossOrder = await this.apiService.post('/api/v5/trade/order-algo', {
-        instId,
-        tdMode: 'cross',
-        side: 'buy',
-        ordType: 'conditional',
-        sz: contracts.toString(),
-        slTriggerPx: stopLossPrice,
-        slOrdPx: '-1', // Market price
-        reduceOnly: true, // This makes it close the position instead of opening new one
-      });
+      const response = await this.apiService.post('/api/v5/trade/order-algo', algoData);
 
-      // 7. Place Take Profit order (reduceOnly to close position)
-      const takeProfitOrder = await this.apiService.post('/api/v5/trade/order-algo', {
-        instId,
-        tdMode: 'cross',
-        side: 'buy',
-        ordType: 'conditional',
-        sz: contracts.toString(),
-        tpTriggerPx: takeProfitPrice,
-        tpOrdPx: '-1', // Market price
-        reduceOnly: true, // This makes it close the position instead of opening new one
-      });
+      if (!response.success || !response.data || response.data.length === 0) {
+        throw new Error(response.error || 'Failed to place algo order');
+      }
 
-      this.logger.log('Quick short completed successfully');
+      const result = response.data[0];
+      if (result.sCode && result.sCode !== '0') {
+        throw new Error(`Algo order error: ${result.sMsg} (code: ${result.sCode})`);
+      }
 
       return {
         success: true,
         data: {
-          mainOrder,
-          stopLoss: stopLossOrder,
-          takeProfit: takeProfitOrder,
-          contracts,
-          btcAmount: contracts * ctVal,
-          entryPrice: currentPrice,
-          stopLossPrice,
-          takeProfitPrice,
+          orderId: result.algoId,
+          clientOrderId: result.algoClOrdId || undefined,
+          symbol: instId,
+          side: params.side,
+          type: params.type,
+          status: OrderStatus.NEW,
+          price,
+          quantity: await this.marketService.fromContracts(instId, sz),
+          executedQuantity: '0',
+          timestamp: Date.now(),
         },
         timestamp: Date.now(),
         exchange: 'okx',
         tradingType: 'perpetual',
       };
     } catch (error: any) {
-      this.logger.error('Error in quick short:', error);
+      this.logger.error('Error placing algo order:', error.message);
       return {
         success: false,
-        error: error.message || 'Failed to execute quick short',
+        error: error.message || 'Failed to place algo order',
         timestamp: Date.now(),
-        exchange: 'okx',
-        tradingType: 'perpetual',
       };
     }
   }
+
+  /**
+   * Fetch pending (live / partially filled) swap orders
+   */
+  private async fetchPendingOrders(symbol?: string): Promise<OkxOrder[]> {
+    const params: any = { instType: 'SWAP' };
+    if (symbol) params.instId = toInstId(symbol);
+
+    const response = await this.apiService.get<OkxOrder[]>('/api/v5/trade/orders-pending', params);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to get open orders');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Resolve posSide for hedge (long_short_mode) accounts; one-way accounts omit it
+   */
+  private async resolvePosSide(
+    side: OrderSide,
+    reduceOnly?: boolean,
+    positionSide?: PositionSide,
+  ): Promise<string | undefined> {
+    if (!this.positionMode) {
+      await this.getPositionMode();
+    }
+
+    if (this.positionMode !== 'long_short_mode') {
+      return undefined;
+    }
+
+    if (positionSide === PositionSide.LONG || positionSide === PositionSide.SHORT) {
+      return positionSide.toLowerCase();
+    }
+
+    // Opening buys go long; closing buys reduce a short (and vice versa)
+    const isBuy = side === OrderSide.BUY;
+    return isBuy !== !!reduceOnly ? 'long' : 'short';
+  }
+
+  /**
+   * Map unified order type / time in force to OKX ordType
+   */
+  private toOkxOrderType(type: OrderType, timeInForce?: TimeInForce): string {
+    if (type === OrderType.MARKET) return 'market';
+
+    switch (timeInForce) {
+      case TimeInForce.IOC:
+        return 'ioc';
+      case TimeInForce.FOK:
+        return 'fok';
+      case TimeInForce.GTX:
+        return 'post_only';
+      default:
+        return 'limit';
+    }
+  }
+
+  /**
+   * Map OKX order to standard Order format (contracts converted to base asset)
+   */
+  async mapToStandardOrder(okxOrder: OkxOrder): Promise<Order> {
+    const quantity = await this.marketService.fromContracts(okxOrder.instId, okxOrder.sz || '0');
+    const executedQuantity = await this.marketService.fromContracts(
+      okxOrder.instId,
+      okxOrder.accFillSz || '0',
+    );
+    const price = parseFloat(okxOrder.avgPx || '0') > 0 ? okxOrder.avgPx : okxOrder.px;
+
+    return {
+      orderId: okxOrder.ordId,
+      clientOrderId: okxOrder.clOrdId || undefined,
+      symbol: okxOrder.instId,
+      side: okxOrder.side === 'buy' ? OrderSide.BUY : OrderSide.SELL,
+      type: okxOrder.ordType === 'market' ? OrderType.MARKET : OrderType.LIMIT,
+      status: ORDER_STATE_MAP[okxOrder.state] || OrderStatus.NEW,
+      price: price || '0',
+      quantity,
+      executedQuantity,
+      remainingQuantity: (parseFloat(quantity) - parseFloat(executedQuantity)).toString(),
+      timestamp: parseInt(okxOrder.cTime, 10) || Date.now(),
+      updateTime: parseInt(okxOrder.uTime, 10) || undefined,
+    };
+  }
 }
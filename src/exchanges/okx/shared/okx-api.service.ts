@@ -3,6 +3,8 @@ import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance } from 'axios';
 import * as crypto from 'crypto';
 import { OkxConfig } from '../../../config/okx.config';
+import { RateLimiterService } from '../../../common/services/rate-limiter.service';
+import { CircuitBreakerService } from '../../../common/services/circuit-breaker.service';
 import { OkxApiResponse } from '../types';
 
 @Injectable()
@@ -12,7 +14,11 @@ export class OkxApiService {
   private readonly baseURL: string;
   private readonly okxConfig: OkxConfig;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private rateLimiter: RateLimiterService,
+    private circuitBreaker: CircuitBreakerService,
+  ) {
     this.okxConfig = this.configService.get<OkxConfig>('okx')!;
 
     // OKX uses the same REST URL for both live and demo trading
@@ -26,6 +32,8 @@ export class OkxApiService {
         'Content-Type': 'application/json',
       },
     });
+    this.circuitBreaker.attach('okx', this.httpClient);
+    this.rateLimiter.attach('okx', this.httpClient);
 
     this.validateCredentials();
     const mode = this.okxConfig.useSimulated ? '🧪 DEMO TRADING' : '💰 LIVE TRADING';
@@ -172,6 +180,8 @@ export class OkxApiService {
         this.logger.error(`Response data:`, JSON.stringify(response.data, null, 2));
         return {
           success: false,
+          // Batch endpoints still report each item's sCode/sMsg (code 1: all failed, 2: some)
+          data: response.data.data,
           error: response.data.msg,
           code: response.data.code,
         };
@@ -181,6 +191,34 @@ export class OkxApiService {
     }
   }
 
+  /**
+   * Check if API credentials are configured
+   */
+  hasCredentials(): boolean {
+    const { apiKey, apiSecret, passphrase } = this.okxConfig;
+    return !!apiKey && !!apiSecret && !!passphrase;
+  }
+
+  /**
+   * Build login arguments for the private WebSocket channel
+   */
+  buildWebSocketLoginArgs(): {
+    apiKey: string;
+    passphrase: string;
+    timestamp: string;
+    sign: string;
+  } {
+    // WebSocket login uses a unix timestamp in seconds
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    return {
+      apiKey: this.okxConfig.apiKey,
+      passphrase: this.okxConfig.passphrase,
+      timestamp,
+      sign: this.generateSignature(timestamp, 'GET', '/users/self/verify', ''),
+    };
+  }
+
   /**
    * Handle API errors
    */
@@ -0,0 +1,132 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseUserDataStreamService } from '../../../common/websocket/base-user-data-stream.service';
+import { WebSocketConnection } from '../../../common/websocket/websocket-connection';
+import { UserDataEventBus } from '../../../common/services/user-data-event-bus.service';
+import { ExchangeName, OrderSide } from '../../../common/types/exchange.types';
+import { OkxConfig } from '../../../config/okx.config';
+import { OkxOrder, OkxPosition } from '../types';
+import { OkxApiService } from './okx-api.service';
+import { OkxPerpetualTradingService } from '../perpetual/services/perpetual-trading.service';
+import { OkxPerpetualBalanceService } from '../perpetual/services/perpetual-balance.service';
+import { OkxPerpetualMarketService } from '../perpetual/services/perpetual-market.service';
+
+/**
+ * OKX private streams (orders and positions channels).
+ * Logs in on every (re)connect and subscribes once the login is acknowledged.
+ */
+@Injectable()
+export class OkxUserDataStreamService extends BaseUserDataStreamService {
+  private readonly logger = new Logger(OkxUserDataStreamService.name);
+  protected readonly exchange: ExchangeName = 'okx';
+  private readonly connection: WebSocketConnection;
+
+  constructor(
+    configService: ConfigService,
+    eventBus: UserDataEventBus,
+    private readonly apiService: OkxApiService,
+    private readonly tradingService: OkxPerpetualTradingService,
+    private readonly balanceService: OkxPerpetualBalanceService,
+    private readonly marketService: OkxPerpetualMarketService,
+  ) {
+    super(configService, eventBus);
+    const okxConfig = this.configService.get<OkxConfig>('okx')!;
+    const publicUrl = okxConfig.useSimulated ? okxConfig.demoWsUrl : okxConfig.wsUrl;
+
+    this.connection = new WebSocketConnection(OkxUserDataStreamService.name, {
+      url: publicUrl.replace(/\/public$/, '/private'),
+      onOpen: () =>
+        this.connection.send({ op: 'login', args: [this.apiService.buildWebSocketLoginArgs()] }),
+      onMessage: data => this.handleMessage(data),
+      pingIntervalMs: 25000,
+      pingMessage: 'ping',
+    });
+  }
+
+  async start(): Promise<boolean> {
+    if (!this.apiService.hasCredentials()) {
+      this.logger.warn('OKX credentials not configured, user data stream disabled');
+      return false;
+    }
+
+    this.connection.connect();
+    return true;
+  }
+
+  stop(): void {
+    this.connection.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.connection.isConnected();
+  }
+
+  private async handleMessage(data: string): Promise<void> {
+    if (data === 'pong') return;
+
+    try {
+      const message = JSON.parse(data);
+
+      if (message.event === 'login') {
+        if (message.code === '0') {
+          this.logger.log('User data stream logged in');
+          this.connection.send({
+            op: 'subscribe',
+            args: [
+              { channel: 'orders', instType: 'SWAP' },
+              { channel: 'positions', instType: 'SWAP' },
+            ],
+          });
+        } else {
+          this.logger.error(`Login failed [${message.code}]: ${message.msg}`);
+        }
+        return;
+      }
+
+      if (message.event === 'error') {
+        this.logger.warn(`User data stream error [${message.code}]: ${message.msg}`);
+        return;
+      }
+
+      if (!message.arg || !Array.isArray(message.data)) return;
+
+      switch (message.arg.channel) {
+        case 'orders':
+          for (const order of message.data) {
+            await this.handleOrder(order);
+          }
+          break;
+
+        case 'positions':
+          for (const position of message.data as OkxPosition[]) {
+            this.publishPosition(await this.balanceService.mapToStandardPosition(position));
+          }
+          break;
+      }
+    } catch (error: any) {
+      this.logger.error('Error handling user data message:', error.message);
+    }
+  }
+
+  /**
+   * Order pushes carry the latest fill (if any) alongside the order state
+   */
+  private async handleOrder(order: OkxOrder & Record<string, any>): Promise<void> {
+    this.publishOrder(await this.tradingService.mapToStandardOrder(order));
+
+    if (!order.tradeId || !parseFloat(order.fillSz || '0')) return;
+
+    this.publishTrade({
+      id: order.tradeId,
+      orderId: order.ordId,
+      symbol: order.instId,
+      side: order.side === 'buy' ? OrderSide.BUY : OrderSide.SELL,
+      price: order.fillPx,
+      quantity: await this.marketService.fromContracts(order.instId, order.fillSz),
+      // OKX reports fees as negative balance changes
+      fee: (-parseFloat(order.fillFee || '0')).toString(),
+      feeAsset: order.fillFeeCcy || '',
+      timestamp: parseInt(order.fillTime, 10) || Date.now(),
+    });
+  }
+}
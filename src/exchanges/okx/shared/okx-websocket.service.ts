@@ -0,0 +1,242 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseMarketStreamService } from '../../../common/websocket/base-market-stream.service';
+import { WebSocketConnection } from '../../../common/websocket/websocket-connection';
+import { MarketStreamTopic } from '../../../common/interfaces/market-stream.interface';
+import { ExchangeName, OrderSide } from '../../../common/types/exchange.types';
+import { OkxConfig } from '../../../config/okx.config';
+import { OkxPerpetualMarketService } from '../perpetual/services/perpetual-market.service';
+import { intervalToMs, toInstId, toOkxBar } from '../perpetual/services/perpetual-market.utils';
+
+/**
+ * OKX public market streams.
+ * Tickers, books and trades use the public endpoint; candles are only served on the business endpoint.
+ */
+@Injectable()
+export class OkxWebSocketService extends BaseMarketStreamService {
+  private readonly logger = new Logger(OkxWebSocketService.name);
+  protected readonly exchange: ExchangeName = 'okx';
+  private readonly publicConnection: WebSocketConnection;
+  private readonly businessConnection: WebSocketConnection;
+  private readonly contractValues = new Map<string, number>();
+
+  constructor(
+    private configService: ConfigService,
+    private readonly marketService: OkxPerpetualMarketService,
+  ) {
+    super();
+    const okxConfig = this.configService.get<OkxConfig>('okx')!;
+    const publicUrl = okxConfig.useSimulated ? okxConfig.demoWsUrl : okxConfig.wsUrl;
+
+    this.publicConnection = new WebSocketConnection(`${OkxWebSocketService.name}:public`, {
+      url: publicUrl,
+      onOpen: () => this.sendSubscription('subscribe', this.getPublicTopics()),
+      onMessage: data => this.handleMessage(data),
+      pingIntervalMs: 25000,
+      pingMessage: 'ping',
+    });
+
+    this.businessConnection = new WebSocketConnection(`${OkxWebSocketService.name}:business`, {
+      url: publicUrl.replace(/\/public$/, '/business'),
+      onOpen: () => this.sendSubscription('subscribe', this.getTopics('candles')),
+      onMessage: data => this.handleMessage(data),
+      pingIntervalMs: 25000,
+      pingMessage: 'ping',
+    });
+  }
+
+  isConnected(): boolean {
+    return this.publicConnection.isConnected() || this.businessConnection.isConnected();
+  }
+
+  protected normalizeSymbol(symbol: string): string {
+    return toInstId(symbol);
+  }
+
+  protected addTopic(topic: MarketStreamTopic): void {
+    // Sizes are streamed in contracts; warm the contract value cache before data arrives
+    this.getContractValue(topic.symbol).catch(() => undefined);
+
+    const connection = this.getConnection(topic);
+    if (connection.isConnected()) {
+      this.sendSubscription('subscribe', [topic]);
+    } else {
+      connection.connect();
+    }
+  }
+
+  protected removeTopic(topic: MarketStreamTopic): void {
+    const connection = this.getConnection(topic);
+    const remaining =
+      topic.channel === 'candles' ? this.getTopics('candles') : this.getPublicTopics();
+
+    if (remaining.length === 0) {
+      connection.disconnect();
+      return;
+    }
+
+    this.sendSubscription('unsubscribe', [topic]);
+  }
+
+  protected disconnect(): void {
+    this.publicConnection.disconnect();
+    this.businessConnection.disconnect();
+  }
+
+  private getConnection(topic: MarketStreamTopic): WebSocketConnection {
+    return topic.channel === 'candles' ? this.businessConnection : this.publicConnection;
+  }
+
+  private getPublicTopics(): MarketStreamTopic[] {
+    return this.getTopics().filter(topic => topic.channel !== 'candles');
+  }
+
+  /**
+   * Map a topic to an OKX channel name
+   */
+  private toChannel(topic: MarketStreamTopic): string {
+    switch (topic.channel) {
+      case 'ticker':
+        return 'tickers';
+      case 'orderbook':
+        return 'books5';
+      case 'depth':
+        return 'books';
+      case 'trades':
+        return 'trades';
+      case 'candles':
+        return `candle${toOkxBar(topic.interval!)}`;
+    }
+  }
+
+  private sendSubscription(op: 'subscribe' | 'unsubscribe', topics: MarketStreamTopic[]): void {
+    if (topics.length === 0) return;
+
+    this.getConnection(topics[0]).send({
+      op,
+      args: topics.map(topic => ({ channel: this.toChannel(topic), instId: topic.symbol })),
+    });
+  }
+
+  /**
+   * Contract value in base asset, cached per instrument
+   */
+  private async getContractValue(instId: string): Promise<number> {
+    const cached = this.contractValues.get(instId);
+    if (cached !== undefined) return cached;
+
+    const ctVal = parseFloat(await this.marketService.fromContracts(instId, 1));
+    this.contractValues.set(instId, ctVal);
+    return ctVal;
+  }
+
+  /**
+   * Normalize incoming channel payloads
+   */
+  private async handleMessage(data: string): Promise<void> {
+    if (data === 'pong') return;
+
+    try {
+      const message = JSON.parse(data);
+
+      if (message.event === 'error') {
+        this.logger.warn(`Subscription error [${message.code}]: ${message.msg}`);
+        return;
+      }
+
+      if (!message.arg || !Array.isArray(message.data)) return;
+
+      const { channel, instId } = message.arg;
+
+      if (channel === 'tickers') {
+        for (const ticker of message.data) {
+          this.emit(
+            { channel: 'ticker', symbol: instId },
+            { symbol: instId, price: ticker.last, timestamp: parseInt(ticker.ts, 10) },
+          );
+        }
+      } else if (channel === 'books5') {
+        const ctVal = await this.getContractValue(instId);
+        const toLevel = (level: string[]): [string, string] => [
+          level[0],
+          (parseFloat(level[1]) * ctVal).toString(),
+        ];
+
+        for (const book of message.data) {
+          this.emit(
+            { channel: 'orderbook', symbol: instId },
+            {
+              symbol: instId,
+              bids: book.bids.map(toLevel),
+              asks: book.asks.map(toLevel),
+              timestamp: parseInt(book.ts, 10),
+            },
+          );
+        }
+      } else if (channel === 'books') {
+        const ctVal = await this.getContractValue(instId);
+        const toLevel = (level: string[]): [string, string] => [
+          level[0],
+          (parseFloat(level[1]) * ctVal).toString(),
+        ];
+
+        for (const book of message.data) {
+          this.emit(
+            { channel: 'depth', symbol: instId },
+            {
+              symbol: instId,
+              bids: book.bids.map(toLevel),
+              asks: book.asks.map(toLevel),
+              snapshot: message.action === 'snapshot',
+              firstUpdateId: book.seqId,
+              lastUpdateId: book.seqId,
+              prevUpdateId: message.action === 'snapshot' ? undefined : book.prevSeqId,
+              timestamp: parseInt(book.ts, 10),
+            },
+          );
+        }
+      } else if (channel === 'trades') {
+        const ctVal = await this.getContractValue(instId);
+
+        for (const trade of message.data) {
+          this.emit(
+            { channel: 'trades', symbol: instId },
+            {
+              id: trade.tradeId,
+              orderId: '',
+              symbol: instId,
+              side: trade.side === 'buy' ? OrderSide.BUY : OrderSide.SELL,
+              price: trade.px,
+              quantity: (parseFloat(trade.sz) * ctVal).toString(),
+              fee: '0',
+              feeAsset: '',
+              timestamp: parseInt(trade.ts, 10),
+            },
+          );
+        }
+      } else if (channel.startsWith('candle')) {
+        // Candle channels carry the OKX bar (1H), map back to the subscribed interval (1h)
+        const bar = channel.slice('candle'.length);
+        const topic = this.getTopics('candles').find(
+          t => t.symbol === instId && toOkxBar(t.interval!) === bar,
+        );
+        if (!topic) return;
+
+        const intervalMs = intervalToMs(topic.interval!);
+        for (const k of message.data) {
+          this.emit(topic, {
+            openTime: parseInt(k[0], 10),
+            open: k[1],
+            high: k[2],
+            low: k[3],
+            close: k[4],
+            volume: k[6],
+            closeTime: parseInt(k[0], 10) + intervalMs - 1,
+          });
+        }
+      }
+    } catch (error: any) {
+      this.logger.error('Error parsing WebSocket message:', error.message);
+    }
+  }
+}
@@ -126,3 +126,63 @@ export interface OkxTicker {
   sodUtc0: string;
   sodUtc8: string;
 }
+
+export interface OkxInstrument {
+  instType: string;
+  instId: string;
+  uly: string;
+  settleCcy: string;
+  ctVal: string;
+  ctMult: string;
+  ctValCcy: string;
+  lotSz: string;
+  tickSz: string;
+  minSz: string;
+  maxLmtSz: string;
+  maxMktSz: string;
+  maxLmtAmt: string;
+  maxMktAmt: string;
+  lever: string;
+  state: string;
+}
+
+export interface OkxOrder {
+  instType: string;
+  instId: string;
+  ordId: string;
+  clOrdId: string;
+  px: string;
+  sz: string;
+  ordType: string;
+  side: string;
+  posSide: string;
+  tdMode: string;
+  accFillSz: string;
+  fillPx: string;
+  avgPx: string;
+  state: string;
+  lever: string;
+  reduceOnly: string;
+  cTime: string;
+  uTime: string;
+}
+
+export interface OkxAlgoOrder {
+  instType: string;
+  instId: string;
+  algoId: string;
+  algoClOrdId: string;
+  ordType: string;
+  side: string;
+  posSide: string;
+  sz: string;
+  state: string;
+  slTriggerPx: string;
+  slOrdPx: string;
+  tpTriggerPx: string;
+  tpOrdPx: string;
+  triggerPx: string;
+  ordPx: string;
+  reduceOnly: string;
+  cTime: string;
+}
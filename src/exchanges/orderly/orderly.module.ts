@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { OrderlyPerpetualModule } from './perpetual/perpetual.module';
+
+@Module({
+  imports: [OrderlyPerpetualModule],
+  exports: [OrderlyPerpetualModule],
+})
+export class OrderlyModule {}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+// Services
+import { OrderlyPerpetualTradingService } from './services/perpetual-trading.service';
+import { OrderlyPerpetualBalanceService } from './services/perpetual-balance.service';
+import { OrderlyPerpetualMarketService } from './services/perpetual-market.service';
+
+// Shared services
+import { OrderlyApiService } from '../shared/orderly-api.service';
+import { OrderlyWebSocketService } from '../shared/orderly-websocket.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    OrderlyPerpetualTradingService,
+    OrderlyPerpetualBalanceService,
+    OrderlyPerpetualMarketService,
+    OrderlyApiService,
+    OrderlyWebSocketService,
+  ],
+  exports: [
+    OrderlyPerpetualTradingService,
+    OrderlyPerpetualBalanceService,
+    OrderlyPerpetualMarketService,
+    OrderlyWebSocketService,
+  ],
+})
+export class OrderlyPerpetualModule {}
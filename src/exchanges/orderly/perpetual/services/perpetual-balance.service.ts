@@ -0,0 +1,684 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  IPerpetualBalanceService,
+  PerpetualAccountInfo,
+  PositionMargin,
+  IncomeHistory,
+  TransactionHistory,
+} from '../../../../common/interfaces';
+import {
+  ApiResponse,
+  Balance,
+  Position,
+  PositionSide,
+} from '../../../../common/types/exchange.types';
+import { OrderlyApiService } from '../../shared/orderly-api.service';
+import {
+  OrderlyFundingFee,
+  OrderlyHolding,
+  OrderlyPosition,
+  OrderlyPositionsData,
+  OrderlyRows,
+  OrderlyTrade,
+} from '../../types';
+import { OrderlyPerpetualMarketService } from './perpetual-market.service';
+import { toOrderlySymbol } from './perpetual-market.utils';
+
+/**
+ * Orderly settles all perpetuals in USDC
+ */
+const SETTLEMENT_ASSET = 'USDC';
+
+@Injectable()
+export class OrderlyPerpetualBalanceService implements IPerpetualBalanceService {
+  private readonly logger = new Logger(OrderlyPerpetualBalanceService.name);
+
+  constructor(
+    private readonly apiService: OrderlyApiService,
+    private readonly marketService: OrderlyPerpetualMarketService,
+  ) {}
+
+  /**
+   * Get account balance
+   */
+  async getBalance(asset?: string): Promise<ApiResponse<Balance | Balance[]>> {
+    try {
+      const holdings = await this.fetchHoldings();
+      const balances = holdings.map(h => this.mapToStandardBalance(h));
+
+      if (asset) {
+        const balance = balances.find(b => b.asset === asset.toUpperCase());
+        return {
+          success: true,
+          data: balance || { asset: asset.toUpperCase(), free: '0', locked: '0', total: '0' },
+          timestamp: Date.now(),
+          exchange: 'orderly',
+          tradingType: 'perpetual',
+        };
+      }
+
+      return {
+        success: true,
+        data: balances,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting balance:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get balance',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get non-zero balances
+   */
+  async getNonZeroBalances(): Promise<ApiResponse<Balance[]>> {
+    const result = await this.getBalance();
+    if (result.success && result.data) {
+      const balances = Array.isArray(result.data) ? result.data : [result.data];
+      return {
+        ...result,
+        data: balances.filter(b => parseFloat(b.total) > 0),
+      };
+    }
+    return result as ApiResponse<Balance[]>;
+  }
+
+  /**
+   * Get total portfolio value (collateral value incl. unsettled PnL)
+   */
+  async getPortfolioValue(): Promise<
+    ApiResponse<{ totalValue: string; availableBalance: string; usedMargin?: string }>
+  > {
+    try {
+      const account = await this.fetchPositionsData();
+
+      return {
+        success: true,
+        data: {
+          totalValue: account.total_collateral_value.toString(),
+          availableBalance: account.free_collateral.toString(),
+          usedMargin: (account.total_collateral_value - account.free_collateral).toString(),
+        },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting portfolio value:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get portfolio value',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  // ==================== Futures-specific methods ====================
+
+  /**
+   * Get positions
+   */
+  async getPositions(symbol?: string): Promise<ApiResponse<Position | Position[]>> {
+    try {
+      const account = await this.fetchPositionsData();
+      const positions = account.rows
+        .filter(p => p.position_qty !== 0)
+        .map(p => this.mapToStandardPosition(p));
+
+      if (symbol) {
+        const orderlySymbol = toOrderlySymbol(symbol);
+        const position = positions.find(p => p.symbol === orderlySymbol);
+        if (!position) {
+          return {
+            success: false,
+            error: `Position not found for ${symbol}`,
+            timestamp: Date.now(),
+          };
+        }
+        return {
+          success: true,
+          data: position,
+          timestamp: Date.now(),
+          exchange: 'orderly',
+          tradingType: 'perpetual',
+        };
+      }
+
+      return {
+        success: true,
+        data: positions,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting positions:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get positions',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get non-zero positions
+   */
+  async getNonZeroPositions(): Promise<ApiResponse<Position[]>> {
+    const result = await this.getPositions();
+    if (result.success && result.data) {
+      const positions = Array.isArray(result.data) ? result.data : [result.data];
+      return {
+        ...result,
+        data: positions.filter(p => parseFloat(p.size) !== 0),
+      };
+    }
+    return result as ApiResponse<Position[]>;
+  }
+
+  /**
+   * Get position margin details (Orderly is cross margin only)
+   */
+  async getPositionMargin(
+    symbol?: string,
+  ): Promise<ApiResponse<PositionMargin | PositionMargin[]>> {
+    try {
+      const account = await this.fetchPositionsData();
+      const orderlySymbol = symbol ? toOrderlySymbol(symbol) : undefined;
+
+      const margins: PositionMargin[] = account.rows
+        .filter(p => p.position_qty !== 0 && (!orderlySymbol || p.symbol === orderlySymbol))
+        .map(p => {
+          const notional = Math.abs(p.position_qty) * p.mark_price;
+          return {
+            symbol: p.symbol,
+            initialMargin: (notional * p.imr).toString(),
+            maintenanceMargin: (notional * p.mmr).toString(),
+            marginBalance: account.total_collateral_value.toString(),
+            marginRatio: account.margin_ratio.toString(),
+            liquidationPrice: p.est_liq_price.toString(),
+            markPrice: p.mark_price.toString(),
+            positionSide: p.position_qty > 0 ? PositionSide.LONG : PositionSide.SHORT,
+          };
+        });
+
+      return {
+        success: true,
+        data: orderlySymbol ? margins[0] : margins,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting position margin:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get position margin',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get complete account information
+   */
+  async getAccountInfo(): Promise<ApiResponse<PerpetualAccountInfo>> {
+    try {
+      const [account, holdings] = await Promise.all([
+        this.fetchPositionsData(),
+        this.fetchHoldings(),
+      ]);
+
+      const openRows = account.rows.filter(p => p.position_qty !== 0);
+      const unrealizedPnl = openRows.reduce((sum, p) => sum + p.unsettled_pnl, 0);
+      const positionInitialMargin = openRows.reduce(
+        (sum, p) => sum + Math.abs(p.position_qty) * p.mark_price * p.imr,
+        0,
+      );
+      const walletBalance = holdings.find(h => h.token === SETTLEMENT_ASSET)?.holding || 0;
+
+      return {
+        success: true,
+        data: {
+          totalWalletBalance: walletBalance.toString(),
+          totalUnrealizedProfit: unrealizedPnl.toString(),
+          totalMarginBalance: account.total_collateral_value.toString(),
+          totalPositionInitialMargin: positionInitialMargin.toString(),
+          totalOpenOrderInitialMargin: Math.max(
+            account.total_collateral_value - account.free_collateral - positionInitialMargin,
+            0,
+          ).toString(),
+          totalCrossWalletBalance: walletBalance.toString(),
+          totalCrossUnPnl: unrealizedPnl.toString(),
+          availableBalance: account.free_collateral.toString(),
+          maxWithdrawAmount: account.free_collateral.toString(),
+          assets: holdings.map(h => this.mapToStandardBalance(h)),
+          positions: openRows.map(p => this.mapToStandardPosition(p)),
+          canTrade: true,
+          canDeposit: true,
+          canWithdraw: true,
+          updateTime: Date.now(),
+        },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting account info:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get account info',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get available balance for trading
+   */
+  async getAvailableBalance(): Promise<ApiResponse<string>> {
+    return this.pickAccountField('availableBalance', 'Failed to get available balance');
+  }
+
+  /**
+   * Get total wallet balance
+   */
+  async getTotalWalletBalance(): Promise<ApiResponse<string>> {
+    return this.pickAccountField('totalWalletBalance', 'Failed to get total wallet balance');
+  }
+
+  /**
+   * Get total unrealized PnL
+   */
+  async getTotalUnrealizedPnl(): Promise<ApiResponse<string>> {
+    return this.pickAccountField('totalUnrealizedProfit', 'Failed to get unrealized PnL');
+  }
+
+  /**
+   * Get maximum withdrawable amount (free collateral)
+   */
+  async getMaxWithdrawAmount(): Promise<ApiResponse<string>> {
+    return this.pickAccountField('maxWithdrawAmount', 'Failed to get max withdraw amount');
+  }
+
+  /**
+   * Get income history (funding fees, realized PnL and commissions)
+   */
+  async getIncomeHistory(
+    symbol?: string,
+    incomeType?: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 100,
+  ): Promise<ApiResponse<IncomeHistory[]>> {
+    try {
+      const income: IncomeHistory[] = [];
+
+      if (!incomeType || incomeType === 'FUNDING_FEE') {
+        const fees = await this.fetchFundingFees(symbol, startTime, endTime, limit);
+        fees.forEach(fee => {
+          income.push({
+            symbol: fee.symbol,
+            incomeType: 'FUNDING_FEE',
+            income: (fee.payment_type === 'Pay'
+              ? -Math.abs(fee.funding_fee)
+              : Math.abs(fee.funding_fee)
+            ).toString(),
+            asset: SETTLEMENT_ASSET,
+            info: fee.funding_rate.toString(),
+            time: fee.created_time,
+            tranId: fee.id.toString(),
+          });
+        });
+      }
+
+      if (!incomeType || incomeType === 'REALIZED_PNL' || incomeType === 'COMMISSION') {
+        const trades = await this.fetchTrades(symbol, startTime, endTime, limit);
+        trades.forEach(trade => {
+          if ((!incomeType || incomeType === 'REALIZED_PNL') && trade.realized_pnl) {
+            income.push({
+              symbol: trade.symbol,
+              incomeType: 'REALIZED_PNL',
+              income: trade.realized_pnl.toString(),
+              asset: SETTLEMENT_ASSET,
+              time: trade.executed_timestamp,
+              tranId: trade.id.toString(),
+              tradeId: trade.id.toString(),
+            });
+          }
+          if (!incomeType || incomeType === 'COMMISSION') {
+            income.push({
+              symbol: trade.symbol,
+              incomeType: 'COMMISSION',
+              income: (-trade.fee).toString(),
+              asset: trade.fee_asset,
+              time: trade.executed_timestamp,
+              tranId: trade.id.toString(),
+              tradeId: trade.id.toString(),
+            });
+          }
+        });
+      }
+
+      income.sort((a, b) => b.time - a.time);
+
+      return {
+        success: true,
+        data: income.slice(0, limit),
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting income history:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get income history',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get trade history
+   */
+  async getTransactionHistory(
+    symbol?: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 100,
+  ): Promise<ApiResponse<TransactionHistory[]>> {
+    try {
+      const trades = await this.fetchTrades(symbol, startTime, endTime, limit);
+
+      const history: TransactionHistory[] = trades.map(trade => ({
+        symbol: trade.symbol,
+        id: trade.id.toString(),
+        orderId: trade.order_id.toString(),
+        side: trade.side,
+        price: trade.executed_price.toString(),
+        quantity: trade.executed_quantity.toString(),
+        realizedPnl: (trade.realized_pnl || 0).toString(),
+        marginAsset: SETTLEMENT_ASSET,
+        quoteQuantity: (trade.executed_price * trade.executed_quantity).toString(),
+        commission: trade.fee.toString(),
+        commissionAsset: trade.fee_asset,
+        time: trade.executed_timestamp,
+        buyer: trade.side === 'BUY',
+        maker: !!trade.is_maker,
+      }));
+
+      return {
+        success: true,
+        data: history,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting transaction history:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get transaction history',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get funding fee history
+   */
+  async getFundingFeeHistory(
+    symbol?: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<IncomeHistory[]>> {
+    return this.getIncomeHistory(symbol, 'FUNDING_FEE', startTime, endTime, limit);
+  }
+
+  /**
+   * Get margin ratio (account-wide, Orderly is cross margin only)
+   */
+  async getMarginRatio(symbol: string): Promise<ApiResponse<string>> {
+    try {
+      const account = await this.fetchPositionsData();
+      const orderlySymbol = toOrderlySymbol(symbol);
+
+      if (!account.rows.some(p => p.symbol === orderlySymbol && p.position_qty !== 0)) {
+        throw new Error(`Position not found for ${symbol}`);
+      }
+
+      return {
+        success: true,
+        data: account.margin_ratio.toString(),
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting margin ratio:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get margin ratio',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Check if account is close to liquidation (margin ratio within 1.5x of maintenance)
+   */
+  async isAtRiskOfLiquidation(): Promise<ApiResponse<boolean>> {
+    try {
+      const account = await this.fetchPositionsData();
+      const hasPositions = account.rows.some(p => p.position_qty !== 0);
+
+      return {
+        success: true,
+        data: hasPositions && account.margin_ratio < account.maintenance_margin_ratio * 1.5,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error checking liquidation risk:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to check liquidation risk',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Calculate required margin for position
+   */
+  async calculateRequiredMargin(
+    symbol: string,
+    quantity: string,
+    leverage: number,
+  ): Promise<ApiResponse<string>> {
+    try {
+      const priceResponse = await this.marketService.getCurrentPrice(symbol);
+      if (!priceResponse.success || !priceResponse.data) {
+        throw new Error(priceResponse.error || 'Failed to get current price');
+      }
+
+      const notional = parseFloat(priceResponse.data) * parseFloat(quantity);
+
+      return {
+        success: true,
+        data: (notional / (leverage || 1)).toString(),
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error calculating required margin:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to calculate required margin',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Calculate potential PnL
+   */
+  async calculatePotentialPnl(
+    symbol: string,
+    entryPrice: string,
+    exitPrice: string,
+    quantity: string,
+    side: 'LONG' | 'SHORT',
+  ): Promise<ApiResponse<{ pnl: string; pnlPercentage: string }>> {
+    const entry = parseFloat(entryPrice);
+    const qty = parseFloat(quantity);
+    const direction = side === 'LONG' ? 1 : -1;
+    const pnl = (parseFloat(exitPrice) - entry) * qty * direction;
+    const cost = entry * qty;
+
+    return {
+      success: true,
+      data: {
+        pnl: pnl.toString(),
+        pnlPercentage: (cost > 0 ? (pnl / cost) * 100 : 0).toString(),
+      },
+      timestamp: Date.now(),
+      exchange: 'orderly',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Fetch account positions and margin summary
+   */
+  private async fetchPositionsData(): Promise<OrderlyPositionsData> {
+    const response = await this.apiService.get<OrderlyPositionsData>('/v1/positions');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch positions');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Fetch token holdings
+   */
+  private async fetchHoldings(): Promise<OrderlyHolding[]> {
+    const response = await this.apiService.get<{ holding: OrderlyHolding[] }>('/v1/client/holding');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch holdings');
+    }
+
+    return response.data.holding;
+  }
+
+  /**
+   * Fetch executed trades
+   */
+  private async fetchTrades(
+    symbol?: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 100,
+  ): Promise<OrderlyTrade[]> {
+    const response = await this.apiService.get<OrderlyRows<OrderlyTrade>>('/v1/trades', {
+      symbol: symbol ? toOrderlySymbol(symbol) : undefined,
+      start_t: startTime,
+      end_t: endTime,
+      size: limit,
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch trades');
+    }
+
+    return response.data.rows;
+  }
+
+  /**
+   * Fetch funding fee settlements
+   */
+  private async fetchFundingFees(
+    symbol?: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 100,
+  ): Promise<OrderlyFundingFee[]> {
+    const response = await this.apiService.get<OrderlyRows<OrderlyFundingFee>>(
+      '/v1/funding_fee/history',
+      {
+        symbol: symbol ? toOrderlySymbol(symbol) : undefined,
+        start_t: startTime,
+        end_t: endTime,
+        size: limit,
+      },
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch funding fee history');
+    }
+
+    return response.data.rows;
+  }
+
+  /**
+   * Resolve a single field from account info
+   */
+  private async pickAccountField(
+    field: keyof PerpetualAccountInfo,
+    errorMessage: string,
+  ): Promise<ApiResponse<string>> {
+    const accountInfo = await this.getAccountInfo();
+    if (accountInfo.success && accountInfo.data) {
+      return {
+        success: true,
+        data: accountInfo.data[field] as string,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    }
+    return { success: false, error: accountInfo.error || errorMessage, timestamp: Date.now() };
+  }
+
+  /**
+   * Map Orderly holding to standard Balance format
+   */
+  private mapToStandardBalance(holding: OrderlyHolding): Balance {
+    return {
+      asset: holding.token,
+      free: (holding.holding - holding.frozen).toString(),
+      locked: holding.frozen.toString(),
+      total: holding.holding.toString(),
+    };
+  }
+
+  /**
+   * Map Orderly position to standard Position format
+   */
+  private mapToStandardPosition(position: OrderlyPosition): Position {
+    return {
+      symbol: position.symbol,
+      side: position.position_qty > 0 ? PositionSide.LONG : PositionSide.SHORT,
+      size: Math.abs(position.position_qty).toString(),
+      entryPrice: position.average_open_price.toString(),
+      markPrice: position.mark_price.toString(),
+      liquidationPrice: position.est_liq_price.toString(),
+      unrealizedPnl: position.unsettled_pnl.toString(),
+      leverage: position.leverage || (position.imr ? Math.round(1 / position.imr) : undefined),
+      marginType: 'cross',
+    };
+  }
+}
@@ -0,0 +1,786 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  IPerpetualMarketService,
+  FundingRate,
+  MarkPrice,
+  OpenInterest,
+  LongShortRatio,
+  PremiumIndex,
+  LiquidationOrder,
+  MarginTier,
+} from '../../../../common/interfaces';
+import {
+  ApiResponse,
+  OrderBook,
+  Candle,
+  Trade,
+  OrderSide,
+} from '../../../../common/types/exchange.types';
+import { OrderlyApiService } from '../../shared/orderly-api.service';
+import { OrderlyFuturesInfo, OrderlyRows, OrderlySymbolInfo } from '../../types';
+import { toOrderlySymbol, toOrderlyKlineType, roundToTick } from './perpetual-market.utils';
+
+@Injectable()
+export class OrderlyPerpetualMarketService implements IPerpetualMarketService {
+  private readonly logger = new Logger(OrderlyPerpetualMarketService.name);
+  private symbolInfoCache: Map<string, OrderlySymbolInfo> = new Map();
+  private cacheExpiry: number = 0;
+  private readonly CACHE_DURATION = 3600000; // 1 hour
+
+  constructor(private readonly apiService: OrderlyApiService) {}
+
+  /**
+   * Get current (last traded) price for symbol
+   */
+  async getCurrentPrice(symbol: string): Promise<ApiResponse<string>> {
+    try {
+      const info = await this.fetchFuturesInfo(toOrderlySymbol(symbol));
+
+      return {
+        success: true,
+        data: info['24h_close'].toString(),
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting current price:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get current price',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get all prices
+   */
+  async getAllPrices(): Promise<ApiResponse<Record<string, string>>> {
+    try {
+      const futures = await this.fetchAllFuturesInfo();
+
+      const prices: Record<string, string> = {};
+      futures.forEach(info => {
+        prices[info.symbol] = info['24h_close'].toString();
+      });
+
+      return {
+        success: true,
+        data: prices,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting all prices:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get all prices',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get ticker (24hr stats)
+   */
+  async getTicker(symbol?: string): Promise<ApiResponse<any>> {
+    try {
+      const data = symbol
+        ? await this.fetchFuturesInfo(toOrderlySymbol(symbol))
+        : await this.fetchAllFuturesInfo();
+
+      return {
+        success: true,
+        data,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting ticker:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get ticker',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get order book (Orderly requires a signed request for depth)
+   */
+  async getOrderBook(symbol: string, limit: number = 20): Promise<ApiResponse<OrderBook>> {
+    try {
+      const orderlySymbol = toOrderlySymbol(symbol);
+      const response = await this.apiService.get(`/v1/orderbook/${orderlySymbol}`, {
+        max_level: limit,
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch order book');
+      }
+
+      const toLevel = (level: any): [string, string] => [
+        level.price.toString(),
+        level.quantity.toString(),
+      ];
+
+      return {
+        success: true,
+        data: {
+          symbol: orderlySymbol,
+          bids: response.data.bids.map(toLevel),
+          asks: response.data.asks.map(toLevel),
+          timestamp: response.data.timestamp || Date.now(),
+          // orderbookupdate events chain on the snapshot timestamp
+          lastUpdateId: response.data.timestamp,
+        },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting order book:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get order book',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get recent trades
+   */
+  async getRecentTrades(symbol: string, limit: number = 50): Promise<ApiResponse<Trade[]>> {
+    try {
+      const orderlySymbol = toOrderlySymbol(symbol);
+      const response = await this.apiService.getPublic<OrderlyRows<any>>(
+        '/v1/public/market_trades',
+        { symbol: orderlySymbol, limit },
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch recent trades');
+      }
+
+      const trades: Trade[] = response.data.rows.map((trade, index) => ({
+        id: `${trade.executed_timestamp}-${index}`,
+        orderId: '',
+        symbol: orderlySymbol,
+        side: trade.side === 'BUY' ? OrderSide.BUY : OrderSide.SELL,
+        price: trade.executed_price.toString(),
+        quantity: trade.executed_quantity.toString(),
+        fee: '0',
+        feeAsset: 'USDC',
+        timestamp: trade.executed_timestamp,
+      }));
+
+      return {
+        success: true,
+        data: trades,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting recent trades:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get recent trades',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get candles/klines
+   * Orderly's kline endpoint only returns the latest N bars, so the time window is applied locally
+   */
+  async getCandles(
+    symbol: string,
+    interval: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 100,
+  ): Promise<ApiResponse<Candle[]>> {
+    try {
+      const response = await this.apiService.get<OrderlyRows<any>>('/v1/kline', {
+        symbol: toOrderlySymbol(symbol),
+        type: toOrderlyKlineType(interval),
+        limit: Math.min(limit, 1000),
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch candles');
+      }
+
+      const candles: Candle[] = response.data.rows
+        .map(k => ({
+          openTime: k.start_timestamp,
+          open: k.open.toString(),
+          high: k.high.toString(),
+          low: k.low.toString(),
+          close: k.close.toString(),
+          volume: k.volume.toString(),
+          closeTime: k.end_timestamp,
+        }))
+        .filter(c => (!startTime || c.openTime >= startTime) && (!endTime || c.openTime <= endTime))
+        .sort((a, b) => a.openTime - b.openTime);
+
+      return {
+        success: true,
+        data: candles,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting candles:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get candles',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get all available symbols
+   */
+  async getSymbols(): Promise<ApiResponse<string[]>> {
+    try {
+      const symbols = await this.loadSymbolInfo();
+
+      return {
+        success: true,
+        data: Array.from(symbols.keys()),
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting symbols:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get symbols',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get exchange info
+   */
+  async getExchangeInfo(): Promise<ApiResponse<any>> {
+    try {
+      const symbols = await this.loadSymbolInfo();
+
+      return {
+        success: true,
+        data: { symbols: Array.from(symbols.values()) },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting exchange info:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get exchange info',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  // ==================== Futures-specific methods ====================
+
+  /**
+   * Get funding rate (estimated next and last settled)
+   */
+  async getFundingRate(symbol?: string): Promise<ApiResponse<FundingRate | FundingRate[]>> {
+    try {
+      const response = symbol
+        ? await this.apiService.getPublic(`/v1/public/funding_rate/${toOrderlySymbol(symbol)}`)
+        : await this.apiService.getPublic<OrderlyRows<any>>('/v1/public/funding_rates');
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch funding rate');
+      }
+
+      const toFundingRate = (rate: any): FundingRate => ({
+        symbol: rate.symbol,
+        fundingRate: rate.est_funding_rate.toString(),
+        fundingTime: rate.last_funding_rate_timestamp,
+        nextFundingTime: rate.next_funding_time,
+      });
+
+      return {
+        success: true,
+        data: symbol ? toFundingRate(response.data) : response.data.rows.map(toFundingRate),
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting funding rate:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get funding rate',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get funding rate history
+   */
+  async getFundingRateHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 100,
+  ): Promise<ApiResponse<FundingRate[]>> {
+    try {
+      const response = await this.apiService.getPublic<OrderlyRows<any>>(
+        '/v1/public/funding_rate_history',
+        {
+          symbol: toOrderlySymbol(symbol),
+          start_t: startTime,
+          end_t: endTime,
+          size: limit,
+        },
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch funding rate history');
+      }
+
+      const history: FundingRate[] = response.data.rows.map(rate => ({
+        symbol: rate.symbol,
+        fundingRate: rate.funding_rate.toString(),
+        fundingTime: rate.funding_rate_timestamp,
+        nextFundingTime: rate.next_funding_time,
+      }));
+
+      return {
+        success: true,
+        data: history,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting funding rate history:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get funding rate history',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get mark price
+   */
+  async getMarkPrice(symbol?: string): Promise<ApiResponse<MarkPrice | MarkPrice[]>> {
+    try {
+      const toMarkPrice = (info: OrderlyFuturesInfo): MarkPrice => ({
+        symbol: info.symbol,
+        markPrice: info.mark_price.toString(),
+        indexPrice: info.index_price.toString(),
+        lastFundingRate: info.last_funding_rate.toString(),
+        nextFundingTime: info.next_funding_time,
+        timestamp: Date.now(),
+      });
+
+      const data = symbol
+        ? toMarkPrice(await this.fetchFuturesInfo(toOrderlySymbol(symbol)))
+        : (await this.fetchAllFuturesInfo()).map(toMarkPrice);
+
+      return {
+        success: true,
+        data,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting mark price:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get mark price',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get index price
+   */
+  async getIndexPrice(symbol: string): Promise<ApiResponse<string>> {
+    try {
+      const info = await this.fetchFuturesInfo(toOrderlySymbol(symbol));
+
+      return {
+        success: true,
+        data: info.index_price.toString(),
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting index price:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get index price',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get open interest
+   */
+  async getOpenInterest(symbol: string): Promise<ApiResponse<OpenInterest>> {
+    try {
+      const info = await this.fetchFuturesInfo(toOrderlySymbol(symbol));
+
+      return {
+        success: true,
+        data: {
+          symbol: info.symbol,
+          openInterest: info.open_interest.toString(),
+          timestamp: Date.now(),
+        },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting open interest:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get open interest',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get open interest history (not provided by Orderly)
+   */
+  async getOpenInterestHistory(): Promise<ApiResponse<OpenInterest[]>> {
+    return {
+      success: false,
+      error: 'Open interest history is not available on Orderly',
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Get long/short ratio (not provided by Orderly)
+   */
+  async getLongShortRatio(): Promise<ApiResponse<LongShortRatio[]>> {
+    return {
+      success: false,
+      error: 'Long/short ratio is not available on Orderly',
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Get premium index (derived from mark vs index price)
+   */
+  async getPremiumIndex(symbol?: string): Promise<ApiResponse<PremiumIndex | PremiumIndex[]>> {
+    try {
+      const toPremium = (info: OrderlyFuturesInfo): PremiumIndex => ({
+        symbol: info.symbol,
+        premiumIndex: info.index_price
+          ? ((info.mark_price - info.index_price) / info.index_price).toString()
+          : '0',
+        timestamp: Date.now(),
+      });
+
+      const data = symbol
+        ? toPremium(await this.fetchFuturesInfo(toOrderlySymbol(symbol)))
+        : (await this.fetchAllFuturesInfo()).map(toPremium);
+
+      return {
+        success: true,
+        data,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting premium index:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get premium index',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get liquidation orders
+   */
+  async getLiquidationOrders(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 100,
+  ): Promise<ApiResponse<LiquidationOrder[]>> {
+    try {
+      const orderlySymbol = toOrderlySymbol(symbol);
+      const response = await this.apiService.getPublic<OrderlyRows<any>>(
+        '/v1/public/liquidated_positions',
+        { symbol: orderlySymbol, start_t: startTime, end_t: endTime, size: limit },
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch liquidation orders');
+      }
+
+      const liquidations: LiquidationOrder[] = [];
+      response.data.rows.forEach(row => {
+        (row.positions_by_perp || [])
+          .filter((p: any) => p.symbol === orderlySymbol)
+          .forEach((p: any) => {
+            liquidations.push({
+              symbol: p.symbol,
+              // A liquidated long is sold, a liquidated short is bought back
+              side: p.position_qty > 0 ? 'SELL' : 'BUY',
+              price: (p.transfer_price ?? p.mark_price ?? 0).toString(),
+              quantity: Math.abs(p.position_qty).toString(),
+              time: row.timestamp,
+            });
+          });
+      });
+
+      return {
+        success: true,
+        data: liquidations,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting liquidation orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get liquidation orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get contract info
+   */
+  async getContractInfo(symbol?: string): Promise<ApiResponse<any>> {
+    try {
+      const symbols = await this.loadSymbolInfo();
+      const data = symbol ? symbols.get(toOrderlySymbol(symbol)) : Array.from(symbols.values());
+
+      if (!data) {
+        throw new Error(`Symbol ${symbol} not found`);
+      }
+
+      return {
+        success: true,
+        data,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting contract info:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get contract info',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get the margin tier from the symbol's base rates. Orderly raises both rates for large
+   * positions through imr_factor (notional^0.8), which the single tier leaves out.
+   */
+  async getMarginTiers(symbol: string): Promise<ApiResponse<MarginTier[]>> {
+    try {
+      const info = await this.getSymbolInfo(symbol);
+      if (!info) {
+        throw new Error(`Symbol ${symbol} not found`);
+      }
+
+      return {
+        success: true,
+        data: [
+          {
+            floor: 0,
+            cap: Infinity,
+            basis: 'notional',
+            maxLeverage: 1 / info.base_imr,
+            maintenanceMarginRate: info.base_mmr,
+            maintenanceAmount: 0,
+          },
+        ],
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting margin tiers:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get margin tiers',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get futures symbols
+   */
+  async getFuturesSymbols(): Promise<ApiResponse<string[]>> {
+    return this.getSymbols();
+  }
+
+  /**
+   * Format quantity to the symbol's base tick
+   */
+  async formatQuantity(symbol: string, quantity: string | number): Promise<string> {
+    const info = await this.getSymbolInfo(symbol);
+    const value = typeof quantity === 'string' ? parseFloat(quantity) : quantity;
+    return info ? roundToTick(value, info.base_tick) : value.toString();
+  }
+
+  /**
+   * Format price to the symbol's quote tick
+   */
+  async formatPrice(symbol: string, price: string | number): Promise<string> {
+    const info = await this.getSymbolInfo(symbol);
+    const value = typeof price === 'string' ? parseFloat(price) : price;
+    return info ? roundToTick(value, info.quote_tick) : value.toString();
+  }
+
+  /**
+   * Get min/max order quantity
+   */
+  async getQuantityLimits(symbol: string): Promise<ApiResponse<{ min: string; max: string }>> {
+    try {
+      const info = await this.getSymbolInfo(symbol);
+      if (!info) {
+        throw new Error(`Symbol ${symbol} not found`);
+      }
+
+      return {
+        success: true,
+        data: { min: info.base_min.toString(), max: info.base_max.toString() },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting quantity limits:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get quantity limits',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get min/max order notional (max is implied by max size at max price)
+   */
+  async getNotionalLimits(symbol: string): Promise<ApiResponse<{ min: string; max: string }>> {
+    try {
+      const info = await this.getSymbolInfo(symbol);
+      if (!info) {
+        throw new Error(`Symbol ${symbol} not found`);
+      }
+
+      return {
+        success: true,
+        data: {
+          min: info.min_notional.toString(),
+          max: (info.base_max * info.quote_max).toString(),
+        },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting notional limits:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get notional limits',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get cached symbol info (tick sizes, limits)
+   */
+  async getSymbolInfo(symbol: string): Promise<OrderlySymbolInfo | null> {
+    const symbols = await this.loadSymbolInfo();
+    return symbols.get(toOrderlySymbol(symbol)) || null;
+  }
+
+  /**
+   * Load and cache symbol info for all perpetuals
+   */
+  private async loadSymbolInfo(): Promise<Map<string, OrderlySymbolInfo>> {
+    if (this.symbolInfoCache.size > 0 && Date.now() < this.cacheExpiry) {
+      return this.symbolInfoCache;
+    }
+
+    const response =
+      await this.apiService.getPublic<OrderlyRows<OrderlySymbolInfo>>('/v1/public/info');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch symbol info');
+    }
+
+    this.symbolInfoCache = new Map(response.data.rows.map(info => [info.symbol, info]));
+    this.cacheExpiry = Date.now() + this.CACHE_DURATION;
+
+    return this.symbolInfoCache;
+  }
+
+  /**
+   * Fetch futures market data (prices, funding, open interest) for a symbol
+   */
+  private async fetchFuturesInfo(symbol: string): Promise<OrderlyFuturesInfo> {
+    const response = await this.apiService.getPublic<OrderlyFuturesInfo>(
+      `/v1/public/futures/${symbol}`,
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || `Failed to fetch market data for ${symbol}`);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Fetch futures market data for all symbols
+   */
+  private async fetchAllFuturesInfo(): Promise<OrderlyFuturesInfo[]> {
+    const response =
+      await this.apiService.getPublic<OrderlyRows<OrderlyFuturesInfo>>('/v1/public/futures');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch market data');
+    }
+
+    return response.data.rows;
+  }
+}
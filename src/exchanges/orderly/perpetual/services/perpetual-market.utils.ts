@@ -0,0 +1,50 @@
+/**
+ * Convert any supported symbol format (BTCUSDT, BTC/USDC, BTC-USDT, PERP_BTC_USDC, BTC)
+ * to an Orderly perpetual symbol. Orderly only lists USDC-settled perps.
+ */
+export function toOrderlySymbol(symbol: string): string {
+  const upper = symbol.toUpperCase();
+
+  if (upper.startsWith('PERP_')) {
+    return `PERP_${upper.split('_')[1]}_USDC`;
+  }
+
+  const separator = ['/', '-', '_'].find(s => upper.includes(s));
+  if (separator) {
+    return `PERP_${upper.split(separator)[0]}_USDC`;
+  }
+
+  for (const quote of ['USDT', 'USDC', 'USD']) {
+    if (upper.endsWith(quote) && upper.length > quote.length) {
+      return `PERP_${upper.slice(0, -quote.length)}_USDC`;
+    }
+  }
+
+  return `PERP_${upper}_USDC`;
+}
+
+/**
+ * Map unified candle interval (1m, 1h, 1d, 1w, 1M) to Orderly kline type (1m, 1h, 1d, 1w, 1mon)
+ */
+export function toOrderlyKlineType(interval: string): string {
+  if (/^\d+M$/.test(interval)) {
+    return `${interval.slice(0, -1)}mon`;
+  }
+  return interval.toLowerCase();
+}
+
+/**
+ * Round value down to a tick/step size and format with matching decimals
+ */
+export function roundToTick(value: number, tick: number): string {
+  if (!tick || tick <= 0) return value.toString();
+
+  const tickStr = tick.toString();
+  const decimals = tickStr.includes('e-')
+    ? parseInt(tickStr.split('e-')[1], 10)
+    : tickStr.includes('.')
+      ? tickStr.split('.')[1].length
+      : 0;
+  const rounded = Math.floor(value / tick + 1e-9) * tick;
+  return rounded.toFixed(decimals);
+}
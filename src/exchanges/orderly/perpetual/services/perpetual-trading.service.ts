@@ -0,0 +1,1073 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  IPerpetualTradingService,
+  PlaceOrderParams,
+  MarketOrderParams,
+  LimitOrderParams,
+  CancelOrderParams,
+  CancelAllAfterResult,
+  ModifyOrderParams,
+  SetLeverageParams,
+  SetPositionModeParams,
+  SetStopLossParams,
+  SetTakeProfitParams,
+  SetTrailingStopParams,
+} from '../../../../common/interfaces';
+import {
+  ApiResponse,
+  Order,
+  OrderSide,
+  OrderType,
+  OrderStatus,
+  TimeInForce,
+  Position,
+  PositionSide,
+} from '../../../../common/types';
+import { runSequentially, toBatchResponse } from '../../../../common/batch';
+import { cancelReplace } from '../../../../common/amend';
+import { OrderlyApiService } from '../../shared/orderly-api.service';
+import { OrderlyClientInfo, OrderlyOrder, OrderlyRows } from '../../types';
+import { OrderlyPerpetualBalanceService } from './perpetual-balance.service';
+import { OrderlyPerpetualMarketService } from './perpetual-market.service';
+import { toOrderlySymbol } from './perpetual-market.utils';
+import { OrderBookManager } from '../../../../common/services/order-book-manager.service';
+
+const ORDER_STATUS_MAP: Record<string, OrderStatus> = {
+  NEW: OrderStatus.NEW,
+  PARTIAL_FILLED: OrderStatus.PARTIALLY_FILLED,
+  FILLED: OrderStatus.FILLED,
+  CANCELLED: OrderStatus.CANCELED,
+  REJECTED: OrderStatus.REJECTED,
+};
+
+@Injectable()
+export class OrderlyPerpetualTradingService implements IPerpetualTradingService {
+  private readonly logger = new Logger(OrderlyPerpetualTradingService.name);
+
+  constructor(
+    private readonly apiService: OrderlyApiService,
+    private readonly balanceService: OrderlyPerpetualBalanceService,
+    private readonly marketService: OrderlyPerpetualMarketService,
+    private readonly orderBookManager: OrderBookManager,
+  ) {}
+
+  /**
+   * Place a new order - implements interface
+   * STOP/TAKE_PROFIT types are routed to Orderly algo orders
+   */
+  async placeOrder(params: PlaceOrderParams): Promise<ApiResponse<Order>> {
+    try {
+      const symbol = toOrderlySymbol(params.symbol);
+      this.logger.log(`Placing ${params.type} ${params.side} order: ${params.quantity} ${symbol}`);
+
+      if (params.type === OrderType.TRAILING_STOP) {
+        return {
+          success: false,
+          error: 'Trailing stop orders are not supported on Orderly',
+          timestamp: Date.now(),
+        };
+      }
+
+      if (params.type !== OrderType.MARKET && params.type !== OrderType.LIMIT) {
+        return this.placeAlgoOrder(params);
+      }
+
+      const orderData: any = {
+        symbol,
+        side: params.side,
+        order_type: this.toOrderlyOrderType(params.type, params.timeInForce),
+        order_quantity: await this.marketService.formatQuantity(symbol, params.quantity),
+      };
+
+      if (params.type === OrderType.LIMIT) {
+        if (!params.price) {
+          throw new Error('Price is required for limit orders');
+        }
+        orderData.order_price = await this.marketService.formatPrice(symbol, params.price);
+      }
+      if (params.clientOrderId) orderData.client_order_id = params.clientOrderId;
+      if (params.reduceOnly) orderData.reduce_only = true;
+
+      const response = await this.apiService.post('/v1/order', orderData);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to place order');
+      }
+
+      return {
+        success: true,
+        data: {
+          orderId: response.data.order_id.toString(),
+          clientOrderId: response.data.client_order_id || undefined,
+          symbol,
+          side: params.side,
+          type: params.type,
+          status: OrderStatus.NEW,
+          price: orderData.order_price || '0',
+          quantity: orderData.order_quantity,
+          executedQuantity: '0',
+          timestamp: Date.now(),
+        },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error placing order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to place order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Place market order
+   */
+  async placeMarketOrder(params: MarketOrderParams): Promise<ApiResponse<Order>> {
+    return this.placeOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: OrderType.MARKET,
+      quantity: params.quantity,
+      clientOrderId: params.clientOrderId,
+      reduceOnly: params.reduceOnly,
+    });
+  }
+
+  /**
+   * Place limit order
+   */
+  async placeLimitOrder(params: LimitOrderParams): Promise<ApiResponse<Order>> {
+    if (!params.price) {
+      return {
+        success: false,
+        error: 'Price is required for limit orders',
+        timestamp: Date.now(),
+      };
+    }
+
+    return this.placeOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: OrderType.LIMIT,
+      quantity: params.quantity,
+      price: params.price,
+      timeInForce: params.timeInForce,
+      clientOrderId: params.clientOrderId,
+      reduceOnly: params.reduceOnly,
+    });
+  }
+
+  /**
+   * Place several orders one by one, spaced out to stay within the rate limits
+   */
+  async placeOrders(orders: PlaceOrderParams[]): Promise<ApiResponse<ApiResponse<Order>[]>> {
+    const results = await runSequentially(orders, params => this.placeOrder(params));
+    return toBatchResponse(results, 'orderly', 'perpetual');
+  }
+
+  /**
+   * Amend an open limit order by cancel-replace (the replacement gets a new order ID)
+   */
+  async modifyOrder(params: ModifyOrderParams): Promise<ApiResponse<Order>> {
+    return cancelReplace(this, params);
+  }
+
+  /**
+   * Cancel an order (falls back to algo cancel for TP/SL orders)
+   */
+  async cancelOrder(params: CancelOrderParams): Promise<ApiResponse<any>> {
+    try {
+      if (!params.orderId && !params.clientOrderId) {
+        return {
+          success: false,
+          error: 'Either orderId or clientOrderId is required',
+          timestamp: Date.now(),
+        };
+      }
+
+      const symbol = toOrderlySymbol(params.symbol);
+      this.logger.log(`Canceling order ${params.orderId || params.clientOrderId} for ${symbol}`);
+
+      const response = params.orderId
+        ? await this.apiService.delete('/v1/order', { order_id: params.orderId, symbol })
+        : await this.apiService.delete('/v1/client/order', {
+            client_order_id: params.clientOrderId,
+            symbol,
+          });
+
+      if (response.success) {
+        return {
+          success: true,
+          data: { orderId: params.orderId, clientOrderId: params.clientOrderId, symbol },
+          timestamp: Date.now(),
+          exchange: 'orderly',
+          tradingType: 'perpetual',
+        };
+      }
+
+      // TP/SL orders are algo orders and live in a separate id space
+      if (params.orderId) {
+        const algoResponse = await this.apiService.delete('/v1/algo/order', {
+          order_id: params.orderId,
+          symbol,
+        });
+        if (algoResponse.success) {
+          return {
+            success: true,
+            data: { orderId: params.orderId, symbol },
+            timestamp: Date.now(),
+            exchange: 'orderly',
+            tradingType: 'perpetual',
+          };
+        }
+      }
+
+      throw new Error(response.error || 'Failed to cancel order');
+    } catch (error: any) {
+      this.logger.error('Error canceling order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Cancel several orders one by one, spaced out to stay within the rate limits
+   */
+  async cancelOrders(orders: CancelOrderParams[]): Promise<ApiResponse<ApiResponse<any>[]>> {
+    const results = await runSequentially(orders, params => this.cancelOrder(params));
+    return toBatchResponse(results, 'orderly', 'perpetual');
+  }
+
+  /**
+   * Cancel all open orders (all symbols when no symbol is given)
+   */
+  async cancelAllOrders(symbol?: string): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.apiService.delete('/v1/orders', {
+        symbol: symbol ? toOrderlySymbol(symbol) : undefined,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to cancel all orders');
+      }
+
+      return {
+        success: true,
+        data: response.data,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error canceling all orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel all orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Orderly has no dead man's switch
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async cancelAllAfter(timeoutMs: number): Promise<ApiResponse<CancelAllAfterResult>> {
+    return {
+      success: false,
+      error: 'Cancel all after timeout not available in Orderly API',
+      timestamp: Date.now(),
+      exchange: 'orderly',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Get open orders
+   */
+  async getOpenOrders(symbol?: string): Promise<ApiResponse<Order[]>> {
+    try {
+      const response = await this.apiService.get<OrderlyRows<OrderlyOrder>>('/v1/orders', {
+        symbol: symbol ? toOrderlySymbol(symbol) : undefined,
+        status: 'INCOMPLETE',
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get open orders');
+      }
+
+      return {
+        success: true,
+        data: response.data.rows.map(o => this.mapToStandardOrder(o)),
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting open orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get open orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get order details
+   */
+  async getOrder(symbol: string, orderId: string): Promise<ApiResponse<Order>> {
+    try {
+      const response = await this.apiService.get<OrderlyOrder>(`/v1/order/${orderId}`);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get order');
+      }
+
+      return {
+        success: true,
+        data: this.mapToStandardOrder(response.data),
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get order details by client order ID
+   */
+  async getOrderByClientId(
+    _symbol: string,
+    clientOrderId: string,
+  ): Promise<ApiResponse<Order | null>> {
+    try {
+      const response = await this.apiService.get<OrderlyOrder>(
+        `/v1/client/order/${encodeURIComponent(clientOrderId)}`,
+      );
+
+      // -1006: The data does not exist
+      if (!response.success && response.code === -1006) {
+        return {
+          success: true,
+          data: null,
+          timestamp: Date.now(),
+          exchange: 'orderly',
+          tradingType: 'perpetual',
+        };
+      }
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get order');
+      }
+
+      return {
+        success: true,
+        data: this.mapToStandardOrder(response.data),
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting order by client ID:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Quick market buy
+   */
+  async marketBuy(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.BUY, quantity });
+  }
+
+  /**
+   * Quick market sell
+   */
+  async marketSell(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.SELL, quantity });
+  }
+
+  /**
+   * Quick limit buy
+   */
+  async limitBuy(symbol: string, quantity: string, price: string): Promise<ApiResponse<Order>> {
+    return this.placeLimitOrder({
+      symbol,
+      side: OrderSide.BUY,
+      quantity,
+      price,
+      timeInForce: TimeInForce.GTC,
+    });
+  }
+
+  /**
+   * Quick limit sell
+   */
+  async limitSell(symbol: string, quantity: string, price: string): Promise<ApiResponse<Order>> {
+    return this.placeLimitOrder({
+      symbol,
+      side: OrderSide.SELL,
+      quantity,
+      price,
+      timeInForce: TimeInForce.GTC,
+    });
+  }
+
+  // ==================== Futures-specific methods ====================
+
+  /**
+   * Get current positions
+   */
+  async getPositions(symbol?: string): Promise<ApiResponse<Position | Position[]>> {
+    return this.balanceService.getPositions(symbol);
+  }
+
+  /**
+   * Close position by reduce-only market order (with TP/SL cleanup)
+   */
+  async closePosition(symbol: string, positionSide?: PositionSide): Promise<ApiResponse<Order>> {
+    try {
+      const orderlySymbol = toOrderlySymbol(symbol);
+      const positionResponse = await this.balanceService.getPositions(orderlySymbol);
+      const position = positionResponse.data as Position;
+
+      if (!positionResponse.success || !position) {
+        return {
+          success: false,
+          error: 'No open position found for this symbol',
+          timestamp: Date.now(),
+        };
+      }
+
+      if (positionSide && positionSide !== PositionSide.BOTH && position.side !== positionSide) {
+        return {
+          success: false,
+          error: `No ${positionSide} position found for this symbol`,
+          timestamp: Date.now(),
+        };
+      }
+
+      // Cancel TP/SL first so they cannot fire against a flat position
+      await this.cancelAllConditionalOrders(orderlySymbol);
+
+      this.logger.log(`Closing ${position.side} position for ${orderlySymbol}: ${position.size}`);
+
+      return this.placeOrder({
+        symbol: orderlySymbol,
+        side: position.side === PositionSide.LONG ? OrderSide.SELL : OrderSide.BUY,
+        type: OrderType.MARKET,
+        quantity: position.size,
+        reduceOnly: true,
+      });
+    } catch (error: any) {
+      this.logger.error('Error closing position:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to close position',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Close all positions
+   */
+  async closeAllPositions(): Promise<ApiResponse<Order[]>> {
+    try {
+      const positionsResponse = await this.balanceService.getNonZeroPositions();
+      if (!positionsResponse.success || !positionsResponse.data) {
+        return { ...positionsResponse, data: undefined };
+      }
+
+      const orders: Order[] = [];
+      const errors: string[] = [];
+
+      for (const position of positionsResponse.data) {
+        const result = await this.closePosition(position.symbol);
+        if (result.success && result.data) {
+          orders.push(result.data);
+        } else {
+          errors.push(`${position.symbol}: ${result.error}`);
+        }
+      }
+
+      if (errors.length > 0 && orders.length === 0) {
+        return {
+          success: false,
+          error: errors.join('; '),
+          timestamp: Date.now(),
+        };
+      }
+
+      return {
+        success: true,
+        data: orders,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error closing all positions:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to close all positions',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Set leverage (Orderly leverage is an account-wide setting)
+   */
+  async setLeverage(
+    params: SetLeverageParams,
+  ): Promise<ApiResponse<{ leverage: number; symbol: string }>> {
+    try {
+      const symbol = toOrderlySymbol(params.symbol);
+      this.logger.log(`Setting account leverage ${params.leverage}x (requested for ${symbol})`);
+
+      const response = await this.apiService.post('/v1/client/leverage', {
+        leverage: params.leverage,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to set leverage');
+      }
+
+      this.logger.log(`✅ Leverage set to ${params.leverage}x`);
+      return {
+        success: true,
+        data: { leverage: params.leverage, symbol },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error setting leverage:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to set leverage',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get current (account-wide) leverage
+   */
+  async getLeverage(): Promise<ApiResponse<number>> {
+    try {
+      const response = await this.apiService.get<OrderlyClientInfo>('/v1/client/info');
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get leverage');
+      }
+
+      return {
+        success: true,
+        data: response.data.max_leverage,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting leverage:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get leverage',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Set position mode (Orderly only supports one-way mode)
+   */
+  async setPositionMode(params: SetPositionModeParams): Promise<ApiResponse<any>> {
+    if (params.dualSidePosition) {
+      return {
+        success: false,
+        error: 'Hedge mode is not supported on Orderly (one-way positions only)',
+        timestamp: Date.now(),
+      };
+    }
+
+    return {
+      success: true,
+      data: { dualSidePosition: false },
+      timestamp: Date.now(),
+      exchange: 'orderly',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Get current position mode (always one-way)
+   */
+  async getPositionMode(): Promise<ApiResponse<{ dualSidePosition: boolean }>> {
+    return {
+      success: true,
+      data: { dualSidePosition: false },
+      timestamp: Date.now(),
+      exchange: 'orderly',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Set stop loss for position (TP_SL algo order)
+   */
+  async setStopLoss(params: SetStopLossParams): Promise<ApiResponse<Order>> {
+    return this.placeProtectiveOrder(
+      params.symbol,
+      OrderType.STOP_MARKET,
+      params.stopPrice,
+      params.quantity,
+      params.side,
+    );
+  }
+
+  /**
+   * Set take profit for position (TP_SL algo order)
+   */
+  async setTakeProfit(params: SetTakeProfitParams): Promise<ApiResponse<Order>> {
+    return this.placeProtectiveOrder(
+      params.symbol,
+      OrderType.TAKE_PROFIT_MARKET,
+      params.takeProfitPrice,
+      params.quantity,
+      params.side,
+    );
+  }
+
+  /**
+   * Set trailing stop for position (not available)
+   */
+  async setTrailingStop(_params: SetTrailingStopParams): Promise<ApiResponse<Order>> {
+    void _params;
+    return {
+      success: false,
+      error: 'Trailing stop orders are not supported on Orderly',
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Cancel all stop loss / take profit algo orders for symbol
+   */
+  async cancelAllConditionalOrders(symbol: string): Promise<ApiResponse<any>> {
+    try {
+      const orderlySymbol = toOrderlySymbol(symbol);
+      const response = await this.apiService.delete('/v1/algo/orders', { symbol: orderlySymbol });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to cancel conditional orders');
+      }
+
+      return {
+        success: true,
+        data: { symbol: orderlySymbol, ...response.data },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error cancelling conditional orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel conditional orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get funding rate
+   */
+  async getFundingRate(symbol?: string): Promise<ApiResponse<any>> {
+    return this.marketService.getFundingRate(symbol);
+  }
+
+  /**
+   * Get funding history
+   */
+  async getFundingHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<any[]>> {
+    return this.marketService.getFundingRateHistory(symbol, startTime, endTime, limit);
+  }
+
+  /**
+   * Get position risk (margin ratio, liquidation price, etc.)
+   */
+  async getPositionRisk(symbol?: string): Promise<ApiResponse<any>> {
+    return this.balanceService.getPositionMargin(symbol);
+  }
+
+  /**
+   * Open long position with market order
+   */
+  async openLong(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.BUY, quantity });
+  }
+
+  /**
+   * Open short position with market order
+   */
+  async openShort(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.SELL, quantity });
+  }
+
+  /**
+   * Close long position
+   */
+  async closeLong(symbol: string, quantity?: string): Promise<ApiResponse<Order>> {
+    if (!quantity) {
+      return this.closePosition(symbol, PositionSide.LONG);
+    }
+
+    return this.placeMarketOrder({ symbol, side: OrderSide.SELL, quantity, reduceOnly: true });
+  }
+
+  /**
+   * Close short position
+   */
+  async closeShort(symbol: string, quantity?: string): Promise<ApiResponse<Order>> {
+    if (!quantity) {
+      return this.closePosition(symbol, PositionSide.SHORT);
+    }
+
+    return this.placeMarketOrder({ symbol, side: OrderSide.BUY, quantity, reduceOnly: true });
+  }
+
+  /**
+   * Quick long by USD value with required TP/SL/leverage
+   */
+  async quickLong(
+    symbol: string,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    return this.quickOpen(
+      symbol,
+      OrderSide.BUY,
+      usdValue,
+      stopLossPercent,
+      takeProfitPercent,
+      leverage,
+    );
+  }
+
+  /**
+   * Quick short by USD value with required TP/SL/leverage
+   */
+  async quickShort(
+    symbol: string,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    return this.quickOpen(
+      symbol,
+      OrderSide.SELL,
+      usdValue,
+      stopLossPercent,
+      takeProfitPercent,
+      leverage,
+    );
+  }
+
+  /**
+   * Open a market position and attach reduce-only TP/SL algo orders
+   */
+  private async quickOpen(
+    symbol: string,
+    side: OrderSide,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    const label = side === OrderSide.BUY ? 'long' : 'short';
+
+    try {
+      const orderlySymbol = toOrderlySymbol(symbol);
+
+      // 1. Set leverage first
+      const leverageResp = await this.setLeverage({ symbol: orderlySymbol, leverage });
+      if (!leverageResp.success) {
+        return leverageResp;
+      }
+
+      // 2. Get current price (local order book mid when synced, otherwise REST)
+      let currentPrice = this.orderBookManager.getMidPrice('orderly', orderlySymbol);
+      if (currentPrice === undefined) {
+        const priceResponse = await this.marketService.getCurrentPrice(orderlySymbol);
+        if (!priceResponse.success || !priceResponse.data) {
+          return priceResponse;
+        }
+        currentPrice = parseFloat(priceResponse.data);
+      }
+
+      const quantity = await this.marketService.formatQuantity(
+        orderlySymbol,
+        (usdValue * leverage) / currentPrice,
+      );
+
+      this.logger.log(`Opening ${label} position: ${quantity} ${orderlySymbol} @ $${currentPrice}`);
+
+      // 3. Place entry market order
+      const mainOrder = await this.placeMarketOrder({ symbol: orderlySymbol, side, quantity });
+      if (!mainOrder.success) {
+        this.logger.error('Failed to place entry order:', mainOrder.error);
+        return mainOrder;
+      }
+
+      // 4. Calculate SL/TP prices (LONG: SL below, TP above; SHORT: the reverse)
+      const direction = side === OrderSide.BUY ? 1 : -1;
+      const stopLossPrice = await this.marketService.formatPrice(
+        orderlySymbol,
+        currentPrice * (1 - (direction * stopLossPercent) / 100),
+      );
+      const takeProfitPrice = await this.marketService.formatPrice(
+        orderlySymbol,
+        currentPrice * (1 + (direction * takeProfitPercent) / 100),
+      );
+
+      this.logger.log(`Placing TP @ ${takeProfitPrice} and SL @ ${stopLossPrice}`);
+
+      // 5. Place SL/TP as reduce-only algo orders
+      const closeSide = side === OrderSide.BUY ? 'SELL' : 'BUY';
+      const stopLoss = await this.setStopLoss({
+        symbol: orderlySymbol,
+        stopPrice: stopLossPrice,
+        quantity,
+        side: closeSide,
+      });
+      const takeProfit = await this.setTakeProfit({
+        symbol: orderlySymbol,
+        takeProfitPrice,
+        quantity,
+        side: closeSide,
+      });
+
+      this.logger.log(`Quick ${label} completed successfully`);
+
+      return {
+        success: true,
+        data: {
+          mainOrder,
+          stopLoss,
+          takeProfit,
+          quantity,
+          entryPrice: currentPrice,
+          stopLossPrice,
+          takeProfitPrice,
+        },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error(`Error in quick ${label}:`, error.message);
+      return {
+        success: false,
+        error: error.message || `Failed to execute quick ${label}`,
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    }
+  }
+
+  /**
+   * Place a reduce-only SL/TP sized from the current position if needed
+   */
+  private async placeProtectiveOrder(
+    symbol: string,
+    type: OrderType.STOP_MARKET | OrderType.TAKE_PROFIT_MARKET,
+    triggerPrice: string,
+    quantity?: string,
+    side?: 'BUY' | 'SELL',
+  ): Promise<ApiResponse<Order>> {
+    let closeSide = side as OrderSide;
+    let closeQuantity = quantity;
+
+    if (!closeSide || !closeQuantity) {
+      const positionResponse = await this.balanceService.getPositions(symbol);
+      const position = positionResponse.data as Position;
+
+      if (!positionResponse.success || !position) {
+        return {
+          success: false,
+          error: `No open position found for ${symbol}`,
+          timestamp: Date.now(),
+        };
+      }
+
+      closeSide =
+        closeSide || (position.side === PositionSide.LONG ? OrderSide.SELL : OrderSide.BUY);
+      closeQuantity = closeQuantity || position.size;
+    }
+
+    return this.placeAlgoOrder({
+      symbol,
+      side: closeSide,
+      type,
+      quantity: closeQuantity,
+      stopPrice: triggerPrice,
+      reduceOnly: true,
+    });
+  }
+
+  /**
+   * Place conditional algo order
+   * Reduce-only orders use TP_SL (attached to the position); others use a plain STOP trigger
+   */
+  private async placeAlgoOrder(params: PlaceOrderParams): Promise<ApiResponse<Order>> {
+    try {
+      if (!params.stopPrice) {
+        throw new Error(`stopPrice is required for ${params.type} orders`);
+      }
+
+      const symbol = toOrderlySymbol(params.symbol);
+      const quantity = await this.marketService.formatQuantity(symbol, params.quantity);
+      const triggerPrice = await this.marketService.formatPrice(symbol, params.stopPrice);
+      const isLimit = params.type === OrderType.STOP_LIMIT || params.type === OrderType.TAKE_PROFIT;
+      const price =
+        isLimit && params.price ? await this.marketService.formatPrice(symbol, params.price) : '';
+      const isStopLoss =
+        params.type === OrderType.STOP_MARKET || params.type === OrderType.STOP_LIMIT;
+
+      const trigger: any = {
+        symbol,
+        side: params.side,
+        type: price ? 'LIMIT' : 'MARKET',
+        trigger_price: triggerPrice,
+      };
+      if (price) trigger.price = price;
+
+      const algoData: any = params.reduceOnly
+        ? {
+            symbol,
+            algo_type: 'TP_SL',
+            quantity,
+            trigger_price_type: 'MARK_PRICE',
+            child_orders: [
+              {
+                ...trigger,
+                algo_type: isStopLoss ? 'STOP_LOSS' : 'TAKE_PROFIT',
+                reduce_only: true,
+              },
+            ],
+          }
+        : {
+            ...trigger,
+            algo_type: 'STOP',
+            quantity,
+            trigger_price_type: 'MARK_PRICE',
+          };
+      if (params.clientOrderId) algoData.client_order_id = params.clientOrderId;
+
+      const response = await this.apiService.post('/v1/algo/order', algoData);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to place algo order');
+      }
+
+      const result = response.data.rows?.[0] || response.data;
+
+      return {
+        success: true,
+        data: {
+          orderId: result.order_id.toString(),
+          clientOrderId: result.client_order_id || undefined,
+          symbol,
+          side: params.side,
+          type: params.type,
+          status: OrderStatus.NEW,
+          price: price || triggerPrice,
+          quantity,
+          executedQuantity: '0',
+          timestamp: Date.now(),
+        },
+        timestamp: Date.now(),
+        exchange: 'orderly',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error placing algo order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to place algo order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Map unified order type / time in force to Orderly order_type
+   */
+  private toOrderlyOrderType(type: OrderType, timeInForce?: TimeInForce): string {
+    if (type === OrderType.MARKET) return 'MARKET';
+
+    switch (timeInForce) {
+      case TimeInForce.IOC:
+        return 'IOC';
+      case TimeInForce.FOK:
+        return 'FOK';
+      case TimeInForce.GTX:
+        return 'POST_ONLY';
+      default:
+        return 'LIMIT';
+    }
+  }
+
+  /**
+   * Map Orderly order to standard Order format
+   */
+  private mapToStandardOrder(orderlyOrder: OrderlyOrder): Order {
+    const price =
+      orderlyOrder.average_executed_price && orderlyOrder.average_executed_price > 0
+        ? orderlyOrder.average_executed_price
+        : orderlyOrder.price || 0;
+
+    return {
+      orderId: orderlyOrder.order_id.toString(),
+      clientOrderId: orderlyOrder.client_order_id || undefined,
+      symbol: orderlyOrder.symbol,
+      side: orderlyOrder.side === 'BUY' ? OrderSide.BUY : OrderSide.SELL,
+      type: orderlyOrder.type === 'MARKET' ? OrderType.MARKET : OrderType.LIMIT,
+      status: ORDER_STATUS_MAP[orderlyOrder.status] || OrderStatus.NEW,
+      price: price.toString(),
+      quantity: orderlyOrder.quantity.toString(),
+      executedQuantity: (orderlyOrder.executed || 0).toString(),
+      remainingQuantity: (orderlyOrder.quantity - (orderlyOrder.executed || 0)).toString(),
+      timestamp: orderlyOrder.created_time,
+      updateTime: orderlyOrder.updated_time,
+    };
+  }
+}
@@ -0,0 +1,273 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import * as crypto from 'crypto';
+import { decodeBase58, encodeBase58, toBeHex, getBytes } from 'ethers';
+import { OrderlyConfig } from '../../../config/orderly.config';
+import { RateLimiterService } from '../../../common/services/rate-limiter.service';
+import { CircuitBreakerService } from '../../../common/services/circuit-breaker.service';
+import { OrderlyApiResponse } from '../types';
+
+// PKCS#8 DER prefix for a raw 32-byte ed25519 seed
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+@Injectable()
+export class OrderlyApiService {
+  private readonly logger = new Logger(OrderlyApiService.name);
+  private readonly httpClient: AxiosInstance;
+  private readonly baseURL: string;
+  private readonly orderlyConfig: OrderlyConfig;
+  private readonly privateKey?: crypto.KeyObject;
+  private readonly orderlyKey: string = '';
+
+  constructor(
+    private configService: ConfigService,
+    private rateLimiter: RateLimiterService,
+    private circuitBreaker: CircuitBreakerService,
+  ) {
+    this.orderlyConfig = this.configService.get<OrderlyConfig>('orderly')!;
+    this.baseURL = this.orderlyConfig.useTestnet
+      ? this.orderlyConfig.testnetRestUrl
+      : this.orderlyConfig.restUrl;
+
+    this.httpClient = axios.create({
+      baseURL: this.baseURL,
+      timeout: 30000,
+    });
+    this.circuitBreaker.attach('orderly', this.httpClient);
+    this.rateLimiter.attach('orderly', this.httpClient);
+
+    if (this.orderlyConfig.orderlySecret) {
+      try {
+        this.privateKey = this.loadPrivateKey(this.orderlyConfig.orderlySecret);
+        this.orderlyKey = this.orderlyConfig.orderlyKey || this.derivePublicKey(this.privateKey);
+      } catch (error: any) {
+        this.logger.error('Invalid ORDERLY_SECRET:', error.message);
+      }
+    }
+
+    this.validateCredentials();
+    this.logger.log(`Orderly API Service initialized with base URL: ${this.baseURL}`);
+  }
+
+  /**
+   * Validate API credentials on initialization
+   */
+  private validateCredentials(): void {
+    const { accountId } = this.orderlyConfig;
+
+    this.logger.log('🔍 Checking Orderly credentials from .env...');
+    this.logger.log(
+      `ORDERLY_ACCOUNT_ID: ${accountId ? accountId.substring(0, 10) + '...' : 'NOT SET'}`,
+    );
+    this.logger.log(
+      `ORDERLY_KEY: ${this.orderlyKey ? this.orderlyKey.substring(0, 16) + '...' : 'NOT SET'}`,
+    );
+    this.logger.log(`ORDERLY_SECRET: ${this.privateKey ? '***' : 'NOT SET'}`);
+
+    if (!accountId || !this.privateKey) {
+      this.logger.warn(
+        '⚠️  Warning: Orderly API credentials are not fully configured. Trading features disabled.',
+      );
+    } else {
+      this.logger.log('✅ Orderly credentials validated');
+    }
+  }
+
+  /**
+   * Load ed25519 private key from a base58 secret (optionally prefixed with "ed25519:")
+   */
+  private loadPrivateKey(secret: string): crypto.KeyObject {
+    const seed = getBytes(toBeHex(decodeBase58(secret.replace(/^ed25519:/, '')), 32));
+    return crypto.createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(seed)]),
+      format: 'der',
+      type: 'pkcs8',
+    });
+  }
+
+  /**
+   * Derive the "ed25519:<base58 public key>" orderly-key header from the private key
+   */
+  private derivePublicKey(privateKey: crypto.KeyObject): string {
+    const spki = crypto.createPublicKey(privateKey).export({ format: 'der', type: 'spki' });
+    return `ed25519:${encodeBase58(spki.subarray(spki.length - 32))}`;
+  }
+
+  /**
+   * Build signed headers: ed25519 signature over timestamp + method + path + body
+   */
+  private buildHeaders(method: string, path: string, body: string = ''): Record<string, string> {
+    if (!this.privateKey || !this.orderlyConfig.accountId) {
+      throw new Error('Orderly API credentials are not configured');
+    }
+
+    const timestamp = Date.now().toString();
+    const message = `${timestamp}${method}${path}${body}`;
+    const signature = crypto
+      .sign(null, Buffer.from(message), this.privateKey)
+      .toString('base64url');
+
+    return {
+      'orderly-timestamp': timestamp,
+      'orderly-account-id': this.orderlyConfig.accountId,
+      'orderly-key': this.orderlyKey,
+      'orderly-signature': signature,
+      'Content-Type':
+        method === 'GET' || method === 'DELETE'
+          ? 'application/x-www-form-urlencoded'
+          : 'application/json',
+    };
+  }
+
+  /**
+   * Build path with query string (undefined params are dropped)
+   */
+  private buildPath(endpoint: string, params?: Record<string, any>): string {
+    if (!params) return endpoint;
+
+    const filtered = Object.entries(params).filter(([, value]) => value !== undefined);
+    if (filtered.length === 0) return endpoint;
+
+    return `${endpoint}?${new URLSearchParams(filtered.map(([k, v]) => [k, String(v)])).toString()}`;
+  }
+
+  /**
+   * Public GET request (no signature required)
+   */
+  async getPublic<T = any>(
+    endpoint: string,
+    params?: Record<string, any>,
+  ): Promise<OrderlyApiResponse<T>> {
+    try {
+      const path = this.buildPath(endpoint, params);
+
+      this.logger.debug(`GET ${path}`);
+
+      const response = await this.httpClient.get(path);
+      return this.handleResponse<T>(response.data);
+    } catch (error: any) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Private GET request (with signature)
+   */
+  async get<T = any>(
+    endpoint: string,
+    params?: Record<string, any>,
+  ): Promise<OrderlyApiResponse<T>> {
+    try {
+      const path = this.buildPath(endpoint, params);
+      const headers = this.buildHeaders('GET', path);
+
+      this.logger.debug(`GET ${path}`);
+
+      const response = await this.httpClient.get(path, { headers });
+      return this.handleResponse<T>(response.data);
+    } catch (error: any) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * POST request with signature (JSON body)
+   */
+  async post<T = any>(endpoint: string, data?: any): Promise<OrderlyApiResponse<T>> {
+    try {
+      const body = data ? JSON.stringify(data) : '';
+      const headers = this.buildHeaders('POST', endpoint, body);
+
+      this.logger.debug(`POST ${endpoint}:`, body);
+
+      const response = await this.httpClient.post(endpoint, body, { headers });
+      return this.handleResponse<T>(response.data);
+    } catch (error: any) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * PUT request with signature (JSON body)
+   */
+  async put<T = any>(endpoint: string, data?: any): Promise<OrderlyApiResponse<T>> {
+    try {
+      const body = data ? JSON.stringify(data) : '';
+      const headers = this.buildHeaders('PUT', endpoint, body);
+
+      this.logger.debug(`PUT ${endpoint}:`, body);
+
+      const response = await this.httpClient.put(endpoint, body, { headers });
+      return this.handleResponse<T>(response.data);
+    } catch (error: any) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * DELETE request with signature (query params)
+   */
+  async delete<T = any>(
+    endpoint: string,
+    params?: Record<string, any>,
+  ): Promise<OrderlyApiResponse<T>> {
+    try {
+      const path = this.buildPath(endpoint, params);
+      const headers = this.buildHeaders('DELETE', path);
+
+      this.logger.debug(`DELETE ${path}`);
+
+      const response = await this.httpClient.delete(path, { headers });
+      return this.handleResponse<T>(response.data);
+    } catch (error: any) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Unwrap Orderly { success, data, message } envelope
+   */
+  private handleResponse<T>(body: any): OrderlyApiResponse<T> {
+    if (body && body.success) {
+      return {
+        success: true,
+        data: body.data,
+      };
+    }
+
+    return {
+      success: false,
+      error: body?.message || 'Unknown API error',
+      code: body?.code,
+    };
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: any): OrderlyApiResponse {
+    if (error.response) {
+      const { status, data } = error.response;
+      this.logger.error(`Orderly API Error [${status}]:`, data);
+
+      return {
+        success: false,
+        error: data?.message || 'Unknown API error',
+        code: data?.code || status,
+      };
+    } else if (error.request) {
+      this.logger.error('No response received from Orderly API:', error.message);
+      return {
+        success: false,
+        error: 'No response from server',
+      };
+    } else {
+      this.logger.error('Error setting up request:', error.message);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseMarketStreamService } from '../../../common/websocket/base-market-stream.service';
+import { WebSocketConnection } from '../../../common/websocket/websocket-connection';
+import { MarketStreamTopic } from '../../../common/interfaces/market-stream.interface';
+import { ExchangeName, OrderSide } from '../../../common/types/exchange.types';
+import { OrderlyConfig } from '../../../config/orderly.config';
+import { toOrderlyKlineType, toOrderlySymbol } from '../perpetual/services/perpetual-market.utils';
+
+/**
+ * Orderly Network public market streams
+ */
+@Injectable()
+export class OrderlyWebSocketService extends BaseMarketStreamService {
+  private readonly logger = new Logger(OrderlyWebSocketService.name);
+  protected readonly exchange: ExchangeName = 'orderly';
+  private readonly connection: WebSocketConnection;
+
+  constructor(private configService: ConfigService) {
+    super();
+    const orderlyConfig = this.configService.get<OrderlyConfig>('orderly')!;
+    const wsUrl = orderlyConfig.useTestnet ? orderlyConfig.testnetWsUrl : orderlyConfig.wsUrl;
+
+    this.connection = new WebSocketConnection(OrderlyWebSocketService.name, {
+      // Public stream URL is scoped by account id
+      url: orderlyConfig.accountId ? `${wsUrl}/${orderlyConfig.accountId}` : wsUrl,
+      onOpen: () => this.getTopics().forEach(topic => this.sendSubscription('subscribe', topic)),
+      onMessage: data => this.handleMessage(data),
+      pingIntervalMs: 10000,
+      pingMessage: { event: 'ping' },
+    });
+  }
+
+  isConnected(): boolean {
+    return this.connection.isConnected();
+  }
+
+  protected normalizeSymbol(symbol: string): string {
+    return toOrderlySymbol(symbol);
+  }
+
+  protected addTopic(topic: MarketStreamTopic): void {
+    if (this.connection.isConnected()) {
+      this.sendSubscription('subscribe', topic);
+    } else {
+      this.connection.connect();
+    }
+  }
+
+  protected removeTopic(topic: MarketStreamTopic): void {
+    if (this.getTopics().length === 0) {
+      this.connection.disconnect();
+      return;
+    }
+
+    this.sendSubscription('unsubscribe', topic);
+  }
+
+  protected disconnect(): void {
+    this.connection.disconnect();
+  }
+
+  /**
+   * Map a topic to an Orderly topic name
+   */
+  private toTopicName(topic: MarketStreamTopic): string {
+    switch (topic.channel) {
+      case 'ticker':
+        return `${topic.symbol}@ticker`;
+      case 'orderbook':
+        return `${topic.symbol}@orderbook`;
+      case 'depth':
+        return `${topic.symbol}@orderbookupdate`;
+      case 'trades':
+        return `${topic.symbol}@trade`;
+      case 'candles':
+        return `${topic.symbol}@kline_${toOrderlyKlineType(topic.interval!)}`;
+    }
+  }
+
+  private sendSubscription(event: 'subscribe' | 'unsubscribe', topic: MarketStreamTopic): void {
+    const name = this.toTopicName(topic);
+    this.connection.send({ id: name, event, topic: name });
+  }
+
+  /**
+   * Normalize incoming topic payloads
+   */
+  private handleMessage(data: string): void {
+    try {
+      const message = JSON.parse(data);
+
+      if (message.event === 'ping') {
+        this.connection.send({ event: 'pong', ts: message.ts ?? Date.now() });
+        return;
+      }
+
+      if (message.event === 'subscribe' && message.success === false) {
+        this.logger.warn(`Subscription error for ${message.id}: ${message.errorMsg}`);
+        return;
+      }
+
+      if (!message.topic || !message.data) return;
+
+      const [symbol, stream] = message.topic.split('@');
+      const payload = message.data;
+
+      if (stream === 'ticker') {
+        this.emit(
+          { channel: 'ticker', symbol },
+          { symbol, price: payload.close.toString(), timestamp: message.ts },
+        );
+      } else if (stream === 'orderbook') {
+        const toLevel = (level: number[]): [string, string] => [
+          level[0].toString(),
+          level[1].toString(),
+        ];
+        this.emit(
+          { channel: 'orderbook', symbol },
+          {
+            symbol,
+            bids: payload.bids.map(toLevel),
+            asks: payload.asks.map(toLevel),
+            timestamp: payload.ts ?? message.ts,
+          },
+        );
+      } else if (stream === 'orderbookupdate') {
+        // Updates are chained by timestamp: prevTs matches the previous update (or snapshot) ts
+        const toLevel = (level: number[]): [string, string] => [
+          level[0].toString(),
+          level[1].toString(),
+        ];
+        this.emit(
+          { channel: 'depth', symbol },
+          {
+            symbol,
+            bids: payload.bids.map(toLevel),
+            asks: payload.asks.map(toLevel),
+            snapshot: false,
+            firstUpdateId: payload.ts,
+            lastUpdateId: payload.ts,
+            prevUpdateId: payload.prevTs,
+            timestamp: payload.ts,
+          },
+        );
+      } else if (stream === 'trade') {
+        this.emit(
+          { channel: 'trades', symbol },
+          {
+            id: `${message.ts}`,
+            orderId: '',
+            symbol,
+            side: payload.side === 'BUY' ? OrderSide.BUY : OrderSide.SELL,
+            price: payload.price.toString(),
+            quantity: payload.size.toString(),
+            fee: '0',
+            feeAsset: '',
+            timestamp: message.ts,
+          },
+        );
+      } else if (stream.startsWith('kline_')) {
+        // Kline topics carry the Orderly type (1mon), map back to the subscribed interval (1M)
+        const type = stream.slice('kline_'.length);
+        const topic = this.getTopics('candles').find(
+          t => t.symbol === symbol && toOrderlyKlineType(t.interval!) === type,
+        );
+        if (!topic) return;
+
+        this.emit(topic, {
+          openTime: payload.startTime,
+          open: payload.open.toString(),
+          high: payload.high.toString(),
+          low: payload.low.toString(),
+          close: payload.close.toString(),
+          volume: payload.volume.toString(),
+          closeTime: payload.endTime,
+        });
+      }
+    } catch (error: any) {
+      this.logger.error('Error parsing WebSocket message:', error.message);
+    }
+  }
+}
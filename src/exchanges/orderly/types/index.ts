@@ -0,0 +1,173 @@
+export interface OrderlyApiCredentials {
+  accountId: string;
+  orderlyKey: string;
+  orderlySecret: string;
+}
+
+export interface OrderlyApiResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: number;
+}
+
+// Orderly paginated payloads wrap results in `rows`
+export interface OrderlyRows<T> {
+  rows: T[];
+  meta?: {
+    total: number;
+    records_per_page: number;
+    current_page: number;
+  };
+}
+
+// Orderly perpetual specific types
+export interface OrderlySymbolInfo {
+  symbol: string;
+  quote_min: number;
+  quote_max: number;
+  quote_tick: number;
+  base_min: number;
+  base_max: number;
+  base_tick: number;
+  min_notional: number;
+  price_range: number;
+  price_scope: number;
+  base_mmr: number;
+  base_imr: number;
+  funding_period: number;
+  cap_funding: number;
+  floor_funding: number;
+  created_time: number;
+  updated_time: number;
+}
+
+export interface OrderlyFuturesInfo {
+  symbol: string;
+  index_price: number;
+  mark_price: number;
+  sum_unitary_funding: number;
+  est_funding_rate: number;
+  last_funding_rate: number;
+  next_funding_time: number;
+  open_interest: number;
+  '24h_open': number;
+  '24h_close': number;
+  '24h_high': number;
+  '24h_low': number;
+  '24h_volume': number;
+  '24h_amount': number;
+}
+
+export interface OrderlyOrder {
+  order_id: number;
+  client_order_id: string | null;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  price: number | null;
+  quantity: number;
+  executed: number;
+  visible: number;
+  status: string;
+  average_executed_price: number | null;
+  total_fee: number;
+  fee_asset: string;
+  reduce_only: boolean;
+  created_time: number;
+  updated_time: number;
+}
+
+export interface OrderlyAlgoOrder {
+  algo_order_id: number;
+  client_order_id: string | null;
+  root_algo_order_id: number;
+  algo_type: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  quantity: number;
+  trigger_price: number | null;
+  price: number | null;
+  algo_status: string;
+  reduce_only: boolean;
+  is_activated: boolean;
+  child_orders?: OrderlyAlgoOrder[];
+  created_time: number;
+  updated_time: number;
+}
+
+export interface OrderlyPosition {
+  symbol: string;
+  position_qty: number;
+  cost_position: number;
+  average_open_price: number;
+  unsettled_pnl: number;
+  mark_price: number;
+  est_liq_price: number;
+  settle_price: number;
+  imr: number;
+  mmr: number;
+  pnl_24_h: number;
+  fee_24_h: number;
+  leverage?: number;
+  timestamp: number;
+}
+
+export interface OrderlyPositionsData {
+  current_margin_ratio_with_orders: number;
+  free_collateral: number;
+  initial_margin_ratio: number;
+  maintenance_margin_ratio: number;
+  margin_ratio: number;
+  open_margin_ratio: number;
+  total_collateral_value: number;
+  total_pnl_24_h: number;
+  rows: OrderlyPosition[];
+}
+
+export interface OrderlyHolding {
+  token: string;
+  holding: number;
+  frozen: number;
+  pending_short: number;
+  updated_time: number;
+}
+
+export interface OrderlyClientInfo {
+  account_id: string;
+  account_mode: string;
+  tier: string;
+  taker_fee_rate: number;
+  maker_fee_rate: number;
+  futures_taker_fee_rate: number;
+  futures_maker_fee_rate: number;
+  max_leverage: number;
+  max_notional?: number;
+}
+
+export interface OrderlyTrade {
+  id: number;
+  symbol: string;
+  order_id: number;
+  side: 'BUY' | 'SELL';
+  executed_price: number;
+  executed_quantity: number;
+  fee: number;
+  fee_asset: string;
+  is_maker: number;
+  realized_pnl?: number;
+  executed_timestamp: number;
+}
+
+export interface OrderlyFundingFee {
+  id: number;
+  symbol: string;
+  funding_rate: number;
+  mark_price: number;
+  funding_fee: number;
+  payment_type: 'Pay' | 'Receive';
+  status: string;
+  created_time: number;
+  updated_time: number;
+}
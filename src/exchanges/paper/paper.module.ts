@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { PaperPerpetualModule } from './perpetual/perpetual.module';
+
+@Module({
+  imports: [PaperPerpetualModule],
+  exports: [PaperPerpetualModule],
+})
+export class PaperModule {}
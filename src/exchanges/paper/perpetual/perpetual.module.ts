@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+// Services
+import { PaperPerpetualTradingService } from './services/perpetual-trading.service';
+import { PaperPerpetualBalanceService } from './services/perpetual-balance.service';
+import { PaperPerpetualMarketService } from './services/perpetual-market.service';
+
+// Shared services
+import { PaperEngineService } from '../shared/paper-engine.service';
+import { PaperUserDataStreamService } from '../shared/paper-user-data-stream.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    PaperPerpetualTradingService,
+    PaperPerpetualBalanceService,
+    PaperPerpetualMarketService,
+    PaperEngineService,
+    PaperUserDataStreamService,
+  ],
+  exports: [
+    PaperPerpetualTradingService,
+    PaperPerpetualBalanceService,
+    PaperPerpetualMarketService,
+    PaperEngineService,
+    PaperUserDataStreamService,
+  ],
+})
+export class PaperPerpetualModule {}
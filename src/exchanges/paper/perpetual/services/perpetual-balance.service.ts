@@ -0,0 +1,483 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  IPerpetualBalanceService,
+  PerpetualAccountInfo,
+  PositionMargin,
+  IncomeHistory,
+  TransactionHistory,
+} from '../../../../common/interfaces';
+import { ApiResponse, Balance, Position } from '../../../../common/types/exchange.types';
+import { PaperEngineService } from '../../shared/paper-engine.service';
+import { formatNumber, toStandardPosition } from '../../shared/paper-account';
+import { PaperAccountSummary, PaperVenue } from '../../types';
+
+@Injectable()
+export class PaperPerpetualBalanceService implements IPerpetualBalanceService {
+  private readonly logger = new Logger(PaperPerpetualBalanceService.name);
+
+  constructor(@Inject(PaperEngineService) private readonly engine: PaperVenue) {}
+
+  /**
+   * Get account balance (the single virtual margin asset)
+   */
+  async getBalance(asset?: string): Promise<ApiResponse<Balance | Balance[]>> {
+    try {
+      const summary = await this.engine.getSummary();
+      const balance = this.toBalance(summary);
+
+      if (asset) {
+        return {
+          success: true,
+          data:
+            asset.toUpperCase() === balance.asset
+              ? balance
+              : { asset: asset.toUpperCase(), free: '0', locked: '0', total: '0' },
+          timestamp: Date.now(),
+          exchange: 'paper',
+          tradingType: 'perpetual',
+        };
+      }
+
+      return {
+        success: true,
+        data: [balance],
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting balance:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get balance',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get non-zero balances
+   */
+  async getNonZeroBalances(): Promise<ApiResponse<Balance[]>> {
+    const result = await this.getBalance();
+    if (result.success && result.data) {
+      const balances = Array.isArray(result.data) ? result.data : [result.data];
+      return {
+        ...result,
+        data: balances.filter(b => parseFloat(b.total) > 0),
+      };
+    }
+    return result as ApiResponse<Balance[]>;
+  }
+
+  /**
+   * Get total portfolio value (margin balance incl. unrealized PnL)
+   */
+  async getPortfolioValue(): Promise<
+    ApiResponse<{ totalValue: string; availableBalance: string; usedMargin?: string }>
+  > {
+    try {
+      const summary = await this.engine.getSummary();
+
+      return {
+        success: true,
+        data: {
+          totalValue: formatNumber(summary.marginBalance),
+          availableBalance: formatNumber(summary.availableBalance),
+          usedMargin: formatNumber(summary.positionInitialMargin + summary.openOrderInitialMargin),
+        },
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting portfolio value:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get portfolio value',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  // ==================== Futures-specific methods ====================
+
+  /**
+   * Get positions
+   */
+  async getPositions(symbol?: string): Promise<ApiResponse<Position | Position[]>> {
+    try {
+      const summary = await this.engine.getSummary();
+      const positions = summary.positions.map(toStandardPosition);
+
+      if (symbol) {
+        const position = positions.find(p => p.symbol === symbol);
+        if (!position) {
+          return {
+            success: false,
+            error: `Position not found for ${symbol}`,
+            timestamp: Date.now(),
+          };
+        }
+
+        return {
+          success: true,
+          data: position,
+          timestamp: Date.now(),
+          exchange: 'paper',
+          tradingType: 'perpetual',
+        };
+      }
+
+      return {
+        success: true,
+        data: positions,
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting positions:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get positions',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get positions with non-zero size
+   */
+  async getNonZeroPositions(): Promise<ApiResponse<Position[]>> {
+    // Flat paper positions are removed, so every position is non-zero
+    return this.getPositions() as Promise<ApiResponse<Position[]>>;
+  }
+
+  /**
+   * Get position margin details (paper accounts are cross margin)
+   */
+  async getPositionMargin(
+    symbol?: string,
+  ): Promise<ApiResponse<PositionMargin | PositionMargin[]>> {
+    try {
+      const summary = await this.engine.getSummary();
+      const marginRatio = this.getMarginRatioValue(summary);
+
+      const margins: PositionMargin[] = summary.positions
+        .filter(risk => !symbol || risk.position.symbol === symbol)
+        .map(risk => ({
+          symbol: risk.position.symbol,
+          initialMargin: formatNumber(risk.initialMargin),
+          maintenanceMargin: formatNumber(risk.maintenanceMargin),
+          marginBalance: formatNumber(summary.marginBalance),
+          marginRatio: formatNumber(marginRatio),
+          liquidationPrice: formatNumber(risk.liquidationPrice),
+          markPrice: formatNumber(risk.markPrice),
+          positionSide: toStandardPosition(risk).side,
+        }));
+
+      return {
+        success: true,
+        data: symbol ? margins[0] : margins,
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting position margin:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get position margin',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get complete account information
+   */
+  async getAccountInfo(): Promise<ApiResponse<PerpetualAccountInfo>> {
+    try {
+      const summary = await this.engine.getSummary();
+
+      return {
+        success: true,
+        data: {
+          totalWalletBalance: formatNumber(summary.walletBalance),
+          totalUnrealizedProfit: formatNumber(summary.unrealizedPnl),
+          totalMarginBalance: formatNumber(summary.marginBalance),
+          totalPositionInitialMargin: formatNumber(summary.positionInitialMargin),
+          totalOpenOrderInitialMargin: formatNumber(summary.openOrderInitialMargin),
+          totalCrossWalletBalance: formatNumber(summary.walletBalance),
+          totalCrossUnPnl: formatNumber(summary.unrealizedPnl),
+          availableBalance: formatNumber(summary.availableBalance),
+          maxWithdrawAmount: formatNumber(summary.availableBalance),
+          assets: [this.toBalance(summary)],
+          positions: summary.positions.map(toStandardPosition),
+          canTrade: true,
+          canDeposit: false,
+          canWithdraw: false,
+          updateTime: Date.now(),
+        },
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting account info:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get account info',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get available balance for trading
+   */
+  async getAvailableBalance(): Promise<ApiResponse<string>> {
+    return this.pickSummaryField('availableBalance', 'Failed to get available balance');
+  }
+
+  /**
+   * Get total wallet balance
+   */
+  async getTotalWalletBalance(): Promise<ApiResponse<string>> {
+    return this.pickSummaryField('walletBalance', 'Failed to get total wallet balance');
+  }
+
+  /**
+   * Get total unrealized PnL
+   */
+  async getTotalUnrealizedPnl(): Promise<ApiResponse<string>> {
+    return this.pickSummaryField('unrealizedPnl', 'Failed to get unrealized PnL');
+  }
+
+  /**
+   * Get maximum withdrawable amount (free margin)
+   */
+  async getMaxWithdrawAmount(): Promise<ApiResponse<string>> {
+    return this.pickSummaryField('availableBalance', 'Failed to get max withdraw amount');
+  }
+
+  /**
+   * Get income history (funding fees, realized PnL, commissions), newest first
+   */
+  async getIncomeHistory(
+    symbol?: string,
+    incomeType?: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 100,
+  ): Promise<ApiResponse<IncomeHistory[]>> {
+    const income = this.engine
+      .getState()
+      .income.filter(
+        entry =>
+          (!symbol || entry.symbol === symbol) &&
+          (!incomeType || entry.incomeType === incomeType) &&
+          (!startTime || entry.time >= startTime) &&
+          (!endTime || entry.time <= endTime),
+      );
+
+    return {
+      success: true,
+      data: income.reverse().slice(0, limit),
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Get trade history, newest first
+   */
+  async getTransactionHistory(
+    symbol?: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 100,
+  ): Promise<ApiResponse<TransactionHistory[]>> {
+    const trades = this.engine
+      .getState()
+      .trades.filter(
+        trade =>
+          (!symbol || trade.symbol === symbol) &&
+          (!startTime || trade.time >= startTime) &&
+          (!endTime || trade.time <= endTime),
+      );
+
+    return {
+      success: true,
+      data: trades.reverse().slice(0, limit),
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Get funding fee history
+   */
+  async getFundingFeeHistory(
+    symbol?: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<IncomeHistory[]>> {
+    return this.getIncomeHistory(symbol, 'FUNDING_FEE', startTime, endTime, limit);
+  }
+
+  /**
+   * Get margin ratio (account-wide maintenance margin / margin balance)
+   */
+  async getMarginRatio(symbol: string): Promise<ApiResponse<string>> {
+    try {
+      const summary = await this.engine.getSummary();
+
+      if (!summary.positions.some(risk => risk.position.symbol === symbol)) {
+        throw new Error(`Position not found for ${symbol}`);
+      }
+
+      return {
+        success: true,
+        data: formatNumber(this.getMarginRatioValue(summary)),
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting margin ratio:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get margin ratio',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Check if account is close to liquidation (margin ratio above 80%)
+   */
+  async isAtRiskOfLiquidation(): Promise<ApiResponse<boolean>> {
+    try {
+      const summary = await this.engine.getSummary();
+
+      return {
+        success: true,
+        data: summary.positions.length > 0 && this.getMarginRatioValue(summary) > 0.8,
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error checking liquidation risk:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to check liquidation risk',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Calculate required margin for position
+   */
+  async calculateRequiredMargin(
+    symbol: string,
+    quantity: string,
+    leverage: number,
+  ): Promise<ApiResponse<string>> {
+    try {
+      const { last } = await this.engine.getQuote(symbol);
+      const notional = last * parseFloat(quantity);
+
+      return {
+        success: true,
+        data: formatNumber(notional / (leverage || 1)),
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error calculating required margin:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to calculate required margin',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Calculate potential PnL
+   */
+  async calculatePotentialPnl(
+    symbol: string,
+    entryPrice: string,
+    exitPrice: string,
+    quantity: string,
+    side: 'LONG' | 'SHORT',
+  ): Promise<ApiResponse<{ pnl: string; pnlPercentage: string }>> {
+    const entry = parseFloat(entryPrice);
+    const qty = parseFloat(quantity);
+    const direction = side === 'LONG' ? 1 : -1;
+    const pnl = (parseFloat(exitPrice) - entry) * qty * direction;
+    const cost = entry * qty;
+
+    return {
+      success: true,
+      data: {
+        pnl: pnl.toString(),
+        pnlPercentage: (cost > 0 ? (pnl / cost) * 100 : 0).toString(),
+      },
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  private async pickSummaryField(
+    field: 'availableBalance' | 'walletBalance' | 'unrealizedPnl',
+    errorMessage: string,
+  ): Promise<ApiResponse<string>> {
+    try {
+      const summary = await this.engine.getSummary();
+
+      return {
+        success: true,
+        data: formatNumber(summary[field]),
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error(`${errorMessage}:`, error.message);
+      return {
+        success: false,
+        error: error.message || errorMessage,
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Binance-style margin ratio: maintenance margin over margin balance (1 = liquidation)
+   */
+  private getMarginRatioValue(summary: PaperAccountSummary): number {
+    return summary.marginBalance > 0 ? summary.maintenanceMargin / summary.marginBalance : 1;
+  }
+
+  private toBalance(summary: PaperAccountSummary): Balance {
+    const locked = summary.positionInitialMargin + summary.openOrderInitialMargin;
+
+    return {
+      asset: summary.asset,
+      free: formatNumber(summary.availableBalance),
+      locked: formatNumber(Math.min(locked, summary.marginBalance)),
+      total: formatNumber(summary.marginBalance),
+    };
+  }
+}
@@ -0,0 +1,263 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  IPerpetualMarketService,
+  FundingRate,
+  MarkPrice,
+  OpenInterest,
+  LongShortRatio,
+  PremiumIndex,
+  LiquidationOrder,
+  MarginTier,
+} from '../../../../common/interfaces';
+import { OrderBookManager } from '../../../../common/services/order-book-manager.service';
+import { ApiResponse, OrderBook, Candle, Trade } from '../../../../common/types/exchange.types';
+import { PaperEngineService } from '../../shared/paper-engine.service';
+
+/**
+ * Paper market data is the price source's market data (symbols converted on the way in,
+ * payloads returned in the source's format)
+ */
+@Injectable()
+export class PaperPerpetualMarketService implements IPerpetualMarketService {
+  private readonly logger = new Logger(PaperPerpetualMarketService.name);
+
+  constructor(
+    private readonly engine: PaperEngineService,
+    private readonly orderBookManager: OrderBookManager,
+  ) {}
+
+  async getCurrentPrice(symbol: string): Promise<ApiResponse<string>> {
+    return this.delegate('getCurrentPrice', 'current price', service =>
+      service.getCurrentPrice(this.engine.toSourceSymbol(symbol)),
+    );
+  }
+
+  async getAllPrices(): Promise<ApiResponse<Record<string, string>>> {
+    return this.delegate('getAllPrices', 'all prices', service => service.getAllPrices());
+  }
+
+  async getTicker(symbol?: string): Promise<ApiResponse<any>> {
+    return this.delegate('getTicker', 'ticker', service =>
+      service.getTicker(symbol && this.engine.toSourceSymbol(symbol)),
+    );
+  }
+
+  /**
+   * Order book from the source's local book (REST fallback while it syncs)
+   */
+  async getOrderBook(symbol: string, limit?: number): Promise<ApiResponse<OrderBook>> {
+    const response = await this.orderBookManager.getOrderBook(
+      this.engine.getPriceSource(),
+      this.engine.toSourceSymbol(symbol),
+      limit,
+    );
+    return this.withExchange(response);
+  }
+
+  async getRecentTrades(symbol: string, limit?: number): Promise<ApiResponse<Trade[]>> {
+    return this.delegate('getRecentTrades', 'recent trades', service =>
+      service.getRecentTrades(this.engine.toSourceSymbol(symbol), limit),
+    );
+  }
+
+  async getCandles(
+    symbol: string,
+    interval: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<Candle[]>> {
+    return this.delegate('getCandles', 'candles', service =>
+      service.getCandles(this.engine.toSourceSymbol(symbol), interval, startTime, endTime, limit),
+    );
+  }
+
+  async getSymbols(): Promise<ApiResponse<string[]>> {
+    return this.delegate('getSymbols', 'symbols', service => service.getSymbols());
+  }
+
+  async getExchangeInfo(): Promise<ApiResponse<any>> {
+    return this.delegate('getExchangeInfo', 'exchange info', service => service.getExchangeInfo());
+  }
+
+  async getFundingRate(symbol?: string): Promise<ApiResponse<FundingRate | FundingRate[]>> {
+    return this.delegate('getFundingRate', 'funding rate', service =>
+      service.getFundingRate(symbol && this.engine.toSourceSymbol(symbol)),
+    );
+  }
+
+  async getFundingRateHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<FundingRate[]>> {
+    return this.delegate('getFundingRateHistory', 'funding rate history', service =>
+      service.getFundingRateHistory(this.engine.toSourceSymbol(symbol), startTime, endTime, limit),
+    );
+  }
+
+  async getMarkPrice(symbol?: string): Promise<ApiResponse<MarkPrice | MarkPrice[]>> {
+    return this.delegate('getMarkPrice', 'mark price', service =>
+      service.getMarkPrice(symbol && this.engine.toSourceSymbol(symbol)),
+    );
+  }
+
+  async getIndexPrice(symbol: string): Promise<ApiResponse<string>> {
+    return this.delegate('getIndexPrice', 'index price', service =>
+      service.getIndexPrice(this.engine.toSourceSymbol(symbol)),
+    );
+  }
+
+  async getOpenInterest(symbol: string): Promise<ApiResponse<OpenInterest>> {
+    return this.delegate('getOpenInterest', 'open interest', service =>
+      service.getOpenInterest(this.engine.toSourceSymbol(symbol)),
+    );
+  }
+
+  async getOpenInterestHistory(
+    symbol: string,
+    period: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<OpenInterest[]>> {
+    return this.delegate('getOpenInterestHistory', 'open interest history', service =>
+      service.getOpenInterestHistory(
+        this.engine.toSourceSymbol(symbol),
+        period,
+        startTime,
+        endTime,
+        limit,
+      ),
+    );
+  }
+
+  async getLongShortRatio(
+    symbol: string,
+    period: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<LongShortRatio[]>> {
+    return this.delegate('getLongShortRatio', 'long/short ratio', service =>
+      service.getLongShortRatio(
+        this.engine.toSourceSymbol(symbol),
+        period,
+        startTime,
+        endTime,
+        limit,
+      ),
+    );
+  }
+
+  async getPremiumIndex(symbol?: string): Promise<ApiResponse<PremiumIndex | PremiumIndex[]>> {
+    return this.delegate('getPremiumIndex', 'premium index', service =>
+      service.getPremiumIndex(symbol && this.engine.toSourceSymbol(symbol)),
+    );
+  }
+
+  async getLiquidationOrders(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<LiquidationOrder[]>> {
+    return this.delegate('getLiquidationOrders', 'liquidation orders', service =>
+      service.getLiquidationOrders(this.engine.toSourceSymbol(symbol), startTime, endTime, limit),
+    );
+  }
+
+  async getContractInfo(symbol?: string): Promise<ApiResponse<any>> {
+    return this.delegate('getContractInfo', 'contract info', service =>
+      service.getContractInfo(symbol && this.engine.toSourceSymbol(symbol)),
+    );
+  }
+
+  /**
+   * The paper account's own margin rules, not the price source's
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async getMarginTiers(symbol: string): Promise<ApiResponse<MarginTier[]>> {
+    return this.withExchange({
+      success: true,
+      data: this.engine.getMarginTiers(),
+      timestamp: Date.now(),
+    });
+  }
+
+  async getFuturesSymbols(): Promise<ApiResponse<string[]>> {
+    return this.delegate('getFuturesSymbols', 'futures symbols', service =>
+      service.getFuturesSymbols(),
+    );
+  }
+
+  /**
+   * Format quantity with the source's lot size (unchanged if the source cannot format)
+   */
+  async formatQuantity(symbol: string, quantity: string): Promise<string> {
+    try {
+      const service = await this.engine.getSourceMarketService();
+      return await service.formatQuantity(this.engine.toSourceSymbol(symbol), quantity);
+    } catch (error: any) {
+      this.logger.warn(`Using unformatted quantity for ${symbol}: ${error.message}`);
+      return quantity.toString();
+    }
+  }
+
+  /**
+   * Format price with the source's tick size (unchanged if the source cannot format)
+   */
+  async formatPrice(symbol: string, price: string): Promise<string> {
+    try {
+      const service = await this.engine.getSourceMarketService();
+      return await service.formatPrice(this.engine.toSourceSymbol(symbol), price);
+    } catch (error: any) {
+      this.logger.warn(`Using unformatted price for ${symbol}: ${error.message}`);
+      return price.toString();
+    }
+  }
+
+  async getQuantityLimits(symbol: string): Promise<ApiResponse<{ min: string; max: string }>> {
+    return this.delegate('getQuantityLimits', 'quantity limits', service =>
+      service.getQuantityLimits(this.engine.toSourceSymbol(symbol)),
+    );
+  }
+
+  async getNotionalLimits(symbol: string): Promise<ApiResponse<{ min: string; max: string }>> {
+    return this.delegate('getNotionalLimits', 'notional limits', service =>
+      service.getNotionalLimits(this.engine.toSourceSymbol(symbol)),
+    );
+  }
+
+  /**
+   * Call the price source's market service, reporting methods it does not implement
+   */
+  private async delegate<T>(
+    method: keyof IPerpetualMarketService,
+    label: string,
+    call: (service: IPerpetualMarketService) => Promise<ApiResponse<T>>,
+  ): Promise<ApiResponse<T>> {
+    try {
+      const service = await this.engine.getSourceMarketService();
+      if (typeof service[method] !== 'function') {
+        throw new Error(`${label} is not available from ${this.engine.getPriceSource()}`);
+      }
+
+      return this.withExchange(await call(service));
+    } catch (error: any) {
+      this.logger.error(`Error getting ${label}:`, error.message);
+      return {
+        success: false,
+        error: error.message || `Failed to get ${label}`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  private withExchange<T>(response: ApiResponse<T>): ApiResponse<T> {
+    return response.success
+      ? { ...response, exchange: 'paper', tradingType: 'perpetual' }
+      : response;
+  }
+}
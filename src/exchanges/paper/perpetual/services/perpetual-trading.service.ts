@@ -0,0 +1,887 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  IPerpetualTradingService,
+  PlaceOrderParams,
+  MarketOrderParams,
+  LimitOrderParams,
+  CancelOrderParams,
+  CancelAllAfterResult,
+  ModifyOrderParams,
+  SetLeverageParams,
+  SetPositionModeParams,
+  SetStopLossParams,
+  SetTakeProfitParams,
+  SetTrailingStopParams,
+} from '../../../../common/interfaces';
+import {
+  ApiResponse,
+  Order,
+  OrderSide,
+  OrderType,
+  TimeInForce,
+  Position,
+  PositionSide,
+} from '../../../../common/types';
+import { runSequentially, toBatchResponse } from '../../../../common/batch';
+import { cancelReplace } from '../../../../common/amend';
+import { PaperEngineService } from '../../shared/paper-engine.service';
+import { formatNumber, toStandardOrder, toStandardPosition } from '../../shared/paper-account';
+import { PaperOrderFormatter, PaperOrderRequest, PaperVenue } from '../../types';
+import { PaperPerpetualMarketService } from './perpetual-market.service';
+
+@Injectable()
+export class PaperPerpetualTradingService implements IPerpetualTradingService {
+  private readonly logger = new Logger(PaperPerpetualTradingService.name);
+
+  constructor(
+    @Inject(PaperEngineService) private readonly engine: PaperVenue,
+    @Inject(PaperPerpetualMarketService) private readonly marketService: PaperOrderFormatter,
+  ) {}
+
+  /**
+   * Place a new order - implements interface
+   */
+  async placeOrder(params: PlaceOrderParams): Promise<ApiResponse<Order>> {
+    try {
+      this.logger.log(
+        `Placing paper ${params.type} ${params.side} order: ${params.quantity} ${params.symbol}`,
+      );
+
+      const request: PaperOrderRequest = {
+        symbol: params.symbol,
+        side: params.side,
+        type: params.type,
+        quantity: parseFloat(
+          await this.marketService.formatQuantity(params.symbol, params.quantity),
+        ),
+        timeInForce: params.timeInForce,
+        clientOrderId: params.clientOrderId,
+        reduceOnly: params.reduceOnly,
+        positionSide: params.positionSide,
+      };
+
+      if (params.price) {
+        request.price = parseFloat(
+          await this.marketService.formatPrice(params.symbol, params.price),
+        );
+      }
+      if (params.stopPrice) {
+        request.stopPrice = parseFloat(
+          await this.marketService.formatPrice(params.symbol, params.stopPrice),
+        );
+      }
+
+      const order = await this.engine.placeOrder(request);
+
+      return {
+        success: true,
+        data: toStandardOrder(order),
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error placing order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to place order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Place market order
+   */
+  async placeMarketOrder(params: MarketOrderParams): Promise<ApiResponse<Order>> {
+    return this.placeOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: OrderType.MARKET,
+      quantity: params.quantity,
+      clientOrderId: params.clientOrderId,
+      reduceOnly: params.reduceOnly,
+    });
+  }
+
+  /**
+   * Place limit order
+   */
+  async placeLimitOrder(params: LimitOrderParams): Promise<ApiResponse<Order>> {
+    if (!params.price) {
+      return {
+        success: false,
+        error: 'Price is required for limit orders',
+        timestamp: Date.now(),
+      };
+    }
+
+    return this.placeOrder({
+      symbol: params.symbol,
+      side: params.side,
+      type: OrderType.LIMIT,
+      quantity: params.quantity,
+      price: params.price,
+      timeInForce: params.timeInForce,
+      clientOrderId: params.clientOrderId,
+      reduceOnly: params.reduceOnly,
+    });
+  }
+
+  /**
+   * Place several orders one by one (the simulated venue has no rate limits to space them for)
+   */
+  async placeOrders(orders: PlaceOrderParams[]): Promise<ApiResponse<ApiResponse<Order>[]>> {
+    const results = await runSequentially(orders, params => this.placeOrder(params), 0);
+    return toBatchResponse(results, 'paper', 'perpetual');
+  }
+
+  /**
+   * Amend an open limit order by cancel-replace, like a venue without a native amend
+   */
+  async modifyOrder(params: ModifyOrderParams): Promise<ApiResponse<Order>> {
+    return cancelReplace(this, params);
+  }
+
+  /**
+   * Cancel an order
+   */
+  async cancelOrder(params: CancelOrderParams): Promise<ApiResponse<any>> {
+    try {
+      if (!params.orderId && !params.clientOrderId) {
+        return {
+          success: false,
+          error: 'Either orderId or clientOrderId is required',
+          timestamp: Date.now(),
+        };
+      }
+
+      this.logger.log(
+        `Canceling paper order ${params.orderId || params.clientOrderId} for ${params.symbol}`,
+      );
+
+      const order = this.engine.cancelOrder(params.symbol, params.orderId, params.clientOrderId);
+
+      return {
+        success: true,
+        data: toStandardOrder(order),
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error canceling order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Cancel several orders one by one (the simulated venue has no rate limits to space them for)
+   */
+  async cancelOrders(orders: CancelOrderParams[]): Promise<ApiResponse<ApiResponse<any>[]>> {
+    const results = await runSequentially(orders, params => this.cancelOrder(params), 0);
+    return toBatchResponse(results, 'paper', 'perpetual');
+  }
+
+  /**
+   * Cancel all orders (for one symbol or the whole account)
+   */
+  async cancelAllOrders(symbol?: string): Promise<ApiResponse<any>> {
+    try {
+      const cancelled = this.engine.cancelOrders(symbol);
+
+      return {
+        success: true,
+        data: { symbol, cancelled: cancelled.map(order => order.orderId) },
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error canceling all orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel all orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Schedule a cancel of all open orders on the simulated venue
+   */
+  async cancelAllAfter(timeoutMs: number): Promise<ApiResponse<CancelAllAfterResult>> {
+    return {
+      success: true,
+      data: { cancelAt: this.engine.scheduleCancelAll(timeoutMs) },
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Get open orders
+   */
+  async getOpenOrders(symbol?: string): Promise<ApiResponse<Order[]>> {
+    return {
+      success: true,
+      data: this.engine.getOpenOrders(symbol).map(toStandardOrder),
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Get order details (open or recently closed, by order or client order ID)
+   */
+  async getOrder(symbol: string, orderId: string): Promise<ApiResponse<Order>> {
+    const order = this.engine.findOrder(symbol, orderId);
+
+    if (!order) {
+      return {
+        success: false,
+        error: `Order ${orderId} not found`,
+        timestamp: Date.now(),
+      };
+    }
+
+    return {
+      success: true,
+      data: toStandardOrder(order),
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Get order details by client order ID
+   */
+  async getOrderByClientId(
+    symbol: string,
+    clientOrderId: string,
+  ): Promise<ApiResponse<Order | null>> {
+    const order = this.engine.findOrder(symbol, clientOrderId);
+
+    return {
+      success: true,
+      data: order?.clientOrderId === clientOrderId ? toStandardOrder(order) : null,
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Quick market buy
+   */
+  async marketBuy(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.BUY, quantity });
+  }
+
+  /**
+   * Quick market sell
+   */
+  async marketSell(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.SELL, quantity });
+  }
+
+  /**
+   * Quick limit buy
+   */
+  async limitBuy(symbol: string, quantity: string, price: string): Promise<ApiResponse<Order>> {
+    return this.placeLimitOrder({
+      symbol,
+      side: OrderSide.BUY,
+      quantity,
+      price,
+      timeInForce: TimeInForce.GTC,
+    });
+  }
+
+  /**
+   * Quick limit sell
+   */
+  async limitSell(symbol: string, quantity: string, price: string): Promise<ApiResponse<Order>> {
+    return this.placeLimitOrder({
+      symbol,
+      side: OrderSide.SELL,
+      quantity,
+      price,
+      timeInForce: TimeInForce.GTC,
+    });
+  }
+
+  // ==================== Futures-specific methods ====================
+
+  /**
+   * Get current positions
+   */
+  async getPositions(symbol?: string): Promise<ApiResponse<Position | Position[]>> {
+    try {
+      const summary = await this.engine.getSummary();
+      const positions = summary.positions
+        .filter(risk => !symbol || risk.position.symbol === symbol)
+        .map(toStandardPosition);
+
+      if (symbol) {
+        if (positions.length === 0) {
+          return {
+            success: false,
+            error: `Position not found for ${symbol}`,
+            timestamp: Date.now(),
+          };
+        }
+
+        return {
+          success: true,
+          data: positions.length === 1 ? positions[0] : positions,
+          timestamp: Date.now(),
+          exchange: 'paper',
+          tradingType: 'perpetual',
+        };
+      }
+
+      return {
+        success: true,
+        data: positions,
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting positions:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get positions',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Close position (with TP/SL cleanup)
+   */
+  async closePosition(symbol: string, positionSide?: PositionSide): Promise<ApiResponse<Order>> {
+    try {
+      const position = this.engine
+        .getState()
+        .positions.find(
+          p =>
+            p.symbol === symbol &&
+            (!positionSide ||
+              p.positionSide === positionSide ||
+              (positionSide === PositionSide.LONG ? p.size > 0 : p.size < 0)),
+        );
+
+      if (!position) {
+        return {
+          success: false,
+          error: 'No open position found for this symbol',
+          timestamp: Date.now(),
+        };
+      }
+
+      // Cancel TP/SL first so they cannot fire against a flat position
+      this.engine.cancelOrders(symbol, true);
+
+      this.logger.log(`Closing paper position for ${symbol}: ${position.size}`);
+
+      return this.placeOrder({
+        symbol,
+        side: position.size > 0 ? OrderSide.SELL : OrderSide.BUY,
+        type: OrderType.MARKET,
+        quantity: formatNumber(Math.abs(position.size)),
+        reduceOnly: true,
+        positionSide: position.positionSide,
+      });
+    } catch (error: any) {
+      this.logger.error('Error closing position:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to close position',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Close all positions
+   */
+  async closeAllPositions(): Promise<ApiResponse<Order[]>> {
+    const orders: Order[] = [];
+    const errors: string[] = [];
+
+    for (const position of [...this.engine.getState().positions]) {
+      const result = await this.closePosition(
+        position.symbol,
+        position.size > 0 ? PositionSide.LONG : PositionSide.SHORT,
+      );
+      if (result.success && result.data) {
+        orders.push(result.data);
+      } else {
+        errors.push(`${position.symbol}: ${result.error}`);
+      }
+    }
+
+    if (errors.length > 0 && orders.length === 0) {
+      return {
+        success: false,
+        error: errors.join('; '),
+        timestamp: Date.now(),
+      };
+    }
+
+    return {
+      success: true,
+      data: orders,
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Set leverage for symbol
+   */
+  async setLeverage(
+    params: SetLeverageParams,
+  ): Promise<ApiResponse<{ leverage: number; symbol: string }>> {
+    try {
+      this.logger.log(`Setting paper leverage to ${params.leverage}x for ${params.symbol}`);
+      this.engine.setLeverage(params.symbol, params.leverage);
+
+      return {
+        success: true,
+        data: { leverage: params.leverage, symbol: params.symbol },
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error setting leverage:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to set leverage',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get current leverage for symbol
+   */
+  async getLeverage(symbol: string): Promise<ApiResponse<number>> {
+    return {
+      success: true,
+      data: this.engine.getLeverage(symbol),
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Set position mode (one-way or hedge mode)
+   */
+  async setPositionMode(params: SetPositionModeParams): Promise<ApiResponse<any>> {
+    try {
+      this.engine.setPositionMode(params.dualSidePosition);
+
+      return {
+        success: true,
+        data: { dualSidePosition: params.dualSidePosition },
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error setting position mode:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to set position mode',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get current position mode
+   */
+  async getPositionMode(): Promise<ApiResponse<{ dualSidePosition: boolean }>> {
+    return {
+      success: true,
+      data: { dualSidePosition: this.engine.isDualSidePosition() },
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Set stop loss for position
+   */
+  async setStopLoss(params: SetStopLossParams): Promise<ApiResponse<Order>> {
+    return this.placeConditionalOrder(
+      params.symbol,
+      OrderType.STOP_MARKET,
+      params.stopPrice,
+      params.quantity,
+      params.side,
+    );
+  }
+
+  /**
+   * Set take profit for position
+   */
+  async setTakeProfit(params: SetTakeProfitParams): Promise<ApiResponse<Order>> {
+    return this.placeConditionalOrder(
+      params.symbol,
+      OrderType.TAKE_PROFIT_MARKET,
+      params.takeProfitPrice,
+      params.quantity,
+      params.side,
+    );
+  }
+
+  /**
+   * Set trailing stop for position (not available)
+   */
+  async setTrailingStop(_params: SetTrailingStopParams): Promise<ApiResponse<Order>> {
+    void _params;
+    return {
+      success: false,
+      error: 'Trailing stop orders are not supported by the paper exchange',
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Cancel all stop loss and take profit orders for symbol
+   */
+  async cancelAllConditionalOrders(symbol: string): Promise<ApiResponse<any>> {
+    const cancelled = this.engine.cancelOrders(symbol, true);
+
+    return {
+      success: true,
+      data: { symbol, cancelled: cancelled.map(order => order.orderId) },
+      timestamp: Date.now(),
+      exchange: 'paper',
+      tradingType: 'perpetual',
+    };
+  }
+
+  /**
+   * Get funding rate (from the price source, or the replayed history in a backtest)
+   */
+  async getFundingRate(symbol?: string): Promise<ApiResponse<any>> {
+    try {
+      return await this.engine.getFundingRate(symbol);
+    } catch (error: any) {
+      this.logger.error('Error getting funding rate:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get funding rate',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get funding rate history (from the price source, or the replayed history in a backtest)
+   */
+  async getFundingHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<any[]>> {
+    try {
+      return await this.engine.getFundingHistory(symbol, startTime, endTime, limit);
+    } catch (error: any) {
+      this.logger.error('Error getting funding history:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get funding history',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Get position risk (margin, liquidation price, etc.)
+   */
+  async getPositionRisk(symbol?: string): Promise<ApiResponse<any>> {
+    try {
+      const summary = await this.engine.getSummary();
+
+      return {
+        success: true,
+        data: summary.positions
+          .filter(risk => !symbol || risk.position.symbol === symbol)
+          .map(risk => ({
+            ...toStandardPosition(risk),
+            positionSide: risk.position.positionSide,
+            notional: formatNumber(risk.notional),
+            initialMargin: formatNumber(risk.initialMargin),
+            maintenanceMargin: formatNumber(risk.maintenanceMargin),
+          })),
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting position risk:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get position risk',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Open long position with market order
+   */
+  async openLong(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.BUY, quantity });
+  }
+
+  /**
+   * Open short position with market order
+   */
+  async openShort(symbol: string, quantity: string): Promise<ApiResponse<Order>> {
+    return this.placeMarketOrder({ symbol, side: OrderSide.SELL, quantity });
+  }
+
+  /**
+   * Close long position
+   */
+  async closeLong(symbol: string, quantity?: string): Promise<ApiResponse<Order>> {
+    if (!quantity) {
+      return this.closePosition(symbol, PositionSide.LONG);
+    }
+
+    return this.placeMarketOrder({ symbol, side: OrderSide.SELL, quantity, reduceOnly: true });
+  }
+
+  /**
+   * Close short position
+   */
+  async closeShort(symbol: string, quantity?: string): Promise<ApiResponse<Order>> {
+    if (!quantity) {
+      return this.closePosition(symbol, PositionSide.SHORT);
+    }
+
+    return this.placeMarketOrder({ symbol, side: OrderSide.BUY, quantity, reduceOnly: true });
+  }
+
+  /**
+   * Quick long by USD value with required TP/SL/leverage
+   */
+  async quickLong(
+    symbol: string,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    return this.quickOpen(
+      symbol,
+      OrderSide.BUY,
+      usdValue,
+      stopLossPercent,
+      takeProfitPercent,
+      leverage,
+    );
+  }
+
+  /**
+   * Quick short by USD value with required TP/SL/leverage
+   */
+  async quickShort(
+    symbol: string,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    return this.quickOpen(
+      symbol,
+      OrderSide.SELL,
+      usdValue,
+      stopLossPercent,
+      takeProfitPercent,
+      leverage,
+    );
+  }
+
+  /**
+   * Open a market position and attach closePosition TP/SL orders
+   */
+  private async quickOpen(
+    symbol: string,
+    side: OrderSide,
+    usdValue: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    leverage: number,
+  ): Promise<ApiResponse<any>> {
+    const label = side === OrderSide.BUY ? 'long' : 'short';
+
+    try {
+      // 1. Set leverage first
+      const leverageResp = await this.setLeverage({ symbol, leverage });
+      if (!leverageResp.success) {
+        return leverageResp;
+      }
+
+      // 2. Get current price from the venue
+      const currentPrice = (await this.engine.getQuote(symbol)).last;
+      const quantity = ((usdValue * leverage) / currentPrice).toString();
+
+      this.logger.log(`Opening paper ${label} position: ${quantity} ${symbol} @ $${currentPrice}`);
+
+      // 3. Place entry market order
+      const mainOrder = await this.placeMarketOrder({ symbol, side, quantity });
+      if (!mainOrder.success) {
+        this.logger.error('Failed to place entry order:', mainOrder.error);
+        return mainOrder;
+      }
+
+      // 4. Calculate SL/TP prices (LONG: SL below, TP above; SHORT: the reverse)
+      const direction = side === OrderSide.BUY ? 1 : -1;
+      const stopLossPrice = await this.marketService.formatPrice(
+        symbol,
+        (currentPrice * (1 - (direction * stopLossPercent) / 100)).toString(),
+      );
+      const takeProfitPrice = await this.marketService.formatPrice(
+        symbol,
+        (currentPrice * (1 + (direction * takeProfitPercent) / 100)).toString(),
+      );
+
+      this.logger.log(`Placing TP @ ${takeProfitPrice} and SL @ ${stopLossPrice}`);
+
+      // 5. Place SL/TP that close whatever is left of the position
+      const closeSide = side === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY;
+      const stopLoss = await this.placeClosePositionOrder(
+        symbol,
+        closeSide,
+        OrderType.STOP_MARKET,
+        stopLossPrice,
+      );
+      const takeProfit = await this.placeClosePositionOrder(
+        symbol,
+        closeSide,
+        OrderType.TAKE_PROFIT_MARKET,
+        takeProfitPrice,
+      );
+
+      this.logger.log(`Quick paper ${label} completed successfully`);
+
+      return {
+        success: true,
+        data: {
+          mainOrder,
+          stopLoss,
+          takeProfit,
+          quantity: mainOrder.data?.quantity,
+          entryPrice: mainOrder.data?.price,
+          stopLossPrice,
+          takeProfitPrice,
+        },
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      this.logger.error(`Error in quick ${label}:`, error.message);
+      return {
+        success: false,
+        error: error.message || `Failed to execute quick ${label}`,
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    }
+  }
+
+  /**
+   * Place STOP_MARKET / TAKE_PROFIT_MARKET that closes the entire position
+   */
+  private async placeClosePositionOrder(
+    symbol: string,
+    side: OrderSide,
+    type: OrderType.STOP_MARKET | OrderType.TAKE_PROFIT_MARKET,
+    stopPrice: string,
+  ): Promise<ApiResponse<Order>> {
+    try {
+      const order = await this.engine.placeOrder({
+        symbol,
+        side,
+        type,
+        quantity: 0,
+        stopPrice: parseFloat(stopPrice),
+        closePosition: true,
+      });
+
+      return {
+        success: true,
+        data: toStandardOrder(order),
+        timestamp: Date.now(),
+        exchange: 'paper',
+        tradingType: 'perpetual',
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || `Failed to place ${type} order`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Place a reduce-only conditional order sized from the current position if needed
+   */
+  private async placeConditionalOrder(
+    symbol: string,
+    type: OrderType.STOP_MARKET | OrderType.TAKE_PROFIT_MARKET,
+    triggerPrice: string,
+    quantity?: string,
+    side?: 'BUY' | 'SELL',
+  ): Promise<ApiResponse<Order>> {
+    let closeSide = side as OrderSide;
+    let closeQuantity = quantity;
+
+    if (!closeSide || !closeQuantity) {
+      const position = this.engine.getState().positions.find(p => p.symbol === symbol);
+
+      if (!position) {
+        return {
+          success: false,
+          error: `No open position found for ${symbol}`,
+          timestamp: Date.now(),
+        };
+      }
+
+      closeSide = closeSide || (position.size > 0 ? OrderSide.SELL : OrderSide.BUY);
+      closeQuantity = closeQuantity || formatNumber(Math.abs(position.size));
+    }
+
+    return this.placeOrder({
+      symbol,
+      side: closeSide,
+      type,
+      quantity: closeQuantity,
+      stopPrice: triggerPrice,
+      reduceOnly: true,
+    });
+  }
+}
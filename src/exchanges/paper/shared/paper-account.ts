@@ -0,0 +1,769 @@
+import {
+  IncomeHistory,
+  TransactionHistory,
+} from '../../../common/interfaces/perpetual-balance.interface';
+import {
+  Order,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  Position,
+  PositionSide,
+  TimeInForce,
+} from '../../../common/types/exchange.types';
+import {
+  PaperAccountEvent,
+  PaperAccountOptions,
+  PaperAccountState,
+  PaperAccountSummary,
+  PaperOrder,
+  PaperOrderRequest,
+  PaperPosition,
+  PaperPositionRisk,
+  PaperQuote,
+} from '../types';
+
+// History kept in the persisted state (oldest entries are dropped first)
+const MAX_CLOSED_ORDERS = 1000;
+const MAX_TRADES = 5000;
+const MAX_INCOME = 5000;
+
+// Position sizes below this are float dust from partial closes
+const SIZE_EPSILON = 1e-10;
+
+const TRIGGER_ORDER_TYPES = [
+  OrderType.STOP_MARKET,
+  OrderType.STOP_LIMIT,
+  OrderType.TAKE_PROFIT,
+  OrderType.TAKE_PROFIT_MARKET,
+];
+
+const LIMIT_ORDER_TYPES = [OrderType.LIMIT, OrderType.STOP_LIMIT, OrderType.TAKE_PROFIT];
+
+export const PAPER_ORDER_TYPES = [OrderType.MARKET, OrderType.LIMIT, ...TRIGGER_ORDER_TYPES];
+
+/**
+ * Simulated cross-margin perpetual account.
+ *
+ * Pure bookkeeping: orders are matched against quotes supplied by the caller, so the same class
+ * can be driven by live prices or historical data. Market orders and marketable limits fill
+ * immediately as taker (plus slippage), resting limits fill at their price as maker once the
+ * book crosses them, and stop/take-profit orders trigger on the last price. Orders always fill
+ * in full.
+ */
+export class PaperAccount {
+  private readonly lastPrices = new Map<string, number>();
+
+  constructor(
+    private readonly options: PaperAccountOptions,
+    readonly state: PaperAccountState,
+    private readonly onEvent: (event: PaperAccountEvent) => void = () => undefined,
+  ) {}
+
+  static createState(initialBalance: number): PaperAccountState {
+    return {
+      walletBalance: initialBalance,
+      dualSidePosition: false,
+      leverage: {},
+      positions: [],
+      openOrders: [],
+      closedOrders: [],
+      trades: [],
+      income: [],
+      fundingTimes: {},
+      nextId: 1,
+    };
+  }
+
+  // ==================== Orders ====================
+
+  /**
+   * Place an order against the current quote.
+   * Throws when the order is rejected outright (validation, margin, reduce-only).
+   */
+  placeOrder(request: PaperOrderRequest, quote: PaperQuote, now: number = Date.now()): PaperOrder {
+    this.validateRequest(request);
+    this.updatePrice(request.symbol, quote.last);
+
+    const order: PaperOrder = {
+      orderId: this.nextId(),
+      clientOrderId: request.clientOrderId,
+      symbol: request.symbol,
+      side: request.side,
+      type: request.type,
+      status: OrderStatus.NEW,
+      price: request.price,
+      stopPrice: request.stopPrice,
+      quantity: request.closePosition ? 0 : request.quantity,
+      executedQuantity: 0,
+      averagePrice: 0,
+      timeInForce: request.timeInForce || TimeInForce.GTC,
+      reduceOnly: !!request.reduceOnly || !!request.closePosition,
+      closePosition: !!request.closePosition,
+      positionSide: this.resolvePositionSide(request),
+      triggered: false,
+      timestamp: now,
+      updateTime: now,
+    };
+
+    if (TRIGGER_ORDER_TYPES.includes(order.type)) {
+      if (this.isTriggered(order, quote.last)) {
+        throw new Error('Order would immediately trigger');
+      }
+      return this.rest(order);
+    }
+
+    if (order.type === OrderType.MARKET) {
+      this.fill(order, this.takerPrice(order.side, quote), false, now, true);
+      return order;
+    }
+
+    if (this.isMarketable(order, quote)) {
+      // Post-only orders never take liquidity
+      if (order.timeInForce === TimeInForce.GTX) {
+        return this.close(order, OrderStatus.EXPIRED, now);
+      }
+      this.fill(order, this.limitTakerPrice(order, quote), false, now, true);
+      return order;
+    }
+
+    if (order.timeInForce === TimeInForce.IOC || order.timeInForce === TimeInForce.FOK) {
+      return this.close(order, OrderStatus.EXPIRED, now);
+    }
+
+    const required = this.getOrderMargin(order);
+    if (required > this.getSummary().availableBalance) {
+      throw new Error('Insufficient margin');
+    }
+
+    return this.rest(order);
+  }
+
+  /**
+   * Cancel an open order by exchange or client order ID
+   */
+  cancelOrder(
+    symbol: string,
+    orderId?: string,
+    clientOrderId?: string,
+    now: number = Date.now(),
+  ): PaperOrder {
+    const order = this.state.openOrders.find(
+      o =>
+        o.symbol === symbol &&
+        ((orderId && o.orderId === orderId) ||
+          (clientOrderId && o.clientOrderId === clientOrderId)),
+    );
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    return this.close(order, OrderStatus.CANCELED, now);
+  }
+
+  /**
+   * Cancel all open orders matching the filter
+   */
+  cancelOrders(filter: (order: PaperOrder) => boolean, now: number = Date.now()): PaperOrder[] {
+    return this.state.openOrders
+      .filter(filter)
+      .map(order => this.close(order, OrderStatus.CANCELED, now));
+  }
+
+  getOpenOrders(symbol?: string): PaperOrder[] {
+    return this.state.openOrders.filter(order => !symbol || order.symbol === symbol);
+  }
+
+  /**
+   * Find an open or recently closed order
+   */
+  findOrder(symbol: string, orderId: string): PaperOrder | undefined {
+    const matches = (order: PaperOrder) =>
+      order.symbol === symbol && (order.orderId === orderId || order.clientOrderId === orderId);
+
+    return this.state.openOrders.find(matches) || this.state.closedOrders.find(matches);
+  }
+
+  /**
+   * Trigger and fill resting orders for a symbol against a new quote
+   */
+  match(symbol: string, quote: PaperQuote, now: number = Date.now()): void {
+    this.updatePrice(symbol, quote.last);
+
+    for (const order of this.getOpenOrders(symbol)) {
+      // An earlier fill in this pass may have closed it (e.g. the sibling of a TP/SL pair)
+      if (!this.state.openOrders.includes(order)) continue;
+
+      if (TRIGGER_ORDER_TYPES.includes(order.type) && !order.triggered) {
+        if (!this.isTriggered(order, quote.last)) continue;
+
+        if (!LIMIT_ORDER_TYPES.includes(order.type)) {
+          this.fill(order, this.takerPrice(order.side, quote), false, now, false);
+          continue;
+        }
+
+        order.triggered = true;
+        order.updateTime = now;
+        if (this.isMarketable(order, quote)) {
+          this.fill(order, this.limitTakerPrice(order, quote), false, now, false);
+        }
+        continue;
+      }
+
+      if (this.isMarketable(order, quote)) {
+        this.fill(order, order.price!, true, now, false);
+      }
+    }
+  }
+
+  // ==================== Account ====================
+
+  updatePrice(symbol: string, price: number): void {
+    if (Number.isFinite(price) && price > 0) {
+      this.lastPrices.set(symbol, price);
+    }
+  }
+
+  getLastPrice(symbol: string): number | undefined {
+    return this.lastPrices.get(symbol);
+  }
+
+  getLeverage(symbol: string): number {
+    return this.state.leverage[symbol] || this.options.defaultLeverage;
+  }
+
+  setLeverage(symbol: string, leverage: number): void {
+    if (!Number.isInteger(leverage) || leverage < 1 || leverage > this.options.maxLeverage) {
+      throw new Error(`Leverage must be an integer between 1 and ${this.options.maxLeverage}`);
+    }
+    this.state.leverage[symbol] = leverage;
+  }
+
+  setPositionMode(dualSidePosition: boolean): void {
+    if (dualSidePosition === this.state.dualSidePosition) return;
+
+    if (this.state.positions.length > 0 || this.state.openOrders.length > 0) {
+      throw new Error('Position mode cannot be changed with open positions or orders');
+    }
+    this.state.dualSidePosition = dualSidePosition;
+  }
+
+  /**
+   * Margin summary and per-position risk, marked at the last known prices
+   */
+  getSummary(): PaperAccountSummary {
+    const mmr = this.options.maintenanceMarginRate;
+
+    const risks = this.state.positions.map(position => {
+      const markPrice = this.lastPrices.get(position.symbol) ?? position.entryPrice;
+      const notional = Math.abs(position.size) * markPrice;
+      const leverage = this.getLeverage(position.symbol);
+
+      return {
+        position,
+        markPrice,
+        unrealizedPnl: position.size * (markPrice - position.entryPrice),
+        notional,
+        leverage,
+        initialMargin: notional / leverage,
+        maintenanceMargin: notional * mmr,
+        liquidationPrice: 0,
+      };
+    });
+
+    const unrealizedPnl = risks.reduce((sum, risk) => sum + risk.unrealizedPnl, 0);
+    const maintenanceMargin = risks.reduce((sum, risk) => sum + risk.maintenanceMargin, 0);
+    const positionInitialMargin = risks.reduce((sum, risk) => sum + risk.initialMargin, 0);
+    const openOrderInitialMargin = this.state.openOrders.reduce(
+      (sum, order) => sum + this.getOrderMargin(order),
+      0,
+    );
+    const marginBalance = this.state.walletBalance + unrealizedPnl;
+
+    // Cross margin: price at which equity meets maintenance with everything else held constant
+    for (const risk of risks) {
+      const { size, entryPrice } = risk.position;
+      const otherEquity = marginBalance - risk.unrealizedPnl;
+      const otherMaintenance = maintenanceMargin - risk.maintenanceMargin;
+      const price =
+        (size * entryPrice - otherEquity + otherMaintenance) / (size * (1 - Math.sign(size) * mmr));
+      risk.liquidationPrice = Math.max(price, 0);
+    }
+
+    return {
+      asset: this.options.asset,
+      walletBalance: this.state.walletBalance,
+      unrealizedPnl,
+      marginBalance,
+      positionInitialMargin,
+      openOrderInitialMargin,
+      maintenanceMargin,
+      availableBalance: Math.max(marginBalance - positionInitialMargin - openOrderInitialMargin, 0),
+      positions: risks,
+    };
+  }
+
+  /**
+   * Close every position at the mark once equity falls to the maintenance margin.
+   * Returns the liquidated positions (empty while the account is healthy).
+   */
+  checkLiquidation(now: number = Date.now()): PaperPosition[] {
+    if (this.state.positions.length === 0) return [];
+
+    const summary = this.getSummary();
+    if (summary.marginBalance > summary.maintenanceMargin) return [];
+
+    this.cancelOrders(() => true, now);
+
+    const liquidated = [...this.state.positions];
+    for (const risk of summary.positions) {
+      const { position } = risk;
+      const order = this.createMarketOrder(
+        position.symbol,
+        position.size > 0 ? OrderSide.SELL : OrderSide.BUY,
+        Math.abs(position.size),
+        position.positionSide,
+        now,
+      );
+      order.clientOrderId = 'liquidation';
+      this.applyFill(order, position, order.quantity, risk.markPrice, false, now);
+    }
+
+    // Losses beyond the balance are absorbed, like an insurance fund would
+    if (this.state.walletBalance < 0) {
+      this.recordIncome('', 'INSURANCE_CLEAR', -this.state.walletBalance, now);
+      this.state.walletBalance = 0;
+    }
+
+    return liquidated;
+  }
+
+  /**
+   * Symbols holding positions that have not been charged for the latest funding time
+   */
+  getFundingDue(now: number = Date.now()): string[] {
+    if (this.options.fundingIntervalHours <= 0) return [];
+
+    const boundary = this.getFundingBoundary(now);
+    const due = this.state.positions
+      .filter(position => (this.state.fundingTimes[this.getPositionKey(position)] ?? 0) < boundary)
+      .map(position => position.symbol);
+
+    return Array.from(new Set(due));
+  }
+
+  /**
+   * Settle funding for a symbol (positive rate: longs pay shorts). Returns the net payment.
+   */
+  applyFunding(symbol: string, rate: number, now: number = Date.now()): number {
+    const boundary = this.getFundingBoundary(now);
+    let total = 0;
+
+    for (const position of this.state.positions) {
+      const key = this.getPositionKey(position);
+      if (position.symbol !== symbol || (this.state.fundingTimes[key] ?? 0) >= boundary) continue;
+
+      const markPrice = this.lastPrices.get(symbol) ?? position.entryPrice;
+      const payment = -position.size * markPrice * rate;
+
+      this.state.walletBalance += payment;
+      this.state.fundingTimes[key] = boundary;
+      this.recordIncome(symbol, 'FUNDING_FEE', payment, now, rate.toString());
+      total += payment;
+    }
+
+    return total;
+  }
+
+  // ==================== Matching internals ====================
+
+  private fill(
+    order: PaperOrder,
+    price: number,
+    maker: boolean,
+    now: number,
+    rejectOnError: boolean,
+  ): boolean {
+    const position = this.findPosition(order.symbol, order.positionSide);
+    const direction = order.side === OrderSide.BUY ? 1 : -1;
+    // Part of the order that reduces the current position
+    const closable = position && position.size * direction < 0 ? Math.abs(position.size) : 0;
+
+    let quantity = order.closePosition ? closable : order.quantity - order.executedQuantity;
+
+    if (order.reduceOnly || this.isHedgeClose(order)) {
+      quantity = Math.min(quantity, closable);
+      if (quantity <= 0) {
+        return this.reject(
+          order,
+          'Reduce-only order has no position to reduce',
+          now,
+          rejectOnError,
+        );
+      }
+    }
+
+    const opening = Math.max(quantity - closable, 0);
+    if (opening > 0) {
+      const fee = quantity * price * (maker ? this.options.makerFee : this.options.takerFee);
+      const required = (opening * price) / this.getLeverage(order.symbol) + fee;
+      // A resting limit already reserved its margin
+      const available = this.getSummary().availableBalance + this.getOrderMargin(order);
+
+      if (required > available) {
+        return this.reject(order, 'Insufficient margin', now, rejectOnError);
+      }
+    }
+
+    this.applyFill(order, position, quantity, price, maker, now);
+    return true;
+  }
+
+  private applyFill(
+    order: PaperOrder,
+    existing: PaperPosition | undefined,
+    quantity: number,
+    price: number,
+    maker: boolean,
+    now: number,
+  ): void {
+    const direction = order.side === OrderSide.BUY ? 1 : -1;
+    const fee = quantity * price * (maker ? this.options.makerFee : this.options.takerFee);
+    let realizedPnl = 0;
+
+    const position = existing || this.openPosition(order, now);
+    const size = position.size;
+
+    if (size * direction >= 0) {
+      position.entryPrice =
+        (Math.abs(size) * position.entryPrice + quantity * price) / (Math.abs(size) + quantity);
+    } else {
+      realizedPnl =
+        Math.min(quantity, Math.abs(size)) * (price - position.entryPrice) * Math.sign(size);
+      // One-way orders larger than the position flip it
+      if (quantity > Math.abs(size)) position.entryPrice = price;
+    }
+
+    position.size = size + direction * quantity;
+    if (Math.abs(position.size) < SIZE_EPSILON) position.size = 0;
+    position.realizedPnl += realizedPnl;
+    position.updateTime = now;
+    this.state.walletBalance += realizedPnl - fee;
+
+    const executed = order.executedQuantity + quantity;
+    order.averagePrice =
+      (order.averagePrice * order.executedQuantity + price * quantity) / executed;
+    order.executedQuantity = executed;
+    if (order.closePosition) order.quantity = executed;
+
+    const trade: TransactionHistory = {
+      symbol: order.symbol,
+      id: this.nextId(),
+      orderId: order.orderId,
+      side: order.side,
+      price: formatNumber(price),
+      quantity: formatNumber(quantity),
+      realizedPnl: formatNumber(realizedPnl),
+      marginAsset: this.options.asset,
+      quoteQuantity: formatNumber(price * quantity),
+      commission: formatNumber(fee),
+      commissionAsset: this.options.asset,
+      time: now,
+      positionSide: position.positionSide,
+      buyer: order.side === OrderSide.BUY,
+      maker,
+    };
+    pushCapped(this.state.trades, trade, MAX_TRADES);
+
+    this.recordIncome(order.symbol, 'COMMISSION', -fee, now, undefined, trade.id);
+    if (realizedPnl !== 0) {
+      this.recordIncome(order.symbol, 'REALIZED_PNL', realizedPnl, now, undefined, trade.id);
+    }
+
+    this.onEvent({ type: 'trade', trade });
+    this.close(order, OrderStatus.FILLED, now);
+
+    if (position.size === 0) {
+      this.closePosition(position, now);
+    }
+    this.onEvent({ type: 'position', position });
+  }
+
+  private openPosition(order: PaperOrder, now: number): PaperPosition {
+    const position: PaperPosition = {
+      symbol: order.symbol,
+      positionSide: order.positionSide,
+      size: 0,
+      entryPrice: 0,
+      realizedPnl: 0,
+      updateTime: now,
+    };
+
+    this.state.positions.push(position);
+    // Funding is charged from the next funding time on
+    this.state.fundingTimes[this.getPositionKey(position)] = this.getFundingBoundary(now);
+    return position;
+  }
+
+  /**
+   * Remove a flat position and expire TP/SL orders that were closing it
+   */
+  private closePosition(position: PaperPosition, now: number): void {
+    this.state.positions = this.state.positions.filter(p => p !== position);
+    delete this.state.fundingTimes[this.getPositionKey(position)];
+
+    for (const order of this.getOpenOrders(position.symbol)) {
+      if (order.closePosition && order.positionSide === position.positionSide) {
+        this.close(order, OrderStatus.EXPIRED, now);
+      }
+    }
+  }
+
+  private reject(order: PaperOrder, reason: string, now: number, throwError: boolean): false {
+    if (throwError) {
+      throw new Error(reason);
+    }
+    this.close(order, OrderStatus.EXPIRED, now);
+    return false;
+  }
+
+  private rest(order: PaperOrder): PaperOrder {
+    this.state.openOrders.push(order);
+    this.onEvent({ type: 'order', order });
+    return order;
+  }
+
+  private close(order: PaperOrder, status: OrderStatus, now: number): PaperOrder {
+    this.state.openOrders = this.state.openOrders.filter(o => o !== order);
+    order.status = status;
+    order.updateTime = now;
+    pushCapped(this.state.closedOrders, order, MAX_CLOSED_ORDERS);
+    this.onEvent({ type: 'order', order });
+    return order;
+  }
+
+  private createMarketOrder(
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    positionSide: PositionSide,
+    now: number,
+  ): PaperOrder {
+    return {
+      orderId: this.nextId(),
+      symbol,
+      side,
+      type: OrderType.MARKET,
+      status: OrderStatus.NEW,
+      quantity,
+      executedQuantity: 0,
+      averagePrice: 0,
+      timeInForce: TimeInForce.GTC,
+      reduceOnly: true,
+      closePosition: false,
+      positionSide,
+      triggered: false,
+      timestamp: now,
+      updateTime: now,
+    };
+  }
+
+  /**
+   * Initial margin reserved by a resting order that would open or increase a position
+   */
+  private getOrderMargin(order: PaperOrder): number {
+    const resting = order.type === OrderType.LIMIT || order.triggered;
+    if (!this.state.openOrders.includes(order) || !resting || order.reduceOnly) return 0;
+    if (this.isHedgeClose(order)) return 0;
+
+    return (
+      ((order.quantity - order.executedQuantity) * order.price!) / this.getLeverage(order.symbol)
+    );
+  }
+
+  private isMarketable(order: PaperOrder, quote: PaperQuote): boolean {
+    return order.side === OrderSide.BUY ? quote.ask <= order.price! : quote.bid >= order.price!;
+  }
+
+  /**
+   * Stops fire when price moves against the order side, take-profits when it moves with it
+   */
+  private isTriggered(order: PaperOrder, lastPrice: number): boolean {
+    const stopPrice = order.stopPrice!;
+    const isStop = order.type === OrderType.STOP_MARKET || order.type === OrderType.STOP_LIMIT;
+    const risesToTrigger = isStop === (order.side === OrderSide.BUY);
+
+    return risesToTrigger ? lastPrice >= stopPrice : lastPrice <= stopPrice;
+  }
+
+  private takerPrice(side: OrderSide, quote: PaperQuote): number {
+    const slippage = this.options.slippageBps / 10000;
+    return side === OrderSide.BUY ? quote.ask * (1 + slippage) : quote.bid * (1 - slippage);
+  }
+
+  /**
+   * Taker price for a marketable limit, never worse than the limit price
+   */
+  private limitTakerPrice(order: PaperOrder, quote: PaperQuote): number {
+    const price = this.takerPrice(order.side, quote);
+    return order.side === OrderSide.BUY
+      ? Math.min(price, order.price!)
+      : Math.max(price, order.price!);
+  }
+
+  private isHedgeClose(order: PaperOrder): boolean {
+    return (
+      (order.positionSide === PositionSide.LONG && order.side === OrderSide.SELL) ||
+      (order.positionSide === PositionSide.SHORT && order.side === OrderSide.BUY)
+    );
+  }
+
+  /**
+   * Hedge mode infers the position side when omitted: reducing orders close the side they
+   * oppose, everything else opens in the order direction
+   */
+  private resolvePositionSide(request: PaperOrderRequest): PositionSide {
+    const explicit = request.positionSide && request.positionSide !== PositionSide.BOTH;
+
+    if (!this.state.dualSidePosition) {
+      if (explicit) {
+        throw new Error('positionSide must be BOTH (or omitted) in one-way mode');
+      }
+      return PositionSide.BOTH;
+    }
+
+    if (explicit) return request.positionSide!;
+
+    const reducing = request.reduceOnly || request.closePosition;
+    const isBuy = request.side === OrderSide.BUY;
+    return isBuy !== !!reducing ? PositionSide.LONG : PositionSide.SHORT;
+  }
+
+  private validateRequest(request: PaperOrderRequest): void {
+    if (!PAPER_ORDER_TYPES.includes(request.type)) {
+      throw new Error(`${request.type} orders are not supported by the paper exchange`);
+    }
+
+    if (request.closePosition) {
+      if (request.type !== OrderType.STOP_MARKET && request.type !== OrderType.TAKE_PROFIT_MARKET) {
+        throw new Error('closePosition is only supported on STOP_MARKET and TAKE_PROFIT_MARKET');
+      }
+    } else if (!(request.quantity > 0)) {
+      throw new Error('Quantity must be greater than 0');
+    }
+
+    if (LIMIT_ORDER_TYPES.includes(request.type) && !(request.price! > 0)) {
+      throw new Error(`Price is required for ${request.type} orders`);
+    }
+
+    if (TRIGGER_ORDER_TYPES.includes(request.type) && !(request.stopPrice! > 0)) {
+      throw new Error(`Stop price is required for ${request.type} orders`);
+    }
+  }
+
+  private findPosition(symbol: string, positionSide: PositionSide): PaperPosition | undefined {
+    return this.state.positions.find(
+      position => position.symbol === symbol && position.positionSide === positionSide,
+    );
+  }
+
+  private getPositionKey(position: PaperPosition): string {
+    return `${position.symbol}:${position.positionSide}`;
+  }
+
+  private getFundingBoundary(now: number): number {
+    const interval = this.options.fundingIntervalHours * 3600000;
+    return interval > 0 ? Math.floor(now / interval) * interval : 0;
+  }
+
+  private recordIncome(
+    symbol: string,
+    incomeType: IncomeHistory['incomeType'],
+    amount: number,
+    now: number,
+    info?: string,
+    tradeId?: string,
+  ): void {
+    pushCapped(
+      this.state.income,
+      {
+        symbol,
+        incomeType,
+        income: formatNumber(amount),
+        asset: this.options.asset,
+        info,
+        time: now,
+        tranId: this.nextId(),
+        tradeId,
+      },
+      MAX_INCOME,
+    );
+  }
+
+  private nextId(): string {
+    return (this.state.nextId++).toString();
+  }
+}
+
+/**
+ * Map a paper order to the standard Order format
+ */
+export function toStandardOrder(order: PaperOrder): Order {
+  const price = order.averagePrice > 0 ? order.averagePrice : order.price || order.stopPrice || 0;
+
+  return {
+    orderId: order.orderId,
+    clientOrderId: order.clientOrderId,
+    symbol: order.symbol,
+    side: order.side,
+    type: order.type,
+    status: order.status,
+    price: formatNumber(price),
+    quantity: formatNumber(order.quantity),
+    executedQuantity: formatNumber(order.executedQuantity),
+    remainingQuantity: formatNumber(order.quantity - order.executedQuantity),
+    timestamp: order.timestamp,
+    updateTime: order.updateTime,
+  };
+}
+
+/**
+ * Map a paper position (with its risk figures) to the standard Position format
+ */
+export function toStandardPosition(risk: PaperPositionRisk): Position {
+  const { position } = risk;
+  const side =
+    position.positionSide !== PositionSide.BOTH
+      ? position.positionSide
+      : position.size > 0
+        ? PositionSide.LONG
+        : position.size < 0
+          ? PositionSide.SHORT
+          : PositionSide.BOTH;
+
+  return {
+    symbol: position.symbol,
+    side,
+    size: formatNumber(Math.abs(position.size)),
+    entryPrice: formatNumber(position.entryPrice),
+    markPrice: formatNumber(risk.markPrice),
+    liquidationPrice: formatNumber(risk.liquidationPrice),
+    unrealizedPnl: formatNumber(risk.unrealizedPnl),
+    realizedPnl: formatNumber(position.realizedPnl),
+    leverage: risk.leverage,
+    marginType: 'cross',
+  };
+}
+
+/**
+ * Trim float noise (0.1 + 0.2) from amounts before they leave the engine
+ */
+export function formatNumber(value: number): string {
+  return parseFloat(value.toPrecision(12)).toString();
+}
+
+function pushCapped<T>(items: T[], item: T, max: number): void {
+  items.push(item);
+  if (items.length > max) items.splice(0, items.length - max);
+}
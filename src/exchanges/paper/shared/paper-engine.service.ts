@@ -0,0 +1,429 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Observable, Subject } from 'rxjs';
+import { ExchangeServiceFactory } from '../../../common/factory/exchange.factory';
+import {
+  IPerpetualMarketService,
+  IPerpetualTradingService,
+  MarginTier,
+} from '../../../common/interfaces';
+import { OrderBookManager } from '../../../common/services/order-book-manager.service';
+import { SymbolNormalizerService } from '../../../common/services/symbol-normalizer.service';
+import {
+  ApiResponse,
+  ExchangeName,
+  OrderSide,
+  Position,
+} from '../../../common/types/exchange.types';
+import { JsonStateFile } from '../../../common/state';
+import { PaperConfig } from '../../../config/paper.config';
+import {
+  PaperAccountEvent,
+  PaperAccountState,
+  PaperAccountSummary,
+  PaperOrder,
+  PaperOrderRequest,
+  PaperPosition,
+  PaperQuote,
+  PaperVenue,
+} from '../types';
+import { PaperAccount, formatNumber, toStandardPosition } from './paper-account';
+
+// Coalesce bursts of fills into one write
+const PERSIST_DEBOUNCE_MS = 500;
+
+/**
+ * Paper trading engine.
+ *
+ * Owns the virtual account and feeds it live prices from the configured source exchange:
+ * the source's local order book when synced (market orders walk it), REST prices otherwise.
+ * Resting orders are matched, the account checked for liquidation and funding settled on
+ * every matching interval. State is persisted to a JSON file so balances survive restarts.
+ */
+@Injectable()
+export class PaperEngineService implements PaperVenue, OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PaperEngineService.name);
+  private readonly config: PaperConfig;
+  private readonly events = new Subject<PaperAccountEvent>();
+  private account!: PaperAccount;
+  private matchingInterval?: NodeJS.Timeout;
+  private matching = false;
+  private persistTimeout?: NodeJS.Timeout;
+  private cancelAllTimeout?: NodeJS.Timeout;
+  private readonly stateFile: JsonStateFile<PaperAccountState>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly symbolNormalizer: SymbolNormalizerService,
+    private readonly orderBookManager: OrderBookManager,
+  ) {
+    this.config = this.configService.get<PaperConfig>('paper')!;
+    this.stateFile = new JsonStateFile(this.config.stateFile, 'paper account', this.logger);
+  }
+
+  onModuleInit() {
+    this.account = new PaperAccount(
+      {
+        asset: this.config.asset,
+        makerFee: this.config.makerFee,
+        takerFee: this.config.takerFee,
+        slippageBps: this.config.slippageBps,
+        defaultLeverage: this.config.defaultLeverage,
+        maxLeverage: this.config.maxLeverage,
+        maintenanceMarginRate: this.config.maintenanceMarginRate,
+        fundingIntervalHours: this.config.fundingIntervalHours,
+      },
+      this.loadState(),
+      event => {
+        this.events.next(event);
+        this.schedulePersist();
+      },
+    );
+
+    this.matchingInterval = setInterval(
+      () => void this.runMatching(),
+      this.config.matchingIntervalMs,
+    );
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.matchingInterval);
+    clearTimeout(this.cancelAllTimeout);
+
+    if (this.persistTimeout) {
+      clearTimeout(this.persistTimeout);
+      this.persistTimeout = undefined;
+      this.stateFile.saveSync(this.account.state);
+    }
+  }
+
+  /**
+   * Order, fill and position changes as they happen
+   */
+  getEvents(): Observable<PaperAccountEvent> {
+    return this.events.asObservable();
+  }
+
+  getPriceSource(): ExchangeName {
+    return this.config.priceSource;
+  }
+
+  getAsset(): string {
+    return this.config.asset;
+  }
+
+  /**
+   * The paper account's margin rules: one tier up to the max leverage, at a flat maintenance
+   * margin rate
+   */
+  getMarginTiers(): MarginTier[] {
+    return [
+      {
+        floor: 0,
+        cap: Infinity,
+        basis: 'notional',
+        maxLeverage: this.config.maxLeverage,
+        maintenanceMarginRate: this.config.maintenanceMarginRate,
+        maintenanceAmount: 0,
+      },
+    ];
+  }
+
+  /**
+   * Convert a paper symbol (BTCUSDT) to the price source's format
+   */
+  toSourceSymbol(symbol: string): string {
+    return this.symbolNormalizer.toExchangeSymbol(symbol, this.config.priceSource);
+  }
+
+  async getSourceMarketService(): Promise<IPerpetualMarketService> {
+    this.assertPriceSource();
+    return this.exchangeFactory.getMarketService(
+      this.config.priceSource,
+      'perpetual',
+    ) as Promise<IPerpetualMarketService>;
+  }
+
+  async getSourceTradingService(): Promise<IPerpetualTradingService> {
+    this.assertPriceSource();
+    return this.exchangeFactory.getTradingService(
+      this.config.priceSource,
+      'perpetual',
+    ) as Promise<IPerpetualTradingService>;
+  }
+
+  // ==================== Orders ====================
+
+  async placeOrder(request: PaperOrderRequest): Promise<PaperOrder> {
+    const quote = await this.getQuote(request.symbol, request.side, request.quantity);
+    const order = this.account.placeOrder(request, quote);
+    this.schedulePersist();
+    return order;
+  }
+
+  cancelOrder(symbol: string, orderId?: string, clientOrderId?: string): PaperOrder {
+    return this.account.cancelOrder(symbol, orderId, clientOrderId);
+  }
+
+  /**
+   * Cancel open orders, optionally only for one symbol and/or only stop/take-profit orders
+   */
+  cancelOrders(symbol?: string, conditionalOnly: boolean = false): PaperOrder[] {
+    return this.account.cancelOrders(
+      order => (!symbol || order.symbol === symbol) && (!conditionalOnly || !!order.stopPrice),
+    );
+  }
+
+  /**
+   * Cancel all open orders timeoutMs from now unless re-scheduled first (0 removes the
+   * schedule), like a venue's dead man's switch. Returns the time it fires at.
+   */
+  scheduleCancelAll(timeoutMs: number): number | undefined {
+    clearTimeout(this.cancelAllTimeout);
+    this.cancelAllTimeout = undefined;
+    if (timeoutMs <= 0) return undefined;
+
+    this.cancelAllTimeout = setTimeout(() => {
+      this.cancelAllTimeout = undefined;
+      const cancelled = this.cancelOrders();
+      this.logger.warn(`Scheduled cancel fired: cancelled ${cancelled.length} open orders`);
+    }, timeoutMs);
+    return Date.now() + timeoutMs;
+  }
+
+  getOpenOrders(symbol?: string): PaperOrder[] {
+    return this.account.getOpenOrders(symbol);
+  }
+
+  findOrder(symbol: string, orderId: string): PaperOrder | undefined {
+    return this.account.findOrder(symbol, orderId);
+  }
+
+  // ==================== Account ====================
+
+  getLeverage(symbol: string): number {
+    return this.account.getLeverage(symbol);
+  }
+
+  setLeverage(symbol: string, leverage: number): void {
+    this.account.setLeverage(symbol, leverage);
+    this.schedulePersist();
+  }
+
+  isDualSidePosition(): boolean {
+    return this.account.state.dualSidePosition;
+  }
+
+  setPositionMode(dualSidePosition: boolean): void {
+    this.account.setPositionMode(dualSidePosition);
+    this.schedulePersist();
+  }
+
+  /**
+   * Account summary marked at fresh prices for every open position
+   */
+  async getSummary(): Promise<PaperAccountSummary> {
+    const symbols = new Set(this.account.state.positions.map(position => position.symbol));
+
+    await Promise.all(
+      Array.from(symbols, async symbol => {
+        try {
+          this.account.updatePrice(symbol, (await this.getQuote(symbol)).last);
+        } catch (error: any) {
+          this.logger.warn(`Using last known price for ${symbol}: ${error.message}`);
+        }
+      }),
+    );
+
+    return this.account.getSummary();
+  }
+
+  /**
+   * Standard position view (flat when the position has been closed)
+   */
+  describePosition(position: PaperPosition): Position {
+    const risk = this.account.getSummary().positions.find(r => r.position === position);
+    if (risk) return toStandardPosition(risk);
+
+    return toStandardPosition({
+      position,
+      markPrice: this.account.getLastPrice(position.symbol) ?? position.entryPrice,
+      unrealizedPnl: 0,
+      notional: 0,
+      leverage: this.account.getLeverage(position.symbol),
+      initialMargin: 0,
+      maintenanceMargin: 0,
+      liquidationPrice: 0,
+    });
+  }
+
+  getState(): Readonly<PaperAccountState> {
+    return this.account.state;
+  }
+
+  // ==================== Prices ====================
+
+  /**
+   * Current quote for a symbol. With a side and quantity the taker side is the average price
+   * of walking the source book, so large orders pay for the depth they consume.
+   */
+  async getQuote(symbol: string, side?: OrderSide, quantity?: number): Promise<PaperQuote> {
+    const sourceSymbol = this.toSourceSymbol(symbol);
+    const book = this.orderBookManager.getBook(this.config.priceSource, sourceSymbol);
+    let bid = book?.getBestBid();
+    let ask = book?.getBestAsk();
+
+    if (book && bid !== undefined && ask !== undefined) {
+      const last = (bid + ask) / 2;
+
+      if (side && quantity) {
+        const estimate = book.estimateFill(side, quantity);
+        if (estimate.filledQuantity >= quantity) {
+          if (side === OrderSide.BUY) ask = estimate.averagePrice;
+          else bid = estimate.averagePrice;
+        }
+      }
+
+      return { bid, ask, last };
+    }
+
+    const marketService = await this.getSourceMarketService();
+    const response = await marketService.getCurrentPrice(sourceSymbol);
+    const price = parseFloat(response.data || '');
+
+    if (!response.success || !(price > 0)) {
+      throw new Error(response.error || `Failed to get price for ${symbol}`);
+    }
+
+    return { bid: price, ask: price, last: price };
+  }
+
+  /**
+   * Funding rate from the price source
+   */
+  async getFundingRate(symbol?: string): Promise<ApiResponse<any>> {
+    const tradingService = await this.getSourceTradingService();
+    const response = await tradingService.getFundingRate(symbol && this.toSourceSymbol(symbol));
+    return response.success ? { ...response, exchange: 'paper' } : response;
+  }
+
+  /**
+   * Funding rate history from the price source
+   */
+  async getFundingHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<any[]>> {
+    const tradingService = await this.getSourceTradingService();
+    const response = await tradingService.getFundingHistory(
+      this.toSourceSymbol(symbol),
+      startTime,
+      endTime,
+      limit,
+    );
+    return response.success ? { ...response, exchange: 'paper' } : response;
+  }
+
+  /**
+   * Current funding rate of the symbol on the price source, as a number
+   */
+  private async getCurrentFundingRate(symbol: string): Promise<number> {
+    const sourceSymbol = this.toSourceSymbol(symbol);
+    const tradingService = await this.getSourceTradingService();
+    const response = await tradingService.getFundingRate(sourceSymbol);
+
+    const data = Array.isArray(response.data)
+      ? response.data.find((item: any) => item.symbol === sourceSymbol)
+      : response.data;
+    const rate = parseFloat(data?.fundingRate);
+
+    if (!response.success || !Number.isFinite(rate)) {
+      throw new Error(response.error || `No funding rate for ${symbol}`);
+    }
+
+    return rate;
+  }
+
+  // ==================== Matching loop ====================
+
+  private async runMatching(): Promise<void> {
+    const { openOrders, positions } = this.account.state;
+    if (this.matching || (openOrders.length === 0 && positions.length === 0)) return;
+
+    this.matching = true;
+    try {
+      const symbols = new Set([...openOrders, ...positions].map(item => item.symbol));
+
+      for (const symbol of symbols) {
+        try {
+          this.account.match(symbol, await this.getQuote(symbol));
+        } catch (error: any) {
+          this.logger.debug(`Skipping paper matching for ${symbol}: ${error.message}`);
+        }
+      }
+
+      const liquidated = this.account.checkLiquidation();
+      if (liquidated.length > 0) {
+        this.logger.warn(
+          `Paper account liquidated: ${liquidated.map(position => position.symbol).join(', ')}`,
+        );
+      }
+
+      await this.settleFunding();
+    } finally {
+      this.matching = false;
+    }
+  }
+
+  private async settleFunding(): Promise<void> {
+    for (const symbol of this.account.getFundingDue()) {
+      try {
+        const rate = await this.getCurrentFundingRate(symbol);
+        const payment = this.account.applyFunding(symbol, rate);
+
+        this.logger.log(`Paper funding ${symbol}: rate ${rate}, payment ${formatNumber(payment)}`);
+        this.schedulePersist();
+      } catch (error: any) {
+        // Retried on the next matching run
+        this.logger.debug(`Funding for ${symbol} not settled: ${error.message}`);
+      }
+    }
+  }
+
+  private assertPriceSource(): void {
+    const source = this.config.priceSource;
+
+    if (source === 'paper' || !this.exchangeFactory.isAvailable(source, 'perpetual')) {
+      throw new Error(`Paper price source ${source} is not available`);
+    }
+  }
+
+  // ==================== Persistence ====================
+
+  private loadState(): PaperAccountState {
+    const initial = PaperAccount.createState(this.config.initialBalance);
+    const state = this.stateFile.load();
+
+    if (state) {
+      this.logger.log(`Loaded paper account from ${this.stateFile.file}`);
+      return { ...initial, ...state };
+    }
+
+    this.logger.log(
+      `Starting paper account with ${this.config.initialBalance} ${this.config.asset}`,
+    );
+    return initial;
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimeout) return;
+
+    this.persistTimeout = setTimeout(() => {
+      this.persistTimeout = undefined;
+      void this.stateFile.save(this.account.state);
+    }, PERSIST_DEBOUNCE_MS);
+  }
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Subscription } from 'rxjs';
+import { BaseUserDataStreamService } from '../../../common/websocket/base-user-data-stream.service';
+import { UserDataEventBus } from '../../../common/services/user-data-event-bus.service';
+import { ExchangeName, OrderSide } from '../../../common/types/exchange.types';
+import { PaperAccountEvent } from '../types';
+import { toStandardOrder } from './paper-account';
+import { PaperEngineService } from './paper-engine.service';
+
+/**
+ * Paper account updates on the user data bus, so simulated fills reach the same consumers
+ * (the /ws/user gateway, journals) as real ones
+ */
+@Injectable()
+export class PaperUserDataStreamService extends BaseUserDataStreamService {
+  protected readonly exchange: ExchangeName = 'paper';
+  private subscription?: Subscription;
+
+  constructor(
+    configService: ConfigService,
+    eventBus: UserDataEventBus,
+    private readonly engine: PaperEngineService,
+  ) {
+    super(configService, eventBus);
+  }
+
+  async start(): Promise<boolean> {
+    this.subscription ??= this.engine.getEvents().subscribe(event => this.handleEvent(event));
+    return true;
+  }
+
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = undefined;
+  }
+
+  isConnected(): boolean {
+    return !!this.subscription;
+  }
+
+  private handleEvent(event: PaperAccountEvent): void {
+    switch (event.type) {
+      case 'order':
+        this.publishOrder(toStandardOrder(event.order));
+        break;
+
+      case 'trade':
+        this.publishTrade({
+          id: event.trade.id,
+          orderId: event.trade.orderId || '',
+          symbol: event.trade.symbol || '',
+          side: event.trade.side as OrderSide,
+          price: event.trade.price,
+          quantity: event.trade.quantity,
+          fee: event.trade.commission,
+          feeAsset: event.trade.commissionAsset,
+          timestamp: event.trade.time,
+        });
+        break;
+
+      case 'position':
+        this.publishPosition(this.engine.describePosition(event.position));
+        break;
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  IncomeHistory,
+  TransactionHistory,
+} from '../../../common/interfaces/perpetual-balance.interface';
+import { IPerpetualMarketService } from '../../../common/interfaces/perpetual-market.interface';
+import {
+  ApiResponse,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  PositionSide,
+  TimeInForce,
+} from '../../../common/types/exchange.types';
+
+// Paper account settings (fees as fractions of notional)
+export interface PaperAccountOptions {
+  asset: string;
+  makerFee: number;
+  takerFee: number;
+  slippageBps: number;
+  defaultLeverage: number;
+  maxLeverage: number;
+  maintenanceMarginRate: number;
+  fundingIntervalHours: number;
+}
+
+// Top of book used to match an order; `last` doubles as the mark price
+export interface PaperQuote {
+  bid: number;
+  ask: number;
+  last: number;
+}
+
+export interface PaperOrderRequest {
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+  timeInForce?: TimeInForce;
+  clientOrderId?: string;
+  reduceOnly?: boolean;
+  // Sized from the position when triggered (TP/SL that close whatever is left)
+  closePosition?: boolean;
+  positionSide?: PositionSide;
+}
+
+export interface PaperOrder {
+  orderId: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  status: OrderStatus;
+  price?: number;
+  stopPrice?: number;
+  quantity: number;
+  executedQuantity: number;
+  averagePrice: number;
+  timeInForce: TimeInForce;
+  reduceOnly: boolean;
+  closePosition: boolean;
+  positionSide: PositionSide;
+  // Stop/take-profit limit orders rest as limit orders once triggered
+  triggered: boolean;
+  timestamp: number;
+  updateTime: number;
+}
+
+export interface PaperPosition {
+  symbol: string;
+  // BOTH in one-way mode, LONG/SHORT in hedge mode
+  positionSide: PositionSide;
+  // Signed: positive long, negative short
+  size: number;
+  entryPrice: number;
+  realizedPnl: number;
+  updateTime: number;
+}
+
+export interface PaperPositionRisk {
+  position: PaperPosition;
+  markPrice: number;
+  unrealizedPnl: number;
+  notional: number;
+  leverage: number;
+  initialMargin: number;
+  maintenanceMargin: number;
+  liquidationPrice: number;
+}
+
+export interface PaperAccountSummary {
+  asset: string;
+  walletBalance: number;
+  unrealizedPnl: number;
+  marginBalance: number;
+  positionInitialMargin: number;
+  openOrderInitialMargin: number;
+  maintenanceMargin: number;
+  availableBalance: number;
+  positions: PaperPositionRisk[];
+}
+
+// Everything persisted between restarts
+export interface PaperAccountState {
+  walletBalance: number;
+  dualSidePosition: boolean;
+  leverage: Record<string, number>;
+  positions: PaperPosition[];
+  openOrders: PaperOrder[];
+  closedOrders: PaperOrder[];
+  trades: TransactionHistory[];
+  income: IncomeHistory[];
+  // Last funding settlement per position (symbol:positionSide)
+  fundingTimes: Record<string, number>;
+  nextId: number;
+}
+
+export type PaperAccountEvent =
+  | { type: 'order'; order: PaperOrder }
+  | { type: 'trade'; trade: TransactionHistory }
+  | { type: 'position'; position: PaperPosition };
+
+/**
+ * Account the paper trading/balance services run against: the live engine, or a backtest
+ * replaying history (which supplies its own clock and prices)
+ */
+export interface PaperVenue {
+  placeOrder(request: PaperOrderRequest): Promise<PaperOrder>;
+  cancelOrder(symbol: string, orderId?: string, clientOrderId?: string): PaperOrder;
+  cancelOrders(symbol?: string, conditionalOnly?: boolean): PaperOrder[];
+  scheduleCancelAll(timeoutMs: number): number | undefined;
+  getOpenOrders(symbol?: string): PaperOrder[];
+  findOrder(symbol: string, orderId: string): PaperOrder | undefined;
+  getLeverage(symbol: string): number;
+  setLeverage(symbol: string, leverage: number): void;
+  isDualSidePosition(): boolean;
+  setPositionMode(dualSidePosition: boolean): void;
+  getSummary(): Promise<PaperAccountSummary>;
+  getState(): Readonly<PaperAccountState>;
+  getQuote(symbol: string, side?: OrderSide, quantity?: number): Promise<PaperQuote>;
+  getFundingRate(symbol?: string): Promise<ApiResponse<any>>;
+  getFundingHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number,
+    limit?: number,
+  ): Promise<ApiResponse<any[]>>;
+}
+
+// Rounds order quantities and prices to the venue's lot and tick sizes
+export type PaperOrderFormatter = Pick<IPerpetualMarketService, 'formatQuantity' | 'formatPrice'>;
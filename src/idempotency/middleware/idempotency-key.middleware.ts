@@ -0,0 +1,40 @@
+import { BadRequestException, Injectable, NestMiddleware } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateApiKey, parseApiKeys } from '../../common/guards/api-key.guard';
+import { IdempotencyService } from '../services/idempotency.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Key the orders placed by the request on the Idempotency-Key header, scoped to the API key
+ * the request authenticates with
+ */
+@Injectable()
+export class IdempotencyKeyMiddleware implements NestMiddleware {
+  private readonly apiKeys: string[];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly idempotency: IdempotencyService,
+  ) {
+    this.apiKeys = parseApiKeys(this.configService.get<string>('API_KEY_ACCESS'));
+  }
+
+  use(req: Request, res: Response, next: NextFunction) {
+    const key = req.header(IDEMPOTENCY_KEY_HEADER)?.trim();
+    if (!key) {
+      return next();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    this.idempotency.runWithKey(key, next, authenticateApiKey(req, this.apiKeys));
+  }
+}
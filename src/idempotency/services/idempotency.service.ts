@@ -0,0 +1,303 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, randomUUID } from 'crypto';
+import {
+  ExchangeServiceFactory,
+  interceptTradingMethods,
+} from '../../common/factory/exchange.factory';
+import { IBaseTradingService, PlaceOrderParams } from '../../common/interfaces';
+import { ApiResponse, ExchangeName, Order } from '../../common/types/exchange.types';
+import { IdempotencyConfig } from '../../config/idempotency.config';
+import { generateClientOrderId, isUncertainFailure } from '../shared/client-order-id';
+
+// Placement methods taking a params object with an optional clientOrderId
+const IDEMPOTENT_OPERATIONS = ['placeOrder', 'placeMarketOrder', 'placeLimitOrder'];
+
+// Placement method taking a list of such params objects
+const BATCH_OPERATION = 'placeOrders';
+
+// Orders placed under one Idempotency-Key, numbered in placement order
+interface KeyContext {
+  // The key, scoped to the caller's API key
+  key: string;
+  sequence: number;
+}
+
+interface KeyedRequest {
+  fingerprint: string;
+  response: Promise<ApiResponse<Order>>;
+  expiresAt: number;
+}
+
+type OrderRequest = Pick<PlaceOrderParams, 'symbol' | 'clientOrderId'>;
+
+/**
+ * Makes order placement safe to retry.
+ *
+ * Every order gets a client order ID (generated when none is supplied). When placement fails
+ * in a way that leaves its outcome unknown (timeout, no response, gateway error), the exchange
+ * is asked for that client ID before retrying, so each request places at most one order.
+ *
+ * Requests with an Idempotency-Key derive their client IDs from the key and the API key they
+ * authenticate with, so callers reusing each other's keys never share an order: a repeated
+ * request replays the original response, or, once that is no longer cached (restart, expiry),
+ * finds the earlier order on the exchange instead of placing a new one.
+ */
+@Injectable()
+export class IdempotencyService implements OnModuleInit {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly config: IdempotencyConfig;
+  private readonly context = new AsyncLocalStorage<KeyContext>();
+  private readonly requests = new Map<string, KeyedRequest>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+  ) {
+    this.config = this.configService.get<IdempotencyConfig>('idempotency')!;
+  }
+
+  onModuleInit(): void {
+    this.exchangeFactory.addTradingDecorator((service, exchange) =>
+      interceptTradingMethods(
+        service,
+        [...IDEMPOTENT_OPERATIONS, BATCH_OPERATION],
+        (method, [params], call) =>
+          method === BATCH_OPERATION
+            ? this.placeOrders(exchange, service, params, call)
+            : this.placeOrder(exchange, service, method, params, call),
+      ),
+    );
+  }
+
+  /**
+   * Run `fn` with the orders it places keyed on `key` of the caller authenticated by `apiKey`
+   */
+  runWithKey<T>(key: string | undefined, fn: () => T, apiKey?: string): T {
+    if (!key) return fn();
+
+    // Only a digest of the API key goes into client order IDs and the replay cache
+    const scope = apiKey ? createHash('sha256').update(apiKey).digest('hex').slice(0, 16) : '';
+    return this.context.run({ key: scope ? `${scope}:${key}` : key, sequence: 0 }, fn);
+  }
+
+  private async placeOrder<T extends OrderRequest>(
+    exchange: ExchangeName,
+    service: IBaseTradingService,
+    method: string,
+    params: T,
+    call: (params: T) => Promise<ApiResponse<Order>>,
+  ): Promise<ApiResponse<Order>> {
+    const context = this.context.getStore();
+    const key = context ? `${exchange}:${context.key}:${context.sequence++}` : undefined;
+    const request = this.withClientOrderId(exchange, params, key);
+
+    if (!key) {
+      return this.placeWithRecovery(exchange, service, request, call);
+    }
+
+    this.pruneExpired();
+    const fingerprint = JSON.stringify({ method, ...request });
+    const previous = this.requests.get(key);
+
+    if (previous) {
+      return previous.fingerprint === fingerprint
+        ? previous.response
+        : {
+            success: false,
+            error: 'Idempotency-Key was already used with different order parameters',
+            timestamp: Date.now(),
+          };
+    }
+
+    const response = this.placeKeyed(exchange, service, request, call);
+    this.requests.set(key, {
+      fingerprint,
+      response,
+      expiresAt: Date.now() + this.config.keyTtlMs,
+    });
+
+    // Failed requests may be retried under the same key (the exchange check runs again)
+    void response.then(result => {
+      if (!result.success) this.requests.delete(key);
+    });
+
+    return response;
+  }
+
+  /**
+   * Place a batch with a client ID on every order. Orders whose outcome is unknown are then
+   * resolved one by one like single placements. Under an Idempotency-Key the orders an earlier
+   * attempt already placed are returned instead of being sent again.
+   */
+  private async placeOrders(
+    exchange: ExchangeName,
+    service: IBaseTradingService,
+    orders: PlaceOrderParams[],
+    call: (orders: PlaceOrderParams[]) => Promise<ApiResponse<ApiResponse<Order>[]>>,
+  ): Promise<ApiResponse<ApiResponse<Order>[]>> {
+    const context = this.context.getStore();
+    const requests = orders.map(params =>
+      this.withClientOrderId(
+        exchange,
+        params,
+        context ? `${exchange}:${context.key}:${context.sequence++}` : undefined,
+      ),
+    );
+
+    const existing = context
+      ? await Promise.all(requests.map(request => this.findOrder(service, request)))
+      : [];
+    const failedLookup = existing.find(result => !result.success);
+    if (failedLookup) {
+      return {
+        success: false,
+        error: `Could not check for earlier orders with this Idempotency-Key: ${failedLookup.error}`,
+        timestamp: Date.now(),
+      };
+    }
+
+    const pending = requests.filter((_, i) => !existing[i]?.data);
+    const response = pending.length
+      ? await this.attempt(pending, call)
+      : { success: true, data: [], timestamp: Date.now() };
+    if (!response.success) {
+      return response;
+    }
+
+    const placed = [...response.data!];
+    const results = requests.map((request, i): Promise<ApiResponse<Order>> | ApiResponse<Order> =>
+      existing[i]?.data
+        ? { ...existing[i], data: existing[i].data! }
+        : this.recover(exchange, service, request, placed.shift()!, params =>
+            service.placeOrder(params),
+          ),
+    );
+
+    return { ...response, data: await Promise.all(results) };
+  }
+
+  /**
+   * Place a keyed order unless an earlier attempt already placed it
+   */
+  private async placeKeyed<T extends OrderRequest>(
+    exchange: ExchangeName,
+    service: IBaseTradingService,
+    request: T,
+    call: (params: T) => Promise<ApiResponse<Order>>,
+  ): Promise<ApiResponse<Order>> {
+    const existing = await this.findOrder(service, request);
+
+    if (!existing.success) {
+      return {
+        success: false,
+        error: `Could not check for an earlier order with this Idempotency-Key: ${existing.error}`,
+        timestamp: Date.now(),
+      };
+    }
+    if (existing.data) {
+      this.logger.log(`Idempotency-Key matches ${exchange} order ${request.clientOrderId}`);
+      return { ...existing, data: existing.data };
+    }
+
+    return this.placeWithRecovery(exchange, service, request, call);
+  }
+
+  /**
+   * Place an order, resolving failures with an unknown outcome by looking the order up by its
+   * client ID and retrying (with the same client ID) only when it does not exist
+   */
+  private async placeWithRecovery<T extends OrderRequest>(
+    exchange: ExchangeName,
+    service: IBaseTradingService,
+    request: T,
+    call: (params: T) => Promise<ApiResponse<Order>>,
+  ): Promise<ApiResponse<Order>> {
+    return this.recover(exchange, service, request, await this.attempt(request, call), call);
+  }
+
+  /**
+   * Resolve the response of a placement attempt (see placeWithRecovery)
+   */
+  private async recover<T extends OrderRequest>(
+    exchange: ExchangeName,
+    service: IBaseTradingService,
+    request: T,
+    response: ApiResponse<Order>,
+    call: (params: T) => Promise<ApiResponse<Order>>,
+  ): Promise<ApiResponse<Order>> {
+    for (let retry = 0; !response.success && isUncertainFailure(response.error); retry++) {
+      this.logger.warn(
+        `Outcome of ${exchange} order ${request.clientOrderId} unknown (${response.error}), ` +
+          'checking the exchange',
+      );
+      await new Promise(resolve => setTimeout(resolve, this.config.recheckDelayMs));
+
+      const existing = await this.findOrder(service, request);
+      if (!existing.success) {
+        return {
+          ...response,
+          error:
+            `Order ${request.clientOrderId} status unknown: ${response.error} ` +
+            `(lookup failed: ${existing.error})`,
+        };
+      }
+      if (existing.data) {
+        return { ...existing, data: existing.data };
+      }
+      if (retry >= this.config.maxRetries) {
+        break;
+      }
+
+      this.logger.warn(`Order ${request.clientOrderId} not found on ${exchange}, retrying`);
+      response = await this.attempt(request, call);
+    }
+
+    return response;
+  }
+
+  private async attempt<T, R>(
+    request: T,
+    call: (params: T) => Promise<ApiResponse<R>>,
+  ): Promise<ApiResponse<R>> {
+    try {
+      return await call(request);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to place order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  private withClientOrderId<T extends OrderRequest>(
+    exchange: ExchangeName,
+    params: T,
+    key: string | undefined,
+  ): T {
+    return {
+      ...params,
+      clientOrderId: params.clientOrderId || generateClientOrderId(exchange, key ?? randomUUID()),
+    };
+  }
+
+  private async findOrder(
+    service: IBaseTradingService,
+    request: OrderRequest,
+  ): Promise<ApiResponse<Order | null>> {
+    try {
+      return await service.getOrderByClientId(request.symbol, request.clientOrderId!);
+    } catch (error: any) {
+      return { success: false, error: error.message, timestamp: Date.now() };
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [key, request] of this.requests) {
+      if (request.expiresAt <= now) this.requests.delete(key);
+    }
+  }
+}
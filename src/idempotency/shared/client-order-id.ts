@@ -0,0 +1,37 @@
+import { createHash } from 'crypto';
+import { ExchangeName } from '../../common/types/exchange.types';
+
+// Failures after which the order may or may not exist on the exchange: no response, timeouts,
+// dropped connections, gateway errors, and duplicate client IDs (an earlier attempt landed)
+const UNCERTAIN_FAILURES = [
+  /no response/i,
+  /time-?out|timed out/i,
+  /ECONNRESET|ECONNABORTED|ECONNREFUSED|ETIMEDOUT|EPIPE|EAI_AGAIN|socket hang up/i,
+  /network error/i,
+  /status code 5\d\d/i,
+  /bad gateway|service unavailable|internal server error/i,
+  /unknown (api )?error/i,
+  /duplicate/i,
+];
+
+/**
+ * Deterministic client order ID for `seed`, in a format the exchange accepts:
+ * a 128-bit hex cloid on Hyperliquid, 32 hex characters elsewhere (fits Binance/Aster's 36,
+ * OKX's 32 alphanumeric and Orderly's 36 character limits).
+ */
+export function generateClientOrderId(exchange: ExchangeName, seed: string): string {
+  const hash = createHash('sha256').update(`${exchange}:${seed}`).digest('hex').slice(0, 32);
+  return exchange === 'hyperliquid' ? `0x${hash}` : hash;
+}
+
+// Requests refused before reaching the order engine, even when worded like a network error
+const REJECTED_FAILURES = [/rate limit|too many requests|circuit open/i];
+
+/**
+ * Whether a failed placement may still have created the order
+ */
+export function isUncertainFailure(error?: string): boolean {
+  if (!error) return true;
+  if (REJECTED_FAILURES.some(pattern => pattern.test(error))) return false;
+  return UNCERTAIN_FAILURES.some(pattern => pattern.test(error));
+}
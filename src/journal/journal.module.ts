@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JournalConfig } from '../config/journal.config';
+import { JournalService } from './services/journal.service';
+import { JournalStore, MemoryJournalStore, createJournalStore } from './stores';
+
+@Module({
+  providers: [
+    {
+      provide: JournalStore,
+      useFactory: (configService: ConfigService) => {
+        const config = configService.get<JournalConfig>('journal')!;
+        return config.enabled ? createJournalStore(config) : new MemoryJournalStore();
+      },
+      inject: [ConfigService],
+    },
+    JournalService,
+  ],
+  exports: [JournalService],
+})
+export class JournalModule {}
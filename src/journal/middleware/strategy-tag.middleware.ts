@@ -0,0 +1,18 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { JournalService } from '../services/journal.service';
+
+export const STRATEGY_TAG_HEADER = 'X-Strategy-Tag';
+
+/**
+ * Journal orders placed by the request under the strategy named in the X-Strategy-Tag header
+ */
+@Injectable()
+export class StrategyTagMiddleware implements NestMiddleware {
+  constructor(private readonly journal: JournalService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    const strategy = req.header(STRATEGY_TAG_HEADER)?.trim();
+    this.journal.runWithStrategy(strategy || undefined, next);
+  }
+}
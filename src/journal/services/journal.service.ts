@@ -0,0 +1,237 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Subscription } from 'rxjs';
+import {
+  ExchangeServiceFactory,
+  interceptTradingMethods,
+} from '../../common/factory/exchange.factory';
+import { IBaseTradingService } from '../../common/interfaces';
+import { SymbolNormalizerService } from '../../common/services/symbol-normalizer.service';
+import { UserDataEventBus } from '../../common/services/user-data-event-bus.service';
+import { ApiResponse, ExchangeName, Trade, TradingType } from '../../common/types/exchange.types';
+import { JournalConfig } from '../../config/journal.config';
+import {
+  JOURNALED_OPERATIONS,
+  describeArgs,
+  describeOrder,
+  splitResponse,
+} from '../shared/journaled-operations';
+import { JournalStore } from '../stores';
+import { JournalFill, JournalOrder, JournalQuery } from '../types';
+
+const DEFAULT_QUERY_LIMIT = 500;
+const MAX_QUERY_LIMIT = 5000;
+
+/**
+ * Records every order placement, cancellation, amendment and failure made through the trading
+ * services, plus the fills reported by the user data streams.
+ *
+ * Trading services are wrapped where the exchange factory hands them out, so orders placed by
+ * the REST API and by in-process strategies are journaled alike. Calls made inside
+ * runWithStrategy() (or REST calls with an X-Strategy-Tag header) carry the strategy tag, and
+ * fills inherit the tag of the order they belong to.
+ */
+@Injectable()
+export class JournalService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JournalService.name);
+  private readonly config: JournalConfig;
+  private readonly context = new AsyncLocalStorage<{ strategy?: string }>();
+  private subscription?: Subscription;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly store: JournalStore,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly eventBus: UserDataEventBus,
+    private readonly symbolNormalizer: SymbolNormalizerService,
+  ) {
+    this.config = this.configService.get<JournalConfig>('journal')!;
+  }
+
+  onModuleInit(): void {
+    if (!this.config.enabled) return;
+
+    this.exchangeFactory.addTradingDecorator((service, exchange, tradingType) =>
+      this.journalTradingService(service, exchange, tradingType),
+    );
+    this.subscription = this.eventBus
+      .getEvents({ type: 'trade' })
+      .subscribe(event => void this.recordFill(event.exchange, event.data as Trade));
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.subscription?.unsubscribe();
+    await this.store.close();
+  }
+
+  /**
+   * Run `fn` with every order it places journaled under `strategy`
+   */
+  runWithStrategy<T>(strategy: string | undefined, fn: () => T): T {
+    return this.context.run({ strategy }, fn);
+  }
+
+  /**
+   * Strategy tag of the current call chain
+   */
+  getStrategy(): string | undefined {
+    return this.context.getStore()?.strategy;
+  }
+
+  /**
+   * Journaled orders, newest first
+   */
+  async getOrders(query: JournalQuery): Promise<ApiResponse<JournalOrder[]>> {
+    try {
+      return {
+        success: true,
+        data: await this.store.findOrders(this.normalizeQuery(query)),
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting journaled orders:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get journaled orders',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Journaled fills, newest first
+   */
+  async getFills(query: JournalQuery): Promise<ApiResponse<JournalFill[]>> {
+    try {
+      return {
+        success: true,
+        data: await this.store.findFills(this.normalizeQuery(query)),
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting journaled fills:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get journaled fills',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Journal the order operations of a trading service
+   */
+  private journalTradingService(
+    service: IBaseTradingService,
+    exchange: ExchangeName,
+    tradingType: TradingType,
+  ): IBaseTradingService {
+    return interceptTradingMethods(
+      service,
+      Object.keys(JOURNALED_OPERATIONS),
+      async (operation, args, call) => {
+        const params = describeArgs(JOURNALED_OPERATIONS[operation], args);
+        const strategy = this.getStrategy();
+        const record = (response: ApiResponse<any>) =>
+          this.recordResponse(exchange, tradingType, operation, params, strategy, response);
+
+        let response: ApiResponse<any>;
+        try {
+          response = await call(...args);
+        } catch (error: any) {
+          await record({ success: false, error: error.message, timestamp: Date.now() });
+          throw error;
+        }
+
+        await record(response);
+        return response;
+      },
+    );
+  }
+
+  /**
+   * Journal the orders an operation produced. Never fails the trading call.
+   */
+  private async recordResponse(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+    operation: string,
+    params: Record<string, any>,
+    strategy: string | undefined,
+    response: ApiResponse<any>,
+  ): Promise<void> {
+    try {
+      const base = {
+        timestamp: Date.now(),
+        exchange,
+        tradingType,
+        action: JOURNALED_OPERATIONS[operation].action,
+        strategy,
+      };
+
+      for (const split of splitResponse(operation, response, params)) {
+        const entryParams = split.params ?? params;
+        const parent = await this.store.addOrder({
+          ...base,
+          ...describeOrder(split.entry, entryParams),
+          operation,
+          params: entryParams,
+        });
+
+        for (const child of split.children) {
+          await this.store.addOrder({
+            ...base,
+            ...describeOrder(child.response, { symbol: entryParams.symbol }),
+            operation: child.operation,
+            parentId: parent.id,
+          });
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(`Error journaling ${exchange} ${operation}:`, error.message);
+    }
+  }
+
+  private async recordFill(exchange: ExchangeName, trade: Trade): Promise<void> {
+    try {
+      const [order] = await this.store.findOrders({ exchange, orderId: trade.orderId, limit: 1 });
+
+      await this.store.addFill({
+        timestamp: trade.timestamp,
+        exchange,
+        symbol: trade.symbol,
+        tradeId: trade.id,
+        orderId: trade.orderId,
+        side: trade.side,
+        price: trade.price,
+        quantity: trade.quantity,
+        fee: trade.fee,
+        feeAsset: trade.feeAsset,
+        strategy: order?.strategy,
+      });
+    } catch (error: any) {
+      this.logger.error(`Error journaling ${exchange} fill ${trade.id}:`, error.message);
+    }
+  }
+
+  /**
+   * Convert the symbol to the exchange format when the exchange is known, drop unset numeric
+   * filters (missing query params arrive as NaN) and bound the limit
+   */
+  private normalizeQuery(query: JournalQuery): JournalQuery {
+    const numeric = (value?: number) => (Number.isFinite(value) ? value : undefined);
+
+    return {
+      ...query,
+      symbol:
+        query.symbol && query.exchange
+          ? this.symbolNormalizer.toExchangeSymbol(query.symbol, query.exchange)
+          : query.symbol,
+      startTime: numeric(query.startTime),
+      endTime: numeric(query.endTime),
+      parentId: numeric(query.parentId),
+      limit: Math.min(numeric(query.limit) || DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT),
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { ApiResponse } from '../../common/types/exchange.types';
+import { JournalAction, NewJournalOrder } from '../types';
+
+export interface JournaledOperation {
+  action: JournalAction;
+  // Names of positional arguments (omitted when the method takes a single params object)
+  args?: string[];
+}
+
+/**
+ * Trading service methods that place, cancel or amend orders, and how to read their arguments
+ */
+export const JOURNALED_OPERATIONS: Record<string, JournaledOperation> = {
+  placeOrder: { action: 'place' },
+  placeMarketOrder: { action: 'place' },
+  placeLimitOrder: { action: 'place' },
+  placeOrders: { action: 'place', args: ['orders'] },
+  marketBuy: { action: 'place', args: ['symbol', 'quantity'] },
+  marketSell: { action: 'place', args: ['symbol', 'quantity'] },
+  limitBuy: { action: 'place', args: ['symbol', 'quantity', 'price'] },
+  limitSell: { action: 'place', args: ['symbol', 'quantity', 'price'] },
+  openLong: { action: 'place', args: ['symbol', 'quantity'] },
+  openShort: { action: 'place', args: ['symbol', 'quantity'] },
+  closeLong: { action: 'place', args: ['symbol', 'quantity'] },
+  closeShort: { action: 'place', args: ['symbol', 'quantity'] },
+  closePosition: { action: 'place', args: ['symbol', 'positionSide'] },
+  closeAllPositions: { action: 'place', args: [] },
+  setStopLoss: { action: 'place' },
+  setTakeProfit: { action: 'place' },
+  setTrailingStop: { action: 'place' },
+  quickLong: {
+    action: 'place',
+    args: ['symbol', 'usdValue', 'stopLossPercent', 'takeProfitPercent', 'leverage'],
+  },
+  quickShort: {
+    action: 'place',
+    args: ['symbol', 'usdValue', 'stopLossPercent', 'takeProfitPercent', 'leverage'],
+  },
+  cancelOrder: { action: 'cancel' },
+  cancelOrders: { action: 'cancel', args: ['orders'] },
+  cancelAllOrders: { action: 'cancel', args: ['symbol'] },
+  cancelAllConditionalOrders: { action: 'cancel', args: ['symbol'] },
+  modifyOrder: { action: 'amend' },
+};
+
+// Operations returning { mainOrder, stopLoss, takeProfit } responses
+const BRACKET_OPERATIONS = ['quickLong', 'quickShort'];
+
+// Operations taking a list of orders and returning one response per order
+const BATCH_OPERATIONS = ['placeOrders', 'cancelOrders'];
+
+type JournalOrderFields = Pick<
+  NewJournalOrder,
+  | 'symbol'
+  | 'orderId'
+  | 'clientOrderId'
+  | 'side'
+  | 'type'
+  | 'status'
+  | 'price'
+  | 'quantity'
+  | 'success'
+  | 'error'
+>;
+
+/**
+ * Arguments of a journaled call as a params object
+ */
+export function describeArgs(operation: JournaledOperation, args: any[]): Record<string, any> {
+  if (!operation.args) {
+    return { ...args[0] };
+  }
+
+  const params: Record<string, any> = {};
+  operation.args.forEach((name, i) => {
+    if (args[i] !== undefined) params[name] = args[i];
+  });
+  return params;
+}
+
+/**
+ * Journal fields of one order response. Falls back to the request params for whatever the
+ * exchange does not echo back.
+ */
+export function describeOrder(
+  response: ApiResponse<any> | undefined,
+  params: Record<string, any>,
+): JournalOrderFields {
+  const order = isOrder(response?.data) ? response!.data : {};
+
+  return {
+    symbol: order.symbol ?? params.symbol,
+    orderId: order.orderId?.toString() ?? params.orderId?.toString(),
+    clientOrderId: order.clientOrderId ?? params.clientOrderId,
+    side: order.side ?? params.side,
+    type: order.type ?? params.type,
+    status: order.status,
+    price: order.price?.toString() ?? params.price ?? params.stopPrice ?? params.takeProfitPrice,
+    quantity: order.quantity?.toString() ?? params.quantity,
+    success: !!response?.success,
+    error: response?.success ? undefined : response?.error || 'Unknown error',
+  };
+}
+
+/**
+ * Split a journaled response into the order entries it produced.
+ * Bracket operations yield the entry order followed by its protective children; batch
+ * operations yield one entry per order, carrying that order's own params.
+ */
+export function splitResponse(
+  operation: string,
+  response: ApiResponse<any>,
+  params: Record<string, any> = {},
+): {
+  entry: ApiResponse<any>;
+  params?: Record<string, any>;
+  children: { operation: string; response: ApiResponse<any> }[];
+}[] {
+  if (BATCH_OPERATIONS.includes(operation)) {
+    const orders: Record<string, any>[] = params.orders ?? [];
+    return orders.map((order, i) => ({
+      // A batch that failed as a whole fails each of its orders
+      entry: response.success ? response.data?.[i] : response,
+      params: order,
+      children: [],
+    }));
+  }
+
+  if (response.success && BRACKET_OPERATIONS.includes(operation) && response.data?.mainOrder) {
+    const { mainOrder, stopLoss, takeProfit } = response.data;
+    return [
+      {
+        entry: mainOrder,
+        children: [
+          { operation: 'setStopLoss', response: stopLoss },
+          { operation: 'setTakeProfit', response: takeProfit },
+        ].filter(child => !!child.response),
+      },
+    ];
+  }
+
+  if (response.success && Array.isArray(response.data)) {
+    return response.data.map(order => ({ entry: { ...response, data: order }, children: [] }));
+  }
+
+  return [{ entry: response, children: [] }];
+}
+
+function isOrder(data: any): boolean {
+  return !!data && typeof data === 'object' && !Array.isArray(data) && 'orderId' in data;
+}
@@ -0,0 +1,22 @@
+import { JournalConfig } from '../../config/journal.config';
+import { JournalStore } from './journal.store';
+import { MemoryJournalStore } from './memory-journal.store';
+import { SqliteJournalStore } from './sqlite-journal.store';
+
+export * from './journal.store';
+export * from './memory-journal.store';
+export * from './sqlite-journal.store';
+
+/**
+ * Built-in store for the configured driver
+ */
+export function createJournalStore(config: JournalConfig): JournalStore {
+  switch (config.driver) {
+    case 'sqlite':
+      return new SqliteJournalStore(config.file);
+    case 'memory':
+      return new MemoryJournalStore();
+    default:
+      throw new Error(`Unknown journal driver: ${config.driver}`);
+  }
+}
@@ -0,0 +1,25 @@
+import { JournalFill, JournalOrder, JournalQuery, NewJournalFill, NewJournalOrder } from '../types';
+
+/**
+ * Storage backend for the order and fill journal.
+ *
+ * Also the injection token: provide a different implementation for JournalStore to keep the
+ * journal somewhere other than the built-in SQLite and in-memory stores.
+ */
+export abstract class JournalStore {
+  /**
+   * Append an order entry and return it with its journal id
+   */
+  abstract addOrder(order: NewJournalOrder): Promise<JournalOrder>;
+
+  /**
+   * Append a fill. Returns undefined when the fill was already journaled.
+   */
+  abstract addFill(fill: NewJournalFill): Promise<JournalFill | undefined>;
+
+  abstract findOrders(query: JournalQuery): Promise<JournalOrder[]>;
+
+  abstract findFills(query: JournalQuery): Promise<JournalFill[]>;
+
+  abstract close(): Promise<void>;
+}
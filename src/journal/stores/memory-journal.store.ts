@@ -0,0 +1,59 @@
+import { JournalFill, JournalOrder, JournalQuery, NewJournalFill, NewJournalOrder } from '../types';
+import { JournalStore } from './journal.store';
+
+/**
+ * Journal kept in process memory (lost on restart)
+ */
+export class MemoryJournalStore extends JournalStore {
+  private readonly orders: JournalOrder[] = [];
+  private readonly fills: JournalFill[] = [];
+
+  async addOrder(order: NewJournalOrder): Promise<JournalOrder> {
+    const entry = { ...order, id: this.orders.length + 1 };
+    this.orders.push(entry);
+    return entry;
+  }
+
+  async addFill(fill: NewJournalFill): Promise<JournalFill | undefined> {
+    if (this.fills.some(f => f.exchange === fill.exchange && f.tradeId === fill.tradeId)) {
+      return undefined;
+    }
+
+    const entry = { ...fill, id: this.fills.length + 1 };
+    this.fills.push(entry);
+    return entry;
+  }
+
+  async findOrders(query: JournalQuery): Promise<JournalOrder[]> {
+    return this.select(
+      this.orders.filter(
+        order => query.parentId === undefined || order.parentId === query.parentId,
+      ),
+      query,
+    );
+  }
+
+  async findFills(query: JournalQuery): Promise<JournalFill[]> {
+    return this.select(this.fills, query);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  private select<T extends JournalOrder | JournalFill>(records: T[], query: JournalQuery): T[] {
+    const matches = records
+      .filter(
+        record =>
+          (!query.exchange || record.exchange === query.exchange) &&
+          (!query.symbol || record.symbol === query.symbol) &&
+          (!query.strategy || record.strategy === query.strategy) &&
+          (!query.orderId || record.orderId === query.orderId) &&
+          (query.startTime === undefined || record.timestamp >= query.startTime) &&
+          (query.endTime === undefined || record.timestamp <= query.endTime),
+      )
+      .sort((a, b) => b.timestamp - a.timestamp || b.id - a.id);
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+}
@@ -0,0 +1,197 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { JournalFill, JournalOrder, JournalQuery, NewJournalFill, NewJournalOrder } from '../types';
+import { JournalStore } from './journal.store';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS orders (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    exchange TEXT NOT NULL,
+    trading_type TEXT NOT NULL,
+    action TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    symbol TEXT,
+    order_id TEXT,
+    client_order_id TEXT,
+    side TEXT,
+    type TEXT,
+    status TEXT,
+    price TEXT,
+    quantity TEXT,
+    parent_id INTEGER REFERENCES orders (id),
+    strategy TEXT,
+    success INTEGER NOT NULL,
+    error TEXT,
+    params TEXT
+  );
+  CREATE INDEX IF NOT EXISTS orders_exchange_symbol ON orders (exchange, symbol, timestamp);
+  CREATE INDEX IF NOT EXISTS orders_order_id ON orders (exchange, order_id);
+  CREATE INDEX IF NOT EXISTS orders_strategy ON orders (strategy, timestamp);
+  CREATE INDEX IF NOT EXISTS orders_parent_id ON orders (parent_id);
+
+  CREATE TABLE IF NOT EXISTS fills (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    exchange TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    trade_id TEXT NOT NULL,
+    order_id TEXT NOT NULL,
+    side TEXT NOT NULL,
+    price TEXT NOT NULL,
+    quantity TEXT NOT NULL,
+    fee TEXT NOT NULL,
+    fee_asset TEXT NOT NULL,
+    strategy TEXT,
+    UNIQUE (exchange, trade_id)
+  );
+  CREATE INDEX IF NOT EXISTS fills_exchange_symbol ON fills (exchange, symbol, timestamp);
+  CREATE INDEX IF NOT EXISTS fills_order_id ON fills (exchange, order_id);
+  CREATE INDEX IF NOT EXISTS fills_strategy ON fills (strategy, timestamp);
+`;
+
+// Query filters and the columns they apply to
+const FILTERS: { key: keyof JournalQuery; sql: string }[] = [
+  { key: 'exchange', sql: 'exchange = ?' },
+  { key: 'symbol', sql: 'symbol = ?' },
+  { key: 'strategy', sql: 'strategy = ?' },
+  { key: 'orderId', sql: 'order_id = ?' },
+  { key: 'startTime', sql: 'timestamp >= ?' },
+  { key: 'endTime', sql: 'timestamp <= ?' },
+];
+
+/**
+ * Journal persisted in a SQLite database file
+ */
+export class SqliteJournalStore extends JournalStore {
+  private readonly db: Database.Database;
+
+  constructor(file: string) {
+    super();
+    if (file !== ':memory:') {
+      mkdirSync(dirname(file), { recursive: true });
+    }
+
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  async addOrder(order: NewJournalOrder): Promise<JournalOrder> {
+    const result = this.db
+      .prepare(
+        `INSERT INTO orders (timestamp, exchange, trading_type, action, operation, symbol, order_id,
+          client_order_id, side, type, status, price, quantity, parent_id, strategy, success, error,
+          params)
+        VALUES (@timestamp, @exchange, @tradingType, @action, @operation, @symbol, @orderId,
+          @clientOrderId, @side, @type, @status, @price, @quantity, @parentId, @strategy, @success,
+          @error, @params)`,
+      )
+      .run({
+        symbol: null,
+        orderId: null,
+        clientOrderId: null,
+        side: null,
+        type: null,
+        status: null,
+        price: null,
+        quantity: null,
+        parentId: null,
+        strategy: null,
+        error: null,
+        ...this.withoutUndefined(order),
+        success: order.success ? 1 : 0,
+        params: order.params ? JSON.stringify(order.params) : null,
+      });
+
+    return { ...order, id: Number(result.lastInsertRowid) };
+  }
+
+  async addFill(fill: NewJournalFill): Promise<JournalFill | undefined> {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO fills (timestamp, exchange, symbol, trade_id, order_id, side, price,
+          quantity, fee, fee_asset, strategy)
+        VALUES (@timestamp, @exchange, @symbol, @tradeId, @orderId, @side, @price, @quantity, @fee,
+          @feeAsset, @strategy)`,
+      )
+      .run({ strategy: null, ...this.withoutUndefined(fill) });
+
+    return result.changes > 0 ? { ...fill, id: Number(result.lastInsertRowid) } : undefined;
+  }
+
+  async findOrders(query: JournalQuery): Promise<JournalOrder[]> {
+    const conditions =
+      query.parentId === undefined ? [] : [{ sql: 'parent_id = ?', value: query.parentId }];
+
+    return this.select('orders', query, conditions).map(row => ({
+      id: row.id,
+      timestamp: row.timestamp,
+      exchange: row.exchange,
+      tradingType: row.trading_type,
+      action: row.action,
+      operation: row.operation,
+      symbol: row.symbol ?? undefined,
+      orderId: row.order_id ?? undefined,
+      clientOrderId: row.client_order_id ?? undefined,
+      side: row.side ?? undefined,
+      type: row.type ?? undefined,
+      status: row.status ?? undefined,
+      price: row.price ?? undefined,
+      quantity: row.quantity ?? undefined,
+      parentId: row.parent_id ?? undefined,
+      strategy: row.strategy ?? undefined,
+      success: row.success === 1,
+      error: row.error ?? undefined,
+      params: row.params ? JSON.parse(row.params) : undefined,
+    }));
+  }
+
+  async findFills(query: JournalQuery): Promise<JournalFill[]> {
+    return this.select('fills', query).map(row => ({
+      id: row.id,
+      timestamp: row.timestamp,
+      exchange: row.exchange,
+      symbol: row.symbol,
+      tradeId: row.trade_id,
+      orderId: row.order_id,
+      side: row.side,
+      price: row.price,
+      quantity: row.quantity,
+      fee: row.fee,
+      feeAsset: row.fee_asset,
+      strategy: row.strategy ?? undefined,
+    }));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private select(
+    table: 'orders' | 'fills',
+    query: JournalQuery,
+    conditions: { sql: string; value: any }[] = [],
+  ): any[] {
+    FILTERS.forEach(({ key, sql }) => {
+      if (query[key] !== undefined && query[key] !== '') {
+        conditions.push({ sql, value: query[key] });
+      }
+    });
+
+    const where = conditions.length ? `WHERE ${conditions.map(c => c.sql).join(' AND ')}` : '';
+    const limit = query.limit ? `LIMIT ${Math.floor(query.limit)}` : '';
+
+    return this.db
+      .prepare(`SELECT * FROM ${table} ${where} ORDER BY timestamp DESC, id DESC ${limit}`)
+      .all(...conditions.map(c => c.value));
+  }
+
+  // better-sqlite3 rejects undefined bindings
+  private withoutUndefined<T extends object>(record: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(record).filter(([, value]) => value !== undefined),
+    ) as Partial<T>;
+  }
+}
@@ -0,0 +1,68 @@
+import { ExchangeName, TradingType } from '../../common/types/exchange.types';
+
+export type JournalAction = 'place' | 'cancel' | 'amend';
+
+/**
+ * One order placement, cancellation or amendment, successful or not
+ */
+export interface JournalOrder {
+  id: number;
+  timestamp: number;
+  exchange: ExchangeName;
+  tradingType: TradingType;
+  action: JournalAction;
+  // Trading service method that produced the entry (placeLimitOrder, quickLong, setStopLoss...)
+  operation: string;
+  symbol?: string;
+  orderId?: string;
+  clientOrderId?: string;
+  side?: string;
+  type?: string;
+  status?: string;
+  price?: string;
+  quantity?: string;
+  // Journal id of the entry order this one protects (quickLong/quickShort stop loss, take profit)
+  parentId?: number;
+  strategy?: string;
+  success: boolean;
+  error?: string;
+  // Arguments the operation was called with
+  params?: Record<string, any>;
+}
+
+/**
+ * One execution reported by a user data stream
+ */
+export interface JournalFill {
+  id: number;
+  timestamp: number;
+  exchange: ExchangeName;
+  symbol: string;
+  tradeId: string;
+  orderId: string;
+  side: string;
+  price: string;
+  quantity: string;
+  fee: string;
+  feeAsset: string;
+  // Inherited from the journaled order that produced the fill
+  strategy?: string;
+}
+
+export type NewJournalOrder = Omit<JournalOrder, 'id'>;
+
+export type NewJournalFill = Omit<JournalFill, 'id'>;
+
+/**
+ * Filters for journal queries. Results are newest first.
+ */
+export interface JournalQuery {
+  exchange?: ExchangeName;
+  symbol?: string;
+  startTime?: number;
+  endTime?: number;
+  strategy?: string;
+  orderId?: string;
+  parentId?: number;
+  limit?: number;
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { LadderService } from './services/ladder.service';
+
+@Module({
+  providers: [LadderService],
+  exports: [LadderService],
+})
+export class LaddersModule {}
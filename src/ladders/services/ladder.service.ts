@@ -0,0 +1,454 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
+import { IBaseTradingService, IPerpetualMarketService } from '../../common/interfaces';
+import {
+  ApiResponse,
+  ExchangeName,
+  Order,
+  OrderStatus,
+  OrderType,
+} from '../../common/types/exchange.types';
+import { JsonStateFile } from '../../common/state';
+import { LadderConfig } from '../../config/ladder.config';
+import { generateClientOrderId } from '../../idempotency/shared/client-order-id';
+import { getLadderPrices, getLadderWeights, splitByWeights } from '../shared/ladder-plan';
+import { Ladder, LadderLevel, LadderRequest, LadderShape } from '../types';
+
+// Ladders without open orders kept in the state file
+const MAX_CLOSED_LADDERS = 200;
+
+const CLOSED_ORDER_STATUSES = [OrderStatus.CANCELED, OrderStatus.REJECTED, OrderStatus.EXPIRED];
+
+// Prices and relative sizes of a ladder's levels
+interface LadderPlan {
+  prices: string[];
+  weights: number[];
+}
+
+/**
+ * Scaled (ladder) orders: a group of limit orders spread over a price range.
+ *
+ * Each level is rounded with the exchange's formatPrice/formatQuantity and all levels are sent
+ * together. The ladder ID cancels the orders still resting, or amends the ladder: its open orders
+ * are cancelled and what they had left is re-laddered over the new shape.
+ */
+@Injectable()
+export class LadderService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(LadderService.name);
+  private readonly config: LadderConfig;
+  private readonly ladders = new Map<string, Ladder>();
+  private readonly stateFile: JsonStateFile<Ladder[]>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+  ) {
+    this.config = this.configService.get<LadderConfig>('ladder')!;
+    this.stateFile = new JsonStateFile(this.config.stateFile, 'ladders', this.logger);
+  }
+
+  onModuleInit() {
+    for (const ladder of this.loadState()) {
+      this.ladders.set(ladder.id, ladder);
+    }
+  }
+
+  onModuleDestroy() {
+    this.stateFile.saveSync(this.snapshot());
+  }
+
+  /**
+   * Place a ladder of limit orders
+   */
+  async placeLadder(request: LadderRequest): Promise<ApiResponse<Ladder>> {
+    try {
+      if ((request.quantity === undefined) === (request.usdValue === undefined)) {
+        throw new Error('Give either quantity or usdValue');
+      }
+      if (!this.exchangeFactory.isAvailable(request.exchange, 'perpetual')) {
+        throw new Error(`Exchange ${request.exchange} with trading type perpetual not registered`);
+      }
+
+      const now = Date.now();
+      const ladder: Ladder = {
+        id: randomUUID(),
+        exchange: request.exchange,
+        symbol: request.symbol,
+        side: request.side,
+        priceFrom: request.priceFrom,
+        priceTo: request.priceTo,
+        levelCount: request.levels,
+        distribution: request.distribution ?? 'linear',
+        sizeScale: request.sizeScale,
+        weights: request.weights,
+        timeInForce: request.timeInForce,
+        reduceOnly: request.reduceOnly,
+        revision: 0,
+        levels: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const plan = await this.planLadder(ladder);
+      const levels = await this.sizeLevels(ladder, plan, {
+        quantity: request.quantity !== undefined ? parseFloat(request.quantity) : undefined,
+        usdValue: request.usdValue,
+      });
+      await this.placeLevels(ladder, levels);
+
+      if (!levels.some(level => level.status !== 'failed')) {
+        throw new Error(`No ladder orders placed: ${levels[0].error}`);
+      }
+
+      this.ladders.set(ladder.id, ladder);
+      await this.persist();
+      this.logger.log(
+        `Placed ladder ${ladder.id}: ${ladder.side} ${levels.length} orders ${ladder.symbol} ` +
+          `${ladder.priceFrom}-${ladder.priceTo} on ${ladder.exchange}`,
+      );
+
+      return { success: true, data: ladder, timestamp: Date.now() };
+    } catch (error: any) {
+      this.logger.error('Error placing ladder:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to place ladder',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * A ladder with the current state of its orders
+   */
+  async getLadder(id: string): Promise<ApiResponse<Ladder>> {
+    try {
+      const ladder = this.findLadder(id);
+      await this.refresh(ladder, await this.getTradingService(ladder.exchange));
+      await this.persist();
+
+      return { success: true, data: ladder, timestamp: Date.now() };
+    } catch (error: any) {
+      this.logger.error('Error getting ladder:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to get ladder',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Cancel the ladder's resting orders. Filled quantity stays.
+   */
+  async cancelLadder(id: string): Promise<ApiResponse<Ladder>> {
+    try {
+      const ladder = this.findLadder(id);
+      const trading = await this.getTradingService(ladder.exchange);
+
+      await this.refresh(ladder, trading);
+      await this.cancelLevels(ladder, trading);
+      await this.persist();
+      this.logger.log(`Cancelled ladder ${id}`);
+
+      return { success: true, data: ladder, timestamp: Date.now() };
+    } catch (error: any) {
+      this.logger.error('Error cancelling ladder:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel ladder',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Re-ladder what the open orders have left over a new range, level count or distribution
+   */
+  async amendLadder(id: string, changes: Partial<LadderShape>): Promise<ApiResponse<Ladder>> {
+    try {
+      const ladder = this.findLadder(id);
+      const trading = await this.getTradingService(ladder.exchange);
+      const amended: Ladder = {
+        ...ladder,
+        priceFrom: changes.priceFrom ?? ladder.priceFrom,
+        priceTo: changes.priceTo ?? ladder.priceTo,
+        levelCount: changes.levels ?? ladder.levelCount,
+        distribution: changes.distribution ?? ladder.distribution,
+        sizeScale: changes.sizeScale ?? ladder.sizeScale,
+        weights: changes.weights ?? ladder.weights,
+        revision: ladder.revision + 1,
+      };
+      if (changes.distribution && changes.distribution !== 'custom' && !changes.weights) {
+        amended.weights = undefined;
+      }
+
+      // Size the new levels before anything is cancelled, so a shape that does not fit fails
+      // with the ladder untouched
+      await this.refresh(ladder, trading);
+      const plan = await this.planLadder(amended);
+      const expected = this.getRemaining(ladder.levels.filter(level => level.status === 'open'));
+      if (!(expected > 0)) {
+        throw new Error(`Ladder ${id} has no open orders`);
+      }
+      await this.sizeLevels(amended, plan, { quantity: expected });
+
+      const remaining = await this.cancelLevels(ladder, trading);
+      Object.assign(ladder, { ...amended, levels: ladder.levels });
+
+      if (remaining > 0) {
+        await this.placeLevels(
+          ladder,
+          await this.sizeLevels(ladder, plan, { quantity: remaining }),
+        );
+      }
+      await this.persist();
+      this.logger.log(
+        `Amended ladder ${id}: ${remaining} re-laddered ${ladder.priceFrom}-${ladder.priceTo}`,
+      );
+
+      return { success: true, data: ladder, timestamp: Date.now() };
+    } catch (error: any) {
+      this.logger.error('Error amending ladder:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to amend ladder',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  // ==================== Planning ====================
+
+  /**
+   * Rounded prices and weights of the ladder's current shape
+   */
+  private async planLadder(ladder: Ladder): Promise<LadderPlan> {
+    const from = parseFloat(ladder.priceFrom);
+    const to = parseFloat(ladder.priceTo);
+    const levels = ladder.levelCount;
+
+    if (!(from > 0) || !(to > 0) || from === to) {
+      throw new Error(`Invalid price range: ${ladder.priceFrom}-${ladder.priceTo}`);
+    }
+    if (!Number.isInteger(levels) || levels < 2 || levels > this.config.maxLevels) {
+      throw new Error(`levels must be between 2 and ${this.config.maxLevels}`);
+    }
+
+    const weights = getLadderWeights(ladder.distribution, levels, ladder.sizeScale, ladder.weights);
+    const market = await this.getMarketService(ladder.exchange);
+    const prices = await Promise.all(
+      getLadderPrices(from, to, levels).map(price =>
+        market.formatPrice(ladder.symbol, price.toString()),
+      ),
+    );
+
+    if (new Set(prices).size !== prices.length) {
+      throw new Error(
+        `Price range too narrow for ${levels} levels at the ${ladder.symbol} tick size`,
+      );
+    }
+    return { prices, weights };
+  }
+
+  /**
+   * Orders for the plan, splitting a base quantity or a USD value. Levels weighted 0 get none.
+   */
+  private async sizeLevels(
+    ladder: Ladder,
+    plan: LadderPlan,
+    amount: { quantity?: number; usdValue?: number },
+  ): Promise<LadderLevel[]> {
+    const sizes =
+      amount.quantity !== undefined
+        ? splitByWeights(amount.quantity, plan.weights)
+        : splitByWeights(amount.usdValue, plan.weights).map(
+            (notional, i) => notional / parseFloat(plan.prices[i]),
+          );
+
+    const market = await this.getMarketService(ladder.exchange);
+    const limits = await market.getQuantityLimits(ladder.symbol);
+    const min = limits.success && limits.data ? parseFloat(limits.data.min) : 0;
+    const levels: LadderLevel[] = [];
+
+    for (const [i, size] of sizes.entries()) {
+      if (plan.weights[i] === 0) continue;
+
+      const quantity = await market.formatQuantity(ladder.symbol, size.toString());
+      if (!(parseFloat(quantity) > 0) || parseFloat(quantity) < min) {
+        throw new Error(`Level ${i + 1} quantity ${size} is below the minimum order size`);
+      }
+
+      levels.push({
+        price: plan.prices[i],
+        quantity,
+        clientOrderId: generateClientOrderId(
+          ladder.exchange,
+          `ladder:${ladder.id}:${ladder.revision}:${i}`,
+        ),
+        status: 'open',
+        revision: ladder.revision,
+      });
+    }
+    return levels;
+  }
+
+  // ==================== Orders ====================
+
+  private async placeLevels(ladder: Ladder, levels: LadderLevel[]): Promise<void> {
+    const trading = await this.getTradingService(ladder.exchange);
+    const response = await trading.placeOrders(
+      levels.map(level => ({
+        symbol: ladder.symbol,
+        side: ladder.side,
+        type: OrderType.LIMIT,
+        quantity: level.quantity,
+        price: level.price,
+        timeInForce: ladder.timeInForce,
+        clientOrderId: level.clientOrderId,
+        reduceOnly: ladder.reduceOnly,
+      })),
+    );
+
+    levels.forEach((level, i) => {
+      // A batch that failed as a whole fails every level
+      const result = response.success ? response.data![i] : { ...response, data: undefined };
+      if (result?.success && result.data) {
+        level.orderId = result.data.orderId?.toString();
+        this.applyOrder(level, result.data);
+      } else {
+        level.status = 'failed';
+        level.error = result?.error || 'Failed to place order';
+      }
+    });
+
+    ladder.levels.push(...levels);
+    ladder.updatedAt = Date.now();
+  }
+
+  /**
+   * Cancel the open levels. Returns the quantity they had left.
+   */
+  private async cancelLevels(ladder: Ladder, trading: IBaseTradingService): Promise<number> {
+    const open = ladder.levels.filter(level => level.status === 'open');
+    const response = await trading.cancelOrders(
+      open.map(level => ({
+        symbol: ladder.symbol,
+        orderId: level.orderId,
+        clientOrderId: level.orderId ? undefined : level.clientOrderId,
+      })),
+    );
+    const cancelled = await Promise.all(
+      open.map(async (level, i) => {
+        const result = response.success ? response.data![i] : response;
+        if (result?.success) {
+          level.status = 'cancelled';
+          return true;
+        }
+
+        // Already filled, or the cancel failed and the order still rests
+        await this.refreshLevel(ladder, trading, level);
+        if (level.status === 'open') {
+          level.error = result?.error || 'Failed to cancel order';
+        }
+        return false;
+      }),
+    );
+
+    ladder.updatedAt = Date.now();
+    return this.getRemaining(open.filter((_, i) => cancelled[i]));
+  }
+
+  /**
+   * Update the open levels from the exchange
+   */
+  private async refresh(ladder: Ladder, trading: IBaseTradingService): Promise<void> {
+    await Promise.all(
+      ladder.levels
+        .filter(level => level.status === 'open')
+        .map(level => this.refreshLevel(ladder, trading, level)),
+    );
+  }
+
+  private async refreshLevel(
+    ladder: Ladder,
+    trading: IBaseTradingService,
+    level: LadderLevel,
+  ): Promise<void> {
+    if (!level.orderId) return;
+
+    const result = await trading.getOrder(ladder.symbol, level.orderId);
+    if (result.success && result.data) {
+      this.applyOrder(level, result.data);
+      ladder.updatedAt = Date.now();
+    }
+  }
+
+  private applyOrder(level: LadderLevel, order: Order): void {
+    level.executedQuantity = order.executedQuantity ?? level.executedQuantity;
+    if (order.status === OrderStatus.FILLED) {
+      level.status = 'filled';
+    } else if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+      level.status = 'cancelled';
+    }
+  }
+
+  private getRemaining(levels: LadderLevel[]): number {
+    return levels.reduce(
+      (sum, level) =>
+        sum + parseFloat(level.quantity) - (parseFloat(level.executedQuantity ?? '0') || 0),
+      0,
+    );
+  }
+
+  // ==================== Helpers ====================
+
+  private findLadder(id: string): Ladder {
+    const ladder = this.ladders.get(id);
+    if (!ladder) {
+      throw new Error(`Ladder ${id} not found`);
+    }
+    return ladder;
+  }
+
+  private async getTradingService(exchange: ExchangeName): Promise<IBaseTradingService> {
+    return this.exchangeFactory.getTradingService(exchange, 'perpetual');
+  }
+
+  private async getMarketService(exchange: ExchangeName): Promise<IPerpetualMarketService> {
+    return (await this.exchangeFactory.getMarketService(
+      exchange,
+      'perpetual',
+    )) as IPerpetualMarketService;
+  }
+
+  // ==================== Persistence ====================
+
+  private loadState(): Ladder[] {
+    const ladders = this.stateFile.load();
+    if (!ladders) return [];
+
+    this.logger.log(`Loaded ${ladders.length} ladder(s) from ${this.stateFile.file}`);
+    return ladders;
+  }
+
+  /**
+   * Ladders with open orders plus the most recently closed ones
+   */
+  private snapshot(): Ladder[] {
+    const closed = [...this.ladders.values()]
+      .filter(ladder => !ladder.levels.some(level => level.status === 'open'))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+
+    for (const ladder of closed.slice(MAX_CLOSED_LADDERS)) {
+      this.ladders.delete(ladder.id);
+    }
+    return [...this.ladders.values()];
+  }
+
+  private persist(): Promise<void> {
+    return this.stateFile.save(this.snapshot());
+  }
+}
@@ -0,0 +1,49 @@
+import { LadderDistribution } from '../types';
+
+/**
+ * Evenly spaced prices from `from` to `to`, both included
+ */
+export function getLadderPrices(from: number, to: number, levels: number): number[] {
+  if (levels === 1) return [from];
+  return Array.from({ length: levels }, (_, i) => from + ((to - from) * i) / (levels - 1));
+}
+
+/**
+ * Relative size of each level. Linear and geometric sizes go from 1 at the first level to
+ * `sizeScale` at the last, in equal steps or by a constant ratio.
+ */
+export function getLadderWeights(
+  distribution: LadderDistribution,
+  levels: number,
+  sizeScale = 1,
+  weights?: number[],
+): number[] {
+  if (distribution === 'custom') {
+    if (!weights || weights.length !== levels) {
+      throw new Error(`custom distribution needs ${levels} weights`);
+    }
+    if (weights.some(weight => !(weight >= 0)) || !weights.some(weight => weight > 0)) {
+      throw new Error('Weights must be non-negative and not all zero');
+    }
+    return weights;
+  }
+
+  if (!(sizeScale > 0)) {
+    throw new Error(`Invalid size scale: ${sizeScale}`);
+  }
+
+  return Array.from({ length: levels }, (_, i) => {
+    const position = levels === 1 ? 0 : i / (levels - 1);
+    return distribution === 'geometric'
+      ? Math.pow(sizeScale, position)
+      : 1 + (sizeScale - 1) * position;
+  });
+}
+
+/**
+ * Split `total` in proportion to `weights`
+ */
+export function splitByWeights(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  return weights.map(weight => (total * weight) / sum);
+}
@@ -0,0 +1,62 @@
+import { ExchangeName, OrderSide, TimeInForce } from '../../common/types/exchange.types';
+
+// How the total is spread over the levels, from priceFrom to priceTo
+export type LadderDistribution = 'linear' | 'geometric' | 'custom';
+
+export type LadderLevelStatus = 'open' | 'filled' | 'cancelled' | 'failed';
+
+// Shape of the levels: a new range, count or distribution for an amended ladder
+export interface LadderShape {
+  priceFrom: string;
+  priceTo: string;
+  levels: number;
+  distribution?: LadderDistribution;
+  // Size of the last level relative to the first (linear, geometric); 1 sizes levels equally
+  sizeScale?: number;
+  // One per level (custom)
+  weights?: number[];
+}
+
+export interface LadderRequest extends LadderShape {
+  exchange: ExchangeName;
+  // Exchange-specific format
+  symbol: string;
+  side: OrderSide;
+  // Total base quantity, or usdValue spread by notional instead
+  quantity?: string;
+  usdValue?: number;
+  timeInForce?: TimeInForce;
+  reduceOnly?: boolean;
+}
+
+export interface LadderLevel {
+  price: string;
+  quantity: string;
+  clientOrderId: string;
+  orderId?: string;
+  status: LadderLevelStatus;
+  executedQuantity?: string;
+  // Amendment that placed the level (0: the original ladder)
+  revision: number;
+  error?: string;
+}
+
+export interface Ladder {
+  id: string;
+  exchange: ExchangeName;
+  symbol: string;
+  side: OrderSide;
+  // Current shape; amendments replace it
+  priceFrom: string;
+  priceTo: string;
+  levelCount: number;
+  distribution: LadderDistribution;
+  sizeScale?: number;
+  weights?: number[];
+  timeInForce?: TimeInForce;
+  reduceOnly?: boolean;
+  revision: number;
+  levels: LadderLevel[];
+  createdAt: number;
+  updatedAt: number;
+}
@@ -2,6 +2,7 @@ import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { WsAdapter } from '@nestjs/platform-ws';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -15,6 +16,9 @@ async function bootstrap() {
     }),
   );
 
+  // Plain WebSocket transport for real-time market streams
+  app.useWebSocketAdapter(new WsAdapter(app));
+
   // Enable CORS
   app.enableCors({
     origin: ['http://localhost:3000', 'http://localhost:3001'],
@@ -30,13 +34,29 @@ async function bootstrap() {
         '- ✅ Aster DEX (Orderly Network)\n' +
         '- ✅ Hyperliquid\n' +
         '- ✅ Binance Futures\n' +
-        '- ✅ OKX\n\n' +
+        '- ✅ OKX\n' +
+        '- ✅ Orderly Network\n\n' +
         '**Features:**\n' +
         '- Unified API interface across all exchanges\n' +
         '- Market & Limit orders\n' +
         '- Position management\n' +
-        '- Real-time market data\n' +
-        '- Testnet/Simulated trading support\n\n' +
+        '- Real-time market data (WebSocket streams at /ws/market)\n' +
+        '- Private order, fill and position updates (WebSocket stream at /ws/user)\n' +
+        '- Testnet/Simulated trading support\n' +
+        '- Backtesting on historical candles and funding rates\n' +
+        '- Order and fill journal with strategy tags (X-Strategy-Tag header)\n' +
+        '- Idempotent order placement (Idempotency-Key header)\n' +
+        '- Smart order routing across exchanges (POST /api/routing/order)\n' +
+        '- TWAP/VWAP, iceberg and chase execution algos (/api/algos)\n' +
+        '- Trailing stops, native or server-side (POST /api/trading/trailing-stop)\n' +
+        '- OCO brackets: stop loss and take profit cancel each other (/api/oco)\n' +
+        '- Ladder (scaled) orders over a price range (/api/trading/ladder)\n' +
+        '- Batch place/cancel through native exchange batch APIs (/api/trading/orders/batch)\n' +
+        '- Order amendment in place or by cancel-replace (PATCH /api/trading/order)\n' +
+        '- Pre-trade risk checks with limits per exchange and API key\n' +
+        '- Drawdown kill switch with authenticated re-arm (/api/risk/kill-switch)\n' +
+        "- Dead man's switch kept armed by heartbeats (/api/trading/heartbeat)\n" +
+        '- Margin and liquidation price simulator (POST /api/balance/simulate)\n\n' +
         '**Authentication:**\n' +
         '- API Key authentication via X-API-Key header\n' +
         '- Exchange-specific credentials configured via environment variables',
@@ -55,6 +75,13 @@ async function bootstrap() {
     .addTag('Trading API', 'Order placement, position management, and trading operations')
     .addTag('Balance API', 'Account balance, positions, and PnL information')
     .addTag('Market API', 'Market data, prices, order books, and statistics')
+    .addTag('Exchanges API', 'Registered exchanges and their supported capabilities')
+    .addTag('Backtest API', 'Strategy backtests on historical market data')
+    .addTag('Journal API', 'Persisted history of orders, cancellations, failures and fills')
+    .addTag('Routing API', 'Smart order routing across exchanges by fee-adjusted fill price')
+    .addTag('Algos API', 'TWAP, VWAP, iceberg and chase execution algorithms')
+    .addTag('OCO API', 'Stop loss and take profit brackets where one cancels the other')
+    .addTag('Risk API', 'Kill switch status, manual trips and re-arming trading')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -70,8 +97,10 @@ async function bootstrap() {
   const logger = new Logger('Bootstrap');
   logger.log(`🚀 Application is running on: http://localhost:${port}`);
   logger.log(`📚 Swagger docs available at: http://localhost:${port}/api`);
+  logger.log(`📡 Market streams available at: ws://localhost:${port}/ws/market`);
+  logger.log(`👤 User data streams available at: ws://localhost:${port}/ws/user`);
   logger.log(`🔐 API Key authentication required for protected endpoints`);
-  logger.log(`💱 Exchanges: Aster, Hyperliquid, Binance, OKX`);
+  logger.log(`💱 Exchanges: Aster, Hyperliquid, Binance, OKX, Orderly`);
 }
 
 bootstrap();
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { MarginSimulatorService } from './services/margin-simulator.service';
+
+@Module({
+  providers: [MarginSimulatorService],
+  exports: [MarginSimulatorService],
+})
+export class MarginModule {}
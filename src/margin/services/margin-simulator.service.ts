@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
+import { IPerpetualMarketService, MarginTier } from '../../common/interfaces';
+import { SymbolNormalizerService } from '../../common/services/symbol-normalizer.service';
+import { ApiResponse, ExchangeName } from '../../common/types/exchange.types';
+import { RoutingConfig } from '../../config/routing.config';
+import { simulateMargin } from '../shared/margin-math';
+import {
+  HypotheticalPosition,
+  MarginPositionInput,
+  MarginSimulation,
+  MarginSimulationRequest,
+} from '../types';
+
+/**
+ * Margin simulator for hypothetical positions.
+ *
+ * Positions are priced at the exchange's mark price and margined with its own maintenance
+ * margin tiers (leverage brackets), so liquidation prices and margin ratios come out the way
+ * the exchange would compute them rather than at a flat rate.
+ */
+@Injectable()
+export class MarginSimulatorService {
+  private readonly logger = new Logger(MarginSimulatorService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly symbolNormalizer: SymbolNormalizerService,
+  ) {}
+
+  /**
+   * Simulate the margin of each account's positions on its exchange
+   */
+  async simulate(accounts: MarginSimulationRequest[]): Promise<ApiResponse<MarginSimulation[]>> {
+    try {
+      const data = await Promise.all(accounts.map(account => this.simulateAccount(account)));
+      return { success: true, data, timestamp: Date.now() };
+    } catch (error: any) {
+      this.logger.error('Error simulating margin:', error.message);
+      return { success: false, error: error.message, timestamp: Date.now() };
+    }
+  }
+
+  private async simulateAccount(account: MarginSimulationRequest): Promise<MarginSimulation> {
+    const { exchange } = account;
+    const market = (await this.exchangeFactory.getMarketService(
+      exchange,
+      'perpetual',
+    )) as IPerpetualMarketService;
+    const tiers = new Map<string, Promise<MarginTier[]>>();
+
+    const inputs = await Promise.all(
+      account.positions.map(position =>
+        this.resolvePosition(exchange, market, position, account.leverage, tiers),
+      ),
+    );
+    const feeRate =
+      account.feeRate ?? this.configService.get<RoutingConfig>('routing')!.takerFees[exchange] ?? 0;
+
+    return {
+      exchange,
+      ...simulateMargin(inputs, {
+        marginMode: account.marginMode || 'cross',
+        balance: account.balance,
+        feeRate,
+      }),
+    };
+  }
+
+  private async resolvePosition(
+    exchange: ExchangeName,
+    market: IPerpetualMarketService,
+    position: HypotheticalPosition,
+    leverage: number | undefined,
+    tiers: Map<string, Promise<MarginTier[]>>,
+  ): Promise<MarginPositionInput> {
+    // Nested symbols are not normalized by the middleware
+    const symbol = this.symbolNormalizer.toExchangeSymbol(position.symbol, exchange);
+    if (!tiers.has(symbol)) {
+      tiers.set(symbol, this.getMarginTiers(exchange, market, symbol));
+    }
+
+    const [markPrice, symbolTiers] = await Promise.all([
+      position.markPrice ?? this.getMarkPrice(market, symbol),
+      tiers.get(symbol)!,
+    ]);
+    return {
+      symbol,
+      side: position.side,
+      quantity: position.quantity,
+      entryPrice: position.entryPrice ?? markPrice,
+      markPrice,
+      leverage: position.leverage ?? leverage ?? 1,
+      tiers: symbolTiers,
+    };
+  }
+
+  private async getMarginTiers(
+    exchange: ExchangeName,
+    market: IPerpetualMarketService,
+    symbol: string,
+  ): Promise<MarginTier[]> {
+    const response = await market.getMarginTiers(symbol);
+    if (!response.success) {
+      throw new Error(`Failed to get margin tiers for ${symbol} on ${exchange}: ${response.error}`);
+    }
+    if (!response.data?.length) {
+      throw new Error(`No margin tiers for ${symbol} on ${exchange}`);
+    }
+    return response.data;
+  }
+
+  private async getMarkPrice(market: IPerpetualMarketService, symbol: string): Promise<number> {
+    const response = await market.getMarkPrice(symbol);
+    if (!response.success) throw new Error(`Failed to get mark price: ${response.error}`);
+
+    const data = Array.isArray(response.data)
+      ? response.data.find(item => item.symbol === symbol)
+      : response.data;
+    const price = parseFloat(data?.markPrice ?? '');
+    if (!(price > 0)) throw new Error(`No mark price for ${symbol}`);
+    return price;
+  }
+}
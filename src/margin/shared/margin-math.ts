@@ -0,0 +1,171 @@
+import { MarginTier } from '../../common/interfaces';
+import {
+  MarginPositionInput,
+  MarginSimulation,
+  MarginSimulationOptions,
+  SimulatedPosition,
+} from '../types';
+
+/**
+ * Tier a position of this size falls in (the last tier for anything above the caps)
+ */
+export function findTier(tiers: MarginTier[], notional: number, quantity: number): MarginTier {
+  return (
+    tiers.find(tier => (tier.basis === 'quantity' ? quantity : notional) < tier.cap) ||
+    tiers[tiers.length - 1]
+  );
+}
+
+export function maintenanceMargin(tier: MarginTier, notional: number): number {
+  return Math.max(notional * tier.maintenanceMarginRate - tier.maintenanceAmount, 0);
+}
+
+/**
+ * Mark price at which margin balance falls to maintenance margin.
+ *
+ * Solves collateral + size × (P − entry) = |size| × P × rate − amount − otherMaintenance for P,
+ * where size is signed (long positive) and otherMaintenance is what other positions sharing
+ * the collateral need. Since the rate depends on the tier of the position at P, the tier is
+ * picked again at each solution until it holds. Returns null when no positive price gets there.
+ */
+export function liquidationPrice(
+  size: number,
+  entryPrice: number,
+  collateral: number,
+  tiers: MarginTier[],
+  otherMaintenance = 0,
+): number | null {
+  const quantity = Math.abs(size);
+  let tier = findTier(tiers, quantity * entryPrice, quantity);
+  let price = 0;
+
+  for (let i = 0; i <= tiers.length; i++) {
+    price =
+      (size * entryPrice - collateral - tier.maintenanceAmount + otherMaintenance) /
+      (size - quantity * tier.maintenanceMarginRate);
+    if (!(price > 0)) return null;
+
+    const next = findTier(tiers, quantity * price, quantity);
+    if (next === tier) break;
+    tier = next;
+  }
+
+  return price;
+}
+
+/**
+ * Margin of a set of positions held together on one exchange.
+ *
+ * Isolated positions are each backed by their own initial margin; cross positions share the
+ * balance (after opening fees) with the unrealized PnL and maintenance margin of the others.
+ * Without a balance the account holds exactly the initial margin and fees the positions need.
+ */
+export function simulateMargin(
+  inputs: MarginPositionInput[],
+  options: MarginSimulationOptions,
+): Omit<MarginSimulation, 'exchange'> {
+  const positions: SimulatedPosition[] = inputs.map(input => {
+    const notional = input.quantity * input.markPrice;
+    const entryNotional = input.quantity * input.entryPrice;
+    const tier = findTier(input.tiers, notional, input.quantity);
+    const entryTier = findTier(input.tiers, entryNotional, input.quantity);
+    const warnings: string[] = [];
+
+    if (input.leverage > entryTier.maxLeverage) {
+      warnings.push(
+        `Leverage ${input.leverage}x is above the ${entryTier.maxLeverage}x max for a ` +
+          `${entryNotional} notional ${input.symbol} position`,
+      );
+    }
+
+    return {
+      symbol: input.symbol,
+      side: input.side,
+      quantity: input.quantity,
+      entryPrice: input.entryPrice,
+      markPrice: input.markPrice,
+      leverage: input.leverage,
+      notional,
+      initialMargin: entryNotional / input.leverage,
+      maintenanceMargin: maintenanceMargin(tier, notional),
+      maintenanceMarginRate: tier.maintenanceMarginRate,
+      maxLeverage: tier.maxLeverage,
+      fee: entryNotional * options.feeRate,
+      unrealizedPnl: signedSize(input) * (input.markPrice - input.entryPrice),
+      liquidationPrice: null,
+      marginRatio: null,
+      liquidated: false,
+      ...(warnings.length > 0 && { warnings }),
+    };
+  });
+
+  const sum = (value: (position: SimulatedPosition) => number) =>
+    positions.reduce((total, position) => total + value(position), 0);
+  const initialMargin = sum(position => position.initialMargin);
+  const totalMaintenance = sum(position => position.maintenanceMargin);
+  const fees = sum(position => position.fee);
+  const unrealizedPnl = sum(position => position.unrealizedPnl);
+  const balance = options.balance ?? initialMargin + fees;
+  const marginBalance = balance - fees + unrealizedPnl;
+  const cross = options.marginMode === 'cross';
+
+  positions.forEach((position, i) => {
+    const size = signedSize(inputs[i]);
+
+    if (cross) {
+      // Everything else in the account backs this position too
+      position.liquidationPrice = liquidationPrice(
+        size,
+        position.entryPrice,
+        marginBalance - position.unrealizedPnl,
+        inputs[i].tiers,
+        totalMaintenance - position.maintenanceMargin,
+      );
+      position.marginRatio = ratio(totalMaintenance, marginBalance);
+      position.liquidated = marginBalance <= totalMaintenance;
+    } else {
+      const positionMargin = position.initialMargin + position.unrealizedPnl;
+      position.liquidationPrice = liquidationPrice(
+        size,
+        position.entryPrice,
+        position.initialMargin,
+        inputs[i].tiers,
+      );
+      position.marginRatio = ratio(position.maintenanceMargin, positionMargin);
+      position.liquidated = positionMargin <= position.maintenanceMargin;
+    }
+  });
+
+  const warnings: string[] = [];
+  if (balance < initialMargin + fees) {
+    warnings.push(
+      `Balance ${balance} does not cover the ${initialMargin + fees} of initial margin and fees`,
+    );
+  }
+
+  return {
+    marginMode: options.marginMode,
+    feeRate: options.feeRate,
+    balance,
+    marginBalance,
+    initialMargin,
+    maintenanceMargin: totalMaintenance,
+    fees,
+    unrealizedPnl,
+    marginRatio: cross
+      ? ratio(totalMaintenance, marginBalance)
+      : ratio(totalMaintenance, initialMargin + unrealizedPnl),
+    // Isolated PnL stays with its position until closed
+    availableBalance: cross ? marginBalance - initialMargin : balance - fees - initialMargin,
+    positions,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+function signedSize(input: Pick<MarginPositionInput, 'side' | 'quantity'>): number {
+  return input.side === 'LONG' ? input.quantity : -input.quantity;
+}
+
+function ratio(maintenance: number, margin: number): number | null {
+  return margin > 0 ? maintenance / margin : null;
+}
@@ -0,0 +1,96 @@
+import { MarginTier } from '../../common/interfaces';
+import { ExchangeName } from '../../common/types/exchange.types';
+
+export type MarginMode = 'cross' | 'isolated';
+
+export type PositionSide = 'LONG' | 'SHORT';
+
+// A position that may or may not exist, as the simulator is asked about it
+export interface HypotheticalPosition {
+  symbol: string;
+  side: PositionSide;
+  // Base quantity
+  quantity: number;
+  // Defaults to the mark price
+  entryPrice?: number;
+  // Defaults to the exchange's current mark price
+  markPrice?: number;
+  // Defaults to the account's leverage
+  leverage?: number;
+}
+
+// Hypothetical positions held together on one exchange
+export interface MarginSimulationRequest {
+  exchange: ExchangeName;
+  // Leverage of positions that don't set their own (default: 1)
+  leverage?: number;
+  marginMode?: MarginMode;
+  // Wallet balance; defaults to exactly what the positions need (initial margin plus fees)
+  balance?: number;
+  // Taker fee paid to open each position (default: the routing taker fee of the exchange)
+  feeRate?: number;
+  positions: HypotheticalPosition[];
+}
+
+// One position as the math sees it, with everything resolved
+export interface MarginPositionInput {
+  symbol: string;
+  side: PositionSide;
+  quantity: number;
+  entryPrice: number;
+  markPrice: number;
+  leverage: number;
+  tiers: MarginTier[];
+}
+
+export interface MarginSimulationOptions {
+  marginMode: MarginMode;
+  balance?: number;
+  feeRate: number;
+}
+
+export interface SimulatedPosition {
+  symbol: string;
+  side: PositionSide;
+  quantity: number;
+  entryPrice: number;
+  markPrice: number;
+  leverage: number;
+  // At mark price
+  notional: number;
+  // Entry notional / leverage
+  initialMargin: number;
+  // At mark price, from the tier the position falls in
+  maintenanceMargin: number;
+  maintenanceMarginRate: number;
+  // Max leverage of that tier
+  maxLeverage: number;
+  // Taker fee paid to open
+  fee: number;
+  unrealizedPnl: number;
+  // Mark price at which the position is liquidated; null when no price gets there
+  liquidationPrice: number | null;
+  // Maintenance margin over the margin backing the position (the account's, in cross)
+  marginRatio: number | null;
+  liquidated: boolean;
+  warnings?: string[];
+}
+
+export interface MarginSimulation {
+  exchange: ExchangeName;
+  marginMode: MarginMode;
+  feeRate: number;
+  balance: number;
+  // Balance after fees plus unrealized PnL
+  marginBalance: number;
+  initialMargin: number;
+  maintenanceMargin: number;
+  fees: number;
+  unrealizedPnl: number;
+  // Total maintenance margin over margin balance (1 is liquidation); null once nothing is left
+  marginRatio: number | null;
+  // Balance left to open more positions
+  availableBalance: number;
+  positions: SimulatedPosition[];
+  warnings?: string[];
+}
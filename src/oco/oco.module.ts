@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { JournalModule } from '../journal/journal.module';
+import { OcoManagerService } from './services/oco-manager.service';
+
+@Module({
+  imports: [JournalModule],
+  providers: [OcoManagerService],
+  exports: [OcoManagerService],
+})
+export class OcoModule {}
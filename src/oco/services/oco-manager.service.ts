@@ -0,0 +1,557 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Subscription } from 'rxjs';
+import {
+  ExchangeServiceFactory,
+  interceptTradingMethods,
+} from '../../common/factory/exchange.factory';
+import { IPerpetualTradingService } from '../../common/interfaces';
+import { SymbolNormalizerService } from '../../common/services/symbol-normalizer.service';
+import { UserDataEventBus } from '../../common/services/user-data-event-bus.service';
+import {
+  ApiResponse,
+  ExchangeName,
+  Order,
+  OrderSide,
+  OrderStatus,
+  Position,
+  PositionSide,
+} from '../../common/types/exchange.types';
+import { JsonStateFile } from '../../common/state';
+import { OcoConfig } from '../../config/oco.config';
+import { JournalService } from '../../journal/services/journal.service';
+import { OCO_LEG_TYPES, getPositionSize, getQuickBracketLegs, toLeg } from '../shared/oco-bracket';
+import { OcoBracket, OcoBracketRequest, OcoLeg, OcoLegType, OcoQuery } from '../types';
+
+// Trading methods whose stop loss and take profit are linked automatically
+const BRACKET_OPERATIONS = ['quickLong', 'quickShort'];
+
+// Finished brackets kept in the state file for GET /api/oco
+const MAX_FINISHED_BRACKETS = 200;
+
+// Position size difference below this fraction of the leg quantity is rounding
+const QUANTITY_TOLERANCE = 1e-9;
+
+const OPEN_ORDER_STATUSES = [OrderStatus.NEW, OrderStatus.PARTIALLY_FILLED];
+
+const LEG_NAMES: Record<OcoLegType, string> = {
+  stopLoss: 'Stop loss',
+  takeProfit: 'Take profit',
+};
+
+/**
+ * One-cancels-the-other brackets, for exchanges without native OCO.
+ *
+ * The stop loss and take profit placed by quickLong/quickShort (or POST /api/oco) are linked to
+ * the position they protect. Once a leg fills or the position is otherwise gone, the leg still
+ * resting is cancelled, so it can never open a new position. When the position is partly
+ * closed, legs sized for the larger position are re-placed for what is left: the new order goes
+ * in before the old one is cancelled, so the position is never unprotected.
+ *
+ * Positions are polled every `pollIntervalMs`; fills reported by user data streams settle a
+ * bracket straight away. Brackets are kept in a JSON state file and watched again after a
+ * restart.
+ */
+@Injectable()
+export class OcoManagerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OcoManagerService.name);
+  private readonly config: OcoConfig;
+  private readonly brackets = new Map<string, OcoBracket>();
+  // Work in progress per bracket, so a fill and a poll never act on one at the same time
+  private readonly locks = new Map<string, Promise<void>>();
+  private subscription?: Subscription;
+  private pollInterval?: NodeJS.Timeout;
+  private ticking = false;
+  private readonly stateFile: JsonStateFile<OcoBracket[]>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly symbolNormalizer: SymbolNormalizerService,
+    private readonly eventBus: UserDataEventBus,
+    private readonly journal: JournalService,
+  ) {
+    this.config = this.configService.get<OcoConfig>('oco')!;
+    this.stateFile = new JsonStateFile(this.config.stateFile, 'brackets', this.logger);
+  }
+
+  onModuleInit() {
+    for (const bracket of this.loadState()) {
+      this.brackets.set(bracket.id, bracket);
+    }
+
+    const open = this.getOpen().length;
+    if (open > 0) {
+      this.logger.log(`Watching ${open} open bracket(s)`);
+    }
+
+    // Brackets placed through POST /api/oco are watched either way
+    if (this.config.enabled) {
+      this.exchangeFactory.addTradingDecorator((service, exchange, tradingType) =>
+        tradingType === 'perpetual'
+          ? interceptTradingMethods(service, BRACKET_OPERATIONS, async (method, args, call) => {
+              const response = await call(...args);
+              await this.linkQuickBracket(exchange, method, args[0], response);
+              return response;
+            })
+          : service,
+      );
+    }
+
+    this.subscription = this.eventBus
+      .getEvents({ type: 'order' })
+      .subscribe(event => this.onOrderUpdate(event.exchange, event.data as Order));
+    this.pollInterval = setInterval(() => void this.runTick(), this.config.pollIntervalMs);
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+    clearInterval(this.pollInterval);
+    this.stateFile.saveSync(this.snapshot());
+  }
+
+  /**
+   * Place a linked stop loss and take profit for an open position
+   */
+  async placeBracket(request: OcoBracketRequest): Promise<ApiResponse<OcoBracket>> {
+    try {
+      if (!this.exchangeFactory.isAvailable(request.exchange, 'perpetual')) {
+        throw new Error(`Exchange ${request.exchange} with trading type perpetual not registered`);
+      }
+
+      const symbol = this.symbolNormalizer.toExchangeSymbol(request.symbol, request.exchange);
+      const trading = await this.getTradingService(request.exchange);
+      const position = await this.getOpenPosition(trading, symbol);
+      const side = position.side === PositionSide.SHORT ? OrderSide.BUY : OrderSide.SELL;
+      const quantity = request.quantity ?? Math.abs(parseFloat(position.size)).toString();
+      const stopPrice = parseFloat(request.stopPrice);
+      const takeProfitPrice = parseFloat(request.takeProfitPrice);
+
+      if (!(parseFloat(quantity) > 0)) {
+        throw new Error(`Invalid quantity: ${quantity}`);
+      }
+      if (side === OrderSide.SELL ? stopPrice >= takeProfitPrice : stopPrice <= takeProfitPrice) {
+        throw new Error(
+          `stopPrice must be ${side === OrderSide.SELL ? 'below' : 'above'} takeProfitPrice ` +
+            `for a ${position.side.toLowerCase()} position`,
+        );
+      }
+
+      const stopLoss = await trading.setStopLoss({
+        symbol,
+        stopPrice: request.stopPrice,
+        quantity,
+        side,
+      });
+      if (!stopLoss.success) {
+        throw new Error(`Stop loss not placed: ${stopLoss.error}`);
+      }
+
+      const takeProfit = await trading.setTakeProfit({
+        symbol,
+        takeProfitPrice: request.takeProfitPrice,
+        quantity,
+        side,
+      });
+      if (!takeProfit.success) {
+        // Never leave half a bracket behind
+        await this.cancelOrder(trading, symbol, stopLoss.data.orderId.toString());
+        throw new Error(`Take profit not placed: ${takeProfit.error}`);
+      }
+
+      const bracket = this.createBracket(request.exchange, symbol, side, {
+        stopLoss: { ...toLeg(stopLoss, request.stopPrice)!, quantity },
+        takeProfit: { ...toLeg(takeProfit, request.takeProfitPrice)!, quantity },
+      });
+      bracket.status = 'active';
+      bracket.positionSize = Math.abs(parseFloat(position.size));
+      await this.persist();
+
+      return { success: true, data: bracket, timestamp: Date.now() };
+    } catch (error: any) {
+      this.logger.error('Error placing bracket:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to place bracket',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Open and recent brackets, newest first
+   */
+  getBrackets(query: OcoQuery = {}): ApiResponse<OcoBracket[]> {
+    const brackets = [...this.brackets.values()]
+      .filter(bracket => !query.status || bracket.status === query.status)
+      .filter(bracket => !query.exchange || bracket.exchange === query.exchange)
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    return { success: true, data: brackets, timestamp: Date.now() };
+  }
+
+  getBracket(id: string): ApiResponse<OcoBracket> {
+    const bracket = this.brackets.get(id);
+    if (!bracket) {
+      return { success: false, error: `Bracket ${id} not found`, timestamp: Date.now() };
+    }
+    return { success: true, data: bracket, timestamp: Date.now() };
+  }
+
+  /**
+   * Stop watching a bracket and cancel both of its legs
+   */
+  async cancelBracket(id: string): Promise<ApiResponse<OcoBracket>> {
+    try {
+      const bracket = this.brackets.get(id);
+      if (!bracket) {
+        throw new Error(`Bracket ${id} not found`);
+      }
+
+      await this.exclusive(bracket, async () => {
+        if (!this.isOpen(bracket)) {
+          throw new Error(`Bracket ${id} is already ${bracket.status}`);
+        }
+
+        const trading = await this.getTradingService(bracket.exchange);
+        await this.closeLegs(bracket, trading);
+        this.finish(bracket, 'cancelled', 'Cancelled by request');
+      });
+      await this.persist();
+
+      return { success: true, data: bracket, timestamp: Date.now() };
+    } catch (error: any) {
+      this.logger.error('Error cancelling bracket:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to cancel bracket',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  // ==================== Linking ====================
+
+  /**
+   * Link the stop loss and take profit of a quickLong/quickShort. Never fails the trading call.
+   */
+  private async linkQuickBracket(
+    exchange: ExchangeName,
+    method: string,
+    symbol: string,
+    response: ApiResponse<any>,
+  ): Promise<void> {
+    try {
+      const legs = getQuickBracketLegs(response);
+      if (!legs) return;
+
+      const side = method === 'quickLong' ? OrderSide.SELL : OrderSide.BUY;
+      this.createBracket(exchange, symbol, side, legs);
+      await this.persist();
+    } catch (error: any) {
+      this.logger.error('Error linking bracket:', error.message);
+    }
+  }
+
+  private createBracket(
+    exchange: ExchangeName,
+    symbol: string,
+    side: OrderSide,
+    legs: { stopLoss: OcoLeg; takeProfit: OcoLeg },
+  ): OcoBracket {
+    const now = Date.now();
+    const bracket: OcoBracket = {
+      id: randomUUID(),
+      exchange,
+      symbol,
+      side,
+      ...legs,
+      strategy: this.journal.getStrategy(),
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.brackets.set(bracket.id, bracket);
+    this.logger.log(
+      `Linked bracket ${bracket.id} on ${exchange} ${symbol}: stop loss ${legs.stopLoss.orderId} ` +
+        `@ ${legs.stopLoss.price}, take profit ${legs.takeProfit.orderId} @ ${legs.takeProfit.price}`,
+    );
+    return bracket;
+  }
+
+  // ==================== Watching ====================
+
+  private async runTick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const bracket of this.getOpen()) {
+        const updatedAt = bracket.updatedAt;
+        try {
+          await this.exclusive(bracket, () => this.check(bracket));
+        } catch (error: any) {
+          this.logger.warn(`Error checking bracket ${bracket.id}: ${error.message}`);
+        }
+        if (bracket.updatedAt !== updatedAt) {
+          await this.persist();
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Settle the bracket once its position is gone, resize its legs when the position shrank
+   */
+  private async check(bracket: OcoBracket): Promise<void> {
+    if (!this.isOpen(bracket)) return;
+
+    const trading = await this.getTradingService(bracket.exchange);
+    const positions = await trading.getPositions(bracket.symbol);
+    if (!positions.success) {
+      throw new Error(positions.error || 'Failed to get position');
+    }
+
+    const size = getPositionSize(positions.data, bracket.side);
+    if (size !== bracket.positionSize) {
+      bracket.positionSize = size;
+      bracket.updatedAt = Date.now();
+    }
+
+    if (size > 0) {
+      if (bracket.status === 'pending') {
+        bracket.status = 'active';
+      }
+      await this.resize(bracket, trading, size);
+    } else if (bracket.status === 'active') {
+      await this.settle(bracket, trading, 'Position closed');
+    } else if (Date.now() - bracket.createdAt > this.config.pendingTimeoutMs) {
+      await this.settle(
+        bracket,
+        trading,
+        `No position within ${this.config.pendingTimeoutMs / 1000}s`,
+      );
+    }
+  }
+
+  /**
+   * A leg filled: cancel the other one right away
+   */
+  private onOrderUpdate(exchange: ExchangeName, order: Order): void {
+    if (order.status !== OrderStatus.FILLED) return;
+
+    const orderId = order.orderId?.toString();
+    for (const bracket of this.getOpen()) {
+      const type = OCO_LEG_TYPES.find(leg => bracket[leg].orderId === orderId);
+      if (bracket.exchange !== exchange || !type) continue;
+
+      this.exclusive(bracket, async () => {
+        if (!this.isOpen(bracket) || bracket[type].orderId !== orderId) return;
+
+        bracket[type].status = 'filled';
+        const trading = await this.getTradingService(bracket.exchange);
+        await this.settle(bracket, trading, `${LEG_NAMES[type]} filled`);
+        await this.persist();
+      }).catch((error: any) =>
+        this.logger.warn(`Error settling bracket ${bracket.id}: ${error.message}`),
+      );
+    }
+  }
+
+  /**
+   * Cancel whatever is left of the bracket. It stays open (and is retried on the next poll)
+   * while a leg could not be cancelled.
+   */
+  private async settle(
+    bracket: OcoBracket,
+    trading: IPerpetualTradingService,
+    reason: string,
+  ): Promise<void> {
+    await this.closeLegs(bracket, trading);
+
+    const open = OCO_LEG_TYPES.filter(type => bracket[type].status === 'open');
+    if (open.length === 0) {
+      this.finish(bracket, 'completed', reason);
+    } else {
+      bracket.reason = `${reason}; ${open.map(type => LEG_NAMES[type]).join(' and ')} not cancelled`;
+      bracket.updatedAt = Date.now();
+    }
+  }
+
+  private async closeLegs(bracket: OcoBracket, trading: IPerpetualTradingService): Promise<void> {
+    for (const type of OCO_LEG_TYPES) {
+      const leg = bracket[type];
+      if (leg.status !== 'open') continue;
+
+      if (await this.cancelOrder(trading, bracket.symbol, leg.orderId, bracket.strategy)) {
+        leg.status = 'cancelled';
+        continue;
+      }
+
+      // Cancelling fails once the order no longer rests: find out whether it filled
+      const order = await trading.getOrder(bracket.symbol, leg.orderId);
+      if (order.success && order.data?.status === OrderStatus.FILLED) {
+        leg.status = 'filled';
+      } else if (!order.success || !OPEN_ORDER_STATUSES.includes(order.data?.status)) {
+        leg.status = 'cancelled';
+      }
+      bracket.updatedAt = Date.now();
+    }
+  }
+
+  /**
+   * Re-place legs sized for more than the position holds. A leg that cannot be re-placed
+   * stays as it is (reduce-only, so never opening a position) and is retried on the next poll.
+   */
+  private async resize(
+    bracket: OcoBracket,
+    trading: IPerpetualTradingService,
+    size: number,
+  ): Promise<void> {
+    for (const type of OCO_LEG_TYPES) {
+      const leg = bracket[type];
+      if (leg.status !== 'open' || !leg.quantity) continue;
+      if (parseFloat(leg.quantity) - size <= size * QUANTITY_TOLERANCE) continue;
+
+      const quantity = size.toString();
+      const replacement = await this.journal.runWithStrategy(bracket.strategy, () =>
+        type === 'stopLoss'
+          ? trading.setStopLoss({
+              symbol: bracket.symbol,
+              stopPrice: leg.price,
+              quantity,
+              side: bracket.side,
+            })
+          : trading.setTakeProfit({
+              symbol: bracket.symbol,
+              takeProfitPrice: leg.price,
+              quantity,
+              side: bracket.side,
+            }),
+      );
+      if (!replacement.success || !replacement.data?.orderId) {
+        this.logger.warn(
+          `Could not resize ${LEG_NAMES[type].toLowerCase()} of bracket ${bracket.id}: ` +
+            (replacement.error || 'no order ID returned'),
+        );
+        continue;
+      }
+
+      const previous = leg.orderId;
+      leg.orderId = replacement.data.orderId.toString();
+      leg.quantity = quantity;
+      bracket.updatedAt = Date.now();
+      this.logger.log(
+        `Bracket ${bracket.id}: ${LEG_NAMES[type].toLowerCase()} resized to ${quantity} ` +
+          `(order ${leg.orderId})`,
+      );
+
+      if (!(await this.cancelOrder(trading, bracket.symbol, previous, bracket.strategy))) {
+        this.logger.warn(`Could not cancel replaced order ${previous} of bracket ${bracket.id}`);
+      }
+    }
+  }
+
+  private finish(bracket: OcoBracket, status: 'completed' | 'cancelled', reason: string): void {
+    bracket.status = status;
+    bracket.reason = reason;
+    bracket.updatedAt = Date.now();
+    this.logger.log(`Bracket ${bracket.id} ${status}: ${reason}`);
+  }
+
+  /**
+   * Run `fn` after whatever is already working on the bracket
+   */
+  private exclusive(bracket: OcoBracket, fn: () => Promise<void>): Promise<void> {
+    const run = (this.locks.get(bracket.id) ?? Promise.resolve()).then(fn);
+    const lock = run.then(
+      () => undefined,
+      () => undefined,
+    );
+
+    this.locks.set(bracket.id, lock);
+    void lock.then(() => {
+      if (this.locks.get(bracket.id) === lock) this.locks.delete(bracket.id);
+    });
+    return run;
+  }
+
+  // ==================== Helpers ====================
+
+  private async cancelOrder(
+    trading: IPerpetualTradingService,
+    symbol: string,
+    orderId: string,
+    strategy = this.journal.getStrategy(),
+  ): Promise<boolean> {
+    const result = await this.journal.runWithStrategy(strategy, () =>
+      trading.cancelOrder({ symbol, orderId }),
+    );
+    return result.success;
+  }
+
+  private async getOpenPosition(
+    trading: IPerpetualTradingService,
+    symbol: string,
+  ): Promise<Position> {
+    const result = await trading.getPositions(symbol);
+    const position = ([] as Position[])
+      .concat(result.data ?? [])
+      .find(p => Math.abs(parseFloat(p.size)) > 0);
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to get position');
+    }
+    if (!position) {
+      throw new Error(`No open ${symbol} position`);
+    }
+    return position;
+  }
+
+  private async getTradingService(exchange: ExchangeName): Promise<IPerpetualTradingService> {
+    return (await this.exchangeFactory.getTradingService(
+      exchange,
+      'perpetual',
+    )) as IPerpetualTradingService;
+  }
+
+  private isOpen(bracket: OcoBracket): boolean {
+    return bracket.status === 'pending' || bracket.status === 'active';
+  }
+
+  private getOpen(): OcoBracket[] {
+    return [...this.brackets.values()].filter(bracket => this.isOpen(bracket));
+  }
+
+  // ==================== Persistence ====================
+
+  private loadState(): OcoBracket[] {
+    const brackets = this.stateFile.load();
+    if (!brackets) return [];
+
+    this.logger.log(`Loaded ${brackets.length} bracket(s) from ${this.stateFile.file}`);
+    return brackets;
+  }
+
+  /**
+   * Open brackets plus the most recently finished ones
+   */
+  private snapshot(): OcoBracket[] {
+    const finished = [...this.brackets.values()]
+      .filter(bracket => !this.isOpen(bracket))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+
+    for (const bracket of finished.slice(MAX_FINISHED_BRACKETS)) {
+      this.brackets.delete(bracket.id);
+    }
+    return [...this.brackets.values()];
+  }
+
+  private persist(): Promise<void> {
+    return this.stateFile.save(this.snapshot());
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  ApiResponse,
+  Order,
+  OrderSide,
+  Position,
+  PositionSide,
+} from '../../common/types/exchange.types';
+import { OcoLeg, OcoLegType } from '../types';
+
+export const OCO_LEG_TYPES: OcoLegType[] = ['stopLoss', 'takeProfit'];
+
+/**
+ * Leg for a placed stop loss or take profit, or undefined when it was not placed
+ */
+export function toLeg(
+  response: ApiResponse<Order> | undefined,
+  price: string | undefined,
+): OcoLeg | undefined {
+  const order = response?.success ? response.data : undefined;
+  if (order?.orderId === undefined || order.orderId === null) return undefined;
+
+  return {
+    orderId: order.orderId.toString(),
+    price: price ?? order.price,
+    // closePosition orders report no quantity
+    quantity: parseFloat(order.quantity) > 0 ? order.quantity : undefined,
+    status: 'open',
+  };
+}
+
+/**
+ * Both legs of a quickLong/quickShort response, or undefined unless both were placed
+ */
+export function getQuickBracketLegs(
+  response: ApiResponse<any>,
+): { stopLoss: OcoLeg; takeProfit: OcoLeg } | undefined {
+  if (!response?.success || !response.data?.mainOrder) return undefined;
+
+  const { stopLoss, takeProfit, stopLossPrice, takeProfitPrice } = response.data;
+  const legs = {
+    stopLoss: toLeg(stopLoss, stopLossPrice?.toString()),
+    takeProfit: toLeg(takeProfit, takeProfitPrice?.toString()),
+  };
+
+  return legs.stopLoss && legs.takeProfit ? legs : undefined;
+}
+
+/**
+ * Size of the position that orders on `closeSide` reduce (some exchanges report signed sizes)
+ */
+export function getPositionSize(
+  positions: Position | Position[] | null | undefined,
+  closeSide: OrderSide,
+): number {
+  const side = closeSide === OrderSide.SELL ? PositionSide.LONG : PositionSide.SHORT;
+
+  return ([] as Position[])
+    .concat(positions ?? [])
+    .filter(position => position.side === side)
+    .reduce((size, position) => size + Math.abs(parseFloat(position.size) || 0), 0);
+}
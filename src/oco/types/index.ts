@@ -0,0 +1,49 @@
+import { ExchangeName, OrderSide } from '../../common/types/exchange.types';
+
+// pending: waiting for the position to show up; active: watching the position
+export type OcoStatus = 'pending' | 'active' | 'completed' | 'cancelled';
+
+export type OcoLegType = 'stopLoss' | 'takeProfit';
+
+export type OcoLegStatus = 'open' | 'filled' | 'cancelled';
+
+export interface OcoLeg {
+  orderId: string;
+  // Trigger price
+  price: string;
+  // Unset for legs that close whatever is left of the position (never resized)
+  quantity?: string;
+  status: OcoLegStatus;
+}
+
+export interface OcoBracketRequest {
+  exchange: ExchangeName;
+  symbol: string;
+  stopPrice: string;
+  takeProfitPrice: string;
+  // Defaults to the whole position
+  quantity?: string;
+}
+
+export interface OcoBracket {
+  id: string;
+  exchange: ExchangeName;
+  // Exchange-specific format
+  symbol: string;
+  // Side of the closing orders (SELL protects a long)
+  side: OrderSide;
+  stopLoss: OcoLeg;
+  takeProfit: OcoLeg;
+  // Position size when last checked
+  positionSize?: number;
+  strategy?: string;
+  status: OcoStatus;
+  reason?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OcoQuery {
+  status?: OcoStatus;
+  exchange?: ExchangeName;
+}
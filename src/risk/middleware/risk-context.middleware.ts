@@ -0,0 +1,27 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response, NextFunction } from 'express';
+import { authenticateApiKey, parseApiKeys } from '../../common/guards/api-key.guard';
+import { RiskService } from '../services/risk.service';
+
+/**
+ * Check orders placed by the request against the risk limits of its API key.
+ *
+ * Middleware runs before guards, so the key is authenticated here: an unknown key is rejected
+ * rather than given the default limits.
+ */
+@Injectable()
+export class RiskContextMiddleware implements NestMiddleware {
+  private readonly apiKeys: string[];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly risk: RiskService,
+  ) {
+    this.apiKeys = parseApiKeys(this.configService.get<string>('API_KEY_ACCESS'));
+  }
+
+  use(req: Request, res: Response, next: NextFunction) {
+    this.risk.runWithApiKey(authenticateApiKey(req, this.apiKeys), next);
+  }
+}
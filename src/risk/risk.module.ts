@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { HeartbeatService } from './services/heartbeat.service';
+import { KillSwitchService } from './services/kill-switch.service';
+import { RiskService } from './services/risk.service';
+
+@Module({
+  providers: [RiskService, KillSwitchService, HeartbeatService],
+  exports: [RiskService, KillSwitchService, HeartbeatService],
+})
+export class RiskModule {}
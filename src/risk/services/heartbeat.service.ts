@@ -0,0 +1,191 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
+import { ApiResponse, ExchangeName } from '../../common/types/exchange.types';
+import { HeartbeatConfig } from '../../config/heartbeat.config';
+import { HeartbeatStatus } from '../types';
+
+const REFRESH_INTERVAL_NAME = 'heartbeat-refresh';
+
+/**
+ * Dead man's switch driven by client heartbeats.
+ *
+ * Each heartbeat arms the exchange-native cancel-all timer so that open orders are pulled
+ * timeoutMs after it, unless another heartbeat comes in first. Armed timers are re-sent on a
+ * schedule with the time left: that keeps OKX (capped at 120 seconds) counting down to the same
+ * deadline and covers symbols that got orders since on Binance and Aster, where timers run per
+ * symbol. Timers stay armed on shutdown, so orders are also pulled when this service stops.
+ */
+@Injectable()
+export class HeartbeatService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(HeartbeatService.name);
+  private readonly config: HeartbeatConfig;
+  private readonly switches = new Map<ExchangeName, HeartbeatStatus>();
+  // Last timer update sent to each exchange
+  private readonly sending = new Map<ExchangeName, Promise<void>>();
+  private refreshing = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {
+    this.config = this.configService.get<HeartbeatConfig>('heartbeat')!;
+  }
+
+  onModuleInit() {
+    this.schedulerRegistry.addInterval(
+      REFRESH_INTERVAL_NAME,
+      setInterval(() => void this.refresh(), this.config.refreshIntervalMs),
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', REFRESH_INTERVAL_NAME)) {
+      this.schedulerRegistry.deleteInterval(REFRESH_INTERVAL_NAME);
+    }
+  }
+
+  /**
+   * Switches that have not run out yet
+   */
+  getStatus(): ApiResponse<HeartbeatStatus[]> {
+    const now = Date.now();
+    return {
+      success: true,
+      data: [...this.switches.values()].filter(status => now < status.expiresAt),
+      timestamp: now,
+    };
+  }
+
+  /**
+   * Push the deadline on each exchange back to timeoutMs from now, arming it if needed
+   */
+  async heartbeat(
+    exchanges: ExchangeName[],
+    timeoutMs: number = this.config.timeoutMs,
+  ): Promise<ApiResponse<HeartbeatStatus[]>> {
+    const now = Date.now();
+    const statuses = exchanges.map(exchange => {
+      const status: HeartbeatStatus = {
+        exchange,
+        timeoutMs,
+        lastHeartbeatAt: now,
+        expiresAt: now + timeoutMs,
+      };
+      this.switches.set(exchange, status);
+      return status;
+    });
+
+    await Promise.all(statuses.map(status => this.arm(status)));
+
+    const failed = statuses.filter(status => status.error);
+    if (failed.length > 0) {
+      return {
+        success: false,
+        error: `Failed to arm dead man's switch on ${failed.map(status => `${status.exchange} (${status.error})`).join(', ')}`,
+        data: statuses,
+        timestamp: Date.now(),
+      };
+    }
+
+    return { success: true, data: statuses, timestamp: Date.now() };
+  }
+
+  /**
+   * Stop heartbeats on the given exchanges (default: all armed ones) and disarm their timers
+   */
+  async disarm(exchanges?: ExchangeName[]): Promise<ApiResponse<ExchangeName[]>> {
+    const targets = exchanges || [...this.switches.keys()];
+    const errors: string[] = [];
+
+    await Promise.all(
+      targets.map(async exchange => {
+        this.switches.delete(exchange);
+        try {
+          await this.send(exchange);
+          this.logger.log(`Dead man's switch disarmed on ${exchange}`);
+        } catch (error: any) {
+          errors.push(`${exchange} (${error.message})`);
+        }
+      }),
+    );
+
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `Failed to disarm dead man's switch on ${errors.join(', ')}`,
+        data: targets,
+        timestamp: Date.now(),
+      };
+    }
+
+    return { success: true, data: targets, timestamp: Date.now() };
+  }
+
+  /**
+   * Re-send every armed timer with the time left, dropping those that ran out
+   */
+  async refresh(): Promise<void> {
+    if (this.refreshing) return;
+    this.refreshing = true;
+
+    try {
+      await Promise.all(
+        [...this.switches.values()].map(async status => {
+          if (Date.now() < status.expiresAt) {
+            return this.arm(status);
+          }
+
+          this.switches.delete(status.exchange);
+          this.logger.error(
+            `No heartbeat for ${status.timeoutMs}ms: ${status.exchange} pulls all open orders`,
+          );
+        }),
+      );
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private async arm(status: HeartbeatStatus): Promise<void> {
+    try {
+      await this.send(status.exchange);
+    } catch (error: any) {
+      status.error = error.message;
+      this.logger.error(`Failed to arm dead man's switch on ${status.exchange}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Send the exchange the time left until its deadline, or disarm it once no switch is set.
+   * Updates to one exchange go out in order, so an older deadline never overwrites a newer one.
+   */
+  private send(exchange: ExchangeName): Promise<void> {
+    const next = (this.sending.get(exchange) || Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        const status = this.switches.get(exchange);
+        const timeoutMs = status ? status.expiresAt - Date.now() : 0;
+        // The exchange has pulled the orders already
+        if (status && timeoutMs <= 0) return;
+
+        const trading = await this.exchangeFactory.getTradingService(exchange, 'perpetual');
+        const response = await trading.cancelAllAfter(timeoutMs);
+        if (!response.success) {
+          throw new Error(response.error || 'Exchange rejected the timeout');
+        }
+
+        if (status) {
+          status.cancelAt = response.data?.cancelAt;
+          status.symbols = response.data?.symbols;
+          status.armedAt = Date.now();
+          status.error = undefined;
+        }
+      });
+
+    this.sending.set(exchange, next);
+    return next;
+  }
+}
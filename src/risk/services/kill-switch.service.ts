@@ -0,0 +1,355 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import {
+  ExchangeServiceFactory,
+  interceptTradingMethods,
+} from '../../common/factory/exchange.factory';
+import {
+  isPerpetualBalanceService,
+  isPerpetualTradingService,
+  PlaceOrderParams,
+} from '../../common/interfaces';
+import { ApiResponse, ExchangeName, Position } from '../../common/types/exchange.types';
+import { JsonStateFile } from '../../common/state';
+import { KillSwitchConfig } from '../../config/kill-switch.config';
+import { RISK_CHECKED_OPERATIONS } from '../shared/risk-operations';
+import { FlattenResult, KillSwitchState, KillSwitchStatus } from '../types';
+
+const CHECK_INTERVAL_NAME = 'kill-switch-check';
+
+// Methods that open or add to exposure; reduce-only orders still go through
+const BLOCKED_OPERATIONS = [...Object.keys(RISK_CHECKED_OPERATIONS), 'placeOrders', 'modifyOrder'];
+
+// Settings an exchange needs to reach the account, as its API service checks them
+const CREDENTIAL_SETTINGS: Partial<Record<ExchangeName, string[]>> = {
+  aster: ['aster.userAddress', 'aster.signerAddress', 'aster.privateKey'],
+  hyperliquid: ['hyperliquid.userAddress', 'hyperliquid.apiWallet', 'hyperliquid.apiPrivateKey'],
+  binance: ['binance.apiKey', 'binance.apiSecret'],
+  okx: ['okx.apiKey', 'okx.apiSecret', 'okx.passphrase'],
+  orderly: ['orderly.accountId', 'orderly.orderlySecret'],
+};
+
+/**
+ * Account-level kill switch.
+ *
+ * Total equity (getPortfolioValue) across the tracked exchanges is checked on a schedule. When
+ * the loss since the start of the UTC day or the drawdown from peak passes its threshold, or an
+ * exchange reports the account at risk of liquidation, every open order is cancelled, every
+ * position is closed and new orders are rejected until an operator re-arms trading.
+ */
+@Injectable()
+export class KillSwitchService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(KillSwitchService.name);
+  private readonly config: KillSwitchConfig;
+  private state: KillSwitchState = { tripped: false, equities: {} };
+  private checking = false;
+  private readonly stateFile: JsonStateFile<KillSwitchState>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {
+    this.config = this.configService.get<KillSwitchConfig>('killSwitch')!;
+    this.stateFile = new JsonStateFile(this.config.stateFile, 'kill switch state', this.logger);
+  }
+
+  onModuleInit() {
+    this.state = this.stateFile.load() || { tripped: false, equities: {} };
+    if (this.state.tripped) {
+      this.logger.warn(`⚠️  Trading is halted by the kill switch: ${this.state.reason}`);
+    }
+
+    this.exchangeFactory.addTradingDecorator(service =>
+      interceptTradingMethods(service, BLOCKED_OPERATIONS, (method, args, call) =>
+        this.state.tripped && !isReduceOnly(method, args[0]) ? this.halted() : call(...args),
+      ),
+    );
+
+    const { maxDailyLossPercent, maxDrawdownPercent, onLiquidationRisk } = this.config;
+    if (maxDailyLossPercent || maxDrawdownPercent || onLiquidationRisk) {
+      this.schedulerRegistry.addInterval(
+        CHECK_INTERVAL_NAME,
+        setInterval(() => void this.runCheck(), this.config.checkIntervalMs),
+      );
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', CHECK_INTERVAL_NAME)) {
+      this.schedulerRegistry.deleteInterval(CHECK_INTERVAL_NAME);
+    }
+    this.stateFile.saveSync(this.state);
+  }
+
+  /**
+   * Whether trading is halted, with the equity figures behind the thresholds
+   */
+  getStatus(): ApiResponse<KillSwitchStatus> {
+    const { peakEquity, dayStartEquity } = this.state;
+    const equity = this.getEquity();
+
+    return {
+      success: true,
+      data: {
+        ...this.state,
+        equity,
+        dailyLossPercent: lossPercent(dayStartEquity, equity),
+        drawdownPercent: lossPercent(peakEquity, equity),
+        maxDailyLossPercent: this.config.maxDailyLossPercent,
+        maxDrawdownPercent: this.config.maxDrawdownPercent,
+        onLiquidationRisk: this.config.onLiquidationRisk,
+      },
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Halt trading: cancel every open order, close every position and reject new orders
+   */
+  async trip(reason: string): Promise<ApiResponse<KillSwitchStatus>> {
+    try {
+      if (this.state.tripped) {
+        throw new Error(`Kill switch already tripped: ${this.state.reason}`);
+      }
+
+      this.state = { ...this.state, tripped: true, reason, trippedAt: Date.now() };
+      this.state.flattened = undefined;
+      this.state.rearmedAt = undefined;
+      await this.persist();
+      this.logger.error(`Kill switch tripped: ${reason}`);
+
+      this.state.flattened = await Promise.all(
+        this.getExchanges().map(exchange => this.flatten(exchange)),
+      );
+      await this.persist();
+
+      return this.getStatus();
+    } catch (error: any) {
+      this.logger.error('Error tripping kill switch:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to trip kill switch',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Accept orders again. Peak and daily equity start over from the next check, so the loss
+   * that tripped the switch does not trip it again.
+   */
+  async rearm(): Promise<ApiResponse<KillSwitchStatus>> {
+    try {
+      if (!this.state.tripped) {
+        throw new Error('Kill switch is not tripped');
+      }
+
+      this.state = {
+        ...this.state,
+        tripped: false,
+        rearmedAt: Date.now(),
+        peakEquity: undefined,
+        day: undefined,
+        dayStartEquity: undefined,
+      };
+      await this.persist();
+      this.logger.warn('Kill switch re-armed, trading resumed');
+
+      return this.getStatus();
+    } catch (error: any) {
+      this.logger.error('Error re-arming kill switch:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to re-arm kill switch',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Read equity on every tracked exchange and trip when a threshold is passed. An exchange
+   * that cannot be read keeps its last known equity.
+   */
+  async check(): Promise<void> {
+    if (this.state.tripped) return;
+
+    const atRisk: ExchangeName[] = [];
+    await Promise.all(
+      this.getExchanges().map(async exchange => {
+        try {
+          const balance = await this.exchangeFactory.getBalanceService(exchange, 'perpetual');
+          const portfolio = await balance.getPortfolioValue();
+          if (!portfolio.success) throw new Error(portfolio.error);
+          this.state.equities[exchange] = parseFloat(portfolio.data!.totalValue);
+
+          if (this.config.onLiquidationRisk && isPerpetualBalanceService(balance)) {
+            const risk = await balance.isAtRiskOfLiquidation();
+            if (risk.success && risk.data) atRisk.push(exchange);
+          }
+        } catch (error: any) {
+          this.logger.warn(`Could not read equity on ${exchange}: ${error.message}`);
+        }
+      }),
+    );
+
+    const equity = this.getEquity();
+    if (equity === undefined) return;
+
+    const day = new Date().toISOString().slice(0, 10);
+    if (this.state.day !== day) {
+      this.state.day = day;
+      this.state.dayStartEquity = equity;
+    }
+    this.state.peakEquity = Math.max(this.state.peakEquity ?? equity, equity);
+    this.state.checkedAt = Date.now();
+
+    const dailyLoss = lossPercent(this.state.dayStartEquity, equity)!;
+    const drawdown = lossPercent(this.state.peakEquity, equity)!;
+    const { maxDailyLossPercent, maxDrawdownPercent } = this.config;
+    const reason =
+      maxDailyLossPercent && dailyLoss >= maxDailyLossPercent
+        ? `Daily loss of ${dailyLoss}% reached the ${maxDailyLossPercent}% limit`
+        : maxDrawdownPercent && drawdown >= maxDrawdownPercent
+          ? `Drawdown of ${drawdown}% from peak reached the ${maxDrawdownPercent}% limit`
+          : atRisk.length > 0
+            ? `At risk of liquidation on ${atRisk.join(', ')}`
+            : undefined;
+
+    if (reason) {
+      await this.trip(reason);
+    } else {
+      await this.persist();
+    }
+  }
+
+  private async runCheck(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      await this.check();
+    } catch (error: any) {
+      this.logger.error('Error checking kill switch:', error.message);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Total of the last equity read on each tracked exchange
+   */
+  private getEquity(): number | undefined {
+    const equities = this.getExchanges()
+      .map(exchange => this.state.equities[exchange])
+      .filter((equity): equity is number => equity !== undefined);
+    return equities.length ? equities.reduce((sum, value) => sum + value, 0) : undefined;
+  }
+
+  /**
+   * Tracked exchanges: the configured ones, else every perpetual exchange with credentials
+   * set (the paper venue only when configured)
+   */
+  private getExchanges(): ExchangeName[] {
+    if (this.config.exchanges.length) return this.config.exchanges;
+
+    return this.exchangeFactory
+      .getAvailableExchanges()
+      .filter(({ exchange, tradingType }) => tradingType === 'perpetual' && exchange !== 'paper')
+      .map(({ exchange }) => exchange)
+      .filter(exchange => this.hasCredentials(exchange));
+  }
+
+  private hasCredentials(exchange: ExchangeName): boolean {
+    const settings = CREDENTIAL_SETTINGS[exchange];
+    return !!settings && settings.every(setting => !!this.configService.get<string>(setting));
+  }
+
+  /**
+   * Cancel open orders symbol by symbol (some exchanges require one), then close positions and
+   * the conditional orders left on their symbols
+   */
+  private async flatten(exchange: ExchangeName): Promise<FlattenResult> {
+    const errors: string[] = [];
+    let ordersCancelled = false;
+    let positionsClosed = false;
+
+    try {
+      const trading = await this.exchangeFactory.getTradingService(exchange, 'perpetual');
+      if (!isPerpetualTradingService(trading)) {
+        throw new Error('not a perpetual trading service');
+      }
+
+      const [orders, positions] = await Promise.all([
+        trading.getOpenOrders(),
+        trading.getPositions(),
+      ]);
+      if (!orders.success) throw new Error(`get open orders: ${orders.error}`);
+
+      const orderSymbols = new Set(orders.data!.map(order => order.symbol));
+      ordersCancelled = true;
+      for (const symbol of orderSymbols) {
+        const cancelled = await trading.cancelAllOrders(symbol);
+        if (cancelled.success) continue;
+        ordersCancelled = false;
+        errors.push(`cancel ${symbol} orders: ${cancelled.error}`);
+      }
+
+      const closed = await trading.closeAllPositions();
+      positionsClosed = closed.success;
+      if (!closed.success) errors.push(`close positions: ${closed.error}`);
+
+      const positionSymbols = ([] as Position[])
+        .concat(positions.data ?? [])
+        .map(position => position.symbol);
+      for (const symbol of new Set([...orderSymbols, ...positionSymbols])) {
+        const conditional = await trading.cancelAllConditionalOrders(symbol);
+        if (!conditional.success) errors.push(`cancel ${symbol} stops: ${conditional.error}`);
+      }
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+
+    if (errors.length > 0) {
+      this.logger.error(`Kill switch could not flatten ${exchange}: ${errors.join('; ')}`);
+    }
+    return {
+      exchange,
+      ordersCancelled,
+      positionsClosed,
+      error: errors.length > 0 ? errors.join('; ') : undefined,
+    };
+  }
+
+  private async halted(): Promise<ApiResponse<any>> {
+    return {
+      success: false,
+      error:
+        `Trading is halted by the kill switch (${this.state.reason}); ` +
+        're-arm it with POST /api/risk/kill-switch/rearm',
+      timestamp: Date.now(),
+    };
+  }
+
+  private persist(): Promise<void> {
+    return this.stateFile.save(this.state);
+  }
+}
+
+/**
+ * Orders that only reduce a position are let through a halt
+ */
+function isReduceOnly(method: string, params: any): boolean {
+  if (method === 'placeOrders') {
+    return (params as PlaceOrderParams[]).every(order => order.reduceOnly);
+  }
+  return ['placeOrder', 'placeMarketOrder', 'placeLimitOrder'].includes(method)
+    ? !!params?.reduceOnly
+    : false;
+}
+
+function lossPercent(from: number | undefined, equity: number | undefined): number | undefined {
+  if (!from || equity === undefined) return undefined;
+  return parseFloat((((from - equity) / from) * 100).toFixed(2));
+}
@@ -0,0 +1,379 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AsyncLocalStorage } from 'async_hooks';
+import { toBatchResponse, batchItemFailure } from '../../common/batch';
+import {
+  ExchangeServiceFactory,
+  interceptTradingMethods,
+} from '../../common/factory/exchange.factory';
+import {
+  IBaseTradingService,
+  isPerpetualMarketService,
+  isPerpetualTradingService,
+  ModifyOrderParams,
+  PlaceOrderParams,
+  SetLeverageParams,
+} from '../../common/interfaces';
+import {
+  ApiResponse,
+  ExchangeName,
+  Order,
+  OrderSide,
+  OrderType,
+  Position,
+  PositionSide,
+  TradingType,
+} from '../../common/types/exchange.types';
+import { RiskConfig, RiskLimits } from '../../config/risk.config';
+import { TradingConfig } from '../../config/trading.config';
+import { checkLeverage, checkOrder, mergeLimits, withOrder } from '../shared/risk-checks';
+import { fromParams, OrderRequest, RISK_CHECKED_OPERATIONS } from '../shared/risk-operations';
+import { AccountExposure, OrderIntent, RiskRejection, SymbolExposure } from '../types';
+
+const BATCH_OPERATION = 'placeOrders';
+const AMEND_OPERATION = 'modifyOrder';
+const LEVERAGE_OPERATION = 'setLeverage';
+
+// Resting orders that only fire on a trigger, typically protecting a position
+const CONDITIONAL_TYPES = [
+  OrderType.STOP_MARKET,
+  OrderType.STOP_LIMIT,
+  OrderType.TAKE_PROFIT,
+  OrderType.TAKE_PROFIT_MARKET,
+  OrderType.TRAILING_STOP,
+];
+
+// Limits that need the account's positions and open orders
+const ACCOUNT_LIMITS: (keyof RiskLimits)[] = [
+  'maxSymbolNotional',
+  'maxAccountNotional',
+  'maxLeverage',
+  'maxOpenOrders',
+];
+
+/**
+ * Pre-trade risk checks on every order placed through the exchange services.
+ *
+ * Orders that would push a symbol or the account past its notional cap, open beyond the
+ * maximum leverage or open order count, price away from mark or look like a fat finger are
+ * rejected before reaching the exchange, with one structured reason per limit hit. Limits are
+ * layered: defaults, then the exchange, then the API key of the request.
+ */
+@Injectable()
+export class RiskService implements OnModuleInit {
+  private readonly logger = new Logger(RiskService.name);
+  private readonly config: RiskConfig;
+  private readonly defaults: RiskLimits;
+  private readonly context = new AsyncLocalStorage<string>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+  ) {
+    this.config = this.configService.get<RiskConfig>('risk')!;
+    const { maxPositionSize } = this.configService.get<TradingConfig>('trading')!;
+    this.defaults = { maxSymbolNotional: maxPositionSize, ...this.config.limits };
+  }
+
+  onModuleInit(): void {
+    if (!this.config.enabled) {
+      this.logger.warn('⚠️  Pre-trade risk checks are disabled (RISK_ENABLED=false)');
+      return;
+    }
+
+    this.exchangeFactory.addTradingDecorator((service, exchange, tradingType) =>
+      interceptTradingMethods(
+        service,
+        [
+          ...Object.keys(RISK_CHECKED_OPERATIONS),
+          BATCH_OPERATION,
+          AMEND_OPERATION,
+          LEVERAGE_OPERATION,
+        ],
+        (method, args, call) => {
+          switch (method) {
+            case BATCH_OPERATION:
+              return this.placeOrders(exchange, tradingType, service, args[0], call);
+            case AMEND_OPERATION:
+              return this.modifyOrder(exchange, tradingType, service, args[0], call);
+            case LEVERAGE_OPERATION:
+              return this.setLeverage(exchange, args[0], call);
+            default:
+              return this.placeOrder(
+                exchange,
+                tradingType,
+                service,
+                RISK_CHECKED_OPERATIONS[method](...args),
+                () => call(...args),
+              );
+          }
+        },
+      ),
+    );
+  }
+
+  /**
+   * Run `fn` with the orders it places checked against the limits of `apiKey`
+   */
+  runWithApiKey<T>(apiKey: string | undefined, fn: () => T): T {
+    return apiKey ? this.context.run(apiKey, fn) : fn();
+  }
+
+  /**
+   * Limits that apply on `exchange` to the current request
+   */
+  getLimits(exchange: ExchangeName): RiskLimits {
+    const apiKey = this.context.getStore();
+    return mergeLimits(
+      this.defaults,
+      this.config.exchangeLimits[exchange],
+      apiKey ? this.config.apiKeyLimits[apiKey] : undefined,
+    );
+  }
+
+  private async placeOrder(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+    service: IBaseTradingService,
+    request: OrderRequest,
+    call: () => Promise<ApiResponse<any>>,
+  ): Promise<ApiResponse<any>> {
+    const limits = this.getLimits(exchange);
+    if (!this.hasLimits(limits)) return call();
+
+    try {
+      const account = await this.loadAccount(exchange, tradingType, service, limits, [
+        request.symbol,
+      ]);
+      const rejections = checkOrder(this.toIntent(request, account), limits, account);
+      if (rejections.length > 0) return this.reject(exchange, rejections);
+    } catch (error: any) {
+      return this.unchecked(error);
+    }
+
+    return call();
+  }
+
+  /**
+   * Check a batch order by order, each accepted order counting towards the limits of the
+   * ones after it. Only accepted orders are sent; rejected ones fail in place.
+   */
+  private async placeOrders(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+    service: IBaseTradingService,
+    orders: PlaceOrderParams[],
+    call: (orders: PlaceOrderParams[]) => Promise<ApiResponse<ApiResponse<Order>[]>>,
+  ): Promise<ApiResponse<ApiResponse<Order>[]>> {
+    const limits = this.getLimits(exchange);
+    if (!this.hasLimits(limits) || orders.length === 0) return call(orders);
+
+    const results: ApiResponse<Order>[] = new Array(orders.length);
+    const accepted: number[] = [];
+
+    try {
+      const symbols = [...new Set(orders.map(params => params.symbol))];
+      const account = await this.loadAccount(exchange, tradingType, service, limits, symbols);
+
+      orders.forEach((params, index) => {
+        const intent = this.toIntent(fromParams(params), account);
+        const rejections = checkOrder(intent, limits, account);
+
+        if (rejections.length > 0) {
+          results[index] = this.reject(exchange, rejections);
+          return;
+        }
+        account.symbols.set(intent.symbol, withOrder(account.symbols.get(intent.symbol)!, intent));
+        account.openOrders++;
+        accepted.push(index);
+      });
+    } catch (error: any) {
+      return this.unchecked(error);
+    }
+
+    if (accepted.length === 0) return toBatchResponse(results, exchange, tradingType);
+
+    const response = await call(accepted.map(index => orders[index]));
+    if (!response.success) return response;
+
+    accepted.forEach((index, i) => {
+      results[index] = response.data?.[i] ?? batchItemFailure('No result for this order');
+    });
+    return { ...response, data: results };
+  }
+
+  /**
+   * Check an amended order as the order it becomes; amends that change neither price nor
+   * quantity, or whose order cannot be found, go through for the exchange to answer
+   */
+  private async modifyOrder(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+    service: IBaseTradingService,
+    params: ModifyOrderParams,
+    call: (params: ModifyOrderParams) => Promise<ApiResponse<Order>>,
+  ): Promise<ApiResponse<Order>> {
+    const limits = this.getLimits(exchange);
+    if (!this.hasLimits(limits) || (!params.price && !params.quantity)) return call(params);
+
+    try {
+      const found = params.orderId
+        ? await service.getOrder(params.symbol, params.orderId)
+        : params.clientOrderId
+          ? await service.getOrderByClientId(params.symbol, params.clientOrderId)
+          : undefined;
+      const order = found?.success ? found.data : null;
+      if (!order) return call(params);
+
+      const executed = parseFloat(order.executedQuantity) || 0;
+      const account = await this.loadAccount(exchange, tradingType, service, limits, [
+        params.symbol,
+      ]);
+      const intent = this.toIntent(
+        {
+          symbol: params.symbol,
+          side: order.side,
+          quantity: parseFloat(params.quantity ?? order.quantity) - executed,
+          price: parseFloat(params.price ?? order.price) || undefined,
+          replaces: parseFloat(order.quantity) - executed,
+        },
+        account,
+      );
+
+      const rejections = checkOrder(intent, limits, account);
+      if (rejections.length > 0) return this.reject(exchange, rejections);
+    } catch (error: any) {
+      return this.unchecked(error);
+    }
+
+    return call(params);
+  }
+
+  private async setLeverage(
+    exchange: ExchangeName,
+    params: SetLeverageParams,
+    call: (params: SetLeverageParams) => Promise<ApiResponse<any>>,
+  ): Promise<ApiResponse<any>> {
+    const rejections = checkLeverage(params.leverage, this.getLimits(exchange));
+    return rejections.length > 0 ? this.reject(exchange, rejections) : call(params);
+  }
+
+  /**
+   * Positions and open orders on the exchange, with `symbols` valued at mark price. Only
+   * mark prices are fetched when no limit needs the rest of the account.
+   */
+  private async loadAccount(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+    service: IBaseTradingService,
+    limits: RiskLimits,
+    symbols: string[],
+  ): Promise<AccountExposure> {
+    const account: AccountExposure = { symbols: new Map(), openOrders: 0 };
+    const exposureOf = (symbol: string): SymbolExposure => {
+      if (!account.symbols.has(symbol)) {
+        account.symbols.set(symbol, { position: 0, long: 0, short: 0, price: 0 });
+      }
+      return account.symbols.get(symbol)!;
+    };
+
+    if (ACCOUNT_LIMITS.some(limit => limits[limit])) {
+      const [positions, openOrders] = await Promise.all([
+        isPerpetualTradingService(service)
+          ? service.getPositions()
+          : ({ success: true, data: [], timestamp: Date.now() } as ApiResponse<Position[]>),
+        service.getOpenOrders(),
+      ]);
+      if (!positions.success) throw new Error(`Failed to get positions: ${positions.error}`);
+      if (!openOrders.success) throw new Error(`Failed to get open orders: ${openOrders.error}`);
+
+      for (const position of ([] as Position[]).concat(positions.data ?? [])) {
+        const exposure = exposureOf(position.symbol);
+        const size = parseFloat(position.size) || 0;
+        exposure.position +=
+          position.side === PositionSide.SHORT
+            ? -Math.abs(size)
+            : position.side === PositionSide.LONG
+              ? Math.abs(size)
+              : size;
+        exposure.price = parseFloat(position.markPrice || position.entryPrice) || exposure.price;
+        exposure.leverage = position.leverage ?? exposure.leverage;
+      }
+
+      for (const order of openOrders.data ?? []) {
+        account.openOrders++;
+        if (CONDITIONAL_TYPES.includes(order.type)) continue;
+
+        const exposure = exposureOf(order.symbol);
+        const remaining =
+          (parseFloat(order.quantity) || 0) - (parseFloat(order.executedQuantity) || 0);
+        exposure[order.side === OrderSide.BUY ? 'long' : 'short'] += Math.max(0, remaining);
+        exposure.price = exposure.price || parseFloat(order.price) || 0;
+      }
+    }
+
+    for (const symbol of symbols) {
+      exposureOf(symbol).price = await this.getMarkPrice(exchange, tradingType, symbol);
+    }
+
+    return account;
+  }
+
+  private async getMarkPrice(
+    exchange: ExchangeName,
+    tradingType: TradingType,
+    symbol: string,
+  ): Promise<number> {
+    const market = await this.exchangeFactory.getMarketService(exchange, tradingType);
+    let price: number;
+
+    if (isPerpetualMarketService(market)) {
+      const response = await market.getMarkPrice(symbol);
+      if (!response.success) throw new Error(`Failed to get mark price: ${response.error}`);
+
+      const data = Array.isArray(response.data)
+        ? response.data.find(item => item.symbol === symbol)
+        : response.data;
+      price = parseFloat(data?.markPrice ?? '');
+    } else {
+      const response = await market.getCurrentPrice(symbol);
+      if (!response.success) throw new Error(`Failed to get mark price: ${response.error}`);
+      price = parseFloat(response.data ?? '');
+    }
+
+    if (!(price > 0)) throw new Error(`No mark price for ${symbol}`);
+    return price;
+  }
+
+  private toIntent(request: OrderRequest, account: AccountExposure): OrderIntent {
+    const { usdValue, ...intent } = request;
+    const price = account.symbols.get(request.symbol)!.price;
+    return { ...intent, quantity: request.quantity ?? usdValue! / price };
+  }
+
+  private hasLimits(limits: RiskLimits): boolean {
+    return Object.values(limits).some(limit => !!limit);
+  }
+
+  private reject(exchange: ExchangeName, rejections: RiskRejection[]): ApiResponse<any> {
+    const reasons = rejections.map(rejection => rejection.message).join('; ');
+    this.logger.warn(`Order rejected on ${exchange}: ${reasons}`);
+
+    return {
+      success: false,
+      error: `Rejected by risk checks: ${reasons}`,
+      data: { rejections },
+      timestamp: Date.now(),
+    };
+  }
+
+  // Orders are never sent unchecked
+  private unchecked(error: Error): ApiResponse<never> {
+    this.logger.error('Error running risk checks:', error.message);
+    return {
+      success: false,
+      error: `Risk checks could not run: ${error.message || 'unknown error'}`,
+      timestamp: Date.now(),
+    };
+  }
+}
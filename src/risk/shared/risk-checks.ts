@@ -0,0 +1,182 @@
+import { OrderSide } from '../../common/types/exchange.types';
+import {
+  AccountExposure,
+  OrderIntent,
+  RiskCheck,
+  RiskLimits,
+  RiskRejection,
+  SymbolExposure,
+} from '../types';
+
+/**
+ * Layer limit sets, later ones winning for every limit they set
+ */
+export function mergeLimits(...sets: (RiskLimits | undefined)[]): RiskLimits {
+  return Object.assign(
+    {},
+    ...sets.map(set =>
+      Object.fromEntries(Object.entries(set ?? {}).filter(([, value]) => value !== undefined)),
+    ),
+  );
+}
+
+/**
+ * Largest position a symbol can reach if every resting order on one side fills
+ */
+export function worstCaseSize(exposure: SymbolExposure): number {
+  return Math.max(0, exposure.position + exposure.long, exposure.short - exposure.position);
+}
+
+/**
+ * USD notional of every symbol at its worst case
+ */
+export function accountNotional(account: AccountExposure): number {
+  let notional = 0;
+  for (const exposure of account.symbols.values()) {
+    notional += worstCaseSize(exposure) * exposure.price;
+  }
+  return notional;
+}
+
+/**
+ * Exposure of the order's symbol once the order rests on the book
+ */
+export function withOrder(exposure: SymbolExposure, intent: OrderIntent): SymbolExposure {
+  const side = intent.side === OrderSide.BUY ? 'long' : 'short';
+  return {
+    ...exposure,
+    [side]: exposure[side] - (intent.replaces ?? 0) + intent.quantity,
+  };
+}
+
+/**
+ * Check a leverage setting against the limit
+ */
+export function checkLeverage(leverage: number, limits: RiskLimits): RiskRejection[] {
+  return exceeds(limits.maxLeverage, leverage)
+    ? [
+        rejection(
+          'leverage',
+          limits.maxLeverage!,
+          leverage,
+          `Leverage ${leverage}x exceeds the maximum of ${limits.maxLeverage}x`,
+        ),
+      ]
+    : [];
+}
+
+/**
+ * Run every pre-trade check on one order. `account` must hold the order's symbol, valued at
+ * mark price. Reduce-only orders are exempt from the exposure and leverage limits.
+ */
+export function checkOrder(
+  intent: OrderIntent,
+  limits: RiskLimits,
+  account: AccountExposure,
+): RiskRejection[] {
+  const rejections: RiskRejection[] = [];
+  const exposure = account.symbols.get(intent.symbol)!;
+  const markPrice = exposure.price;
+  const price = intent.price ?? markPrice;
+  const notional = intent.quantity * price;
+
+  if (exceeds(limits.maxOrderQuantity, intent.quantity)) {
+    rejections.push(
+      rejection(
+        'orderQuantity',
+        limits.maxOrderQuantity!,
+        intent.quantity,
+        `Order quantity ${intent.quantity} exceeds the maximum of ${limits.maxOrderQuantity}`,
+      ),
+    );
+  }
+  if (exceeds(limits.maxOrderNotional, notional)) {
+    rejections.push(
+      rejection(
+        'orderNotional',
+        limits.maxOrderNotional!,
+        notional,
+        `Order notional ${usd(notional)} exceeds the maximum of ${usd(limits.maxOrderNotional!)}`,
+      ),
+    );
+  }
+
+  if (intent.price !== undefined && markPrice > 0) {
+    const deviation = (Math.abs(intent.price - markPrice) / markPrice) * 100;
+    if (exceeds(limits.priceBandPercent, deviation)) {
+      rejections.push(
+        rejection(
+          'priceBand',
+          limits.priceBandPercent!,
+          round(deviation),
+          `Price ${intent.price} is ${round(deviation)}% from mark price ${markPrice}, ` +
+            `outside the ${limits.priceBandPercent}% band`,
+        ),
+      );
+    }
+  }
+
+  const openOrders = account.openOrders + (intent.replaces === undefined ? 1 : 0);
+  if (exceeds(limits.maxOpenOrders, openOrders)) {
+    rejections.push(
+      rejection(
+        'openOrders',
+        limits.maxOpenOrders!,
+        openOrders,
+        `${openOrders} open orders would exceed the maximum of ${limits.maxOpenOrders}`,
+      ),
+    );
+  }
+
+  if (intent.reduceOnly) return rejections;
+
+  const before = worstCaseSize(exposure);
+  const after = worstCaseSize(withOrder(exposure, intent));
+  if (after <= before) return rejections;
+
+  rejections.push(...checkLeverage(intent.leverage ?? exposure.leverage ?? 0, limits));
+
+  const symbolNotional = after * markPrice;
+  if (exceeds(limits.maxSymbolNotional, symbolNotional)) {
+    rejections.push(
+      rejection(
+        'symbolNotional',
+        limits.maxSymbolNotional!,
+        symbolNotional,
+        `${intent.symbol} notional would reach ${usd(symbolNotional)}, ` +
+          `above the maximum of ${usd(limits.maxSymbolNotional!)}`,
+      ),
+    );
+  }
+
+  const total = accountNotional(account) + (after - before) * markPrice;
+  if (exceeds(limits.maxAccountNotional, total)) {
+    rejections.push(
+      rejection(
+        'accountNotional',
+        limits.maxAccountNotional!,
+        total,
+        `Account notional would reach ${usd(total)}, ` +
+          `above the maximum of ${usd(limits.maxAccountNotional!)}`,
+      ),
+    );
+  }
+
+  return rejections;
+}
+
+function exceeds(limit: number | undefined, value: number): boolean {
+  return !!limit && value > limit;
+}
+
+function rejection(check: RiskCheck, limit: number, value: number, message: string) {
+  return { check, limit, value: round(value), message };
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(8));
+}
+
+function usd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
@@ -0,0 +1,59 @@
+import { PlaceOrderParams } from '../../common/interfaces';
+import { OrderSide, OrderType } from '../../common/types/exchange.types';
+import { OrderIntent } from '../types';
+
+// An order as a trading method describes it; quick methods size by USD value instead
+export type OrderRequest = Omit<OrderIntent, 'quantity'> & {
+  quantity?: number;
+  usdValue?: number;
+};
+
+/**
+ * Trading service methods that open or add to exposure, and how to read their arguments.
+ * Closing and protective methods (closePosition, setStopLoss, ...) are never checked.
+ */
+export const RISK_CHECKED_OPERATIONS: Record<string, (...args: any[]) => OrderRequest> = {
+  placeOrder: (params: PlaceOrderParams) => fromParams(params),
+  placeMarketOrder: params => fromParams({ ...params, type: OrderType.MARKET }),
+  placeLimitOrder: params => fromParams({ ...params, type: OrderType.LIMIT }),
+  marketBuy: (symbol, quantity) => fromArgs(symbol, OrderSide.BUY, quantity),
+  marketSell: (symbol, quantity) => fromArgs(symbol, OrderSide.SELL, quantity),
+  limitBuy: (symbol, quantity, price) => fromArgs(symbol, OrderSide.BUY, quantity, price),
+  limitSell: (symbol, quantity, price) => fromArgs(symbol, OrderSide.SELL, quantity, price),
+  openLong: (symbol, quantity) => fromArgs(symbol, OrderSide.BUY, quantity),
+  openShort: (symbol, quantity) => fromArgs(symbol, OrderSide.SELL, quantity),
+  quickLong: (symbol, usdValue, _stopLoss, _takeProfit, leverage) =>
+    fromUsdValue(symbol, OrderSide.BUY, usdValue, leverage),
+  quickShort: (symbol, usdValue, _stopLoss, _takeProfit, leverage) =>
+    fromUsdValue(symbol, OrderSide.SELL, usdValue, leverage),
+};
+
+/**
+ * Order request of a placeOrder params object. Orders without a price (market, stop market)
+ * are valued at mark price.
+ */
+export function fromParams(
+  params: Pick<PlaceOrderParams, 'symbol' | 'side' | 'type' | 'quantity' | 'price' | 'reduceOnly'>,
+): OrderRequest {
+  return {
+    symbol: params.symbol,
+    side: params.side,
+    quantity: parseFloat(params.quantity),
+    price: params.type !== OrderType.MARKET && params.price ? parseFloat(params.price) : undefined,
+    reduceOnly: params.reduceOnly,
+  };
+}
+
+function fromArgs(symbol: string, side: OrderSide, quantity: string, price?: string) {
+  return {
+    symbol,
+    side,
+    quantity: parseFloat(quantity),
+    price: price ? parseFloat(price) : undefined,
+  };
+}
+
+// Quick methods open usdValue of margin at the given leverage
+function fromUsdValue(symbol: string, side: OrderSide, usdValue: number, leverage: number) {
+  return { symbol, side, usdValue: usdValue * (leverage || 1), leverage };
+}
@@ -0,0 +1,103 @@
+import { ExchangeName, OrderSide } from '../../common/types/exchange.types';
+import { RiskLimits } from '../../config/risk.config';
+
+export type RiskCheck =
+  | 'symbolNotional'
+  | 'accountNotional'
+  | 'leverage'
+  | 'openOrders'
+  | 'priceBand'
+  | 'orderNotional'
+  | 'orderQuantity';
+
+// Why an order was turned away: the limit it hit and the value that hit it
+export interface RiskRejection {
+  check: RiskCheck;
+  limit: number;
+  value: number;
+  message: string;
+}
+
+// One order as the checks see it
+export interface OrderIntent {
+  symbol: string;
+  side: OrderSide;
+  // Base quantity (for an amend: the new remaining quantity)
+  quantity: number;
+  // Limit price; market orders are valued at mark price
+  price?: number;
+  reduceOnly?: boolean;
+  // Leverage the order is opened with, when it sets one
+  leverage?: number;
+  // Amends replace the remaining quantity of an order already resting on the book
+  replaces?: number;
+}
+
+// Base quantities of one symbol
+export interface SymbolExposure {
+  // Signed position size (long positive)
+  position: number;
+  // Resting buy and sell orders (both positive)
+  long: number;
+  short: number;
+  // Price the symbol is valued at: mark price, else the price of its resting orders
+  price: number;
+  leverage?: number;
+}
+
+// What the account already holds on one exchange
+export interface AccountExposure {
+  symbols: Map<string, SymbolExposure>;
+  openOrders: number;
+}
+
+export type { RiskLimits };
+
+// What tripping the kill switch did on one exchange
+export interface FlattenResult {
+  exchange: ExchangeName;
+  ordersCancelled: boolean;
+  positionsClosed: boolean;
+  error?: string;
+}
+
+export interface KillSwitchState {
+  tripped: boolean;
+  // Last trip (kept after re-arming): why, when and what flattening did on each exchange
+  reason?: string;
+  trippedAt?: number;
+  flattened?: FlattenResult[];
+  rearmedAt?: number;
+  // Last equity read on each exchange, in USD
+  equities: Partial<Record<ExchangeName, number>>;
+  // Highest total equity since trading was last armed
+  peakEquity?: number;
+  // UTC day the daily loss is measured over and the total equity it started at
+  day?: string;
+  dayStartEquity?: number;
+  checkedAt?: number;
+}
+
+export interface KillSwitchStatus extends KillSwitchState {
+  equity?: number;
+  dailyLossPercent?: number;
+  drawdownPercent?: number;
+  maxDailyLossPercent: number;
+  maxDrawdownPercent: number;
+  onLiquidationRisk: boolean;
+}
+
+// Dead man's switch armed on one exchange by heartbeats
+export interface HeartbeatStatus {
+  exchange: ExchangeName;
+  timeoutMs: number;
+  lastHeartbeatAt: number;
+  // Open orders are pulled at this time unless another heartbeat comes in
+  expiresAt: number;
+  // What the exchange last confirmed: when it cancels and, where timers run per symbol, on which
+  cancelAt?: number;
+  symbols?: string[];
+  armedAt?: number;
+  // Last failure to arm, cleared once the exchange accepts it again
+  error?: string;
+}
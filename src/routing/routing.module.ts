@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { OrderRouterService } from './services/order-router.service';
+
+@Module({
+  providers: [OrderRouterService],
+  exports: [OrderRouterService],
+})
+export class RoutingModule {}
@@ -0,0 +1,303 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExchangeServiceFactory } from '../../common/factory/exchange.factory';
+import { SymbolNormalizerService } from '../../common/services/symbol-normalizer.service';
+import {
+  IBaseTradingService,
+  IPerpetualBalanceService,
+  IPerpetualMarketService,
+} from '../../common/interfaces';
+import { ApiResponse, ExchangeName, OrderSide } from '../../common/types/exchange.types';
+import { RoutingConfig } from '../../config/routing.config';
+import { planRoute } from '../shared/route-planner';
+import {
+  RoutedOrderRequest,
+  RoutedOrderResult,
+  RouteSlice,
+  SkippedVenue,
+  VenueQuote,
+  VenueRoute,
+} from '../types';
+
+// Unfilled quantity below this fraction of the order is rounding, not missing liquidity
+const FILL_TOLERANCE = 1e-9;
+
+interface QuotedVenue {
+  quote: VenueQuote;
+  market: IPerpetualMarketService;
+  availableMargin: string;
+}
+
+/**
+ * Smart order router: sends a market order to the venue (or mix of venues) with the best
+ * fee-adjusted expected fill.
+ *
+ * Every candidate perpetual venue is quoted from its current order book, its taker fee and
+ * the margin available there; the order is then planned over those quotes, sized to each
+ * venue's lot rules and placed on all selected venues in parallel.
+ */
+@Injectable()
+export class OrderRouterService {
+  private readonly logger = new Logger(OrderRouterService.name);
+  private readonly config: RoutingConfig;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeFactory: ExchangeServiceFactory,
+    private readonly symbolNormalizer: SymbolNormalizerService,
+  ) {
+    this.config = this.configService.get<RoutingConfig>('routing')!;
+  }
+
+  /**
+   * Route a market order across venues (or only plan it, with `dryRun`)
+   */
+  async routeOrder(request: RoutedOrderRequest): Promise<ApiResponse<RoutedOrderResult>> {
+    try {
+      const quantity = parseFloat(request.quantity);
+      if (!(quantity > 0)) {
+        throw new Error(`Invalid quantity: ${request.quantity}`);
+      }
+
+      const skipped: SkippedVenue[] = [];
+      const quoted = await this.quoteVenues(request, skipped);
+      if (quoted.length === 0) {
+        throw new Error(`No venue can take the order: ${this.describeSkipped(skipped)}`);
+      }
+
+      const plan = planRoute(
+        request.side,
+        quantity,
+        quoted.map(venue => venue.quote),
+        request.split !== false,
+      );
+      const slices = await this.sizeSlices(plan.slices, quoted, skipped);
+      const routed = slices.reduce((sum, slice) => sum + parseFloat(slice.quantity), 0);
+
+      if (!request.dryRun && (slices.length === 0 || plan.unfilled > quantity * FILL_TOLERANCE)) {
+        throw new Error(
+          `Not enough liquidity or margin to route ${request.quantity} ${request.symbol}: ` +
+            `venues can take ${routed}`,
+        );
+      }
+
+      const routes = request.dryRun ? slices : await this.placeSlices(request, slices);
+      const failed = routes
+        .filter(route => route.error)
+        .map(route => `${route.exchange} (${route.error})`);
+
+      return {
+        success: failed.length === 0,
+        data: this.summarize(request, routed, routes, skipped),
+        error: failed.length ? `Routed order failed on ${failed.join(', ')}` : undefined,
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      this.logger.error('Error routing order:', error.message);
+      return {
+        success: false,
+        error: error.message || 'Failed to route order',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Candidate venues: the requested ones, else the configured ones, else every live
+   * perpetual exchange (the paper venue only when asked for)
+   */
+  private getCandidates(request: RoutedOrderRequest): ExchangeName[] {
+    if (request.exchanges?.length) return [...new Set(request.exchanges)];
+    if (this.config.exchanges.length) return this.config.exchanges;
+
+    return this.exchangeFactory
+      .getAvailableExchanges()
+      .filter(({ exchange, tradingType }) => tradingType === 'perpetual' && exchange !== 'paper')
+      .map(({ exchange }) => exchange);
+  }
+
+  private async quoteVenues(
+    request: RoutedOrderRequest,
+    skipped: SkippedVenue[],
+  ): Promise<QuotedVenue[]> {
+    const results = await Promise.all(
+      this.getCandidates(request).map(async exchange => {
+        try {
+          return await this.quoteVenue(exchange, request);
+        } catch (error: any) {
+          skipped.push({ exchange, reason: error.message });
+          return undefined;
+        }
+      }),
+    );
+
+    return results.filter((venue): venue is QuotedVenue => !!venue);
+  }
+
+  private async quoteVenue(
+    exchange: ExchangeName,
+    request: RoutedOrderRequest,
+  ): Promise<QuotedVenue> {
+    if (!this.exchangeFactory.isAvailable(exchange, 'perpetual')) {
+      throw new Error('Exchange not registered');
+    }
+
+    const symbol = this.symbolNormalizer.toExchangeSymbol(request.symbol, exchange);
+    const market = (await this.exchangeFactory.getMarketService(
+      exchange,
+      'perpetual',
+    )) as IPerpetualMarketService;
+    const balance = (await this.exchangeFactory.getBalanceService(
+      exchange,
+      'perpetual',
+    )) as IPerpetualBalanceService;
+
+    const [book, available] = await Promise.all([
+      market.getOrderBook(symbol, this.config.bookDepth),
+      balance.getAvailableBalance(),
+    ]);
+    if (!book.success || !book.data) {
+      throw new Error(`Order book unavailable: ${book.error}`);
+    }
+    if (!available.success || available.data === undefined) {
+      throw new Error(`Available margin unknown: ${available.error}`);
+    }
+
+    const levels = (request.side === OrderSide.BUY ? book.data.asks : book.data.bids)
+      .map(([price, size]) => [parseFloat(price), parseFloat(size)] as [number, number])
+      .filter(([price, size]) => price > 0 && size > 0);
+    if (levels.length === 0) {
+      throw new Error('Order book side is empty');
+    }
+
+    const margin = parseFloat(available.data);
+    if (!(margin > 0)) {
+      throw new Error('No available margin');
+    }
+
+    return {
+      market,
+      availableMargin: available.data,
+      quote: {
+        exchange,
+        symbol,
+        levels,
+        feeRate: this.config.takerFees[exchange] ?? 0,
+        maxNotional: margin * (request.leverage ?? 1),
+      },
+    };
+  }
+
+  /**
+   * Round planned slices to each venue's lot size. Slices under the venue's minimum order
+   * size are dropped and their quantity moved to the largest slice.
+   */
+  private async sizeSlices(
+    slices: RouteSlice[],
+    quoted: QuotedVenue[],
+    skipped: SkippedVenue[],
+  ): Promise<VenueRoute[]> {
+    const venues = new Map(quoted.map(venue => [venue.quote.exchange, venue]));
+    const sorted = [...slices].sort((a, b) => b.quantity - a.quantity);
+    const kept: RouteSlice[] = [];
+
+    for (const slice of sorted) {
+      const limits = await venues.get(slice.exchange)!.market.getQuantityLimits(slice.symbol);
+      const min = limits.success && limits.data ? parseFloat(limits.data.min) : 0;
+
+      if (kept.length > 0 && slice.quantity < min) {
+        kept[0].quantity += slice.quantity;
+        skipped.push({
+          exchange: slice.exchange,
+          reason: `Planned quantity ${slice.quantity} below minimum order size ${min}`,
+        });
+        continue;
+      }
+      kept.push({ ...slice });
+    }
+
+    const routes = await Promise.all(
+      kept.map(async slice => {
+        const venue = venues.get(slice.exchange)!;
+        const quantity = await venue.market.formatQuantity(slice.symbol, slice.quantity.toString());
+
+        return {
+          exchange: slice.exchange,
+          symbol: slice.symbol,
+          quantity,
+          expectedPrice: slice.expectedPrice.toString(),
+          effectivePrice: slice.effectivePrice.toString(),
+          feeRate: slice.feeRate,
+          expectedFee: (parseFloat(quantity) * slice.expectedPrice * slice.feeRate).toString(),
+          availableMargin: venue.availableMargin,
+        };
+      }),
+    );
+
+    return routes.filter(route => parseFloat(route.quantity) > 0);
+  }
+
+  private async placeSlices(
+    request: RoutedOrderRequest,
+    routes: VenueRoute[],
+  ): Promise<VenueRoute[]> {
+    const services: IBaseTradingService[] = [];
+    for (const route of routes) {
+      services.push(await this.exchangeFactory.getTradingService(route.exchange, 'perpetual'));
+    }
+
+    // Submitted together so no venue's book moves on the news of another fill
+    return Promise.all(
+      routes.map(async (route, i) => {
+        try {
+          const result = await services[i].placeMarketOrder({
+            symbol: route.symbol,
+            side: request.side,
+            quantity: route.quantity,
+          });
+          if (!result.success) {
+            return { ...route, error: result.error || 'Order rejected' };
+          }
+          this.logger.log(
+            `Routed ${route.quantity} ${request.symbol} ${request.side} to ${route.exchange}`,
+          );
+          return { ...route, order: result.data };
+        } catch (error: any) {
+          return { ...route, error: error.message || 'Failed to place order' };
+        }
+      }),
+    );
+  }
+
+  private summarize(
+    request: RoutedOrderRequest,
+    routed: number,
+    routes: VenueRoute[],
+    skipped: SkippedVenue[],
+  ): RoutedOrderResult {
+    const weighted = (field: 'expectedPrice' | 'effectivePrice') =>
+      routed > 0
+        ? routes.reduce(
+            (sum, route) => sum + parseFloat(route.quantity) * parseFloat(route[field]),
+            0,
+          ) / routed
+        : 0;
+
+    return {
+      symbol: request.symbol,
+      side: request.side,
+      quantity: request.quantity,
+      routedQuantity: routed.toString(),
+      expectedPrice: weighted('expectedPrice').toString(),
+      effectivePrice: weighted('effectivePrice').toString(),
+      expectedFee: routes.reduce((sum, route) => sum + parseFloat(route.expectedFee), 0).toString(),
+      dryRun: !!request.dryRun,
+      routes,
+      skipped,
+    };
+  }
+
+  private describeSkipped(skipped: SkippedVenue[]): string {
+    return skipped.map(venue => `${venue.exchange} (${venue.reason})`).join(', ') || 'none';
+  }
+}
@@ -0,0 +1,129 @@
+import { OrderSide } from '../../common/types/exchange.types';
+import { RoutePlan, RouteSlice, VenueQuote } from '../types';
+
+// Quantities below this are float noise
+const EPSILON = 1e-12;
+
+interface VenueFill {
+  venue: VenueQuote;
+  quantity: number;
+  notional: number;
+}
+
+/**
+ * Taker price after fees: what a buy pays or a sell receives per unit
+ */
+export function feeAdjustedPrice(side: OrderSide, price: number, feeRate: number): number {
+  return side === OrderSide.BUY ? price * (1 + feeRate) : price * (1 - feeRate);
+}
+
+/**
+ * Allocate a market order across venues for the best fee-adjusted average price.
+ *
+ * With `split` the cheapest levels of all books are taken first (greedy over the merged,
+ * fee-adjusted ladder), each venue capped by the notional its margin supports. Without it the
+ * whole order goes to the single venue that fills the most of it, at the best price on ties.
+ */
+export function planRoute(
+  side: OrderSide,
+  quantity: number,
+  venues: VenueQuote[],
+  split: boolean,
+): RoutePlan {
+  const fills = split ? splitFills(side, quantity, venues) : bestSingleFill(side, quantity, venues);
+  const slices = fills.filter(fill => fill.quantity > EPSILON).map(fill => toSlice(side, fill));
+  const filled = slices.reduce((sum, slice) => sum + slice.quantity, 0);
+
+  return { slices, unfilled: Math.max(quantity - filled, 0) };
+}
+
+function splitFills(side: OrderSide, quantity: number, venues: VenueQuote[]): VenueFill[] {
+  const fills = venues.map(venue => ({ venue, quantity: 0, notional: 0 }));
+  // A venue's own levels stay in book order since fees scale every level alike
+  const ladder = fills
+    .flatMap(fill =>
+      fill.venue.levels.map(([price, size]) => ({
+        fill,
+        price,
+        size,
+        effective: feeAdjustedPrice(side, price, fill.venue.feeRate),
+      })),
+    )
+    .sort((a, b) =>
+      side === OrderSide.BUY ? a.effective - b.effective : b.effective - a.effective,
+    );
+
+  let remaining = quantity;
+  for (const { fill, price, size } of ladder) {
+    if (remaining <= EPSILON) break;
+
+    const affordable = (fill.venue.maxNotional - fill.notional) / price;
+    const take = Math.min(size, remaining, affordable);
+    if (take <= EPSILON) continue;
+
+    fill.quantity += take;
+    fill.notional += take * price;
+    remaining -= take;
+  }
+
+  return fills;
+}
+
+function bestSingleFill(side: OrderSide, quantity: number, venues: VenueQuote[]): VenueFill[] {
+  let best: VenueFill | undefined;
+
+  for (const venue of venues) {
+    const fill = walkBook(venue, quantity);
+    if (fill.quantity <= EPSILON) continue;
+
+    if (
+      !best ||
+      fill.quantity > best.quantity + EPSILON ||
+      (Math.abs(fill.quantity - best.quantity) <= EPSILON && isBetter(side, fill, best))
+    ) {
+      best = fill;
+    }
+  }
+
+  return best ? [best] : [];
+}
+
+/**
+ * Fill as much of `quantity` as one venue's book and margin allow
+ */
+function walkBook(venue: VenueQuote, quantity: number): VenueFill {
+  const fill = { venue, quantity: 0, notional: 0 };
+
+  for (const [price, size] of venue.levels) {
+    const take = Math.min(
+      size,
+      quantity - fill.quantity,
+      (venue.maxNotional - fill.notional) / price,
+    );
+    if (take <= EPSILON) break;
+
+    fill.quantity += take;
+    fill.notional += take * price;
+  }
+
+  return fill;
+}
+
+function isBetter(side: OrderSide, fill: VenueFill, other: VenueFill): boolean {
+  const price = (f: VenueFill) => feeAdjustedPrice(side, f.notional / f.quantity, f.venue.feeRate);
+  return side === OrderSide.BUY ? price(fill) < price(other) : price(fill) > price(other);
+}
+
+function toSlice(side: OrderSide, { venue, quantity, notional }: VenueFill): RouteSlice {
+  const expectedPrice = notional / quantity;
+
+  return {
+    exchange: venue.exchange,
+    symbol: venue.symbol,
+    quantity,
+    expectedPrice,
+    effectivePrice: feeAdjustedPrice(side, expectedPrice, venue.feeRate),
+    feeRate: venue.feeRate,
+    expectedFee: notional * venue.feeRate,
+  };
+}
@@ -0,0 +1,74 @@
+import { ExchangeName, Order, OrderSide } from '../../common/types/exchange.types';
+
+/**
+ * One venue's side of the book an order would take, with what the account can afford there
+ */
+export interface VenueQuote {
+  exchange: ExchangeName;
+  symbol: string;
+  // [price, quantity], best first (asks for a buy, bids for a sell)
+  levels: [number, number][];
+  feeRate: number;
+  // Notional the available margin supports at the requested leverage
+  maxNotional: number;
+}
+
+export interface RouteSlice {
+  exchange: ExchangeName;
+  symbol: string;
+  quantity: number;
+  // Volume-weighted price of the book levels consumed
+  expectedPrice: number;
+  // expectedPrice including the taker fee
+  effectivePrice: number;
+  feeRate: number;
+  expectedFee: number;
+}
+
+export interface RoutePlan {
+  slices: RouteSlice[];
+  // Quantity no venue's book depth or margin could take
+  unfilled: number;
+}
+
+export interface RoutedOrderRequest {
+  symbol: string;
+  side: OrderSide;
+  quantity: string;
+  exchanges?: ExchangeName[];
+  split?: boolean;
+  leverage?: number;
+  dryRun?: boolean;
+}
+
+export interface VenueRoute {
+  exchange: ExchangeName;
+  symbol: string;
+  quantity: string;
+  expectedPrice: string;
+  effectivePrice: string;
+  feeRate: number;
+  expectedFee: string;
+  availableMargin: string;
+  order?: Order;
+  error?: string;
+}
+
+export interface SkippedVenue {
+  exchange: ExchangeName;
+  reason: string;
+}
+
+export interface RoutedOrderResult {
+  symbol: string;
+  side: OrderSide;
+  quantity: string;
+  routedQuantity: string;
+  // Quantity-weighted over the venues, before and after taker fees
+  expectedPrice: string;
+  effectivePrice: string;
+  expectedFee: string;
+  dryRun: boolean;
+  routes: VenueRoute[];
+  skipped: SkippedVenue[];
+}
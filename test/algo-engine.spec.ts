@@ -0,0 +1,266 @@
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AlgoEngineService } from '../src/algos/services/algo-engine.service';
+import { buildSlices, getVolumeProfile } from '../src/algos/shared/algo-schedule';
+import { ExchangeRegistry, ExchangeServiceFactory } from '../src/common/factory/exchange.factory';
+import { SymbolNormalizerService } from '../src/common/services/symbol-normalizer.service';
+import { OrderSide, OrderStatus, TimeInForce } from '../src/common/types/exchange.types';
+import { JournalService } from '../src/journal/services/journal.service';
+
+const setup = (stateFile: string) => {
+  let ask = '100';
+  let bid = '99';
+  const orders = new Map<string, any>();
+  const exchange = {
+    formatQuantity: async (_symbol: string, quantity: string) => parseFloat(quantity).toFixed(3),
+    formatPrice: async (_symbol: string, price: string) => parseFloat(price).toFixed(2),
+    getQuantityLimits: async () => ({ success: true, data: { min: '0.001', max: '1000' } }),
+    getOrderBook: async () => ({
+      success: true,
+      data: { asks: [[ask, '10']], bids: [[bid, '10']] },
+    }),
+    getOrderByClientId: async () => ({ success: true, data: null }),
+    getOrder: async (_symbol: string, orderId: string) => ({
+      success: true,
+      data: { ...orders.get(orderId) },
+    }),
+    placeMarketOrder: jest.fn(async (params: any) => ({
+      success: true,
+      data: { orderId: params.clientOrderId, executedQuantity: params.quantity, price: ask },
+    })),
+    placeLimitOrder: jest.fn(async (params: any) => {
+      const order = {
+        ...params,
+        orderId: params.clientOrderId,
+        executedQuantity: '0',
+        status: OrderStatus.NEW,
+      };
+      orders.set(order.orderId, order);
+      return { success: true, data: { ...order } };
+    }),
+    cancelOrder: jest.fn(async (params: any) => {
+      orders.get(params.orderId).status = OrderStatus.CANCELED;
+      return { success: true, data: { ...orders.get(params.orderId) } };
+    }),
+  };
+  // Fill the newest limit order, in full without a quantity
+  const fill = (quantity?: string) => {
+    const order = [...orders.values()].pop();
+    order.executedQuantity = quantity ?? order.quantity;
+    order.status = quantity ? OrderStatus.PARTIALLY_FILLED : OrderStatus.FILLED;
+  };
+  const registry = new ExchangeRegistry();
+  registry.register({ exchange: 'paper', tradingType: 'perpetual' } as any);
+  const factory = new ExchangeServiceFactory(registry, {
+    get: () => exchange,
+  } as unknown as ModuleRef);
+  const journal = {
+    getStrategy: () => undefined,
+    runWithStrategy: (_strategy: string, fn: () => any) => fn(),
+  } as unknown as JournalService;
+
+  const createEngine = () => {
+    const engine = new AlgoEngineService(
+      {
+        get: () => ({
+          stateFile,
+          tickIntervalMs: 1000,
+          defaultSliceIntervalMs: 1000,
+          vwapLookbackDays: 1,
+          maxSliceFailures: 3,
+        }),
+      } as unknown as ConfigService,
+      factory,
+      new SymbolNormalizerService(),
+      journal,
+    );
+    engine.onModuleInit();
+    return engine;
+  };
+
+  return {
+    exchange,
+    createEngine,
+    fill,
+    setAsk: (price: string) => (ask = price),
+    setBid: (price: string) => (bid = price),
+  };
+};
+
+describe('algo schedule', () => {
+  test('sizes slices by the volume profile', () => {
+    const candles = [0, 0, 1000, 2000].map((offset, i) => ({
+      openTime: 1000 + offset,
+      volume: ['1', '1', '2', '4'][i],
+    }));
+    const profile = getVolumeProfile(candles as any, 1000, 3000, 3);
+
+    expect(profile).toEqual([2, 2, 4]);
+    expect(buildSlices(4, 1000, 3000, profile)).toEqual([
+      { time: 1000, targetQuantity: 1, status: 'pending' },
+      { time: 2000, targetQuantity: 1, status: 'pending' },
+      { time: 3000, targetQuantity: 2, status: 'pending' },
+    ]);
+  });
+});
+
+describe('AlgoEngineService', () => {
+  let dir: string;
+  const engines: AlgoEngineService[] = [];
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    dir = mkdtempSync(join(tmpdir(), 'algos-'));
+  });
+  afterEach(() => {
+    engines.splice(0).forEach(engine => engine.onModuleDestroy());
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const start = async (engine: AlgoEngineService, limitPrice?: string) => {
+    const result = await engine.startAlgo({
+      type: 'TWAP',
+      exchange: 'paper',
+      symbol: 'BTC/USDT',
+      side: OrderSide.BUY,
+      quantity: '3',
+      durationMs: 3000,
+      limitPrice,
+    });
+    return result.data!.id;
+  };
+  const tick = (engine: AlgoEngineService) => engine['runTick']();
+
+  test('slices a TWAP over time and resumes it after a restart', async () => {
+    const { exchange, createEngine } = setup(join(dir, 'algos.json'));
+    const engine = createEngine();
+    engines.push(engine);
+    const id = await start(engine);
+
+    await tick(engine);
+    jest.setSystemTime(Date.now() + 1000);
+    await tick(engine);
+    engine.onModuleDestroy();
+
+    const restarted = createEngine();
+    engines.push(restarted);
+    expect(restarted.getAlgo(id).data).toMatchObject({ status: 'running', executedQuantity: 2 });
+
+    jest.setSystemTime(Date.now() + 1000);
+    await tick(restarted);
+
+    expect(exchange.placeMarketOrder).toHaveBeenCalledTimes(3);
+    expect(exchange.placeMarketOrder.mock.calls.map(([params]) => params.quantity)).toEqual([
+      '1.000',
+      '1.000',
+      '1.000',
+    ]);
+    expect(restarted.getAlgo(id).data).toMatchObject({
+      status: 'completed',
+      executedQuantity: 3,
+      averagePrice: 100,
+    });
+  });
+
+  test('holds slices while the price is beyond the limit and rolls them over', async () => {
+    const { exchange, createEngine, setAsk } = setup(join(dir, 'algos.json'));
+    const engine = createEngine();
+    engines.push(engine);
+    const id = await start(engine, '100');
+
+    setAsk('101');
+    await tick(engine);
+    setAsk('100');
+    jest.setSystemTime(Date.now() + 1000);
+    await tick(engine);
+
+    const algo = engine.getAlgo(id).data!;
+    expect(algo.slices[0]).toMatchObject({
+      status: 'skipped',
+      reason: 'Price 101 beyond limit 100',
+    });
+    expect(algo.slices[1]).toMatchObject({ status: 'filled', quantity: '2' });
+    expect(exchange.placeMarketOrder).toHaveBeenCalledTimes(1);
+
+    await expect(engine.cancelAlgo(id)).resolves.toMatchObject({
+      success: true,
+      data: { status: 'cancelled', executedQuantity: 2 },
+    });
+  });
+
+  test('refills an iceberg slice each time it fills', async () => {
+    const { exchange, createEngine, fill } = setup(join(dir, 'algos.json'));
+    const engine = createEngine();
+    engines.push(engine);
+    const { data } = await engine.startAlgo({
+      type: 'ICEBERG',
+      exchange: 'paper',
+      symbol: 'BTC/USDT',
+      side: OrderSide.BUY,
+      quantity: '1',
+      price: '98',
+      visibleQuantity: '0.4',
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await tick(engine);
+      fill();
+    }
+    await tick(engine);
+
+    expect(exchange.placeLimitOrder.mock.calls.map(([params]) => params.quantity)).toEqual([
+      '0.400',
+      '0.400',
+      '0.200',
+    ]);
+    expect(exchange.placeLimitOrder.mock.calls[0][0]).toMatchObject({
+      price: '98.00',
+      timeInForce: TimeInForce.GTC,
+    });
+    expect(engine.getAlgo(data!.id).data).toMatchObject({
+      status: 'completed',
+      executedQuantity: 1,
+      averagePrice: 98,
+    });
+  });
+
+  test('re-prices a chase with the book up to the maximum deviation', async () => {
+    const { exchange, createEngine, fill, setBid } = setup(join(dir, 'algos.json'));
+    const engine = createEngine();
+    engines.push(engine);
+    const { data } = await engine.startAlgo({
+      type: 'CHASE',
+      exchange: 'paper',
+      symbol: 'BTC/USDT',
+      side: OrderSide.BUY,
+      quantity: '1',
+      maxDeviationBps: 100,
+    });
+
+    await tick(engine);
+    fill('0.4');
+    setBid('99.5');
+    await tick(engine);
+    setBid('101');
+    await tick(engine);
+
+    expect(
+      exchange.placeLimitOrder.mock.calls.map(([params]) => [params.price, params.quantity]),
+    ).toEqual([
+      ['99.00', '1.000'],
+      ['99.50', '0.600'],
+      ['99.99', '0.600'],
+    ]);
+    expect(exchange.placeLimitOrder.mock.calls[0][0].timeInForce).toBe(TimeInForce.GTX);
+
+    await expect(engine.cancelAlgo(data!.id)).resolves.toMatchObject({
+      success: true,
+      data: { status: 'cancelled', executedQuantity: 0.4 },
+    });
+    expect(exchange.cancelOrder).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,131 @@
+import { ConfigService } from '@nestjs/config';
+import { BacktestService } from '../src/backtest/services/backtest.service';
+import { HistoricalDataService } from '../src/backtest/services/historical-data.service';
+import { BacktestVenue } from '../src/backtest/shared/backtest-venue';
+import { BacktestStrategy } from '../src/backtest/types';
+import { SymbolNormalizerService } from '../src/common/services/symbol-normalizer.service';
+import { Candle, OrderSide, OrderType } from '../src/common/types/exchange.types';
+
+const HOUR = 3600000;
+
+const candle = (i: number, open: number, close: number, high = Math.max(open, close)): Candle => ({
+  openTime: i * HOUR,
+  open: open.toString(),
+  high: high.toString(),
+  low: Math.min(open, close).toString(),
+  close: close.toString(),
+  volume: '1',
+  closeTime: (i + 1) * HOUR - 1,
+});
+
+const config = {
+  backtest: { cacheDir: 'unused', maxCandles: 1000 },
+  paper: {
+    asset: 'USDT',
+    initialBalance: 10000,
+    makerFee: 0,
+    takerFee: 0.001,
+    slippageBps: 0,
+    defaultLeverage: 10,
+    maxLeverage: 50,
+    maintenanceMarginRate: 0.005,
+    fundingIntervalHours: 8,
+  },
+};
+
+const createService = (candles: Candle[], fundingRates: any[] = []) => {
+  const historicalData = {
+    getCandles: jest.fn().mockResolvedValue(candles),
+    getFundingRates: jest.fn().mockResolvedValue(fundingRates),
+  } as unknown as HistoricalDataService;
+  const configService = { get: (key: string) => config[key] } as unknown as ConfigService;
+
+  return new BacktestService(configService, historicalData, new SymbolNormalizerService());
+};
+
+const request = {
+  exchange: 'binance' as const,
+  symbol: 'BTCUSDT',
+  interval: '1h',
+  startTime: 0,
+  endTime: 10 * HOUR,
+  strategy: 'buy-and-hold',
+};
+
+describe('BacktestService', () => {
+  test('replays candles through the trading interface and reports metrics', async () => {
+    const candles = [candle(0, 100, 100), candle(1, 100, 110), candle(2, 110, 90)];
+    const service = createService(candles);
+
+    const result = await service.runBacktest({ ...request, params: { notional: 1000 } });
+
+    expect(result.success).toBe(true);
+    const { metrics, equityCurve, trades } = result.data!;
+    expect(trades).toHaveLength(1);
+    expect(equityCurve.map(point => point.equity)).toEqual([9999, 10099, 9899]);
+    expect(metrics.fees).toBeCloseTo(1);
+    expect(metrics.netPnl).toBeCloseTo(-101);
+    expect(metrics.maxDrawdown).toBeCloseTo(200);
+    expect(metrics.unrealizedPnl).toBeCloseTo(-100);
+  });
+
+  test('fills resting orders along the candle path', async () => {
+    const strategy: BacktestStrategy = {
+      async onCandle(current, { symbol, trading, candles }) {
+        if (candles.length === 1) {
+          await trading.placeLimitOrder({
+            symbol,
+            side: OrderSide.BUY,
+            quantity: '1',
+            price: '95',
+          });
+        }
+      },
+    };
+    const candles = [candle(0, 100, 100), candle(1, 100, 104, 106), candle(2, 104, 97)];
+    candles[1].low = '94';
+
+    const result = await createService(candles).runBacktest(request, strategy);
+
+    expect(result.data!.trades).toHaveLength(1);
+    expect(result.data!.trades[0]).toMatchObject({ price: '95', maker: true });
+    expect(result.data!.trades[0].time).toBeGreaterThan(HOUR);
+  });
+
+  test('reports strategy errors with the simulated time', async () => {
+    const strategy: BacktestStrategy = {
+      onCandle() {
+        throw new Error('boom');
+      },
+    };
+
+    const result = await createService([candle(0, 100, 100)]).runBacktest(request, strategy);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('boom');
+  });
+});
+
+describe('BacktestVenue', () => {
+  test('charges historical funding only after the funding time', async () => {
+    const venue = new BacktestVenue('BTCUSDT', { ...config.paper, fundingIntervalHours: 8 }, 1000, [
+      { symbol: 'BTCUSDT', fundingRate: '0.001', fundingTime: 8 * HOUR },
+    ]);
+
+    venue.replay(candle(6, 100, 100));
+    await venue.placeOrder({
+      symbol: 'BTCUSDT',
+      side: OrderSide.SELL,
+      type: OrderType.MARKET,
+      quantity: 1,
+    });
+    await expect(venue.getFundingRate()).rejects.toThrow();
+
+    venue.replay(candle(7, 100, 100));
+    expect(venue.fundingPayments).toHaveLength(0);
+
+    venue.replay(candle(8, 100, 100));
+    expect(venue.fundingPayments).toEqual([{ time: 8 * HOUR, rate: 0.001, payment: 0.1 }]);
+    expect((await venue.getFundingRate()).data.fundingRate).toBe('0.001');
+  });
+});
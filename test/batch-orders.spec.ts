@@ -0,0 +1,117 @@
+import { runBatched } from '../src/common/batch';
+import { OrderSide, OrderType } from '../src/common/types/exchange.types';
+import { BinancePerpetualTradingService } from '../src/exchanges/binance/perpetual/services/perpetual-trading.service';
+
+describe('runBatched', () => {
+  test('chunks each group and keeps one result per item in request order', async () => {
+    const send = jest.fn<Promise<any[]>, [string[]]>(async batch => {
+      if (batch.includes('b3')) throw new Error('Gateway timeout');
+      return batch.map(item => ({ success: true, data: item }));
+    });
+
+    const results = await runBatched(['a1', 'b1', 'a2', 'bad', 'b2', 'a3', 'b3'], {
+      size: 2,
+      prepare: item => {
+        if (item === 'bad') throw new Error('Invalid order');
+        return item;
+      },
+      groupBy: item => item[0],
+      send,
+    });
+
+    expect(send.mock.calls.map(([batch]) => batch)).toEqual([
+      ['a1', 'a2'],
+      ['a3'],
+      ['b1', 'b2'],
+      ['b3'],
+    ]);
+    expect(results.map(result => result.data ?? result.error)).toEqual([
+      'a1',
+      'b1',
+      'a2',
+      'Invalid order',
+      'b2',
+      'a3',
+      'Gateway timeout',
+    ]);
+  });
+});
+
+describe('BinancePerpetualTradingService batches', () => {
+  const api = {
+    post: jest.fn<Promise<any>, [string, any]>(async (_endpoint, params) => ({
+      success: true,
+      data: JSON.parse(params.batchOrders).map((order: any) =>
+        order.price === '0'
+          ? { code: -4014, msg: 'Price not increased by tick size.' }
+          : { ...order, orderId: 1, origQty: order.quantity, status: 'NEW' },
+      ),
+    })),
+    delete: jest.fn<Promise<any>, [string, any]>(async (_endpoint, params) => ({
+      success: true,
+      data: JSON.parse(params.orderIdList ?? params.origClientOrderIdList).map((id: any) => ({
+        orderId: id,
+        symbol: params.symbol,
+        status: 'CANCELED',
+      })),
+    })),
+  };
+  const market = {
+    formatQuantity: async (_symbol: string, quantity: string) => quantity,
+    formatPrice: async (_symbol: string, price: string) => price,
+  };
+  const service = new BinancePerpetualTradingService(api as any, market as any, {} as any);
+
+  beforeEach(() => {
+    api.post.mockClear();
+    api.delete.mockClear();
+  });
+
+  test('places at most five orders per batchOrders request', async () => {
+    const orders = ['100', '0', '102', '103', '104', '105'].map(price => ({
+      symbol: 'BTCUSDT',
+      side: OrderSide.BUY,
+      type: OrderType.LIMIT,
+      quantity: '0.01',
+      price,
+    }));
+
+    const response = await service.placeOrders(orders);
+
+    expect(api.post.mock.calls.map(([, params]) => JSON.parse(params.batchOrders).length)).toEqual([
+      5, 1,
+    ]);
+    expect(response.data!.map(result => result.success)).toEqual([
+      true,
+      false,
+      true,
+      true,
+      true,
+      true,
+    ]);
+    expect(response.data![1].error).toBe('Price not increased by tick size. (code: -4014)');
+  });
+
+  test('cancels per symbol and id kind', async () => {
+    const response = await service.cancelOrders([
+      { symbol: 'BTCUSDT', orderId: '1' },
+      { symbol: 'ETHUSDT', orderId: '2' },
+      { symbol: 'BTCUSDT', clientOrderId: 'c-3' },
+      { symbol: 'BTCUSDT', orderId: '4' },
+      { symbol: 'BTCUSDT' },
+    ]);
+
+    expect(api.delete.mock.calls.map(([, params]) => params)).toEqual([
+      { symbol: 'BTCUSDT', orderIdList: '[1,4]' },
+      { symbol: 'ETHUSDT', orderIdList: '[2]' },
+      { symbol: 'BTCUSDT', origClientOrderIdList: '["c-3"]' },
+    ]);
+    expect(response.data!.map(result => result.data?.orderId ?? result.error)).toEqual([
+      '1',
+      '2',
+      'c-3',
+      '4',
+      'Either orderId or clientOrderId is required',
+    ]);
+  });
+});
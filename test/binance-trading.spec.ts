@@ -0,0 +1,52 @@
+import { OrderSide } from '../src/common/types/exchange.types';
+import { BinancePerpetualTradingService } from '../src/exchanges/binance/perpetual/services/perpetual-trading.service';
+
+describe('BinancePerpetualTradingService in hedge mode', () => {
+  const positions = [
+    { symbol: 'BTCUSDT', positionSide: 'LONG', positionAmt: '1' },
+    { symbol: 'BTCUSDT', positionSide: 'SHORT', positionAmt: '-2' },
+  ];
+  const api = {
+    get: jest.fn<Promise<any>, [string, any?]>(async endpoint => ({
+      success: true,
+      data: endpoint === '/fapi/v1/positionSide/dual' ? { dualSidePosition: true } : positions,
+    })),
+    post: jest.fn<Promise<any>, [string, any]>(async (_endpoint, params) => ({
+      success: true,
+      data: { ...params, orderId: 1, origQty: params.quantity, status: 'NEW' },
+    })),
+  };
+  const market = {
+    formatQuantity: async (_symbol: string, quantity: string) => quantity,
+    formatPrice: async (_symbol: string, price: string) => price,
+  };
+  const service = new BinancePerpetualTradingService(api as any, market as any, {} as any);
+  const sent = () => api.post.mock.calls.map(([, params]) => params);
+
+  beforeEach(() => api.post.mockClear());
+
+  test('attaches a stop loss to the leg it closes', async () => {
+    const ambiguous = await service.setStopLoss({ symbol: 'BTCUSDT', stopPrice: '50000' });
+    const short = await service.setStopLoss({
+      symbol: 'BTCUSDT',
+      stopPrice: '70000',
+      side: OrderSide.BUY,
+    });
+
+    expect(ambiguous.error).toMatch(/Both long and short/);
+    expect(short.success).toBe(true);
+    expect(sent()).toEqual([
+      expect.objectContaining({ side: 'BUY', quantity: '2', positionSide: 'SHORT' }),
+    ]);
+    expect(sent()[0].reduceOnly).toBeUndefined();
+  });
+
+  test('closes part of a long with positionSide instead of reduceOnly', async () => {
+    const response = await service.closeLong('BTCUSDT', '0.5');
+
+    expect(response.success).toBe(true);
+    expect(sent()).toEqual([
+      { symbol: 'BTCUSDT', side: 'SELL', type: 'MARKET', quantity: '0.5', positionSide: 'LONG' },
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { cancelReplace } from '../src/common/amend';
+import { OrderSide, OrderStatus, OrderType } from '../src/common/types/exchange.types';
+
+describe('cancelReplace', () => {
+  let rejectPrice: string | undefined;
+  // Filled on the order just before the cancel goes through
+  let fillOnCancel: string;
+  const orders = new Map<string, any>();
+  const service = {
+    getOrder: async (_symbol: string, orderId: string) => ({
+      success: true,
+      data: { ...orders.get(orderId) },
+      timestamp: 0,
+    }),
+    getOrderByClientId: async () => ({ success: true, data: null, timestamp: 0 }),
+    cancelOrder: jest.fn<Promise<any>, [any]>(async params => {
+      const order = orders.get(params.orderId);
+      order.executedQuantity = fillOnCancel;
+      order.status = OrderStatus.CANCELED;
+      return { success: true };
+    }),
+    placeOrder: jest.fn<Promise<any>, [any]>(async params => {
+      if (params.price === rejectPrice) return { success: false, error: 'Price out of band' };
+      const order = {
+        ...params,
+        orderId: `o${orders.size + 1}`,
+        status: OrderStatus.NEW,
+        executedQuantity: '0',
+      };
+      orders.set(order.orderId, order);
+      return { success: true, data: order };
+    }),
+  };
+
+  beforeEach(() => {
+    rejectPrice = undefined;
+    fillOnCancel = '0';
+    orders.clear();
+    orders.set('o1', {
+      orderId: 'o1',
+      symbol: 'BTCUSDT',
+      side: OrderSide.BUY,
+      type: OrderType.LIMIT,
+      status: OrderStatus.NEW,
+      price: '100',
+      quantity: '2',
+      executedQuantity: '0',
+    });
+    service.cancelOrder.mockClear();
+    service.placeOrder.mockClear();
+  });
+
+  test('replaces what is left unfilled at the new price', async () => {
+    fillOnCancel = '0.5';
+
+    const result = await cancelReplace(service, {
+      symbol: 'BTCUSDT',
+      orderId: 'o1',
+      price: '101',
+      quantity: '3',
+    });
+
+    expect(result).toMatchObject({ success: true, data: { orderId: 'o2', price: '101' } });
+    expect(service.placeOrder.mock.calls[0][0]).toMatchObject({
+      side: OrderSide.BUY,
+      type: OrderType.LIMIT,
+      quantity: '2.5',
+    });
+  });
+
+  test('places the original order again at its limit when the replacement is rejected', async () => {
+    rejectPrice = '150';
+    fillOnCancel = '0.5';
+
+    const result = await cancelReplace(service, { symbol: 'BTCUSDT', orderId: 'o1', price: '150' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('original order restored as o2');
+    expect(orders.get('o2')).toMatchObject({ price: '100', quantity: '1.5' });
+  });
+
+  test('refuses partly filled orders, whose limit price may not be known', async () => {
+    Object.assign(orders.get('o1'), {
+      status: OrderStatus.PARTIALLY_FILLED,
+      executedQuantity: '1',
+    });
+
+    const result = await cancelReplace(service, { symbol: 'BTCUSDT', orderId: 'o1', price: '101' });
+
+    expect(result.error).toContain('partly filled');
+    expect(service.cancelOrder).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosAdapter } from 'axios';
+import {
+  CircuitBreakerService,
+  CircuitOpenError,
+} from '../src/common/services/circuit-breaker.service';
+
+const setup = () => {
+  const breaker = new CircuitBreakerService({
+    get: () => ({
+      enabled: true,
+      failureThreshold: 3,
+      slowCallMs: 5000,
+      openMs: 30000,
+      statsWindowMs: 60000,
+    }),
+  } as unknown as ConfigService);
+
+  let outcome: 'ok' | 'timeout' | 'bad-request' = 'ok';
+  const adapter: AxiosAdapter = async config => {
+    if (outcome === 'timeout') {
+      throw Object.assign(new Error('timeout of 30000ms exceeded'), {
+        code: 'ECONNABORTED',
+        request: {},
+        config,
+      });
+    }
+    const status = outcome === 'ok' ? 200 : 400;
+    const response = { data: {}, status, statusText: '', headers: {}, config };
+    if (status >= 400) {
+      throw Object.assign(new Error(`Request failed with status code ${status}`), {
+        response,
+        config,
+      });
+    }
+    return response;
+  };
+  const client = axios.create({ baseURL: 'https://api.hyperliquid.xyz', adapter });
+  // Registered first, so it runs after the breaker's interceptor like a signing interceptor
+  let signingFails = false;
+  client.interceptors.request.use(config => {
+    if (signingFails) throw new Error('Failed to sign request');
+    return config;
+  });
+  breaker.attach('hyperliquid', client);
+
+  const health = () => breaker.getStatus().find(s => s.exchange === 'hyperliquid')!;
+  const request = () => client.post('/info', { type: 'allMids' });
+
+  return {
+    health,
+    request,
+    respondWith: (next: typeof outcome) => (outcome = next),
+    failSigning: (fails: boolean) => (signingFails = fails),
+  };
+};
+
+describe('CircuitBreakerService', () => {
+  beforeEach(() => jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') }));
+  afterEach(() => jest.useRealTimers());
+
+  test('opens after consecutive failures and fails fast', async () => {
+    const { health, request, respondWith } = setup();
+
+    respondWith('bad-request');
+    await expect(request()).rejects.toThrow(/status code 400/);
+    respondWith('timeout');
+    for (let i = 0; i < 3; i++) {
+      await expect(request()).rejects.toThrow(/timeout/);
+    }
+
+    expect(health()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      lastError: 'ECONNABORTED',
+      requests: 4,
+      errorRate: 0.75,
+    });
+    await expect(request()).rejects.toThrow(CircuitOpenError);
+    await expect(request()).rejects.toThrow(/hyperliquid API unavailable .*retrying in 30s/);
+  });
+
+  test('closes again once a probe succeeds', async () => {
+    const { health, request, respondWith } = setup();
+    respondWith('timeout');
+    for (let i = 0; i < 3; i++) {
+      await expect(request()).rejects.toThrow(/timeout/);
+    }
+
+    jest.setSystemTime(Date.now() + 30000);
+    await expect(request()).rejects.toThrow(/timeout/);
+    expect(health().state).toBe('open');
+
+    jest.setSystemTime(Date.now() + 30000);
+    respondWith('ok');
+    await request();
+    expect(health()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  test('releases the probe when it fails before being sent', async () => {
+    const { health, request, respondWith, failSigning } = setup();
+    respondWith('timeout');
+    for (let i = 0; i < 3; i++) {
+      await expect(request()).rejects.toThrow(/timeout/);
+    }
+
+    jest.setSystemTime(Date.now() + 30000);
+    failSigning(true);
+    await expect(request()).rejects.toThrow(/Failed to sign/);
+    expect(health().state).toBe('half-open');
+
+    failSigning(false);
+    respondWith('ok');
+    await request();
+    expect(health()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+});
@@ -0,0 +1,30 @@
+import { ConfigService } from '@nestjs/config';
+import { MarketStreamGateway, UserDataGateway } from '../src/api/gateways';
+
+describe('WebSocket gateway auth', () => {
+  const connect = (apiKeys: string | undefined, url: string) => {
+    const configService = { get: () => apiKeys } as unknown as ConfigService;
+    const gateways = [
+      new UserDataGateway({} as any, {} as any, configService),
+      new MarketStreamGateway({} as any, configService),
+    ];
+
+    return gateways.map(gateway => {
+      const client = { close: jest.fn() };
+      gateway.handleConnection(client as any, { headers: {}, url } as any);
+      return client.close.mock.calls[0];
+    });
+  };
+
+  test('accepts only configured keys and rejects everything when none are', () => {
+    expect(connect('k', '/ws/user?apiKey=k')).toEqual([undefined, undefined]);
+    expect(connect('k', '/ws/user?apiKey=other')).toEqual([
+      [1008, 'Invalid API key'],
+      [1008, 'Invalid API key'],
+    ]);
+    expect(connect(undefined, '/ws/user?apiKey=k')).toEqual([
+      [1008, 'Invalid API key'],
+      [1008, 'Invalid API key'],
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { ExchangeServiceFactory } from '../src/common/factory/exchange.factory';
+import { HeartbeatService } from '../src/risk/services/heartbeat.service';
+
+describe('HeartbeatService', () => {
+  let now: number;
+  let service: HeartbeatService;
+  const exchanges = {
+    binance: {
+      cancelAllAfter: jest.fn<Promise<any>, [number]>(async timeoutMs => ({
+        success: true,
+        data: { cancelAt: timeoutMs ? now + timeoutMs : undefined, symbols: ['BTCUSDT'] },
+      })),
+    },
+    okx: {
+      cancelAllAfter: jest.fn<Promise<any>, [number]>(async () => ({
+        success: false,
+        error: 'timeout',
+      })),
+    },
+  };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.clearAllMocks();
+
+    service = new HeartbeatService(
+      { get: () => ({ timeoutMs: 60000, refreshIntervalMs: 10000 }) } as unknown as ConfigService,
+      {
+        getTradingService: async (exchange: keyof typeof exchanges) => exchanges[exchange],
+      } as unknown as ExchangeServiceFactory,
+      new SchedulerRegistry(),
+    );
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  test('keeps the exchange counting down to timeoutMs after the last heartbeat', async () => {
+    const response = await service.heartbeat(['binance'], 30000);
+    expect(response.data).toMatchObject([
+      { exchange: 'binance', expiresAt: 1_030_000, cancelAt: 1_030_000, symbols: ['BTCUSDT'] },
+    ]);
+
+    now += 10000;
+    await service.refresh();
+    now += 25000;
+    await service.refresh();
+
+    expect(exchanges.binance.cancelAllAfter.mock.calls).toEqual([[30000], [20000]]);
+    expect(service.getStatus().data).toEqual([]);
+  });
+
+  test('reports exchanges that reject the timer and disarms on request', async () => {
+    const response = await service.heartbeat(['binance', 'okx']);
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('okx (timeout)');
+
+    expect((await service.disarm(['binance'])).success).toBe(true);
+    expect(exchanges.binance.cancelAllAfter).toHaveBeenLastCalledWith(0);
+    expect(service.getStatus().data).toMatchObject([{ exchange: 'okx', error: 'timeout' }]);
+  });
+});
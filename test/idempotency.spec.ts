@@ -0,0 +1,140 @@
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { ExchangeRegistry, ExchangeServiceFactory } from '../src/common/factory/exchange.factory';
+import { IPerpetualTradingService } from '../src/common/interfaces';
+import { OrderSide, OrderType } from '../src/common/types/exchange.types';
+import { IdempotencyService } from '../src/idempotency/services/idempotency.service';
+import { generateClientOrderId } from '../src/idempotency/shared/client-order-id';
+
+const order = (clientOrderId: string) => ({
+  success: true,
+  data: { orderId: '1', clientOrderId, symbol: 'BTCUSDT', side: 'BUY', status: 'FILLED' },
+  timestamp: Date.now(),
+});
+
+const params = { symbol: 'BTCUSDT', side: OrderSide.BUY, quantity: '0.1' };
+
+const setup = () => {
+  const tradingService = {
+    placeMarketOrder: jest.fn(async (p: any) => order(p.clientOrderId)),
+    placeOrders: jest.fn(async (list: any[]) => ({
+      success: true,
+      data: list.map(p => order(p.clientOrderId)),
+      timestamp: 0,
+    })),
+    getOrderByClientId: jest.fn<Promise<any>, [string, string]>(async () => ({
+      success: true,
+      data: null,
+      timestamp: 0,
+    })),
+  };
+  const registry = new ExchangeRegistry();
+  registry.register({ exchange: 'paper', tradingType: 'perpetual' } as any);
+  const factory = new ExchangeServiceFactory(registry, {
+    get: () => tradingService,
+  } as unknown as ModuleRef);
+  const configService = {
+    get: () => ({ keyTtlMs: 60000, maxRetries: 1, recheckDelayMs: 0 }),
+  } as unknown as ConfigService;
+
+  const idempotency = new IdempotencyService(configService, factory);
+  idempotency.onModuleInit();
+
+  const getTrading = () =>
+    factory.getTradingService('paper', 'perpetual') as Promise<IPerpetualTradingService>;
+
+  return { idempotency, tradingService, getTrading };
+};
+
+describe('IdempotencyService', () => {
+  test('derives the client ID from the key and replays repeated requests', async () => {
+    const { idempotency, tradingService, getTrading } = setup();
+    const trading = await getTrading();
+    const place = (p = params) =>
+      idempotency.runWithKey('key-1', () => trading.placeMarketOrder(p));
+
+    const first = await place();
+    const repeat = await place();
+    const conflict = await place({ ...params, quantity: '0.2' });
+
+    expect(tradingService.placeMarketOrder).toHaveBeenCalledTimes(1);
+    expect(first.data?.clientOrderId).toBe(generateClientOrderId('paper', 'paper:key-1:0'));
+    expect(repeat).toEqual(first);
+    expect(conflict).toMatchObject({ success: false, error: expect.stringMatching(/different/) });
+  });
+
+  test('scopes the key to the API key of the caller', async () => {
+    const { idempotency, tradingService, getTrading } = setup();
+    const trading = await getTrading();
+    const place = (apiKey: string) =>
+      idempotency.runWithKey('key-1', () => trading.placeMarketOrder(params), apiKey);
+
+    const first = await place('alice');
+    const second = await place('bob');
+
+    expect(tradingService.placeMarketOrder).toHaveBeenCalledTimes(2);
+    expect(second.data?.clientOrderId).not.toBe(first.data?.clientOrderId);
+    expect(await place('alice')).toEqual(first);
+  });
+
+  test('finds the order after an ambiguous failure instead of placing it again', async () => {
+    const { tradingService, getTrading } = setup();
+    const trading = await getTrading();
+    tradingService.placeMarketOrder.mockResolvedValueOnce({
+      success: false,
+      error: 'No response from server',
+      timestamp: 0,
+    } as any);
+    tradingService.getOrderByClientId.mockImplementationOnce(async (_s: string, id: string) =>
+      order(id),
+    );
+
+    const response = await trading.placeMarketOrder(params);
+
+    expect(response.success).toBe(true);
+    expect(tradingService.placeMarketOrder).toHaveBeenCalledTimes(1);
+    expect(tradingService.getOrderByClientId).toHaveBeenCalledWith(
+      'BTCUSDT',
+      response.data?.clientOrderId,
+    );
+  });
+
+  test('retries with the same client ID only when the order does not exist', async () => {
+    const { tradingService, getTrading } = setup();
+    const trading = await getTrading();
+    tradingService.placeMarketOrder.mockRejectedValueOnce(new Error('timeout of 10000ms exceeded'));
+
+    const response = await trading.placeMarketOrder({ ...params, clientOrderId: 'my-id' });
+
+    expect(response.data?.clientOrderId).toBe('my-id');
+    expect(tradingService.getOrderByClientId).toHaveBeenCalledTimes(1);
+    expect(tradingService.placeMarketOrder.mock.calls.map(([p]) => p.clientOrderId)).toEqual([
+      'my-id',
+      'my-id',
+    ]);
+  });
+
+  test('keys every order of a batch and only sends those an earlier attempt did not place', async () => {
+    const { idempotency, tradingService, getTrading } = setup();
+    const trading = await getTrading();
+    const orders = [params, { ...params, side: OrderSide.SELL }].map(p => ({
+      ...p,
+      type: OrderType.MARKET,
+    }));
+    const firstId = generateClientOrderId('paper', 'paper:key-2:0');
+    tradingService.getOrderByClientId.mockImplementation(async (_s: string, id: string) =>
+      id === firstId ? order(id) : { success: true, data: null, timestamp: 0 },
+    );
+
+    const response = await idempotency.runWithKey('key-2', () => trading.placeOrders(orders));
+
+    expect(tradingService.placeOrders).toHaveBeenCalledTimes(1);
+    expect(tradingService.placeOrders.mock.calls[0][0]).toEqual([
+      { ...orders[1], clientOrderId: generateClientOrderId('paper', 'paper:key-2:1') },
+    ]);
+    expect(response.data?.map(result => result.data?.clientOrderId)).toEqual([
+      firstId,
+      generateClientOrderId('paper', 'paper:key-2:1'),
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { JournalController } from '../src/api/controllers/journal.controller';
+import { ExchangeRegistry, ExchangeServiceFactory } from '../src/common/factory/exchange.factory';
+import { IPerpetualTradingService } from '../src/common/interfaces';
+import { SymbolNormalizerService } from '../src/common/services/symbol-normalizer.service';
+import { UserDataEventBus } from '../src/common/services/user-data-event-bus.service';
+import { OrderSide, OrderType } from '../src/common/types/exchange.types';
+import { JournalService } from '../src/journal/services/journal.service';
+import { SqliteJournalStore } from '../src/journal/stores';
+
+const order = (orderId: string, extra: Record<string, any> = {}) => ({
+  success: true,
+  data: { orderId, symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', status: 'FILLED', ...extra },
+  timestamp: Date.now(),
+});
+
+const tradingService = {
+  placeMarketOrder: jest.fn(async () => order('1')),
+  cancelOrder: jest.fn(async () => ({ success: false, error: 'Unknown order', timestamp: 0 })),
+  quickLong: jest.fn(async () => ({
+    success: true,
+    data: {
+      mainOrder: order('10'),
+      stopLoss: order('11', { type: 'STOP_MARKET', side: 'SELL', status: 'NEW' }),
+      takeProfit: { success: false, error: 'Rejected', timestamp: 0 },
+    },
+    timestamp: 0,
+  })),
+  placeOrders: jest.fn(async () => ({
+    success: true,
+    data: [order('20', { type: 'LIMIT' }), { success: false, error: 'Rejected', timestamp: 0 }],
+    timestamp: 0,
+  })),
+  getOpenOrders: jest.fn(async () => ({ success: true, data: [], timestamp: 0 })),
+};
+
+const setup = () => {
+  const store = new SqliteJournalStore(':memory:');
+  const registry = new ExchangeRegistry();
+  registry.register({ exchange: 'paper', tradingType: 'perpetual' } as any);
+  const factory = new ExchangeServiceFactory(registry, {
+    get: () => tradingService,
+  } as unknown as ModuleRef);
+  const eventBus = new UserDataEventBus();
+  const configService = {
+    get: () => ({ enabled: true, driver: 'sqlite', file: ':memory:' }),
+  } as unknown as ConfigService;
+
+  const journal = new JournalService(
+    configService,
+    store,
+    factory,
+    eventBus,
+    new SymbolNormalizerService(),
+  );
+  journal.onModuleInit();
+
+  const getTrading = () =>
+    factory.getTradingService('paper', 'perpetual') as Promise<IPerpetualTradingService>;
+
+  return { journal, store, eventBus, getTrading };
+};
+
+describe('JournalService', () => {
+  test('journals placements, failures and strategy tags', async () => {
+    const { journal, store, getTrading } = setup();
+    const trading = await getTrading();
+
+    await journal.runWithStrategy('breakout', () =>
+      trading.placeMarketOrder({ symbol: 'BTCUSDT', side: OrderSide.BUY, quantity: '0.1' }),
+    );
+    const cancel = await trading.cancelOrder({ symbol: 'BTCUSDT', orderId: '99' });
+    await trading.getOpenOrders();
+
+    expect(cancel.error).toBe('Unknown order');
+    const orders = await store.findOrders({});
+    expect(orders).toHaveLength(2);
+    expect(orders[1]).toMatchObject({
+      operation: 'placeMarketOrder',
+      action: 'place',
+      orderId: '1',
+      quantity: '0.1',
+      strategy: 'breakout',
+      success: true,
+      params: { symbol: 'BTCUSDT', side: 'BUY', quantity: '0.1' },
+    });
+    expect(orders[0]).toMatchObject({
+      operation: 'cancelOrder',
+      action: 'cancel',
+      orderId: '99',
+      success: false,
+      error: 'Unknown order',
+    });
+    expect(await store.findOrders({ strategy: 'breakout' })).toHaveLength(1);
+  });
+
+  test('links quick trade stop loss and take profit to the entry order', async () => {
+    const { store, getTrading } = setup();
+    const trading = await getTrading();
+
+    await trading.quickLong('BTCUSDT', 100, 2, 5, 10);
+
+    const [entry] = await store.findOrders({ orderId: '10' });
+    expect(entry).toMatchObject({
+      operation: 'quickLong',
+      params: { usdValue: 100, leverage: 10 },
+    });
+
+    const children = await store.findOrders({ parentId: entry.id });
+    expect(children.map(child => [child.operation, child.orderId, child.success])).toEqual([
+      ['setTakeProfit', undefined, false],
+      ['setStopLoss', '11', true],
+    ]);
+  });
+
+  test('journals each order of a batch with its own params', async () => {
+    const { store, getTrading } = setup();
+    const trading = await getTrading();
+    const orders = [
+      { symbol: 'BTCUSDT', side: OrderSide.BUY, type: OrderType.LIMIT, quantity: '1', price: '9' },
+      { symbol: 'ETHUSDT', side: OrderSide.SELL, type: OrderType.LIMIT, quantity: '2', price: '8' },
+    ];
+
+    await trading.placeOrders(orders);
+
+    const journaled = await store.findOrders({});
+    expect(journaled.map(entry => [entry.symbol, entry.orderId, entry.success])).toEqual([
+      ['ETHUSDT', undefined, false],
+      ['BTCUSDT', '20', true],
+    ]);
+    expect(journaled[0]).toMatchObject({ error: 'Rejected', params: orders[1] });
+  });
+
+  test('journals fills once with the strategy of their order', async () => {
+    const { journal, store, eventBus, getTrading } = setup();
+    const trading = await getTrading();
+    await journal.runWithStrategy('mean-revert', () =>
+      trading.placeMarketOrder({ symbol: 'BTCUSDT', side: OrderSide.BUY, quantity: '0.1' }),
+    );
+
+    const trade = {
+      id: 't1',
+      orderId: '1',
+      symbol: 'BTCUSDT',
+      side: OrderSide.BUY,
+      price: '100',
+      quantity: '0.1',
+      fee: '0.005',
+      feeAsset: 'USDT',
+      timestamp: 1000,
+    };
+    eventBus.publish({ exchange: 'paper', type: 'trade', data: trade, timestamp: 1000 });
+    eventBus.publish({ exchange: 'paper', type: 'trade', data: trade, timestamp: 1000 });
+    await new Promise(resolve => setImmediate(resolve));
+
+    const fills = await store.findFills({ exchange: 'paper', startTime: 1000, endTime: 1000 });
+    expect(fills).toEqual([
+      expect.objectContaining({ tradeId: 't1', orderId: '1', strategy: 'mean-revert' }),
+    ]);
+    expect(await store.findFills({ symbol: 'ETHUSDT' })).toHaveLength(0);
+  });
+});
+
+describe('JournalController', () => {
+  test('only serves the journal to requests with an API key', async () => {
+    const journalService = {
+      getOrders: jest.fn(async () => ({ success: true, data: [], timestamp: 0 })),
+    };
+    const moduleRef = await Test.createTestingModule({
+      controllers: [JournalController],
+      providers: [
+        { provide: JournalService, useValue: journalService },
+        { provide: ConfigService, useValue: { get: () => 'journal-key' } },
+      ],
+    }).compile();
+    const app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+
+    try {
+      await request(app.getHttpServer()).get('/api/journal/orders').expect(401);
+      await request(app.getHttpServer())
+        .get('/api/journal/orders')
+        .set('X-API-Key', 'journal-key')
+        .expect(200);
+      expect(journalService.getOrders).toHaveBeenCalledTimes(1);
+    } finally {
+      await app.close();
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import { Logger } from '@nestjs/common';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonStateFile } from '../src/common/state';
+
+describe('JsonStateFile', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'state-'));
+    file = join(dir, 'nested', 'state.json');
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  const stateFile = () => new JsonStateFile<{ n: number }>(file, 'test state', new Logger());
+
+  test('keeps the newest of chained saves', async () => {
+    const state = stateFile();
+
+    void state.save({ n: 1 });
+    await state.save({ n: 2 });
+
+    expect(stateFile().load()).toEqual({ n: 2 });
+    expect(existsSync(`${file}.tmp`)).toBe(false);
+  });
+
+  test('saves synchronously through a temporary file and ignores later saves', async () => {
+    const state = stateFile();
+
+    const pending = state.save({ n: 1 });
+    state.saveSync({ n: 2 });
+    await pending;
+
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual({ n: 2 });
+    expect(existsSync(`${file}.${process.pid}.tmp`)).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ExchangeRegistry, ExchangeServiceFactory } from '../src/common/factory/exchange.factory';
+import { OrderSide, OrderType } from '../src/common/types/exchange.types';
+import { KillSwitchService } from '../src/risk/services/kill-switch.service';
+
+describe('KillSwitchService', () => {
+  let dir: string;
+  let equity: string;
+  let factory: ExchangeServiceFactory;
+  let service: KillSwitchService;
+  const exchange = {
+    getPortfolioValue: async () => ({ success: true, data: { totalValue: equity } }),
+    placeOrder: jest.fn<Promise<any>, [any]>(async () => ({ success: true })),
+    getOpenOrders: async () => ({ success: true, data: [{ symbol: 'ETHUSDT' }] }),
+    cancelAllOrders: jest.fn<Promise<any>, [string]>(async () => ({ success: true })),
+    getPositions: async () => ({ success: true, data: [{ symbol: 'BTCUSDT', size: '1' }] }),
+    closeAllPositions: jest.fn<Promise<any>, []>(async () => ({ success: true })),
+    cancelAllConditionalOrders: jest.fn<Promise<any>, [string]>(async () => ({ success: true })),
+  };
+  const order = { symbol: 'BTCUSDT', side: OrderSide.SELL, type: OrderType.MARKET, quantity: '1' };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'kill-switch-'));
+    equity = '10000';
+    jest.clearAllMocks();
+
+    const registry = new ExchangeRegistry();
+    registry.register({ exchange: 'paper', tradingType: 'perpetual' } as any);
+    factory = new ExchangeServiceFactory(registry, { get: () => exchange } as unknown as ModuleRef);
+    service = new KillSwitchService(
+      {
+        get: () => ({
+          exchanges: ['paper'],
+          maxDailyLossPercent: 0,
+          maxDrawdownPercent: 10,
+          onLiquidationRisk: false,
+          checkIntervalMs: 60000,
+          stateFile: join(dir, 'kill-switch.json'),
+        }),
+      } as unknown as ConfigService,
+      factory,
+      new SchedulerRegistry(),
+    );
+    service.onModuleInit();
+  });
+  afterEach(() => {
+    service.onModuleDestroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('flattens and halts trading once drawdown from peak passes the limit', async () => {
+    await service.check();
+    equity = '12000';
+    await service.check();
+    equity = '10900';
+    await service.check();
+    expect(service.getStatus().data).toMatchObject({ tripped: false, drawdownPercent: 9.17 });
+
+    equity = '10700';
+    await service.check();
+
+    expect(service.getStatus().data).toMatchObject({
+      tripped: true,
+      flattened: [{ exchange: 'paper', ordersCancelled: true, positionsClosed: true }],
+    });
+    expect(exchange.cancelAllOrders.mock.calls).toEqual([['ETHUSDT']]);
+    expect(exchange.cancelAllConditionalOrders.mock.calls).toEqual([['ETHUSDT'], ['BTCUSDT']]);
+
+    const trading = await factory.getTradingService('paper', 'perpetual');
+    expect((await trading.placeOrder(order)).error).toContain('halted by the kill switch');
+    expect((await trading.placeOrder({ ...order, reduceOnly: true })).success).toBe(true);
+    expect(exchange.placeOrder).toHaveBeenCalledTimes(1);
+  });
+
+  test('starts over from current equity when re-armed', async () => {
+    await service.check();
+    await service.trip('manual');
+    expect((await service.trip('again')).success).toBe(false);
+
+    expect((await service.rearm()).data).toMatchObject({ tripped: false, peakEquity: undefined });
+    equity = '9500';
+    await service.check();
+
+    expect(service.getStatus().data).toMatchObject({ tripped: false, peakEquity: 9500 });
+    const trading = await factory.getTradingService('paper', 'perpetual');
+    expect((await trading.placeOrder(order)).success).toBe(true);
+  });
+
+  test('tracks only the exchanges with credentials by default', async () => {
+    const registry = new ExchangeRegistry();
+    for (const name of ['paper', 'binance', 'okx']) {
+      registry.register({ exchange: name, tradingType: 'perpetual' } as any);
+    }
+    const config: Record<string, any> = {
+      killSwitch: { exchanges: [], onLiquidationRisk: false, stateFile: join(dir, 'tracked.json') },
+      'binance.apiKey': 'key',
+      'binance.apiSecret': 'secret',
+      'okx.apiKey': 'key',
+    };
+    const tracked = new KillSwitchService(
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+      new ExchangeServiceFactory(registry, { get: () => exchange } as unknown as ModuleRef),
+      new SchedulerRegistry(),
+    );
+
+    await tracked.check();
+
+    expect(tracked.getStatus().data?.equities).toEqual({ binance: 10000 });
+  });
+});
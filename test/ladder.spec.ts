@@ -0,0 +1,134 @@
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ExchangeRegistry, ExchangeServiceFactory } from '../src/common/factory/exchange.factory';
+import { OrderSide, OrderStatus } from '../src/common/types/exchange.types';
+import { LadderService } from '../src/ladders/services/ladder.service';
+import { getLadderPrices, getLadderWeights } from '../src/ladders/shared/ladder-plan';
+
+describe('ladder plan', () => {
+  test('spreads prices evenly and sizes levels from 1 to sizeScale', () => {
+    expect(getLadderPrices(100, 90, 3)).toEqual([100, 95, 90]);
+    expect(getLadderWeights('linear', 3)).toEqual([1, 1, 1]);
+    expect(getLadderWeights('linear', 3, 3)).toEqual([1, 2, 3]);
+    expect(getLadderWeights('geometric', 3, 4)).toEqual([1, 2, 4]);
+    expect(() => getLadderWeights('custom', 3, 1, [1, 2])).toThrow('custom distribution needs 3');
+  });
+});
+
+describe('LadderService', () => {
+  let dir: string;
+  let service: LadderService;
+  const orders = new Map<string, any>();
+  const exchange = {
+    formatPrice: async (_symbol: string, price: string) => parseFloat(price).toFixed(1),
+    formatQuantity: async (_symbol: string, quantity: string) => parseFloat(quantity).toFixed(3),
+    getQuantityLimits: async () => ({ success: true, data: { min: '0.01', max: '1000' } }),
+    placeOrders: jest.fn<Promise<any>, [any[]]>(async list => ({
+      success: true,
+      data: list.map(params => {
+        const order = { ...params, orderId: params.clientOrderId, executedQuantity: '0' };
+        orders.set(order.orderId, { ...order, status: OrderStatus.NEW });
+        return { success: true, data: { ...order, status: OrderStatus.NEW } };
+      }),
+    })),
+    getOrder: async (_symbol: string, orderId: string) => ({
+      success: true,
+      data: { ...orders.get(orderId) },
+    }),
+    cancelOrders: jest.fn<Promise<any>, [any[]]>(async list => ({
+      success: true,
+      data: list.map(params => {
+        orders.get(params.orderId).status = OrderStatus.CANCELED;
+        return { success: true };
+      }),
+    })),
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ladders-'));
+    orders.clear();
+    exchange.placeOrders.mockClear();
+
+    const registry = new ExchangeRegistry();
+    registry.register({ exchange: 'paper', tradingType: 'perpetual' } as any);
+    service = new LadderService(
+      {
+        get: () => ({ stateFile: join(dir, 'ladders.json'), maxLevels: 10 }),
+      } as unknown as ConfigService,
+      new ExchangeServiceFactory(registry, { get: () => exchange } as unknown as ModuleRef),
+    );
+    service.onModuleInit();
+  });
+  afterEach(() => {
+    service.onModuleDestroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const placed = () =>
+    exchange.placeOrders.mock.calls.flatMap(([list]) =>
+      list.map(params => [params.price, params.quantity]),
+    );
+
+  test('rounds each level and splits a USD value by notional', async () => {
+    const result = await service.placeLadder({
+      exchange: 'paper',
+      symbol: 'BTCUSDT',
+      side: OrderSide.BUY,
+      priceFrom: '100.04',
+      priceTo: '80',
+      levels: 3,
+      usdValue: 360,
+      distribution: 'custom',
+      weights: [1, 1, 1],
+    });
+
+    expect(result.success).toBe(true);
+    expect(placed()).toEqual([
+      ['100.0', '1.200'],
+      ['90.0', '1.333'],
+      ['80.0', '1.500'],
+    ]);
+  });
+
+  test('amends a partly filled ladder by re-laddering what is left', async () => {
+    const result = await service.placeLadder({
+      exchange: 'paper',
+      symbol: 'BTCUSDT',
+      side: OrderSide.BUY,
+      priceFrom: '100',
+      priceTo: '90',
+      levels: 2,
+      quantity: '2',
+    });
+    const id = result.data!.id;
+    const [first, second] = result.data!.levels;
+    Object.assign(orders.get(first.orderId!), {
+      status: OrderStatus.FILLED,
+      executedQuantity: '1',
+    });
+    Object.assign(orders.get(second.orderId!), { executedQuantity: '0.4' });
+    exchange.placeOrders.mockClear();
+
+    const amended = await service.amendLadder(id, { priceFrom: '95', priceTo: '85', levels: 3 });
+
+    expect(amended.success).toBe(true);
+    expect(placed()).toEqual([
+      ['95.0', '0.200'],
+      ['90.0', '0.200'],
+      ['85.0', '0.200'],
+    ]);
+    expect(amended.data!.levels.map(level => level.status)).toEqual([
+      'filled',
+      'cancelled',
+      'open',
+      'open',
+      'open',
+    ]);
+
+    const cancelled = await service.cancelLadder(id);
+    expect(cancelled.data!.levels.filter(level => level.status === 'open')).toHaveLength(0);
+  });
+});
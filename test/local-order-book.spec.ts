@@ -0,0 +1,95 @@
+import { LocalOrderBook } from '../src/common/services/local-order-book';
+import { OrderBookDiff, OrderSide } from '../src/common/types/exchange.types';
+
+const diff = (overrides: Partial<OrderBookDiff>): OrderBookDiff => ({
+  symbol: 'BTCUSDT',
+  bids: [],
+  asks: [],
+  snapshot: false,
+  firstUpdateId: 0,
+  lastUpdateId: 0,
+  timestamp: 0,
+  ...overrides,
+});
+
+const snapshot = {
+  symbol: 'BTCUSDT',
+  bids: [
+    ['100', '1'],
+    ['99', '2'],
+  ] as [string, string][],
+  asks: [
+    ['101', '1'],
+    ['102', '3'],
+  ] as [string, string][],
+  timestamp: 0,
+  lastUpdateId: 10,
+};
+
+describe('LocalOrderBook', () => {
+  test('buffers diffs until the snapshot and replays those after it', () => {
+    const book = new LocalOrderBook('BTCUSDT');
+
+    expect(book.applyDiff(diff({ firstUpdateId: 5, lastUpdateId: 8, prevUpdateId: 4 }))).toBe(
+      'buffered',
+    );
+    book.applyDiff(
+      diff({ firstUpdateId: 9, lastUpdateId: 12, prevUpdateId: 8, bids: [['100.5', '4']] }),
+    );
+
+    expect(book.applySnapshot(snapshot)).toBe(true);
+    expect(book.isSynced()).toBe(true);
+    expect(book.lastUpdateId).toBe(12);
+    expect(book.getBestBid()).toBe(100.5);
+  });
+
+  test('inserts, updates and removes levels in price order', () => {
+    const book = new LocalOrderBook('BTCUSDT');
+    book.applySnapshot(snapshot);
+
+    book.applyDiff(
+      diff({
+        firstUpdateId: 11,
+        lastUpdateId: 11,
+        prevUpdateId: 10,
+        bids: [
+          ['100', '0'],
+          ['99.5', '1'],
+        ],
+        asks: [['102', '5']],
+      }),
+    );
+
+    const { bids, asks } = book.toOrderBook();
+    expect(bids).toEqual([
+      ['99.5', '1'],
+      ['99', '2'],
+    ]);
+    expect(asks).toEqual([
+      ['101', '1'],
+      ['102', '5'],
+    ]);
+  });
+
+  test('detects sequence gaps and drops the book', () => {
+    const book = new LocalOrderBook('BTCUSDT');
+    book.applySnapshot(snapshot);
+    book.applyDiff(diff({ firstUpdateId: 11, lastUpdateId: 11, prevUpdateId: 10 }));
+
+    expect(book.applyDiff(diff({ firstUpdateId: 14, lastUpdateId: 15, prevUpdateId: 13 }))).toBe(
+      'gap',
+    );
+    expect(book.isSynced()).toBe(false);
+    expect(book.toOrderBook().bids).toHaveLength(0);
+  });
+
+  test('estimates taker fills by walking the book', () => {
+    const book = new LocalOrderBook('BTCUSDT');
+    book.applySnapshot(snapshot);
+
+    const fill = book.estimateFill(OrderSide.BUY, 2);
+    expect(fill.filledQuantity).toBe(2);
+    expect(fill.averagePrice).toBe(101.5);
+    expect(fill.worstPrice).toBe(102);
+  });
+});
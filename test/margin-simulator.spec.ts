@@ -0,0 +1,109 @@
+import { MarginTier } from '../src/common/interfaces';
+import { liquidationPrice, simulateMargin } from '../src/margin/shared/margin-math';
+
+describe('Margin simulator', () => {
+  // Binance-style brackets: the maintenance amount keeps margin continuous across tiers
+  const btcTiers: MarginTier[] = [
+    {
+      floor: 0,
+      cap: 50000,
+      basis: 'notional',
+      maxLeverage: 125,
+      maintenanceMarginRate: 0.004,
+      maintenanceAmount: 0,
+    },
+    {
+      floor: 50000,
+      cap: 250000,
+      basis: 'notional',
+      maxLeverage: 100,
+      maintenanceMarginRate: 0.005,
+      maintenanceAmount: 50,
+    },
+    {
+      floor: 250000,
+      cap: Infinity,
+      basis: 'notional',
+      maxLeverage: 50,
+      maintenanceMarginRate: 0.01,
+      maintenanceAmount: 1300,
+    },
+  ];
+  const ethTiers: MarginTier[] = [
+    {
+      floor: 0,
+      cap: Infinity,
+      basis: 'notional',
+      maxLeverage: 50,
+      maintenanceMarginRate: 0.01,
+      maintenanceAmount: 0,
+    },
+  ];
+  const btcLong = {
+    symbol: 'BTCUSDT',
+    side: 'LONG' as const,
+    quantity: 1,
+    entryPrice: 60000,
+    markPrice: 60000,
+    leverage: 10,
+    tiers: btcTiers,
+  };
+
+  test('liquidates an isolated position where its margin meets the tier maintenance', () => {
+    const simulation = simulateMargin([btcLong], { marginMode: 'isolated', feeRate: 0 });
+
+    expect(simulation.positions[0]).toMatchObject({
+      initialMargin: 6000,
+      maintenanceMargin: 250,
+      maxLeverage: 100,
+      liquidated: false,
+    });
+    expect(simulation.positions[0].liquidationPrice).toBeCloseTo(54221.11, 2);
+  });
+
+  test('picks the tier the position is in at the liquidation price', () => {
+    // A 240k short grows into the 1% tier on the way up
+    expect(liquidationPrice(-4, 60000, 120000, btcTiers)).toBeCloseTo(89430.69, 2);
+    // A long with more collateral than notional is never liquidated
+    expect(liquidationPrice(1, 60000, 70000, btcTiers)).toBeNull();
+  });
+
+  test('shares cross margin, fees and PnL across positions', () => {
+    const ethShort = {
+      symbol: 'ETHUSDT',
+      side: 'SHORT' as const,
+      quantity: 10,
+      entryPrice: 3000,
+      markPrice: 3100,
+      leverage: 10,
+      tiers: ethTiers,
+    };
+    const simulation = simulateMargin([btcLong, ethShort], {
+      marginMode: 'cross',
+      balance: 20000,
+      feeRate: 0.0005,
+    });
+
+    expect(simulation).toMatchObject({
+      fees: 45,
+      unrealizedPnl: -1000,
+      marginBalance: 18955,
+      initialMargin: 9000,
+      maintenanceMargin: 560,
+      availableBalance: 9955,
+    });
+    expect(simulation.marginRatio).toBeCloseTo(560 / 18955, 6);
+    expect(simulation.positions[0].liquidationPrice).toBeCloseTo(41521.08, 2);
+    expect(simulation.warnings).toBeUndefined();
+
+    const overLevered = simulateMargin([{ ...btcLong, leverage: 125 }], {
+      marginMode: 'cross',
+      balance: 100,
+      feeRate: 0,
+    });
+    expect(overLevered.positions[0].warnings).toEqual([
+      'Leverage 125x is above the 100x max for a 60000 notional BTCUSDT position',
+    ]);
+    expect(overLevered.warnings).toHaveLength(1);
+  });
+});
@@ -0,0 +1,143 @@
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ExchangeRegistry, ExchangeServiceFactory } from '../src/common/factory/exchange.factory';
+import { SymbolNormalizerService } from '../src/common/services/symbol-normalizer.service';
+import { UserDataEventBus } from '../src/common/services/user-data-event-bus.service';
+import { OrderStatus } from '../src/common/types/exchange.types';
+import { JournalService } from '../src/journal/services/journal.service';
+import { OcoManagerService } from '../src/oco/services/oco-manager.service';
+
+describe('OcoManagerService', () => {
+  let dir: string;
+  let size: string | undefined;
+  let nextId: number;
+  let manager: OcoManagerService;
+  const eventBus = new UserDataEventBus();
+  const exchange = {
+    quickLong: async () => ({
+      success: true,
+      data: {
+        mainOrder: { success: true, data: { orderId: 'entry' } },
+        stopLoss: { success: true, data: { orderId: 'sl-1', quantity: '2' } },
+        takeProfit: { success: true, data: { orderId: 'tp-1', quantity: '2' } },
+        stopLossPrice: '90',
+        takeProfitPrice: '110',
+      },
+    }),
+    getPositions: async () => ({
+      success: true,
+      data: size ? { side: 'LONG', size } : null,
+    }),
+    setStopLoss: jest.fn<Promise<any>, [any]>(async params => ({
+      success: true,
+      data: { orderId: `sl-${nextId++}`, quantity: params.quantity },
+    })),
+    setTakeProfit: jest.fn<Promise<any>, [any]>(async params => ({
+      success: true,
+      data: { orderId: `tp-${nextId++}`, quantity: params.quantity },
+    })),
+    cancelOrder: jest.fn<Promise<any>, [any]>(async () => ({ success: true })),
+    getOrder: async () => ({ success: false, error: 'Order not found' }),
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'oco-'));
+    size = '2';
+    nextId = 2;
+    exchange.setStopLoss.mockClear();
+    exchange.setTakeProfit.mockClear();
+    exchange.cancelOrder.mockClear();
+
+    const registry = new ExchangeRegistry();
+    registry.register({ exchange: 'paper', tradingType: 'perpetual' } as any);
+    const factory = new ExchangeServiceFactory(registry, {
+      get: () => exchange,
+    } as unknown as ModuleRef);
+
+    manager = new OcoManagerService(
+      {
+        get: () => ({
+          enabled: true,
+          stateFile: join(dir, 'oco.json'),
+          pollIntervalMs: 60000,
+          pendingTimeoutMs: 60000,
+        }),
+      } as unknown as ConfigService,
+      factory,
+      new SymbolNormalizerService(),
+      eventBus,
+      {
+        getStrategy: () => undefined,
+        runWithStrategy: (_strategy: string, fn: () => any) => fn(),
+      } as unknown as JournalService,
+    );
+    manager.onModuleInit();
+  });
+  afterEach(() => {
+    manager.onModuleDestroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const quickLong = async () => {
+    const factory: ExchangeServiceFactory = manager['exchangeFactory'];
+    const trading: any = await factory.getTradingService('paper', 'perpetual');
+    await trading.quickLong('BTCUSDT', 100, 1, 1, 10);
+    return manager.getBrackets().data![0];
+  };
+  const tick = () => manager['runTick']();
+  const cancelled = () => exchange.cancelOrder.mock.calls.map(([params]) => params.orderId);
+
+  test('cancels the stop loss once the take profit fills', async () => {
+    const bracket = await quickLong();
+    expect(bracket).toMatchObject({ side: 'SELL', status: 'pending' });
+
+    await tick();
+    expect(bracket.status).toBe('active');
+
+    eventBus.publish({
+      exchange: 'paper',
+      type: 'order',
+      data: { orderId: 'tp-1', status: OrderStatus.FILLED } as any,
+      timestamp: Date.now(),
+    });
+    await manager['exclusive'](bracket, async () => undefined);
+
+    expect(cancelled()).toEqual(['sl-1']);
+    expect(bracket).toMatchObject({
+      status: 'completed',
+      reason: 'Take profit filled',
+      stopLoss: { status: 'cancelled' },
+      takeProfit: { status: 'filled' },
+    });
+  });
+
+  test('resizes both legs after a partial close and cancels them once the position is gone', async () => {
+    const bracket = await quickLong();
+    await tick();
+
+    size = '0.5';
+    await tick();
+
+    expect(exchange.setStopLoss).toHaveBeenCalledWith({
+      symbol: 'BTCUSDT',
+      stopPrice: '90',
+      quantity: '0.5',
+      side: 'SELL',
+    });
+    expect(exchange.setTakeProfit.mock.calls[0][0]).toMatchObject({
+      takeProfitPrice: '110',
+      quantity: '0.5',
+    });
+    expect(cancelled()).toEqual(['sl-1', 'tp-1']);
+    expect(bracket.stopLoss).toMatchObject({ orderId: 'sl-2', quantity: '0.5' });
+
+    size = undefined;
+    await tick();
+
+    expect(cancelled()).toEqual(['sl-1', 'tp-1', 'sl-2', 'tp-3']);
+    expect(bracket).toMatchObject({ status: 'completed', reason: 'Position closed' });
+  });
+});
@@ -0,0 +1,123 @@
+import { PaperAccount } from '../src/exchanges/paper/shared/paper-account';
+import { PaperAccountOptions, PaperQuote } from '../src/exchanges/paper/types';
+import { OrderSide, OrderStatus, OrderType } from '../src/common/types/exchange.types';
+
+const options: PaperAccountOptions = {
+  asset: 'USDT',
+  makerFee: 0.0002,
+  takerFee: 0.0005,
+  slippageBps: 0,
+  defaultLeverage: 10,
+  maxLeverage: 50,
+  maintenanceMarginRate: 0.005,
+  fundingIntervalHours: 8,
+};
+
+const quote = (price: number, spread: number = 0): PaperQuote => ({
+  bid: price - spread,
+  ask: price + spread,
+  last: price,
+});
+
+const createAccount = (balance: number = 10000) =>
+  new PaperAccount(options, PaperAccount.createState(balance));
+
+describe('PaperAccount', () => {
+  test('fills market orders as taker and realizes PnL on close', () => {
+    const account = createAccount();
+    const market = { symbol: 'BTCUSDT', type: OrderType.MARKET, quantity: 1 };
+
+    const open = account.placeOrder({ ...market, side: OrderSide.BUY }, quote(100));
+    expect(open.status).toBe(OrderStatus.FILLED);
+    expect(account.state.positions[0]).toMatchObject({ size: 1, entryPrice: 100 });
+    expect(account.state.walletBalance).toBeCloseTo(10000 - 0.05);
+
+    account.placeOrder({ ...market, side: OrderSide.SELL }, quote(110));
+    expect(account.state.positions).toHaveLength(0);
+    expect(account.state.walletBalance).toBeCloseTo(10000 - 0.05 + 10 - 0.055);
+  });
+
+  test('rests limit orders and fills them as maker once the book crosses', () => {
+    const account = createAccount();
+
+    const order = account.placeOrder(
+      { symbol: 'BTCUSDT', side: OrderSide.BUY, type: OrderType.LIMIT, quantity: 2, price: 95 },
+      quote(100, 0.5),
+    );
+    expect(order.status).toBe(OrderStatus.NEW);
+    expect(account.getSummary().openOrderInitialMargin).toBeCloseTo(19);
+
+    account.match('BTCUSDT', quote(97, 0.5));
+    expect(order.status).toBe(OrderStatus.NEW);
+
+    account.match('BTCUSDT', quote(94.5, 0.5));
+    expect(order.status).toBe(OrderStatus.FILLED);
+    expect(order.averagePrice).toBe(95);
+    expect(account.state.walletBalance).toBeCloseTo(10000 - 2 * 95 * 0.0002);
+  });
+
+  test('triggers stop orders on the last price', () => {
+    const account = createAccount();
+    account.placeOrder(
+      { symbol: 'BTCUSDT', side: OrderSide.BUY, type: OrderType.MARKET, quantity: 1 },
+      quote(100),
+    );
+    const stop = account.placeOrder(
+      {
+        symbol: 'BTCUSDT',
+        side: OrderSide.SELL,
+        type: OrderType.STOP_MARKET,
+        quantity: 0,
+        stopPrice: 90,
+        closePosition: true,
+      },
+      quote(100),
+    );
+
+    account.match('BTCUSDT', quote(91));
+    expect(stop.status).toBe(OrderStatus.NEW);
+
+    account.match('BTCUSDT', quote(89));
+    expect(stop.status).toBe(OrderStatus.FILLED);
+    expect(account.state.positions).toHaveLength(0);
+  });
+
+  test('liquidates positions once equity reaches maintenance margin', () => {
+    const account = createAccount(100);
+    account.setLeverage('BTCUSDT', 20);
+    account.placeOrder(
+      { symbol: 'BTCUSDT', side: OrderSide.BUY, type: OrderType.MARKET, quantity: 19 },
+      quote(100),
+    );
+
+    const { liquidationPrice } = account.getSummary().positions[0];
+    expect(liquidationPrice).toBeGreaterThan(95);
+    expect(liquidationPrice).toBeLessThan(96);
+
+    account.updatePrice('BTCUSDT', liquidationPrice + 0.1);
+    expect(account.checkLiquidation()).toHaveLength(0);
+
+    account.updatePrice('BTCUSDT', liquidationPrice - 0.1);
+    expect(account.checkLiquidation()).toHaveLength(1);
+    expect(account.state.positions).toHaveLength(0);
+    expect(account.state.walletBalance).toBeGreaterThanOrEqual(0);
+  });
+
+  test('charges funding once per interval', () => {
+    const account = createAccount();
+    const hour = 60 * 60 * 1000;
+    account.placeOrder(
+      { symbol: 'BTCUSDT', side: OrderSide.BUY, type: OrderType.MARKET, quantity: 10 },
+      quote(100),
+      hour,
+    );
+    const balance = account.state.walletBalance;
+
+    expect(account.getFundingDue(7 * hour)).toEqual([]);
+    expect(account.getFundingDue(8 * hour)).toEqual(['BTCUSDT']);
+
+    expect(account.applyFunding('BTCUSDT', 0.0001, 8 * hour)).toBeCloseTo(-0.1);
+    expect(account.state.walletBalance).toBeCloseTo(balance - 0.1);
+    expect(account.getFundingDue(9 * hour)).toEqual([]);
+  });
+});
@@ -2,7 +2,10 @@ import {
   mapOrder,
   mapTrade,
   mapPosition,
+  getTrailingTriggerPrice,
+  roundPerpPrice,
 } from '../src/exchanges/hyperliquid/perp/services/perp-helpers';
+import { OrderSide } from '../src/common/types/exchange.types';
 
 describe('Perp helpers', () => {
   test('mapOrder maps raw order to Order', () => {
@@ -58,4 +61,15 @@ describe('Perp helpers', () => {
     expect(mapped.entryPrice).toBe('28000');
     expect(mapped.unrealizedPnl).toBe('100');
   });
+
+  test('getTrailingTriggerPrice trails below the high for sells and above the low for buys', () => {
+    expect(getTrailingTriggerPrice(OrderSide.SELL, 200, 1)).toBeCloseTo(198);
+    expect(getTrailingTriggerPrice(OrderSide.BUY, 200, 1)).toBeCloseTo(202);
+  });
+
+  test('roundPerpPrice keeps 5 significant figures and 6 - szDecimals decimals', () => {
+    expect(roundPerpPrice(64321.987, 5)).toBe(64322);
+    expect(roundPerpPrice(3.1234567, 2)).toBe(3.1235);
+    expect(roundPerpPrice(0.01234567, 4)).toBe(0.01);
+  });
 });
@@ -0,0 +1,71 @@
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosAdapter } from 'axios';
+import {
+  RateLimitExceededError,
+  RateLimiterService,
+} from '../src/common/services/rate-limiter.service';
+import { RateLimitConfig } from '../src/config/rate-limit.config';
+
+const setup = (config: Partial<RateLimitConfig>, headers: Record<string, string> = {}) => {
+  const rateLimiter = new RateLimiterService({
+    get: () => ({ enabled: true, mode: 'reject', maxWaitMs: 0, headroom: 1, ...config }),
+  } as unknown as ConfigService);
+
+  let status = 200;
+  const adapter: AxiosAdapter = async config => {
+    const response = { data: {}, status, statusText: '', headers, config };
+    if (status >= 400) {
+      throw Object.assign(new Error(`Request failed with status code ${status}`), { response });
+    }
+    return response;
+  };
+  const client = axios.create({ baseURL: 'https://fapi.binance.com', adapter });
+  rateLimiter.attach('binance', client);
+
+  const budget = (id: string) =>
+    rateLimiter
+      .getStatus()
+      .find(s => s.exchange === 'binance')!
+      .budgets.find(b => b.id === id)!;
+
+  return { rateLimiter, client, budget, respondWith: (code: number) => (status = code) };
+};
+
+describe('RateLimiterService', () => {
+  // Keep the fixed windows from rolling over mid-test
+  beforeEach(() => jest.useFakeTimers({ now: new Date('2024-01-01T00:00:05Z') }));
+  afterEach(() => jest.useRealTimers());
+
+  test('weighs requests and rejects those over the budget', async () => {
+    const { client, budget } = setup({ headroom: 0.01 }); // 24 weight/min, 3 orders/10s
+
+    await client.get('/fapi/v1/depth', { params: { symbol: 'BTCUSDT', limit: 1000 } });
+    await client.post('/fapi/v1/order?symbol=BTCUSDT&side=BUY');
+
+    expect(budget('REQUEST_WEIGHT_1M')).toMatchObject({ limit: 24, used: 21, remaining: 3 });
+    expect(budget('ORDERS_10S')).toMatchObject({ limit: 3, used: 1 });
+
+    const rejected = client.get('/fapi/v1/depth?symbol=BTCUSDT&limit=100');
+    await expect(rejected).rejects.toThrow(RateLimitExceededError);
+    await expect(rejected).rejects.toThrow(/REQUEST_WEIGHT_1M budget exhausted, retry in 55s/);
+  });
+
+  test('adopts the usage reported by the exchange', async () => {
+    const { client, budget } = setup({}, { 'x-mbx-used-weight-1m': '2000' });
+
+    await client.get('/fapi/v1/time');
+
+    expect(budget('REQUEST_WEIGHT_1M')).toMatchObject({ used: 2000, remaining: 400 });
+  });
+
+  test('backs off after HTTP 429', async () => {
+    const { rateLimiter, client, respondWith } = setup({});
+    respondWith(429);
+
+    await expect(client.get('/fapi/v1/time')).rejects.toThrow(/status code 429/);
+
+    const status = rateLimiter.getStatus().find(s => s.exchange === 'binance')!;
+    expect(status.blockedUntil).toBeGreaterThan(Date.now());
+    await expect(client.get('/fapi/v1/time')).rejects.toThrow(/back off/);
+  });
+});
@@ -0,0 +1,104 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExchangeServiceFactory } from '../src/common/factory/exchange.factory';
+import { OrderSide } from '../src/common/types/exchange.types';
+import { RiskContextMiddleware } from '../src/risk/middleware/risk-context.middleware';
+import { RiskService } from '../src/risk/services/risk.service';
+import { checkOrder } from '../src/risk/shared/risk-checks';
+import { AccountExposure } from '../src/risk/types';
+
+describe('risk checks', () => {
+  const account = (): AccountExposure => ({
+    symbols: new Map([
+      ['BTCUSDT', { position: 0.01, long: 0, short: 0.01, price: 100000 }],
+      ['ETHUSDT', { position: -1, long: 0, short: 0, price: 3000 }],
+    ]),
+    openOrders: 1,
+  });
+
+  test('caps what a symbol and the account can reach once resting orders fill', () => {
+    const rejections = checkOrder(
+      { symbol: 'BTCUSDT', side: OrderSide.BUY, quantity: 0.02 },
+      { maxSymbolNotional: 2500, maxAccountNotional: 5000 },
+      account(),
+    );
+
+    expect(rejections).toMatchObject([
+      { check: 'symbolNotional', limit: 2500, value: 3000 },
+      { check: 'accountNotional', limit: 5000, value: 6000 },
+    ]);
+  });
+
+  test('lets orders through that reduce exposure', () => {
+    const limits = { maxSymbolNotional: 500, maxLeverage: 5, priceBandPercent: 5 };
+
+    expect(
+      checkOrder({ symbol: 'ETHUSDT', side: OrderSide.BUY, quantity: 1 }, limits, account()),
+    ).toEqual([]);
+    expect(
+      checkOrder(
+        { symbol: 'ETHUSDT', side: OrderSide.SELL, quantity: 1, price: 2500, reduceOnly: true },
+        limits,
+        account(),
+      ).map(rejection => rejection.check),
+    ).toEqual(['priceBand']);
+  });
+
+  test('flags fat fingers and too many open orders', () => {
+    const rejections = checkOrder(
+      { symbol: 'BTCUSDT', side: OrderSide.SELL, quantity: 10, price: 100000 },
+      { maxOrderQuantity: 1, maxOrderNotional: 50000, maxOpenOrders: 1 },
+      account(),
+    );
+
+    expect(rejections.map(rejection => rejection.check)).toEqual([
+      'orderQuantity',
+      'orderNotional',
+      'openOrders',
+    ]);
+  });
+});
+
+describe('RiskService', () => {
+  const setup = () => {
+    const config: Record<string, any> = {
+      API_KEY_ACCESS: 'ops-key,bot-key',
+      trading: { maxPositionSize: 1000 },
+      risk: {
+        enabled: true,
+        limits: { maxLeverage: 20 },
+        exchangeLimits: { binance: { maxLeverage: 10, maxOpenOrders: 50 } },
+        apiKeyLimits: { 'bot-key': { maxSymbolNotional: 250 } },
+      },
+    };
+    const configService = { get: (key: string) => config[key] } as unknown as ConfigService;
+    const service = new RiskService(configService, {} as ExchangeServiceFactory);
+
+    return { service, middleware: new RiskContextMiddleware(configService, service) };
+  };
+
+  test('layers exchange and API key limits over the defaults', () => {
+    const { service } = setup();
+
+    expect(service.getLimits('okx')).toEqual({ maxSymbolNotional: 1000, maxLeverage: 20 });
+    expect(service.runWithApiKey('bot-key', () => service.getLimits('binance'))).toEqual({
+      maxSymbolNotional: 250,
+      maxLeverage: 10,
+      maxOpenOrders: 50,
+    });
+  });
+
+  test('only takes the limits of an authenticated API key', () => {
+    const { service, middleware } = setup();
+    const limitsFor = (apiKey: string) => {
+      let limits;
+      middleware.use({ headers: { 'x-api-key': apiKey } } as any, {} as any, () => {
+        limits = service.getLimits('okx');
+      });
+      return limits;
+    };
+
+    expect(limitsFor('bot-key')).toMatchObject({ maxSymbolNotional: 250 });
+    expect(() => limitsFor('unknown-key')).toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,60 @@
+import { OrderSide } from '../src/common/types/exchange.types';
+import { planRoute } from '../src/routing/shared/route-planner';
+import { VenueQuote } from '../src/routing/types';
+
+const venue = (overrides: Partial<VenueQuote>): VenueQuote => ({
+  exchange: 'binance',
+  symbol: 'BTCUSDT',
+  levels: [],
+  feeRate: 0,
+  maxNotional: Infinity,
+  ...overrides,
+});
+
+describe('planRoute', () => {
+  const binance = venue({
+    levels: [
+      [100, 1],
+      [101, 1],
+    ],
+    feeRate: 0.001,
+  });
+  const okx = venue({
+    exchange: 'okx',
+    symbol: 'BTC-USDT-SWAP',
+    levels: [
+      [100.05, 1],
+      [100.5, 1],
+    ],
+    feeRate: 0,
+  });
+
+  test('takes the cheapest fee-adjusted levels across venues', () => {
+    const plan = planRoute(OrderSide.BUY, 2.5, [binance, okx], true);
+
+    // 100.05 (okx) < 100.1 (binance incl. fee) < 100.5 (okx) < 101.101 (binance)
+    expect(plan.unfilled).toBe(0);
+    expect(plan.slices).toEqual([
+      expect.objectContaining({ exchange: 'binance', quantity: 1, expectedPrice: 100 }),
+      expect.objectContaining({ exchange: 'okx', quantity: 1.5 }),
+    ]);
+    expect(plan.slices[0].expectedFee).toBeCloseTo(0.1);
+    expect(plan.slices[1].expectedPrice).toBeCloseTo(100.2);
+  });
+
+  test('caps each venue at the notional its margin supports', () => {
+    const plan = planRoute(OrderSide.BUY, 2, [binance, { ...okx, maxNotional: 50.025 }], true);
+
+    expect(plan.slices.find(s => s.exchange === 'okx')!.quantity).toBeCloseTo(0.5);
+    expect(plan.slices.find(s => s.exchange === 'binance')!.quantity).toBeCloseTo(1.5);
+  });
+
+  test('without splitting sends everything to the best venue that fills it', () => {
+    const sell = planRoute(OrderSide.SELL, 1, [binance, okx], false);
+    expect(sell.slices).toEqual([expect.objectContaining({ exchange: 'okx', quantity: 1 })]);
+
+    const tooBig = planRoute(OrderSide.BUY, 3, [binance, okx], false);
+    expect(tooBig.slices).toHaveLength(1);
+    expect(tooBig.unfilled).toBe(1);
+  });
+});
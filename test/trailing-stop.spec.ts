@@ -0,0 +1,90 @@
+import { ConfigService } from '@nestjs/config';
+import { OrderSide, OrderType } from '../src/common/types/exchange.types';
+import { PositionService } from '../src/exchanges/hyperliquid/perp/services/position.service';
+import { TrailingStopService } from '../src/exchanges/hyperliquid/perp/services/trailing-stop.service';
+import { HyperliquidApiService } from '../src/exchanges/hyperliquid/shared/hyperliquid-api.service';
+
+describe('Hyperliquid TrailingStopService', () => {
+  let mid = '100';
+  let status = 'open';
+  let nextOid = 1;
+  const api = {
+    getAllMids: async () => ({ success: true, data: { ETH: mid } }),
+    getAssetInfo: async () => ({ szDecimals: 2 }),
+    getOrderStatus: async () => ({
+      success: true,
+      data: { status: 'order', order: { status } },
+    }),
+    placeOrder: jest.fn<Promise<any>, [any]>(async () => ({
+      success: true,
+      data: { response: { data: { statuses: [{ resting: { oid: nextOid++ } }] } } },
+    })),
+    cancelOrder: jest.fn(async () => ({ success: true })),
+  };
+  const positions = {
+    getPositions: async () => ({ success: true, data: { side: 'LONG', size: '2' } }),
+  };
+  let service: TrailingStopService;
+
+  beforeEach(() => {
+    mid = '100';
+    status = 'open';
+    nextOid = 1;
+    api.placeOrder.mockClear();
+    api.cancelOrder.mockClear();
+    service = new TrailingStopService(
+      { get: () => ({ trailingStopIntervalMs: 1000 }) } as unknown as ConfigService,
+      api as unknown as HyperliquidApiService,
+      positions as unknown as PositionService,
+    );
+  });
+  afterEach(() => service.onModuleDestroy());
+
+  const tick = () => service['runTick']();
+  const triggerPrices = () =>
+    api.placeOrder.mock.calls.map(([request]) => request.order_type.trigger.triggerPx);
+
+  test('moves the trigger order up behind the high and stops once triggered', async () => {
+    const result = await service.start({ symbol: 'ETHUSDT', callbackRate: 1 });
+
+    expect(result.data).toMatchObject({
+      side: OrderSide.SELL,
+      type: OrderType.TRAILING_STOP,
+      quantity: '2',
+      price: '99',
+    });
+
+    mid = '102';
+    await tick();
+    mid = '101';
+    await tick();
+
+    expect(triggerPrices()).toEqual([99, 100.98]);
+    expect(api.placeOrder.mock.calls[1][0]).toMatchObject({ is_buy: false, reduce_only: true });
+    expect(api.cancelOrder).toHaveBeenCalledWith('ETH', 1);
+
+    status = 'triggered';
+    await tick();
+
+    expect(service.has(result.data!.orderId)).toBe(false);
+  });
+
+  test('places nothing until the activation price is reached', async () => {
+    const result = await service.start({
+      symbol: 'ETHUSDT',
+      callbackRate: 2,
+      activationPrice: '110',
+      side: 'SELL',
+      quantity: '1',
+    });
+    await tick();
+    expect(api.placeOrder).not.toHaveBeenCalled();
+
+    mid = '110';
+    await tick();
+    expect(triggerPrices()).toEqual([107.8]);
+
+    await service.cancel(result.data!.orderId);
+    expect(api.cancelOrder).toHaveBeenCalledWith('ETH', 1);
+  });
+});